@@ -16,6 +16,10 @@ type AIModel = {
   modelId: string;
   provider: string;
   description: string | null;
+  taskTypes: string[];
+  inputPricePerMTok: number | null;
+  outputPricePerMTok: number | null;
+  audioPricePerMinute: number | null;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -53,6 +57,11 @@ export default function AIModelsPage() {
     setFormOpen(true);
   };
 
+  const handleEdit = (model: AIModel) => {
+    setSelectedModel(model);
+    setFormOpen(true);
+  };
+
   const handleSync = () => {
     syncModels.mutate();
   };
@@ -64,7 +73,7 @@ export default function AIModelsPage() {
         <div>
           <h1 className="text-3xl font-bold tracking-tight">AI Models</h1>
           <p className="text-muted-foreground mt-2">
-            Manage AI models available for blueprint extraction
+            Manage AI models and the tasks each one handles
           </p>
         </div>
         <div className="flex gap-2">
@@ -153,7 +162,7 @@ export default function AIModelsPage() {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {activeModels.map((model) => (
-              <AIModelCard key={model.id} model={model} />
+              <AIModelCard key={model.id} model={model} onEdit={() => handleEdit(model)} />
             ))}
           </div>
         </div>
@@ -169,7 +178,7 @@ export default function AIModelsPage() {
           </div>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {inactiveModels.map((model) => (
-              <AIModelCard key={model.id} model={model} />
+              <AIModelCard key={model.id} model={model} onEdit={() => handleEdit(model)} />
             ))}
           </div>
         </div>
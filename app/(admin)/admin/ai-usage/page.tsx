@@ -0,0 +1,25 @@
+// app/(admin)/admin/ai-usage/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { AIUsageDashboard } from "@/modules/admin/aiUsage/ui/AIUsageDashboard";
+
+/**
+ * AI Usage Page
+ * Monthly AI spend by feature, certification and model, with budgets
+ */
+export default async function AIUsagePage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("ai_usage.read")) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <AIUsageDashboard canManageBudgets={authContext.permissions.includes("ai_usage.manage")} />
+  );
+}
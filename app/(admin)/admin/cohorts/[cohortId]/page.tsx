@@ -0,0 +1,37 @@
+// app/(admin)/admin/cohorts/[cohortId]/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { CohortDetail } from "@/modules/admin/cohorts/ui/CohortDetail";
+
+interface PageProps {
+  params: Promise<{
+    cohortId: string;
+  }>;
+}
+
+/**
+ * Cohort Page
+ * Roster with each student's progress, and enrollment for cohort managers
+ */
+export default async function CohortPage({ params }: PageProps) {
+  const { cohortId } = await params;
+
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("cohorts.read")) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <CohortDetail
+      cohortId={cohortId}
+      canManage={authContext.permissions.includes("cohorts.manage")}
+      canViewProgress={authContext.permissions.includes("students.read")}
+    />
+  );
+}
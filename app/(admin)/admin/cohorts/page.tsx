@@ -0,0 +1,23 @@
+// app/(admin)/admin/cohorts/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { CohortList } from "@/modules/admin/cohorts/ui/CohortList";
+
+/**
+ * Cohorts Page
+ * Cohort managers see every cohort; instructors see the ones they teach
+ */
+export default async function CohortsPage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("cohorts.read")) {
+    redirect("/dashboard");
+  }
+
+  return <CohortList canManage={authContext.permissions.includes("cohorts.manage")} />;
+}
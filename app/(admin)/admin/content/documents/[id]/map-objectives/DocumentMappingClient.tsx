@@ -305,7 +305,9 @@ export function DocumentMappingClient({
                           <Badge variant="outline" className="text-xs">
                             {mapping.mappingSource === "manual"
                               ? "Manual"
-                              : "AI Confirmed"}
+                              : mapping.mappingSource === "ai_suggested"
+                                ? "AI Suggested"
+                                : "AI Confirmed"}
                           </Badge>
                           <div className="flex items-center gap-2">
                             <Button
@@ -0,0 +1,22 @@
+/**
+ * Flashcard Drafts Page
+ *
+ * Generate and review shared flashcards for certification objectives
+ */
+
+import { SharedFlashcardReview } from "@/modules/student/flashcards/ui/SharedFlashcardReview";
+
+export default function FlashcardDraftsPage() {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Flashcards</h1>
+        <p className="text-muted-foreground">
+          Review generated flashcards before students can add them to their decks
+        </p>
+      </div>
+
+      <SharedFlashcardReview />
+    </div>
+  );
+}
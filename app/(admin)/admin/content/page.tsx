@@ -4,7 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ChevronLeft, ChevronRight, Upload, FileVideo, FileText } from "lucide-react";
+import { ChevronLeft, ChevronRight, Upload, FileVideo, FileText, Layers } from "lucide-react";
 import { ContentStats } from "@/modules/content/ui/ContentStats";
 import { ContentFilters } from "@/modules/content/ui/ContentFilters";
 import { ContentGrid } from "@/modules/content/ui/ContentGrid";
@@ -13,10 +13,12 @@ import { ContentPreviewSidebar } from "@/modules/content/ui/ContentPreviewSideba
 import { ContentPreviewExpandable } from "@/modules/content/ui/ContentPreviewExpandable";
 import { ViewToggle } from "@/modules/content/ui/ViewToggle";
 import { BulkActionsBar } from "@/modules/content/ui/BulkActionsBar";
+import { SemanticSearchResults } from "@/modules/content/ui/SemanticSearchResults";
 import { useContentLibrary } from "@/modules/content/hooks/useContentLibrary";
 import { useContentPreview } from "@/modules/content/hooks/useContentPreview";
 import type {
   ContentSearchInput,
+  ContentSearchMode,
   UnifiedContentItem,
 } from "@/modules/content/types/contentLibrary.types";
 
@@ -27,16 +29,19 @@ import type {
 export default function ContentLibraryPage() {
   // View state
   const [view, setView] = useState<"grid" | "list">("grid");
+  const [searchMode, setSearchMode] = useState<ContentSearchMode>("keyword");
 
   // Filter state
   const [filters, setFilters] = useState<ContentSearchInput>({
-    page: 1,
     pageSize: 10,
     sortBy: "createdAt",
     sortOrder: "desc",
     mappedStatus: "all",
   });
 
+  // Cursors of the pages before the current one, for going back
+  const [previousCursors, setPreviousCursors] = useState<(string | undefined)[]>([]);
+
   // Selection state
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [expandedMobileId, setExpandedMobileId] = useState<string | null>(null);
@@ -48,7 +53,9 @@ export default function ContentLibraryPage() {
   const { data, isLoading, error } = useContentLibrary(filters);
 
   const handleFiltersChange = (newFilters: Partial<ContentSearchInput>) => {
-    setFilters((prev) => ({ ...prev, ...newFilters }));
+    // Any filter change starts again from the first page
+    setFilters((prev) => ({ ...prev, ...newFilters, cursor: undefined }));
+    setPreviousCursors([]);
     setSelectedIds([]); // Clear selection when filters change
   };
 
@@ -73,10 +80,22 @@ export default function ContentLibraryPage() {
     setExpandedMobileId((prev) => (prev === item.id ? null : item.id));
   };
 
-  const handlePageChange = (newPage: number) => {
-    handleFiltersChange({ page: newPage });
+  const handleNextPage = () => {
+    if (!data?.nextCursor) return;
+    setPreviousCursors((prev) => [...prev, filters.cursor]);
+    setFilters((prev) => ({ ...prev, cursor: data.nextCursor ?? undefined }));
+    setSelectedIds([]);
+  };
+
+  const handlePreviousPage = () => {
+    setFilters((prev) => ({ ...prev, cursor: previousCursors[previousCursors.length - 1] }));
+    setPreviousCursors((prev) => prev.slice(0, -1));
+    setSelectedIds([]);
   };
 
+  const currentPage = previousCursors.length + 1;
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
   // Determine content type for bulk operations
   const selectedContentType =
     data?.items.find((item) => selectedIds.includes(item.id))?.contentType ??
@@ -105,6 +124,12 @@ export default function ContentLibraryPage() {
               Documents
             </Link>
           </Button>
+          <Button asChild variant="outline">
+            <Link href="/admin/content/flashcards">
+              <Layers className="h-4 w-4 mr-2" />
+              Flashcards
+            </Link>
+          </Button>
           <Button asChild>
             <Link href="/admin/content/videos/upload">
               <Upload className="h-4 w-4 mr-2" />
@@ -126,9 +151,17 @@ export default function ContentLibraryPage() {
       {/* Filters & View Toggle */}
       <div className="flex flex-col lg:flex-row gap-4 items-start lg:items-center justify-between">
         <div className="flex-1 w-full">
-          <ContentFilters filters={filters} onFiltersChange={handleFiltersChange} />
+          <ContentFilters
+            filters={filters}
+            onFiltersChange={handleFiltersChange}
+            searchMode={searchMode}
+            onSearchModeChange={(mode) => {
+              setSearchMode(mode);
+              setSelectedIds([]);
+            }}
+          />
         </div>
-        <ViewToggle view={view} onViewChange={setView} />
+        {searchMode === "keyword" && <ViewToggle view={view} onViewChange={setView} />}
       </div>
 
       {/* Bulk Actions Bar */}
@@ -144,7 +177,15 @@ export default function ContentLibraryPage() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Content Area */}
         <div className="lg:col-span-2 space-y-4">
-          {isLoading ? (
+          {searchMode === "meaning" ? (
+            <SemanticSearchResults
+              input={{
+                query: filters.query ?? "",
+                contentType: filters.contentType,
+                certificationId: filters.certificationId,
+              }}
+            />
+          ) : isLoading ? (
             <ContentSkeleton view={view} />
           ) : error ? (
             <div className="text-center py-12">
@@ -200,18 +241,18 @@ export default function ContentLibraryPage() {
               )}
 
               {/* Pagination */}
-              {data.totalPages > 1 && (
+              {totalPages > 1 && (
                 <div className="flex items-center justify-between">
                   <p className="text-sm text-muted-foreground">
-                    Page {data.page} of {data.totalPages} ({data.total} total
+                    Page {currentPage} of {totalPages} ({data.total} total
                     items)
                   </p>
                   <div className="flex items-center gap-2">
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handlePageChange(data.page - 1)}
-                      disabled={data.page === 1}
+                      onClick={handlePreviousPage}
+                      disabled={currentPage === 1}
                     >
                       <ChevronLeft className="h-4 w-4 mr-1" />
                       Previous
@@ -219,8 +260,8 @@ export default function ContentLibraryPage() {
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => handlePageChange(data.page + 1)}
-                      disabled={data.page === data.totalPages}
+                      onClick={handleNextPage}
+                      disabled={!data.nextCursor}
                     >
                       Next
                       <ChevronRight className="h-4 w-4 ml-1" />
@@ -21,9 +21,14 @@ import {
 import { SuggestedMappingCard } from "@/modules/content/ui/SuggestedMappingCard";
 import { ManualMappingCombobox } from "@/modules/content/ui/ManualMappingCombobox";
 import { MappingHierarchy } from "@/modules/content/ui/MappingHierarchy";
-import type { MappingSuggestion } from "@/modules/content/types/mapping.types";
+import { formatTimeRange } from "@/modules/content/lib/segmentMapping";
+import type {
+  MappingSuggestion,
+  VideoContentMappingWithHierarchy,
+} from "@/modules/content/types/mapping.types";
 import {
   Sparkles,
+  Clock,
   Loader2,
   CheckCircle2,
   Plus,
@@ -113,6 +118,8 @@ export function VideoMappingClient({
           primarySuggestionIndex !== null &&
           suggestions[primarySuggestionIndex] === suggestion,
         confidence: suggestion.confidence,
+        startSeconds: suggestion.startSeconds,
+        endSeconds: suggestion.endSeconds,
       }));
 
     applyMappings(
@@ -287,10 +294,13 @@ export function VideoMappingClient({
               {mappingsSummary.primaryMapping && (
                 <div className="rounded-lg border border-primary bg-primary/5 p-4">
                   <div className="mb-2 flex items-center justify-between">
-                    <Badge variant="default" className="text-xs">
-                      <Star className="mr-1 h-3 w-3" />
-                      Primary
-                    </Badge>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="default" className="text-xs">
+                        <Star className="mr-1 h-3 w-3" />
+                        Primary
+                      </Badge>
+                      <TimeRangeBadge mapping={mappingsSummary.primaryMapping} />
+                    </div>
                     <div className="flex items-center gap-2">
                       <Button
                         size="sm"
@@ -323,11 +333,14 @@ export function VideoMappingClient({
                         className="rounded-lg border p-4"
                       >
                         <div className="mb-2 flex items-center justify-between">
-                          <Badge variant="outline" className="text-xs">
-                            {mapping.mappingSource === "manual"
-                              ? "Manual"
-                              : "AI Confirmed"}
-                          </Badge>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="text-xs">
+                              {mapping.mappingSource === "manual"
+                                ? "Manual"
+                                : "AI Confirmed"}
+                            </Badge>
+                            <TimeRangeBadge mapping={mapping} />
+                          </div>
                           <div className="flex items-center gap-2">
                             <Button
                               size="sm"
@@ -369,3 +382,15 @@ export function VideoMappingClient({
     </div>
   );
 }
+
+function TimeRangeBadge({ mapping }: { mapping: VideoContentMappingWithHierarchy }) {
+  const timeRange = formatTimeRange(mapping.startSeconds, mapping.endSeconds);
+  if (!timeRange) return null;
+
+  return (
+    <Badge variant="secondary" className="text-xs">
+      <Clock className="mr-1 h-3 w-3" />
+      {timeRange}
+    </Badge>
+  );
+}
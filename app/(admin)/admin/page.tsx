@@ -1,12 +1,13 @@
 // app/(admin)/admin/page.tsx
 import { redirect } from "next/navigation";
 import { validateSession } from "@/lib/auth/validateSession";
+import { canAccessAdminArea } from "@/lib/auth/permissions";
 import Link from "next/link";
 import { BookOpen, Users, BarChart, FileVideo, ClipboardList } from "lucide-react";
 
 /**
  * Admin Dashboard Page
- * Accessible only to users with "admin" or "instructor" role
+ * Accessible to users whose roles grant any permission beyond a student's
  */
 export default async function AdminDashboardPage() {
   // Validate session - throws if not authenticated
@@ -17,8 +18,8 @@ export default async function AdminDashboardPage() {
     redirect("/");
   }
 
-  // Check if user has admin or instructor role
-  const isAuthorized = authContext.roles.includes("admin") || authContext.roles.includes("instructor");
+  // Check the user's roles grant admin permissions
+  const isAuthorized = canAccessAdminArea(authContext.permissions);
   if (!isAuthorized) {
     redirect("/dashboard");
   }
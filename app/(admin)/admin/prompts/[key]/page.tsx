@@ -0,0 +1,46 @@
+// app/(admin)/admin/prompts/[key]/page.tsx
+import { notFound, redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { PROMPT_KEYS, type PromptKey } from "@/lib/ai/prompts";
+import { PromptEditor } from "@/modules/admin/prompts/ui/PromptEditor";
+
+interface PageProps {
+  params: Promise<{
+    key: string;
+  }>;
+  searchParams: Promise<{
+    certificationId?: string;
+  }>;
+}
+
+/**
+ * Prompt Page
+ * Edit a prompt's default or certification override, preview it and browse history
+ */
+export default async function PromptPage({ params, searchParams }: PageProps) {
+  const { key } = await params;
+  const { certificationId } = await searchParams;
+
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("prompts.read")) {
+    redirect("/dashboard");
+  }
+
+  if (!PROMPT_KEYS.includes(key as PromptKey)) {
+    notFound();
+  }
+
+  return (
+    <PromptEditor
+      promptKey={key as PromptKey}
+      initialCertificationId={certificationId ?? null}
+      canManage={authContext.permissions.includes("prompts.manage")}
+    />
+  );
+}
@@ -0,0 +1,23 @@
+// app/(admin)/admin/prompts/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { PromptList } from "@/modules/admin/prompts/ui/PromptList";
+
+/**
+ * Prompts Page
+ * AI prompt templates with their live versions and certification overrides
+ */
+export default async function PromptsPage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("prompts.read")) {
+    redirect("/dashboard");
+  }
+
+  return <PromptList />;
+}
@@ -0,0 +1,36 @@
+// app/(admin)/admin/questions/[questionId]/review/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { QuestionReviewPanel } from "@/modules/admin/questions/ui/QuestionReviewPanel";
+
+interface PageProps {
+  params: Promise<{ questionId: string }>;
+}
+
+/**
+ * Question Review Page
+ * Reviewers, comment threads, workflow moves and audit trail for one question
+ */
+export default async function QuestionReviewPage({ params }: PageProps) {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("questions.read")) {
+    redirect("/dashboard");
+  }
+
+  const { questionId } = await params;
+
+  return (
+    <div className="container mx-auto py-8">
+      <QuestionReviewPanel
+        questionId={questionId}
+        canAssignReviewers={authContext.permissions.includes("questions.edit")}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+// app/(admin)/admin/questions/[questionId]/revisions/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { QuestionRevisionHistory } from "@/modules/admin/questions/ui/QuestionRevisionHistory";
+
+interface PageProps {
+  params: Promise<{ questionId: string }>;
+}
+
+/**
+ * Question Revisions Page
+ * Saved versions of one question with a side-by-side diff and restore
+ */
+export default async function QuestionRevisionsPage({ params }: PageProps) {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("questions.read")) {
+    redirect("/dashboard");
+  }
+
+  const { questionId } = await params;
+
+  return (
+    <div className="container mx-auto py-8">
+      <QuestionRevisionHistory
+        questionId={questionId}
+        canRestore={authContext.permissions.includes("questions.edit")}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+// app/(admin)/admin/questions/duplicates/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { SimilarQuestionsReport } from "@/modules/admin/questions/ui/SimilarQuestionsReport";
+
+/**
+ * Similar Questions Page
+ * Near-duplicate question pairs per certification, with merge and retire
+ */
+export default async function SimilarQuestionsPage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("questions.read")) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <SimilarQuestionsReport canResolve={authContext.permissions.includes("questions.publish")} />
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Question Import & Export Page
+ *
+ * Bulk import questions from CSV/Excel, QTI 2.1 or GIFT with a dry-run
+ * preview, and export them in any of those formats.
+ */
+
+"use client";
+
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { QuestionExportPanel } from "@/modules/admin/questions/ui/QuestionExportPanel";
+import { QuestionImportPanel } from "@/modules/admin/questions/ui/QuestionImportPanel";
+
+export default function QuestionImportExportPage() {
+  const { data } = useCertifications({ status: "all", sortBy: "name", sortOrder: "asc" });
+  const certifications = data?.data ?? [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Import &amp; Export Questions</h1>
+        <p className="text-muted-foreground">
+          Move questions in and out of the question bank with CSV, Excel, QTI 2.1 or GIFT files
+        </p>
+      </div>
+
+      <Tabs defaultValue="import">
+        <TabsList>
+          <TabsTrigger value="import">Import</TabsTrigger>
+          <TabsTrigger value="export">Export</TabsTrigger>
+        </TabsList>
+        <TabsContent value="import">
+          <QuestionImportPanel certifications={certifications} />
+        </TabsContent>
+        <TabsContent value="export">
+          <QuestionExportPanel certifications={certifications} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
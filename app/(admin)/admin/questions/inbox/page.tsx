@@ -0,0 +1,27 @@
+// app/(admin)/admin/questions/inbox/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { QuestionDraftInbox } from "@/modules/admin/questions/ui/QuestionDraftInbox";
+
+/**
+ * Question Inbox Page
+ * Batch AI drafts for question task gaps, reviewed before they are added
+ */
+export default async function QuestionInboxPage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("questions.create")) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <QuestionDraftInbox />
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ import { Progress } from "@/components/ui/progress";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { toast } from "sonner";
 import { QuestionFilterModal, type FilterState } from "@/modules/admin/questions/ui";
+import { QuestionStatusBadge } from "@/modules/admin/questions/ui/QuestionStatusBadge";
+import { useExportQuestions } from "@/modules/admin/questions/hooks/useQuestionSheets";
 import {
   Eye,
   Pencil,
@@ -41,7 +43,13 @@ import {
   X,
   CheckSquare,
   ArrowLeft,
-  HelpCircle
+  HelpCircle,
+  Download,
+  FileSpreadsheet,
+  TerminalSquare,
+  Inbox,
+  ClipboardCheck,
+  Files
 } from "lucide-react";
 import { getQuestionsWithHierarchy } from "@/modules/admin/questions/serverActions";
 
@@ -78,6 +86,7 @@ interface Objective {
 
 function QuestionsDashboardPageContent() {
   const { deleteQuestion, bulkDeleteQuestions } = useAdminQuestions();
+  const exportQuestions = useExportQuestions();
   const [questions, setQuestions] = useState<QuestionWithHierarchyData[]>([]);
   const [certifications, setCertifications] = useState<Certification[]>([]);
   const [activeTasks, setActiveTasks] = useState<ActiveTask[]>([]);
@@ -239,6 +248,10 @@ function QuestionsDashboardPageContent() {
     router.push(`/admin/questions/${item.id}/view`);
   }, [router]);
 
+  const handleReview = useCallback((item: QuestionWithHierarchyData) => {
+    router.push(`/admin/questions/${item.id}/review`);
+  }, [router]);
+
   const handleEdit = useCallback((item: QuestionWithHierarchyData) => {
     router.push(`/admin/questions/${item.id}/edit`);
   }, [router]);
@@ -315,7 +328,7 @@ function QuestionsDashboardPageContent() {
       key: "actions",
       header: "Actions",
       align: "center",
-      width: "120px",
+      width: "150px",
       render: (item: QuestionWithHierarchyData) => (
         <div className="flex items-center justify-center gap-1">
           <Button
@@ -330,6 +343,18 @@ function QuestionsDashboardPageContent() {
           >
             <Eye className="h-4 w-4" />
           </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleReview(item);
+            }}
+            className="h-8 w-8 p-0 hover:bg-purple-100 hover:text-purple-600"
+            aria-label={`Review ${item.text}`}
+          >
+            <ClipboardCheck className="h-4 w-4" />
+          </Button>
           <Button
             size="sm"
             variant="ghost"
@@ -382,6 +407,15 @@ function QuestionsDashboardPageContent() {
         </Badge>
       ),
     },
+    {
+      key: "status",
+      header: "Status",
+      width: "140px",
+      align: "center",
+      render: (item: QuestionWithHierarchyData) => (
+        <QuestionStatusBadge status={item.status} className="cursor-default" />
+      ),
+    },
     {
       key: "certification",
       header: "Certification",
@@ -412,7 +446,7 @@ function QuestionsDashboardPageContent() {
         </div>
       ),
     },
-  ], [getQuestionTypeAbbreviation, handleView, handleEdit, handleDelete]);
+  ], [getQuestionTypeAbbreviation, handleView, handleReview, handleEdit, handleDelete]);
 
   const bulkActions = useMemo(() => [
     {
@@ -431,6 +465,15 @@ function QuestionsDashboardPageContent() {
       action: () => tableActions.clearSelection(),
       disabled: tableState.selectedItems.length === 0,
     },
+    {
+      key: 'export',
+      label: 'Export Selected',
+      icon: <Download className="h-4 w-4" />,
+      variant: 'outline' as const,
+      action: (selectedQuestions: SerializedQuestionWithHierarchy[]) =>
+        exportQuestions.mutate({ format: 'xlsx', questionIds: selectedQuestions.map(q => q.id) }),
+      disabled: tableState.selectedItems.length === 0 || exportQuestions.isPending,
+    },
     {
       key: 'delete',
       label: 'Delete Selected',
@@ -439,7 +482,7 @@ function QuestionsDashboardPageContent() {
       action: handleBulkDelete,
       disabled: tableState.selectedItems.length === 0,
     }
-  ], [handleBulkDelete, tableActions, tableState.selectedItems.length, questions.length]);
+  ], [handleBulkDelete, exportQuestions, tableActions, tableState.selectedItems.length, questions.length]);
 
   const mobileCardRender = useCallback((question: SerializedQuestionWithHierarchy) => {
     return (
@@ -616,6 +659,36 @@ function QuestionsDashboardPageContent() {
                   Create Question Task
                 </Button>
               </Link>
+              <Link href="/admin/questions/review">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <ClipboardCheck className="w-4 h-4" />
+                  Review Queue
+                </Button>
+              </Link>
+              <Link href="/admin/questions/inbox">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Inbox className="w-4 h-4" />
+                  Draft Inbox
+                </Button>
+              </Link>
+              <Link href="/admin/questions/duplicates">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <Files className="w-4 h-4" />
+                  Similar Questions
+                </Button>
+              </Link>
+              <Link href="/admin/questions/import-export">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <FileSpreadsheet className="w-4 h-4" />
+                  Import / Export
+                </Button>
+              </Link>
+              <Link href="/admin/questions/pbqs">
+                <Button variant="outline" className="flex items-center gap-2">
+                  <TerminalSquare className="w-4 h-4" />
+                  PBQs
+                </Button>
+              </Link>
               <Link href="/admin/questions/new/edit">
                 <Button variant="outline" className="flex items-center gap-2">
                   <Plus className="w-4 h-4" />
@@ -0,0 +1,42 @@
+/**
+ * Edit PBQ Page
+ */
+
+"use client";
+
+import { use } from "react";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { useAdminPBQ } from "@/modules/admin/questions/hooks/useAdminPBQs";
+import { PBQForm } from "@/modules/admin/questions/ui/PBQForm";
+
+interface PageProps {
+  params: Promise<{
+    pbqId: string;
+  }>;
+}
+
+export default function EditPBQPage({ params }: PageProps) {
+  const { pbqId } = use(params);
+  const { data } = useCertifications({ status: "all", sortBy: "name", sortOrder: "asc" });
+  const certifications = data?.data ?? [];
+  const { data: pbq, isLoading, error } = useAdminPBQ(pbqId);
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Edit PBQ</h1>
+        <p className="text-muted-foreground">
+          {pbq ? `${pbq.title} · ${pbq.attemptCount} attempts` : "Loading..."}
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-muted-foreground">Loading PBQ...</p>
+      ) : error || !pbq ? (
+        <p className="text-muted-foreground">{error?.message ?? "PBQ not found"}</p>
+      ) : (
+        <PBQForm key={pbq.id} certifications={certifications} pbq={pbq} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * Create PBQ Page
+ */
+
+"use client";
+
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { PBQForm } from "@/modules/admin/questions/ui/PBQForm";
+
+export default function CreatePBQPage() {
+  const { data } = useCertifications({ status: "all", sortBy: "name", sortOrder: "asc" });
+  const certifications = data?.data ?? [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Create PBQ</h1>
+        <p className="text-muted-foreground">
+          Define what students see and how their answer is scored
+        </p>
+      </div>
+
+      <PBQForm certifications={certifications} />
+    </div>
+  );
+}
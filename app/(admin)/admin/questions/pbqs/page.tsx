@@ -0,0 +1,39 @@
+/**
+ * PBQ Management Page
+ *
+ * Lists performance-based questions with their attempt stats.
+ */
+
+"use client";
+
+import Link from "next/link";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { PBQList } from "@/modules/admin/questions/ui/PBQList";
+
+export default function PBQsPage() {
+  const { data } = useCertifications({ status: "all", sortBy: "name", sortOrder: "asc" });
+  const certifications = data?.data ?? [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Performance-Based Questions</h1>
+          <p className="text-muted-foreground">
+            Firewall, log analysis, drag and drop and image labeling scenarios
+          </p>
+        </div>
+        <Link href="/admin/questions/pbqs/new">
+          <Button className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New PBQ
+          </Button>
+        </Link>
+      </div>
+
+      <PBQList certifications={certifications} />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+// app/(admin)/admin/questions/review/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { QuestionReviewQueue } from "@/modules/admin/questions/ui/QuestionReviewQueue";
+
+/**
+ * Question Review Queue Page
+ * Questions at each step of the editorial workflow
+ */
+export default async function QuestionReviewQueuePage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("questions.read")) {
+    redirect("/dashboard");
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      <QuestionReviewQueue />
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+// app/(admin)/admin/roles/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { RoleManager } from "@/modules/admin/roles/ui/RoleManager";
+
+/**
+ * Roles & Permissions Page
+ * For creating custom roles and choosing each role's permissions
+ */
+export default async function RolesPage() {
+  let authContext;
+  try {
+    authContext = await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  if (!authContext.permissions.includes("roles.read")) {
+    redirect("/dashboard");
+  }
+
+  return <RoleManager canManage={authContext.permissions.includes("roles.manage")} />;
+}
@@ -1,6 +1,7 @@
 // app/(admin)/admin/settings/page.tsx
 import { redirect } from "next/navigation";
 import { validateSession } from "@/lib/auth/validateSession";
+import { canAccessAdminArea } from "@/lib/auth/permissions";
 import { Bell, Database, Mail, Shield, Palette } from "lucide-react";
 
 /**
@@ -15,7 +16,7 @@ export default async function AdminSettingsPage() {
     redirect("/");
   }
 
-  const isAuthorized = authContext.roles.includes("admin") || authContext.roles.includes("instructor");
+  const isAuthorized = canAccessAdminArea(authContext.permissions);
   if (!isAuthorized) {
     redirect("/dashboard");
   }
@@ -6,7 +6,11 @@ const adminNavLinks = [
   { href: "/admin", label: "Dashboard" },
   { href: "/admin/certifications", label: "Certifications" },
   { href: "/admin/content", label: "Content" },
+  { href: "/admin/cohorts", label: "Cohorts" },
   { href: "/admin/users", label: "Users" },
+  { href: "/admin/roles", label: "Roles" },
+  { href: "/admin/ai-usage", label: "AI Usage" },
+  { href: "/admin/prompts", label: "Prompts" },
 ];
 
 export default function AdminLayout({
@@ -0,0 +1,14 @@
+// app/(student)/dashboard/diagnostic/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { DiagnosticFlow } from "@/modules/student/diagnostic/ui/DiagnosticFlow";
+
+export default async function DiagnosticPage() {
+  try {
+    await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  return <DiagnosticFlow />;
+}
@@ -0,0 +1,22 @@
+// app/(student)/dashboard/pbqs/[pbqId]/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { PBQPlayer } from "@/modules/student/pbqs/ui/PBQPlayer";
+
+interface PageProps {
+  params: Promise<{
+    pbqId: string;
+  }>;
+}
+
+export default async function PBQPage({ params }: PageProps) {
+  try {
+    await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  const { pbqId } = await params;
+
+  return <PBQPlayer pbqId={pbqId} />;
+}
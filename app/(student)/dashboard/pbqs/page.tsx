@@ -0,0 +1,14 @@
+// app/(student)/dashboard/pbqs/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { PBQDashboard } from "@/modules/student/pbqs/ui/PBQDashboard";
+
+export default async function PBQsPage() {
+  try {
+    await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  return <PBQDashboard />;
+}
@@ -0,0 +1,27 @@
+// app/(student)/dashboard/videos/[videoId]/page.tsx
+import { redirect } from "next/navigation";
+import { validateSession } from "@/lib/auth/validateSession";
+import { VideoWatchView } from "@/modules/student/videos/ui/VideoWatchView";
+
+interface PageProps {
+  params: Promise<{
+    videoId: string;
+  }>;
+  searchParams: Promise<{
+    t?: string; // Start at this many seconds
+  }>;
+}
+
+export default async function VideoPage({ params, searchParams }: PageProps) {
+  try {
+    await validateSession();
+  } catch {
+    redirect("/");
+  }
+
+  const { videoId } = await params;
+  const { t } = await searchParams;
+  const startSeconds = t && /^\d+$/.test(t) ? Number(t) : undefined;
+
+  return <VideoWatchView videoId={videoId} startSeconds={startSeconds} />;
+}
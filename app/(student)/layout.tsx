@@ -5,6 +5,7 @@ const studentNavLinks = [
   { href: "/dashboard", label: "Dashboard" },
   { href: "/dashboard/learning-path", label: "My Learning Path" },
   { href: "/dashboard/practice-exams", label: "Practice Exams" },
+  { href: "/dashboard/pbqs", label: "PBQs" },
   { href: "/dashboard/flashcards", label: "Flashcards" },
   { href: "/dashboard/progress", label: "Progress" },
   { href: "/dashboard/study-tools", label: "Strategic Study Tools" },
@@ -0,0 +1,126 @@
+/**
+ * Question Generation Worker API Route
+ *
+ * Processes batch question generation jobs from BullMQ queue.
+ * Triggered by Vercel cron job every 2 minutes.
+ */
+
+import { NextResponse } from "next/server";
+import { Worker, Job, UnrecoverableError } from "bullmq";
+import { redisConnection } from "@/lib/queue/config";
+import { QuestionGenerationJobData } from "@/lib/queue/questionGenerationQueue";
+import { AIServiceError } from "@/lib/ai/types";
+import {
+  generateQueuedDraft,
+  markDraftFailed,
+} from "@/modules/admin/questions/services/questionDraft.service";
+
+// Set Vercel function timeout to 5 minutes (maximum for Pro plan)
+export const maxDuration = 300; // 5 minutes in seconds
+
+/**
+ * GET handler - Process pending question generation jobs
+ *
+ * This endpoint is called by Vercel cron to process jobs from the queue.
+ */
+export async function GET(request: Request) {
+  try {
+    // Verify cron secret to prevent unauthorized access
+    const authHeader = request.headers.get("authorization");
+    const cronSecret = process.env.CRON_SECRET || "development-secret";
+
+    if (authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    console.error("[Worker] Question generation worker triggered");
+
+    const worker = new Worker<QuestionGenerationJobData>(
+      "question-generation",
+      async (job: Job<QuestionGenerationJobData>) => {
+        const { draftId } = job.data;
+
+        try {
+          const generated = await generateQueuedDraft(draftId);
+          return { success: true, draftId, skipped: !generated };
+        } catch (error) {
+          console.error(`[Worker] Question generation failed for draft ${draftId}:`, error);
+
+          const message = error instanceof Error ? error.message : "Unknown error";
+          // A spent budget or missing configuration won't fix itself on retry
+          const permanent =
+            error instanceof AIServiceError &&
+            (error.code === "budget_exceeded" || error.code === "not_configured");
+          const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+          if (permanent || lastAttempt) {
+            await markDraftFailed(draftId, message);
+          }
+          if (permanent) {
+            throw new UnrecoverableError(message);
+          }
+          // Re-throw to let BullMQ retry with backoff
+          throw error;
+        }
+      },
+      {
+        connection: redisConnection,
+        // A few model calls at once; each draft is independent
+        concurrency: 3,
+        removeOnComplete: { count: 100 },
+        removeOnFail: { count: 50 },
+      }
+    );
+
+    // Track processed jobs
+    let processedCount = 0;
+
+    worker.on("completed", (job) => {
+      processedCount++;
+      console.error(`[Worker] Job ${job.id} completed successfully`);
+    });
+
+    worker.on("failed", (job, err) => {
+      console.error(`[Worker] Job ${job?.id} failed:`, err);
+    });
+
+    // Process jobs for up to 4.5 minutes (leave 30s buffer for Vercel's 5 minute timeout on Pro plan)
+    const timeout = 270000; // 4.5 minutes (270 seconds)
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(async () => {
+        console.error("[Worker] Timeout reached, pausing worker and waiting for active jobs to complete");
+        await worker.pause();
+        setTimeout(async () => {
+          console.error("[Worker] Closing worker after grace period");
+          await worker.close();
+          resolve();
+        }, 5000); // 5 second grace period for active job cleanup
+      }, timeout);
+
+      worker.on("drained", async () => {
+        console.error("[Worker] Queue drained, closing worker");
+        clearTimeout(timer);
+        await worker.close();
+        resolve();
+      });
+    });
+
+    console.error(`[Worker] Processed ${processedCount} job(s)`);
+
+    return NextResponse.json({
+      success: true,
+      message: `Processed ${processedCount} question generation job(s)`,
+      processedCount,
+    });
+  } catch (error) {
+    console.error("[Worker] Worker error:", error);
+    return NextResponse.json(
+      {
+        error: "Worker failed",
+        message: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
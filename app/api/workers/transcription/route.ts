@@ -11,6 +11,7 @@ import { redisConnection } from "@/lib/queue/config";
 import { TranscriptionJobData } from "@/lib/queue/transcriptionQueue";
 import { transcribeVideo } from "@/modules/content/services/whisper.service";
 import { generateVideoDescription } from "@/modules/content/services/aiDescription.service";
+import { indexVideoChunks } from "@/modules/content/services/contentChunk.service";
 import { prisma } from "@/lib/prisma";
 
 // Set Vercel function timeout to 5 minutes (maximum for Pro plan)
@@ -60,23 +61,27 @@ export async function GET(request: Request) {
     const worker = new Worker<TranscriptionJobData>(
       "video-transcription",
       async (job: Job<TranscriptionJobData>) => {
-        const { videoId, s3Key, fileName, generateDescription } = job.data;
+        const { videoId, s3Key, fileName, generateDescription, requestedBy } = job.data;
 
         console.error(`[Worker] Processing job for video ${videoId}`);
 
         try {
           // Update status to processing
-          await prisma.video.update({
+          const video = await prisma.video.update({
             where: { id: videoId },
             data: {
               transcriptionStatus: "processing",
               transcriptionError: null,
             },
+            select: { certificationId: true, uploadedBy: true },
           });
 
           // Step 1: Transcribe video using Whisper (with 4 minute timeout to leave buffer)
           console.error(`[Worker] Transcribing video ${videoId}...`);
-          const transcriptionPromise = transcribeVideo(videoId, s3Key);
+          const transcriptionPromise = transcribeVideo(videoId, s3Key, {
+            userId: requestedBy ?? video.uploadedBy,
+            certificationId: video.certificationId,
+          });
           const timeoutPromise = new Promise((_, reject) =>
             setTimeout(() => reject(new Error("Transcription timeout - video took too long to process")), 240000) // 4 minutes
           );
@@ -113,6 +118,14 @@ export async function GET(request: Request) {
             },
           });
 
+          // Step 4: Index the transcript for search by meaning
+          try {
+            await indexVideoChunks(videoId, { vtt: result.vtt });
+          } catch (error) {
+            console.error(`[Worker] Search indexing failed:`, error);
+            // Don't fail the job; the video can be re-indexed with scripts/index-content-chunks.ts
+          }
+
           console.error(`[Worker] Successfully processed video ${videoId}`);
 
           return { success: true, videoId };
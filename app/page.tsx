@@ -1,6 +1,7 @@
 import { redirect } from "next/navigation";
 import { AuthButton } from "@/components/auth-button";
 import { getOptionalSession } from "@/lib/auth/validateSession";
+import { canAccessAdminArea } from "@/lib/auth/permissions";
 import { BookOpen, GraduationCap, TrendingUp, Shield } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
@@ -10,10 +11,7 @@ export default async function Home() {
 
   // Redirect authenticated users to their appropriate dashboard
   if (authContext) {
-    const isAdmin = authContext.roles.includes("admin");
-    const isInstructor = authContext.roles.includes("instructor");
-
-    if (isAdmin || isInstructor) {
+    if (canAccessAdminArea(authContext.permissions)) {
       redirect("/admin");
     } else {
       redirect("/dashboard");
@@ -3,7 +3,7 @@
 import Link from "next/link";
 import Image from "next/image";
 import { signOut } from "next-auth/react";
-import { Menu, X, ChevronDown, LogOut, Home, Award, Users, Settings } from "lucide-react";
+import { Menu, X, ChevronDown, LogOut, Home, Award, Users, Settings, ShieldCheck, GraduationCap, Wallet, MessageSquareText } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -117,6 +117,10 @@ export function TopNav({ navLinks }: TopNavProps) {
                     if (link.label === "Dashboard") return <Home className="mr-2 h-4 w-4" />;
                     if (link.label === "Certifications") return <Award className="mr-2 h-4 w-4" />;
                     if (link.label === "Users") return <Users className="mr-2 h-4 w-4" />;
+                    if (link.label === "Roles") return <ShieldCheck className="mr-2 h-4 w-4" />;
+                    if (link.label === "Cohorts") return <GraduationCap className="mr-2 h-4 w-4" />;
+                    if (link.label === "AI Usage") return <Wallet className="mr-2 h-4 w-4" />;
+                    if (link.label === "Prompts") return <MessageSquareText className="mr-2 h-4 w-4" />;
                     return null;
                   };
                   return (
@@ -198,6 +202,10 @@ export function TopNav({ navLinks }: TopNavProps) {
                 if (link.label === "Dashboard") return <Home className="h-4 w-4" />;
                 if (link.label === "Certifications") return <Award className="h-4 w-4" />;
                 if (link.label === "Users") return <Users className="h-4 w-4" />;
+                if (link.label === "Roles") return <ShieldCheck className="h-4 w-4" />;
+                if (link.label === "Cohorts") return <GraduationCap className="h-4 w-4" />;
+                if (link.label === "AI Usage") return <Wallet className="h-4 w-4" />;
+                if (link.label === "Prompts") return <MessageSquareText className="h-4 w-4" />;
                 return null;
               };
               return (
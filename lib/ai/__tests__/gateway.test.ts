@@ -0,0 +1,209 @@
+/** @jest-environment node */
+import { z } from 'zod'
+import { createAIGateway, parseJSONText } from '../gateway'
+import { createFakeProvider, fakeEmbedding } from '../providers/fake'
+import { AIServiceError, type AIProvider, type AIUsageContext, type ResolvedModel } from '../types'
+import type { AIUsageEntry, AIUsageMeter } from '../usageMeter'
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const fakeModel: ResolvedModel = { provider: 'fake', modelId: 'fake-model' }
+const usage: AIUsageContext = { feature: 'question_generation', userId: 'user-1' }
+
+function recordingMeter(blocked = false) {
+  const entries: AIUsageEntry[] = []
+  const meter: AIUsageMeter = {
+    async assertWithinBudget() {
+      if (blocked) throw new AIServiceError('budget_exceeded', 'Monthly AI budget reached')
+    },
+    async record(entry) {
+      entries.push(entry)
+    },
+  }
+  return { meter, entries }
+}
+
+function gatewayWith(provider: AIProvider, model: ResolvedModel = fakeModel, blocked = false) {
+  const resolveModel = jest.fn(async () => model)
+  const sleep = jest.fn(async () => undefined)
+  const { meter, entries } = recordingMeter(blocked)
+  const gateway = createAIGateway({ resolveModel, getProvider: () => provider, meter, sleep })
+  return { gateway, resolveModel, sleep, entries }
+}
+
+function failingProvider(errors: unknown[], text = '{"ok":true}'): AIProvider & { calls: number } {
+  const provider = {
+    name: 'fake' as const,
+    calls: 0,
+    async complete() {
+      const error = errors[provider.calls++]
+      if (error) throw error
+      return { text, usage: { inputTokens: 1, outputTokens: 1 } }
+    },
+  }
+  return provider
+}
+
+const withStatus = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status })
+
+describe('AI gateway', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('resolves the model for the task and returns validated JSON', async () => {
+    const { gateway, resolveModel } = gatewayWith(
+      createFakeProvider((request) =>
+        request.task === 'feedback' ? '```json\n{"score": 80}\n```' : '{}'
+      )
+    )
+
+    const result = await gateway.generateJSON({
+      task: 'feedback',
+      usage,
+      prompt: 'Review this question',
+      schema: z.object({ score: z.number() }),
+    })
+
+    expect(resolveModel).toHaveBeenCalledWith('feedback', undefined)
+    expect(result.data).toEqual({ score: 80 })
+    expect(result.model).toEqual(fakeModel)
+    expect(result.usage.outputTokens).toBeGreaterThan(0)
+  })
+
+  it('passes an explicit model through to the registry', async () => {
+    const { gateway, resolveModel } = gatewayWith(createFakeProvider())
+
+    await gateway.generateText({ task: 'blueprint', usage, prompt: 'Extract', modelId: 'claude-x' })
+
+    expect(resolveModel).toHaveBeenCalledWith('blueprint', 'claude-x')
+  })
+
+  it('retries rate limits and server errors with backoff', async () => {
+    const provider = failingProvider([withStatus(429), withStatus(503)])
+    const { gateway, sleep } = gatewayWith(provider)
+
+    const result = await gateway.generateText({ task: 'generation', usage, prompt: 'Write' })
+
+    expect(result.text).toBe('{"ok":true}')
+    expect(provider.calls).toBe(3)
+    expect(sleep.mock.calls).toEqual([[1000], [2000]])
+  })
+
+  it('does not retry requests the provider rejects', async () => {
+    const provider = failingProvider([withStatus(400)])
+    const { gateway } = gatewayWith(provider)
+
+    await expect(gateway.generateText({ task: 'generation', usage, prompt: 'Write' })).rejects.toMatchObject({
+      code: 'unavailable',
+      message: expect.stringContaining('HTTP 400'),
+    })
+    expect(provider.calls).toBe(1)
+  })
+
+  it('reports missing credentials as not configured', async () => {
+    const { gateway } = gatewayWith(failingProvider([withStatus(401)]))
+
+    await expect(gateway.generateText({ task: 'feedback', usage, prompt: 'Review' })).rejects.toMatchObject({
+      code: 'not_configured',
+    })
+  })
+
+  it('aborts calls that exceed the timeout', async () => {
+    let aborted = false
+    const provider: AIProvider = {
+      name: 'fake',
+      complete: (_modelId, _request, signal) =>
+        new Promise((_, reject) => {
+          signal.addEventListener('abort', () => {
+            aborted = true
+            reject(new Error('aborted'))
+          })
+        }),
+    }
+    const { gateway } = gatewayWith(provider)
+
+    await expect(
+      gateway.generateText({ task: 'description', usage, prompt: 'Describe', timeoutMs: 10, maxAttempts: 2 })
+    ).rejects.toMatchObject({ code: 'timeout' })
+    expect(aborted).toBe(true)
+  })
+
+  it('rejects output that does not match the schema', async () => {
+    const { gateway } = gatewayWith(createFakeProvider(() => '{"score": "high"}'))
+
+    const call = gateway.generateJSON({
+      task: 'feedback',
+      usage,
+      prompt: 'Review',
+      schema: z.object({ score: z.number() }),
+    })
+
+    await expect(call).rejects.toBeInstanceOf(AIServiceError)
+    await expect(call).rejects.toMatchObject({ code: 'invalid_response' })
+  })
+
+  it('records usage for each completed call', async () => {
+    const provider = failingProvider([withStatus(500)])
+    const { gateway, entries } = gatewayWith(provider)
+
+    await gateway.generateText({ task: 'generation', usage, prompt: 'Write' })
+
+    expect(entries).toEqual([
+      { ...usage, model: fakeModel, usage: { inputTokens: 1, outputTokens: 1 } },
+    ])
+  })
+
+  it('refuses calls once a budget is exceeded without calling the provider', async () => {
+    const provider = failingProvider([])
+    const { gateway, entries } = gatewayWith(provider, fakeModel, true)
+
+    await expect(gateway.generateText({ task: 'generation', usage, prompt: 'Write' })).rejects.toMatchObject({
+      code: 'budget_exceeded',
+    })
+    expect(provider.calls).toBe(0)
+    expect(entries).toHaveLength(0)
+  })
+
+  it('rejects empty completions', async () => {
+    const { gateway } = gatewayWith(createFakeProvider(() => '   '))
+
+    await expect(gateway.generateText({ task: 'description', usage, prompt: 'Describe' })).rejects.toMatchObject({
+      code: 'invalid_response',
+    })
+  })
+
+  it('embeds with the fake provider and refuses providers without embeddings', async () => {
+    const { gateway } = gatewayWith(createFakeProvider())
+    const { embeddings } = await gateway.embed(['firewall rules', 'firewall rules'], { usage })
+    expect(embeddings).toHaveLength(2)
+    expect(embeddings[0]).toEqual(embeddings[1])
+
+    const chatOnly: AIProvider = { name: 'anthropic', complete: jest.fn() }
+    const { gateway: chatGateway } = gatewayWith(chatOnly, { provider: 'anthropic', modelId: 'claude' })
+    await expect(chatGateway.embed(['text'], { usage })).rejects.toMatchObject({ code: 'not_configured' })
+  })
+})
+
+describe('parseJSONText', () => {
+  it('strips prose and fences and repairs trailing commas', () => {
+    expect(parseJSONText('Here you go:\n{"a": [1, 2,],}')).toEqual({ a: [1, 2] })
+    expect(parseJSONText('```\n[{"b": true}]\n```')).toEqual([{ b: true }])
+  })
+})
+
+describe('fakeEmbedding', () => {
+  it('scores texts that share words as more similar', () => {
+    const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+    const base = fakeEmbedding('configure firewall rules')
+
+    expect(dot(base, fakeEmbedding('firewall rules review'))).toBeGreaterThan(
+      dot(base, fakeEmbedding('password hashing algorithms'))
+    )
+  })
+})
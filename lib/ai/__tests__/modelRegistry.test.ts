@@ -0,0 +1,68 @@
+/** @jest-environment node */
+import { DEFAULT_TASK_MODELS, resolveModel } from '../modelRegistry'
+
+const findFirst = jest.fn()
+const findUnique = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aIModel: {
+      findFirst: (...args: unknown[]) => findFirst(...args),
+      findUnique: (...args: unknown[]) => findUnique(...args),
+    },
+  },
+}))
+
+describe('AI model registry', () => {
+  beforeEach(() => {
+    findFirst.mockReset()
+    findUnique.mockReset()
+  })
+
+  it('uses the active model assigned to the task', async () => {
+    findFirst.mockResolvedValueOnce({ provider: 'Anthropic', modelId: 'claude-sonnet' })
+
+    await expect(resolveModel('generation')).resolves.toEqual({
+      provider: 'anthropic',
+      modelId: 'claude-sonnet',
+    })
+    expect(findFirst.mock.calls[0][0].where).toEqual({
+      isActive: true,
+      taskTypes: { has: 'generation' },
+    })
+  })
+
+  it("falls back to the default provider's newest model, then the built-in default", async () => {
+    findFirst
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ provider: 'anthropic', modelId: 'claude-newest' })
+    await expect(resolveModel('mapping')).resolves.toEqual({
+      provider: 'anthropic',
+      modelId: 'claude-newest',
+    })
+
+    findFirst.mockResolvedValue(null)
+    await expect(resolveModel('description')).resolves.toEqual(DEFAULT_TASK_MODELS.description)
+  })
+
+  it('only uses assigned models or the default for embeddings', async () => {
+    findFirst.mockResolvedValue(null)
+
+    await expect(resolveModel('embedding')).resolves.toEqual(DEFAULT_TASK_MODELS.embedding)
+    expect(findFirst).toHaveBeenCalledTimes(1)
+  })
+
+  it('looks up explicitly requested models and rejects unknown providers', async () => {
+    findUnique.mockResolvedValueOnce({ provider: 'openai', modelId: 'gpt-4o' })
+    await expect(resolveModel('blueprint', 'gpt-4o')).resolves.toEqual({
+      provider: 'openai',
+      modelId: 'gpt-4o',
+    })
+
+    findUnique.mockResolvedValueOnce(null)
+    await expect(resolveModel('blueprint', 'missing')).rejects.toMatchObject({ code: 'not_configured' })
+
+    findFirst.mockResolvedValueOnce({ provider: 'mistral', modelId: 'mistral-large' })
+    await expect(resolveModel('feedback')).rejects.toMatchObject({ code: 'not_configured' })
+  })
+})
@@ -0,0 +1,21 @@
+import { computeCost, defaultPricingFor } from '../pricing'
+
+describe('AI pricing', () => {
+  it('matches dated model IDs to the longest known prefix', () => {
+    expect(defaultPricingFor('gpt-4o-2024-08-06')).toEqual({ inputPerMTok: 2.5, outputPerMTok: 10 })
+    expect(defaultPricingFor('gpt-4o-mini-2024-07-18')?.inputPerMTok).toBe(0.15)
+    expect(defaultPricingFor('claude-opus-4-5-20251101')?.inputPerMTok).toBe(5)
+    expect(defaultPricingFor('gpt-4o-audio')).toEqual(defaultPricingFor('gpt-4o'))
+    expect(defaultPricingFor('gpt-4oo')).toBeNull()
+  })
+
+  it('costs tokens and audio, and records fake or unknown models at zero', () => {
+    const pricing = { inputPerMTok: 3, outputPerMTok: 15 }
+    expect(computeCost('anthropic', { inputTokens: 2000, outputTokens: 500 }, pricing)).toBe(0.0135)
+    expect(
+      computeCost('openai', { inputTokens: 0, outputTokens: 0, audioSeconds: 90 }, defaultPricingFor('whisper-1'))
+    ).toBe(0.009)
+    expect(computeCost('fake', { inputTokens: 2000, outputTokens: 500 }, pricing)).toBe(0)
+    expect(computeCost('openai', { inputTokens: 2000, outputTokens: 500 }, null)).toBe(0)
+  })
+})
@@ -0,0 +1,47 @@
+/** @jest-environment node */
+import { loadPrompt, renderStoredPrompt } from '../promptStore'
+import { PROMPT_DEFINITIONS } from '../prompts'
+
+const findMany = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    promptTemplate: { findMany: (...args: unknown[]) => findMany(...args) },
+  },
+}))
+
+describe('prompt store', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('prefers the certification override over the default template', async () => {
+    findMany.mockResolvedValue([
+      { certificationId: null, versions: [{ version: 3, body: 'Default for {{certificationName}}' }] },
+      { certificationId: 'cert-1', versions: [{ version: 1, body: 'Override for {{certificationName}}' }] },
+    ])
+
+    await expect(
+      renderStoredPrompt('blueprint_extraction', { certificationName: 'Security+' }, 'cert-1')
+    ).resolves.toBe('Override for Security+')
+  })
+
+  it('falls back to the built-in text when no template has versions', async () => {
+    findMany.mockResolvedValue([{ certificationId: null, versions: [] }])
+
+    await expect(loadPrompt('question_feedback')).resolves.toEqual({
+      key: 'question_feedback',
+      body: PROMPT_DEFINITIONS.question_feedback.defaultBody,
+      source: 'built_in',
+      version: null,
+    })
+  })
+
+  it('ignores certifications for prompts without overrides', async () => {
+    findMany.mockResolvedValue([])
+
+    await loadPrompt('blueprint_metadata_extraction', 'cert-1')
+
+    expect(findMany.mock.calls[0][0].where.OR).toEqual([{ certificationId: null }])
+  })
+})
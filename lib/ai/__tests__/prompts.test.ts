@@ -0,0 +1,44 @@
+import {
+  PROMPT_DEFINITIONS,
+  checkPromptBody,
+  promptPlaceholders,
+  questionGenerationVariables,
+  renderPrompt,
+} from '../prompts'
+
+describe('prompt templates', () => {
+  it('fills placeholders and leaves missing variables empty', () => {
+    expect(renderPrompt('Write for {{ certificationName }} about {{domainName}}.', { certificationName: 'Security+' })).toBe(
+      'Write for Security+ about .'
+    )
+    expect(promptPlaceholders('{{a}} {{b}} {{a}}')).toEqual(['a', 'b'])
+  })
+
+  it('flags unknown placeholders and dropped required variables', () => {
+    expect(checkPromptBody('document_mapping', 'Map {{documentText}} for {{audience}}')).toEqual({
+      unknown: ['audience'],
+      missing: ['contentStructure'],
+    })
+    for (const definition of Object.values(PROMPT_DEFINITIONS)) {
+      expect(checkPromptBody(definition.key, definition.defaultBody)).toEqual({ unknown: [], missing: [] })
+    }
+  })
+
+  it('renders the built-in question prompt with context and the answer format', () => {
+    const prompt = renderPrompt(
+      PROMPT_DEFINITIONS.question_generation.defaultBody,
+      questionGenerationVariables({
+        questionType: 'multi_select',
+        certificationName: 'Security+',
+        objectiveCode: '1.1',
+        objectiveName: 'Compare security controls',
+      })
+    )
+
+    expect(prompt).toContain('Context: Certification: Security+, Objective: 1.1 - Compare security controls.')
+    expect(prompt).toContain('Create a high-quality multi-select question with one or more correct answers.')
+    expect(prompt).toContain('exactly 6 answer options (A, B, C, D, E, F)')
+    expect(prompt).toContain('"text": "Option F text"')
+    expect(prompt).not.toContain('{{')
+  })
+})
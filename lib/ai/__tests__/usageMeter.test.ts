@@ -0,0 +1,76 @@
+/** @jest-environment node */
+import { aiUsageMeter } from '../usageMeter'
+
+const findMany = jest.fn()
+const aggregate = jest.fn()
+const create = jest.fn()
+const findUnique = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    aIBudget: { findMany: (...args: unknown[]) => findMany(...args) },
+    aIUsage: {
+      aggregate: (...args: unknown[]) => aggregate(...args),
+      create: (...args: unknown[]) => create(...args),
+    },
+    aIModel: { findUnique: (...args: unknown[]) => findUnique(...args) },
+  },
+}))
+
+describe('AI usage meter', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+  })
+
+  it('refuses calls once a covering budget is spent for the month', async () => {
+    findMany.mockResolvedValue([
+      { feature: null, certificationId: null, monthlyLimitUsd: 100, certification: null },
+      {
+        feature: 'question_generation',
+        certificationId: 'cert-1',
+        monthlyLimitUsd: 5,
+        certification: { name: 'Security+' },
+      },
+    ])
+    aggregate.mockResolvedValueOnce({ _sum: { costUsd: 12 } }).mockResolvedValueOnce({ _sum: { costUsd: 5 } })
+
+    await expect(
+      aiUsageMeter.assertWithinBudget({ feature: 'question_generation', certificationId: 'cert-1' })
+    ).rejects.toMatchObject({
+      code: 'budget_exceeded',
+      message: expect.stringContaining('Question generation · Security+ ($5.00)'),
+    })
+
+    const [, scopedSpend] = aggregate.mock.calls.map(([args]) => args.where)
+    expect(scopedSpend).toMatchObject({ feature: 'question_generation', certificationId: 'cert-1' })
+    expect(scopedSpend.createdAt.gte.getUTCDate()).toBe(1)
+  })
+
+  it('allows calls while budgets have room', async () => {
+    findMany.mockResolvedValue([{ feature: null, certificationId: null, monthlyLimitUsd: 100, certification: null }])
+    aggregate.mockResolvedValue({ _sum: { costUsd: null } })
+
+    await expect(aiUsageMeter.assertWithinBudget({ feature: 'embedding' })).resolves.toBeUndefined()
+  })
+
+  it('prices recorded calls with AIModel overrides over list prices', async () => {
+    findUnique.mockResolvedValue({ inputPricePerMTok: 1, outputPricePerMTok: null, audioPricePerMinute: null })
+
+    await aiUsageMeter.record({
+      feature: 'question_feedback',
+      userId: 'user-1',
+      model: { provider: 'openai', modelId: 'gpt-4o' },
+      usage: { inputTokens: 1_000_000, outputTokens: 100_000 },
+    })
+
+    expect(create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        feature: 'question_feedback',
+        modelId: 'gpt-4o',
+        userId: 'user-1',
+        certificationId: null,
+        costUsd: 2,
+      }),
+    })
+  })
+})
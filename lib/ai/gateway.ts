@@ -0,0 +1,308 @@
+/**
+ * AI Gateway
+ *
+ * Single entry point for LLM calls. Routes each task to the provider and model
+ * configured in the AIModel registry, applies the task's timeout and retry
+ * policy, validates structured output with zod, and meters every call
+ * against the AIUsage ledger and monthly budgets.
+ *
+ * Set AI_PROVIDER="fake" to answer every call with the offline fake provider.
+ */
+
+import { jsonrepair } from "jsonrepair";
+import type { z } from "zod";
+import { resolveModel as resolveRegisteredModel } from "./modelRegistry";
+import { createAnthropicProvider } from "./providers/anthropic";
+import { createFakeProvider } from "./providers/fake";
+import { createOpenAIProvider } from "./providers/openai";
+import { aiUsageMeter, recordUsageSafely, type AIUsageMeter } from "./usageMeter";
+import {
+  AIServiceError,
+  type AICompletion,
+  type AICompletionRequest,
+  type AIEmbeddingResult,
+  type AIProvider,
+  type AIProviderName,
+  type AITaskType,
+  type AIUsage,
+  type AIUsageContext,
+  type ResolvedModel,
+} from "./types";
+
+interface TaskPolicy {
+  timeoutMs: number;
+  maxAttempts: number;
+}
+
+const TASK_POLICIES: Record<AITaskType, TaskPolicy> = {
+  generation: { timeoutMs: 30_000, maxAttempts: 3 },
+  feedback: { timeoutMs: 30_000, maxAttempts: 3 },
+  mapping: { timeoutMs: 60_000, maxAttempts: 2 },
+  // Large PDFs take minutes; a second full attempt isn't worth the wait
+  blueprint: { timeoutMs: 300_000, maxAttempts: 1 },
+  description: { timeoutMs: 30_000, maxAttempts: 3 },
+  embedding: { timeoutMs: 30_000, maxAttempts: 3 },
+};
+
+const RETRY_DELAY_MS = 1000;
+
+export interface AICallOptions {
+  // Feature, user and certification the call is billed to
+  usage: AIUsageContext;
+  // Use this registered model instead of the task's configured one
+  modelId?: string;
+  timeoutMs?: number;
+  maxAttempts?: number;
+}
+
+export type AITextRequest = AICompletionRequest & AICallOptions;
+
+export interface AIJSONRequest<T> extends Omit<AITextRequest, "json"> {
+  schema: z.ZodType<T>;
+}
+
+export interface AIJSONResult<T> {
+  data: T;
+  model: ResolvedModel;
+  usage: AIUsage;
+}
+
+export interface AIGateway {
+  generateText(request: AITextRequest): Promise<AICompletion>;
+  generateJSON<T>(request: AIJSONRequest<T>): Promise<AIJSONResult<T>>;
+  embed(texts: string[], options: AICallOptions): Promise<AIEmbeddingResult>;
+}
+
+export interface AIGatewayDependencies {
+  resolveModel?: (task: AITaskType, modelId?: string) => Promise<ResolvedModel>;
+  getProvider?: (name: AIProviderName) => AIProvider;
+  meter?: AIUsageMeter;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * True when AI_PROVIDER="fake" routes every call to the fake provider
+ */
+export function usingFakeAI(): boolean {
+  return process.env.AI_PROVIDER === "fake";
+}
+
+const providerCache = new Map<AIProviderName, AIProvider>();
+
+/**
+ * Provider adapter configured from environment variables
+ */
+function getEnvironmentProvider(name: AIProviderName): AIProvider {
+  const cached = providerCache.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  let provider: AIProvider;
+  if (name === "fake") {
+    provider = createFakeProvider();
+  } else {
+    const envKey = name === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
+    const apiKey = process.env[envKey];
+    if (!apiKey) {
+      console.error(`[AI Gateway] ${envKey} is not configured`);
+      throw new AIServiceError("not_configured", "AI service not configured. Please contact support.");
+    }
+    provider = name === "openai" ? createOpenAIProvider(apiKey) : createAnthropicProvider(apiKey);
+  }
+
+  providerCache.set(name, provider);
+  return provider;
+}
+
+async function resolveEnvironmentModel(task: AITaskType, modelId?: string): Promise<ResolvedModel> {
+  const model = await resolveRegisteredModel(task, modelId);
+  return usingFakeAI() ? { provider: "fake", modelId: model.modelId } : model;
+}
+
+function statusOf(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Timeouts, rate limits, server errors and network failures are worth retrying;
+ * other provider rejections (bad request, unknown model, auth) are not
+ */
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AIServiceError) {
+    return error.code === "timeout";
+  }
+  const status = statusOf(error);
+  return status === undefined || status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+function toServiceError(error: unknown): AIServiceError {
+  if (error instanceof AIServiceError) {
+    return error;
+  }
+  const status = statusOf(error);
+  if (status === 401 || status === 403) {
+    return new AIServiceError("not_configured", "AI service not configured. Please contact support.");
+  }
+  if (status !== undefined && !isRetryable(error)) {
+    const message = error instanceof Error ? error.message : String(error);
+    return new AIServiceError("unavailable", `AI provider rejected the request: ${message}`);
+  }
+  return new AIServiceError("unavailable", "AI service temporarily unavailable. Please try again.");
+}
+
+/**
+ * Strip markdown fences and surrounding prose, then parse (repairing if needed)
+ */
+export function parseJSONText(text: string): unknown {
+  let jsonText = text.trim();
+  const fenced = jsonText.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenced) {
+    jsonText = fenced[1].trim();
+  }
+
+  const start = jsonText.search(/[[{]/);
+  if (start > 0) {
+    jsonText = jsonText.slice(start);
+  }
+
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    return JSON.parse(jsonrepair(jsonText));
+  }
+}
+
+export function createAIGateway(dependencies: AIGatewayDependencies = {}): AIGateway {
+  const resolveModel = dependencies.resolveModel ?? resolveEnvironmentModel;
+  const getProvider = dependencies.getProvider ?? getEnvironmentProvider;
+  const meter = dependencies.meter ?? aiUsageMeter;
+  const sleep =
+    dependencies.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+  /**
+   * Run one provider call under the task's timeout and retry policy
+   */
+  async function callWithPolicy<T>(
+    task: AITaskType,
+    options: Pick<AICallOptions, "timeoutMs" | "maxAttempts">,
+    model: ResolvedModel,
+    call: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const policy = TASK_POLICIES[task];
+    const timeoutMs = options.timeoutMs ?? policy.timeoutMs;
+    const maxAttempts = options.maxAttempts ?? policy.maxAttempts;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const controller = new AbortController();
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      try {
+        return await Promise.race([
+          call(controller.signal),
+          new Promise<never>((_, reject) => {
+            timer = setTimeout(() => {
+              // Reject first so the race settles as a timeout, not as the abort error
+              reject(new AIServiceError("timeout", "AI service timed out. Please try again."));
+              controller.abort();
+            }, timeoutMs);
+          }),
+        ]);
+      } catch (error) {
+        lastError = error;
+        console.warn(
+          `[AI Gateway] ${task} attempt ${attempt}/${maxAttempts} with ${model.provider}/${model.modelId} failed:`,
+          error
+        );
+
+        if (!isRetryable(error)) {
+          break;
+        }
+        if (attempt < maxAttempts) {
+          // Linear backoff
+          await sleep(RETRY_DELAY_MS * attempt);
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+
+    console.error(`[AI Gateway] ${task} failed:`, lastError);
+    throw toServiceError(lastError);
+  }
+
+  async function generateText(request: AITextRequest): Promise<AICompletion> {
+    const { usage, modelId, timeoutMs, maxAttempts, ...completionRequest } = request;
+    await meter.assertWithinBudget(usage);
+    const model = await resolveModel(request.task, modelId);
+    const provider = getProvider(model.provider);
+
+    const result = await callWithPolicy(
+      request.task,
+      { timeoutMs, maxAttempts },
+      model,
+      (signal) => provider.complete(model.modelId, completionRequest, signal)
+    );
+    await recordUsageSafely(meter, { ...usage, model, usage: result.usage });
+
+    const text = result.text.trim();
+    if (!text) {
+      throw new AIServiceError(
+        "invalid_response",
+        "AI service returned an empty response. Please try again."
+      );
+    }
+
+    return { text, model, usage: result.usage };
+  }
+
+  async function generateJSON<T>(request: AIJSONRequest<T>): Promise<AIJSONResult<T>> {
+    const { schema, ...textRequest } = request;
+    const completion = await generateText({ ...textRequest, json: true });
+
+    let raw: unknown;
+    try {
+      raw = parseJSONText(completion.text);
+    } catch (error) {
+      console.error(`[AI Gateway] ${request.task} returned unparseable JSON:`, error);
+      throw new AIServiceError("invalid_response", "AI service returned invalid data. Please try again.");
+    }
+
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+      console.error(`[AI Gateway] ${request.task} returned unexpected JSON:`, parsed.error.issues);
+      throw new AIServiceError("invalid_response", "AI service returned invalid data. Please try again.");
+    }
+
+    return { data: parsed.data, model: completion.model, usage: completion.usage };
+  }
+
+  async function embed(texts: string[], options: AICallOptions): Promise<AIEmbeddingResult> {
+    await meter.assertWithinBudget(options.usage);
+    const model = await resolveModel("embedding", options.modelId);
+    const provider = getProvider(model.provider);
+    if (!provider.embed) {
+      throw new AIServiceError(
+        "not_configured",
+        `${model.provider} does not provide embeddings. Assign an embedding model in AI Models.`
+      );
+    }
+    const embedFn = provider.embed;
+
+    const result = await callWithPolicy("embedding", options, model, (signal) =>
+      embedFn(model.modelId, texts, signal)
+    );
+    await recordUsageSafely(meter, { ...options.usage, model, usage: result.usage });
+
+    return { ...result, model };
+  }
+
+  return { generateText, generateJSON, embed };
+}
+
+/**
+ * Gateway configured from the AIModel registry and environment
+ */
+export const aiGateway = createAIGateway();
@@ -0,0 +1,79 @@
+/**
+ * AI Model Registry
+ *
+ * Picks the provider and model for a task from the AIModel table:
+ * 1. The most recently updated active model assigned to the task
+ * 2. Otherwise the most recently updated active model from the task's default provider
+ * 3. Otherwise the built-in default below
+ */
+
+import { prisma } from "@/lib/prisma";
+import { AIServiceError, type AIProviderName, type AITaskType, type ResolvedModel } from "./types";
+
+export const DEFAULT_TASK_MODELS: Record<AITaskType, ResolvedModel> = {
+  generation: { provider: "openai", modelId: "gpt-4o" },
+  feedback: { provider: "openai", modelId: "gpt-4o" },
+  mapping: { provider: "anthropic", modelId: "claude-3-5-sonnet-20241022" },
+  blueprint: { provider: "anthropic", modelId: "claude-3-5-sonnet-20241022" },
+  description: { provider: "openai", modelId: "gpt-3.5-turbo" },
+  embedding: { provider: "openai", modelId: "text-embedding-3-small" },
+};
+
+const PROVIDERS: AIProviderName[] = ["openai", "anthropic", "fake"];
+
+function toResolvedModel(model: { provider: string; modelId: string }): ResolvedModel {
+  const provider = model.provider.toLowerCase() as AIProviderName;
+  if (!PROVIDERS.includes(provider)) {
+    throw new AIServiceError(
+      "not_configured",
+      `AI provider "${model.provider}" is not supported. Use one of: ${PROVIDERS.join(", ")}.`
+    );
+  }
+  return { provider, modelId: model.modelId };
+}
+
+/**
+ * Model for a task. Pass modelId to use a specific registered model
+ * (e.g. one picked by the user in the blueprint importer).
+ */
+export async function resolveModel(task: AITaskType, modelId?: string): Promise<ResolvedModel> {
+  if (modelId) {
+    const model = await prisma.aIModel.findUnique({
+      where: { modelId },
+      select: { provider: true, modelId: true },
+    });
+    if (!model) {
+      throw new AIServiceError("not_configured", `AI model "${modelId}" is not registered.`);
+    }
+    return toResolvedModel(model);
+  }
+
+  const assigned = await prisma.aIModel.findFirst({
+    where: { isActive: true, taskTypes: { has: task } },
+    orderBy: { updatedAt: "desc" },
+    select: { provider: true, modelId: true },
+  });
+  if (assigned) {
+    return toResolvedModel(assigned);
+  }
+
+  const fallback = DEFAULT_TASK_MODELS[task];
+
+  // Embedding models aren't interchangeable with chat models
+  if (task !== "embedding") {
+    const providerModel = await prisma.aIModel.findFirst({
+      where: {
+        isActive: true,
+        provider: fallback.provider,
+        NOT: { taskTypes: { has: "embedding" } },
+      },
+      orderBy: { updatedAt: "desc" },
+      select: { provider: true, modelId: true },
+    });
+    if (providerModel) {
+      return toResolvedModel(providerModel);
+    }
+  }
+
+  return fallback;
+}
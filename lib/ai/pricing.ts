@@ -0,0 +1,68 @@
+/**
+ * AI Pricing
+ *
+ * List prices in USD used to cost AIUsage rows. A model's pricing overrides
+ * in the AIModel table win; otherwise the longest matching model ID prefix
+ * below applies. Unknown models are recorded at zero cost.
+ */
+
+import type { AIProviderName, AIUsage } from "./types";
+
+export interface ModelPricing {
+  inputPerMTok: number;
+  outputPerMTok: number;
+  audioPerMinute?: number;
+}
+
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  // OpenAI
+  "gpt-4o": { inputPerMTok: 2.5, outputPerMTok: 10 },
+  "gpt-4o-mini": { inputPerMTok: 0.15, outputPerMTok: 0.6 },
+  "gpt-4.1": { inputPerMTok: 2, outputPerMTok: 8 },
+  "gpt-4.1-mini": { inputPerMTok: 0.4, outputPerMTok: 1.6 },
+  "gpt-3.5-turbo": { inputPerMTok: 0.5, outputPerMTok: 1.5 },
+  "text-embedding-3-small": { inputPerMTok: 0.02, outputPerMTok: 0 },
+  "text-embedding-3-large": { inputPerMTok: 0.13, outputPerMTok: 0 },
+  "whisper-1": { inputPerMTok: 0, outputPerMTok: 0, audioPerMinute: 0.006 },
+
+  // Anthropic
+  "claude-3-haiku": { inputPerMTok: 0.25, outputPerMTok: 1.25 },
+  "claude-3-5-haiku": { inputPerMTok: 0.8, outputPerMTok: 4 },
+  "claude-haiku-4": { inputPerMTok: 1, outputPerMTok: 5 },
+  "claude-3-5-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-3-7-sonnet": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-sonnet-4": { inputPerMTok: 3, outputPerMTok: 15 },
+  "claude-opus-4": { inputPerMTok: 15, outputPerMTok: 75 },
+  "claude-opus-4-5": { inputPerMTok: 5, outputPerMTok: 25 },
+};
+
+/**
+ * Built-in price for a model ID (longest prefix wins)
+ */
+export function defaultPricingFor(modelId: string): ModelPricing | null {
+  const match = Object.keys(DEFAULT_PRICING)
+    .filter((prefix) => modelId === prefix || modelId.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? DEFAULT_PRICING[match] : null;
+}
+
+/**
+ * Cost in USD of one call
+ */
+export function computeCost(
+  provider: AIProviderName,
+  usage: AIUsage,
+  pricing: ModelPricing | null
+): number {
+  if (provider === "fake" || !pricing) {
+    return 0;
+  }
+
+  const cost =
+    (usage.inputTokens / 1_000_000) * pricing.inputPerMTok +
+    (usage.outputTokens / 1_000_000) * pricing.outputPerMTok +
+    ((usage.audioSeconds ?? 0) / 60) * (pricing.audioPerMinute ?? 0);
+
+  // Ledger precision: millionths of a dollar
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
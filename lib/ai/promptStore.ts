@@ -0,0 +1,71 @@
+/**
+ * Prompt Store
+ *
+ * Picks the live wording for a prompt: the newest version of the
+ * certification's template, then of the default template, then the built-in
+ * text in prompts.ts.
+ */
+
+import { prisma } from "@/lib/prisma";
+import {
+  PROMPT_DEFINITIONS,
+  renderPrompt,
+  type PromptKey,
+  type PromptVariables,
+} from "./prompts";
+
+export interface ResolvedPrompt {
+  key: PromptKey;
+  body: string;
+  // Where the body came from; null version = built-in text
+  source: "certification" | "default" | "built_in";
+  version: number | null;
+}
+
+/**
+ * Live template body for a prompt
+ */
+export async function loadPrompt(
+  key: PromptKey,
+  certificationId?: string | null
+): Promise<ResolvedPrompt> {
+  const withOverride = !!certificationId && PROMPT_DEFINITIONS[key].certificationOverrides;
+
+  const templates = await prisma.promptTemplate.findMany({
+    where: {
+      key,
+      OR: [{ certificationId: null }, ...(withOverride ? [{ certificationId }] : [])],
+    },
+    include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+  });
+
+  // Certification override first, then the default template
+  const ordered = [...templates].sort(
+    (a, b) => Number(b.certificationId !== null) - Number(a.certificationId !== null)
+  );
+  for (const template of ordered) {
+    const latest = template.versions[0];
+    if (latest) {
+      return {
+        key,
+        body: latest.body,
+        source: template.certificationId ? "certification" : "default",
+        version: latest.version,
+      };
+    }
+  }
+
+  return { key, body: PROMPT_DEFINITIONS[key].defaultBody, source: "built_in", version: null };
+}
+
+/**
+ * Live prompt with its variables filled in
+ */
+export async function renderStoredPrompt(
+  key: PromptKey,
+  variables: PromptVariables,
+  certificationId?: string | null
+): Promise<string> {
+  const prompt = await loadPrompt(key, certificationId);
+  return renderPrompt(prompt.body, variables);
+}
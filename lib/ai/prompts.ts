@@ -0,0 +1,438 @@
+/**
+ * Prompt Templates
+ *
+ * Built-in wording for the prompts sent through the AI gateway. Each prompt
+ * names the {{variables}} the calling code fills in; admins can replace the
+ * wording per prompt (and per certification) in the PromptTemplate store, and
+ * promptStore.ts picks the live version at call time.
+ *
+ * Structural pieces the response parser depends on (e.g. the JSON format for
+ * generated questions) are passed in as variables so edited wording keeps them.
+ */
+
+export const PROMPT_KEYS = [
+  "question_generation",
+  "question_feedback",
+  "document_mapping",
+  "blueprint_extraction",
+  "blueprint_metadata_extraction",
+] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+export interface PromptVariable {
+  name: string;
+  description: string;
+  // Edited templates must keep required variables
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  key: PromptKey;
+  label: string;
+  description: string;
+  // False when the calling code has no certification to pick an override by
+  certificationOverrides: boolean;
+  variables: PromptVariable[];
+  defaultBody: string;
+}
+
+const QUESTION_GENERATION_PROMPT = `You are an expert exam question writer specializing in professional certification exams. {{context}}
+
+Create a high-quality {{questionType}} question with {{correctAnswerRule}}.
+
+Requirements:
+1. Question must be practical and scenario-based at Bloom's Level 2 (Understanding/Application)
+2. Include exactly {{optionCount}} answer options ({{optionLetters}})
+3. Each option must have a detailed explanation (2-3 sentences)
+4. For multiple choice: exactly 1 correct answer
+5. For multi-select: 1-3 correct answers (clearly indicate which are correct)
+6. Explanations should explain WHY each option is correct or incorrect
+7. Use professional, clear language appropriate for certification exams
+8. Focus on real-world application and practical scenarios
+9. Do not include the correct answer term/service in the question text itself
+10. Keep question text to 1-3 sentences for clarity
+
+CRITICAL: Respond ONLY with valid JSON in this exact format:
+{{responseFormat}}`;
+
+const QUESTION_FEEDBACK_PROMPT = `You are an expert at evaluating certification exam questions. Analyze the provided question and provide constructive feedback.
+
+Focus on:
+1. Question clarity and wording
+2. Distractor quality (incorrect answers)
+3. Difficulty level estimation
+4. Explanation quality
+
+Respond with valid JSON in this format:
+{
+  "overallScore": 85,
+  "estimatedDifficulty": "medium",
+  "confidenceScore": 0.92,
+  "suggestions": [
+    {
+      "type": "question_clarity",
+      "severity": "low",
+      "suggestion": "Consider rewording for clarity...",
+      "currentText": "Current phrasing...",
+      "suggestedText": "Suggested phrasing..."
+    }
+  ]
+}
+
+Suggestion types: "question_clarity", "distractor_quality", "difficulty", "explanation"
+Severity levels: "low", "medium", "high"
+Overall score: 0-100
+Difficulty: "easy", "medium", "hard"
+Confidence: 0.0-1.0`;
+
+const DOCUMENT_MAPPING_PROMPT = `You are an expert at analyzing study materials and mapping them to certification exam objectives.
+
+I have a document with the following content:
+
+<document>
+{{documentText}}
+</document>
+
+I need you to analyze this document and suggest which certification objectives, bullets, or sub-bullets it best maps to. Here is the certification content structure:
+
+{{contentStructure}}
+
+Your task:
+1. Analyze the document content
+2. Identify which objectives/bullets/sub-bullets this document covers
+3. Prefer the LOWEST LEVEL possible (sub-bullets > bullets > objectives)
+4. Return the top 5 best matches with confidence scores (0.0 to 1.0)
+
+Return your response as a JSON object in this exact format:
+{
+  "matches": [
+    {
+      "objectiveId": "obj_id_here" (or null if mapping to bullet/sub-bullet),
+      "bulletId": "bullet_id_here" (or null if mapping to objective/sub-bullet),
+      "subBulletId": "sub_bullet_id_here" (or null if mapping to objective/bullet),
+      "confidence": 0.95,
+      "reason": "Brief explanation of why this matches"
+    }
+  ]
+}
+
+Important:
+- Only ONE of objectiveId, bulletId, or subBulletId should be populated per match
+- Confidence should be between 0.0 and 1.0
+- Only suggest matches with confidence >= 0.6
+- Return { "matches": [] } if no good matches found
+
+Return ONLY the JSON object, no other text.`;
+
+const BLUEPRINT_EXTRACTION_PROMPT = `You are an expert at analyzing certification exam documents. Your task is to extract the COMPLETE exam structure from this PDF.
+
+CRITICAL: Extract EVERY SINGLE domain and EVERY SINGLE objective listed in the exam guide. Do not stop early or skip any.
+
+Please extract:
+1. ALL exam domains (if there are 5 domains, extract all 5):
+   - Domain number (e.g., "1", "2", "3", "4", "5")
+   - Domain name
+   - Percentage weight if available (as a number, e.g., 24 for 24%)
+   - ALL objectives within each domain (extract every objective, no matter how many):
+     - Objective number (e.g., "1.1", "1.2")
+     - Objective name/description
+     - Bullets: Any bullet points or detailed task statements listed under the objective
+     - Sub-bullets: Any indented/nested items under bullets
+
+EXTRACTION STRATEGY:
+- Extract ALL domains and ALL objectives with their bullets/sub-bullets
+- Keep bullet text concise but complete - preserve all key information
+- Prioritize completeness over verbosity
+- Ensure you reach the last domain and last objective
+
+FORMATTING:
+- Ensure ALL strings are properly escaped (escape quotes, newlines, etc.)
+- Do NOT use comments in the JSON
+- Ensure all arrays have commas between elements
+- If a field is optional and not present, omit it entirely (do not use null)
+- Use concise but complete text for bullets
+
+For example, if an objective says:
+"1.1 Understand security controls"
+And lists:
+Categories
+- Technical
+- Managerial
+- Operational
+Control types
+- Preventative
+- Deterrent
+
+Extract those as bullets and sub-bullets.
+
+Respond ONLY with valid JSON. No markdown, no code blocks, no explanatory text - ONLY the raw JSON.
+
+Format:
+{
+  "domains": [
+    {
+      "domainNumber": "1",
+      "name": "Domain Name",
+      "percentage": 25,
+      "objectives": [
+        {
+          "objectiveNumber": "1.1",
+          "name": "Objective description",
+          "bullets": [
+            {
+              "text": "Main bullet point",
+              "subBullets": [
+                { "text": "Sub-bullet detail 1" },
+                { "text": "Sub-bullet detail 2" }
+              ]
+            },
+            {
+              "text": "Another bullet point"
+            }
+          ]
+        }
+      ]
+    }
+  ]
+}`;
+
+const BLUEPRINT_METADATA_EXTRACTION_PROMPT = `You are an expert at analyzing certification exam documents. Extract BOTH certification metadata AND the complete exam structure from this PDF.
+
+EXTRACT THE FOLLOWING:
+
+1. CERTIFICATION METADATA:
+   - name: The full certification name (e.g., "CompTIA Security+")
+   - code: The certification code/exam code (e.g., "SY0-701", "AWS-SAA-C03")
+   - description: Brief description of what this certification covers (1-2 sentences)
+   - isScoredExam: true if the exam has a numeric score, false if it's pass/fail only
+   - passingScore: The minimum passing score (if scored exam)
+   - maxScore: The maximum possible score (if scored exam)
+   - defaultStudyDuration: Recommended study duration in days (default to 45 if not specified)
+
+2. EXAM BLUEPRINT:
+   Extract ALL domains and ALL objectives:
+   - Domain number (e.g., "1", "2")
+   - Domain name
+   - Percentage weight (as a number, e.g., 24 for 24%)
+   - ALL objectives within each domain:
+     - Objective number (e.g., "1.1", "1.2")
+     - Objective name/description
+     - Bullets: Any bullet points under the objective
+     - Sub-bullets: Any nested items under bullets
+
+CRITICAL INSTRUCTIONS:
+- Extract EVERY domain and EVERY objective listed
+- Look for scoring information (often in exam overview/details section)
+- If scoring info is not found, set isScoredExam to true and use reasonable defaults
+- Keep bullet text concise but complete
+- Ensure ALL strings are properly escaped
+- Do NOT use comments in JSON
+- If a field is optional and not present, omit it
+
+Respond ONLY with valid JSON. No markdown, no code blocks - ONLY raw JSON.
+
+Format:
+{
+  "certification": {
+    "name": "CompTIA Security+ (SY0-701)",
+    "code": "SY0-701",
+    "description": "CompTIA Security+ validates the baseline skills necessary to perform core security functions and pursue an IT security career.",
+    "isScoredExam": true,
+    "passingScore": 750,
+    "maxScore": 900,
+    "defaultStudyDuration": 45
+  },
+  "domains": [
+    {
+      "domainNumber": "1",
+      "name": "General Security Concepts",
+      "percentage": 12,
+      "objectives": [
+        {
+          "objectiveNumber": "1.1",
+          "name": "Compare and contrast various types of security controls",
+          "bullets": [
+            {
+              "text": "Categories",
+              "subBullets": [
+                { "text": "Technical" },
+                { "text": "Managerial" },
+                { "text": "Operational" }
+              ]
+            },
+            {
+              "text": "Control types",
+              "subBullets": [
+                { "text": "Preventative" },
+                { "text": "Deterrent" }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  ]
+}`;
+
+export const PROMPT_DEFINITIONS: Record<PromptKey, PromptDefinition> = {
+  question_generation: {
+    key: "question_generation",
+    label: "Question generation",
+    description: "System prompt for writing a multiple choice or multi-select question.",
+    certificationOverrides: true,
+    variables: [
+      { name: "context", description: 'Sentence listing the certification, domain, objective and bullets, e.g. "Context: Certification: Security+, Domain: ..." (empty when none were chosen)' },
+      { name: "certificationName", description: "Certification name" },
+      { name: "domainName", description: "Domain name" },
+      { name: "objective", description: 'Objective code and name, e.g. "1.1 - Compare security controls"' },
+      { name: "bulletText", description: "Bullet the question targets" },
+      { name: "subBulletText", description: "Sub-bullet the question targets" },
+      { name: "questionType", description: '"multiple choice" or "multi-select"' },
+      { name: "correctAnswerRule", description: '"exactly one correct answer" or "one or more correct answers"' },
+      { name: "optionCount", description: "Number of answer options (4 or 6)" },
+      { name: "optionLetters", description: 'Option letters, e.g. "A, B, C, D"' },
+      { name: "responseFormat", description: "JSON format the answer is parsed with", required: true },
+    ],
+    defaultBody: QUESTION_GENERATION_PROMPT,
+  },
+  question_feedback: {
+    key: "question_feedback",
+    label: "Question feedback",
+    description: "System prompt for reviewing a question's clarity, distractors and difficulty.",
+    certificationOverrides: true,
+    variables: [{ name: "certificationName", description: "Certification name, when known" }],
+    defaultBody: QUESTION_FEEDBACK_PROMPT,
+  },
+  document_mapping: {
+    key: "document_mapping",
+    label: "Document mapping",
+    description: "Prompt for suggesting which objectives, bullets or sub-bullets a document covers.",
+    certificationOverrides: true,
+    variables: [
+      { name: "certificationName", description: "Certification name" },
+      { name: "documentText", description: "Text extracted from the document", required: true },
+      { name: "contentStructure", description: "JSON list of the certification's domains, objectives, bullets and sub-bullets with their IDs", required: true },
+    ],
+    defaultBody: DOCUMENT_MAPPING_PROMPT,
+  },
+  blueprint_extraction: {
+    key: "blueprint_extraction",
+    label: "Blueprint extraction",
+    description: "Prompt sent with an exam guide PDF to extract a certification's domains and objectives.",
+    certificationOverrides: true,
+    variables: [{ name: "certificationName", description: "Certification the blueprint is for" }],
+    defaultBody: BLUEPRINT_EXTRACTION_PROMPT,
+  },
+  blueprint_metadata_extraction: {
+    key: "blueprint_metadata_extraction",
+    label: "New certification from PDF",
+    description: "Prompt sent with an exam guide PDF to extract certification details and the blueprint.",
+    certificationOverrides: false,
+    variables: [],
+    defaultBody: BLUEPRINT_METADATA_EXTRACTION_PROMPT,
+  },
+};
+
+export type PromptVariables = Record<string, string | number | null | undefined>;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/**
+ * Fill {{variable}} placeholders; missing values render as empty text
+ */
+export function renderPrompt(body: string, variables: PromptVariables): string {
+  return body.replace(PLACEHOLDER, (_, name: string) => {
+    const value = variables[name];
+    return value === null || value === undefined ? "" : String(value);
+  });
+}
+
+/**
+ * Variable names a template uses, in order of first use
+ */
+export function promptPlaceholders(body: string): string[] {
+  return Array.from(new Set(Array.from(body.matchAll(PLACEHOLDER), (match) => match[1])));
+}
+
+/**
+ * Placeholders the prompt doesn't define and required variables the body leaves out
+ */
+export function checkPromptBody(
+  key: PromptKey,
+  body: string
+): { unknown: string[]; missing: string[] } {
+  const { variables } = PROMPT_DEFINITIONS[key];
+  const used = promptPlaceholders(body);
+  const known = new Set(variables.map((variable) => variable.name));
+
+  return {
+    unknown: used.filter((name) => !known.has(name)),
+    missing: variables
+      .filter((variable) => variable.required && !used.includes(variable.name))
+      .map((variable) => variable.name),
+  };
+}
+
+// ============================================================================
+// VARIABLES
+// ============================================================================
+
+export interface QuestionPromptContext {
+  questionType: string; // "multiple_choice" or "multi_select"
+  certificationName?: string;
+  domainName?: string;
+  objectiveCode?: string;
+  objectiveName?: string;
+  bulletText?: string;
+  subBulletText?: string;
+}
+
+/**
+ * Variables for the question_generation prompt
+ */
+export function questionGenerationVariables(input: QuestionPromptContext): PromptVariables {
+  const objective = input.objectiveCode
+    ? `${input.objectiveCode}${input.objectiveName ? ` - ${input.objectiveName}` : ""}`
+    : undefined;
+  const context = [
+    input.certificationName && `Certification: ${input.certificationName}`,
+    input.domainName && `Domain: ${input.domainName}`,
+    objective && `Objective: ${objective}`,
+    input.bulletText && `Bullet: ${input.bulletText}`,
+    input.subBulletText && `Sub-bullet: ${input.subBulletText}`,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  const isMultipleChoice = input.questionType === "multiple_choice";
+  const optionLetters = isMultipleChoice ? ["A", "B", "C", "D"] : ["A", "B", "C", "D", "E", "F"];
+  const optionTemplate = optionLetters
+    .map(
+      (letter) => `    {
+      "text": "Option ${letter} text",
+      "isCorrect": ${letter === "A" ? "true" : "false"},
+      "explanation": "Detailed explanation of why this is correct/incorrect"
+    }`
+    )
+    .join(",\n");
+
+  return {
+    context: context ? `Context: ${context}.` : "",
+    certificationName: input.certificationName,
+    domainName: input.domainName,
+    objective,
+    bulletText: input.bulletText,
+    subBulletText: input.subBulletText,
+    questionType: isMultipleChoice ? "multiple choice" : "multi-select",
+    correctAnswerRule: isMultipleChoice ? "exactly one correct answer" : "one or more correct answers",
+    optionCount: optionLetters.length,
+    optionLetters: optionLetters.join(", "),
+    responseFormat: `{
+  "text": "Your question text here",
+  "options": [
+${optionTemplate}
+  ]
+}`,
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Anthropic provider adapter (messages API; no embeddings)
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { AIProvider } from "../types";
+
+// Anthropic requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096;
+
+export function createAnthropicProvider(apiKey: string): AIProvider {
+  // The gateway owns retries and timeouts
+  const client = new Anthropic({ apiKey, maxRetries: 0 });
+
+  return {
+    name: "anthropic",
+
+    async complete(modelId, request, signal) {
+      const content: Anthropic.ContentBlockParam[] = [
+        ...(request.documents ?? []).map(
+          (document): Anthropic.ContentBlockParam => ({
+            type: "document",
+            source: { type: "base64", media_type: document.mediaType, data: document.data },
+          })
+        ),
+        { type: "text", text: request.prompt },
+      ];
+
+      const message = await client.messages.create(
+        {
+          model: modelId,
+          max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+          temperature: request.temperature,
+          system: request.system,
+          messages: [{ role: "user", content }],
+        },
+        { signal }
+      );
+
+      return {
+        text: message.content
+          .filter((block): block is Anthropic.TextBlock => block.type === "text")
+          .map((block) => block.text)
+          .join("\n"),
+        usage: {
+          inputTokens: message.usage.input_tokens,
+          outputTokens: message.usage.output_tokens,
+        },
+      };
+    },
+  };
+}
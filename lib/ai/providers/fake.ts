@@ -0,0 +1,66 @@
+/**
+ * Fake provider adapter
+ *
+ * Deterministic, offline responses for tests and local development
+ * (AI_PROVIDER="fake"). Completions come from the responder; embeddings are
+ * hashed bags of words, so texts sharing words score as similar.
+ */
+
+import type { AICompletionRequest, AIProvider } from "../types";
+
+export type FakeResponder = (request: AICompletionRequest, modelId: string) => string;
+
+export const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+const defaultResponder: FakeResponder = (request) =>
+  request.json
+    ? "{}"
+    : `[fake ${request.task}] ${request.prompt.split(/\s+/).slice(0, 40).join(" ")}`;
+
+// FNV-1a, stable across runs
+function hashWord(word: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function fakeEmbedding(text: string, dimensions = FAKE_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    vector[hashWord(word) % dimensions] += 1;
+  }
+
+  const magnitude = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return magnitude === 0 ? vector : vector.map((value) => value / magnitude);
+}
+
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createFakeProvider(respond: FakeResponder = defaultResponder): AIProvider {
+  return {
+    name: "fake",
+
+    async complete(modelId, request) {
+      const text = respond(request, modelId);
+      return {
+        text,
+        usage: {
+          inputTokens: countTokens((request.system ?? "") + request.prompt),
+          outputTokens: countTokens(text),
+        },
+      };
+    },
+
+    async embed(_modelId, input) {
+      return {
+        embeddings: input.map((text) => fakeEmbedding(text)),
+        usage: { inputTokens: countTokens(input.join(" ")), outputTokens: 0 },
+      };
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * OpenAI provider adapter (chat completions and embeddings)
+ */
+
+import OpenAI from "openai";
+import type { AIProvider } from "../types";
+
+export function createOpenAIProvider(apiKey: string): AIProvider {
+  // The gateway owns retries and timeouts
+  const client = new OpenAI({ apiKey, maxRetries: 0 });
+
+  return {
+    name: "openai",
+
+    async complete(modelId, request, signal) {
+      const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+      if (request.system) {
+        messages.push({ role: "system", content: request.system });
+      }
+
+      if (request.documents?.length) {
+        messages.push({
+          role: "user",
+          content: [
+            ...request.documents.map(
+              (document, index): OpenAI.Chat.Completions.ChatCompletionContentPart => ({
+                type: "file",
+                file: {
+                  filename: document.filename ?? `document-${index + 1}.pdf`,
+                  file_data: `data:${document.mediaType};base64,${document.data}`,
+                },
+              })
+            ),
+            { type: "text", text: request.prompt },
+          ],
+        });
+      } else {
+        messages.push({ role: "user", content: request.prompt });
+      }
+
+      const completion = await client.chat.completions.create(
+        {
+          model: modelId,
+          messages,
+          max_completion_tokens: request.maxTokens,
+          temperature: request.temperature,
+          response_format: request.json ? { type: "json_object" } : undefined,
+        },
+        { signal }
+      );
+
+      return {
+        text: completion.choices[0]?.message?.content ?? "",
+        usage: {
+          inputTokens: completion.usage?.prompt_tokens ?? 0,
+          outputTokens: completion.usage?.completion_tokens ?? 0,
+        },
+      };
+    },
+
+    async embed(modelId, input, signal) {
+      const response = await client.embeddings.create(
+        { model: modelId, input, encoding_format: "float" },
+        { signal }
+      );
+
+      return {
+        embeddings: response.data
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding),
+        usage: { inputTokens: response.usage?.prompt_tokens ?? 0, outputTokens: 0 },
+      };
+    },
+  };
+}
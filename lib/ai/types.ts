@@ -0,0 +1,155 @@
+/**
+ * AI Gateway Types
+ *
+ * Shared shapes for the provider-agnostic gateway: task types, requests,
+ * provider adapters and the errors callers can surface to users.
+ */
+
+/**
+ * What a call is for. Each task is routed to the model assigned to it in
+ * the AIModel registry (see modelRegistry.ts).
+ */
+export const AI_TASK_TYPES = [
+  "generation",
+  "feedback",
+  "mapping",
+  "blueprint",
+  "description",
+  "embedding",
+] as const;
+
+export type AITaskType = (typeof AI_TASK_TYPES)[number];
+
+export const AI_TASK_LABELS: Record<AITaskType, string> = {
+  generation: "Question & flashcard generation",
+  feedback: "Question feedback",
+  mapping: "Content mapping",
+  blueprint: "Blueprint extraction",
+  description: "Descriptions",
+  embedding: "Embeddings",
+};
+
+/**
+ * Product feature a call is billed to in the AIUsage ledger
+ */
+export const AI_FEATURES = [
+  "question_generation",
+  "question_feedback",
+  "flashcard_generation",
+  "blueprint_extraction",
+  "document_mapping",
+  "video_description",
+  "document_description",
+  "embedding",
+  "transcription",
+] as const;
+
+export type AIFeature = (typeof AI_FEATURES)[number];
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  question_generation: "Question generation",
+  question_feedback: "Question feedback",
+  flashcard_generation: "Flashcard generation",
+  blueprint_extraction: "Blueprint extraction",
+  document_mapping: "Document mapping",
+  video_description: "Video descriptions",
+  document_description: "Document descriptions",
+  embedding: "Embeddings",
+  transcription: "Transcription",
+};
+
+/**
+ * Who and what a call is billed to. Budgets are checked against it before
+ * the call and usage is recorded against it afterwards.
+ */
+export interface AIUsageContext {
+  feature: AIFeature;
+  userId?: string | null;
+  certificationId?: string | null;
+}
+
+export type AIProviderName = "openai" | "anthropic" | "fake";
+
+/**
+ * Model chosen for a call
+ */
+export interface ResolvedModel {
+  provider: AIProviderName;
+  modelId: string;
+}
+
+/**
+ * Base64 file sent alongside the prompt (e.g. a blueprint PDF)
+ */
+export interface AIDocument {
+  mediaType: "application/pdf";
+  data: string;
+  filename?: string;
+}
+
+export interface AICompletionRequest {
+  task: AITaskType;
+  system?: string;
+  prompt: string;
+  documents?: AIDocument[];
+  maxTokens?: number;
+  temperature?: number;
+  // Ask the provider for a JSON object when it supports a JSON mode
+  json?: boolean;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds?: number;
+}
+
+export interface AICompletion {
+  text: string;
+  model: ResolvedModel;
+  usage: AIUsage;
+}
+
+export interface AIEmbeddingResult {
+  embeddings: number[][];
+  model: ResolvedModel;
+  usage: AIUsage;
+}
+
+/**
+ * Provider adapter. Adapters make a single attempt; retries and timeouts
+ * are handled by the gateway.
+ */
+export interface AIProvider {
+  name: AIProviderName;
+  complete(
+    modelId: string,
+    request: AICompletionRequest,
+    signal: AbortSignal
+  ): Promise<{ text: string; usage: AIUsage }>;
+  embed?(
+    modelId: string,
+    input: string[],
+    signal: AbortSignal
+  ): Promise<{ embeddings: number[][]; usage: AIUsage }>;
+}
+
+export type AIErrorCode =
+  | "not_configured"
+  | "unavailable"
+  | "timeout"
+  | "invalid_response"
+  | "budget_exceeded";
+
+/**
+ * Error raised by the gateway. Messages are safe to show to users.
+ */
+export class AIServiceError extends Error {
+  constructor(
+    public code: AIErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = "AIServiceError";
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * AI Usage Meter
+ *
+ * Records every AI call in the AIUsage ledger and enforces the monthly
+ * budgets in AIBudget. A budget applies to a call when its feature and
+ * certification are unset or match the call's; once a budget's spend for the
+ * current calendar month (UTC) reaches its limit, calls it covers are refused.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { computeCost, defaultPricingFor, type ModelPricing } from "./pricing";
+import {
+  AIServiceError,
+  AI_FEATURE_LABELS,
+  type AIUsage,
+  type AIUsageContext,
+  type ResolvedModel,
+} from "./types";
+
+export interface AIUsageEntry extends AIUsageContext {
+  model: ResolvedModel;
+  usage: AIUsage;
+}
+
+export interface AIUsageMeter {
+  // Throws AIServiceError("budget_exceeded") when a covering budget is spent
+  assertWithinBudget(context: AIUsageContext): Promise<void>;
+  record(entry: AIUsageEntry): Promise<void>;
+}
+
+/**
+ * First instant of the month containing `date`, in UTC
+ */
+export function monthStart(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * Pricing for a model: AIModel overrides, then built-in prices
+ */
+async function pricingFor(modelId: string): Promise<ModelPricing | null> {
+  const fallback = defaultPricingFor(modelId);
+  const model = await prisma.aIModel.findUnique({
+    where: { modelId },
+    select: { inputPricePerMTok: true, outputPricePerMTok: true, audioPricePerMinute: true },
+  });
+
+  if (
+    !model ||
+    (model.inputPricePerMTok === null &&
+      model.outputPricePerMTok === null &&
+      model.audioPricePerMinute === null)
+  ) {
+    return fallback;
+  }
+
+  return {
+    inputPerMTok: model.inputPricePerMTok ?? fallback?.inputPerMTok ?? 0,
+    outputPerMTok: model.outputPricePerMTok ?? fallback?.outputPerMTok ?? 0,
+    audioPerMinute: model.audioPricePerMinute ?? fallback?.audioPerMinute,
+  };
+}
+
+/**
+ * Spend since `since` for a budget's scope
+ */
+export async function spendSince(
+  since: Date,
+  scope: { feature: string | null; certificationId: string | null }
+): Promise<number> {
+  const result = await prisma.aIUsage.aggregate({
+    where: {
+      createdAt: { gte: since },
+      ...(scope.feature && { feature: scope.feature }),
+      ...(scope.certificationId && { certificationId: scope.certificationId }),
+    },
+    _sum: { costUsd: true },
+  });
+  return result._sum.costUsd ?? 0;
+}
+
+export const aiUsageMeter: AIUsageMeter = {
+  async assertWithinBudget(context) {
+    const budgets = await prisma.aIBudget.findMany({
+      where: {
+        AND: [
+          { OR: [{ feature: null }, { feature: context.feature }] },
+          {
+            OR: [
+              { certificationId: null },
+              ...(context.certificationId ? [{ certificationId: context.certificationId }] : []),
+            ],
+          },
+        ],
+      },
+      include: { certification: { select: { name: true } } },
+    });
+
+    const since = monthStart();
+    for (const budget of budgets) {
+      const spent = await spendSince(since, budget);
+      if (spent >= budget.monthlyLimitUsd) {
+        const scope = [
+          budget.feature ? AI_FEATURE_LABELS[budget.feature as AIUsageContext["feature"]] : null,
+          budget.certification?.name,
+        ]
+          .filter(Boolean)
+          .join(" · ");
+        throw new AIServiceError(
+          "budget_exceeded",
+          `The monthly AI budget${scope ? ` for ${scope}` : ""} ($${budget.monthlyLimitUsd.toFixed(2)}) has been reached. An admin can raise it on the AI Usage page.`
+        );
+      }
+    }
+  },
+
+  async record(entry) {
+    const pricing = await pricingFor(entry.model.modelId);
+
+    await prisma.aIUsage.create({
+      data: {
+        feature: entry.feature,
+        provider: entry.model.provider,
+        modelId: entry.model.modelId,
+        userId: entry.userId ?? null,
+        certificationId: entry.certificationId ?? null,
+        inputTokens: entry.usage.inputTokens,
+        outputTokens: entry.usage.outputTokens,
+        audioSeconds: entry.usage.audioSeconds ?? null,
+        costUsd: computeCost(entry.model.provider, entry.usage, pricing),
+      },
+    });
+  },
+};
+
+/**
+ * Record usage without letting ledger failures break the caller
+ */
+export async function recordUsageSafely(meter: AIUsageMeter, entry: AIUsageEntry): Promise<void> {
+  try {
+    await meter.record(entry);
+  } catch (error) {
+    console.error(`[AI Usage] Failed to record ${entry.feature} usage:`, error);
+  }
+}
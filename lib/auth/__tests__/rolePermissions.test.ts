@@ -0,0 +1,147 @@
+/** @jest-environment node */
+import { PERMISSION_KEYS, SYSTEM_ROLES, canAccessAdminArea } from '../permissions'
+import {
+  grantNewPermissionsToSystemRoles,
+  invalidateRolePermissionCache,
+  permissionsForRoles,
+  resolvePermissions,
+} from '../rolePermissions'
+
+const findMany = jest.fn()
+const findPermissions = jest.fn()
+const createRolePermissions = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    role: { findMany: (...args: unknown[]) => findMany(...args) },
+    permission: { findMany: (...args: unknown[]) => findPermissions(...args) },
+    rolePermission: { createMany: (...args: unknown[]) => createRolePermissions(...args) },
+  },
+}))
+
+const roleRow = (name: string, keys: string[]) => ({
+  name,
+  permissions: keys.map((key) => ({ permission: { key } })),
+})
+
+describe('role permissions', () => {
+  beforeEach(() => {
+    findMany.mockReset()
+    findPermissions.mockReset()
+    findPermissions.mockResolvedValue(PERMISSION_KEYS.map((key) => ({ key })))
+    createRolePermissions.mockReset()
+    invalidateRolePermissionCache()
+  })
+
+  it('only grants registered permissions to the system roles', () => {
+    for (const role of SYSTEM_ROLES) {
+      expect(PERMISSION_KEYS).toEqual(expect.arrayContaining(role.permissions))
+    }
+    expect(new Set(PERMISSION_KEYS).size).toBe(PERMISSION_KEYS.length)
+  })
+
+  it('merges the permissions of every role and ignores unknown roles', () => {
+    const table = new Map([
+      ['question_reviewer', ['questions.read', 'questions.edit']],
+      ['user', ['progress.read']],
+    ])
+
+    expect(permissionsForRoles(['user', 'question_reviewer', 'ghost'], table).sort()).toEqual([
+      'progress.read',
+      'questions.edit',
+      'questions.read',
+    ])
+  })
+
+  it('falls back to the default permissions for system roles not in the table', () => {
+    const permissions = permissionsForRoles(['admin'], new Map())
+
+    expect(permissions).toContain('questions.tasks.create')
+    expect(permissions).toContain('roles.manage')
+  })
+
+  it('caches the roles table until it is invalidated', async () => {
+    findMany.mockResolvedValue([roleRow('content_editor', ['content.update'])])
+
+    expect(await resolvePermissions(['content_editor'])).toEqual(['content.update'])
+    await resolvePermissions(['content_editor'])
+    expect(findMany).toHaveBeenCalledTimes(1)
+
+    findMany.mockResolvedValue([roleRow('content_editor', ['content.update', 'content.delete'])])
+    invalidateRolePermissionCache()
+
+    expect(await resolvePermissions(['content_editor'])).toEqual(['content.update', 'content.delete'])
+    expect(findMany).toHaveBeenCalledTimes(2)
+  })
+
+  it('does not cache a load that was in flight when the cache was invalidated', async () => {
+    let finishLoad: (rows: unknown[]) => void = () => {}
+    findMany.mockReturnValueOnce(new Promise((resolve) => (finishLoad = resolve)))
+    const stale = resolvePermissions(['content_editor'])
+
+    invalidateRolePermissionCache()
+    finishLoad([roleRow('content_editor', ['content.update'])])
+    expect(await stale).toEqual(['content.update'])
+
+    findMany.mockResolvedValue([roleRow('content_editor', ['content.delete'])])
+    expect(await resolvePermissions(['content_editor'])).toEqual(['content.delete'])
+    expect(findMany).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives system roles their defaults for permissions not synced to the table yet', async () => {
+    findMany.mockResolvedValue([roleRow('admin', ['roles.manage']), roleRow('custom', [])])
+    findPermissions.mockResolvedValue([{ key: 'roles.manage' }, { key: 'users.read' }])
+
+    const permissions = await resolvePermissions(['admin', 'custom'])
+
+    expect(permissions).toContain('roles.manage')
+    expect(permissions).toContain('questions.tasks.create')
+    expect(permissions).not.toContain('users.read')
+  })
+
+  it('grants permissions added to the registry later to the system roles that have them by default', async () => {
+    findMany.mockResolvedValue([
+      { id: 'role-admin', name: 'admin' },
+      { id: 'role-instructor', name: 'instructor' },
+      { id: 'role-user', name: 'user' },
+    ])
+    const permissionIds = new Map([
+      ['roles.manage', 'perm-roles'],
+      ['students.read', 'perm-students'],
+    ])
+
+    await grantNewPermissionsToSystemRoles(['roles.manage', 'students.read'], permissionIds)
+
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { isSystem: true } }))
+    expect(createRolePermissions).toHaveBeenCalledWith({
+      data: [
+        { roleId: 'role-admin', permissionId: 'perm-roles' },
+        { roleId: 'role-admin', permissionId: 'perm-students' },
+      ],
+      skipDuplicates: true,
+    })
+    expect(createRolePermissions).toHaveBeenCalledWith({
+      data: [{ roleId: 'role-instructor', permissionId: 'perm-students' }],
+      skipDuplicates: true,
+    })
+    expect(createRolePermissions).toHaveBeenCalledTimes(2)
+  })
+
+  it('grants nothing when no permissions were added', async () => {
+    await grantNewPermissionsToSystemRoles([], new Map())
+
+    expect(findMany).not.toHaveBeenCalled()
+    expect(createRolePermissions).not.toHaveBeenCalled()
+  })
+})
+
+describe('canAccessAdminArea', () => {
+  it('opens the admin area for any permission a student does not have', () => {
+    const student = SYSTEM_ROLES.find((role) => role.name === 'user')!.permissions
+
+    expect(canAccessAdminArea(student)).toBe(false)
+    expect(canAccessAdminArea([])).toBe(false)
+    expect(canAccessAdminArea([...student, 'questions.review'])).toBe(true)
+    expect(canAccessAdminArea(['content.update'])).toBe(true)
+  })
+})
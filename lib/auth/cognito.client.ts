@@ -11,6 +11,7 @@ import {
   AdminEnableUserCommand,
   AdminAddUserToGroupCommand,
   AdminRemoveUserFromGroupCommand,
+  CreateGroupCommand,
   type AttributeType,
 } from "@aws-sdk/client-cognito-identity-provider";
 
@@ -39,7 +40,8 @@ export interface CreateUserInput {
   username: string;
   email: string;
   name?: string;
-  role?: "user" | "admin" | "instructor";
+  // null skips the group, for callers that assign groups themselves
+  role?: "user" | "admin" | "instructor" | null;
   temporaryPassword?: string;
   sendEmail?: boolean;
 }
@@ -265,12 +267,14 @@ export async function deleteCognitoUser(username: string) {
 }
 
 /**
- * List all users in the User Pool
+ * List users in the User Pool, one page at a time
+ * Pass the previous page's paginationToken to get the next page
  */
-export async function listCognitoUsers(limit: number = 60) {
+export async function listCognitoUsers(limit: number = 60, paginationToken?: string) {
   const command = new ListUsersCommand({
     UserPoolId: USER_POOL_ID,
     Limit: limit,
+    PaginationToken: paginationToken,
   });
 
   try {
@@ -302,9 +306,32 @@ export async function listCognitoUsers(limit: number = 60) {
   }
 }
 
+/**
+ * Create a Cognito group unless it already exists
+ * Custom roles have no group until they are first assigned
+ */
+export async function ensureGroup(groupName: string, description?: string) {
+  const command = new CreateGroupCommand({
+    UserPoolId: USER_POOL_ID,
+    GroupName: groupName,
+    Description: description,
+  });
+
+  try {
+    await cognitoClient.send(command);
+    return { success: true, created: true };
+  } catch (error) {
+    if (error instanceof Error && error.name === "GroupExistsException") {
+      return { success: true, created: false };
+    }
+    console.error("Error creating group:", error);
+    throw error;
+  }
+}
+
 /**
  * Add user to a Cognito group
- * Note: Groups must be created in Cognito console first
+ * Note: The group must exist; see ensureGroup
  */
 export async function addUserToGroup(username: string, groupName: string) {
   const command = new AdminAddUserToGroupCommand({
@@ -2,6 +2,20 @@
 import { NextAuthOptions } from "next-auth";
 import CognitoProvider from "next-auth/providers/cognito";
 import { prisma } from "@/lib/prisma";
+import { canAccessAdminArea } from "./permissions";
+import { resolvePermissions } from "./rolePermissions";
+
+// How long the admin-area flag in the token is trusted before roles are re-read
+const ADMIN_ACCESS_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Store whether the roles open the admin area, for the middleware, which
+ * runs without database access
+ */
+async function setAdminAccess(token: Record<string, unknown>, roles: string[]) {
+  token.adminAccess = canAccessAdminArea(await resolvePermissions(roles));
+  token.adminAccessCheckedAt = Date.now();
+}
 
 /**
  * NextAuth.js configuration with AWS Cognito provider
@@ -10,6 +24,7 @@ import { prisma } from "@/lib/prisma";
  * - OAuth authentication flow with Cognito
  * - User synchronization with local database
  * - Role mapping from Cognito custom attributes
+ * - Admin-area access resolved from the roles' permissions
  * - Session management
  */
 export const authOptions: NextAuthOptions = {
@@ -89,9 +104,27 @@ export const authOptions: NextAuthOptions = {
           // Add user ID and role to token
           token.userId = user.id;
           token.roles = user.roles;
+          await setAdminAccess(token, user.roles);
         } catch (error) {
           console.error("Error syncing user with database:", error);
         }
+      } else if (
+        token.userId &&
+        Date.now() - ((token.adminAccessCheckedAt as number | undefined) ?? 0) > ADMIN_ACCESS_REFRESH_MS
+      ) {
+        // Pick up role and permission changes made since sign-in
+        try {
+          const user = await prisma.user.findUnique({
+            where: { id: token.userId as string },
+            select: { roles: true },
+          });
+          if (user) {
+            token.roles = user.roles;
+            await setAdminAccess(token, user.roles);
+          }
+        } catch (error) {
+          console.error("Error refreshing admin access:", error);
+        }
       }
 
       return token;
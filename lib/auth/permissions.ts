@@ -0,0 +1,161 @@
+// lib/auth/permissions.ts
+
+/**
+ * Permission registry
+ *
+ * Every permission string checked in the code (withPermission,
+ * `user.permissions.includes(...)`) is listed here. The role editor offers
+ * these keys, and `Permission` is typed from them so a typo in a
+ * withPermission call fails to compile.
+ */
+export const PERMISSIONS = [
+  // General
+  { key: "read", category: "General", description: "Read access to shared resources" },
+  { key: "write", category: "General", description: "Write access to shared resources" },
+  { key: "delete", category: "General", description: "Delete shared resources" },
+  { key: "system", category: "General", description: "System maintenance tasks (name pools and seed data)" },
+
+  // User management
+  { key: "users.read", category: "Users", description: "View user accounts" },
+  { key: "users.create", category: "Users", description: "Invite and create users" },
+  { key: "users.update", category: "Users", description: "Edit users and their roles" },
+  { key: "users.delete", category: "Users", description: "Delete user accounts" },
+  { key: "users.manage", category: "Users", description: "Full user management" },
+
+  // Roles and permissions
+  { key: "roles.read", category: "Roles", description: "View roles and their permissions" },
+  { key: "roles.manage", category: "Roles", description: "Create, edit and delete roles" },
+
+  // Certifications
+  { key: "certifications.read", category: "Certifications", description: "View certifications and blueprints" },
+  { key: "certifications.create", category: "Certifications", description: "Create certifications" },
+  { key: "certifications.update", category: "Certifications", description: "Edit certifications, domains and objectives" },
+  { key: "certifications.delete", category: "Certifications", description: "Delete certifications" },
+  { key: "certifications.manage", category: "Certifications", description: "Full certification management" },
+
+  // AI models
+  { key: "ai_models.read", category: "AI Models", description: "View AI models" },
+  { key: "ai_models.create", category: "AI Models", description: "Add AI models" },
+  { key: "ai_models.update", category: "AI Models", description: "Edit and enable AI models" },
+  { key: "ai_models.delete", category: "AI Models", description: "Delete AI models" },
+  { key: "ai_models.manage", category: "AI Models", description: "Sync AI models from providers" },
+  { key: "ai_usage.read", category: "AI Models", description: "View AI usage and spend" },
+  { key: "ai_usage.manage", category: "AI Models", description: "Set monthly AI budgets" },
+  { key: "prompts.read", category: "AI Models", description: "View AI prompt templates and their history" },
+  { key: "prompts.manage", category: "AI Models", description: "Edit AI prompts and certification overrides" },
+
+  // Content
+  { key: "content.view", category: "Content", description: "View published content" },
+  { key: "content.read", category: "Content", description: "Browse the content library" },
+  { key: "content.create", category: "Content", description: "Upload videos and documents" },
+  { key: "content.update", category: "Content", description: "Edit content and objective mappings" },
+  { key: "content.edit", category: "Content", description: "Edit content details" },
+  { key: "content.delete", category: "Content", description: "Delete content" },
+  { key: "content.manage", category: "Content", description: "Full content management" },
+
+  // Question bank
+  { key: "questions.read", category: "Questions", description: "View the question bank and PBQs" },
+  { key: "questions.create", category: "Questions", description: "Create and import questions and PBQs" },
+  { key: "questions.edit", category: "Questions", description: "Edit questions and PBQs" },
+  { key: "questions.delete", category: "Questions", description: "Delete questions and PBQs" },
+  { key: "questions.review", category: "Questions", description: "Approve or request changes on questions assigned to them" },
+  { key: "questions.publish", category: "Questions", description: "Publish and retire approved questions" },
+  { key: "questions.tasks.create", category: "Questions", description: "Create question writing tasks" },
+  { key: "questions.tasks.manage", category: "Questions", description: "Update, pause and complete question tasks" },
+  { key: "questions.tasks.delete", category: "Questions", description: "Delete question tasks" },
+
+  // Students
+  { key: "students.view", category: "Students", description: "View student lists" },
+  { key: "students.read", category: "Students", description: "View student progress" },
+
+  // Cohorts
+  { key: "cohorts.read", category: "Cohorts", description: "View cohorts you teach and their rosters" },
+  { key: "cohorts.manage", category: "Cohorts", description: "Create cohorts and manage enrollment in any cohort" },
+
+  // Own learning progress
+  { key: "progress.read", category: "Progress", description: "View own progress, exams and flashcards" },
+  { key: "progress.update", category: "Progress", description: "Record own progress and attempts" },
+  { key: "progress.manage", category: "Progress", description: "Manage own study plan and flashcards" },
+
+  // Analytics
+  { key: "analytics.view", category: "Analytics", description: "View analytics dashboards" },
+  { key: "analytics.manage", category: "Analytics", description: "Configure analytics" },
+] as const;
+
+export type PermissionKey = (typeof PERMISSIONS)[number]["key"];
+
+export const PERMISSION_KEYS: PermissionKey[] = PERMISSIONS.map((permission) => permission.key);
+
+/**
+ * What a student needs for their own studies. Any permission beyond these
+ * opens the admin area, so custom roles get in without a role-name check.
+ */
+export const LEARNER_PERMISSIONS: PermissionKey[] = [
+  "read",
+  "content.view",
+  "content.read",
+  "progress.manage",
+  "progress.read",
+  "progress.update",
+];
+
+/**
+ * Built-in roles, matching the default Cognito groups. They are created in the
+ * roles table on first use and fall back to these permissions until then.
+ */
+export const SYSTEM_ROLES: {
+  name: string;
+  displayName: string;
+  description: string;
+  permissions: PermissionKey[];
+}[] = [
+  {
+    name: "admin",
+    displayName: "Admin",
+    description: "Full access to every admin area",
+    permissions: PERMISSION_KEYS.filter((key) => !key.startsWith("progress.") && key !== "content.view"),
+  },
+  {
+    name: "instructor",
+    displayName: "Instructor",
+    description: "Builds certifications, content and questions, and follows students",
+    permissions: [
+      "read",
+      "write",
+      "certifications.read",
+      "certifications.create",
+      "certifications.update",
+      "content.read",
+      "content.create",
+      "content.update",
+      "content.edit",
+      "questions.read",
+      "questions.create",
+      "questions.edit",
+      "questions.review",
+      "questions.tasks.create",
+      "questions.tasks.manage",
+      "students.view",
+      "students.read",
+      "cohorts.read",
+      "analytics.view",
+    ],
+  },
+  {
+    name: "user",
+    displayName: "Student",
+    description: "Studies for a certification",
+    permissions: LEARNER_PERMISSIONS,
+  },
+];
+
+export function isPermissionKey(key: string): key is PermissionKey {
+  return (PERMISSION_KEYS as string[]).includes(key);
+}
+
+/**
+ * Whether resolved permissions open the admin area
+ */
+export function canAccessAdminArea(permissions: string[]): boolean {
+  return permissions.some((permission) => !(LEARNER_PERMISSIONS as string[]).includes(permission));
+}
@@ -0,0 +1,133 @@
+// lib/auth/rolePermissions.ts
+import { prisma } from "@/lib/prisma";
+import { SYSTEM_ROLES } from "./permissions";
+
+/**
+ * How long role permissions are cached. Role edits call
+ * invalidateRolePermissionCache(), so this only bounds how stale other
+ * server instances can be.
+ */
+const CACHE_TTL_MS = 30_000;
+
+let cache: { rolePermissions: Map<string, string[]>; expiresAt: number } | null = null;
+let pending: Promise<Map<string, string[]>> | null = null;
+// Bumped on invalidation so a load started before it doesn't fill the cache
+let generation = 0;
+
+function systemRoleDefaults(roleName: string): readonly string[] {
+  return SYSTEM_ROLES.find((systemRole) => systemRole.name === roleName)?.permissions ?? [];
+}
+
+async function loadRolePermissions(): Promise<Map<string, string[]>> {
+  const [roles, synced] = await Promise.all([
+    prisma.role.findMany({
+      select: {
+        name: true,
+        permissions: { select: { permission: { select: { key: true } } } },
+      },
+    }),
+    prisma.permission.findMany({ select: { key: true } }),
+  ]);
+  const syncedKeys = new Set(synced.map((permission) => permission.key));
+
+  return new Map(
+    roles.map((role) => {
+      // Keys added to the registry since the permissions table was last synced
+      // can't be linked yet; system roles get their defaults for those
+      const unsyncedDefaults = systemRoleDefaults(role.name).filter((key) => !syncedKeys.has(key));
+      return [
+        role.name,
+        [...role.permissions.map(({ permission }) => permission.key), ...unsyncedDefaults],
+      ];
+    })
+  );
+}
+
+/**
+ * Link permissions just added to the permissions table to the system roles
+ * that have them by default. System roles are saved with the defaults of the
+ * day, so without this they would never get keys added to the registry later.
+ */
+export async function grantNewPermissionsToSystemRoles(
+  newKeys: string[],
+  permissionIds: Map<string, string>
+): Promise<void> {
+  if (newKeys.length === 0) return;
+
+  const roles = await prisma.role.findMany({
+    where: { isSystem: true },
+    select: { id: true, name: true },
+  });
+
+  for (const role of roles) {
+    const granted = systemRoleDefaults(role.name).filter((key) => newKeys.includes(key));
+    if (granted.length > 0) {
+      await prisma.rolePermission.createMany({
+        data: granted.map((key) => ({ roleId: role.id, permissionId: permissionIds.get(key)! })),
+        skipDuplicates: true,
+      });
+    }
+  }
+}
+
+/**
+ * Role name -> permission keys, from the roles table (cached)
+ */
+export async function getRolePermissions(): Promise<Map<string, string[]>> {
+  if (cache && cache.expiresAt > Date.now()) {
+    return cache.rolePermissions;
+  }
+
+  // Concurrent requests share one query
+  if (!pending) {
+    const loadGeneration = generation;
+    const load: Promise<Map<string, string[]>> = loadRolePermissions()
+      .then((rolePermissions) => {
+        if (loadGeneration === generation) {
+          cache = { rolePermissions, expiresAt: Date.now() + CACHE_TTL_MS };
+        }
+        return rolePermissions;
+      })
+      .finally(() => {
+        if (pending === load) pending = null;
+      });
+    pending = load;
+  }
+
+  return pending;
+}
+
+export function invalidateRolePermissionCache(): void {
+  generation++;
+  cache = null;
+  pending = null;
+}
+
+/**
+ * Union of the permissions of every role a user has. Roles missing from the
+ * table get nothing, except the system roles, which use their defaults until
+ * they are saved to the table.
+ */
+export function permissionsForRoles(
+  roleNames: string[],
+  rolePermissions: Map<string, string[]>
+): string[] {
+  const permissions = new Set<string>();
+
+  for (const roleName of roleNames) {
+    const granted =
+      rolePermissions.get(roleName) ??
+      SYSTEM_ROLES.find((role) => role.name === roleName)?.permissions ??
+      [];
+    granted.forEach((permission) => permissions.add(permission));
+  }
+
+  return Array.from(permissions);
+}
+
+/**
+ * Resolve a user's permissions from their roles
+ */
+export async function resolvePermissions(roleNames: string[]): Promise<string[]> {
+  return permissionsForRoles(roleNames, await getRolePermissions());
+}
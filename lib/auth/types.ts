@@ -42,4 +42,5 @@ export class NotFoundError extends Error {
   }
 }
 
-export type Permission = string;
+// Keys from the permission registry (lib/auth/permissions.ts)
+export type { PermissionKey as Permission } from "./permissions";
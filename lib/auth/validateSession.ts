@@ -3,89 +3,7 @@ import { getServerSession } from "next-auth";
 import { authOptions } from "./nextauth.config";
 import { AuthContext, UnauthorizedError } from "./types";
 import { prisma } from "@/lib/prisma";
-
-/**
- * Permission mapping based on user roles
- *
- * This defines what permissions each role has access to.
- * Customize this based on your application's needs.
- */
-const ROLE_PERMISSIONS: Record<string, string[]> = {
-  admin: [
-    // General permissions
-    "read",
-    "write",
-    "delete",
-
-    // User management
-    "users.manage",
-    "users.create",
-    "users.update",
-    "users.delete",
-    "users.read",
-
-    // Certification management
-    "certifications.read",
-    "certifications.create",
-    "certifications.update",
-    "certifications.delete",
-    "certifications.manage",
-
-    // AI Models management
-    "ai_models.read",
-    "ai_models.create",
-    "ai_models.update",
-    "ai_models.delete",
-    "ai_models.manage",
-
-    // Content management
-    "content.read",
-    "content.create",
-    "content.update",
-    "content.delete",
-    "content.manage",
-
-    // Analytics
-    "analytics.view",
-    "analytics.manage",
-  ],
-  instructor: [
-    // General permissions
-    "read",
-    "write",
-
-    // Certification access
-    "certifications.read",
-    "certifications.create",
-    "certifications.update",
-
-    // Content management
-    "content.read",
-    "content.create",
-    "content.update",
-    "content.edit",
-
-    // Student management
-    "students.view",
-    "students.read",
-
-    // Analytics
-    "analytics.view",
-  ],
-  user: [
-    // Basic read access
-    "read",
-
-    // Content viewing
-    "content.view",
-    "content.read",
-
-    // Own progress management
-    "progress.manage",
-    "progress.read",
-    "progress.update",
-  ],
-};
+import { resolvePermissions } from "./rolePermissions";
 
 /**
  * Validates the current session and returns the auth context.
@@ -93,7 +11,8 @@ const ROLE_PERMISSIONS: Record<string, string[]> = {
  * This function:
  * 1. Gets session from NextAuth (validates JWT)
  * 2. Verifies user exists in database
- * 3. Enriches context with roles and permissions
+ * 3. Enriches context with roles and the permissions those roles have in the
+ *    roles table (see lib/auth/rolePermissions.ts)
  * 4. Returns AuthContext for use in server actions
  *
  * @returns {Promise<AuthContext>} The authenticated user context
@@ -130,11 +49,7 @@ export async function validateSession(): Promise<AuthContext> {
   }
 
   // Map roles to permissions
-  const permissions = new Set<string>();
-  user.roles.forEach((role: string) => {
-    const rolePermissions = ROLE_PERMISSIONS[role] || [];
-    rolePermissions.forEach((perm: string) => permissions.add(perm));
-  });
+  const permissions = await resolvePermissions(user.roles);
 
   // Build and return AuthContext
   const authContext: AuthContext = {
@@ -142,7 +57,7 @@ export async function validateSession(): Promise<AuthContext> {
     email: user.email,
     name: user.name || undefined,
     roles: user.roles,
-    permissions: Array.from(permissions),
+    permissions,
   };
 
   return authContext;
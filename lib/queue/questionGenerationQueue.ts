@@ -0,0 +1,85 @@
+/**
+ * Question Generation Queue
+ *
+ * BullMQ queue for generating AI question drafts asynchronously.
+ * Jobs are added when a question task's gaps are filled and processed by a
+ * worker; each job writes one draft for review.
+ */
+
+import { Queue } from "bullmq";
+import { defaultQueueOptions } from "./config";
+
+/**
+ * Question generation job data interface
+ */
+export interface QuestionGenerationJobData {
+  draftId: string;
+}
+
+/**
+ * Question generation queue instance
+ * Singleton pattern to avoid creating multiple queue instances
+ */
+let questionGenerationQueue: Queue<QuestionGenerationJobData> | null = null;
+
+/**
+ * Get or create the question generation queue instance
+ */
+export function getQuestionGenerationQueue(): Queue<QuestionGenerationJobData> {
+  if (!questionGenerationQueue) {
+    questionGenerationQueue = new Queue<QuestionGenerationJobData>(
+      "question-generation",
+      defaultQueueOptions
+    );
+  }
+
+  return questionGenerationQueue;
+}
+
+/**
+ * Add question generation jobs to the queue in one round trip, with timeout protection
+ */
+export async function addQuestionGenerationJobs(jobs: QuestionGenerationJobData[]) {
+  // Wrap in timeout to prevent hanging (10 second limit)
+  return await Promise.race([
+    (async () => {
+      const queue = getQuestionGenerationQueue();
+      return await queue.addBulk(
+        jobs.map((data) => ({
+          name: "generate-question",
+          data,
+          // Prevents duplicate jobs for the same draft
+          opts: { jobId: `generate-question-${data.draftId}` },
+        }))
+      );
+    })(),
+    new Promise((_, reject) =>
+      setTimeout(() => reject(new Error("Queue operation timed out after 10 seconds")), 10000)
+    ),
+  ]);
+}
+
+/**
+ * Remove finished jobs for drafts so they can be queued again
+ */
+export async function removeQuestionGenerationJobs(draftIds: string[]) {
+  const queue = getQuestionGenerationQueue();
+  await Promise.all(
+    draftIds.map(async (draftId) => {
+      const job = await queue.getJob(`generate-question-${draftId}`);
+      if (job && !(await job.isActive())) {
+        await job.remove();
+      }
+    })
+  );
+}
+
+/**
+ * Close queue connection (for graceful shutdown)
+ */
+export async function closeQuestionGenerationQueue() {
+  if (questionGenerationQueue) {
+    await questionGenerationQueue.close();
+    questionGenerationQueue = null;
+  }
+}
@@ -16,6 +16,7 @@ export interface TranscriptionJobData {
   s3Key: string;
   fileName: string;
   generateDescription: boolean; // Whether to generate AI description after transcription
+  requestedBy?: string; // User who queued the job; Whisper usage is billed to them
 }
 
 /**
@@ -11,7 +11,8 @@ import { NextResponse } from "next/server";
  *
  * Protected routes:
  * - /dashboard/* - Students/users
- * - /admin/* - Admins and instructors only
+ * - /admin/* - Users whose roles grant any permission beyond a student's
+ *   (resolved at sign-in and refreshed in the JWT; pages re-check)
  *
  * Public routes:
  * - / (homepage)
@@ -25,13 +26,12 @@ export default withAuth(
     const token = req.nextauth.token;
     const path = req.nextUrl.pathname;
 
-    // Admin routes - require admin or instructor role
+    // Admin routes - require permissions beyond a student's
     if (path.startsWith("/admin")) {
-      const roles = (token?.roles as string[]) || [];
-      const isAuthorized = roles.includes("admin") || roles.includes("instructor");
+      const isAuthorized = token?.adminAccess === true;
 
       if (!isAuthorized) {
-        // Redirect non-admin/instructor users to their dashboard
+        // Redirect students to their dashboard
         return NextResponse.redirect(new URL("/dashboard", req.url));
       }
     }
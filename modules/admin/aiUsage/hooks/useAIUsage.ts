@@ -0,0 +1,101 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  createAIBudget,
+  deleteAIBudget,
+  getAIUsageSummary,
+  listAIBudgets,
+  updateAIBudget,
+} from "../serverActions/aiUsage.action";
+import type { CreateBudgetInput, UpdateBudgetInput } from "../types/aiUsage.schema";
+
+/**
+ * Hook for fetching a month's AI spend
+ */
+export function useAIUsageSummary(month: string) {
+  return useQuery({
+    queryKey: ["aiUsageSummary", month],
+    queryFn: () => getAIUsageSummary({ month }),
+  });
+}
+
+/**
+ * Hook for fetching monthly budgets with their spend
+ */
+export function useAIBudgets() {
+  return useQuery({
+    queryKey: ["aiBudgets"],
+    queryFn: () => listAIBudgets(),
+  });
+}
+
+/**
+ * Hook for creating a monthly budget
+ */
+export function useCreateAIBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateBudgetInput) => createAIBudget(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Budget created successfully");
+        queryClient.invalidateQueries({ queryKey: ["aiBudgets"] });
+      } else {
+        toast.error(response.error || "Failed to create budget");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for updating a monthly budget
+ */
+export function useUpdateAIBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateBudgetInput) => updateAIBudget(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Budget updated successfully");
+        queryClient.invalidateQueries({ queryKey: ["aiBudgets"] });
+      } else {
+        toast.error(response.error || "Failed to update budget");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for deleting a monthly budget
+ */
+export function useDeleteAIBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAIBudget({ id }),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Budget deleted successfully");
+        queryClient.invalidateQueries({ queryKey: ["aiBudgets"] });
+      } else {
+        toast.error(response.error || "Failed to delete budget");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
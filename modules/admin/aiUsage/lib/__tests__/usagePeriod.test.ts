@@ -0,0 +1,35 @@
+import { dailySpend, formatUsd, monthRange, recentMonths } from '../usagePeriod'
+
+describe('usage periods', () => {
+  it('bounds a month in UTC, defaulting to the current one', () => {
+    expect(monthRange('2026-02')).toEqual({
+      month: '2026-02',
+      start: new Date('2026-02-01T00:00:00Z'),
+      end: new Date('2026-03-01T00:00:00Z'),
+    })
+    expect(monthRange(undefined, new Date('2026-12-31T23:00:00Z')).month).toBe('2026-12')
+    expect(recentMonths(3, new Date('2026-01-15T00:00:00Z'))).toEqual(['2026-01', '2025-12', '2025-11'])
+  })
+
+  it('totals spend per day including days without calls', () => {
+    const daily = dailySpend(
+      [
+        { createdAt: new Date('2026-02-03T10:00:00Z'), costUsd: 0.5 },
+        { createdAt: new Date('2026-02-03T23:59:00Z'), costUsd: 0.25 },
+        { createdAt: new Date('2026-02-28T01:00:00Z'), costUsd: 1 },
+      ],
+      monthRange('2026-02')
+    )
+
+    expect(daily).toHaveLength(28)
+    expect(daily[2]).toEqual({ date: '2026-02-03', costUsd: 0.75 })
+    expect(daily[27]).toEqual({ date: '2026-02-28', costUsd: 1 })
+    expect(daily[0].costUsd).toBe(0)
+  })
+
+  it('formats dollars with sub-cent precision for tiny amounts', () => {
+    expect(formatUsd(1234.5)).toBe('$1,234.50')
+    expect(formatUsd(0.0042)).toBe('$0.0042')
+    expect(formatUsd(0)).toBe('$0.00')
+  })
+})
@@ -0,0 +1,65 @@
+import type { DailySpend } from "../types/aiUsage.schema";
+
+export interface MonthRange {
+  month: string; // YYYY-MM
+  start: Date;
+  end: Date; // exclusive
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, "0")}`;
+}
+
+/**
+ * UTC bounds of a YYYY-MM month, defaulting to the current one.
+ * Budgets use the same calendar months.
+ */
+export function monthRange(month?: string, now: Date = new Date()): MonthRange {
+  const [year, monthIndex] = month
+    ? [Number(month.slice(0, 4)), Number(month.slice(5, 7)) - 1]
+    : [now.getUTCFullYear(), now.getUTCMonth()];
+  const start = new Date(Date.UTC(year, monthIndex, 1));
+  const end = new Date(Date.UTC(year, monthIndex + 1, 1));
+  return { month: formatMonth(start), start, end };
+}
+
+/**
+ * The most recent `count` months, newest first, for the month picker
+ */
+export function recentMonths(count: number, now: Date = new Date()): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    formatMonth(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i, 1)))
+  );
+}
+
+/**
+ * Spend per UTC day across the range, including days without calls
+ */
+export function dailySpend(
+  rows: { createdAt: Date; costUsd: number }[],
+  range: Pick<MonthRange, "start" | "end">
+): DailySpend[] {
+  const totals = new Map<string, number>();
+  for (let day = new Date(range.start); day < range.end; day.setUTCDate(day.getUTCDate() + 1)) {
+    totals.set(day.toISOString().slice(0, 10), 0);
+  }
+
+  for (const row of rows) {
+    const date = new Date(row.createdAt).toISOString().slice(0, 10);
+    if (totals.has(date)) {
+      totals.set(date, (totals.get(date) ?? 0) + row.costUsd);
+    }
+  }
+
+  return Array.from(totals, ([date, costUsd]) => ({ date, costUsd }));
+}
+
+/**
+ * Dollars with cents, or sub-cent precision for tiny amounts
+ */
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) {
+    return `$${amount.toFixed(4)}`;
+  }
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,180 @@
+"use server";
+
+/**
+ * AI Usage Server Actions
+ *
+ * Every AI call is recorded in the AIUsage ledger with its computed cost.
+ * Admins review monthly spend by feature, certification and model, and set
+ * monthly budgets that block further calls once they are spent.
+ */
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext } from "@/lib/auth/types";
+import {
+  assertScopeAvailable,
+  listBudgetStatuses,
+  loadBudgetStatus,
+  summarizeUsage,
+} from "../services/aiUsage.service";
+import {
+  budgetIdSchema,
+  createBudgetSchema,
+  updateBudgetSchema,
+  usageSummarySchema,
+  type AIUsageSummaryResponse,
+  type BudgetActionResponse,
+  type BudgetIdInput,
+  type BudgetListResponse,
+  type BudgetResponse,
+  type CreateBudgetInput,
+  type UpdateBudgetInput,
+  type UsageSummaryInput,
+} from "../types/aiUsage.schema";
+
+/**
+ * Spend for a calendar month (UTC), defaulting to the current one
+ * Requires ai_usage.read permission
+ */
+export const getAIUsageSummary = withPermission("ai_usage.read")(
+  async (_user: AuthContext, input: UsageSummaryInput = {}): Promise<AIUsageSummaryResponse> => {
+    try {
+      const validated = usageSummarySchema.parse(input);
+      const summary = await summarizeUsage(validated.month);
+
+      return { success: true, data: summary };
+    } catch (error) {
+      console.error("Error summarizing AI usage:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load AI usage",
+      };
+    }
+  }
+);
+
+/**
+ * List monthly budgets with this month's spend against each
+ * Requires ai_usage.read permission
+ */
+export const listAIBudgets = withPermission("ai_usage.read")(
+  async (_user: AuthContext): Promise<BudgetListResponse> => {
+    try {
+      const budgets = await listBudgetStatuses();
+
+      return { success: true, data: budgets };
+    } catch (error) {
+      console.error("Error listing AI budgets:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list budgets",
+      };
+    }
+  }
+);
+
+/**
+ * Create a monthly budget for a feature, a certification, both or all AI calls
+ * Requires ai_usage.manage permission
+ */
+export const createAIBudget = withPermission("ai_usage.manage")(
+  async (_user: AuthContext, input: CreateBudgetInput): Promise<BudgetResponse> => {
+    try {
+      const validated = createBudgetSchema.parse(input);
+      const scope = {
+        feature: validated.feature ?? null,
+        certificationId: validated.certificationId ?? null,
+      };
+      await assertScopeAvailable(scope);
+
+      const budget = await prisma.aIBudget.create({
+        data: { ...scope, monthlyLimitUsd: validated.monthlyLimitUsd },
+        select: { id: true },
+      });
+
+      revalidatePath("/admin/ai-usage");
+
+      return { success: true, data: await loadBudgetStatus(budget.id) };
+    } catch (error) {
+      console.error("Error creating AI budget:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create budget",
+      };
+    }
+  }
+);
+
+/**
+ * Change a budget's scope or limit
+ * Requires ai_usage.manage permission
+ */
+export const updateAIBudget = withPermission("ai_usage.manage")(
+  async (_user: AuthContext, input: UpdateBudgetInput): Promise<BudgetResponse> => {
+    try {
+      const validated = updateBudgetSchema.parse(input);
+
+      const existing = await prisma.aIBudget.findUnique({
+        where: { id: validated.id },
+        select: { id: true },
+      });
+      if (!existing) {
+        return { success: false, error: "Budget not found" };
+      }
+
+      const scope = {
+        feature: validated.feature ?? null,
+        certificationId: validated.certificationId ?? null,
+      };
+      await assertScopeAvailable(scope, validated.id);
+
+      await prisma.aIBudget.update({
+        where: { id: validated.id },
+        data: { ...scope, monthlyLimitUsd: validated.monthlyLimitUsd },
+      });
+
+      revalidatePath("/admin/ai-usage");
+
+      return { success: true, data: await loadBudgetStatus(validated.id) };
+    } catch (error) {
+      console.error("Error updating AI budget:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update budget",
+      };
+    }
+  }
+);
+
+/**
+ * Delete a budget; calls it covered are no longer limited by it
+ * Requires ai_usage.manage permission
+ */
+export const deleteAIBudget = withPermission("ai_usage.manage")(
+  async (_user: AuthContext, input: BudgetIdInput): Promise<BudgetActionResponse> => {
+    try {
+      const validated = budgetIdSchema.parse(input);
+
+      const existing = await prisma.aIBudget.findUnique({
+        where: { id: validated.id },
+        select: { id: true },
+      });
+      if (!existing) {
+        return { success: false, error: "Budget not found" };
+      }
+
+      await prisma.aIBudget.delete({ where: { id: validated.id } });
+
+      revalidatePath("/admin/ai-usage");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error deleting AI budget:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete budget",
+      };
+    }
+  }
+);
@@ -0,0 +1,184 @@
+/**
+ * AI Usage Service
+ *
+ * Monthly spend summaries over the AIUsage ledger and the status of each
+ * monthly budget. Budgets themselves are enforced by the AI gateway's meter.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ConflictError, NotFoundError } from "@/lib/auth/types";
+import { AI_FEATURES, type AIFeature } from "@/lib/ai/types";
+import { monthStart, spendSince } from "@/lib/ai/usageMeter";
+import { dailySpend, monthRange } from "../lib/usagePeriod";
+import type {
+  AIUsageSummary,
+  BudgetStatus,
+  CertificationSpend,
+  FeatureSpend,
+  ModelSpend,
+  UsageTotals,
+} from "../types/aiUsage.schema";
+
+const USAGE_SUMS = {
+  _count: { _all: true },
+  _sum: { inputTokens: true, outputTokens: true, audioSeconds: true, costUsd: true },
+} as const;
+
+type UsageGroup = {
+  _count: { _all: number };
+  _sum: {
+    inputTokens: number | null;
+    outputTokens: number | null;
+    audioSeconds: number | null;
+    costUsd: number | null;
+  };
+};
+
+function toTotals(group: UsageGroup): UsageTotals {
+  return {
+    calls: group._count._all,
+    inputTokens: group._sum.inputTokens ?? 0,
+    outputTokens: group._sum.outputTokens ?? 0,
+    audioSeconds: group._sum.audioSeconds ?? 0,
+    costUsd: group._sum.costUsd ?? 0,
+  };
+}
+
+const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd;
+
+function asFeature(feature: string | null): AIFeature | null {
+  return AI_FEATURES.includes(feature as AIFeature) ? (feature as AIFeature) : null;
+}
+
+/**
+ * Spend for one calendar month broken down by feature, certification and model
+ */
+export async function summarizeUsage(month?: string): Promise<AIUsageSummary> {
+  const range = monthRange(month);
+  const where: Prisma.AIUsageWhereInput = { createdAt: { gte: range.start, lt: range.end } };
+
+  const [totals, features, certifications, models, rows] = await Promise.all([
+    prisma.aIUsage.aggregate({ where, ...USAGE_SUMS }),
+    prisma.aIUsage.groupBy({ by: ["feature"], where, ...USAGE_SUMS }),
+    prisma.aIUsage.groupBy({ by: ["certificationId"], where, ...USAGE_SUMS }),
+    prisma.aIUsage.groupBy({ by: ["provider", "modelId"], where, ...USAGE_SUMS }),
+    prisma.aIUsage.findMany({ where, select: { createdAt: true, costUsd: true } }),
+  ]);
+
+  const certificationIds = certifications
+    .map((group) => group.certificationId)
+    .filter((id): id is string => !!id);
+  const certificationNames = new Map(
+    (
+      await prisma.certification.findMany({
+        where: { id: { in: certificationIds } },
+        select: { id: true, name: true, code: true },
+      })
+    ).map((certification) => [certification.id, certification])
+  );
+
+  const byFeature: FeatureSpend[] = features
+    .map((group) => ({ feature: group.feature as AIFeature, ...toTotals(group) }))
+    .sort(byCost);
+
+  const byCertification: CertificationSpend[] = certifications
+    .map((group) => {
+      const certification = group.certificationId
+        ? certificationNames.get(group.certificationId)
+        : undefined;
+      return {
+        certificationId: group.certificationId,
+        name: certification?.name ?? (group.certificationId ? "Deleted certification" : "Not tied to a certification"),
+        code: certification?.code ?? null,
+        ...toTotals(group),
+      };
+    })
+    .sort(byCost);
+
+  const byModel: ModelSpend[] = models
+    .map((group) => ({ provider: group.provider, modelId: group.modelId, ...toTotals(group) }))
+    .sort(byCost);
+
+  return {
+    month: range.month,
+    totals: toTotals(totals),
+    byFeature,
+    byCertification,
+    byModel,
+    daily: dailySpend(rows, range),
+  };
+}
+
+const BUDGET_INCLUDE = {
+  certification: { select: { id: true, name: true, code: true } },
+} satisfies Prisma.AIBudgetInclude;
+
+type BudgetRecord = Prisma.AIBudgetGetPayload<{ include: typeof BUDGET_INCLUDE }>;
+
+async function toBudgetStatus(budget: BudgetRecord, since: Date): Promise<BudgetStatus> {
+  const spentUsd = await spendSince(since, budget);
+  return {
+    id: budget.id,
+    feature: asFeature(budget.feature),
+    certification: budget.certification,
+    monthlyLimitUsd: budget.monthlyLimitUsd,
+    spentUsd,
+    percentUsed: budget.monthlyLimitUsd > 0 ? (spentUsd / budget.monthlyLimitUsd) * 100 : 100,
+    exceeded: spentUsd >= budget.monthlyLimitUsd,
+  };
+}
+
+/**
+ * Every budget with its spend so far this month; overall budgets first
+ */
+export async function listBudgetStatuses(): Promise<BudgetStatus[]> {
+  const budgets = await prisma.aIBudget.findMany({
+    include: BUDGET_INCLUDE,
+    orderBy: [{ createdAt: "asc" }],
+  });
+  const since = monthStart();
+  const statuses = await Promise.all(budgets.map((budget) => toBudgetStatus(budget, since)));
+
+  // Narrowest scope last: all → feature or certification → both
+  const breadth = (status: BudgetStatus) => (status.feature ? 1 : 0) + (status.certification ? 1 : 0);
+  return statuses.sort((a, b) => breadth(a) - breadth(b));
+}
+
+export async function loadBudgetStatus(id: string): Promise<BudgetStatus> {
+  const budget = await prisma.aIBudget.findUnique({ where: { id }, include: BUDGET_INCLUDE });
+  if (!budget) {
+    throw new NotFoundError("Budget not found");
+  }
+  return toBudgetStatus(budget, monthStart());
+}
+
+/**
+ * Each feature/certification scope has at most one budget
+ */
+export async function assertScopeAvailable(
+  scope: { feature: string | null; certificationId: string | null },
+  excludeId?: string
+) {
+  const existing = await prisma.aIBudget.findFirst({
+    where: {
+      feature: scope.feature,
+      certificationId: scope.certificationId,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError("A budget already exists for this feature and certification");
+  }
+
+  if (scope.certificationId) {
+    const certification = await prisma.certification.findUnique({
+      where: { id: scope.certificationId },
+      select: { id: true },
+    });
+    if (!certification) {
+      throw new NotFoundError("Certification not found");
+    }
+  }
+}
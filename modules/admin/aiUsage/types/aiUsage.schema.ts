@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { AI_FEATURES, type AIFeature } from "@/lib/ai/types";
+
+/**
+ * Zod schema for choosing the month a usage summary covers
+ */
+export const usageSummarySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be YYYY-MM")
+    .optional(),
+});
+
+const budgetFieldsSchema = z.object({
+  // Unset scopes cover every feature / every certification
+  feature: z.enum(AI_FEATURES).nullable().optional(),
+  certificationId: z.string().cuid().nullable().optional(),
+  monthlyLimitUsd: z.coerce
+    .number({ message: "Enter a monthly limit" })
+    .positive("Monthly limit must be greater than zero")
+    .max(1_000_000),
+});
+
+/**
+ * Zod schema for creating a monthly budget
+ */
+export const createBudgetSchema = budgetFieldsSchema;
+
+/**
+ * Zod schema for updating a monthly budget
+ */
+export const updateBudgetSchema = budgetFieldsSchema.extend({
+  id: z.string().cuid(),
+});
+
+/**
+ * Zod schema for actions on a single budget
+ */
+export const budgetIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// Type exports
+export type UsageSummaryInput = z.infer<typeof usageSummarySchema>;
+export type CreateBudgetInput = z.input<typeof createBudgetSchema>;
+export type UpdateBudgetInput = z.input<typeof updateBudgetSchema>;
+export type BudgetIdInput = z.infer<typeof budgetIdSchema>;
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+  costUsd: number;
+}
+
+// Type aliases (not interfaces) so rows fit the admin table's item type
+export type FeatureSpend = UsageTotals & {
+  feature: AIFeature;
+};
+
+export type CertificationSpend = UsageTotals & {
+  certificationId: string | null; // null = calls not tied to a certification
+  name: string;
+  code: string | null;
+};
+
+export type ModelSpend = UsageTotals & {
+  provider: string;
+  modelId: string;
+};
+
+export interface DailySpend {
+  date: string; // YYYY-MM-DD
+  costUsd: number;
+}
+
+export interface AIUsageSummary {
+  month: string; // YYYY-MM
+  totals: UsageTotals;
+  byFeature: FeatureSpend[];
+  byCertification: CertificationSpend[];
+  byModel: ModelSpend[];
+  daily: DailySpend[];
+}
+
+export interface BudgetStatus {
+  id: string;
+  feature: AIFeature | null;
+  certification: { id: string; name: string; code: string } | null;
+  monthlyLimitUsd: number;
+  spentUsd: number; // this calendar month (UTC)
+  percentUsed: number; // 0-100+, can exceed 100 when calls finished after the limit
+  exceeded: boolean;
+}
+
+// Response types
+export interface AIUsageSummaryResponse {
+  success: boolean;
+  data?: AIUsageSummary;
+  error?: string;
+}
+
+export interface BudgetResponse {
+  success: boolean;
+  data?: BudgetStatus;
+  error?: string;
+}
+
+export interface BudgetListResponse {
+  success: boolean;
+  data?: BudgetStatus[];
+  error?: string;
+}
+
+export interface BudgetActionResponse {
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,331 @@
+"use client";
+
+import * as React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Activity, DollarSign, Gauge, Pencil, Plus, Trash2, Wallet } from "lucide-react";
+import { AI_FEATURE_LABELS } from "@/lib/ai/types";
+import { useAIBudgets, useAIUsageSummary, useDeleteAIBudget } from "../hooks/useAIUsage";
+import { formatUsd, recentMonths } from "../lib/usagePeriod";
+import { BudgetFormDialog } from "./BudgetFormDialog";
+import type { BudgetStatus, DailySpend, UsageTotals } from "../types/aiUsage.schema";
+
+interface AIUsageDashboardProps {
+  canManageBudgets: boolean;
+}
+
+const MONTH_OPTIONS = 12;
+
+function formatMonthLabel(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+}
+
+function budgetScope(budget: BudgetStatus): string {
+  const parts = [
+    budget.feature ? AI_FEATURE_LABELS[budget.feature] : null,
+    budget.certification ? `${budget.certification.name} (${budget.certification.code})` : null,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "All AI calls";
+}
+
+interface SpendRow extends UsageTotals {
+  key: string;
+  label: React.ReactNode;
+}
+
+function SpendTable({ title, rows, total }: { title: string; rows: SpendRow[]; total: number }) {
+  return (
+    <div className="rounded-lg border bg-card">
+      <div className="p-4 border-b">
+        <h2 className="font-semibold">{title}</h2>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead className="w-20 text-right">Calls</TableHead>
+            <TableHead className="w-28 text-right">Tokens</TableHead>
+            <TableHead className="w-48">Spend</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell>{row.label}</TableCell>
+              <TableCell className="text-right">{row.calls.toLocaleString()}</TableCell>
+              <TableCell className="text-right">
+                {(row.inputTokens + row.outputTokens).toLocaleString()}
+                {row.audioSeconds > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    {Math.round(row.audioSeconds / 60).toLocaleString()} min audio
+                  </div>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="space-y-1">
+                  <div className="text-sm font-medium">{formatUsd(row.costUsd)}</div>
+                  <Progress value={total > 0 ? (row.costUsd / total) * 100 : 0} className="h-1.5" />
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground">
+                No AI calls this month
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+function DailySpendChart({ daily }: { daily: DailySpend[] }) {
+  const max = Math.max(...daily.map((day) => day.costUsd), 0);
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <h2 className="font-semibold">Daily Spend</h2>
+      <div className="flex h-32 items-end gap-1">
+        {daily.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${formatUsd(day.costUsd)}`}
+            className="flex-1 rounded-t bg-primary/70 hover:bg-primary"
+            style={{ height: max > 0 ? `${Math.max((day.costUsd / max) * 100, day.costUsd > 0 ? 2 : 0)}%` : 0 }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{daily[0]?.date.slice(5)}</span>
+        <span>{daily[daily.length - 1]?.date.slice(5)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function AIUsageDashboard({ canManageBudgets }: AIUsageDashboardProps) {
+  const months = React.useMemo(() => recentMonths(MONTH_OPTIONS), []);
+  const [month, setMonth] = React.useState(months[0]);
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [selectedBudget, setSelectedBudget] = React.useState<BudgetStatus | undefined>();
+  const [pendingDelete, setPendingDelete] = React.useState<BudgetStatus | null>(null);
+
+  const { data: summaryResponse, isLoading: summaryLoading } = useAIUsageSummary(month);
+  const { data: budgetsResponse, isLoading: budgetsLoading } = useAIBudgets();
+  const deleteBudget = useDeleteAIBudget();
+
+  const summary = summaryResponse?.data;
+  const budgets = budgetsResponse?.data ?? [];
+  const total = summary?.totals.costUsd ?? 0;
+
+  const openForm = (budget?: BudgetStatus) => {
+    setSelectedBudget(budget);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">AI Usage</h1>
+          <p className="text-muted-foreground mt-2">
+            What AI calls cost, by feature, certification and model.
+          </p>
+        </div>
+        <Select value={month} onValueChange={setMonth}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {months.map((value) => (
+              <SelectItem key={value} value={value}>
+                {formatMonthLabel(value)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {summaryResponse && !summaryResponse.success && (
+        <p className="text-sm text-destructive">{summaryResponse.error}</p>
+      )}
+
+      {/* Totals */}
+      {summaryLoading || !summary ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-24" />
+          ))}
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="rounded-lg border bg-card p-6">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <DollarSign className="h-4 w-4" />
+                Spend
+              </div>
+              <div className="text-2xl font-bold mt-2">{formatUsd(summary.totals.costUsd)}</div>
+            </div>
+            <div className="rounded-lg border bg-card p-6">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Activity className="h-4 w-4" />
+                Calls
+              </div>
+              <div className="text-2xl font-bold mt-2">{summary.totals.calls.toLocaleString()}</div>
+            </div>
+            <div className="rounded-lg border bg-card p-6">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Gauge className="h-4 w-4" />
+                Tokens in / out
+              </div>
+              <div className="text-2xl font-bold mt-2">
+                {summary.totals.inputTokens.toLocaleString()} /{" "}
+                {summary.totals.outputTokens.toLocaleString()}
+              </div>
+            </div>
+          </div>
+
+          <DailySpendChart daily={summary.daily} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <SpendTable
+              title="By Feature"
+              total={total}
+              rows={summary.byFeature.map((row) => ({
+                ...row,
+                key: row.feature,
+                label: AI_FEATURE_LABELS[row.feature] ?? row.feature,
+              }))}
+            />
+            <SpendTable
+              title="By Certification"
+              total={total}
+              rows={summary.byCertification.map((row) => ({
+                ...row,
+                key: row.certificationId ?? "none",
+                label: (
+                  <span className={row.certificationId ? undefined : "text-muted-foreground"}>
+                    {row.name}
+                    {row.code && ` (${row.code})`}
+                  </span>
+                ),
+              }))}
+            />
+          </div>
+
+          <SpendTable
+            title="By Model"
+            total={total}
+            rows={summary.byModel.map((row) => ({
+              ...row,
+              key: `${row.provider}/${row.modelId}`,
+              label: (
+                <span>
+                  <span className="font-mono text-sm">{row.modelId}</span>{" "}
+                  <Badge variant="outline">{row.provider}</Badge>
+                </span>
+              ),
+            }))}
+          />
+        </>
+      )}
+
+      {/* Budgets */}
+      <div className="rounded-lg border bg-card">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h2 className="font-semibold">Monthly Budgets</h2>
+            <p className="text-sm text-muted-foreground">
+              Calls a budget covers are refused once this month&apos;s spend reaches its limit.
+            </p>
+          </div>
+          {canManageBudgets && (
+            <Button size="sm" onClick={() => openForm()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Budget
+            </Button>
+          )}
+        </div>
+
+        {budgetsLoading ? (
+          <div className="p-4 space-y-2">
+            {[...Array(2)].map((_, i) => (
+              <Skeleton key={i} className="h-12" />
+            ))}
+          </div>
+        ) : budgets.length === 0 ? (
+          <div className="p-8 text-center">
+            <Wallet className="mx-auto h-8 w-8 text-muted-foreground mb-2" />
+            <p className="text-sm text-muted-foreground">No budgets set. AI calls are unlimited.</p>
+          </div>
+        ) : (
+          <div className="divide-y">
+            {budgets.map((budget) => (
+              <div key={budget.id} className="flex items-center gap-4 p-4">
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{budgetScope(budget)}</span>
+                    {budget.exceeded && <Badge variant="destructive">Limit reached</Badge>}
+                  </div>
+                  <Progress value={Math.min(budget.percentUsed, 100)} className="h-2" />
+                  <p className="text-sm text-muted-foreground">
+                    {formatUsd(budget.spentUsd)} of {formatUsd(budget.monthlyLimitUsd)} this month (
+                    {Math.round(budget.percentUsed)}%)
+                  </p>
+                </div>
+                {canManageBudgets && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(budget)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setPendingDelete(budget)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <BudgetFormDialog open={formOpen} onOpenChange={setFormOpen} budget={selectedBudget} />
+
+      <ConfirmationDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Budget"
+        description={`Delete the budget for "${pendingDelete ? budgetScope(pendingDelete) : ""}"? Calls it covered will no longer be limited by it.`}
+        confirmText="Delete"
+        onConfirm={() => pendingDelete && deleteBudget.mutate(pendingDelete.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AI_FEATURES, AI_FEATURE_LABELS, type AIFeature } from "@/lib/ai/types";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { useCreateAIBudget, useUpdateAIBudget } from "../hooks/useAIUsage";
+import { createBudgetSchema, type BudgetStatus } from "../types/aiUsage.schema";
+
+interface BudgetFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  budget?: BudgetStatus;
+}
+
+// Select value standing in for "no scope"
+const ALL = "all";
+
+export function BudgetFormDialog({ open, onOpenChange, budget }: BudgetFormDialogProps) {
+  const isEditing = !!budget;
+  const createBudget = useCreateAIBudget();
+  const updateBudget = useUpdateAIBudget();
+  const { data: certifications } = useCertifications({
+    status: "all",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+
+  const [feature, setFeature] = React.useState<string>(ALL);
+  const [certificationId, setCertificationId] = React.useState<string>(ALL);
+  const [monthlyLimitUsd, setMonthlyLimitUsd] = React.useState("");
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (open) {
+      setFeature(budget?.feature ?? ALL);
+      setCertificationId(budget?.certification?.id ?? ALL);
+      setMonthlyLimitUsd(budget ? String(budget.monthlyLimitUsd) : "");
+      setErrors({});
+    }
+  }, [open, budget]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const input = {
+      feature: feature === ALL ? null : (feature as AIFeature),
+      certificationId: certificationId === ALL ? null : certificationId,
+      monthlyLimitUsd,
+    };
+    const parsed = createBudgetSchema.safeParse(input);
+    if (!parsed.success) {
+      setErrors(
+        Object.fromEntries(parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message]))
+      );
+      return;
+    }
+
+    const result = isEditing
+      ? await updateBudget.mutateAsync({ ...parsed.data, id: budget.id })
+      : await createBudget.mutateAsync(parsed.data);
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  const isSubmitting = createBudget.isPending || updateBudget.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Budget" : "Create Budget"}</DialogTitle>
+          <DialogDescription>
+            AI calls covered by this budget are refused once its monthly spend reaches the limit.
+            Spend resets on the first of each month (UTC).
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Feature</Label>
+            <Select value={feature} onValueChange={setFeature}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All features</SelectItem>
+                {AI_FEATURES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {AI_FEATURE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.feature && <p className="text-sm text-destructive">{errors.feature}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Certification</Label>
+            <Select value={certificationId} onValueChange={setCertificationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All certifications</SelectItem>
+                {(certifications?.data ?? []).map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.certificationId && (
+              <p className="text-sm text-destructive">{errors.certificationId}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="budget-limit">
+              Monthly Limit (USD) <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="budget-limit"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="100.00"
+              value={monthlyLimitUsd}
+              onChange={(e) => setMonthlyLimitUsd(e.target.value)}
+            />
+            {errors.monthlyLimitUsd && (
+              <p className="text-sm text-destructive">{errors.monthlyLimitUsd}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : isEditing ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  createCohort,
+  deleteCohort,
+  enrollUsers,
+  getCohort,
+  getCohortRoster,
+  listCohorts,
+  removeEnrollment,
+  searchEnrollableUsers,
+  updateCohort,
+} from "../serverActions/cohort.action";
+import type {
+  CreateCohortInput,
+  EnrollUsersInput,
+  RemoveEnrollmentInput,
+  UpdateCohortInput,
+} from "../types/cohort.schema";
+
+/**
+ * Hook for fetching the cohorts the user can see
+ */
+export function useCohorts() {
+  return useQuery({
+    queryKey: ["cohorts"],
+    queryFn: () => listCohorts(),
+  });
+}
+
+/**
+ * Hook for fetching a cohort with its members
+ */
+export function useCohort(id: string) {
+  return useQuery({
+    queryKey: ["cohort", id],
+    queryFn: () => getCohort({ id }),
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook for fetching a cohort's students with their progress
+ */
+export function useCohortRoster(id: string, enabled: boolean = true) {
+  return useQuery({
+    queryKey: ["cohortRoster", id],
+    queryFn: () => getCohortRoster({ id }),
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Hook for finding users to add to a cohort
+ */
+export function useEnrollableUsers(cohortId: string, query: string, enabled: boolean) {
+  return useQuery({
+    queryKey: ["enrollableUsers", cohortId, query],
+    queryFn: () => searchEnrollableUsers({ cohortId, query }),
+    enabled: !!cohortId && enabled,
+  });
+}
+
+/**
+ * Hook for creating a cohort
+ */
+export function useCreateCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateCohortInput) => createCohort(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Cohort created successfully");
+        queryClient.invalidateQueries({ queryKey: ["cohorts"] });
+      } else {
+        toast.error(response.error || "Failed to create cohort");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for updating a cohort
+ */
+export function useUpdateCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateCohortInput) => updateCohort(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Cohort updated successfully");
+        queryClient.invalidateQueries({ queryKey: ["cohorts"] });
+        queryClient.invalidateQueries({ queryKey: ["cohort", response.data?.id] });
+        queryClient.invalidateQueries({ queryKey: ["cohortRoster", response.data?.id] });
+      } else {
+        toast.error(response.error || "Failed to update cohort");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for deleting a cohort
+ */
+export function useDeleteCohort() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCohort({ id }),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Cohort deleted successfully");
+        queryClient.invalidateQueries({ queryKey: ["cohorts"] });
+      } else {
+        toast.error(response.error || "Failed to delete cohort");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for enrolling students or instructors
+ */
+export function useEnrollUsers() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: EnrollUsersInput) => enrollUsers(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        const count = response.data?.enrolled ?? 0;
+        toast.success(`Added ${count} ${input.role}${count === 1 ? "" : "s"}`);
+        queryClient.invalidateQueries({ queryKey: ["cohorts"] });
+        queryClient.invalidateQueries({ queryKey: ["cohort", input.cohortId] });
+        queryClient.invalidateQueries({ queryKey: ["cohortRoster", input.cohortId] });
+        queryClient.invalidateQueries({ queryKey: ["enrollableUsers", input.cohortId] });
+      } else {
+        toast.error(response.error || "Failed to enroll users");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for removing someone from a cohort
+ */
+export function useRemoveEnrollment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RemoveEnrollmentInput) => removeEnrollment(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success("Removed from cohort");
+        queryClient.invalidateQueries({ queryKey: ["cohorts"] });
+        queryClient.invalidateQueries({ queryKey: ["cohort", input.cohortId] });
+        queryClient.invalidateQueries({ queryKey: ["cohortRoster", input.cohortId] });
+        queryClient.invalidateQueries({ queryKey: ["enrollableUsers", input.cohortId] });
+      } else {
+        toast.error(response.error || "Failed to remove from cohort");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { objectiveCompletionPercent, summarizeRosterProgress } from '../rosterProgress'
+
+const day = (n: number) => new Date(Date.UTC(2026, 0, n))
+
+const scaled = (rawPercent: number, scaledScore: number) => ({
+  isScored: true,
+  rawPercent,
+  scaledScore,
+  minScore: 100,
+  passingScore: 750,
+  maxScore: 900,
+  passingRawPercent: 75,
+  passed: scaledScore >= 750,
+})
+
+describe('summarizeRosterProgress', () => {
+  it('counts completed objectives, videos and exams', () => {
+    const progress = summarizeRosterProgress({
+      objectivesTotal: 8,
+      videosTotal: 20,
+      progress: [
+        { status: 'mastered', lastAccessed: day(3), completedAt: day(3) },
+        { status: 'completed', lastAccessed: day(5), completedAt: day(4) },
+        { status: 'in_progress', lastAccessed: day(6), completedAt: null },
+      ],
+      completions: [
+        { completedAt: day(2), createdAt: day(1) },
+        { completedAt: null, createdAt: day(7) },
+      ],
+      exams: [
+        { score: 62.5, scaled: scaled(62.5, 612), readinessScore: 0.4, completedAt: day(4) },
+        { score: 70, scaled: scaled(70, 697), readinessScore: 0.55, completedAt: day(9) },
+        { score: 81, scaled: scaled(81, 790), readinessScore: 0.75, completedAt: day(6) },
+      ],
+    })
+
+    expect(progress).toEqual({
+      objectivesTotal: 8,
+      objectivesCompleted: 2,
+      objectivesMastered: 1,
+      videosTotal: 20,
+      videosCompleted: 2,
+      practiceExamsTaken: 3,
+      latestExamScore: 70,
+      bestExamScore: 81,
+      latestExamScaled: scaled(70, 697),
+      bestExamScaled: scaled(81, 790),
+      readinessScore: 0.55,
+      lastActivityAt: day(9),
+    })
+    expect(objectiveCompletionPercent(progress)).toBe(25)
+  })
+
+  it('reports a student with no activity', () => {
+    const progress = summarizeRosterProgress({
+      objectivesTotal: 0,
+      videosTotal: 0,
+      progress: [],
+      completions: [],
+      exams: [],
+    })
+
+    expect(progress.latestExamScore).toBeNull()
+    expect(progress.bestExamScore).toBeNull()
+    expect(progress.bestExamScaled).toBeNull()
+    expect(progress.lastActivityAt).toBeNull()
+    expect(objectiveCompletionPercent(progress)).toBe(0)
+  })
+})
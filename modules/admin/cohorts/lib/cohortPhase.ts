@@ -0,0 +1,16 @@
+import type { CohortSummary } from "../types/cohort.schema";
+
+type CohortDates = Pick<CohortSummary, "startDate" | "endDate">;
+
+/**
+ * Upcoming, running or finished, from the cohort's dates
+ */
+export function cohortPhase(cohort: CohortDates, now: Date = new Date()) {
+  if (new Date(cohort.startDate) > now) return { label: "Upcoming", variant: "secondary" as const };
+  if (new Date(cohort.endDate) < now) return { label: "Finished", variant: "outline" as const };
+  return { label: "In progress", variant: "default" as const };
+}
+
+export function formatCohortDates(cohort: CohortDates): string {
+  return `${new Date(cohort.startDate).toLocaleDateString()} – ${new Date(cohort.endDate).toLocaleDateString()}`;
+}
@@ -0,0 +1,86 @@
+/**
+ * Roster progress
+ *
+ * Rolls a student's objective progress, video completions and practice exams
+ * for one certification up into the numbers shown on a cohort roster.
+ */
+
+import type { ScaledScoreResult } from "@/modules/certifications/types/scoring.schema";
+import type { RosterProgress } from "../types/cohort.schema";
+
+const COMPLETED_STATUSES = new Set(["completed", "mastered"]);
+
+export interface ProgressRecord {
+  status: string;
+  lastAccessed: Date | null;
+  completedAt: Date | null;
+}
+
+export interface CompletionRecord {
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface ExamRecord {
+  score: number;
+  scaled: ScaledScoreResult | null;
+  readinessScore: number | null;
+  completedAt: Date;
+}
+
+function latest(dates: (Date | null)[]): Date | null {
+  return dates.reduce<Date | null>(
+    (current, date) => (date && (!current || date > current) ? date : current),
+    null
+  );
+}
+
+/**
+ * Summarize one student's records. Only records for the cohort's
+ * certification should be passed in.
+ */
+export function summarizeRosterProgress(input: {
+  objectivesTotal: number;
+  videosTotal: number;
+  progress: ProgressRecord[];
+  completions: CompletionRecord[];
+  exams: ExamRecord[];
+}): RosterProgress {
+  const { progress, completions, exams } = input;
+  const examsNewestFirst = [...exams].sort(
+    (a, b) => b.completedAt.getTime() - a.completedAt.getTime()
+  );
+  const latestExam = examsNewestFirst[0];
+  const bestExam = examsNewestFirst.reduce<ExamRecord | undefined>(
+    (best, exam) => (!best || exam.score > best.score ? exam : best),
+    undefined
+  );
+
+  return {
+    objectivesTotal: input.objectivesTotal,
+    objectivesCompleted: progress.filter((record) => COMPLETED_STATUSES.has(record.status)).length,
+    objectivesMastered: progress.filter((record) => record.status === "mastered").length,
+    videosTotal: input.videosTotal,
+    videosCompleted: completions.length,
+    practiceExamsTaken: exams.length,
+    latestExamScore: latestExam?.score ?? null,
+    bestExamScore: bestExam?.score ?? null,
+    latestExamScaled: latestExam?.scaled ?? null,
+    bestExamScaled: bestExam?.scaled ?? null,
+    readinessScore: latestExam?.readinessScore ?? null,
+    lastActivityAt: latest([
+      ...progress.flatMap((record) => [record.lastAccessed, record.completedAt]),
+      ...completions.map((record) => record.completedAt ?? record.createdAt),
+      ...exams.map((exam) => exam.completedAt),
+    ]),
+  };
+}
+
+/**
+ * Share of the certification's objectives a student has completed, 0-100
+ */
+export function objectiveCompletionPercent(progress: RosterProgress): number {
+  return progress.objectivesTotal > 0
+    ? Math.round((progress.objectivesCompleted / progress.objectivesTotal) * 100)
+    : 0;
+}
@@ -0,0 +1,348 @@
+"use server";
+
+/**
+ * Cohort Server Actions
+ *
+ * Cohorts group students studying one certification with their instructors.
+ * Cohort managers create cohorts and handle enrollment; instructors see the
+ * cohorts they teach and their students' progress.
+ */
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext, NotFoundError } from "@/lib/auth/types";
+import {
+  COHORT_INCLUDE,
+  loadCohortRoster,
+  loadVisibleCohort,
+  serializeCohort,
+  serializeCohortDetail,
+  visibleCohortsWhere,
+} from "../services/cohort.service";
+import {
+  cohortIdSchema,
+  createCohortSchema,
+  enrollUsersSchema,
+  removeEnrollmentSchema,
+  searchEnrollableUsersSchema,
+  updateCohortSchema,
+  type CohortActionResponse,
+  type CohortDetailResponse,
+  type CohortIdInput,
+  type CohortListResponse,
+  type CohortResponse,
+  type CohortRosterResponse,
+  type CreateCohortInput,
+  type EnrollableUserListResponse,
+  type EnrollUsersInput,
+  type EnrollUsersResponse,
+  type RemoveEnrollmentInput,
+  type SearchEnrollableUsersInput,
+  type UpdateCohortInput,
+} from "../types/cohort.schema";
+
+async function assertCertificationExists(certificationId: string) {
+  const certification = await prisma.certification.findUnique({
+    where: { id: certificationId },
+    select: { id: true },
+  });
+  if (!certification) {
+    throw new NotFoundError("Certification not found");
+  }
+}
+
+/**
+ * List cohorts, newest start date first. Instructors without
+ * cohorts.manage only see the cohorts they teach.
+ * Requires cohorts.read permission
+ */
+export const listCohorts = withPermission("cohorts.read")(
+  async (user: AuthContext): Promise<CohortListResponse> => {
+    try {
+      const cohorts = await prisma.cohort.findMany({
+        where: visibleCohortsWhere(user),
+        orderBy: { startDate: "desc" },
+        include: COHORT_INCLUDE,
+      });
+
+      return { success: true, data: cohorts.map(serializeCohort) };
+    } catch (error) {
+      console.error("Error listing cohorts:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list cohorts",
+      };
+    }
+  }
+);
+
+/**
+ * Get a cohort with its students and instructors
+ * Requires cohorts.read permission
+ */
+export const getCohort = withPermission("cohorts.read")(
+  async (user: AuthContext, input: CohortIdInput): Promise<CohortDetailResponse> => {
+    try {
+      const validated = cohortIdSchema.parse(input);
+      const cohort = await loadVisibleCohort(user, validated.id);
+
+      return { success: true, data: serializeCohortDetail(cohort) };
+    } catch (error) {
+      console.error("Error getting cohort:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get cohort",
+      };
+    }
+  }
+);
+
+/**
+ * Get a cohort's students with their progress on its certification
+ * Requires cohorts.read and students.read permissions
+ */
+export const getCohortRoster = withPermission(["cohorts.read", "students.read"])(
+  async (user: AuthContext, input: CohortIdInput): Promise<CohortRosterResponse> => {
+    try {
+      const validated = cohortIdSchema.parse(input);
+      const cohort = await loadVisibleCohort(user, validated.id);
+
+      return { success: true, data: await loadCohortRoster(cohort) };
+    } catch (error) {
+      console.error("Error getting cohort roster:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get cohort roster",
+      };
+    }
+  }
+);
+
+/**
+ * Create a cohort
+ * Requires cohorts.manage permission
+ */
+export const createCohort = withPermission("cohorts.manage")(
+  async (_user: AuthContext, input: CreateCohortInput): Promise<CohortResponse> => {
+    try {
+      const validated = createCohortSchema.parse(input);
+      await assertCertificationExists(validated.certificationId);
+
+      const cohort = await prisma.cohort.create({
+        data: {
+          name: validated.name,
+          description: validated.description || null,
+          certificationId: validated.certificationId,
+          startDate: validated.startDate,
+          endDate: validated.endDate,
+        },
+        include: COHORT_INCLUDE,
+      });
+
+      revalidatePath("/admin/cohorts");
+
+      return { success: true, data: serializeCohort(cohort) };
+    } catch (error) {
+      console.error("Error creating cohort:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create cohort",
+      };
+    }
+  }
+);
+
+/**
+ * Update a cohort's details
+ * Requires cohorts.manage permission
+ */
+export const updateCohort = withPermission("cohorts.manage")(
+  async (_user: AuthContext, input: UpdateCohortInput): Promise<CohortResponse> => {
+    try {
+      const validated = updateCohortSchema.parse(input);
+
+      const existing = await prisma.cohort.findUnique({
+        where: { id: validated.id },
+        select: { id: true },
+      });
+      if (!existing) {
+        return { success: false, error: "Cohort not found" };
+      }
+      await assertCertificationExists(validated.certificationId);
+
+      const cohort = await prisma.cohort.update({
+        where: { id: validated.id },
+        data: {
+          name: validated.name,
+          description: validated.description || null,
+          certificationId: validated.certificationId,
+          startDate: validated.startDate,
+          endDate: validated.endDate,
+        },
+        include: COHORT_INCLUDE,
+      });
+
+      revalidatePath("/admin/cohorts");
+      revalidatePath(`/admin/cohorts/${cohort.id}`);
+
+      return { success: true, data: serializeCohort(cohort) };
+    } catch (error) {
+      console.error("Error updating cohort:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update cohort",
+      };
+    }
+  }
+);
+
+/**
+ * Delete a cohort and its enrollments. Students keep their progress.
+ * Requires cohorts.manage permission
+ */
+export const deleteCohort = withPermission("cohorts.manage")(
+  async (_user: AuthContext, input: CohortIdInput): Promise<CohortActionResponse> => {
+    try {
+      const validated = cohortIdSchema.parse(input);
+
+      const existing = await prisma.cohort.findUnique({
+        where: { id: validated.id },
+        select: { id: true },
+      });
+      if (!existing) {
+        return { success: false, error: "Cohort not found" };
+      }
+
+      await prisma.cohort.delete({ where: { id: validated.id } });
+
+      revalidatePath("/admin/cohorts");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error deleting cohort:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete cohort",
+      };
+    }
+  }
+);
+
+/**
+ * Users not yet in the cohort, matched by name or email
+ * Requires cohorts.manage permission
+ */
+export const searchEnrollableUsers = withPermission("cohorts.manage")(
+  async (
+    _user: AuthContext,
+    input: SearchEnrollableUsersInput
+  ): Promise<EnrollableUserListResponse> => {
+    try {
+      const validated = searchEnrollableUsersSchema.parse(input);
+
+      const users = await prisma.user.findMany({
+        where: {
+          enrollments: { none: { cohortId: validated.cohortId } },
+          ...(validated.query && {
+            OR: [
+              { email: { contains: validated.query, mode: "insensitive" } },
+              { name: { contains: validated.query, mode: "insensitive" } },
+            ],
+          }),
+        },
+        orderBy: { email: "asc" },
+        take: 25,
+        select: { id: true, name: true, email: true, roles: true },
+      });
+
+      return { success: true, data: users };
+    } catch (error) {
+      console.error("Error searching users to enroll:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to search users",
+      };
+    }
+  }
+);
+
+/**
+ * Add students or instructors to a cohort. Students without a current
+ * certification are switched to the cohort's.
+ * Requires cohorts.manage permission
+ */
+export const enrollUsers = withPermission("cohorts.manage")(
+  async (_user: AuthContext, input: EnrollUsersInput): Promise<EnrollUsersResponse> => {
+    try {
+      const validated = enrollUsersSchema.parse(input);
+
+      const cohort = await prisma.cohort.findUnique({
+        where: { id: validated.cohortId },
+        select: { id: true, certificationId: true },
+      });
+      if (!cohort) {
+        return { success: false, error: "Cohort not found" };
+      }
+
+      const enrolled = await prisma.$transaction(async (tx) => {
+        const result = await tx.enrollment.createMany({
+          data: validated.userIds.map((userId) => ({
+            cohortId: cohort.id,
+            userId,
+            role: validated.role,
+          })),
+          skipDuplicates: true,
+        });
+
+        if (validated.role === "student") {
+          await tx.user.updateMany({
+            where: { id: { in: validated.userIds }, currentCertificationId: null },
+            data: { currentCertificationId: cohort.certificationId },
+          });
+        }
+
+        return result.count;
+      });
+
+      revalidatePath(`/admin/cohorts/${cohort.id}`);
+
+      return { success: true, data: { enrolled } };
+    } catch (error) {
+      console.error("Error enrolling users:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to enroll users",
+      };
+    }
+  }
+);
+
+/**
+ * Remove a student or instructor from a cohort
+ * Requires cohorts.manage permission
+ */
+export const removeEnrollment = withPermission("cohorts.manage")(
+  async (_user: AuthContext, input: RemoveEnrollmentInput): Promise<CohortActionResponse> => {
+    try {
+      const validated = removeEnrollmentSchema.parse(input);
+
+      const { count } = await prisma.enrollment.deleteMany({
+        where: { cohortId: validated.cohortId, userId: validated.userId },
+      });
+      if (count === 0) {
+        return { success: false, error: "This user isn't in the cohort" };
+      }
+
+      revalidatePath(`/admin/cohorts/${validated.cohortId}`);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error removing enrollment:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to remove from cohort",
+      };
+    }
+  }
+);
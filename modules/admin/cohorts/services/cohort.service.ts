@@ -0,0 +1,167 @@
+/**
+ * Cohort Service
+ *
+ * Who can see a cohort, and the roster of its students with their progress on
+ * the cohort's certification.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { AuthContext, NotFoundError, PermissionError } from "@/lib/auth/types";
+import { recordedScaledScore } from "@/modules/certifications/lib/scaledScore";
+import { summarizeRosterProgress } from "../lib/rosterProgress";
+import type {
+  CohortDetail,
+  CohortRoster,
+  CohortSummary,
+  EnrollmentRole,
+} from "../types/cohort.schema";
+
+export const COHORT_INCLUDE = {
+  certification: { select: { id: true, name: true, code: true } },
+  enrollments: {
+    orderBy: { enrolledAt: "asc" },
+    select: {
+      role: true,
+      enrolledAt: true,
+      user: { select: { id: true, name: true, email: true } },
+    },
+  },
+} satisfies Prisma.CohortInclude;
+
+type CohortRecord = Prisma.CohortGetPayload<{ include: typeof COHORT_INCLUDE }>;
+
+export function serializeCohort(cohort: CohortRecord): CohortSummary {
+  return {
+    id: cohort.id,
+    name: cohort.name,
+    description: cohort.description,
+    certification: cohort.certification,
+    startDate: cohort.startDate,
+    endDate: cohort.endDate,
+    studentCount: cohort.enrollments.filter((enrollment) => enrollment.role === "student").length,
+    instructors: cohort.enrollments
+      .filter((enrollment) => enrollment.role === "instructor")
+      .map((enrollment) => enrollment.user),
+  };
+}
+
+export function serializeCohortDetail(cohort: CohortRecord): CohortDetail {
+  return {
+    ...serializeCohort(cohort),
+    members: cohort.enrollments.map((enrollment) => ({
+      userId: enrollment.user.id,
+      name: enrollment.user.name,
+      email: enrollment.user.email,
+      role: enrollment.role as EnrollmentRole,
+      enrolledAt: enrollment.enrolledAt,
+    })),
+  };
+}
+
+/**
+ * Cohort managers see every cohort; everyone else only the ones they teach
+ */
+export function visibleCohortsWhere(user: AuthContext): Prisma.CohortWhereInput {
+  return user.permissions.includes("cohorts.manage")
+    ? {}
+    : { enrollments: { some: { userId: user.userId, role: "instructor" } } };
+}
+
+/**
+ * Load a cohort the user may see
+ * @throws {NotFoundError} If the cohort doesn't exist
+ * @throws {PermissionError} If the user doesn't manage cohorts or teach this one
+ */
+export async function loadVisibleCohort(user: AuthContext, cohortId: string): Promise<CohortRecord> {
+  const cohort = await prisma.cohort.findUnique({
+    where: { id: cohortId },
+    include: COHORT_INCLUDE,
+  });
+  if (!cohort) {
+    throw new NotFoundError("Cohort not found");
+  }
+
+  const teaches = cohort.enrollments.some(
+    (enrollment) => enrollment.role === "instructor" && enrollment.user.id === user.userId
+  );
+  if (!teaches && !user.permissions.includes("cohorts.manage")) {
+    throw new PermissionError("You don't teach this cohort");
+  }
+
+  return cohort;
+}
+
+/**
+ * Students of a cohort with their progress on its certification
+ */
+export async function loadCohortRoster(cohort: CohortRecord): Promise<CohortRoster> {
+  const certificationId = cohort.certificationId;
+  const students = cohort.enrollments.filter((enrollment) => enrollment.role === "student");
+  const studentIds = students.map((enrollment) => enrollment.user.id);
+
+  // Videos count toward a certification when tagged with it or mapped to one of its objectives
+  const videoWhere: Prisma.VideoWhereInput = {
+    isActive: true,
+    OR: [
+      { certificationId },
+      { contentMappings: { some: { objective: { domain: { certificationId } } } } },
+    ],
+  };
+
+  const [scoring, objectivesTotal, videosTotal, progress, completions, exams] = await Promise.all([
+    prisma.certification.findUnique({
+      where: { id: certificationId },
+      select: { isScoredExam: true, passingScore: true, maxScore: true, scoringCurve: true },
+    }),
+    prisma.certificationObjective.count({ where: { domain: { certificationId } } }),
+    prisma.video.count({ where: videoWhere }),
+    prisma.studentProgress.findMany({
+      where: { studentId: { in: studentIds }, objective: { domain: { certificationId } } },
+      select: { studentId: true, status: true, lastAccessed: true, completedAt: true },
+    }),
+    prisma.videoCompletion.findMany({
+      where: { studentId: { in: studentIds }, completed: true, video: videoWhere },
+      select: { studentId: true, completedAt: true, createdAt: true },
+    }),
+    prisma.practiceExam.findMany({
+      where: { studentId: { in: studentIds }, certificationId },
+      select: {
+        studentId: true,
+        score: true,
+        scaledScore: true,
+        passed: true,
+        scoreConversion: true,
+        readinessScore: true,
+        completedAt: true,
+      },
+    }),
+  ]);
+  const examRecords = exams.map((exam) => ({
+    studentId: exam.studentId,
+    score: exam.score,
+    scaled: recordedScaledScore(exam, scoring),
+    readinessScore: exam.readinessScore,
+    completedAt: exam.completedAt,
+  }));
+
+  return {
+    cohort: serializeCohort(cohort),
+    students: students.map((enrollment) => {
+      const studentId = enrollment.user.id;
+      return {
+        id: studentId,
+        name: enrollment.user.name,
+        email: enrollment.user.email,
+        enrolledAt: enrollment.enrolledAt,
+        progress: summarizeRosterProgress({
+          objectivesTotal,
+          videosTotal,
+          progress: progress.filter((record) => record.studentId === studentId),
+          completions: completions.filter((record) => record.studentId === studentId),
+          exams: examRecords.filter((exam) => exam.studentId === studentId),
+        }),
+      };
+    }),
+  };
+}
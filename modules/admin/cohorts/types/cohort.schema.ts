@@ -0,0 +1,177 @@
+import { z } from "zod";
+import type { ScaledScoreResult } from "@/modules/certifications/types/scoring.schema";
+
+export const ENROLLMENT_ROLES = ["student", "instructor"] as const;
+export type EnrollmentRole = (typeof ENROLLMENT_ROLES)[number];
+
+const cohortFieldsSchema = z.object({
+  name: z.string().trim().min(1, "Cohort name is required").max(100),
+  description: z.string().trim().max(1000).optional(),
+  certificationId: z.string().cuid("Choose a certification"),
+  startDate: z.coerce.date({ message: "Start date is required" }),
+  endDate: z.coerce.date({ message: "End date is required" }),
+});
+
+const endsAfterStart = {
+  check: (cohort: { startDate: Date; endDate: Date }) => cohort.endDate >= cohort.startDate,
+  params: { message: "End date must be on or after the start date", path: ["endDate"] },
+};
+
+/**
+ * Zod schema for creating a cohort
+ */
+export const createCohortSchema = cohortFieldsSchema.refine(
+  endsAfterStart.check,
+  endsAfterStart.params
+);
+
+/**
+ * Zod schema for updating a cohort
+ */
+export const updateCohortSchema = cohortFieldsSchema
+  .extend({ id: z.string().cuid() })
+  .refine(endsAfterStart.check, endsAfterStart.params);
+
+/**
+ * Zod schema for actions on a single cohort
+ */
+export const cohortIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+/**
+ * Zod schema for enrolling users in a cohort
+ */
+export const enrollUsersSchema = z.object({
+  cohortId: z.string().cuid(),
+  userIds: z.array(z.string().cuid()).min(1, "Pick at least one user"),
+  role: z.enum(ENROLLMENT_ROLES),
+});
+
+/**
+ * Zod schema for removing someone from a cohort
+ */
+export const removeEnrollmentSchema = z.object({
+  cohortId: z.string().cuid(),
+  userId: z.string().cuid(),
+});
+
+/**
+ * Zod schema for finding users to enroll
+ */
+export const searchEnrollableUsersSchema = z.object({
+  cohortId: z.string().cuid(),
+  query: z.string().trim().max(100).default(""),
+});
+
+// Type exports
+export type CreateCohortInput = z.input<typeof createCohortSchema>;
+export type UpdateCohortInput = z.input<typeof updateCohortSchema>;
+export type CohortIdInput = z.infer<typeof cohortIdSchema>;
+export type EnrollUsersInput = z.infer<typeof enrollUsersSchema>;
+export type RemoveEnrollmentInput = z.infer<typeof removeEnrollmentSchema>;
+export type SearchEnrollableUsersInput = z.input<typeof searchEnrollableUsersSchema>;
+
+export interface CohortSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  certification: { id: string; name: string; code: string };
+  startDate: Date;
+  endDate: Date;
+  studentCount: number;
+  instructors: { id: string; name: string | null; email: string }[];
+}
+
+export interface CohortMember {
+  userId: string;
+  name: string | null;
+  email: string;
+  role: EnrollmentRole;
+  enrolledAt: Date;
+}
+
+export interface CohortDetail extends CohortSummary {
+  members: CohortMember[];
+}
+
+export interface EnrollableUser {
+  id: string;
+  name: string | null;
+  email: string;
+  roles: string[];
+}
+
+/**
+ * A student's progress on the cohort's certification
+ */
+export interface RosterProgress {
+  objectivesTotal: number;
+  objectivesCompleted: number; // completed or mastered
+  objectivesMastered: number;
+  videosTotal: number;
+  videosCompleted: number;
+  practiceExamsTaken: number;
+  latestExamScore: number | null; // 0-100
+  bestExamScore: number | null; // 0-100
+  latestExamScaled: ScaledScoreResult | null; // Latest exam on the certification's scale
+  bestExamScaled: ScaledScoreResult | null;
+  readinessScore: number | null; // 0-1, from the latest exam
+  lastActivityAt: Date | null;
+}
+
+// A type alias (not an interface) so rows fit the admin table's item type
+export type RosterStudent = {
+  id: string;
+  name: string | null;
+  email: string;
+  enrolledAt: Date;
+  progress: RosterProgress;
+};
+
+export interface CohortRoster {
+  cohort: CohortSummary;
+  students: RosterStudent[];
+}
+
+// Response types
+export interface CohortResponse {
+  success: boolean;
+  data?: CohortSummary;
+  error?: string;
+}
+
+export interface CohortListResponse {
+  success: boolean;
+  data?: CohortSummary[];
+  error?: string;
+}
+
+export interface CohortDetailResponse {
+  success: boolean;
+  data?: CohortDetail;
+  error?: string;
+}
+
+export interface CohortRosterResponse {
+  success: boolean;
+  data?: CohortRoster;
+  error?: string;
+}
+
+export interface EnrollableUserListResponse {
+  success: boolean;
+  data?: EnrollableUser[];
+  error?: string;
+}
+
+export interface EnrollUsersResponse {
+  success: boolean;
+  data?: { enrolled: number };
+  error?: string;
+}
+
+export interface CohortActionResponse {
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { ArrowLeft, CalendarDays, Pencil, UserMinus, UserPlus } from "lucide-react";
+import { useCohort, useCohortRoster, useRemoveEnrollment } from "../hooks/useCohorts";
+import { cohortPhase, formatCohortDates } from "../lib/cohortPhase";
+import { CohortFormDialog } from "./CohortFormDialog";
+import { CohortRosterTable } from "./CohortRosterTable";
+import { EnrollUsersDialog } from "./EnrollUsersDialog";
+import type { CohortMember, EnrollmentRole } from "../types/cohort.schema";
+
+interface CohortDetailProps {
+  cohortId: string;
+  canManage: boolean;
+  canViewProgress: boolean;
+}
+
+export function CohortDetail({ cohortId, canManage, canViewProgress }: CohortDetailProps) {
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [enrollRole, setEnrollRole] = React.useState<EnrollmentRole | null>(null);
+  const [pendingRemoval, setPendingRemoval] = React.useState<CohortMember | null>(null);
+
+  const { data: response, isLoading } = useCohort(cohortId);
+  const { data: rosterResponse, isLoading: rosterLoading, refetch } = useCohortRoster(
+    cohortId,
+    canViewProgress
+  );
+  const removeEnrollment = useRemoveEnrollment();
+
+  const students = React.useMemo(() => rosterResponse?.data?.students ?? [], [rosterResponse]);
+  const refreshRoster = React.useCallback(async () => {
+    const result = await refetch();
+    return result.data?.data?.students ?? [];
+  }, [refetch]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-20" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  const cohort = response?.data;
+  if (!cohort) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+        <h3 className="text-lg font-semibold mb-2">Cohort not available</h3>
+        <p className="text-sm text-muted-foreground mb-6">{response?.error}</p>
+        <Button variant="outline" asChild>
+          <Link href="/admin/cohorts">Back to cohorts</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const phase = cohortPhase(cohort);
+  const instructors = cohort.members.filter((member) => member.role === "instructor");
+  const memberStudents = cohort.members.filter((member) => member.role === "student");
+
+  const memberList = (members: CohortMember[], role: EnrollmentRole) => (
+    <div className="rounded-lg border bg-card">
+      <div className="flex items-center justify-between border-b p-4">
+        <h3 className="font-semibold">
+          {role === "student" ? "Students" : "Instructors"} ({members.length})
+        </h3>
+        {canManage && (
+          <Button size="sm" variant="outline" onClick={() => setEnrollRole(role)}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add {role === "student" ? "Students" : "Instructors"}
+          </Button>
+        )}
+      </div>
+      {members.length === 0 ? (
+        <p className="p-4 text-sm text-muted-foreground">No {role}s yet.</p>
+      ) : (
+        <div className="divide-y">
+          {members.map((member) => (
+            <div key={member.userId} className="flex items-center justify-between gap-2 p-4">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{member.name || member.email}</div>
+                <div className="truncate text-sm text-muted-foreground">
+                  {member.name && `${member.email} · `}joined{" "}
+                  {new Date(member.enrolledAt).toLocaleDateString()}
+                </div>
+              </div>
+              {canManage && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setPendingRemoval(member)}
+                  aria-label={`Remove ${member.email}`}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <Link
+            href="/admin/cohorts"
+            className="mb-2 inline-flex items-center text-sm text-muted-foreground hover:underline"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Cohorts
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">{cohort.name}</h1>
+          <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+            <span>
+              {cohort.certification.name} ({cohort.certification.code})
+            </span>
+            <span className="flex items-center gap-1">
+              <CalendarDays className="h-4 w-4" />
+              {formatCohortDates(cohort)}
+            </span>
+            <Badge variant={phase.variant}>{phase.label}</Badge>
+          </div>
+          {cohort.description && (
+            <p className="mt-2 max-w-2xl text-sm text-muted-foreground">{cohort.description}</p>
+          )}
+        </div>
+        {canManage && (
+          <Button variant="outline" onClick={() => setFormOpen(true)}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Edit Cohort
+          </Button>
+        )}
+      </div>
+
+      <Tabs defaultValue={canViewProgress ? "roster" : "members"}>
+        <TabsList>
+          {canViewProgress && <TabsTrigger value="roster">Roster</TabsTrigger>}
+          <TabsTrigger value="members">Members</TabsTrigger>
+        </TabsList>
+
+        {canViewProgress && (
+          <TabsContent value="roster" className="mt-4">
+            {rosterResponse && !rosterResponse.success && (
+              <p className="mb-4 text-sm text-destructive">{rosterResponse.error}</p>
+            )}
+            <CohortRosterTable
+              students={students}
+              loading={rosterLoading}
+              onRefresh={refreshRoster}
+            />
+          </TabsContent>
+        )}
+
+        <TabsContent value="members" className="mt-4">
+          <div className="grid gap-4 lg:grid-cols-2">
+            {memberList(instructors, "instructor")}
+            {memberList(memberStudents, "student")}
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <CohortFormDialog open={formOpen} onOpenChange={setFormOpen} cohort={cohort} />
+
+      <EnrollUsersDialog
+        open={!!enrollRole}
+        onOpenChange={(open) => !open && setEnrollRole(null)}
+        cohortId={cohort.id}
+        role={enrollRole ?? "student"}
+      />
+
+      <ConfirmationDialog
+        open={!!pendingRemoval}
+        onOpenChange={(open) => !open && setPendingRemoval(null)}
+        title="Remove from Cohort"
+        description={`Remove ${pendingRemoval?.name || pendingRemoval?.email || ""} from ${cohort.name}? Their progress is kept.`}
+        confirmText="Remove"
+        variant="warning"
+        onConfirm={() =>
+          pendingRemoval &&
+          removeEnrollment.mutate({ cohortId: cohort.id, userId: pendingRemoval.userId })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { useCreateCohort, useUpdateCohort } from "../hooks/useCohorts";
+import { createCohortSchema, type CohortSummary } from "../types/cohort.schema";
+
+interface CohortFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cohort?: CohortSummary;
+}
+
+// Value for <input type="date">
+function toDateInput(date: Date | undefined): string {
+  return date ? new Date(date).toISOString().slice(0, 10) : "";
+}
+
+export function CohortFormDialog({ open, onOpenChange, cohort }: CohortFormDialogProps) {
+  const isEditing = !!cohort;
+  const createCohort = useCreateCohort();
+  const updateCohort = useUpdateCohort();
+  const { data: certifications } = useCertifications({
+    status: "active",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+
+  const [name, setName] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [certificationId, setCertificationId] = React.useState("");
+  const [startDate, setStartDate] = React.useState("");
+  const [endDate, setEndDate] = React.useState("");
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (open) {
+      setName(cohort?.name ?? "");
+      setDescription(cohort?.description ?? "");
+      setCertificationId(cohort?.certification.id ?? "");
+      setStartDate(toDateInput(cohort?.startDate));
+      setEndDate(toDateInput(cohort?.endDate));
+      setErrors({});
+    }
+  }, [open, cohort]);
+
+  // Keep the cohort's certification selectable even if it has since been deactivated
+  const certificationOptions = React.useMemo(() => {
+    const options = (certifications?.data ?? []).map(({ id, name, code }) => ({ id, name, code }));
+    if (cohort && !options.some((option) => option.id === cohort.certification.id)) {
+      options.push(cohort.certification);
+    }
+    return options;
+  }, [certifications, cohort]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const input = {
+      name,
+      description: description || undefined,
+      certificationId,
+      startDate,
+      endDate,
+    };
+    const parsed = createCohortSchema.safeParse(input);
+    if (!parsed.success) {
+      setErrors(
+        Object.fromEntries(parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message]))
+      );
+      return;
+    }
+
+    const result = isEditing
+      ? await updateCohort.mutateAsync({ ...parsed.data, id: cohort.id })
+      : await createCohort.mutateAsync(parsed.data);
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  const isSubmitting = createCohort.isPending || updateCohort.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Edit ${cohort.name}` : "Create Cohort"}</DialogTitle>
+          <DialogDescription>
+            A cohort is a group of students working toward one certification over a set period.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cohort-name">
+              Name <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="cohort-name"
+              placeholder="Security+ Spring Evening"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Certification <span className="text-destructive">*</span>
+            </Label>
+            <Select value={certificationId} onValueChange={setCertificationId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a certification" />
+              </SelectTrigger>
+              <SelectContent>
+                {certificationOptions.map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {errors.certificationId && (
+              <p className="text-sm text-destructive">{errors.certificationId}</p>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="cohort-start">
+                Start Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="cohort-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+              {errors.startDate && <p className="text-sm text-destructive">{errors.startDate}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cohort-end">
+                End Date <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="cohort-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+              {errors.endDate && <p className="text-sm text-destructive">{errors.endDate}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cohort-description">Description</Label>
+            <Textarea
+              id="cohort-description"
+              placeholder="Schedule, meeting link, anything instructors should know..."
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : isEditing ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { CalendarDays, GraduationCap, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { useCohorts, useDeleteCohort } from "../hooks/useCohorts";
+import { cohortPhase, formatCohortDates } from "../lib/cohortPhase";
+import { CohortFormDialog } from "./CohortFormDialog";
+import type { CohortSummary } from "../types/cohort.schema";
+
+interface CohortListProps {
+  canManage: boolean;
+}
+
+export function CohortList({ canManage }: CohortListProps) {
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [selectedCohort, setSelectedCohort] = React.useState<CohortSummary | undefined>();
+  const [pendingDelete, setPendingDelete] = React.useState<CohortSummary | null>(null);
+
+  const { data: response, isLoading } = useCohorts();
+  const deleteCohort = useDeleteCohort();
+  const cohorts = response?.data ?? [];
+
+  const openForm = (cohort?: CohortSummary) => {
+    setSelectedCohort(cohort);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Cohorts</h1>
+          <p className="text-muted-foreground mt-2">
+            {canManage
+              ? "Group students by class and assign their instructors."
+              : "The cohorts you teach."}
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Cohort
+          </Button>
+        )}
+      </div>
+
+      {response && !response.success && (
+        <p className="text-sm text-destructive">{response.error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-44" />
+          ))}
+        </div>
+      ) : cohorts.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <GraduationCap className="mx-auto h-10 w-10 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No cohorts yet</h3>
+          <p className="text-sm text-muted-foreground">
+            {canManage
+              ? "Create a cohort to group students and assign instructors."
+              : "You'll see cohorts here once you're added as an instructor."}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {cohorts.map((cohort) => {
+            const phase = cohortPhase(cohort);
+            return (
+              <div key={cohort.id} className="rounded-lg border bg-card p-6 space-y-4">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <Link
+                      href={`/admin/cohorts/${cohort.id}`}
+                      className="font-semibold hover:underline"
+                    >
+                      {cohort.name}
+                    </Link>
+                    <p className="text-sm text-muted-foreground">
+                      {cohort.certification.name} ({cohort.certification.code})
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openForm(cohort)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setPendingDelete(cohort)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <CalendarDays className="h-4 w-4" />
+                  {formatCohortDates(cohort)}
+                  <Badge variant={phase.variant}>{phase.label}</Badge>
+                </div>
+
+                <div className="flex items-center gap-4 text-sm">
+                  <span className="flex items-center gap-1">
+                    <Users className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{cohort.studentCount}</span>
+                    <span className="text-muted-foreground">
+                      student{cohort.studentCount === 1 ? "" : "s"}
+                    </span>
+                  </span>
+                  <span className="truncate text-muted-foreground">
+                    {cohort.instructors.length > 0
+                      ? cohort.instructors
+                          .map((instructor) => instructor.name || instructor.email)
+                          .join(", ")
+                      : "No instructor"}
+                  </span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <CohortFormDialog open={formOpen} onOpenChange={setFormOpen} cohort={selectedCohort} />
+
+      <ConfirmationDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Cohort"
+        description={`Delete "${pendingDelete?.name ?? ""}"? Its students and instructors are unenrolled; their progress is kept.`}
+        confirmText="Delete"
+        onConfirm={() => pendingDelete && deleteCohort.mutate(pendingDelete.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import * as React from "react";
+import { Progress } from "@/components/ui/progress";
+import { ScaledScoreDisplay } from "@/modules/certifications/ui/ScaledScoreDisplay";
+import { AdminTableStandardized, type AdminTableColumn } from "@/modules/admin/shared/ui";
+import { useAdminTableStandardized, type AdminTableConfig } from "@/modules/admin/shared/hooks";
+import { objectiveCompletionPercent } from "../lib/rosterProgress";
+import type { RosterStudent } from "../types/cohort.schema";
+
+interface CohortRosterTableProps {
+  students: RosterStudent[];
+  loading: boolean;
+  onRefresh: () => Promise<RosterStudent[]>;
+}
+
+// Flattened so the table's default sort can order by these columns
+type RosterRow = RosterStudent & {
+  objectivePercent: number;
+  latestExamScore: number;
+  lastActivityAt: Date | null;
+};
+
+function toRows(students: RosterStudent[]): RosterRow[] {
+  return students.map((student) => ({
+    ...student,
+    objectivePercent: objectiveCompletionPercent(student.progress),
+    latestExamScore: student.progress.latestExamScore ?? -1,
+    lastActivityAt: student.progress.lastActivityAt,
+  }));
+}
+
+export function CohortRosterTable({ students, loading, onRefresh }: CohortRosterTableProps) {
+  const rows = React.useMemo(() => toRows(students), [students]);
+  const refreshRows = React.useCallback(async () => toRows(await onRefresh()), [onRefresh]);
+
+  const tableConfig: AdminTableConfig<RosterRow, Record<string, never>> = React.useMemo(
+    () => ({
+      getItemId: (item) => item.id,
+      initialData: rows,
+      initialFilters: {},
+      initialItemsPerPage: 25,
+      initialSortField: "name",
+      initialSortDirection: "asc",
+      refreshFunction: refreshRows,
+      cacheData: false,
+    }),
+    [rows, refreshRows]
+  );
+
+  const [tableState, tableActions] = useAdminTableStandardized(tableConfig);
+
+  React.useEffect(() => {
+    tableActions.setData(rows);
+  }, [rows, tableActions]);
+
+  const columns: AdminTableColumn<RosterRow>[] = React.useMemo(
+    () => [
+      {
+        key: "name",
+        header: "Student",
+        sortable: true,
+        render: (student) => (
+          <div>
+            <div className="font-medium">{student.name || student.email}</div>
+            {student.name && <div className="text-sm text-muted-foreground">{student.email}</div>}
+          </div>
+        ),
+      },
+      {
+        key: "objectivePercent",
+        header: "Objectives",
+        sortable: true,
+        width: "200px",
+        render: (student) => (
+          <div className="space-y-1">
+            <Progress value={student.objectivePercent} className="h-2" />
+            <div className="text-xs text-muted-foreground">
+              {student.progress.objectivesCompleted}/{student.progress.objectivesTotal} complete
+              {student.progress.objectivesMastered > 0 &&
+                ` · ${student.progress.objectivesMastered} mastered`}
+            </div>
+          </div>
+        ),
+      },
+      {
+        key: "videos",
+        header: "Videos",
+        render: (student) => (
+          <span className="text-sm">
+            {student.progress.videosCompleted}/{student.progress.videosTotal}
+          </span>
+        ),
+      },
+      {
+        key: "latestExamScore",
+        header: "Practice Exams",
+        sortable: true,
+        render: (student) =>
+          student.progress.practiceExamsTaken === 0 ? (
+            <span className="text-sm text-muted-foreground">None yet</span>
+          ) : (
+            <div className="text-sm">
+              <div className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                <span>Latest</span>
+                {student.progress.latestExamScaled ? (
+                  <ScaledScoreDisplay result={student.progress.latestExamScaled} />
+                ) : (
+                  <span>{Math.round(student.progress.latestExamScore ?? 0)}%</span>
+                )}
+                <span>· Best</span>
+                {student.progress.bestExamScaled ? (
+                  <ScaledScoreDisplay result={student.progress.bestExamScaled} />
+                ) : (
+                  <span>{Math.round(student.progress.bestExamScore ?? 0)}%</span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {student.progress.practiceExamsTaken} taken
+                {student.progress.readinessScore !== null &&
+                  ` · ${Math.round(student.progress.readinessScore * 100)}% ready`}
+              </div>
+            </div>
+          ),
+      },
+      {
+        key: "lastActivityAt",
+        header: "Last Active",
+        sortable: true,
+        render: (student) => (
+          <span className="text-sm text-muted-foreground">
+            {student.lastActivityAt
+              ? new Date(student.lastActivityAt).toLocaleDateString()
+              : "Never"}
+          </span>
+        ),
+      },
+    ],
+    []
+  );
+
+  return (
+    <AdminTableStandardized
+      state={{ ...tableState, loading }}
+      actions={tableActions}
+      columns={columns}
+      getItemId={(item) => item.id}
+      enableFilters={false}
+      searchPlaceholder="Search students..."
+      pageSizeOptions={[10, 25, 50, -1]}
+      emptyState={
+        <div className="p-12 text-center text-sm text-muted-foreground">
+          No students in this cohort yet.
+        </div>
+      }
+      ariaLabel="Cohort roster"
+      ariaDescription="Students in the cohort with their objective, video and practice exam progress"
+    />
+  );
+}
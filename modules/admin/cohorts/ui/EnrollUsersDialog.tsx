@@ -0,0 +1,144 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Search } from "lucide-react";
+import { useEnrollableUsers, useEnrollUsers } from "../hooks/useCohorts";
+import type { EnrollmentRole } from "../types/cohort.schema";
+
+interface EnrollUsersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  cohortId: string;
+  role: EnrollmentRole;
+}
+
+export function EnrollUsersDialog({ open, onOpenChange, cohortId, role }: EnrollUsersDialogProps) {
+  const [search, setSearch] = React.useState("");
+  const [query, setQuery] = React.useState("");
+  const [selected, setSelected] = React.useState<Set<string>>(new Set());
+
+  const { data: response, isFetching } = useEnrollableUsers(cohortId, query, open);
+  const enrollUsers = useEnrollUsers();
+  const users = response?.data ?? [];
+
+  React.useEffect(() => {
+    if (open) {
+      setSearch("");
+      setQuery("");
+      setSelected(new Set());
+    }
+  }, [open]);
+
+  // Search once typing pauses
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setQuery(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  const toggle = (userId: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) {
+        next.add(userId);
+      } else {
+        next.delete(userId);
+      }
+      return next;
+    });
+  };
+
+  const handleEnroll = async () => {
+    const result = await enrollUsers.mutateAsync({
+      cohortId,
+      userIds: Array.from(selected),
+      role,
+    });
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Add {role === "student" ? "Students" : "Instructors"}</DialogTitle>
+          <DialogDescription>
+            {role === "student"
+              ? "Students without a current certification are switched to this cohort's."
+              : "Instructors see this cohort and its students' progress."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              placeholder="Search by name or email..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+
+          <ScrollArea className="h-[300px] rounded-lg border">
+            <div className="divide-y">
+              {users.length === 0 ? (
+                <p className="p-4 text-sm text-muted-foreground">
+                  {isFetching ? "Searching..." : "No users found"}
+                </p>
+              ) : (
+                users.map((user) => (
+                  <label
+                    key={user.id}
+                    className="flex cursor-pointer items-center gap-3 p-3 hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      checked={selected.has(user.id)}
+                      onCheckedChange={(checked) => toggle(user.id, checked === true)}
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate text-sm font-medium">{user.name || user.email}</div>
+                      {user.name && (
+                        <div className="truncate text-xs text-muted-foreground">{user.email}</div>
+                      )}
+                    </div>
+                    <div className="flex gap-1">
+                      {user.roles.map((userRole) => (
+                        <Badge key={userRole} variant="outline" className="text-xs">
+                          {userRole}
+                        </Badge>
+                      ))}
+                    </div>
+                  </label>
+                ))
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleEnroll} disabled={selected.size === 0 || enrollUsers.isPending}>
+            {enrollUsers.isPending ? "Adding..." : `Add ${selected.size || ""}`.trim()}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
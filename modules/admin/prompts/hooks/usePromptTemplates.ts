@@ -0,0 +1,129 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type { PromptKey } from "@/lib/ai/prompts";
+import {
+  getPrompt,
+  listPrompts,
+  previewPrompt,
+  removePromptOverride,
+  restorePromptVersion,
+  savePromptVersion,
+} from "../serverActions/promptTemplate.action";
+import type {
+  PreviewPromptInput,
+  PromptScopeInput,
+  RestorePromptVersionInput,
+  SavePromptVersionInput,
+} from "../types/promptTemplate.schema";
+
+/**
+ * Hook for fetching every prompt with its overrides
+ */
+export function usePrompts() {
+  return useQuery({
+    queryKey: ["prompts"],
+    queryFn: () => listPrompts(),
+  });
+}
+
+/**
+ * Hook for fetching a prompt's history for the default or a certification
+ */
+export function usePrompt(key: PromptKey, certificationId: string | null) {
+  return useQuery({
+    queryKey: ["prompt", key, certificationId],
+    queryFn: () => getPrompt({ key, certificationId }),
+  });
+}
+
+/**
+ * Hook for saving a new prompt version
+ */
+export function useSavePromptVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SavePromptVersionInput) => savePromptVersion(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success("Prompt saved");
+        queryClient.invalidateQueries({ queryKey: ["prompts"] });
+        queryClient.invalidateQueries({ queryKey: ["prompt", input.key] });
+      } else {
+        toast.error(response.error || "Failed to save prompt");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for restoring an earlier prompt version
+ */
+export function useRestorePromptVersion(key: PromptKey) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RestorePromptVersionInput) => restorePromptVersion(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Version restored");
+        queryClient.invalidateQueries({ queryKey: ["prompts"] });
+        queryClient.invalidateQueries({ queryKey: ["prompt", key] });
+      } else {
+        toast.error(response.error || "Failed to restore version");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for removing a certification's prompt override
+ */
+export function useRemovePromptOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: PromptScopeInput) => removePromptOverride(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success("Override removed");
+        queryClient.invalidateQueries({ queryKey: ["prompts"] });
+        queryClient.invalidateQueries({ queryKey: ["prompt", input.key] });
+      } else {
+        toast.error(response.error || "Failed to remove override");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for rendering prompt text against a sample objective
+ */
+export function usePreviewPrompt() {
+  return useMutation({
+    mutationFn: (input: PreviewPromptInput) => previewPrompt(input),
+    onSuccess: (response) => {
+      if (!response.success) {
+        toast.error(response.error || "Failed to preview prompt");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
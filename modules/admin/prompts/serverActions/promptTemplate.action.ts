@@ -0,0 +1,184 @@
+"use server";
+
+/**
+ * Prompt Template Server Actions
+ *
+ * Content leads tune the wording of AI prompts without a deploy. Every save
+ * is a new version; certifications can override a prompt's default wording.
+ */
+
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext, ValidationError } from "@/lib/auth/types";
+import {
+  deletePromptOverride,
+  listPromptSummaries,
+  loadPromptDetail,
+  previewPrompt as renderPreview,
+  restorePromptVersion as restoreVersion,
+  savePromptVersion as saveVersion,
+} from "../services/promptTemplate.service";
+import {
+  previewPromptSchema,
+  promptScopeSchema,
+  restorePromptVersionSchema,
+  savePromptVersionSchema,
+  type PreviewPromptInput,
+  type PromptActionResponse,
+  type PromptDetailResponse,
+  type PromptListResponse,
+  type PromptPreviewResponse,
+  type PromptScopeInput,
+  type RestorePromptVersionInput,
+  type SavePromptVersionInput,
+} from "../types/promptTemplate.schema";
+
+function revalidatePrompt(key: string) {
+  revalidatePath("/admin/prompts");
+  revalidatePath(`/admin/prompts/${key}`);
+}
+
+/**
+ * List prompts with their live version and certification overrides
+ * Requires prompts.read permission
+ */
+export const listPrompts = withPermission("prompts.read")(
+  async (_user: AuthContext): Promise<PromptListResponse> => {
+    try {
+      const prompts = await listPromptSummaries();
+
+      return { success: true, data: prompts };
+    } catch (error) {
+      console.error("Error listing prompts:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list prompts",
+      };
+    }
+  }
+);
+
+/**
+ * Get a prompt's version history for its default or a certification's override
+ * Requires prompts.read permission
+ */
+export const getPrompt = withPermission("prompts.read")(
+  async (_user: AuthContext, input: PromptScopeInput): Promise<PromptDetailResponse> => {
+    try {
+      const validated = promptScopeSchema.parse(input);
+      const prompt = await loadPromptDetail(validated.key, validated.certificationId ?? null);
+
+      return { success: true, data: prompt };
+    } catch (error) {
+      console.error("Error getting prompt:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get prompt",
+      };
+    }
+  }
+);
+
+/**
+ * Save edited prompt text as the new live version
+ * Requires prompts.manage permission
+ */
+export const savePromptVersion = withPermission("prompts.manage")(
+  async (user: AuthContext, input: SavePromptVersionInput): Promise<PromptActionResponse> => {
+    try {
+      const validated = savePromptVersionSchema.parse(input);
+      await saveVersion(user.userId, {
+        key: validated.key,
+        certificationId: validated.certificationId ?? null,
+        body: validated.body,
+        note: validated.note,
+      });
+
+      revalidatePrompt(validated.key);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error saving prompt version:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save prompt",
+      };
+    }
+  }
+);
+
+/**
+ * Make an earlier version live again (saved as a new version)
+ * Requires prompts.manage permission
+ */
+export const restorePromptVersion = withPermission("prompts.manage")(
+  async (user: AuthContext, input: RestorePromptVersionInput): Promise<PromptActionResponse> => {
+    try {
+      const validated = restorePromptVersionSchema.parse(input);
+      const { key } = await restoreVersion(user.userId, validated.versionId);
+
+      revalidatePrompt(key);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error restoring prompt version:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to restore version",
+      };
+    }
+  }
+);
+
+/**
+ * Remove a certification's override so the default prompt applies
+ * Requires prompts.manage permission
+ */
+export const removePromptOverride = withPermission("prompts.manage")(
+  async (_user: AuthContext, input: PromptScopeInput): Promise<PromptActionResponse> => {
+    try {
+      const validated = promptScopeSchema.parse(input);
+      if (!validated.certificationId) {
+        throw new ValidationError("Choose the certification whose override to remove");
+      }
+      await deletePromptOverride(validated.key, validated.certificationId);
+
+      revalidatePrompt(validated.key);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error removing prompt override:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to remove override",
+      };
+    }
+  }
+);
+
+/**
+ * Render prompt text against a sample objective without saving it
+ * Requires prompts.read permission
+ */
+export const previewPrompt = withPermission("prompts.read")(
+  async (_user: AuthContext, input: PreviewPromptInput): Promise<PromptPreviewResponse> => {
+    try {
+      const validated = previewPromptSchema.parse(input);
+      const preview = await renderPreview({
+        key: validated.key,
+        certificationId: validated.certificationId ?? null,
+        body: validated.body,
+        objectiveId: validated.objectiveId,
+        questionType: validated.questionType,
+      });
+
+      return { success: true, data: preview };
+    } catch (error) {
+      console.error("Error previewing prompt:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to preview prompt",
+      };
+    }
+  }
+);
@@ -0,0 +1,334 @@
+/**
+ * Prompt Template Service
+ *
+ * Version history for edited prompts and previews against sample objectives.
+ * Each prompt has at most one default template and one template per
+ * certification; saving appends a version and the newest version is live.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotFoundError, ValidationError } from "@/lib/auth/types";
+import {
+  PROMPT_DEFINITIONS,
+  PROMPT_KEYS,
+  checkPromptBody,
+  questionGenerationVariables,
+  renderPrompt,
+  type PromptKey,
+  type PromptVariables,
+} from "@/lib/ai/prompts";
+import { loadPrompt } from "@/lib/ai/promptStore";
+import { loadMappingContentStructure } from "@/modules/content/services/documentAIMapping.service";
+import type {
+  PromptDetail,
+  PromptPreview,
+  PromptSummary,
+  PromptVersion,
+} from "../types/promptTemplate.schema";
+
+const VERSION_INCLUDE = {
+  createdBy: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.PromptTemplateVersionInclude;
+
+type VersionRecord = Prisma.PromptTemplateVersionGetPayload<{ include: typeof VERSION_INCLUDE }>;
+
+function serializeVersion(version: VersionRecord): PromptVersion {
+  return {
+    id: version.id,
+    version: version.version,
+    body: version.body,
+    note: version.note,
+    createdBy: version.createdBy,
+    createdAt: version.createdAt,
+  };
+}
+
+/**
+ * Certification overrides only apply to prompts whose callers know the certification
+ */
+async function assertScopeAllowed(key: PromptKey, certificationId: string | null) {
+  if (!certificationId) {
+    return null;
+  }
+  if (!PROMPT_DEFINITIONS[key].certificationOverrides) {
+    throw new ValidationError(`${PROMPT_DEFINITIONS[key].label} can't be overridden per certification`);
+  }
+
+  const certification = await prisma.certification.findUnique({
+    where: { id: certificationId },
+    select: { id: true, name: true, code: true },
+  });
+  if (!certification) {
+    throw new NotFoundError("Certification not found");
+  }
+  return certification;
+}
+
+/**
+ * Reject text that uses undefined variables or drops required ones
+ */
+function assertValidBody(key: PromptKey, body: string) {
+  const { unknown, missing } = checkPromptBody(key, body);
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown variable${unknown.length === 1 ? "" : "s"}: ${unknown.map((name) => `{{${name}}}`).join(", ")}`
+    );
+  }
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `The prompt must include ${missing.map((name) => `{{${name}}}`).join(", ")}`
+    );
+  }
+}
+
+/**
+ * Every prompt with its live default wording and certification overrides
+ */
+export async function listPromptSummaries(): Promise<PromptSummary[]> {
+  const templates = await prisma.promptTemplate.findMany({
+    include: {
+      certification: { select: { id: true, name: true, code: true } },
+      versions: { orderBy: { version: "desc" }, take: 1, select: { version: true, createdAt: true } },
+    },
+  });
+
+  return PROMPT_KEYS.map((key) => {
+    const definition = PROMPT_DEFINITIONS[key];
+    const forKey = templates.filter((template) => template.key === key && template.versions[0]);
+    const defaultVersion = forKey.find((template) => !template.certificationId)?.versions[0];
+
+    return {
+      key,
+      label: definition.label,
+      description: definition.description,
+      certificationOverrides: definition.certificationOverrides,
+      source: defaultVersion ? "default" : "built_in",
+      version: defaultVersion?.version ?? null,
+      updatedAt: defaultVersion?.createdAt ?? null,
+      overrides: forKey
+        .filter((template) => template.certification)
+        .map((template) => ({
+          certification: template.certification!,
+          version: template.versions[0].version,
+          updatedAt: template.versions[0].createdAt,
+        }))
+        .sort((a, b) => a.certification.name.localeCompare(b.certification.name)),
+    };
+  });
+}
+
+/**
+ * A prompt's versions for one scope, plus the text that applies without them
+ */
+export async function loadPromptDetail(
+  key: PromptKey,
+  certificationId: string | null
+): Promise<PromptDetail> {
+  const definition = PROMPT_DEFINITIONS[key];
+  const certification = await assertScopeAllowed(key, certificationId);
+
+  const template = await prisma.promptTemplate.findFirst({
+    where: { key, certificationId },
+    include: { versions: { orderBy: { version: "desc" }, include: VERSION_INCLUDE } },
+  });
+  // Without a certification this is the built-in text; with one, the live default
+  const inherited = certificationId
+    ? await loadPrompt(key)
+    : { body: definition.defaultBody, source: "built_in" as const, version: null };
+
+  return {
+    key,
+    label: definition.label,
+    description: definition.description,
+    certificationOverrides: definition.certificationOverrides,
+    variables: definition.variables,
+    certification,
+    versions: (template?.versions ?? []).map(serializeVersion),
+    inherited: {
+      body: inherited.body,
+      source: inherited.source === "default" ? "default" : "built_in",
+      version: inherited.version,
+    },
+    builtInBody: definition.defaultBody,
+  };
+}
+
+/**
+ * Append a version to the scope's template, creating the template on first save
+ */
+export async function savePromptVersion(
+  userId: string,
+  input: { key: PromptKey; certificationId: string | null; body: string; note?: string }
+): Promise<void> {
+  await assertScopeAllowed(input.key, input.certificationId);
+  assertValidBody(input.key, input.body);
+
+  await prisma.$transaction(async (tx) => {
+    const template =
+      (await tx.promptTemplate.findFirst({
+        where: { key: input.key, certificationId: input.certificationId },
+        include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+      })) ??
+      (await tx.promptTemplate.create({
+        data: { key: input.key, certificationId: input.certificationId },
+        include: { versions: { orderBy: { version: "desc" }, take: 1 } },
+      }));
+
+    const latest = template.versions[0];
+    if (latest && latest.body === input.body) {
+      throw new ValidationError("No changes to save");
+    }
+
+    await tx.promptTemplateVersion.create({
+      data: {
+        templateId: template.id,
+        version: (latest?.version ?? 0) + 1,
+        body: input.body,
+        note: input.note || null,
+        createdById: userId,
+      },
+    });
+  });
+}
+
+/**
+ * Make an earlier version live by saving its text as a new version
+ */
+export async function restorePromptVersion(userId: string, versionId: string) {
+  const version = await prisma.promptTemplateVersion.findUnique({
+    where: { id: versionId },
+    include: { template: { select: { key: true, certificationId: true } } },
+  });
+  if (!version) {
+    throw new NotFoundError("Prompt version not found");
+  }
+
+  const key = version.template.key as PromptKey;
+  if (!PROMPT_KEYS.includes(key)) {
+    throw new ValidationError("This prompt is no longer used");
+  }
+
+  await savePromptVersion(userId, {
+    key,
+    certificationId: version.template.certificationId,
+    body: version.body,
+    note: `Restored version ${version.version}`,
+  });
+  return { key, certificationId: version.template.certificationId };
+}
+
+/**
+ * Drop a certification's override (and its history) so the default applies again
+ */
+export async function deletePromptOverride(key: PromptKey, certificationId: string) {
+  const template = await prisma.promptTemplate.findFirst({
+    where: { key, certificationId },
+    select: { id: true },
+  });
+  if (!template) {
+    throw new NotFoundError("This certification has no override for the prompt");
+  }
+  await prisma.promptTemplate.delete({ where: { id: template.id } });
+}
+
+/**
+ * Sample variables for a preview, from an objective when one is chosen.
+ * Variables without a sample show as [name].
+ */
+async function sampleVariables(
+  key: PromptKey,
+  certificationId: string | null,
+  objectiveId: string | undefined,
+  questionType: "multiple_choice" | "multi_select"
+): Promise<PromptVariables> {
+  const objective = objectiveId
+    ? await prisma.certificationObjective.findUnique({
+        where: { id: objectiveId },
+        include: {
+          domain: { include: { certification: { select: { id: true, name: true } } } },
+          bullets: { orderBy: { order: "asc" }, include: { subBullets: { orderBy: { order: "asc" } } } },
+        },
+      })
+    : null;
+  if (objectiveId && !objective) {
+    throw new NotFoundError("Objective not found");
+  }
+
+  const certification = objective
+    ? objective.domain.certification
+    : certificationId
+      ? await prisma.certification.findUnique({
+          where: { id: certificationId },
+          select: { id: true, name: true },
+        })
+      : null;
+
+  switch (key) {
+    case "question_generation":
+      return questionGenerationVariables({
+        questionType,
+        certificationName: certification?.name,
+        domainName: objective?.domain.name,
+        objectiveCode: objective?.code,
+        objectiveName: objective?.description,
+        bulletText: objective?.bullets[0]?.text,
+      });
+    case "document_mapping":
+      if (!objective) {
+        return { certificationName: certification?.name };
+      }
+      return {
+        certificationName: certification?.name,
+        // Stand-in document: the objective's own outline
+        documentText: [
+          `${objective.code} ${objective.description}`,
+          ...objective.bullets.flatMap((bullet) => [
+            `- ${bullet.text}`,
+            ...bullet.subBullets.map((subBullet) => `  - ${subBullet.text}`),
+          ]),
+        ].join("\n"),
+        contentStructure: JSON.stringify(
+          await loadMappingContentStructure(objective.domain.certificationId, [objective.domainId]),
+          null,
+          2
+        ),
+      };
+    default:
+      return { certificationName: certification?.name };
+  }
+}
+
+/**
+ * Render prompt text with sample variables
+ */
+export async function previewPrompt(input: {
+  key: PromptKey;
+  certificationId: string | null;
+  body: string;
+  objectiveId?: string;
+  questionType: "multiple_choice" | "multi_select";
+}): Promise<PromptPreview> {
+  const definition = PROMPT_DEFINITIONS[input.key];
+  const samples = await sampleVariables(
+    input.key,
+    input.certificationId,
+    input.objectiveId,
+    input.questionType
+  );
+
+  const variables: Record<string, string> = {};
+  for (const variable of definition.variables) {
+    const value = samples[variable.name];
+    variables[variable.name] =
+      value === undefined || value === null ? `[${variable.name}]` : String(value);
+  }
+
+  const { unknown, missing } = checkPromptBody(input.key, input.body);
+  return {
+    rendered: renderPrompt(input.body, variables),
+    variables,
+    unknownVariables: unknown,
+    missingVariables: missing,
+  };
+}
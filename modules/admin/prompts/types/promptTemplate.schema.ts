@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { PROMPT_KEYS, type PromptKey, type PromptVariable } from "@/lib/ai/prompts";
+
+/**
+ * Zod schema for a prompt's default template or a certification's override
+ */
+export const promptScopeSchema = z.object({
+  key: z.enum(PROMPT_KEYS),
+  certificationId: z.string().cuid().nullable().optional(),
+});
+
+/**
+ * Zod schema for saving a new version of a template
+ */
+export const savePromptVersionSchema = promptScopeSchema.extend({
+  body: z.string().trim().min(1, "Prompt text is required").max(50_000),
+  note: z.string().trim().max(200).optional(),
+});
+
+/**
+ * Zod schema for making an earlier version live again
+ */
+export const restorePromptVersionSchema = z.object({
+  versionId: z.string().cuid(),
+});
+
+/**
+ * Zod schema for previewing (possibly unsaved) prompt text against a sample objective
+ */
+export const previewPromptSchema = promptScopeSchema.extend({
+  body: z.string().max(50_000),
+  objectiveId: z.string().cuid().optional(),
+  questionType: z.enum(["multiple_choice", "multi_select"]).default("multiple_choice"),
+});
+
+// Type exports
+export type PromptScopeInput = z.infer<typeof promptScopeSchema>;
+export type SavePromptVersionInput = z.infer<typeof savePromptVersionSchema>;
+export type RestorePromptVersionInput = z.infer<typeof restorePromptVersionSchema>;
+export type PreviewPromptInput = z.input<typeof previewPromptSchema>;
+
+export type PromptSource = "certification" | "default" | "built_in";
+
+export interface PromptOverrideSummary {
+  certification: { id: string; name: string; code: string };
+  version: number;
+  updatedAt: Date;
+}
+
+export interface PromptSummary {
+  key: PromptKey;
+  label: string;
+  description: string;
+  certificationOverrides: boolean;
+  // Default wording: an edited template or the built-in text
+  source: Exclude<PromptSource, "certification">;
+  version: number | null;
+  updatedAt: Date | null;
+  overrides: PromptOverrideSummary[];
+}
+
+export interface PromptVersion {
+  id: string;
+  version: number;
+  body: string;
+  note: string | null;
+  createdBy: { id: string; name: string | null; email: string } | null;
+  createdAt: Date;
+}
+
+export interface PromptDetail {
+  key: PromptKey;
+  label: string;
+  description: string;
+  certificationOverrides: boolean;
+  variables: PromptVariable[];
+  certification: { id: string; name: string; code: string } | null;
+  // Newest first; the first is live
+  versions: PromptVersion[];
+  // Text used when this scope has no versions: the default template or the built-in text
+  inherited: { body: string; source: Exclude<PromptSource, "certification">; version: number | null };
+  builtInBody: string;
+}
+
+export interface PromptPreview {
+  rendered: string;
+  variables: Record<string, string>;
+  unknownVariables: string[];
+  missingVariables: string[];
+}
+
+// Response types
+export interface PromptListResponse {
+  success: boolean;
+  data?: PromptSummary[];
+  error?: string;
+}
+
+export interface PromptDetailResponse {
+  success: boolean;
+  data?: PromptDetail;
+  error?: string;
+}
+
+export interface PromptPreviewResponse {
+  success: boolean;
+  data?: PromptPreview;
+  error?: string;
+}
+
+export interface PromptActionResponse {
+  success: boolean;
+  error?: string;
+}
@@ -0,0 +1,430 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Eye, History, RotateCcw, Save, Trash2 } from "lucide-react";
+import type { PromptKey } from "@/lib/ai/prompts";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { useDomains } from "@/modules/certifications/hooks/useDomains";
+import {
+  usePreviewPrompt,
+  usePrompt,
+  useRemovePromptOverride,
+  useRestorePromptVersion,
+  useSavePromptVersion,
+} from "../hooks/usePromptTemplates";
+import type { PromptPreview } from "../types/promptTemplate.schema";
+
+interface PromptEditorProps {
+  promptKey: PromptKey;
+  initialCertificationId: string | null;
+  canManage: boolean;
+}
+
+// Select value for the default (all certifications) scope
+const DEFAULT_SCOPE = "default";
+
+export function PromptEditor({ promptKey, initialCertificationId, canManage }: PromptEditorProps) {
+  const [scope, setScope] = React.useState(initialCertificationId ?? DEFAULT_SCOPE);
+  const certificationId = scope === DEFAULT_SCOPE ? null : scope;
+
+  const [body, setBody] = React.useState("");
+  const [note, setNote] = React.useState("");
+  const [sampleCertificationId, setSampleCertificationId] = React.useState(certificationId ?? "");
+  const [objectiveId, setObjectiveId] = React.useState("");
+  const [questionType, setQuestionType] = React.useState<"multiple_choice" | "multi_select">(
+    "multiple_choice"
+  );
+  const [preview, setPreview] = React.useState<PromptPreview | null>(null);
+  const [confirmRemove, setConfirmRemove] = React.useState(false);
+  const textareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+  const { data: response, isLoading } = usePrompt(promptKey, certificationId);
+  const { data: certifications } = useCertifications({
+    status: "all",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+  const { data: domains } = useDomains(sampleCertificationId);
+  const savePrompt = useSavePromptVersion();
+  const restoreVersion = useRestorePromptVersion(promptKey);
+  const removeOverride = useRemovePromptOverride();
+  const previewPrompt = usePreviewPrompt();
+
+  const prompt = response?.data;
+  const liveBody = prompt ? (prompt.versions[0]?.body ?? prompt.inherited.body) : "";
+
+  // Load the live text whenever the scope's history changes
+  React.useEffect(() => {
+    setBody(liveBody);
+    setNote("");
+  }, [liveBody]);
+
+  React.useEffect(() => {
+    setSampleCertificationId(certificationId ?? "");
+    setObjectiveId("");
+    setPreview(null);
+  }, [certificationId]);
+
+  const insertVariable = (name: string) => {
+    const placeholder = `{{${name}}}`;
+    const textarea = textareaRef.current;
+    if (!textarea) {
+      setBody((current) => current + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    setBody((current) => current.slice(0, selectionStart) + placeholder + current.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  const handleSave = async () => {
+    await savePrompt.mutateAsync({
+      key: promptKey,
+      certificationId,
+      body,
+      note: note || undefined,
+    });
+  };
+
+  const handlePreview = async () => {
+    const result = await previewPrompt.mutateAsync({
+      key: promptKey,
+      certificationId: certificationId ?? (sampleCertificationId || null),
+      body,
+      objectiveId: objectiveId || undefined,
+      questionType,
+    });
+    if (result.success && result.data) {
+      setPreview(result.data);
+    }
+  };
+
+  if (isLoading && !prompt) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-20" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  if (!prompt) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+        <h3 className="text-lg font-semibold mb-2">Prompt not available</h3>
+        <p className="text-sm text-muted-foreground mb-6">{response?.error}</p>
+        <Button variant="outline" asChild>
+          <Link href="/admin/prompts">Back to prompts</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const isDirty = body !== liveBody;
+  const liveVersion = prompt.versions[0];
+  const objectives = (domains?.data ?? []).flatMap((domain) =>
+    domain.objectives.map((objective) => ({ ...objective, domainName: domain.name }))
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <Link
+            href="/admin/prompts"
+            className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Prompts
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight">{prompt.label}</h1>
+          <p className="text-muted-foreground mt-2">{prompt.description}</p>
+        </div>
+        {prompt.certificationOverrides && (
+          <div className="space-y-1 w-72">
+            <Label className="text-xs text-muted-foreground">Editing</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEFAULT_SCOPE}>Default (all certifications)</SelectItem>
+                {(certifications?.data ?? []).map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="rounded-lg border bg-card p-4 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <h2 className="font-semibold">Prompt Text</h2>
+              {liveVersion ? (
+                <Badge>Live: version {liveVersion.version}</Badge>
+              ) : (
+                <Badge variant="outline">
+                  {prompt.inherited.source === "default"
+                    ? `Using default v${prompt.inherited.version}`
+                    : "Using built-in text"}
+                </Badge>
+              )}
+              {isDirty && <Badge variant="secondary">Unsaved</Badge>}
+            </div>
+            {canManage && prompt.certification && liveVersion && (
+              <Button variant="ghost" size="sm" onClick={() => setConfirmRemove(true)}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove override
+              </Button>
+            )}
+          </div>
+
+          <Textarea
+            ref={textareaRef}
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            readOnly={!canManage}
+            rows={24}
+            className="font-mono text-xs"
+          />
+
+          {prompt.variables.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-xs text-muted-foreground">
+                Variables{canManage && " (click to insert)"}
+              </Label>
+              <div className="flex flex-wrap gap-1">
+                {prompt.variables.map((variable) => (
+                  <button
+                    key={variable.name}
+                    type="button"
+                    title={variable.description}
+                    disabled={!canManage}
+                    onClick={() => insertVariable(variable.name)}
+                    className="rounded border bg-muted px-2 py-0.5 font-mono text-xs hover:border-primary disabled:cursor-default"
+                  >
+                    {`{{${variable.name}}}`}
+                    {variable.required && <span className="text-destructive"> *</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-48 space-y-1">
+                <Label htmlFor="prompt-note" className="text-xs text-muted-foreground">
+                  What changed
+                </Label>
+                <Input
+                  id="prompt-note"
+                  placeholder="Ask for shorter stems"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setBody(prompt.builtInBody)}
+                disabled={body === prompt.builtInBody}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Built-in text
+              </Button>
+              <Button onClick={handleSave} disabled={(!isDirty && !!liveVersion) || savePrompt.isPending}>
+                <Save className="h-4 w-4 mr-2" />
+                {savePrompt.isPending ? "Saving..." : "Save Version"}
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Preview & history */}
+        <Tabs defaultValue="preview" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="preview">
+              <Eye className="h-4 w-4 mr-2" />
+              Preview
+            </TabsTrigger>
+            <TabsTrigger value="history">
+              <History className="h-4 w-4 mr-2" />
+              History ({prompt.versions.length})
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="preview" className="space-y-4">
+            <div className="rounded-lg border bg-card p-4 space-y-3">
+              <div className="grid gap-3 md:grid-cols-2">
+                {!certificationId && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Sample certification</Label>
+                    <Select
+                      value={sampleCertificationId}
+                      onValueChange={(value) => {
+                        setSampleCertificationId(value);
+                        setObjectiveId("");
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a certification" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(certifications?.data ?? []).map((certification) => (
+                          <SelectItem key={certification.id} value={certification.id}>
+                            {certification.name} ({certification.code})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">Sample objective</Label>
+                  <Select
+                    value={objectiveId}
+                    onValueChange={setObjectiveId}
+                    disabled={!sampleCertificationId}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose an objective" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {objectives.map((objective) => (
+                        <SelectItem key={objective.id} value={objective.id}>
+                          {objective.code} {objective.description.slice(0, 60)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {promptKey === "question_generation" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs text-muted-foreground">Question type</Label>
+                    <Select
+                      value={questionType}
+                      onValueChange={(value) => setQuestionType(value as typeof questionType)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="multiple_choice">Multiple choice</SelectItem>
+                        <SelectItem value="multi_select">Multi-select</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+              <Button variant="outline" onClick={handlePreview} disabled={previewPrompt.isPending}>
+                <Eye className="h-4 w-4 mr-2" />
+                {previewPrompt.isPending ? "Rendering..." : "Render Preview"}
+              </Button>
+            </div>
+
+            {preview && (
+              <div className="rounded-lg border bg-card p-4 space-y-3">
+                {preview.unknownVariables.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Unknown variables: {preview.unknownVariables.map((name) => `{{${name}}}`).join(", ")}
+                  </p>
+                )}
+                {preview.missingVariables.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Missing required variables:{" "}
+                    {preview.missingVariables.map((name) => `{{${name}}}`).join(", ")}
+                  </p>
+                )}
+                <pre className="max-h-[600px] overflow-auto whitespace-pre-wrap rounded bg-muted p-3 text-xs">
+                  {preview.rendered}
+                </pre>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history">
+            <div className="rounded-lg border bg-card divide-y">
+              {prompt.versions.length === 0 ? (
+                <p className="p-6 text-center text-sm text-muted-foreground">
+                  {prompt.certification
+                    ? `${prompt.certification.name} uses the default prompt. Saving here creates an override.`
+                    : "The built-in text is in use. Saving creates version 1."}
+                </p>
+              ) : (
+                prompt.versions.map((version, index) => (
+                  <div key={version.id} className="flex items-start justify-between gap-4 p-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">Version {version.version}</span>
+                        {index === 0 && <Badge>Live</Badge>}
+                      </div>
+                      {version.note && <p className="text-sm">{version.note}</p>}
+                      <p className="text-xs text-muted-foreground">
+                        {version.createdBy?.name || version.createdBy?.email || "Unknown"} ·{" "}
+                        {new Date(version.createdAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setBody(version.body)}>
+                        Load
+                      </Button>
+                      {canManage && index > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={restoreVersion.isPending}
+                          onClick={() => restoreVersion.mutate({ versionId: version.id })}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <ConfirmationDialog
+        open={confirmRemove}
+        onOpenChange={setConfirmRemove}
+        title="Remove Override"
+        description={`Remove the ${prompt.label.toLowerCase()} override for ${prompt.certification?.name ?? ""}? Its versions are deleted and the default prompt applies again.`}
+        confirmText="Remove"
+        onConfirm={() =>
+          prompt.certification &&
+          removeOverride.mutate({ key: promptKey, certificationId: prompt.certification.id })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MessageSquareText } from "lucide-react";
+import { usePrompts } from "../hooks/usePromptTemplates";
+
+export function PromptList() {
+  const { data: response, isLoading } = usePrompts();
+  const prompts = response?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Prompts</h1>
+        <p className="text-muted-foreground mt-2">
+          Tune the wording sent to AI models. Every save is a new version, and certifications can
+          override the default.
+        </p>
+      </div>
+
+      {response && !response.success && (
+        <p className="text-sm text-destructive">{response.error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-36" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {prompts.map((prompt) => (
+            <Link
+              key={prompt.key}
+              href={`/admin/prompts/${prompt.key}`}
+              className="rounded-lg border bg-card p-6 space-y-3 hover:border-primary transition-colors"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <MessageSquareText className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-semibold">{prompt.label}</span>
+                </div>
+                {prompt.source === "built_in" ? (
+                  <Badge variant="outline">Built-in</Badge>
+                ) : (
+                  <Badge>Version {prompt.version}</Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">{prompt.description}</p>
+              <div className="flex flex-wrap items-center gap-1 text-sm">
+                {prompt.overrides.length > 0 ? (
+                  <>
+                    <span className="text-muted-foreground mr-1">Overridden for</span>
+                    {prompt.overrides.map((override) => (
+                      <Badge key={override.certification.id} variant="secondary">
+                        {override.certification.code} v{override.version}
+                      </Badge>
+                    ))}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">
+                    {prompt.certificationOverrides
+                      ? "No certification overrides"
+                      : "Applies to every certification"}
+                  </span>
+                )}
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
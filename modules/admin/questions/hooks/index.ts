@@ -11,8 +11,26 @@ export * from "./useAIGeneration";
 // Question task hooks
 export * from "./useQuestionTasks";
 
+// Batch AI generation & draft review hooks
+export * from "./useQuestionDrafts";
+
+// Review workflow hooks
+export * from "./useQuestionReview";
+
+// Revision history hooks
+export * from "./useQuestionRevisions";
+
+// Near-duplicate detection hooks
+export * from "./useQuestionDuplicates";
+
 // Question management hook (combined operations)
 export * from "./useQuestionManagement";
 
+// CSV/Excel import & export hooks
+export * from "./useQuestionSheets";
+
+// Performance-based question (PBQ) hooks
+export * from "./useAdminPBQs";
+
 // Admin-specific hooks
 export * from "./useAdminQuestions";
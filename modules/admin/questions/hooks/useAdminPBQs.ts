@@ -0,0 +1,122 @@
+/**
+ * PBQ Hooks
+ *
+ * Client hooks for listing and authoring performance-based questions.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  createPBQ,
+  deletePBQ,
+  getPBQById,
+  getPBQs,
+  updatePBQ,
+} from "../serverActions/pbq.action";
+import type { PBQInput, PBQListFilters, UpdatePBQInput } from "../types";
+
+/**
+ * Fetch PBQs, optionally filtered by certification or type
+ */
+export function useAdminPBQs(filters: PBQListFilters = {}) {
+  return useQuery({
+    queryKey: ["admin-pbqs", filters],
+    queryFn: async () => {
+      const result = await getPBQs(filters);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch PBQs");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Fetch a single PBQ with its rubric
+ */
+export function useAdminPBQ(pbqId: string | null) {
+  return useQuery({
+    queryKey: ["admin-pbq", pbqId],
+    queryFn: async () => {
+      const result = await getPBQById(pbqId!);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch PBQ");
+      }
+      return result.data;
+    },
+    enabled: !!pbqId,
+  });
+}
+
+/**
+ * Create a PBQ
+ */
+export function useCreatePBQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: PBQInput) => {
+      const result = await createPBQ(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to create PBQ");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("PBQ created successfully");
+      queryClient.invalidateQueries({ queryKey: ["admin-pbqs"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to create PBQ");
+    },
+  });
+}
+
+/**
+ * Replace a PBQ's definition
+ */
+export function useUpdatePBQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdatePBQInput) => {
+      const result = await updatePBQ(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to update PBQ");
+      }
+      return result.data;
+    },
+    onSuccess: (_, variables) => {
+      toast.success("PBQ updated");
+      queryClient.invalidateQueries({ queryKey: ["admin-pbq", variables.id] });
+      queryClient.invalidateQueries({ queryKey: ["admin-pbqs"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to update PBQ");
+    },
+  });
+}
+
+/**
+ * Delete a PBQ and its attempts
+ */
+export function useDeletePBQ() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (pbqId: string) => {
+      const result = await deletePBQ(pbqId);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete PBQ");
+      }
+      return result;
+    },
+    onSuccess: () => {
+      toast.success("PBQ deleted successfully");
+      queryClient.invalidateQueries({ queryKey: ["admin-pbqs"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to delete PBQ");
+    },
+  });
+}
@@ -39,15 +39,18 @@ export function useQuestionFeedback() {
       questionText,
       options,
       questionType,
+      certificationId,
     }: {
       questionText: string;
       options: QuestionOption[];
       questionType: "multiple_choice" | "multi_select";
+      certificationId?: string;
     }) => {
       const result = await getQuestionFeedback(
         questionText,
         options,
-        questionType
+        questionType,
+        certificationId
       );
       if (!result.success || !result.data) {
         throw new Error(result.error || "Failed to get question feedback");
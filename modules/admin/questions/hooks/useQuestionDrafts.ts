@@ -0,0 +1,120 @@
+/**
+ * Question Draft Hooks
+ *
+ * Client hooks for batch AI generation against task gaps and the draft
+ * review inbox.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  fillTaskGaps,
+  getTaskGaps,
+  listQuestionDrafts,
+  retryQuestionDrafts,
+  reviewQuestionDraft,
+} from "../serverActions/questionDraft.action";
+import type {
+  FillTaskGapsInput,
+  QuestionDraftStatus,
+  RetryQuestionDraftsInput,
+  ReviewQuestionDraftInput,
+} from "../types/questionDraft.types";
+
+// Queued drafts are written in the background; poll while any are waiting
+const QUEUED_REFETCH_INTERVAL = 10000;
+
+/**
+ * Fetch a task's per-objective gaps
+ */
+export function useTaskGaps(taskId: string | null) {
+  return useQuery({
+    queryKey: ["task-gaps", taskId],
+    queryFn: () => getTaskGaps(taskId!),
+    enabled: !!taskId,
+  });
+}
+
+/**
+ * Fetch drafts in one status, with counts for every status
+ */
+export function useQuestionDrafts(status: QuestionDraftStatus, taskId?: string) {
+  return useQuery({
+    queryKey: ["question-drafts", status, taskId ?? "all"],
+    queryFn: () => listQuestionDrafts({ status, taskId }),
+    refetchInterval: (query) =>
+      (query.state.data?.data?.counts.queued ?? 0) > 0 ? QUEUED_REFETCH_INTERVAL : false,
+  });
+}
+
+/**
+ * Queue drafts for a task's missing questions
+ */
+export function useFillTaskGaps() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: FillTaskGapsInput) => fillTaskGaps(input),
+    onSuccess: (response) => {
+      if (response.success && response.data) {
+        toast.success(`Queued ${response.data.queued} question draft${response.data.queued === 1 ? "" : "s"}`);
+        queryClient.invalidateQueries({ queryKey: ["task-gaps"] });
+        queryClient.invalidateQueries({ queryKey: ["question-drafts"] });
+      } else {
+        toast.error(response.error || "Failed to queue question drafts");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Queue failed drafts again
+ */
+export function useRetryQuestionDrafts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RetryQuestionDraftsInput) => retryQuestionDrafts(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Drafts queued again");
+        queryClient.invalidateQueries({ queryKey: ["question-drafts"] });
+      } else {
+        toast.error(response.error || "Failed to retry drafts");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Approve or reject a draft
+ */
+export function useReviewQuestionDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ReviewQuestionDraftInput) => reviewQuestionDraft(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success(input.decision === "approve" ? "Question added to the task" : "Draft rejected");
+        queryClient.invalidateQueries({ queryKey: ["question-drafts"] });
+        queryClient.invalidateQueries({ queryKey: ["task-gaps"] });
+        queryClient.invalidateQueries({ queryKey: ["question-tasks"] });
+      } else {
+        toast.error(response.error || "Failed to review draft");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
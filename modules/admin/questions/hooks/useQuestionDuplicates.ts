@@ -0,0 +1,64 @@
+/**
+ * Question Duplicate Hooks
+ *
+ * Client hooks for checking a question against the bank before it is saved,
+ * the similar-questions report and resolving the duplicates it finds.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  checkQuestionDuplicates,
+  getSimilarQuestionsReport,
+  resolveDuplicateQuestion,
+} from "../serverActions/questionDuplicate.action";
+import type {
+  CheckQuestionDuplicatesInput,
+  ResolveDuplicateQuestionInput,
+} from "../types/questionDuplicate.types";
+
+/**
+ * Find near-duplicates of a question before saving it. The check is advisory,
+ * so failures are left to the caller rather than toasted.
+ */
+export function useCheckQuestionDuplicates() {
+  return useMutation({
+    mutationFn: (input: CheckQuestionDuplicatesInput) => checkQuestionDuplicates(input),
+  });
+}
+
+/**
+ * Fetch near-identical question pairs for a certification
+ */
+export function useSimilarQuestionsReport(certificationId: string, threshold: number) {
+  return useQuery({
+    queryKey: ["similar-questions", certificationId, threshold],
+    queryFn: () => getSimilarQuestionsReport({ certificationId, threshold }),
+    enabled: !!certificationId,
+  });
+}
+
+/**
+ * Merge or retire a duplicate question
+ */
+export function useResolveDuplicateQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ResolveDuplicateQuestionInput) => resolveDuplicateQuestion(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success(input.action === "merge" ? "Duplicate merged" : "Duplicate retired");
+        queryClient.invalidateQueries({ queryKey: ["similar-questions"] });
+        queryClient.invalidateQueries({ queryKey: ["question-review", input.questionId] });
+        queryClient.invalidateQueries({ queryKey: ["questions"] });
+      } else {
+        toast.error(response.error || "Failed to resolve duplicate");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
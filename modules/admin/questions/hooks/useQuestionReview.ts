@@ -0,0 +1,163 @@
+/**
+ * Question Review Hooks
+ *
+ * Client hooks for the editorial workflow: status moves, reviewer
+ * assignments, comment threads and the review queue.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  addQuestionComment,
+  assignQuestionReviewer,
+  getQuestionReview,
+  getReviewCandidates,
+  getReviewQueue,
+  removeQuestionReviewer,
+  resolveQuestionComment,
+  transitionQuestionStatus,
+} from "../serverActions/questionReview.action";
+import type {
+  AddQuestionCommentInput,
+  ListReviewQueueInput,
+  QuestionReviewAction,
+  QuestionReviewerInput,
+  ResolveQuestionCommentInput,
+  TransitionQuestionInput,
+} from "../types/questionReview.types";
+
+const ACTION_MESSAGES: Record<QuestionReviewAction, string> = {
+  submit: "Submitted for review",
+  approve: "Question approved",
+  request_changes: "Changes requested",
+  publish: "Question published",
+  retire: "Question retired",
+  reopen: "Question reopened as a draft",
+};
+
+/**
+ * Fetch a question's review: reviewers, threads, audit trail and available moves
+ */
+export function useQuestionReview(questionId: string) {
+  return useQuery({
+    queryKey: ["question-review", questionId],
+    queryFn: () => getQuestionReview(questionId),
+  });
+}
+
+/**
+ * Fetch questions in one workflow status
+ */
+export function useReviewQueue(input: ListReviewQueueInput) {
+  return useQuery({
+    queryKey: ["question-review-queue", input.status ?? "in_review", !!input.assignedToMe],
+    queryFn: () => getReviewQueue(input),
+  });
+}
+
+/**
+ * Fetch users who can be assigned as reviewers
+ */
+export function useReviewCandidates(enabled = true) {
+  return useQuery({
+    queryKey: ["question-review-candidates"],
+    queryFn: () => getReviewCandidates(),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Move a question through the workflow
+ */
+export function useTransitionQuestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: TransitionQuestionInput) => transitionQuestionStatus(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success(ACTION_MESSAGES[input.action]);
+        queryClient.invalidateQueries({ queryKey: ["question-review", input.questionId] });
+        queryClient.invalidateQueries({ queryKey: ["question-review-queue"] });
+        queryClient.invalidateQueries({ queryKey: ["questions"] });
+      } else {
+        toast.error(response.error || "Failed to change question status");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Assign or remove a reviewer
+ */
+export function useQuestionReviewer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ remove, ...input }: QuestionReviewerInput & { remove?: boolean }) =>
+      remove ? removeQuestionReviewer(input) : assignQuestionReviewer(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        toast.success(input.remove ? "Reviewer removed" : "Reviewer assigned");
+        queryClient.invalidateQueries({ queryKey: ["question-review", input.questionId] });
+        queryClient.invalidateQueries({ queryKey: ["question-review-queue"] });
+      } else {
+        toast.error(response.error || "Failed to update reviewers");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Start a comment thread or reply to one
+ */
+export function useAddQuestionComment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: AddQuestionCommentInput) => addQuestionComment(input),
+    onSuccess: (response, input) => {
+      if (response.success) {
+        queryClient.invalidateQueries({ queryKey: ["question-review", input.questionId] });
+      } else {
+        toast.error(response.error || "Failed to add comment");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Resolve a comment thread or open it again
+ */
+export function useResolveQuestionComment(questionId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ResolveQuestionCommentInput) => resolveQuestionComment(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        queryClient.invalidateQueries({ queryKey: ["question-review", questionId] });
+        queryClient.invalidateQueries({ queryKey: ["question-review-queue"] });
+      } else {
+        toast.error(response.error || "Failed to update comment");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Question Revision Hooks
+ *
+ * Client hooks for a question's revision history and restoring an earlier
+ * revision.
+ */
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getQuestionRevisions,
+  restoreQuestionRevision,
+} from "../serverActions/questionRevision.action";
+import type { RestoreQuestionRevisionInput } from "../types/questionRevision.types";
+
+/**
+ * Fetch a question's revisions, newest first
+ */
+export function useQuestionRevisions(questionId: string) {
+  return useQuery({
+    queryKey: ["question-revisions", questionId],
+    queryFn: () => getQuestionRevisions(questionId),
+  });
+}
+
+/**
+ * Restore an earlier revision
+ */
+export function useRestoreQuestionRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: RestoreQuestionRevisionInput) => restoreQuestionRevision(input),
+    onSuccess: (response, input) => {
+      if (response.success && response.data) {
+        toast.success(`Restored revision ${input.revision} as revision ${response.data.revision}`);
+        queryClient.invalidateQueries({ queryKey: ["question-revisions", input.questionId] });
+        queryClient.invalidateQueries({ queryKey: ["question-review", input.questionId] });
+        queryClient.invalidateQueries({ queryKey: ["questions"] });
+      } else {
+        toast.error(response.error || "Failed to restore revision");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
@@ -0,0 +1,103 @@
+/**
+ * Question Import/Export Hooks
+ *
+ * Client hooks for CSV/Excel/QTI/GIFT question import (with dry-run preview)
+ * and export.
+ */
+
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { exportQuestions, importQuestions } from "../serverActions/questionSheet.action";
+import type { QuestionExportRequest } from "../types";
+
+interface ImportQuestionsInput {
+  certificationId: string;
+  file: File;
+  dryRun: boolean;
+  defaultObjectiveCode?: string;
+}
+
+/**
+ * Convert File to base64 string
+ */
+async function fileToBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      if (typeof reader.result === "string") {
+        // Remove the data URL prefix (e.g., "data:text/csv;base64,")
+        resolve(reader.result.split(",")[1] ?? "");
+      } else {
+        reject(new Error("Failed to read file as base64"));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Preview (dryRun) or commit a question import
+ */
+export function useImportQuestions() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ImportQuestionsInput) => {
+      const result = await importQuestions({
+        certificationId: input.certificationId,
+        fileName: input.file.name,
+        fileBase64: await fileToBase64(input.file),
+        dryRun: input.dryRun,
+        defaultObjectiveCode: input.defaultObjectiveCode,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to import questions");
+      }
+      return result.data;
+    },
+    onSuccess: (result) => {
+      if (result.committed) {
+        const { creates, updates } = result.summary;
+        toast.success(`Imported questions: ${creates} created, ${updates} updated`);
+        queryClient.invalidateQueries({ queryKey: ["questions"] });
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to import questions");
+    },
+  });
+}
+
+/**
+ * Export questions and download the file
+ */
+export function useExportQuestions() {
+  return useMutation({
+    mutationFn: async (request: QuestionExportRequest) => {
+      const result = await exportQuestions(request);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to export questions");
+      }
+      return result.data;
+    },
+    onSuccess: (file) => {
+      const bytes = Uint8Array.from(atob(file.contentBase64), (char) => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: file.mimeType }));
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast.success(`Exported ${file.count} question${file.count === 1 ? "" : "s"}`, {
+        ...(file.skipped > 0 && {
+          description: `${file.skipped} ordering/categorization question${file.skipped === 1 ? "" : "s"} skipped - the format has no equivalent`,
+        }),
+      });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to export questions");
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { pairSimilarQuestions, questionEmbeddingText, rankSimilarQuestions } from '../duplicateDetection'
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+const questions = [
+  { id: 'q-1', embedding: [1, 0, 0] },
+  { id: 'q-2', embedding: [0.96, 0.28, 0] },
+  { id: 'q-3', embedding: [0, 1, 0] },
+  { id: 'q-4', embedding: [0.99, 0.14, 0] },
+]
+
+describe('near-duplicate detection', () => {
+  it('embeds the stem and options but nothing else', () => {
+    expect(
+      questionEmbeddingText({
+        text: '  Which port does HTTPS use? ',
+        choices: [{ text: '80' }, { text: ' 443 ' }, { text: '' }],
+      })
+    ).toBe('Which port does HTTPS use?\n- 80\n- 443')
+  })
+
+  it('ranks candidates above the threshold, most similar first', () => {
+    expect(rankSimilarQuestions([1, 0, 0], questions, dot, 0.9)).toEqual([
+      { id: 'q-1', similarity: 1 },
+      { id: 'q-4', similarity: 0.99 },
+      { id: 'q-2', similarity: 0.96 },
+    ])
+    expect(rankSimilarQuestions([1, 0, 0], questions, dot, 0.9, 1)).toHaveLength(1)
+  })
+
+  it('pairs each question with its near-duplicates once', () => {
+    const pairs = pairSimilarQuestions(questions, dot, 0.95)
+
+    expect(pairs.map(({ firstId, secondId }) => [firstId, secondId])).toEqual([
+      ['q-1', 'q-4'],
+      ['q-2', 'q-4'],
+      ['q-1', 'q-2'],
+    ])
+    expect(pairs.every((pair) => pair.similarity >= 0.95)).toBe(true)
+  })
+})
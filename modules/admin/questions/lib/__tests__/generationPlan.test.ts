@@ -0,0 +1,51 @@
+import { objectiveTargets, planGapGeneration, type PlanObjective } from '../generationPlan'
+
+const withOutline: PlanObjective = {
+  objectiveId: 'obj-1',
+  missingCount: 5,
+  bullets: [
+    { id: 'b-1', subBullets: [{ id: 's-1' }, { id: 's-2' }] },
+    { id: 'b-2', subBullets: [] },
+  ],
+}
+
+const bare: PlanObjective = { objectiveId: 'obj-2', missingCount: 2, bullets: [] }
+
+describe('batch generation planning', () => {
+  it('targets sub-bullets, bare bullets and bare objectives', () => {
+    expect(objectiveTargets(withOutline)).toEqual([
+      { objectiveId: 'obj-1', bulletId: 'b-1', subBulletId: 's-1' },
+      { objectiveId: 'obj-1', bulletId: 'b-1', subBulletId: 's-2' },
+      { objectiveId: 'obj-1', bulletId: 'b-2' },
+    ])
+    expect(objectiveTargets(bare)).toEqual([{ objectiveId: 'obj-2' }])
+  })
+
+  it('spreads each gap across the outline and alternates question types', () => {
+    const slots = planGapGeneration([withOutline, bare])
+
+    expect(slots).toHaveLength(7)
+    expect(slots.filter((slot) => slot.objectiveId === 'obj-1').map((slot) => slot.subBulletId ?? slot.bulletId)).toEqual([
+      's-1',
+      's-2',
+      'b-2',
+      's-1',
+      's-2',
+    ])
+    expect(slots.map((slot) => slot.type)).toEqual([
+      'multiple_choice',
+      'multiple_choice',
+      'multi_select',
+      'multiple_choice',
+      'multiple_choice',
+      'multi_select',
+      'multiple_choice',
+    ])
+  })
+
+  it('starts with the least covered targets and shares a limit between objectives', () => {
+    const slots = planGapGeneration([withOutline, bare], new Map([['s-1', 3], ['s-2', 1]]), 3)
+
+    expect(slots.map((slot) => slot.subBulletId ?? slot.bulletId ?? slot.objectiveId)).toEqual(['b-2', 'obj-2', 's-2'])
+  })
+})
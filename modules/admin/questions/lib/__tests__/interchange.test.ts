@@ -0,0 +1,199 @@
+/**
+ * @jest-environment node
+ */
+import JSZip from 'jszip'
+import { parseGift, toGift } from '../gift'
+import { parseQtiItem, parseQtiPackage, toQtiItem, toQtiPackage } from '../qti'
+import type { SerializedQuestionWithHierarchy } from '../../types/question.types'
+import type { InterchangeQuestion } from '../../types/questionInterchange.types'
+
+const question = (overrides: Partial<SerializedQuestionWithHierarchy> = {}): SerializedQuestionWithHierarchy => ({
+  id: 'ckq1abcdefghijklmnopqrstu',
+  text: 'A user reports "odd" pop-ups & a slow laptop.\nWhat is the FIRST step? {choose one}',
+  type: 'multiple_choice',
+  difficulty: 'hard',
+  choices: [
+    { text: 'Reimage the laptop', isCorrect: false, explanation: 'Too early: destroys evidence #1' },
+    { text: 'Disconnect it from the network', isCorrect: true, explanation: 'Contain first' },
+    { text: 'Run a full scan = safe?', isCorrect: false },
+    { text: 'Escalate ~ management', isCorrect: false },
+  ],
+  correctAnswer: '1',
+  explanation: 'Isolate, then investigate.\n\nSee the incident response process.',
+  questionType: 'scenario',
+  isActive: true,
+  status: 'published',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  certificationCode: 'SY0-701',
+  objectiveCode: '4.8',
+  bulletText: 'Incident response: containment',
+  subBulletText: 'Isolation',
+  ...overrides,
+})
+
+const multiSelect = question({
+  id: 'ckq2abcdefghijklmnopqrstu',
+  text: 'Which ciphers are symmetric?',
+  type: 'multiple_select',
+  difficulty: 'easy',
+  correctAnswer: '0,2',
+  choices: [
+    { text: 'AES', isCorrect: true, explanation: 'Block cipher' },
+    { text: 'RSA', isCorrect: false, explanation: 'Asymmetric' },
+    { text: 'ChaCha20', isCorrect: true },
+  ],
+  explanation: '',
+  questionType: undefined,
+  subBulletText: undefined,
+})
+
+const ordering = question({ id: 'ckq3abcdefghijklmnopqrstu', type: 'ordering' })
+
+// The fields an interchange format is expected to carry
+const comparable = (q: SerializedQuestionWithHierarchy): InterchangeQuestion => ({
+  id: q.id,
+  text: q.text,
+  type: q.type,
+  difficulty: q.difficulty,
+  choices: q.choices,
+  correctAnswer: '',
+  explanation: q.explanation,
+  questionType: q.questionType,
+  certificationCode: q.certificationCode,
+  objectiveCode: q.objectiveCode,
+  bulletText: q.bulletText,
+  subBulletText: q.subBulletText,
+})
+
+describe('GIFT format', () => {
+  it('round-trips single and multiple answer questions with feedback', () => {
+    const { content, count, skipped } = toGift([question(), multiSelect, ordering])
+
+    expect(count).toBe(2)
+    expect(skipped).toEqual([{ id: ordering.id, reason: 'ordering questions have no QTI/GIFT equivalent' }])
+
+    const items = parseGift(content)
+    expect(items.map((item) => item.errors)).toEqual([[], []])
+    expect(items[0].question).toEqual(comparable(question()))
+    expect(items[1].question).toEqual(comparable(multiSelect))
+  })
+
+  it('writes weighted answers for multiple answer questions', () => {
+    const { content } = toGift([multiSelect])
+    expect(content).toContain('~%50%AES#Block cipher')
+    expect(content).toContain('~%-100%RSA#Asymmetric')
+  })
+
+  it('reads plain Moodle questions without our metadata', () => {
+    const [single, trueFalse, essay] = parseGift(
+      [
+        '// a comment',
+        '::Q1:: Which port does HTTPS use? { =443 #Right ~80 #Plain HTTP ~22 }',
+        '',
+        'TLS 1.0 is deprecated.{T}',
+        '',
+        'Explain defense in depth.{}',
+      ].join('\n')
+    )
+
+    expect(single.errors).toEqual([])
+    expect(single.question).toMatchObject({
+      id: undefined,
+      text: 'Which port does HTTPS use?',
+      type: 'multiple_choice',
+      difficulty: 'medium',
+      choices: [
+        { text: '443', isCorrect: true, explanation: 'Right' },
+        { text: '80', isCorrect: false, explanation: 'Plain HTTP' },
+        { text: '22', isCorrect: false },
+      ],
+    })
+    expect(trueFalse.question.choices).toEqual([
+      { text: 'True', isCorrect: true },
+      { text: 'False', isCorrect: false },
+    ])
+    expect(essay.errors).toEqual(['Essay questions are not supported'])
+  })
+})
+
+describe('QTI 2.1 format', () => {
+  it('maps single and multiple answers to choice interaction cardinality', () => {
+    expect(toQtiItem(question())).toContain('cardinality="single"')
+    expect(toQtiItem(question())).toContain('maxChoices="1"')
+    expect(toQtiItem(multiSelect)).toContain('cardinality="multiple"')
+    expect(toQtiItem(multiSelect)).toContain('<correctResponse><value>A</value><value>C</value></correctResponse>')
+  })
+
+  it('turns choice explanations into inline feedback', () => {
+    expect(toQtiItem(multiSelect)).toContain(
+      '<simpleChoice identifier="A">AES<feedbackInline outcomeIdentifier="FEEDBACK" identifier="A" showHide="show">Block cipher</feedbackInline></simpleChoice>'
+    )
+  })
+
+  it('round-trips a content package including metadata', async () => {
+    const { content, count, skipped } = await toQtiPackage([question(), multiSelect, ordering])
+
+    expect(count).toBe(2)
+    expect(skipped.map((s) => s.id)).toEqual([ordering.id])
+
+    const items = await parseQtiPackage(content, 'questions.zip')
+    expect(items.map((item) => item.errors)).toEqual([[], []])
+    expect(items[0].question).toEqual(comparable(question()))
+    expect(items[1].question).toEqual(comparable(multiSelect))
+  })
+
+  it('refuses packages with too many entries', async () => {
+    const zip = new JSZip()
+    zip.file('imsmanifest.xml', '<manifest/>')
+    for (let i = 0; i < 2000; i++) zip.file(`items/${i}.xml`, '')
+    const content = await zip.generateAsync({ type: 'uint8array' })
+
+    await expect(parseQtiPackage(content, 'questions.zip')).rejects.toThrow('at most 2000 are supported')
+  })
+
+  it('refuses entries that inflate past the size limit', async () => {
+    const zip = new JSZip()
+    zip.file('imsmanifest.xml', 'x'.repeat(2 * 1024 * 1024))
+    const content = await zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+
+    expect(content.length).toBeLessThan(50 * 1024)
+    await expect(parseQtiPackage(content, 'questions.zip')).rejects.toThrow('imsmanifest.xml is larger than')
+  })
+
+  it('reads a bare item from another tool', () => {
+    const xml = `<?xml version="1.0"?>
+      <assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="item-7" title="Ports">
+        <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+          <correctResponse><value>B</value></correctResponse>
+        </responseDeclaration>
+        <itemBody>
+          <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+            <prompt>Which port does <b>SSH</b> use?</prompt>
+            <simpleChoice identifier="A">21</simpleChoice>
+            <simpleChoice identifier="B">22</simpleChoice>
+          </choiceInteraction>
+        </itemBody>
+      </assessmentItem>`
+
+    const { question: parsed, errors } = parseQtiItem(xml, 1)
+
+    expect(errors).toEqual([])
+    expect(parsed).toMatchObject({
+      id: undefined,
+      text: 'Which port does SSH use?',
+      type: 'multiple_choice',
+      choices: [
+        { text: '21', isCorrect: false },
+        { text: '22', isCorrect: true },
+      ],
+    })
+  })
+
+  it('reports malformed XML and unsupported interactions', () => {
+    expect(parseQtiItem('<assessmentItem><itemBody></assessmentItem>', 1).errors[0]).toMatch(/Expected closing tag/)
+    expect(
+      parseQtiItem('<assessmentItem identifier="x"><itemBody><textEntryInteraction/></itemBody></assessmentItem>', 1).errors
+    ).toEqual(['Only choice interactions are supported'])
+  })
+})
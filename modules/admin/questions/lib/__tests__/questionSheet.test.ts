@@ -0,0 +1,172 @@
+import {
+  diffQuestionRows,
+  parseCorrectAnswer,
+  parseCsv,
+  parseQuestionRecord,
+  questionsToTable,
+  tableToRecords,
+  toCsv,
+} from '../questionSheet'
+import type { QuestionSheetRow } from '../../types/questionSheet.types'
+
+const question = (overrides: Partial<QuestionSheetRow> = {}): QuestionSheetRow => ({
+  id: 'ckq1',
+  certificationCode: 'SY0-701',
+  objectiveCode: '1.2',
+  bulletOrder: 3,
+  subBulletOrder: null,
+  type: 'multiple_choice',
+  difficulty: 'medium',
+  questionType: 'scenario',
+  taskId: 'task-1',
+  isActive: true,
+  status: 'published',
+  text: 'A user reports "odd" pop-ups,\nthen a slow laptop. What is the FIRST step?',
+  explanation: 'Isolate, then investigate.',
+  correctAnswer: '1',
+  choices: [
+    { text: 'Reimage the laptop', isCorrect: false, explanation: 'Too early, destroys evidence' },
+    { text: 'Disconnect it from the network', isCorrect: true },
+    { text: 'Run a full scan', isCorrect: false },
+    { text: 'Escalate to management', isCorrect: false },
+  ],
+  ...overrides,
+})
+
+function roundTrip(rows: QuestionSheetRow[]) {
+  const csv = toCsv(questionsToTable(rows))
+  return tableToRecords(parseCsv(csv)).map((record) => parseQuestionRecord(record.values))
+}
+
+describe('question spreadsheet format', () => {
+  it('round-trips questions through CSV without losing anything', () => {
+    const rows = [
+      question(),
+      question({
+        id: 'ckq2',
+        bulletOrder: 2,
+        subBulletOrder: 1,
+        type: 'multi_select',
+        questionType: null,
+        taskId: null,
+        isActive: false,
+        status: 'in_review',
+        correctAnswer: '0,4',
+        choices: [
+          { text: 'AES, 256-bit', isCorrect: true },
+          { text: 'DES', isCorrect: false },
+          { text: 'RC4', isCorrect: false },
+          { text: 'MD5', isCorrect: false },
+          { text: 'ChaCha20', isCorrect: true, explanation: 'Modern stream cipher' },
+        ],
+      }),
+    ]
+
+    const parsed = roundTrip(rows)
+
+    expect(parsed.map((p) => p.errors)).toEqual([[], []])
+    parsed.forEach((p, index) => {
+      expect(diffQuestionRows(rows[index], p.row)).toEqual([])
+    })
+    expect(parsed[1].row.choices).toHaveLength(5)
+    expect(parsed[0].row.text).toBe(rows[0].text)
+  })
+
+  it('parses quoted CSV with a BOM and CRLF line endings', () => {
+    expect(parseCsv('\uFEFFa,b\r\n"x, ""y""","line1\nline2"\r\n')).toEqual([
+      ['a', 'b'],
+      ['x, "y"', 'line1\nline2'],
+    ])
+  })
+
+  it('reports missing columns and skips blank rows', () => {
+    expect(() => tableToRecords([['text', 'type']])).toThrow(/objectiveCode/)
+
+    const [header, row] = questionsToTable([question()])
+    const records = tableToRecords([header, header.map(() => ''), row])
+    expect(records).toHaveLength(1)
+    expect(records[0].rowNumber).toBe(3)
+  })
+
+  describe('validation', () => {
+    const recordFor = (overrides: Partial<QuestionSheetRow>, extra: Record<string, string> = {}) => {
+      const [header, row] = questionsToTable([question(overrides)])
+      const values = Object.fromEntries(header.map((name, i) => [name, row[i]]))
+      return { ...values, ...extra }
+    }
+
+    it('derives correctAnswer when it is left blank', () => {
+      const { row, errors } = parseQuestionRecord(recordFor({ correctAnswer: '' }))
+      expect(errors).toEqual([])
+      expect(row.correctAnswer).toBe('1')
+    })
+
+    it('accepts letter answers that agree with the choices', () => {
+      expect(parseQuestionRecord(recordFor({ correctAnswer: 'B' })).errors).toEqual([])
+    })
+
+    it('rejects answers that disagree with the choices', () => {
+      expect(parseQuestionRecord(recordFor({ correctAnswer: '2' })).errors).toContain(
+        'correctAnswer does not match the choices marked correct'
+      )
+    })
+
+    it('requires exactly one correct choice for multiple choice', () => {
+      const { errors } = parseQuestionRecord(recordFor({ correctAnswer: '' }, { choice1Correct: 'TRUE' }))
+      expect(errors).toContain('multiple_choice questions must have exactly one correct choice')
+    })
+
+    it('rejects unknown types, bad positions and too few choices', () => {
+      const { errors } = parseQuestionRecord(
+        recordFor(
+          { type: 'essay', correctAnswer: '' },
+          { subBulletOrder: '0', choice2: '', choice2Correct: '', choice3: '', choice4: '', choice3Correct: '', choice4Correct: '' }
+        )
+      )
+      expect(errors).toEqual(
+        expect.arrayContaining([
+          expect.stringMatching(/^type must be one of/),
+          'subBulletOrder must be a whole number starting at 1',
+          'At least two choices are required',
+        ])
+      )
+    })
+
+    it('rejects unknown statuses and leaves a blank one to keep the current status', () => {
+      expect(parseQuestionRecord(recordFor({ status: 'live' })).errors).toEqual([
+        expect.stringMatching(/^status must be one of/),
+      ])
+
+      const { row, errors } = parseQuestionRecord(recordFor({ status: '' }))
+      expect(errors).toEqual([])
+      expect(diffQuestionRows(question(), row)).toEqual([])
+    })
+
+    it('does not require correct flags for ordering questions', () => {
+      const choices = question().choices.map((c) => ({ ...c, isCorrect: false }))
+      const { errors } = parseQuestionRecord(recordFor({ type: 'ordering', correctAnswer: '', choices }))
+      expect(errors).toEqual([])
+    })
+  })
+
+  it('reads index, letter and JSON correct answers', () => {
+    expect(parseCorrectAnswer('2,0', 4)).toEqual([0, 2])
+    expect(parseCorrectAnswer('a, C', 4)).toEqual([0, 2])
+    expect(parseCorrectAnswer('["B"]', 4)).toEqual([1])
+    expect(parseCorrectAnswer('7', 4)).toBeNull()
+    expect(parseCorrectAnswer('first', 4)).toBeNull()
+  })
+
+  it('describes changed fields in the diff', () => {
+    const changes = diffQuestionRows(
+      question(),
+      question({ bulletOrder: 1, difficulty: 'hard', choices: question().choices.slice(0, 3) })
+    )
+
+    expect(changes.map((c) => c.field)).toEqual(['location', 'difficulty', 'choices'])
+    expect(diffQuestionRows(question(), question({ status: 'retired' }))).toEqual([
+      { field: 'status', before: 'published', after: 'retired' },
+    ])
+    expect(changes[0]).toEqual({ field: 'location', before: '1.2 > bullet 3', after: '1.2 > bullet 1' })
+  })
+})
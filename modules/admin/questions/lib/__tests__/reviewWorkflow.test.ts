@@ -0,0 +1,48 @@
+import { availableReviewActions, transitionError } from '../reviewWorkflow'
+
+const author = { userId: 'author-1', permissions: ['questions.read', 'questions.edit'] }
+const reviewer = { userId: 'reviewer-1', permissions: ['questions.read', 'questions.review'] }
+const publisher = { userId: 'admin-1', permissions: ['questions.read', 'questions.edit', 'questions.publish'] }
+
+describe('question review workflow', () => {
+  it('needs a reviewer before a draft can be submitted', () => {
+    expect(transitionError('submit', { status: 'draft', reviewerIds: [] }, author)).toBe(
+      'Assign at least one reviewer before submitting for review'
+    )
+    expect(transitionError('submit', { status: 'draft', reviewerIds: ['reviewer-1'] }, author)).toBeNull()
+    expect(
+      transitionError('submit', { status: 'changes_requested', reviewerIds: ['reviewer-1'] }, author)
+    ).toBeNull()
+  })
+
+  it('lets only assigned reviewers approve or send a question back', () => {
+    const inReview = { status: 'in_review' as const, reviewerIds: ['reviewer-1'] }
+
+    expect(availableReviewActions(inReview, reviewer)).toEqual(['approve', 'request_changes'])
+    expect(
+      transitionError('approve', inReview, { ...reviewer, userId: 'reviewer-2' })
+    ).toBe('Only reviewers assigned to this question can do that')
+    expect(transitionError('approve', inReview, author)).toBe('Missing questions.review permission')
+  })
+
+  it('requires a note to request changes', () => {
+    const inReview = { status: 'in_review' as const, reviewerIds: ['reviewer-1'] }
+
+    expect(transitionError('request_changes', inReview, reviewer, '  ')).toBe(
+      'Explain the changes you need'
+    )
+    expect(transitionError('request_changes', inReview, reviewer, 'Option C is also correct')).toBeNull()
+  })
+
+  it('publishes only approved questions', () => {
+    expect(transitionError('publish', { status: 'in_review', reviewerIds: [] }, publisher)).toBe(
+      'Cannot publish a question that is in review'
+    )
+    expect(availableReviewActions({ status: 'approved', reviewerIds: [] }, publisher)).toEqual([
+      'publish',
+      'retire',
+    ])
+    expect(availableReviewActions({ status: 'published', reviewerIds: [] }, publisher)).toEqual(['retire'])
+    expect(availableReviewActions({ status: 'retired', reviewerIds: [] }, publisher)).toEqual(['reopen'])
+  })
+})
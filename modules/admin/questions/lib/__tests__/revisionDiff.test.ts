@@ -0,0 +1,68 @@
+import { contentChanged, diffRevisionContent, diffWords } from '../revisionDiff'
+import type { RevisionContent } from '../../types/questionRevision.types'
+
+const base: RevisionContent = {
+  text: 'Which port does HTTPS use?',
+  type: 'multiple_choice',
+  difficulty: 'easy',
+  choices: [
+    { text: '80', isCorrect: false },
+    { text: '443', isCorrect: true, explanation: 'TLS over TCP 443' },
+  ],
+  correctAnswer: '443',
+  explanation: 'HTTPS uses port 443.',
+  questionType: null,
+  objectiveId: 'obj-1',
+  bulletId: null,
+  subBulletId: null,
+}
+
+describe('revision diffing', () => {
+  it('marks the words that were removed and added', () => {
+    expect(diffWords('Which port does HTTPS use?', 'Which TCP port does HTTPS use by default?')).toEqual([
+      { kind: 'same', text: 'Which ' },
+      { kind: 'added', text: 'TCP ' },
+      { kind: 'same', text: 'port does HTTPS ' },
+      { kind: 'removed', text: 'use?' },
+      { kind: 'added', text: 'use by default?' },
+    ])
+    expect(diffWords('same', 'same')).toEqual([{ kind: 'same', text: 'same' }])
+    expect(diffWords('', 'new')).toEqual([{ kind: 'added', text: 'new' }])
+  })
+
+  it('ignores fields a revision does not record', () => {
+    const withExtras = { ...base, choices: base.choices.map((c) => ({ ...c, id: 'x' })) } as RevisionContent
+    expect(contentChanged(base, withExtras)).toBe(false)
+    expect(contentChanged(base, { ...base, difficulty: 'hard' })).toBe(true)
+  })
+
+  it('lists changed fields option by option', () => {
+    const after: RevisionContent = {
+      ...base,
+      choices: [
+        { text: '80', isCorrect: false },
+        { text: '443', isCorrect: true, explanation: 'TLS over TCP 443' },
+        { text: '8443', isCorrect: false },
+      ],
+      explanation: 'HTTPS uses port 443 by default.',
+      objectiveId: 'obj-2',
+    }
+
+    const diffs = diffRevisionContent(base, after)
+
+    expect(diffs.map((d) => d.label)).toEqual(['Option C', 'Option C correct', 'Explanation', 'Mapping'])
+    expect(diffs[0]).toMatchObject({ before: '', after: '8443' })
+    expect(diffs[3]).toMatchObject({ before: 'Objective obj-1', after: 'Objective obj-2' })
+  })
+
+  it('shows readable mapping labels when they are known', () => {
+    const diffs = diffRevisionContent(
+      { ...base, mappingLabel: '1.1 Networking' },
+      { ...base, objectiveId: 'obj-2', mappingLabel: '1.2 Security' }
+    )
+
+    expect(diffs).toEqual([
+      expect.objectContaining({ field: 'mapping', before: '1.1 Networking', after: '1.2 Security' }),
+    ])
+  })
+})
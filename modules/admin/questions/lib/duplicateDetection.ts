@@ -0,0 +1,81 @@
+// Admin Questions - Near-Duplicate Detection
+//
+// What gets embedded for a question and how embedded questions are compared:
+// ranking the bank against a new question, and pairing up near-identical
+// questions for the similar-questions report. The similarity measure is passed
+// in so this stays pure and testable.
+
+// Similarity at which a question is flagged as a likely duplicate
+export const DUPLICATE_SIMILARITY_THRESHOLD = 0.9;
+
+// Most pairs the report returns, highest similarity first
+export const MAX_REPORT_PAIRS = 200;
+
+export interface EmbeddedQuestion {
+  id: string;
+  embedding: number[];
+}
+
+export interface SimilarityMatch {
+  id: string;
+  similarity: number;
+}
+
+export interface SimilarityPair {
+  firstId: string;
+  secondId: string;
+  similarity: number;
+}
+
+type Similarity = (a: number[], b: number[]) => number;
+
+/**
+ * Text embedded for a question: the stem followed by its options. Other fields
+ * (explanations, difficulty, mapping) don't make two questions duplicates.
+ */
+export function questionEmbeddingText(question: {
+  text: string;
+  choices: { text: string }[];
+}): string {
+  const options = question.choices.map((choice) => choice.text.trim()).filter(Boolean);
+  return [question.text.trim(), ...options.map((option) => `- ${option}`)].join("\n");
+}
+
+/**
+ * Candidates at or above the threshold, most similar first
+ */
+export function rankSimilarQuestions(
+  target: number[],
+  candidates: EmbeddedQuestion[],
+  similarity: Similarity,
+  threshold = DUPLICATE_SIMILARITY_THRESHOLD,
+  limit = 5
+): SimilarityMatch[] {
+  return candidates
+    .map((candidate) => ({ id: candidate.id, similarity: similarity(target, candidate.embedding) }))
+    .filter((match) => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Every pair of questions at or above the threshold, most similar first
+ */
+export function pairSimilarQuestions(
+  questions: EmbeddedQuestion[],
+  similarity: Similarity,
+  threshold = DUPLICATE_SIMILARITY_THRESHOLD
+): SimilarityPair[] {
+  const pairs: SimilarityPair[] = [];
+
+  for (let i = 0; i < questions.length; i++) {
+    for (let j = i + 1; j < questions.length; j++) {
+      const score = similarity(questions[i].embedding, questions[j].embedding);
+      if (score >= threshold) {
+        pairs.push({ firstId: questions[i].id, secondId: questions[j].id, similarity: score });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
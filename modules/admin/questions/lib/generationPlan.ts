@@ -0,0 +1,81 @@
+// Admin Questions - Batch Generation Planning
+//
+// Turns a question task's per-objective gaps into one slot per question to
+// generate. Slots rotate through an objective's sub-bullets (or bullets that
+// have none) so a batch covers the outline instead of repeating one topic,
+// and question types alternate.
+
+import type { DraftQuestionType, GenerationSlot } from "../types/questionDraft.types";
+
+export interface PlanObjective {
+  objectiveId: string;
+  missingCount: number;
+  bullets: { id: string; subBullets: { id: string }[] }[];
+}
+
+// Two multiple choice questions for every multi-select one
+const TYPE_ROTATION: DraftQuestionType[] = ["multiple_choice", "multiple_choice", "multi_select"];
+
+/**
+ * The most specific targets under an objective: each sub-bullet, each bullet
+ * without sub-bullets, or the objective itself when it has no bullets
+ */
+export function objectiveTargets(objective: PlanObjective): Omit<GenerationSlot, "type">[] {
+  if (objective.bullets.length === 0) {
+    return [{ objectiveId: objective.objectiveId }];
+  }
+
+  return objective.bullets.flatMap((bullet) =>
+    bullet.subBullets.length === 0
+      ? [{ objectiveId: objective.objectiveId, bulletId: bullet.id }]
+      : bullet.subBullets.map((subBullet) => ({
+          objectiveId: objective.objectiveId,
+          bulletId: bullet.id,
+          subBulletId: subBullet.id,
+        }))
+  );
+}
+
+function targetKey(target: Omit<GenerationSlot, "type">): string {
+  return target.subBulletId ?? target.bulletId ?? target.objectiveId;
+}
+
+/**
+ * Plan up to `limit` slots across the objectives' gaps.
+ * `covered` counts existing questions and drafts per objective, bullet or
+ * sub-bullet ID; the least covered targets are used first. Objectives take
+ * turns, so a limited run still touches every gap.
+ */
+export function planGapGeneration(
+  objectives: PlanObjective[],
+  covered: Map<string, number> = new Map(),
+  limit: number = Infinity
+): GenerationSlot[] {
+  const queues = objectives
+    .filter((objective) => objective.missingCount > 0)
+    .map((objective) => ({
+      remaining: objective.missingCount,
+      next: 0,
+      targets: objectiveTargets(objective)
+        .map((target, index) => ({ target, index, count: covered.get(targetKey(target)) ?? 0 }))
+        // Stable: ties keep outline order
+        .sort((a, b) => a.count - b.count || a.index - b.index)
+        .map(({ target }) => target),
+    }));
+
+  const slots: GenerationSlot[] = [];
+  while (slots.length < limit && queues.some((queue) => queue.remaining > 0)) {
+    for (const queue of queues) {
+      if (queue.remaining === 0 || slots.length >= limit) continue;
+
+      slots.push({
+        ...queue.targets[queue.next % queue.targets.length],
+        type: TYPE_ROTATION[slots.length % TYPE_ROTATION.length],
+      });
+      queue.next++;
+      queue.remaining--;
+    }
+  }
+
+  return slots;
+}
@@ -0,0 +1,334 @@
+// Admin Questions - Moodle GIFT Format
+//
+// Converts questions to and from GIFT text. Single-answer questions use
+// "=" for the right answer, multiple-answer questions use "~%weight%" on
+// every choice. Choice explanations become per-answer feedback ("#") and
+// the question explanation becomes general feedback ("####").
+//
+// Hierarchy travels as "$CATEGORY: <certification>/<objective>" plus
+// "// key: value" comments that Moodle ignores.
+
+import type { QuestionOption, SerializedQuestionWithHierarchy } from "../types/question.types";
+import type {
+  InterchangeQuestion,
+  InterchangeSkippedQuestion,
+  ParsedInterchangeItem,
+} from "../types/questionInterchange.types";
+import {
+  importedQuestionType,
+  interchangeSkipReason,
+  isMultipleAnswerType,
+  isQuestionId,
+} from "./questionInterchange";
+
+// Objective codes look like "1.2" or "3.10"
+const OBJECTIVE_CODE_PATTERN = /^\d+(\.\d+)*$/;
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function escapeGift(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/[~=#{}:]/g, (char) => `\\${char}`)
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Comment values have to stay on one line
+function commentValue(value: string): string {
+  return value.replace(/\s*\r?\n\s*/g, " ").trim();
+}
+
+function formatWeight(weight: number): string {
+  return Number(weight.toFixed(5)).toString();
+}
+
+function answerLine(prefix: string, choice: QuestionOption): string {
+  const feedback = choice.explanation ? `#${escapeGift(choice.explanation)}` : "";
+  return `\t${prefix}${escapeGift(choice.text)}${feedback}`;
+}
+
+/**
+ * Serialize questions as GIFT. Types without a GIFT equivalent are skipped.
+ */
+export function toGift(questions: SerializedQuestionWithHierarchy[]): {
+  content: string;
+  count: number;
+  skipped: InterchangeSkippedQuestion[];
+} {
+  const blocks: string[] = [];
+  const skipped: InterchangeSkippedQuestion[] = [];
+  let category: string | null = null;
+  let count = 0;
+
+  for (const question of questions) {
+    const reason = interchangeSkipReason(question);
+    if (reason) {
+      skipped.push({ id: question.id, reason });
+      continue;
+    }
+
+    const questionCategory = [question.certificationCode, question.objectiveCode]
+      .filter(Boolean)
+      .join("/");
+    if (questionCategory && questionCategory !== category) {
+      blocks.push(`$CATEGORY: ${questionCategory}`);
+      category = questionCategory;
+    }
+
+    const lines: string[] = [];
+    const metadata: [string, string | undefined][] = [
+      ["difficulty", question.difficulty],
+      ["type", question.type],
+      ["questionType", question.questionType],
+      ["bullet", question.bulletText],
+      ["subBullet", question.subBulletText],
+    ];
+    for (const [key, value] of metadata) {
+      if (value) lines.push(`// ${key}: ${commentValue(value)}`);
+    }
+
+    lines.push(`::${escapeGift(question.id)}::${escapeGift(question.text)}{`);
+
+    if (isMultipleAnswerType(question.type)) {
+      const correctCount = question.choices.filter((choice) => choice.isCorrect).length;
+      for (const choice of question.choices) {
+        const weight = choice.isCorrect ? formatWeight(100 / correctCount) : "-100";
+        lines.push(answerLine(`~%${weight}%`, choice));
+      }
+    } else {
+      for (const choice of question.choices) {
+        lines.push(answerLine(choice.isCorrect ? "=" : "~", choice));
+      }
+    }
+
+    if (question.explanation) {
+      lines.push(`\t####${escapeGift(question.explanation)}`);
+    }
+    lines.push("}");
+
+    blocks.push(lines.join("\n"));
+    count++;
+  }
+
+  return { content: blocks.join("\n\n") + "\n", count, skipped };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function unescapeGift(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => (char === "n" ? "\n" : char)).trim();
+}
+
+// Index of the first unescaped occurrence of token at or after from, or -1
+function indexOfUnescaped(source: string, token: string, from = 0): number {
+  for (let i = from; i < source.length; i++) {
+    if (source[i] === "\\") {
+      i++;
+      continue;
+    }
+    if (source.startsWith(token, i)) return i;
+  }
+  return -1;
+}
+
+function splitUnescaped(source: string, token: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  let index = indexOfUnescaped(source, token);
+  while (index >= 0) {
+    parts.push(source.slice(start, index));
+    start = index + token.length;
+    index = indexOfUnescaped(source, token, start);
+  }
+  parts.push(source.slice(start));
+  return parts;
+}
+
+interface GiftAnswer {
+  prefix: "=" | "~";
+  weight: number | null;
+  text: string;
+  feedback: string;
+}
+
+// Split an answer block into "=" / "~" answers
+function tokenizeAnswers(block: string): GiftAnswer[] {
+  const answers: GiftAnswer[] = [];
+  let current: { prefix: "=" | "~"; body: string } | null = null;
+
+  for (let i = 0; i < block.length; i++) {
+    const char = block[i];
+    if (char === "\\") {
+      if (current) current.body += block.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (char === "=" || char === "~") {
+      if (current) answers.push(toAnswer(current.prefix, current.body));
+      current = { prefix: char, body: "" };
+      continue;
+    }
+    if (current) current.body += char;
+  }
+  if (current) answers.push(toAnswer(current.prefix, current.body));
+
+  return answers;
+}
+
+function toAnswer(prefix: "=" | "~", body: string): GiftAnswer {
+  let rest = body.trim();
+  let weight: number | null = null;
+  const weightMatch = rest.match(/^%(-?\d+(?:\.\d+)?)%/);
+  if (weightMatch) {
+    weight = Number(weightMatch[1]);
+    rest = rest.slice(weightMatch[0].length);
+  }
+  const [text, ...feedback] = splitUnescaped(rest, "#");
+  return {
+    prefix,
+    weight,
+    text: unescapeGift(text ?? ""),
+    feedback: unescapeGift(feedback.join("#")),
+  };
+}
+
+interface BlockMetadata {
+  [key: string]: string;
+}
+
+function parseQuestionSource(
+  source: string,
+  metadata: BlockMetadata,
+  category: { certificationCode?: string; objectiveCode?: string }
+): { question: InterchangeQuestion; errors: string[] } {
+  const errors: string[] = [];
+  let rest = source.trim();
+
+  let title: string | undefined;
+  if (rest.startsWith("::")) {
+    const end = indexOfUnescaped(rest, "::", 2);
+    if (end >= 0) {
+      title = unescapeGift(rest.slice(2, end));
+      rest = rest.slice(end + 2).trim();
+    }
+  }
+  rest = rest.replace(/^\[(html|moodle|plain|markdown)\]/i, "");
+
+  const open = indexOfUnescaped(rest, "{");
+  const close = open >= 0 ? indexOfUnescaped(rest, "}", open + 1) : -1;
+  const before = unescapeGift(open >= 0 ? rest.slice(0, open) : rest);
+  const after = close >= 0 ? unescapeGift(rest.slice(close + 1)) : "";
+
+  const question: InterchangeQuestion = {
+    id: isQuestionId(title) ? title : undefined,
+    // Missing-word questions keep a blank where the answers were
+    text: after ? `${before} _____ ${after}` : before,
+    type: "multiple_choice",
+    difficulty: metadata.difficulty || "medium",
+    choices: [],
+    correctAnswer: "",
+    explanation: "",
+    questionType: metadata.questionType || undefined,
+    certificationCode: category.certificationCode,
+    objectiveCode: category.objectiveCode,
+    bulletText: metadata.bullet || undefined,
+    subBulletText: metadata.subBullet || undefined,
+  };
+
+  if (open < 0 || close < 0) {
+    errors.push("No answer block found ({...})");
+    return { question, errors };
+  }
+
+  const [answerBlock, ...general] = splitUnescaped(rest.slice(open + 1, close), "####");
+  question.explanation = unescapeGift(general.join("####"));
+  const trimmedBlock = answerBlock.trim();
+
+  const trueFalse = trimmedBlock.match(/^(T|TRUE|F|FALSE)(#|$)/i);
+  if (trueFalse) {
+    const answer = trueFalse[1].toUpperCase().startsWith("T");
+    question.choices = [
+      { text: "True", isCorrect: answer },
+      { text: "False", isCorrect: !answer },
+    ];
+    return { question, errors };
+  }
+
+  if (!trimmedBlock) {
+    errors.push("Essay questions are not supported");
+    return { question, errors };
+  }
+  if (trimmedBlock.startsWith("#")) {
+    errors.push("Numerical questions are not supported");
+    return { question, errors };
+  }
+
+  const answers = tokenizeAnswers(trimmedBlock);
+  if (answers.some((answer) => indexOfUnescaped(answer.text, "->") >= 0)) {
+    errors.push("Matching questions are not supported");
+    return { question, errors };
+  }
+  if (!answers.some((answer) => answer.prefix === "~")) {
+    errors.push("Short answer questions are not supported");
+    return { question, errors };
+  }
+
+  // Weighted "~" answers mean more than one choice can be picked
+  const multiple = answers.some(
+    (answer) => answer.prefix === "~" && answer.weight !== null && answer.weight > 0
+  );
+  question.type = importedQuestionType(multiple, metadata.type);
+  question.choices = answers.map((answer) => ({
+    text: answer.text,
+    isCorrect:
+      answer.prefix === "=" || (answer.weight !== null && answer.weight > 0),
+    ...(answer.feedback && { explanation: answer.feedback }),
+  }));
+
+  return { question, errors };
+}
+
+/**
+ * Parse GIFT text into questions. Blocks are separated by blank lines; each
+ * item is numbered in file order, including ones that fail to parse.
+ */
+export function parseGift(input: string): ParsedInterchangeItem[] {
+  const text = (input.charCodeAt(0) === 0xfeff ? input.slice(1) : input).replace(/\r\n?/g, "\n");
+  const items: ParsedInterchangeItem[] = [];
+  let category: { certificationCode?: string; objectiveCode?: string } = {};
+
+  for (const block of text.split(/\n[ \t]*\n/)) {
+    const metadata: BlockMetadata = {};
+    const sourceLines: string[] = [];
+
+    for (const line of block.split("\n")) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith("//")) {
+        const match = trimmed.match(/^\/\/\s*(\w+):\s*(.*)$/);
+        if (match) metadata[match[1]] = match[2].trim();
+      } else if (trimmed.toUpperCase().startsWith("$CATEGORY:")) {
+        const segments = trimmed.slice("$CATEGORY:".length).trim().split("/");
+        const last = segments[segments.length - 1]?.trim() ?? "";
+        category = OBJECTIVE_CODE_PATTERN.test(last)
+          ? { certificationCode: segments[segments.length - 2]?.trim() || undefined, objectiveCode: last }
+          : {};
+      } else {
+        sourceLines.push(line);
+      }
+    }
+
+    const source = sourceLines.join("\n").trim();
+    if (!source) continue;
+
+    items.push({
+      itemNumber: items.length + 1,
+      ...parseQuestionSource(source, metadata, category),
+    });
+  }
+
+  return items;
+}
@@ -0,0 +1,532 @@
+// Admin Questions - IMS QTI 2.1 Format
+//
+// Converts questions to and from QTI 2.1 content packages (a zip with an
+// imsmanifest.xml and one assessmentItem per question). Questions map to a
+// choiceInteraction with single or multiple cardinality; choice explanations
+// become feedbackInline and the question explanation a modalFeedback.
+//
+// Hierarchy, difficulty and our own type travel as LOM metadata on each
+// manifest resource.
+
+import JSZip from "jszip";
+import { XMLParser, XMLValidator } from "fast-xml-parser";
+import type { QuestionOption, SerializedQuestionWithHierarchy } from "../types/question.types";
+import type {
+  InterchangeQuestion,
+  InterchangeSkippedQuestion,
+  ParsedInterchangeItem,
+} from "../types/questionInterchange.types";
+import {
+  importedQuestionType,
+  interchangeSkipReason,
+  isMultipleAnswerType,
+  isQuestionId,
+} from "./questionInterchange";
+
+const QTI_NAMESPACE = "http://www.imsglobal.org/xsd/imsqti_v2p1";
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const QTI_ITEM_RESOURCE_TYPE = "imsqti_item_xmlv2p1";
+const MANIFEST_FILE = "imsmanifest.xml";
+
+// Limits applied while unpacking, since the upload size only bounds the
+// compressed bytes
+const MAX_PACKAGE_ENTRIES = 2000;
+const MAX_ENTRY_BYTES = 1024 * 1024;
+const MAX_PACKAGE_BYTES = 20 * 1024 * 1024;
+
+// LOM difficulty vocabulary <-> our difficulty
+const LOM_DIFFICULTY: Record<string, string> = { easy: "easy", medium: "medium", hard: "difficult" };
+const DIFFICULTY_FROM_LOM: Record<string, string> = {
+  "very easy": "easy",
+  easy: "easy",
+  medium: "medium",
+  difficult: "hard",
+  "very difficult": "hard",
+};
+
+// Metadata carried as LOM keywords ("objective:1.2")
+const KEYWORD_FIELDS = ["certification", "objective", "bullet", "subBullet", "type", "questionType"];
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// Inline content: line breaks become <br/>
+function inlineXml(value: string): string {
+  return value.split("\n").map(escapeXml).join("<br/>");
+}
+
+// Flow content: blank-line separated paragraphs
+function paragraphsXml(value: string): string {
+  return value
+    .split(/\n{2,}/)
+    .filter((paragraph) => paragraph.trim())
+    .map((paragraph) => `<p>${inlineXml(paragraph)}</p>`)
+    .join("");
+}
+
+function choiceIdentifier(index: number): string {
+  return index < 26 ? String.fromCharCode(65 + index) : `CHOICE_${index + 1}`;
+}
+
+function simpleChoiceXml(choice: QuestionOption, identifier: string): string {
+  const feedback = choice.explanation
+    ? `<feedbackInline outcomeIdentifier="FEEDBACK" identifier="${identifier}" showHide="show">${inlineXml(choice.explanation)}</feedbackInline>`
+    : "";
+  return `<simpleChoice identifier="${identifier}">${inlineXml(choice.text)}${feedback}</simpleChoice>`;
+}
+
+/**
+ * One question as a QTI 2.1 assessmentItem document
+ */
+export function toQtiItem(question: SerializedQuestionWithHierarchy): string {
+  const multiple = isMultipleAnswerType(question.type);
+  const identifiers = question.choices.map((_, index) => choiceIdentifier(index));
+  const correct = identifiers.filter((_, index) => question.choices[index].isCorrect);
+  const title = question.text.replace(/\s+/g, " ").trim().slice(0, 80);
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}" identifier="${escapeXml(question.id)}" title="${escapeXml(title)}" adaptive="false" timeDependent="false" toolName="CertistryLMS">`,
+    `  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? "multiple" : "single"}" baseType="identifier">`,
+    `    <correctResponse>${correct.map((id) => `<value>${id}</value>`).join("")}</correctResponse>`,
+    `  </responseDeclaration>`,
+    `  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>`,
+    `  <outcomeDeclaration identifier="FEEDBACK" cardinality="multiple" baseType="identifier"/>`,
+    `  <outcomeDeclaration identifier="MODAL_FEEDBACK" cardinality="single" baseType="identifier"/>`,
+    `  <itemBody>`,
+    `    ${paragraphsXml(question.text)}`,
+    `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">`,
+    ...question.choices.map((choice, index) => `      ${simpleChoiceXml(choice, identifiers[index])}`),
+    `    </choiceInteraction>`,
+    `  </itemBody>`,
+    // Score the response, show feedback for every chosen choice and the
+    // general explanation afterwards
+    `  <responseProcessing>`,
+    `    <responseCondition>`,
+    `      <responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match><setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue></responseIf>`,
+    `      <responseElse><setOutcomeValue identifier="SCORE"><baseValue baseType="float">0</baseValue></setOutcomeValue></responseElse>`,
+    `    </responseCondition>`,
+    `    <setOutcomeValue identifier="FEEDBACK"><multiple><variable identifier="RESPONSE"/></multiple></setOutcomeValue>`,
+    `    <setOutcomeValue identifier="MODAL_FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>`,
+    `  </responseProcessing>`,
+    ...(question.explanation
+      ? [
+          `  <modalFeedback outcomeIdentifier="MODAL_FEEDBACK" identifier="EXPLANATION" showHide="show">${paragraphsXml(question.explanation)}</modalFeedback>`,
+        ]
+      : []),
+    `</assessmentItem>`,
+    "",
+  ].join("\n");
+}
+
+function resourceMetadataXml(question: SerializedQuestionWithHierarchy): string {
+  const keywords: [string, string | undefined][] = [
+    ["certification", question.certificationCode],
+    ["objective", question.objectiveCode],
+    ["bullet", question.bulletText],
+    ["subBullet", question.subBulletText],
+    ["type", question.type],
+    ["questionType", question.questionType],
+  ];
+  const keywordXml = keywords
+    .filter(([, value]) => value)
+    .map(
+      ([key, value]) =>
+        `<imsmd:keyword><imsmd:string>${escapeXml(`${key}:${value!.replace(/\s+/g, " ").trim()}`)}</imsmd:string></imsmd:keyword>`
+    )
+    .join("");
+  const difficulty = LOM_DIFFICULTY[question.difficulty];
+
+  return [
+    `<metadata><imsmd:lom>`,
+    `<imsmd:general>${keywordXml}</imsmd:general>`,
+    difficulty
+      ? `<imsmd:educational><imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${difficulty}</imsmd:value></imsmd:difficulty></imsmd:educational>`
+      : "",
+    `</imsmd:lom></metadata>`,
+  ].join("");
+}
+
+/**
+ * Zip questions into a QTI 2.1 content package. Types without a QTI
+ * equivalent are skipped.
+ */
+export async function toQtiPackage(questions: SerializedQuestionWithHierarchy[]): Promise<{
+  content: Uint8Array;
+  count: number;
+  skipped: InterchangeSkippedQuestion[];
+}> {
+  const zip = new JSZip();
+  const resources: string[] = [];
+  const skipped: InterchangeSkippedQuestion[] = [];
+
+  for (const question of questions) {
+    const reason = interchangeSkipReason(question);
+    if (reason) {
+      skipped.push({ id: question.id, reason });
+      continue;
+    }
+
+    const href = `items/${question.id}.xml`;
+    zip.file(href, toQtiItem(question));
+    resources.push(
+      `    <resource identifier="RES-${escapeXml(question.id)}" type="${QTI_ITEM_RESOURCE_TYPE}" href="${escapeXml(href)}">${resourceMetadataXml(question)}<file href="${escapeXml(href)}"/></resource>`
+    );
+  }
+
+  zip.file(
+    MANIFEST_FILE,
+    [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="MANIFEST-${Date.now()}">`,
+      `  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>`,
+      `  <organizations/>`,
+      `  <resources>`,
+      ...resources,
+      `  </resources>`,
+      `</manifest>`,
+      "",
+    ].join("\n")
+  );
+
+  const content = await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+  return { content, count: resources.length, skipped };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+type XmlNode = Record<string, unknown>;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  preserveOrder: true,
+  removeNSPrefix: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  htmlEntities: true,
+});
+
+const BLOCK_TAGS = new Set([
+  "p", "div", "blockquote", "pre", "ul", "ol", "li", "table", "tr",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+]);
+
+// Marks block boundaries while collecting text
+const BLOCK_BREAK = "\u0000";
+
+function parseXml(xml: string, fileName: string): XmlNode[] {
+  const validation = XMLValidator.validate(xml);
+  if (validation !== true) {
+    throw new Error(`${fileName}: ${validation.err.msg} (line ${validation.err.line})`);
+  }
+  return parser.parse(xml) as XmlNode[];
+}
+
+function tagName(node: XmlNode): string {
+  return Object.keys(node).find((key) => key !== ":@") ?? "";
+}
+
+function childNodes(node: XmlNode): XmlNode[] {
+  const value = node[tagName(node)];
+  return Array.isArray(value) ? (value as XmlNode[]) : [];
+}
+
+function attribute(node: XmlNode, name: string): string | undefined {
+  return (node[":@"] as Record<string, string> | undefined)?.[`@_${name}`];
+}
+
+function findAll(nodes: XmlNode[], name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const node of nodes) {
+    if (tagName(node) === name) found.push(node);
+    else found.push(...findAll(childNodes(node), name));
+  }
+  return found;
+}
+
+function findFirst(nodes: XmlNode[], name: string): XmlNode | undefined {
+  return findAll(nodes, name)[0];
+}
+
+function collectText(nodes: XmlNode[], skip: Set<string>): string {
+  let text = "";
+  for (const node of nodes) {
+    const tag = tagName(node);
+    if (tag === "#text") {
+      // HTML whitespace rules: runs of whitespace render as one space
+      text += String(node["#text"]).replace(/\s+/g, " ");
+    } else if (skip.has(tag)) {
+      continue;
+    } else if (tag === "br") {
+      text += "\n";
+    } else if (BLOCK_TAGS.has(tag)) {
+      text += BLOCK_BREAK + collectText(childNodes(node), skip) + BLOCK_BREAK;
+    } else {
+      text += collectText(childNodes(node), skip);
+    }
+  }
+  return text;
+}
+
+// Visible text of some XML content, with paragraphs separated by blank lines
+function textContent(nodes: XmlNode[], skip: string[] = []): string {
+  return collectText(nodes, new Set(skip))
+    .split(BLOCK_BREAK)
+    .map((block) => block.replace(/ *\n */g, "\n").trim())
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+interface ItemMetadata {
+  keywords: Record<string, string>;
+  difficulty?: string;
+}
+
+function readResourceMetadata(resource: XmlNode): ItemMetadata {
+  const keywords: Record<string, string> = {};
+  for (const keyword of findAll(childNodes(resource), "keyword")) {
+    const value = textContent(childNodes(keyword));
+    const separator = value.indexOf(":");
+    if (separator < 0) continue;
+    const key = value.slice(0, separator);
+    if (KEYWORD_FIELDS.includes(key)) keywords[key] = value.slice(separator + 1).trim();
+  }
+
+  const difficulty = findFirst(childNodes(resource), "difficulty");
+  const difficultyValue = difficulty ? findFirst(childNodes(difficulty), "value") : undefined;
+  return {
+    keywords,
+    difficulty: difficultyValue
+      ? DIFFICULTY_FROM_LOM[textContent(childNodes(difficultyValue)).toLowerCase()]
+      : undefined,
+  };
+}
+
+/**
+ * Parse one assessmentItem document
+ */
+export function parseQtiItem(
+  xml: string,
+  itemNumber: number,
+  metadata: ItemMetadata = { keywords: {} },
+  fileName = "item"
+): ParsedInterchangeItem {
+  const errors: string[] = [];
+  let nodes: XmlNode[] = [];
+  try {
+    nodes = parseXml(xml, fileName);
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : `${fileName} could not be read`);
+  }
+  const item = findFirst(nodes, "assessmentItem");
+  const identifier = item ? attribute(item, "identifier") : undefined;
+  const { keywords } = metadata;
+
+  const question: InterchangeQuestion = {
+    id: isQuestionId(identifier) ? identifier : undefined,
+    text: "",
+    type: "multiple_choice",
+    difficulty: metadata.difficulty ?? "medium",
+    choices: [],
+    correctAnswer: "",
+    explanation: "",
+    questionType: keywords.questionType || undefined,
+    certificationCode: keywords.certification || undefined,
+    objectiveCode: keywords.objective || undefined,
+    bulletText: keywords.bullet || undefined,
+    subBulletText: keywords.subBullet || undefined,
+  };
+
+  if (!item) {
+    if (errors.length === 0) errors.push(`${fileName} is not a QTI assessmentItem`);
+    return { itemNumber, question, errors };
+  }
+
+  const itemBody = findFirst(childNodes(item), "itemBody");
+  const interaction = itemBody ? findFirst(childNodes(itemBody), "choiceInteraction") : undefined;
+  const prompt = interaction ? findFirst(childNodes(interaction), "prompt") : undefined;
+  question.text = [
+    itemBody ? textContent(childNodes(itemBody), ["choiceInteraction"]) : "",
+    prompt ? textContent(childNodes(prompt)) : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  question.explanation = findAll(childNodes(item), "modalFeedback")
+    .map((feedback) => textContent(childNodes(feedback)))
+    .filter(Boolean)
+    .join("\n\n");
+
+  if (!interaction) {
+    errors.push("Only choice interactions are supported");
+    return { itemNumber, question, errors };
+  }
+
+  const responseIdentifier = attribute(interaction, "responseIdentifier");
+  const declaration = findAll(childNodes(item), "responseDeclaration").find(
+    (node) => attribute(node, "identifier") === responseIdentifier
+  );
+  const correct = new Set<string>();
+  if (declaration) {
+    const correctResponse = findFirst(childNodes(declaration), "correctResponse");
+    for (const value of correctResponse ? findAll(childNodes(correctResponse), "value") : []) {
+      correct.add(textContent(childNodes(value)));
+    }
+    // Some tools only score through a mapping
+    if (correct.size === 0) {
+      for (const entry of findAll(childNodes(declaration), "mapEntry")) {
+        const key = attribute(entry, "mapKey");
+        if (key && Number(attribute(entry, "mappedValue")) > 0) correct.add(key);
+      }
+    }
+  }
+
+  question.choices = findAll(childNodes(interaction), "simpleChoice").map((choice) => {
+    const id = attribute(choice, "identifier") ?? "";
+    const feedback = findAll(childNodes(choice), "feedbackInline")
+      .map((node) => textContent(childNodes(node)))
+      .filter(Boolean)
+      .join("\n");
+    return {
+      text: textContent(childNodes(choice), ["feedbackInline", "feedbackBlock"]),
+      isCorrect: correct.has(id),
+      ...(feedback && { explanation: feedback }),
+    };
+  });
+
+  const multiple = declaration
+    ? attribute(declaration, "cardinality") === "multiple"
+    : attribute(interaction, "maxChoices") !== "1";
+  question.type = importedQuestionType(multiple, keywords.type);
+
+  return { itemNumber, question, errors };
+}
+
+function isZip(data: Uint8Array): boolean {
+  return data[0] === 0x50 && data[1] === 0x4b; // "PK"
+}
+
+/**
+ * Parse a QTI 2.1 content package, or a single assessmentItem XML file
+ */
+// Size recorded in the zip's central directory; JSZip keeps it on the entry
+// but does not expose it in its typings
+function declaredEntrySize(file: JSZip.JSZipObject): number | undefined {
+  const size = (file as unknown as { _data?: { uncompressedSize?: number } })._data
+    ?.uncompressedSize;
+  return typeof size === "number" ? size : undefined;
+}
+
+// Reads an entry as UTF-8, refusing it before inflating when the declared
+// size is too large and aborting the stream if the actual output outgrows it
+function readEntryText(
+  file: JSZip.JSZipObject,
+  budget: { remainingBytes: number }
+): Promise<string> {
+  const limit = Math.min(MAX_ENTRY_BYTES, budget.remainingBytes);
+  const tooLarge = () =>
+    new Error(
+      budget.remainingBytes < MAX_ENTRY_BYTES
+        ? `The package is larger than ${MAX_PACKAGE_BYTES / (1024 * 1024)} MB uncompressed`
+        : `${file.name} is larger than ${MAX_ENTRY_BYTES / 1024} KB uncompressed`
+    );
+
+  const declared = declaredEntrySize(file);
+  if (declared !== undefined && declared > limit) {
+    return Promise.reject(tooLarge());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const stream = file.nodeStream("nodebuffer");
+    stream.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        stream.removeAllListeners("data");
+        stream.pause();
+        reject(tooLarge());
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("error", reject);
+    stream.on("end", () => {
+      budget.remainingBytes -= size;
+      resolve(Buffer.concat(chunks).toString("utf8"));
+    });
+  });
+}
+
+export async function parseQtiPackage(
+  data: Uint8Array,
+  fileName: string
+): Promise<ParsedInterchangeItem[]> {
+  if (!isZip(data)) {
+    return [parseQtiItem(new TextDecoder().decode(data), 1, undefined, fileName)];
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const entryCount = Object.keys(zip.files).length;
+  if (entryCount > MAX_PACKAGE_ENTRIES) {
+    throw new Error(
+      `The package has ${entryCount} entries; at most ${MAX_PACKAGE_ENTRIES} are supported`
+    );
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error(`The package has no ${MANIFEST_FILE}`);
+  }
+
+  const budget = { remainingBytes: MAX_PACKAGE_BYTES };
+  const manifest = parseXml(await readEntryText(manifestFile, budget), MANIFEST_FILE);
+  const resources = findAll(manifest, "resource").filter((resource) =>
+    (attribute(resource, "type") ?? "").startsWith("imsqti_item_xmlv2p")
+  );
+
+  const items: ParsedInterchangeItem[] = [];
+  for (const resource of resources) {
+    const itemNumber = items.length + 1;
+    const href = attribute(resource, "href") ?? "";
+    const itemFile = zip.file(decodeURIComponent(href));
+    if (!itemFile) {
+      items.push({
+        itemNumber,
+        question: {
+          text: "",
+          type: "multiple_choice",
+          difficulty: "medium",
+          choices: [],
+          correctAnswer: "",
+          explanation: "",
+        },
+        errors: [`${href || "Resource"} is missing from the package`],
+      });
+      continue;
+    }
+    items.push(
+      parseQtiItem(
+        await readEntryText(itemFile, budget),
+        itemNumber,
+        readResourceMetadata(resource),
+        href
+      )
+    );
+  }
+
+  return items;
+}
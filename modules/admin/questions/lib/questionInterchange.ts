@@ -0,0 +1,51 @@
+// Admin Questions - Interchange Helpers
+//
+// Rules shared by the QTI and GIFT converters: which question types they
+// can carry and how an imported item's answer shape maps back to a type.
+
+import type { InterchangeQuestion } from "../types/questionInterchange.types";
+
+const SINGLE_ANSWER_TYPES = new Set(["multiple_choice", "scenario"]);
+const MULTIPLE_ANSWER_TYPES = new Set(["multi_select", "multiple_select"]);
+
+export function isMultipleAnswerType(type: string): boolean {
+  return MULTIPLE_ANSWER_TYPES.has(type);
+}
+
+/**
+ * Why a question can't be exported as QTI/GIFT, or null when it can.
+ * Only choice questions graded by correct flags have an equivalent.
+ */
+export function interchangeSkipReason(question: InterchangeQuestion): string | null {
+  if (!SINGLE_ANSWER_TYPES.has(question.type) && !MULTIPLE_ANSWER_TYPES.has(question.type)) {
+    return `${question.type} questions have no QTI/GIFT equivalent`;
+  }
+  if (question.choices.length < 2) {
+    return "Question has fewer than two choices";
+  }
+  return null;
+}
+
+/**
+ * Question type for an imported item. A declared type is kept when it agrees
+ * with the answer shape, so "scenario" and "multiple_select" survive a round
+ * trip; otherwise single answers become multiple_choice and multiple answers
+ * multi_select.
+ */
+export function importedQuestionType(multipleAnswers: boolean, declaredType?: string): string {
+  if (declaredType) {
+    const declaredMultiple = MULTIPLE_ANSWER_TYPES.has(declaredType);
+    if (
+      (SINGLE_ANSWER_TYPES.has(declaredType) || declaredMultiple) &&
+      declaredMultiple === multipleAnswers
+    ) {
+      return declaredType;
+    }
+  }
+  return multipleAnswers ? "multi_select" : "multiple_choice";
+}
+
+// Our question IDs are cuids; anything else is a foreign identifier
+export function isQuestionId(identifier: string | undefined): identifier is string {
+  return !!identifier && /^c[a-z0-9]{20,}$/.test(identifier);
+}
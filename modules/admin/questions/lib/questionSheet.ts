@@ -0,0 +1,452 @@
+// Admin Questions - Spreadsheet Format
+//
+// Converts questions to and from the flat row format used by CSV/Excel
+// import and export.
+
+import type { QuestionOption } from "../types/question.types";
+import { QUESTION_STATUSES } from "../types/questionReview.types";
+import type { QuestionFieldChange, QuestionSheetRow } from "../types/questionSheet.types";
+
+export const QUESTION_SHEET_COLUMNS = [
+  "id",
+  "certificationCode",
+  "objectiveCode",
+  "bulletOrder",
+  "subBulletOrder",
+  "type",
+  "difficulty",
+  "questionType",
+  "taskId",
+  "isActive",
+  "status",
+  "text",
+  "explanation",
+  "correctAnswer",
+] as const;
+
+const REQUIRED_COLUMNS = ["objectiveCode", "type", "text", "choice1", "choice1Correct"];
+
+// Exported files always have room for at least this many choices
+export const MIN_CHOICE_COLUMNS = 4;
+
+export const QUESTION_TYPES = [
+  "multiple_choice",
+  "multi_select",
+  "multiple_select",
+  "ordering",
+  "categorization",
+  "scenario",
+] as const;
+
+export const QUESTION_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+
+// Types whose answer comes from the order or grouping of the choices rather
+// than correct flags
+const UNGRADED_CHOICE_TYPES = new Set(["ordering", "categorization"]);
+const SINGLE_ANSWER_TYPES = new Set(["multiple_choice", "scenario"]);
+
+export function choiceColumns(index: number): [string, string, string] {
+  return [`choice${index}`, `choice${index}Correct`, `choice${index}Explanation`];
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, embedded commas/quotes/newlines, CRLF)
+ */
+export function parseCsv(input: string): string[][] {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Serialize rows as CSV, quoting only where needed
+ */
+export function toCsv(rows: string[][]): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value))
+        .join(",")
+    )
+    .join("\r\n");
+}
+
+// ============================================================================
+// TABLE <-> ROWS
+// ============================================================================
+
+/**
+ * Header row plus one row per question
+ */
+export function questionsToTable(questions: QuestionSheetRow[]): string[][] {
+  const choiceCount = Math.max(MIN_CHOICE_COLUMNS, ...questions.map((q) => q.choices.length));
+  const header: string[] = [...QUESTION_SHEET_COLUMNS];
+  for (let i = 1; i <= choiceCount; i++) {
+    header.push(...choiceColumns(i));
+  }
+
+  const body = questions.map((q) => {
+    const values = [
+      q.id,
+      q.certificationCode,
+      q.objectiveCode,
+      q.bulletOrder?.toString() ?? "",
+      q.subBulletOrder?.toString() ?? "",
+      q.type,
+      q.difficulty,
+      q.questionType ?? "",
+      q.taskId ?? "",
+      q.isActive ? "TRUE" : "FALSE",
+      q.status,
+      q.text,
+      q.explanation,
+      q.correctAnswer,
+    ];
+    for (let i = 0; i < choiceCount; i++) {
+      const choice = q.choices[i];
+      values.push(
+        choice?.text ?? "",
+        choice ? (choice.isCorrect ? "TRUE" : "FALSE") : "",
+        choice?.explanation ?? ""
+      );
+    }
+    return values;
+  });
+
+  return [header, ...body];
+}
+
+export interface SheetRecord {
+  rowNumber: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Map a table to header-keyed records, skipping blank rows.
+ * Throws if required columns are missing.
+ */
+export function tableToRecords(table: string[][]): SheetRecord[] {
+  const [header, ...rows] = table;
+  if (!header) {
+    throw new Error("The file is empty");
+  }
+
+  const columns = header.map((name) => name.trim());
+  const missing = REQUIRED_COLUMNS.filter((name) => !columns.includes(name));
+  if (missing.length > 0) {
+    throw new Error(`Missing required column(s): ${missing.join(", ")}`);
+  }
+
+  const records: SheetRecord[] = [];
+  rows.forEach((row, index) => {
+    if (row.every((value) => value.trim() === "")) return;
+
+    const values: Record<string, string> = {};
+    columns.forEach((name, col) => {
+      if (name) values[name] = row[col] ?? "";
+    });
+    records.push({ rowNumber: index + 2, values });
+  });
+
+  return records;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "yes", "y", "1"].includes(normalized)) return true;
+  if (["false", "no", "n", "0"].includes(normalized)) return false;
+  return null;
+}
+
+function parsePosition(value: string, column: string, errors: string[]): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const parsed = Number(trimmed);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    errors.push(`${column} must be a whole number starting at 1`);
+    return null;
+  }
+  return parsed;
+}
+
+/**
+ * Parse correctAnswer as 0-based indices ("0,2"), letters ("A,C") or a JSON
+ * array of either. Returns null when the value can't be read.
+ */
+export function parseCorrectAnswer(value: string, choiceCount: number): number[] | null {
+  let parts: unknown[];
+  const trimmed = value.trim();
+  if (trimmed.startsWith("[")) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (!Array.isArray(parsed)) return null;
+      parts = parsed;
+    } catch {
+      return null;
+    }
+  } else {
+    parts = trimmed.split(",");
+  }
+
+  const indices: number[] = [];
+  for (const part of parts) {
+    const token = String(part).trim();
+    let index: number;
+    if (/^\d+$/.test(token)) {
+      index = Number(token);
+    } else if (/^[A-Za-z]$/.test(token)) {
+      index = token.toUpperCase().charCodeAt(0) - 65;
+    } else {
+      return null;
+    }
+    if (index >= choiceCount) return null;
+    indices.push(index);
+  }
+
+  return [...new Set(indices)].sort((a, b) => a - b);
+}
+
+/**
+ * correctAnswer in the format QuestionForm stores ("0,2")
+ */
+export function formatCorrectAnswer(choices: QuestionOption[]): string {
+  return choices
+    .map((choice, index) => (choice.isCorrect ? index.toString() : null))
+    .filter((index): index is string => index !== null)
+    .join(",");
+}
+
+/**
+ * Content checks shared by every import format: type, difficulty, choices
+ * and correctAnswer. Returns the row with correctAnswer filled in when it
+ * was left blank.
+ */
+export function validateQuestionRow(row: QuestionSheetRow): {
+  row: QuestionSheetRow;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const { type, choices } = row;
+
+  if (!row.text.trim()) errors.push("text is required");
+  if (!row.objectiveCode) errors.push("objectiveCode is required");
+
+  if (!(QUESTION_TYPES as readonly string[]).includes(type)) {
+    errors.push(`type must be one of: ${QUESTION_TYPES.join(", ")}`);
+  }
+  if (!(QUESTION_DIFFICULTIES as readonly string[]).includes(row.difficulty)) {
+    errors.push(`difficulty must be one of: ${QUESTION_DIFFICULTIES.join(", ")}`);
+  }
+
+  if (choices.length < 2) errors.push("At least two choices are required");
+  choices.forEach((choice, index) => {
+    if (!choice.text.trim()) errors.push(`choice${index + 1} is empty`);
+  });
+
+  const correctCount = choices.filter((choice) => choice.isCorrect).length;
+  const gradedByFlags = !UNGRADED_CHOICE_TYPES.has(type);
+  if (gradedByFlags && choices.length >= 2) {
+    if (correctCount === 0) {
+      errors.push("At least one choice must be marked correct");
+    } else if (SINGLE_ANSWER_TYPES.has(type) && correctCount > 1) {
+      errors.push(`${type} questions must have exactly one correct choice`);
+    }
+  }
+
+  // correctAnswer is optional; when given it must agree with the choice flags
+  let correctAnswer = row.correctAnswer.trim();
+  if (gradedByFlags) {
+    if (!correctAnswer) {
+      correctAnswer = formatCorrectAnswer(choices);
+    } else {
+      const indices = parseCorrectAnswer(correctAnswer, choices.length);
+      const flagged = choices
+        .map((choice, index) => (choice.isCorrect ? index : -1))
+        .filter((index) => index >= 0);
+      if (!indices) {
+        errors.push('correctAnswer must list choice indices ("0,2") or letters ("A,C")');
+      } else if (indices.join(",") !== flagged.join(",")) {
+        errors.push("correctAnswer does not match the choices marked correct");
+      }
+    }
+  }
+
+  return { row: { ...row, correctAnswer }, errors };
+}
+
+/**
+ * Parse one spreadsheet record and validate it
+ */
+export function parseQuestionRecord(values: Record<string, string>): {
+  row: QuestionSheetRow;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const get = (name: string) => values[name] ?? "";
+
+  const isActiveValue = get("isActive");
+  const isActive = isActiveValue.trim() ? parseBoolean(isActiveValue) : true;
+  if (isActive === null) errors.push("isActive must be TRUE or FALSE");
+
+  const status = get("status").trim();
+  if (status && !(QUESTION_STATUSES as readonly string[]).includes(status)) {
+    errors.push(`status must be one of: ${QUESTION_STATUSES.join(", ")}`);
+  }
+
+  const bulletOrder = parsePosition(get("bulletOrder"), "bulletOrder", errors);
+  const subBulletOrder = parsePosition(get("subBulletOrder"), "subBulletOrder", errors);
+  if (subBulletOrder !== null && bulletOrder === null) {
+    errors.push("subBulletOrder needs a bulletOrder");
+  }
+
+  // Choices: read choiceN columns until the first completely empty one
+  const choices: QuestionOption[] = [];
+  for (let i = 1; ; i++) {
+    const [textColumn, correctColumn, explanationColumn] = choiceColumns(i);
+    if (!(textColumn in values)) break;
+
+    const choiceText = get(textColumn);
+    const correctValue = get(correctColumn);
+    const explanation = get(explanationColumn);
+    if (!choiceText.trim() && !correctValue.trim() && !explanation.trim()) break;
+
+    const isCorrect = correctValue.trim() ? parseBoolean(correctValue) : false;
+    if (isCorrect === null) errors.push(`${correctColumn} must be TRUE or FALSE`);
+
+    choices.push({
+      text: choiceText,
+      isCorrect: isCorrect === true,
+      ...(explanation && { explanation }),
+    });
+  }
+
+  const validated = validateQuestionRow({
+    id: get("id").trim(),
+    certificationCode: get("certificationCode").trim(),
+    objectiveCode: get("objectiveCode").trim(),
+    bulletOrder,
+    subBulletOrder,
+    type: get("type").trim(),
+    difficulty: get("difficulty").trim() || "medium",
+    questionType: get("questionType").trim() || null,
+    taskId: get("taskId").trim() || null,
+    isActive: isActive !== false,
+    status,
+    text: get("text"),
+    explanation: get("explanation"),
+    correctAnswer: get("correctAnswer"),
+    choices,
+  });
+
+  return { row: validated.row, errors: [...errors, ...validated.errors] };
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+export function formatLocation(
+  row: Pick<QuestionSheetRow, "objectiveCode" | "bulletOrder" | "subBulletOrder">
+): string {
+  let location = row.objectiveCode;
+  if (row.bulletOrder !== null) location += ` > bullet ${row.bulletOrder}`;
+  if (row.subBulletOrder !== null) location += ` > sub-bullet ${row.subBulletOrder}`;
+  return location;
+}
+
+function formatChoices(choices: QuestionOption[]): string {
+  return choices
+    .map((choice, index) => {
+      const label = `${String.fromCharCode(65 + index)}) ${choice.text}${choice.isCorrect ? " ✓" : ""}`;
+      return choice.explanation ? `${label} (${choice.explanation})` : label;
+    })
+    .join("\n");
+}
+
+function normalizeChoices(choices: QuestionOption[]): QuestionOption[] {
+  return choices.map((choice) => ({
+    text: choice.text,
+    isCorrect: choice.isCorrect,
+    explanation: choice.explanation || "",
+  }));
+}
+
+/**
+ * Field-level changes between a stored question and an imported row
+ */
+export function diffQuestionRows(
+  before: QuestionSheetRow,
+  after: QuestionSheetRow
+): QuestionFieldChange[] {
+  const changes: QuestionFieldChange[] = [];
+  const compare = (field: string, a: string, b: string) => {
+    if (a !== b) changes.push({ field, before: a, after: b });
+  };
+
+  compare("location", formatLocation(before), formatLocation(after));
+  compare("text", before.text, after.text);
+  compare("type", before.type, after.type);
+  compare("difficulty", before.difficulty, after.difficulty);
+  compare("questionType", before.questionType ?? "", after.questionType ?? "");
+  compare("taskId", before.taskId ?? "", after.taskId ?? "");
+  compare("isActive", String(before.isActive), String(after.isActive));
+  // A blank status keeps the current one
+  if (after.status) compare("status", before.status, after.status);
+  compare("explanation", before.explanation, after.explanation);
+  compare("correctAnswer", before.correctAnswer, after.correctAnswer);
+  if (
+    JSON.stringify(normalizeChoices(before.choices)) !==
+    JSON.stringify(normalizeChoices(after.choices))
+  ) {
+    changes.push({
+      field: "choices",
+      before: formatChoices(before.choices),
+      after: formatChoices(after.choices),
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,109 @@
+// Admin Questions - Review Workflow
+//
+// The editorial lifecycle of a question: which moves exist, which status each
+// one starts from, and who may make it. Authors submit to assigned reviewers,
+// reviewers approve or send a question back, and publishers put approved
+// questions in front of students.
+
+import type { QuestionStatus } from "@prisma/client";
+import type { QuestionReviewAction } from "../types/questionReview.types";
+
+interface TransitionRule {
+  from: QuestionStatus[];
+  to: QuestionStatus;
+  permission: "questions.edit" | "questions.review" | "questions.publish";
+  // Only reviewers assigned to the question may make the move
+  assignedReviewerOnly?: boolean;
+  noteRequired?: boolean;
+}
+
+export const REVIEW_TRANSITIONS: Record<QuestionReviewAction, TransitionRule> = {
+  submit: { from: ["draft", "changes_requested"], to: "in_review", permission: "questions.edit" },
+  approve: {
+    from: ["in_review"],
+    to: "approved",
+    permission: "questions.review",
+    assignedReviewerOnly: true,
+  },
+  request_changes: {
+    from: ["in_review"],
+    to: "changes_requested",
+    permission: "questions.review",
+    assignedReviewerOnly: true,
+    noteRequired: true,
+  },
+  publish: { from: ["approved"], to: "published", permission: "questions.publish" },
+  retire: { from: ["approved", "published"], to: "retired", permission: "questions.publish" },
+  reopen: { from: ["retired"], to: "draft", permission: "questions.edit" },
+};
+
+// Audit event recorded for each move
+export const REVIEW_EVENT_ACTIONS: Record<QuestionReviewAction, string> = {
+  submit: "submitted",
+  approve: "approved",
+  request_changes: "changes_requested",
+  publish: "published",
+  retire: "retired",
+  reopen: "reopened",
+};
+
+const ACTION_PHRASES: Record<QuestionReviewAction, string> = {
+  submit: "submit",
+  approve: "approve",
+  request_changes: "request changes on",
+  publish: "publish",
+  retire: "retire",
+  reopen: "reopen",
+};
+
+export interface ReviewActor {
+  userId: string;
+  permissions: string[];
+}
+
+export interface ReviewState {
+  status: QuestionStatus;
+  reviewerIds: string[];
+}
+
+/**
+ * Why the actor can't make the move, or null when they can
+ */
+export function transitionError(
+  action: QuestionReviewAction,
+  question: ReviewState,
+  actor: ReviewActor,
+  note?: string | null
+): string | null {
+  const rule = REVIEW_TRANSITIONS[action];
+
+  if (!rule.from.includes(question.status)) {
+    return `Cannot ${ACTION_PHRASES[action]} a question that is ${question.status.replace("_", " ")}`;
+  }
+  if (!actor.permissions.includes(rule.permission)) {
+    return `Missing ${rule.permission} permission`;
+  }
+  if (rule.assignedReviewerOnly && !question.reviewerIds.includes(actor.userId)) {
+    return "Only reviewers assigned to this question can do that";
+  }
+  if (action === "submit" && question.reviewerIds.length === 0) {
+    return "Assign at least one reviewer before submitting for review";
+  }
+  if (rule.noteRequired && !note?.trim()) {
+    return "Explain the changes you need";
+  }
+
+  return null;
+}
+
+/**
+ * Moves the actor can make now. Notes are checked when the move is made.
+ */
+export function availableReviewActions(
+  question: ReviewState,
+  actor: ReviewActor
+): QuestionReviewAction[] {
+  return (Object.keys(REVIEW_TRANSITIONS) as QuestionReviewAction[]).filter(
+    (action) => transitionError(action, question, actor, "-") === null
+  );
+}
@@ -0,0 +1,181 @@
+// Admin Questions - Revision Diffing
+//
+// Compares two snapshots of a question: which fields changed and a word-level
+// diff of each, for the side-by-side revision viewer. Used on both sides of
+// the wire.
+
+import type { RevisionContent } from "../types/questionRevision.types";
+
+export interface DiffSegment {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface FieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+  segments: DiffSegment[];
+}
+
+// Beyond this many token pairs the diff falls back to "all replaced"
+const MAX_DIFF_CELLS = 250_000;
+
+// Shown after the question and its options; correctAnswer follows the
+// options' correct flags so it isn't listed separately
+const SCALAR_FIELDS: { field: keyof RevisionContent; label: string }[] = [
+  { field: "explanation", label: "Explanation" },
+  { field: "type", label: "Type" },
+  { field: "difficulty", label: "Difficulty" },
+  { field: "questionType", label: "Question type tag" },
+];
+
+const MAPPING_FIELDS: (keyof RevisionContent)[] = ["objectiveId", "bulletId", "subBulletId"];
+
+/**
+ * Pick the snapshotted fields off a question row
+ */
+export function revisionContent(question: RevisionContent): RevisionContent {
+  return {
+    text: question.text,
+    type: question.type,
+    difficulty: question.difficulty,
+    choices: question.choices.map((choice) => ({
+      text: choice.text,
+      isCorrect: choice.isCorrect,
+      ...(choice.explanation !== undefined && { explanation: choice.explanation }),
+    })),
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation,
+    questionType: question.questionType ?? null,
+    objectiveId: question.objectiveId ?? null,
+    bulletId: question.bulletId ?? null,
+    subBulletId: question.subBulletId ?? null,
+  };
+}
+
+/**
+ * Whether an edit changed anything a revision records
+ */
+export function contentChanged(before: RevisionContent, after: RevisionContent): boolean {
+  return JSON.stringify(revisionContent(before)) !== JSON.stringify(revisionContent(after));
+}
+
+/**
+ * Word-level diff (longest common subsequence over words and whitespace)
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  if (before === after) {
+    return before ? [{ kind: "same", text: before }] : [];
+  }
+
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(before ? [{ kind: "removed" as const, text: before }] : []),
+      ...(after ? [{ kind: "added" as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (kind: DiffSegment["kind"], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) {
+      last.text += text;
+    } else {
+      segments.push({ kind, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("same", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push("removed", a[i++]);
+    } else {
+      push("added", b[j++]);
+    }
+  }
+  while (i < a.length) push("removed", a[i++]);
+  while (j < b.length) push("added", b[j++]);
+
+  return segments;
+}
+
+/**
+ * Every field that differs between two revisions, with a word diff of each.
+ * Choices are compared one option at a time; the mapping is shown with its
+ * readable label when the snapshot has one.
+ */
+export function diffRevisionContent(
+  before: RevisionContent & { mappingLabel?: string },
+  after: RevisionContent & { mappingLabel?: string }
+): FieldDiff[] {
+  const diffs: FieldDiff[] = [];
+  const add = (field: string, label: string, from: string, to: string) => {
+    if (from !== to) {
+      diffs.push({ field, label, before: from, after: to, segments: diffWords(from, to) });
+    }
+  };
+
+  add("text", "Question", before.text, after.text);
+
+  const optionCount = Math.max(before.choices.length, after.choices.length);
+  for (let index = 0; index < optionCount; index++) {
+    const label = `Option ${String.fromCharCode(65 + index)}`;
+    const from = before.choices[index];
+    const to = after.choices[index];
+    add(`choices.${index}.text`, label, from?.text ?? "", to?.text ?? "");
+    add(
+      `choices.${index}.isCorrect`,
+      `${label} correct`,
+      from ? (from.isCorrect ? "Correct" : "Incorrect") : "",
+      to ? (to.isCorrect ? "Correct" : "Incorrect") : ""
+    );
+    add(
+      `choices.${index}.explanation`,
+      `${label} explanation`,
+      from?.explanation ?? "",
+      to?.explanation ?? ""
+    );
+  }
+
+  for (const { field, label } of SCALAR_FIELDS) {
+    add(field, label, String(before[field] ?? ""), String(after[field] ?? ""));
+  }
+
+  if (MAPPING_FIELDS.some((field) => before[field] !== after[field])) {
+    add("mapping", "Mapping", mappingLabel(before), mappingLabel(after));
+  }
+
+  return diffs;
+}
+
+function mappingLabel(content: RevisionContent & { mappingLabel?: string }): string {
+  if (content.mappingLabel) return content.mappingLabel;
+  if (content.subBulletId) return `Sub-bullet ${content.subBulletId}`;
+  if (content.bulletId) return `Bullet ${content.bulletId}`;
+  if (content.objectiveId) return `Objective ${content.objectiveId}`;
+  return "Unmapped";
+}
+
+function tokenize(value: string): string[] {
+  return value.split(/(\s+)/).filter(Boolean);
+}
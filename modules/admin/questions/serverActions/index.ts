@@ -8,3 +8,21 @@ export * from "./questionAI.action";
 
 // Question Task Management
 export * from "./questionTask.action";
+
+// CSV/Excel Import & Export
+export * from "./questionSheet.action";
+
+// Performance-Based Questions (PBQs)
+export * from "./pbq.action";
+
+// Batch AI generation & draft review
+export * from "./questionDraft.action";
+
+// Review workflow, reviewers & comments
+export * from "./questionReview.action";
+
+// Revision history & restore
+export * from "./questionRevision.action";
+
+// Near-duplicate detection & resolution
+export * from "./questionDuplicate.action";
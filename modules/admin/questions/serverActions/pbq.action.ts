@@ -0,0 +1,245 @@
+// Admin Questions - Performance-Based Question (PBQ) Server Actions
+"use server";
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import {
+  parsePBQDefinition,
+  pbqInputSchema,
+  updatePBQSchema,
+  type ActionResult,
+  type PBQInput,
+  type PBQListFilters,
+  type SerializedPBQ,
+  type UpdatePBQInput,
+} from "../types";
+
+// ============================================================================
+// HELPER FUNCTIONS
+// ============================================================================
+
+const PBQ_SELECT = {
+  id: true,
+  type: true,
+  title: true,
+  objectiveId: true,
+  config: true,
+  scoringRubric: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  objective: {
+    select: {
+      code: true,
+      description: true,
+      domain: { select: { certification: { select: { id: true, name: true } } } },
+    },
+  },
+} satisfies Prisma.PBQSelect;
+
+type PBQRecord = Prisma.PBQGetPayload<{ select: typeof PBQ_SELECT }>;
+
+async function loadAttemptStats(pbqIds: string[]) {
+  const stats = await prisma.pBQAttempt.groupBy({
+    by: ["pbqId"],
+    where: { pbqId: { in: pbqIds } },
+    _count: { _all: true },
+    _avg: { score: true },
+  });
+  return new Map(stats.map((stat) => [stat.pbqId, stat]));
+}
+
+function serializePBQ(
+  pbq: PBQRecord,
+  stats: { _count: { _all: number }; _avg: { score: number | null } } | undefined
+): SerializedPBQ {
+  return {
+    ...parsePBQDefinition(pbq),
+    id: pbq.id,
+    title: pbq.title,
+    objectiveId: pbq.objectiveId,
+    objectiveCode: pbq.objective.code,
+    objectiveDescription: pbq.objective.description,
+    certificationId: pbq.objective.domain.certification.id,
+    certificationName: pbq.objective.domain.certification.name,
+    isActive: pbq.isActive,
+    attemptCount: stats?._count._all ?? 0,
+    averageScore: stats?._avg.score ?? null,
+    createdAt: pbq.createdAt.toISOString(),
+    updatedAt: pbq.updatedAt.toISOString(),
+  };
+}
+
+async function ensureObjectiveExists(objectiveId: string) {
+  const objective = await prisma.certificationObjective.findUnique({
+    where: { id: objectiveId },
+    select: { id: true },
+  });
+  if (!objective) {
+    throw new Error("Objective not found");
+  }
+}
+
+// ============================================================================
+// READ OPERATIONS
+// ============================================================================
+
+async function _getPBQs(
+  currentUser: AuthContext,
+  filters: PBQListFilters = {}
+): Promise<ActionResult<SerializedPBQ[]>> {
+  try {
+    const pbqs = await prisma.pBQ.findMany({
+      where: {
+        ...(filters.type && { type: filters.type }),
+        ...(filters.certificationId && {
+          objective: { domain: { certificationId: filters.certificationId } },
+        }),
+      },
+      orderBy: [{ objective: { code: "asc" } }, { title: "asc" }],
+      select: PBQ_SELECT,
+    });
+
+    const stats = await loadAttemptStats(pbqs.map((pbq) => pbq.id));
+
+    return {
+      success: true,
+      data: pbqs.map((pbq) => serializePBQ(pbq, stats.get(pbq.id))),
+    };
+  } catch (error) {
+    console.error("Error fetching PBQs:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch PBQs",
+    };
+  }
+}
+
+export const getPBQs = withPermission("questions.read")(_getPBQs);
+
+async function _getPBQById(
+  currentUser: AuthContext,
+  id: string
+): Promise<ActionResult<SerializedPBQ>> {
+  try {
+    const pbq = await prisma.pBQ.findUnique({ where: { id }, select: PBQ_SELECT });
+    if (!pbq) {
+      return { success: false, error: "PBQ not found" };
+    }
+
+    const stats = await loadAttemptStats([pbq.id]);
+    return { success: true, data: serializePBQ(pbq, stats.get(pbq.id)) };
+  } catch (error) {
+    console.error("Error fetching PBQ:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch PBQ",
+    };
+  }
+}
+
+export const getPBQById = withPermission("questions.read")(_getPBQById);
+
+// ============================================================================
+// CREATE / UPDATE / DELETE OPERATIONS
+// ============================================================================
+
+async function _createPBQ(
+  currentUser: AuthContext,
+  input: PBQInput
+): Promise<ActionResult<SerializedPBQ>> {
+  try {
+    const validated = pbqInputSchema.parse(input);
+    await ensureObjectiveExists(validated.objectiveId);
+
+    const pbq = await prisma.pBQ.create({
+      data: {
+        type: validated.type,
+        title: validated.title,
+        objectiveId: validated.objectiveId,
+        config: validated.config as Prisma.InputJsonValue,
+        scoringRubric: validated.scoringRubric as Prisma.InputJsonValue,
+        isActive: validated.isActive,
+      },
+      select: PBQ_SELECT,
+    });
+
+    revalidatePath("/admin/questions/pbqs");
+
+    return { success: true, data: serializePBQ(pbq, undefined) };
+  } catch (error) {
+    console.error("Error creating PBQ:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to create PBQ",
+    };
+  }
+}
+
+export const createPBQ = withPermission("questions.create")(_createPBQ);
+
+async function _updatePBQ(
+  currentUser: AuthContext,
+  input: UpdatePBQInput
+): Promise<ActionResult<SerializedPBQ>> {
+  try {
+    const { id, data } = updatePBQSchema.parse(input);
+    await ensureObjectiveExists(data.objectiveId);
+
+    const existing = await prisma.pBQ.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return { success: false, error: "PBQ not found" };
+    }
+
+    const pbq = await prisma.pBQ.update({
+      where: { id },
+      data: {
+        type: data.type,
+        title: data.title,
+        objectiveId: data.objectiveId,
+        config: data.config as Prisma.InputJsonValue,
+        scoringRubric: data.scoringRubric as Prisma.InputJsonValue,
+        isActive: data.isActive,
+      },
+      select: PBQ_SELECT,
+    });
+
+    revalidatePath("/admin/questions/pbqs");
+
+    const stats = await loadAttemptStats([pbq.id]);
+    return { success: true, data: serializePBQ(pbq, stats.get(pbq.id)) };
+  } catch (error) {
+    console.error("Error updating PBQ:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to update PBQ",
+    };
+  }
+}
+
+export const updatePBQ = withPermission("questions.edit")(_updatePBQ);
+
+async function _deletePBQ(
+  currentUser: AuthContext,
+  id: string
+): Promise<ActionResult<{ id: string }>> {
+  try {
+    // Attempts are removed with the PBQ (onDelete: Cascade)
+    await prisma.pBQ.delete({ where: { id } });
+
+    revalidatePath("/admin/questions/pbqs");
+
+    return { success: true, data: { id } };
+  } catch (error) {
+    console.error("Error deleting PBQ:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete PBQ",
+    };
+  }
+}
+
+export const deletePBQ = withPermission("questions.delete")(_deletePBQ);
@@ -1,6 +1,7 @@
 // Admin Questions - Server Actions
 "use server";
 
+import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/prisma";
 import { revalidatePath } from "next/cache";
 import { withPermission } from "@/lib/middleware/withPermission";
@@ -12,6 +13,10 @@ import type {
   BulkEditData,
   QuestionOption,
 } from "../types";
+import {
+  recordCreatedRevision,
+  updateQuestionWithRevision,
+} from "../services/questionRevision.service";
 
 // ============================================================================
 // HELPER FUNCTIONS
@@ -132,6 +137,7 @@ export async function getQuestions(): Promise<SerializedQuestion[]> {
         subBulletId: true,
         taskId: true,
         isActive: true,
+        status: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -152,6 +158,7 @@ export async function getQuestions(): Promise<SerializedQuestion[]> {
       subBulletId: question.subBulletId || undefined,
       taskId: question.taskId || undefined,
       isActive: question.isActive,
+      status: question.status,
       createdAt: question.createdAt.toISOString(),
       updatedAt: question.updatedAt.toISOString(),
     }));
@@ -205,6 +212,7 @@ export async function getQuestionById(
         subBulletId: true,
         taskId: true,
         isActive: true,
+        status: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -226,6 +234,7 @@ export async function getQuestionById(
       subBulletId: question.subBulletId || undefined,
       taskId: question.taskId || undefined,
       isActive: question.isActive,
+      status: question.status,
       createdAt: question.createdAt.toISOString(),
       updatedAt: question.updatedAt.toISOString(),
     };
@@ -282,37 +291,47 @@ async function _createQuestion(
       );
     }
 
-    const question = await prisma.question.create({
-      data: {
-        text: questionData.text,
-        type: questionData.type,
-        difficulty: questionData.difficulty,
-        choices: questionData.choices as any,
-        correctAnswer: questionData.correctAnswer,
-        explanation: questionData.explanation,
-        questionType: questionData.questionType || null,
-        objectiveId: questionData.objectiveId || null,
-        bulletId: questionData.bulletId || null,
-        subBulletId: questionData.subBulletId || null,
-        taskId: questionData.taskId || null,
-      },
-      select: {
-        id: true,
-        text: true,
-        type: true,
-        difficulty: true,
-        choices: true,
-        correctAnswer: true,
-        explanation: true,
-        questionType: true,
-        objectiveId: true,
-        bulletId: true,
-        subBulletId: true,
-        taskId: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const question = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.question.create({
+        data: {
+          text: questionData.text,
+          type: questionData.type,
+          difficulty: questionData.difficulty,
+          choices: questionData.choices as any,
+          correctAnswer: questionData.correctAnswer,
+          explanation: questionData.explanation,
+          questionType: questionData.questionType || null,
+          objectiveId: questionData.objectiveId || null,
+          bulletId: questionData.bulletId || null,
+          subBulletId: questionData.subBulletId || null,
+          taskId: questionData.taskId || null,
+        },
+        select: {
+          id: true,
+          text: true,
+          type: true,
+          difficulty: true,
+          choices: true,
+          correctAnswer: true,
+          explanation: true,
+          questionType: true,
+          objectiveId: true,
+          bulletId: true,
+          subBulletId: true,
+          taskId: true,
+          isActive: true,
+          status: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordCreatedRevision(tx, created.id, {
+        source: questionData.revisionSource === "ai_feedback" ? "ai_feedback" : "created",
+        editorId: currentUser.userId,
+      });
+
+      return created;
     });
 
     // Update task progress if associated with a task
@@ -336,6 +355,7 @@ async function _createQuestion(
       subBulletId: question.subBulletId || undefined,
       taskId: question.taskId || undefined,
       isActive: question.isActive,
+      status: question.status,
       createdAt: question.createdAt.toISOString(),
       updatedAt: question.updatedAt.toISOString(),
     };
@@ -398,26 +418,34 @@ async function _updateQuestion(
     if (questionData.subBulletId !== undefined)
       updateData.subBulletId = questionData.subBulletId;
 
-    const question = await prisma.question.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        text: true,
-        type: true,
-        difficulty: true,
-        choices: true,
-        correctAnswer: true,
-        explanation: true,
-        questionType: true,
-        objectiveId: true,
-        bulletId: true,
-        subBulletId: true,
-        taskId: true,
-        isActive: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const question = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await updateQuestionWithRevision(tx, id, updateData, {
+        source: questionData.revisionSource === "ai_feedback" ? "ai_feedback" : "edited",
+        editorId: currentUser.userId,
+        note: questionData.revisionNote?.slice(0, 2000),
+      });
+
+      return tx.question.findUniqueOrThrow({
+        where: { id },
+        select: {
+          id: true,
+          text: true,
+          type: true,
+          difficulty: true,
+          choices: true,
+          correctAnswer: true,
+          explanation: true,
+          questionType: true,
+          objectiveId: true,
+          bulletId: true,
+          subBulletId: true,
+          taskId: true,
+          isActive: true,
+          status: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
     });
 
     revalidatePath("/admin/questions");
@@ -436,6 +464,7 @@ async function _updateQuestion(
       subBulletId: question.subBulletId || undefined,
       taskId: question.taskId || undefined,
       isActive: question.isActive,
+      status: question.status,
       createdAt: question.createdAt.toISOString(),
       updatedAt: question.updatedAt.toISOString(),
     };
@@ -533,13 +562,18 @@ async function _bulkUpdateQuestions(
       return false;
     }
 
-    const result = await prisma.question.updateMany({
-      where: { id: { in: questionIds } },
-      data: bulkUpdateData,
+    // One at a time so each changed question gets its own revision
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const questionId of questionIds) {
+        await updateQuestionWithRevision(tx, questionId, bulkUpdateData, {
+          source: "bulk_edit",
+          editorId: currentUser.userId,
+        });
+      }
     });
 
     revalidatePath("/admin/questions");
-    console.error("Bulk updated questions:", result.count);
+    console.error("Bulk updated questions:", questionIds.length);
 
     return true;
   } catch (error) {
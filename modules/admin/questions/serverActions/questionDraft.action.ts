@@ -0,0 +1,162 @@
+// Admin Question Drafts - Server Actions
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import {
+  countDraftStatuses,
+  fillTaskGaps as queueGapDrafts,
+  listDrafts,
+  loadTaskGaps,
+  retryFailedDrafts,
+  reviewQuestionDraft as reviewDraft,
+} from "../services/questionDraft.service";
+import {
+  fillTaskGapsSchema,
+  listQuestionDraftsSchema,
+  retryQuestionDraftsSchema,
+  reviewQuestionDraftSchema,
+  type DraftStatusCounts,
+  type FillTaskGapsInput,
+  type ListQuestionDraftsInput,
+  type RetryQuestionDraftsInput,
+  type ReviewQuestionDraftInput,
+  type SerializedQuestionDraft,
+  type TaskGapSummary,
+} from "../types/questionDraft.types";
+import type { ActionResult } from "../types";
+
+const taskIdSchema = z.string().min(1, "Task is required");
+
+// ============================================================================
+// GAPS & BATCH GENERATION
+// ============================================================================
+
+/**
+ * Per-objective targets of a task, what it has and what is still missing
+ * Requires questions.read permission
+ */
+export const getTaskGaps = withPermission("questions.read")(
+  async (_user: AuthContext, taskId: string): Promise<ActionResult<TaskGapSummary>> => {
+    try {
+      const gaps = await loadTaskGaps(taskIdSchema.parse(taskId));
+
+      return { success: true, data: gaps };
+    } catch (error) {
+      console.error("Error loading task gaps:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load task gaps",
+      };
+    }
+  }
+);
+
+/**
+ * Queue AI drafts for every under-target objective of a task
+ * Requires questions.create permission
+ */
+export const fillTaskGaps = withPermission("questions.create")(
+  async (user: AuthContext, input: FillTaskGapsInput): Promise<ActionResult<{ queued: number }>> => {
+    try {
+      const validated = fillTaskGapsSchema.parse(input);
+      const queued = await queueGapDrafts(user.userId, validated.taskId, validated.limit);
+
+      revalidatePath("/admin/questions/inbox");
+
+      return { success: true, data: { queued } };
+    } catch (error) {
+      console.error("Error filling task gaps:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to queue question drafts",
+      };
+    }
+  }
+);
+
+/**
+ * Queue failed drafts again
+ * Requires questions.create permission
+ */
+export const retryQuestionDrafts = withPermission("questions.create")(
+  async (
+    _user: AuthContext,
+    input: RetryQuestionDraftsInput
+  ): Promise<ActionResult<{ queued: number }>> => {
+    try {
+      const validated = retryQuestionDraftsSchema.parse(input);
+      const queued = await retryFailedDrafts(validated.draftIds);
+
+      revalidatePath("/admin/questions/inbox");
+
+      return { success: true, data: { queued } };
+    } catch (error) {
+      console.error("Error retrying question drafts:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to retry drafts",
+      };
+    }
+  }
+);
+
+// ============================================================================
+// REVIEW INBOX
+// ============================================================================
+
+/**
+ * Drafts in one status, optionally for one task
+ * Requires questions.read permission
+ */
+export const listQuestionDrafts = withPermission("questions.read")(
+  async (
+    _user: AuthContext,
+    input: ListQuestionDraftsInput
+  ): Promise<ActionResult<{ drafts: SerializedQuestionDraft[]; counts: DraftStatusCounts }>> => {
+    try {
+      const validated = listQuestionDraftsSchema.parse(input);
+      const [drafts, counts] = await Promise.all([
+        listDrafts(validated.status, validated.taskId),
+        countDraftStatuses(validated.taskId),
+      ]);
+
+      return { success: true, data: { drafts, counts } };
+    } catch (error) {
+      console.error("Error listing question drafts:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list question drafts",
+      };
+    }
+  }
+);
+
+/**
+ * Approve a draft into its task's questions (with optional edits) or reject it
+ * Requires questions.create permission
+ */
+export const reviewQuestionDraft = withPermission("questions.create")(
+  async (
+    user: AuthContext,
+    input: ReviewQuestionDraftInput
+  ): Promise<ActionResult<SerializedQuestionDraft>> => {
+    try {
+      const validated = reviewQuestionDraftSchema.parse(input);
+      const draft = await reviewDraft(user.userId, validated);
+
+      revalidatePath("/admin/questions");
+      revalidatePath("/admin/questions/inbox");
+
+      return { success: true, data: draft };
+    } catch (error) {
+      console.error("Error reviewing question draft:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to review question draft",
+      };
+    }
+  }
+);
@@ -0,0 +1,98 @@
+// Admin Question Duplicates - Server Actions
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import {
+  buildSimilarQuestionsReport,
+  findSimilarQuestions,
+  resolveDuplicateQuestion as resolveDuplicate,
+} from "../services/questionDuplicate.service";
+import {
+  checkQuestionDuplicatesSchema,
+  resolveDuplicateQuestionSchema,
+  similarQuestionsReportSchema,
+  type CheckQuestionDuplicatesInput,
+  type ResolveDuplicateQuestionInput,
+  type SimilarQuestion,
+  type SimilarQuestionsReport,
+  type SimilarQuestionsReportInput,
+} from "../types/questionDuplicate.types";
+import type { ActionResult } from "../types";
+
+/**
+ * Existing questions that look like near-duplicates of a question about to be saved
+ * Requires questions.create permission
+ */
+export const checkQuestionDuplicates = withPermission("questions.create")(
+  async (
+    user: AuthContext,
+    input: CheckQuestionDuplicatesInput
+  ): Promise<ActionResult<SimilarQuestion[]>> => {
+    try {
+      const validated = checkQuestionDuplicatesSchema.parse(input);
+      const similar = await findSimilarQuestions(user.userId, validated);
+
+      return { success: true, data: similar };
+    } catch (error) {
+      console.error("Error checking for duplicate questions:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to check for duplicates",
+      };
+    }
+  }
+);
+
+/**
+ * Pairs of near-identical questions in a certification
+ * Requires questions.read permission
+ */
+export const getSimilarQuestionsReport = withPermission("questions.read")(
+  async (
+    user: AuthContext,
+    input: SimilarQuestionsReportInput
+  ): Promise<ActionResult<SimilarQuestionsReport>> => {
+    try {
+      const validated = similarQuestionsReportSchema.parse(input);
+      const report = await buildSimilarQuestionsReport(
+        user.userId,
+        validated.certificationId,
+        validated.threshold
+      );
+
+      return { success: true, data: report };
+    } catch (error) {
+      console.error("Error building similar questions report:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load similar questions",
+      };
+    }
+  }
+);
+
+/**
+ * Merge a duplicate into the question being kept, or retire it
+ * Requires questions.publish permission
+ */
+export const resolveDuplicateQuestion = withPermission("questions.publish")(
+  async (user: AuthContext, input: ResolveDuplicateQuestionInput): Promise<ActionResult<void>> => {
+    try {
+      const validated = resolveDuplicateQuestionSchema.parse(input);
+      await resolveDuplicate(user.userId, validated);
+
+      revalidatePath("/admin/questions");
+      revalidatePath("/admin/questions/duplicates");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error resolving duplicate question:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to resolve duplicate",
+      };
+    }
+  }
+);
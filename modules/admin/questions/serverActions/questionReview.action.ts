@@ -0,0 +1,239 @@
+// Admin Question Review - Server Actions
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import type { QuestionStatus } from "@prisma/client";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import {
+  addComment,
+  assignReviewer,
+  listReviewCandidates,
+  listReviewQueue,
+  loadQuestionReview,
+  removeReviewer,
+  resolveCommentThread,
+  transitionQuestion,
+} from "../services/questionReview.service";
+import {
+  addQuestionCommentSchema,
+  listReviewQueueSchema,
+  questionReviewerSchema,
+  resolveQuestionCommentSchema,
+  transitionQuestionSchema,
+  type AddQuestionCommentInput,
+  type ListReviewQueueInput,
+  type QuestionReviewDetail,
+  type QuestionReviewerInput,
+  type ResolveQuestionCommentInput,
+  type ReviewQueueItem,
+  type ReviewUser,
+  type TransitionQuestionInput,
+} from "../types/questionReview.types";
+import type { ActionResult } from "../types";
+
+const questionIdSchema = z.string().min(1, "Question is required");
+
+function revalidateReview(questionId: string) {
+  revalidatePath("/admin/questions");
+  revalidatePath("/admin/questions/review");
+  revalidatePath(`/admin/questions/${questionId}/review`);
+}
+
+// ============================================================================
+// READ OPERATIONS
+// ============================================================================
+
+/**
+ * A question's reviewers, comment threads, audit trail and the moves the
+ * current user can make
+ * Requires questions.read permission
+ */
+export const getQuestionReview = withPermission("questions.read")(
+  async (user: AuthContext, questionId: string): Promise<ActionResult<QuestionReviewDetail>> => {
+    try {
+      const review = await loadQuestionReview(user, questionIdSchema.parse(questionId));
+
+      return { success: true, data: review };
+    } catch (error) {
+      console.error("Error loading question review:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load question review",
+      };
+    }
+  }
+);
+
+/**
+ * Questions in one workflow status, optionally only those assigned to the
+ * current user
+ * Requires questions.read permission
+ */
+export const getReviewQueue = withPermission("questions.read")(
+  async (user: AuthContext, input: ListReviewQueueInput): Promise<ActionResult<ReviewQueueItem[]>> => {
+    try {
+      const validated = listReviewQueueSchema.parse(input);
+      const queue = await listReviewQueue(
+        validated.status,
+        validated.assignedToMe ? user.userId : undefined
+      );
+
+      return { success: true, data: queue };
+    } catch (error) {
+      console.error("Error loading review queue:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load review queue",
+      };
+    }
+  }
+);
+
+/**
+ * Users who can be assigned as reviewers
+ * Requires questions.edit permission
+ */
+export const getReviewCandidates = withPermission("questions.edit")(
+  async (): Promise<ActionResult<ReviewUser[]>> => {
+    try {
+      const candidates = await listReviewCandidates();
+
+      return { success: true, data: candidates };
+    } catch (error) {
+      console.error("Error loading review candidates:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load reviewers",
+      };
+    }
+  }
+);
+
+// ============================================================================
+// WORKFLOW
+// ============================================================================
+
+/**
+ * Submit, approve, request changes on, publish, retire or reopen a question.
+ * Each move checks its own permission (questions.edit, questions.review or
+ * questions.publish); approving and requesting changes are limited to the
+ * question's assigned reviewers.
+ * Requires questions.read permission
+ */
+export const transitionQuestionStatus = withPermission("questions.read")(
+  async (
+    user: AuthContext,
+    input: TransitionQuestionInput
+  ): Promise<ActionResult<{ status: QuestionStatus }>> => {
+    try {
+      const validated = transitionQuestionSchema.parse(input);
+      const status = await transitionQuestion(user, validated);
+
+      revalidateReview(validated.questionId);
+
+      return { success: true, data: { status } };
+    } catch (error) {
+      console.error("Error changing question status:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to change question status",
+      };
+    }
+  }
+);
+
+/**
+ * Assign a reviewer to a question
+ * Requires questions.edit permission
+ */
+export const assignQuestionReviewer = withPermission("questions.edit")(
+  async (user: AuthContext, input: QuestionReviewerInput): Promise<ActionResult<void>> => {
+    try {
+      const validated = questionReviewerSchema.parse(input);
+      await assignReviewer(user.userId, validated);
+
+      revalidateReview(validated.questionId);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error assigning question reviewer:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to assign reviewer",
+      };
+    }
+  }
+);
+
+/**
+ * Remove a reviewer from a question
+ * Requires questions.edit permission
+ */
+export const removeQuestionReviewer = withPermission("questions.edit")(
+  async (user: AuthContext, input: QuestionReviewerInput): Promise<ActionResult<void>> => {
+    try {
+      const validated = questionReviewerSchema.parse(input);
+      await removeReviewer(user.userId, validated);
+
+      revalidateReview(validated.questionId);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error removing question reviewer:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to remove reviewer",
+      };
+    }
+  }
+);
+
+// ============================================================================
+// COMMENTS
+// ============================================================================
+
+/**
+ * Start a comment thread on a question or reply to one
+ * Requires questions.read permission
+ */
+export const addQuestionComment = withPermission("questions.read")(
+  async (user: AuthContext, input: AddQuestionCommentInput): Promise<ActionResult<void>> => {
+    try {
+      const validated = addQuestionCommentSchema.parse(input);
+      await addComment(user.userId, validated);
+
+      revalidatePath(`/admin/questions/${validated.questionId}/review`);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error adding question comment:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to add comment",
+      };
+    }
+  }
+);
+
+/**
+ * Resolve a comment thread or open it again
+ * Requires questions.read permission
+ */
+export const resolveQuestionComment = withPermission("questions.read")(
+  async (_user: AuthContext, input: ResolveQuestionCommentInput): Promise<ActionResult<void>> => {
+    try {
+      const validated = resolveQuestionCommentSchema.parse(input);
+      await resolveCommentThread(validated.commentId, validated.resolved);
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error resolving question comment:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update comment",
+      };
+    }
+  }
+);
@@ -0,0 +1,63 @@
+// Admin Question Revisions - Server Actions
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import { loadRevisionHistory, restoreRevision } from "../services/questionRevision.service";
+import {
+  restoreQuestionRevisionSchema,
+  type QuestionRevisionHistory,
+  type RestoreQuestionRevisionInput,
+} from "../types/questionRevision.types";
+import type { ActionResult } from "../types";
+
+const questionIdSchema = z.string().min(1, "Question is required");
+
+/**
+ * Every revision of a question, newest first
+ * Requires questions.read permission
+ */
+export const getQuestionRevisions = withPermission("questions.read")(
+  async (_user: AuthContext, questionId: string): Promise<ActionResult<QuestionRevisionHistory>> => {
+    try {
+      const history = await loadRevisionHistory(questionIdSchema.parse(questionId));
+
+      return { success: true, data: history };
+    } catch (error) {
+      console.error("Error loading question revisions:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load revisions",
+      };
+    }
+  }
+);
+
+/**
+ * Make an earlier revision current again (recorded as a new revision)
+ * Requires questions.edit permission
+ */
+export const restoreQuestionRevision = withPermission("questions.edit")(
+  async (
+    user: AuthContext,
+    input: RestoreQuestionRevisionInput
+  ): Promise<ActionResult<{ revision: number }>> => {
+    try {
+      const validated = restoreQuestionRevisionSchema.parse(input);
+      const revision = await restoreRevision(user.userId, validated.questionId, validated.revision);
+
+      revalidatePath("/admin/questions");
+      revalidatePath(`/admin/questions/${validated.questionId}/revisions`);
+
+      return { success: true, data: { revision } };
+    } catch (error) {
+      console.error("Error restoring question revision:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to restore revision",
+      };
+    }
+  }
+);
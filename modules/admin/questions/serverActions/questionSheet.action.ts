@@ -0,0 +1,860 @@
+// Admin Questions - CSV/Excel/QTI/GIFT Import & Export Server Actions
+"use server";
+
+import ExcelJS from "exceljs";
+import { Prisma, type QuestionStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import type { AuthContext } from "@/lib/auth/types";
+import {
+  diffQuestionRows,
+  formatLocation,
+  parseCsv,
+  parseQuestionRecord,
+  questionsToTable,
+  tableToRecords,
+  toCsv,
+  validateQuestionRow,
+} from "../lib/questionSheet";
+import { parseGift, toGift } from "../lib/gift";
+import { parseQtiPackage, toQtiPackage } from "../lib/qti";
+import {
+  recordCreatedRevision,
+  updateQuestionWithRevision,
+} from "../services/questionRevision.service";
+import type {
+  ActionResult,
+  ParsedInterchangeItem,
+  QuestionExportFile,
+  QuestionExportRequest,
+  QuestionImportRequest,
+  QuestionImportResult,
+  QuestionImportRowResult,
+  QuestionOption,
+  QuestionSheetRow,
+  SerializedQuestionWithHierarchy,
+} from "../types";
+
+// Keep uploads to a size a single server action can parse comfortably
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+
+const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// ============================================================================
+// HIERARCHY HELPERS
+// ============================================================================
+
+interface QuestionMapping {
+  objectiveId: string | null;
+  bulletId: string | null;
+  subBulletId: string | null;
+}
+
+interface HierarchyNode {
+  id: string;
+  text: string;
+}
+
+interface HierarchyLocation {
+  objectiveCode: string;
+  bulletOrder: number | null;
+  subBulletOrder: number | null;
+  domainName: string;
+  objectiveName: string;
+  bulletText?: string;
+  subBulletText?: string;
+}
+
+interface CertificationHierarchy {
+  id: string;
+  code: string;
+  name: string;
+  // objective code -> IDs, with bullets/sub-bullets in display order
+  objectivesByCode: Map<
+    string,
+    { id: string; bullets: (HierarchyNode & { subBullets: HierarchyNode[] })[] }
+  >;
+  // mapping ID -> spreadsheet location
+  locations: Map<string, HierarchyLocation>;
+}
+
+async function loadCertificationHierarchy(
+  certificationId: string
+): Promise<CertificationHierarchy | null> {
+  const certification = await prisma.certification.findUnique({
+    where: { id: certificationId },
+    select: {
+      id: true,
+      code: true,
+      name: true,
+      domains: {
+        orderBy: { order: "asc" },
+        select: {
+          name: true,
+          objectives: {
+            orderBy: { order: "asc" },
+            select: {
+              id: true,
+              code: true,
+              description: true,
+              bullets: {
+                orderBy: { order: "asc" },
+                select: {
+                  id: true,
+                  text: true,
+                  subBullets: { orderBy: { order: "asc" }, select: { id: true, text: true } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!certification) return null;
+
+  const hierarchy: CertificationHierarchy = {
+    id: certification.id,
+    code: certification.code,
+    name: certification.name,
+    objectivesByCode: new Map(),
+    locations: new Map(),
+  };
+
+  for (const domain of certification.domains) {
+    for (const objective of domain.objectives) {
+      hierarchy.objectivesByCode.set(objective.code, {
+        id: objective.id,
+        bullets: objective.bullets,
+      });
+      const objectiveLocation = {
+        objectiveCode: objective.code,
+        domainName: domain.name,
+        objectiveName: objective.description,
+      };
+      hierarchy.locations.set(objective.id, {
+        ...objectiveLocation,
+        bulletOrder: null,
+        subBulletOrder: null,
+      });
+      objective.bullets.forEach((bullet, bulletIndex) => {
+        hierarchy.locations.set(bullet.id, {
+          ...objectiveLocation,
+          bulletOrder: bulletIndex + 1,
+          subBulletOrder: null,
+          bulletText: bullet.text,
+        });
+        bullet.subBullets.forEach((sub, subIndex) => {
+          hierarchy.locations.set(sub.id, {
+            ...objectiveLocation,
+            bulletOrder: bulletIndex + 1,
+            subBulletOrder: subIndex + 1,
+            bulletText: bullet.text,
+            subBulletText: sub.text,
+          });
+        });
+      });
+    }
+  }
+
+  return hierarchy;
+}
+
+/**
+ * Resolve a row's objective code and bullet/sub-bullet positions to the
+ * single mapping ID a question stores
+ */
+function resolveMapping(
+  hierarchy: CertificationHierarchy,
+  row: QuestionSheetRow
+): { mapping?: QuestionMapping; error?: string } {
+  const objective = hierarchy.objectivesByCode.get(row.objectiveCode);
+  if (!objective) {
+    return { error: `Objective ${row.objectiveCode} not found in ${hierarchy.code}` };
+  }
+
+  if (row.bulletOrder === null) {
+    return { mapping: { objectiveId: objective.id, bulletId: null, subBulletId: null } };
+  }
+
+  const bullet = objective.bullets[row.bulletOrder - 1];
+  if (!bullet) {
+    return { error: `Objective ${row.objectiveCode} has no bullet ${row.bulletOrder}` };
+  }
+
+  if (row.subBulletOrder === null) {
+    return { mapping: { objectiveId: null, bulletId: bullet.id, subBulletId: null } };
+  }
+
+  const subBulletId = bullet.subBullets[row.subBulletOrder - 1]?.id;
+  if (!subBulletId) {
+    return {
+      error: `Bullet ${row.bulletOrder} of objective ${row.objectiveCode} has no sub-bullet ${row.subBulletOrder}`,
+    };
+  }
+
+  return { mapping: { objectiveId: null, bulletId: null, subBulletId } };
+}
+
+// Questions of a certification, whichever hierarchy level they map to
+function certificationQuestionFilter(certificationId: string): Prisma.QuestionWhereInput {
+  return {
+    OR: [
+      { objective: { domain: { certificationId } } },
+      { bullet: { objective: { domain: { certificationId } } } },
+      { subBullet: { bullet: { objective: { domain: { certificationId } } } } },
+    ],
+  };
+}
+
+const SHEET_QUESTION_SELECT = {
+  id: true,
+  type: true,
+  difficulty: true,
+  text: true,
+  choices: true,
+  correctAnswer: true,
+  explanation: true,
+  objectiveId: true,
+  bulletId: true,
+  subBulletId: true,
+  questionType: true,
+  taskId: true,
+  isActive: true,
+  status: true,
+  createdAt: true,
+  updatedAt: true,
+  objective: { select: { domain: { select: { certificationId: true } } } },
+  bullet: { select: { objective: { select: { domain: { select: { certificationId: true } } } } } },
+  subBullet: {
+    select: {
+      bullet: {
+        select: { objective: { select: { domain: { select: { certificationId: true } } } } },
+      },
+    },
+  },
+} satisfies Prisma.QuestionSelect;
+
+type SheetQuestion = Prisma.QuestionGetPayload<{ select: typeof SHEET_QUESTION_SELECT }>;
+
+function questionCertificationId(question: SheetQuestion): string | null {
+  return (
+    question.objective?.domain.certificationId ??
+    question.bullet?.objective.domain.certificationId ??
+    question.subBullet?.bullet.objective.domain.certificationId ??
+    null
+  );
+}
+
+function toSheetRow(
+  question: SheetQuestion,
+  hierarchy: CertificationHierarchy | undefined
+): QuestionSheetRow {
+  const mappingId = question.subBulletId ?? question.bulletId ?? question.objectiveId;
+  const location = mappingId ? hierarchy?.locations.get(mappingId) : undefined;
+
+  return {
+    id: question.id,
+    certificationCode: hierarchy?.code ?? "",
+    objectiveCode: location?.objectiveCode ?? "",
+    bulletOrder: location?.bulletOrder ?? null,
+    subBulletOrder: location?.subBulletOrder ?? null,
+    type: question.type,
+    difficulty: question.difficulty,
+    questionType: question.questionType,
+    taskId: question.taskId,
+    isActive: question.isActive,
+    status: question.status,
+    text: question.text,
+    explanation: question.explanation,
+    correctAnswer: question.correctAnswer,
+    choices: Array.isArray(question.choices)
+      ? (question.choices as unknown as QuestionOption[])
+      : [],
+  };
+}
+
+function toSerializedQuestion(
+  question: SheetQuestion,
+  hierarchy: CertificationHierarchy | undefined
+): SerializedQuestionWithHierarchy {
+  const mappingId = question.subBulletId ?? question.bulletId ?? question.objectiveId;
+  const location = mappingId ? hierarchy?.locations.get(mappingId) : undefined;
+
+  return {
+    id: question.id,
+    certificationId: hierarchy?.id,
+    objectiveId: question.objectiveId ?? undefined,
+    bulletId: question.bulletId ?? undefined,
+    subBulletId: question.subBulletId ?? undefined,
+    text: question.text,
+    type: question.type,
+    difficulty: question.difficulty,
+    choices: Array.isArray(question.choices)
+      ? (question.choices as unknown as QuestionOption[])
+      : [],
+    correctAnswer: question.correctAnswer,
+    explanation: question.explanation,
+    questionType: question.questionType ?? undefined,
+    taskId: question.taskId ?? undefined,
+    isActive: question.isActive,
+    status: question.status,
+    createdAt: question.createdAt.toISOString(),
+    updatedAt: question.updatedAt.toISOString(),
+    certificationName: hierarchy?.name,
+    certificationCode: hierarchy?.code,
+    domainName: location?.domainName,
+    objectiveName: location?.objectiveName,
+    objectiveCode: location?.objectiveCode,
+    bulletText: location?.bulletText,
+    subBulletText: location?.subBulletText,
+  };
+}
+
+// Bullet text is compared loosely so edits to spacing or case still match
+function normalizeText(value: string): string {
+  return value.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+// One question read from an import file, before it is matched to the database
+interface ImportEntry {
+  rowNumber: number;
+  row: QuestionSheetRow;
+  errors: string[];
+  // QTI/GIFT don't carry task, active state or status; updates keep the current values
+  keepsUnlistedFields: boolean;
+}
+
+/**
+ * Convert a QTI/GIFT item to a row, resolving bullet and sub-bullet text
+ * to positions within the objective
+ */
+function interchangeItemToEntry(
+  hierarchy: CertificationHierarchy,
+  item: ParsedInterchangeItem,
+  defaultObjectiveCode: string | undefined
+): ImportEntry {
+  const { question } = item;
+  const errors = [...item.errors];
+  const objectiveCode = question.objectiveCode || defaultObjectiveCode || "";
+  let bulletOrder: number | null = null;
+  let subBulletOrder: number | null = null;
+
+  const objective = hierarchy.objectivesByCode.get(objectiveCode);
+  if (objective && question.bulletText) {
+    const bulletIndex = objective.bullets.findIndex(
+      (bullet) => normalizeText(bullet.text) === normalizeText(question.bulletText!)
+    );
+    if (bulletIndex < 0) {
+      errors.push(`Objective ${objectiveCode} has no bullet "${question.bulletText}"`);
+    } else {
+      bulletOrder = bulletIndex + 1;
+      if (question.subBulletText) {
+        const subIndex = objective.bullets[bulletIndex].subBullets.findIndex(
+          (sub) => normalizeText(sub.text) === normalizeText(question.subBulletText!)
+        );
+        if (subIndex < 0) {
+          errors.push(`Bullet ${bulletOrder} has no sub-bullet "${question.subBulletText}"`);
+        } else {
+          subBulletOrder = subIndex + 1;
+        }
+      }
+    }
+  }
+
+  const validated = validateQuestionRow({
+    id: question.id ?? "",
+    // The target certification is the one chosen for the import
+    certificationCode: "",
+    objectiveCode,
+    bulletOrder,
+    subBulletOrder,
+    type: question.type,
+    difficulty: question.difficulty,
+    questionType: question.questionType ?? null,
+    taskId: null,
+    isActive: true,
+    status: "",
+    text: question.text,
+    explanation: question.explanation,
+    correctAnswer: question.correctAnswer,
+    choices: question.choices,
+  });
+
+  return {
+    rowNumber: item.itemNumber,
+    row: validated.row,
+    errors: [...errors, ...validated.errors],
+    keepsUnlistedFields: true,
+  };
+}
+
+// ============================================================================
+// FILE HELPERS
+// ============================================================================
+
+async function readTable(fileName: string, buffer: Buffer): Promise<string[][]> {
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "csv") {
+    return parseCsv(buffer.toString("utf8"));
+  }
+
+  if (extension === "xlsx") {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+    const sheet = workbook.worksheets[0];
+    if (!sheet) return [];
+
+    const table: string[][] = [];
+    const columnCount = sheet.columnCount;
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const values: string[] = [];
+      for (let col = 1; col <= columnCount; col++) {
+        values.push(row.getCell(col).text ?? "");
+      }
+      table[rowNumber - 1] = values;
+    });
+    // Rows missing from the sheet come back as empty rows
+    return Array.from(table, (row) => row ?? []);
+  }
+
+  throw new Error("Unsupported file type. Upload a .csv, .xlsx, .zip, .xml, .gift or .txt file.");
+}
+
+/**
+ * Read an import file into entries, picking the format from the extension
+ */
+async function readImportEntries(
+  request: QuestionImportRequest,
+  buffer: Buffer,
+  hierarchy: CertificationHierarchy
+): Promise<ImportEntry[]> {
+  const extension = request.fileName.toLowerCase().split(".").pop();
+  const defaultObjectiveCode = request.defaultObjectiveCode?.trim() || undefined;
+
+  if (extension === "zip" || extension === "xml") {
+    const items = await parseQtiPackage(new Uint8Array(buffer), request.fileName);
+    return items.map((item) => interchangeItemToEntry(hierarchy, item, defaultObjectiveCode));
+  }
+
+  if (extension === "gift" || extension === "txt") {
+    return parseGift(buffer.toString("utf8")).map((item) =>
+      interchangeItemToEntry(hierarchy, item, defaultObjectiveCode)
+    );
+  }
+
+  return tableToRecords(await readTable(request.fileName, buffer)).map((record) => ({
+    rowNumber: record.rowNumber,
+    ...parseQuestionRecord(record.values),
+    keepsUnlistedFields: false,
+  }));
+}
+
+async function writeXlsx(table: string[][]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Questions");
+  // Store every cell as text so codes like "1.10" survive Excel
+  for (const row of table) {
+    sheet.addRow(row);
+  }
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  sheet.columns.forEach((column) => {
+    column.numFmt = "@";
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+async function _importQuestions(
+  currentUser: AuthContext,
+  request: QuestionImportRequest
+): Promise<ActionResult<QuestionImportResult>> {
+  try {
+    const buffer = Buffer.from(request.fileBase64, "base64");
+    if (buffer.length === 0) {
+      return { success: false, error: "The file is empty" };
+    }
+    if (buffer.length > MAX_IMPORT_BYTES) {
+      return { success: false, error: "File is too large (maximum 5MB)" };
+    }
+
+    const hierarchy = await loadCertificationHierarchy(request.certificationId);
+    if (!hierarchy) {
+      return { success: false, error: "Certification not found" };
+    }
+
+    const parsed = await readImportEntries(request, buffer, hierarchy);
+    if (parsed.length === 0) {
+      return { success: false, error: "The file has no questions" };
+    }
+
+    // Existing questions and tasks referenced by the file
+    const ids = parsed.map((p) => p.row.id).filter(Boolean);
+    const taskIds = [...new Set(parsed.map((p) => p.row.taskId).filter(Boolean))] as string[];
+    const [existingQuestions, tasks] = await Promise.all([
+      prisma.question.findMany({ where: { id: { in: ids } }, select: SHEET_QUESTION_SELECT }),
+      prisma.questionTask.findMany({
+        where: { id: { in: taskIds } },
+        select: { id: true, certificationId: true },
+      }),
+    ]);
+    const existingById = new Map(existingQuestions.map((q) => [q.id, q]));
+    const taskById = new Map(tasks.map((t) => [t.id, t]));
+
+    // Hierarchies for existing questions that currently live in another certification
+    const otherCertificationIds = [
+      ...new Set(
+        existingQuestions
+          .map(questionCertificationId)
+          .filter((id): id is string => !!id && id !== hierarchy.id)
+      ),
+    ];
+    const hierarchies = new Map<string, CertificationHierarchy>([[hierarchy.id, hierarchy]]);
+    for (const certificationId of otherCertificationIds) {
+      const other = await loadCertificationHierarchy(certificationId);
+      if (other) hierarchies.set(certificationId, other);
+    }
+
+    const seenIds = new Set<string>();
+    const rows: QuestionImportRowResult[] = [];
+    const writes: {
+      id: string;
+      existing: boolean;
+      row: QuestionSheetRow;
+      mapping: QuestionMapping;
+      previousTaskId: string | null;
+      previousStatus: QuestionStatus | null;
+    }[] = [];
+
+    for (const entry of parsed) {
+      const { rowNumber, errors } = entry;
+      const rowErrors = [...errors];
+      const existing = entry.row.id ? existingById.get(entry.row.id) : undefined;
+      const row =
+        entry.keepsUnlistedFields && existing
+          ? {
+              ...entry.row,
+              taskId: existing.taskId,
+              isActive: existing.isActive,
+              status: existing.status,
+            }
+          : entry.row;
+
+      // Rows for existing questions update them
+      if (existing && !currentUser.permissions.includes("questions.edit")) {
+        rowErrors.push("Updating existing questions requires the questions.edit permission");
+      }
+
+      // Status moves skip the review workflow, so only publishers may make them
+      const currentStatus = existing?.status ?? "draft";
+      if (
+        row.status &&
+        row.status !== currentStatus &&
+        !currentUser.permissions.includes("questions.publish")
+      ) {
+        rowErrors.push(
+          `Changing status from ${currentStatus} to ${row.status} requires the questions.publish permission`
+        );
+      }
+
+      if (row.certificationCode && row.certificationCode !== hierarchy.code) {
+        rowErrors.push(
+          `certificationCode ${row.certificationCode} does not match ${hierarchy.code}`
+        );
+      }
+
+      if (row.id) {
+        if (seenIds.has(row.id)) rowErrors.push(`Question ${row.id} appears more than once`);
+        seenIds.add(row.id);
+      }
+
+      // Only tasks named in the file; kept tasks were already valid
+      if (entry.row.taskId) {
+        const task = taskById.get(entry.row.taskId);
+        if (!task) {
+          rowErrors.push(`Task ${entry.row.taskId} not found`);
+        } else if (task.certificationId !== hierarchy.id) {
+          rowErrors.push(`Task ${entry.row.taskId} belongs to a different certification`);
+        }
+      }
+
+      const resolved = row.objectiveCode ? resolveMapping(hierarchy, row) : {};
+      if (resolved.error) rowErrors.push(resolved.error);
+
+      const base = {
+        rowNumber,
+        questionId: row.id || undefined,
+        text: row.text,
+        location: formatLocation(row),
+      };
+
+      if (rowErrors.length > 0 || !resolved.mapping) {
+        rows.push({ ...base, action: "error", changes: [], errors: rowErrors });
+        continue;
+      }
+
+      if (existing) {
+        const existingCertificationId = questionCertificationId(existing);
+        const before = toSheetRow(
+          existing,
+          existingCertificationId ? hierarchies.get(existingCertificationId) : undefined
+        );
+        const changes = diffQuestionRows(before, { ...row, certificationCode: hierarchy.code });
+        if (changes.length === 0) {
+          rows.push({ ...base, action: "unchanged", changes, errors: [] });
+        } else {
+          rows.push({ ...base, action: "update", changes, errors: [] });
+          writes.push({
+            id: existing.id,
+            existing: true,
+            row,
+            mapping: resolved.mapping,
+            previousTaskId: existing.taskId,
+            previousStatus: existing.status,
+          });
+        }
+      } else {
+        rows.push({ ...base, action: "create", changes: [], errors: [] });
+        writes.push({
+          // IDs from another environment are kept so later exports round-trip
+          id: row.id,
+          existing: false,
+          row,
+          mapping: resolved.mapping,
+          previousTaskId: null,
+          previousStatus: null,
+        });
+      }
+    }
+
+    const summary = {
+      totalRows: rows.length,
+      creates: rows.filter((r) => r.action === "create").length,
+      updates: rows.filter((r) => r.action === "update").length,
+      unchanged: rows.filter((r) => r.action === "unchanged").length,
+      errors: rows.filter((r) => r.action === "error").length,
+    };
+
+    if (request.dryRun || summary.errors > 0 || writes.length === 0) {
+      return { success: true, data: { committed: false, summary, rows } };
+    }
+
+    await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      for (const write of writes) {
+        const data = {
+          text: write.row.text,
+          type: write.row.type,
+          difficulty: write.row.difficulty,
+          choices: write.row.choices as unknown as Prisma.InputJsonValue,
+          correctAnswer: write.row.correctAnswer,
+          explanation: write.row.explanation,
+          questionType: write.row.questionType,
+          taskId: write.row.taskId,
+          isActive: write.row.isActive,
+          ...(write.row.status && { status: write.row.status as QuestionStatus }),
+          ...write.mapping,
+        };
+
+        const meta = { source: "import" as const, editorId: currentUser.userId };
+        let questionId = write.id;
+        if (write.existing) {
+          await updateQuestionWithRevision(tx, write.id, data, meta);
+        } else {
+          const created = await tx.question.create({
+            data: { ...(write.id && { id: write.id }), ...data },
+            select: { id: true },
+          });
+          questionId = created.id;
+          await recordCreatedRevision(tx, created.id, meta);
+        }
+
+        // Status set by the file goes in the audit trail like any other move
+        const fromStatus = write.previousStatus ?? "draft";
+        if (write.row.status && write.row.status !== fromStatus) {
+          await tx.questionReviewEvent.create({
+            data: {
+              questionId,
+              actorId: currentUser.userId,
+              action: "imported",
+              fromStatus: write.previousStatus,
+              toStatus: write.row.status as QuestionStatus,
+            },
+          });
+        }
+      }
+    });
+
+    // Keep task progress in step with the questions that moved in or out
+    const affectedTaskIds = new Set<string>();
+    for (const write of writes) {
+      if (write.row.taskId) affectedTaskIds.add(write.row.taskId);
+      if (write.previousTaskId) affectedTaskIds.add(write.previousTaskId);
+    }
+    for (const taskId of affectedTaskIds) {
+      const count = await prisma.question.count({ where: { taskId } });
+      await prisma.questionTask.update({ where: { id: taskId }, data: { completedTotal: count } });
+    }
+
+    revalidatePath("/admin/questions");
+
+    return { success: true, data: { committed: true, summary, rows } };
+  } catch (error) {
+    console.error("Error importing questions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to import questions",
+    };
+  }
+}
+
+export const importQuestions = withPermission("questions.create")(_importQuestions);
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+async function _exportQuestions(
+  currentUser: AuthContext,
+  request: QuestionExportRequest
+): Promise<ActionResult<QuestionExportFile>> {
+  try {
+    let where: Prisma.QuestionWhereInput;
+    if (request.questionIds && request.questionIds.length > 0) {
+      where = { id: { in: request.questionIds } };
+    } else if (request.objectiveId) {
+      where = {
+        OR: [
+          { objectiveId: request.objectiveId },
+          { bullet: { objectiveId: request.objectiveId } },
+          { subBullet: { bullet: { objectiveId: request.objectiveId } } },
+        ],
+      };
+    } else if (request.domainId) {
+      where = {
+        OR: [
+          { objective: { domainId: request.domainId } },
+          { bullet: { objective: { domainId: request.domainId } } },
+          { subBullet: { bullet: { objective: { domainId: request.domainId } } } },
+        ],
+      };
+    } else if (request.certificationId) {
+      where = certificationQuestionFilter(request.certificationId);
+    } else {
+      return { success: false, error: "Choose a certification or select questions to export" };
+    }
+
+    const questions = await prisma.question.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+      select: SHEET_QUESTION_SELECT,
+    });
+
+    const hierarchies = new Map<string, CertificationHierarchy>();
+    for (const certificationId of new Set(questions.map(questionCertificationId))) {
+      if (!certificationId) continue;
+      const hierarchy = await loadCertificationHierarchy(certificationId);
+      if (hierarchy) hierarchies.set(certificationId, hierarchy);
+    }
+
+    const exported = questions
+      .map((question) => {
+        const certificationId = questionCertificationId(question);
+        const hierarchy = certificationId ? hierarchies.get(certificationId) : undefined;
+        return { question, hierarchy, row: toSheetRow(question, hierarchy) };
+      })
+      // Blueprint order, so the file reads like the exam outline
+      .sort(({ row: a }, { row: b }) =>
+        [a.certificationCode, a.objectiveCode].join(" ").localeCompare(
+          [b.certificationCode, b.objectiveCode].join(" "),
+          undefined,
+          { numeric: true }
+        ) ||
+        (a.bulletOrder ?? 0) - (b.bulletOrder ?? 0) ||
+        (a.subBulletOrder ?? 0) - (b.subBulletOrder ?? 0)
+      );
+
+    const certificationCode = request.certificationId
+      ? hierarchies.get(request.certificationId)?.code
+      : undefined;
+    const prefix = certificationCode ? `${certificationCode}-questions` : "questions";
+    const date = new Date().toISOString().slice(0, 10);
+
+    if (request.format === "qti" || request.format === "gift") {
+      const serialized = exported.map(({ question, hierarchy }) =>
+        toSerializedQuestion(question, hierarchy)
+      );
+
+      if (request.format === "qti") {
+        const qtiPackage = await toQtiPackage(serialized);
+        return {
+          success: true,
+          data: {
+            fileName: `${prefix}-qti-${date}.zip`,
+            mimeType: "application/zip",
+            contentBase64: Buffer.from(qtiPackage.content).toString("base64"),
+            count: qtiPackage.count,
+            skipped: qtiPackage.skipped.length,
+          },
+        };
+      }
+
+      const gift = toGift(serialized);
+      return {
+        success: true,
+        data: {
+          fileName: `${prefix}-${date}.gift`,
+          mimeType: "text/plain",
+          contentBase64: Buffer.from(gift.content, "utf8").toString("base64"),
+          count: gift.count,
+          skipped: gift.skipped.length,
+        },
+      };
+    }
+
+    const rows = exported.map(({ row }) => row);
+    const table = questionsToTable(rows);
+
+    if (request.format === "xlsx") {
+      const buffer = await writeXlsx(table);
+      return {
+        success: true,
+        data: {
+          fileName: `${prefix}-${date}.xlsx`,
+          mimeType: XLSX_MIME_TYPE,
+          contentBase64: buffer.toString("base64"),
+          count: rows.length,
+          skipped: 0,
+        },
+      };
+    }
+
+    // BOM so Excel opens UTF-8 CSVs correctly
+    const csv = "\uFEFF" + toCsv(table);
+    return {
+      success: true,
+      data: {
+        fileName: `${prefix}-${date}.csv`,
+        mimeType: "text/csv",
+        contentBase64: Buffer.from(csv, "utf8").toString("base64"),
+        count: rows.length,
+        skipped: 0,
+      },
+    };
+  } catch (error) {
+    console.error("Error exporting questions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to export questions",
+    };
+  }
+}
+
+export const exportQuestions = withPermission("questions.read")(_exportQuestions);
@@ -284,8 +284,8 @@ export async function getTaskProgressWithObjectives(
       where: { taskId },
       select: {
         objectiveId: true,
-        bulletId: true,
-        subBulletId: true,
+        bullet: { select: { objectiveId: true } },
+        subBullet: { select: { bullet: { select: { objectiveId: true } } } },
       },
     });
 
@@ -309,11 +309,11 @@ export async function getTaskProgressWithObjectives(
       if (!objective) continue;
 
       // Count questions for this objective (including bullets and sub-bullets)
-      const currentCount = questions.filter((q) => {
-        if (q.objectiveId === objective.id) return true;
-        // Check if bulletId or subBulletId belongs to this objective (would need more complex query in real app)
-        return false;
-      }).length;
+      const currentCount = questions.filter(
+        (q) =>
+          (q.objectiveId ?? q.bullet?.objectiveId ?? q.subBullet?.bullet.objectiveId) ===
+          objective.id
+      ).length;
 
       const progress =
         targetCount > 0 ? Math.round((currentCount / targetCount) * 100) : 0;
@@ -0,0 +1,122 @@
+/** @jest-environment node */
+import { reviewQuestionDraft } from '../questionDraft.service'
+
+const findUnique = jest.fn()
+const questionCreate = jest.fn()
+const questionCount = jest.fn()
+const taskUpdate = jest.fn()
+const draftUpdate = jest.fn()
+const draftClaim = jest.fn()
+const eventCreate = jest.fn()
+const recordCreatedRevision = jest.fn()
+
+jest.mock('@/lib/prisma', () => {
+  const client = {
+    questionDraft: {
+      findUnique: (...args: unknown[]) => findUnique(...args),
+      update: (...args: unknown[]) => draftUpdate(...args),
+      updateMany: (...args: unknown[]) => draftClaim(...args),
+    },
+    question: {
+      create: (...args: unknown[]) => questionCreate(...args),
+      count: (...args: unknown[]) => questionCount(...args),
+    },
+    questionTask: { update: (...args: unknown[]) => taskUpdate(...args) },
+    questionReviewEvent: { create: (...args: unknown[]) => eventCreate(...args) },
+  }
+  return { prisma: { ...client, $transaction: (fn: (tx: typeof client) => unknown) => fn(client) } }
+})
+jest.mock('@/lib/queue/questionGenerationQueue', () => ({}))
+jest.mock('../questionGenerator.service', () => ({}))
+jest.mock('../questionRevision.service', () => ({
+  recordCreatedRevision: (...args: unknown[]) => recordCreatedRevision(...args),
+}))
+
+const draft = {
+  id: 'draft-1',
+  taskId: 'task-1',
+  objectiveId: 'obj-1',
+  bulletId: 'b-1',
+  subBulletId: null,
+  type: 'multiple_choice',
+  text: 'Which control stops tailgating at a data center entrance?',
+  choices: [
+    { text: 'Mantrap', isCorrect: true, explanation: 'Admits one person at a time.' },
+    { text: 'Badge reader', isCorrect: false, explanation: 'Can be followed through.' },
+  ],
+  error: null,
+  status: 'pending',
+  questionId: null,
+  createdAt: new Date('2026-01-05T00:00:00Z'),
+  task: { name: 'Security+ bank' },
+  objective: { code: '1.2', description: 'Physical security' },
+  bullet: { text: 'Access control vestibule' },
+  subBullet: null,
+}
+
+describe('question draft review', () => {
+  beforeEach(() => {
+    jest.resetAllMocks()
+    findUnique.mockResolvedValue(draft)
+    questionCreate.mockResolvedValue({ id: 'q-1' })
+    questionCount.mockResolvedValue(4)
+    draftClaim.mockResolvedValue({ count: 1 })
+    draftUpdate.mockImplementation(({ data }) => ({ ...draft, status: 'approved', ...data }))
+  })
+
+  it('approves a draft into the task, mapped to its most specific target', async () => {
+    const reviewed = await reviewQuestionDraft('reviewer-1', {
+      draftId: 'draft-1',
+      decision: 'approve',
+      difficulty: 'hard',
+    })
+
+    expect(questionCreate.mock.calls[0][0].data).toMatchObject({
+      type: 'multiple_choice',
+      difficulty: 'hard',
+      correctAnswer: '0',
+      explanation: 'Admits one person at a time.',
+      objectiveId: null,
+      bulletId: 'b-1',
+      subBulletId: null,
+      taskId: 'task-1',
+      status: 'approved',
+    })
+    expect(recordCreatedRevision).toHaveBeenCalledWith(expect.anything(), 'q-1', {
+      source: 'draft_inbox',
+      editorId: 'reviewer-1',
+    })
+    expect(eventCreate.mock.calls[0][0].data).toMatchObject({
+      questionId: 'q-1',
+      actorId: 'reviewer-1',
+      action: 'approved',
+      toStatus: 'approved',
+    })
+    expect(taskUpdate).toHaveBeenCalledWith({ where: { id: 'task-1' }, data: { completedTotal: 4 } })
+    expect(draftClaim).toHaveBeenCalledWith({
+      where: { id: 'draft-1', status: 'pending' },
+      data: expect.objectContaining({ status: 'approved', reviewedById: 'reviewer-1' }),
+    })
+    expect(reviewed).toMatchObject({ status: 'approved', questionId: 'q-1' })
+  })
+
+  it('rejects a concurrent review once another reviewer has claimed the draft', async () => {
+    draftClaim.mockResolvedValue({ count: 0 })
+
+    await expect(
+      reviewQuestionDraft('reviewer-1', { draftId: 'draft-1', decision: 'approve', difficulty: 'easy' })
+    ).rejects.toThrow('This question draft has already been reviewed')
+    expect(questionCreate).not.toHaveBeenCalled()
+    expect(draftUpdate).not.toHaveBeenCalled()
+  })
+
+  it('refuses drafts that are not awaiting review', async () => {
+    findUnique.mockResolvedValue({ ...draft, status: 'queued' })
+
+    await expect(
+      reviewQuestionDraft('reviewer-1', { draftId: 'draft-1', decision: 'reject' })
+    ).rejects.toThrow('Question draft is queued, not awaiting review')
+    expect(draftUpdate).not.toHaveBeenCalled()
+    expect(draftClaim).not.toHaveBeenCalled()
+  })
+})
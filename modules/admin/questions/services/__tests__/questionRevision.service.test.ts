@@ -0,0 +1,92 @@
+/** @jest-environment node */
+import { updateQuestionWithRevision } from '../questionRevision.service'
+import type { Prisma } from '@prisma/client'
+
+const findUnique = jest.fn()
+const questionUpdate = jest.fn()
+const revisionCreate = jest.fn()
+
+jest.mock('@/lib/prisma', () => ({ prisma: {} }))
+
+const tx = {
+  question: {
+    findUnique: (...args: unknown[]) => findUnique(...args),
+    update: (...args: unknown[]) => questionUpdate(...args),
+  },
+  questionRevision: { create: (...args: unknown[]) => revisionCreate(...args) },
+} as unknown as Prisma.TransactionClient
+
+const question = {
+  text: 'Which port does HTTPS use?',
+  type: 'multiple_choice',
+  difficulty: 'easy',
+  choices: [
+    { text: '80', isCorrect: false },
+    { text: '443', isCorrect: true },
+  ],
+  correctAnswer: '443',
+  explanation: 'HTTPS uses port 443.',
+  questionType: null,
+  objectiveId: 'obj-1',
+  bulletId: null,
+  subBulletId: null,
+  revision: 1,
+}
+
+describe('updateQuestionWithRevision', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('saves the untracked original before the first edit, bumps the revision and drops the stale embedding', async () => {
+    findUnique.mockResolvedValue({ ...question, _count: { revisions: 0 } })
+
+    const written = await updateQuestionWithRevision(
+      tx,
+      'q-1',
+      { text: 'Which TCP port does HTTPS use?' },
+      { source: 'edited', editorId: 'user-1' }
+    )
+
+    expect(written).toBe(true)
+    expect(revisionCreate).toHaveBeenCalledTimes(2)
+    expect(revisionCreate.mock.calls[0][0].data).toMatchObject({
+      revision: 1,
+      source: 'original',
+      text: 'Which port does HTTPS use?',
+    })
+    expect(revisionCreate.mock.calls[1][0].data).toMatchObject({
+      revision: 2,
+      source: 'edited',
+      editorId: 'user-1',
+      text: 'Which TCP port does HTTPS use?',
+    })
+    expect(questionUpdate).toHaveBeenCalledWith({
+      where: { id: 'q-1' },
+      data: {
+        text: 'Which TCP port does HTTPS use?',
+        revision: 2,
+        embedding: null,
+        embeddingUpdatedAt: null,
+      },
+    })
+  })
+
+  it('writes no revision when the content is unchanged', async () => {
+    findUnique.mockResolvedValue({ ...question, revision: 3, _count: { revisions: 3 } })
+
+    const written = await updateQuestionWithRevision(
+      tx,
+      'q-1',
+      { text: question.text, isActive: false },
+      { source: 'bulk_edit', editorId: 'user-1' }
+    )
+
+    expect(written).toBe(false)
+    expect(revisionCreate).not.toHaveBeenCalled()
+    expect(questionUpdate).toHaveBeenCalledWith({
+      where: { id: 'q-1' },
+      data: { text: question.text, isActive: false },
+    })
+  })
+})
@@ -0,0 +1,480 @@
+/**
+ * Question Draft Service
+ *
+ * "Fill the gap" batch generation for question tasks. Each missing question
+ * becomes a queued draft and a BullMQ job; the worker writes the question and
+ * the draft waits in the review inbox. Approving a draft creates an approved
+ * question in the task, ready to publish; rejecting it leaves the gap open for
+ * the next run.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/auth/types";
+import {
+  addQuestionGenerationJobs,
+  removeQuestionGenerationJobs,
+} from "@/lib/queue/questionGenerationQueue";
+import { planGapGeneration } from "../lib/generationPlan";
+import { generateQuestionContent } from "./questionGenerator.service";
+import { recordCreatedRevision } from "./questionRevision.service";
+import type { QuestionOption } from "../types/question.types";
+import {
+  MAX_DRAFTS_PER_FILL,
+  type DraftQuestionType,
+  type DraftStatusCounts,
+  type ObjectiveGap,
+  type QuestionDraftStatus,
+  type SerializedQuestionDraft,
+  type TaskGapSummary,
+} from "../types/questionDraft.types";
+
+// Drafts that already count toward a gap
+const IN_FLIGHT_STATUSES: QuestionDraftStatus[] = ["queued", "pending"];
+
+const DRAFT_INCLUDE = {
+  task: { select: { name: true } },
+  objective: { select: { code: true, description: true } },
+  bullet: { select: { text: true } },
+  subBullet: { select: { text: true } },
+} satisfies Prisma.QuestionDraftInclude;
+
+type DraftRecord = Prisma.QuestionDraftGetPayload<{ include: typeof DRAFT_INCLUDE }>;
+
+function serializeDraft(draft: DraftRecord): SerializedQuestionDraft {
+  return {
+    id: draft.id,
+    taskId: draft.taskId,
+    taskName: draft.task.name,
+    objectiveId: draft.objectiveId,
+    objectiveCode: draft.objective.code,
+    objectiveName: draft.objective.description,
+    bulletText: draft.bullet?.text,
+    subBulletText: draft.subBullet?.text,
+    type: draft.type as DraftQuestionType,
+    text: draft.text,
+    choices: (draft.choices as QuestionOption[] | null) ?? [],
+    error: draft.error,
+    status: draft.status as QuestionDraftStatus,
+    questionId: draft.questionId,
+    createdAt: draft.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Per-objective targets of a task against its questions and in-flight drafts
+ */
+export async function loadTaskGaps(taskId: string): Promise<TaskGapSummary> {
+  const task = await prisma.questionTask.findUnique({
+    where: { id: taskId },
+    include: { certification: { select: { id: true, name: true } } },
+  });
+  if (!task) {
+    throw new NotFoundError("Question task not found");
+  }
+
+  const targets = task.objectives as Record<string, number>;
+  const objectives = await prisma.certificationObjective.findMany({
+    where: { code: { in: Object.keys(targets) }, domain: { certificationId: task.certificationId } },
+    orderBy: [{ domain: { order: "asc" } }, { order: "asc" }],
+    select: { id: true, code: true, description: true, domain: { select: { name: true } } },
+  });
+
+  const [questions, drafts] = await Promise.all([
+    prisma.question.findMany({
+      where: { taskId },
+      select: {
+        objectiveId: true,
+        bullet: { select: { objectiveId: true } },
+        subBullet: { select: { bullet: { select: { objectiveId: true } } } },
+      },
+    }),
+    prisma.questionDraft.groupBy({
+      by: ["objectiveId"],
+      where: { taskId, status: { in: IN_FLIGHT_STATUSES } },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const questionCounts = new Map<string, number>();
+  for (const question of questions) {
+    const objectiveId =
+      question.objectiveId ?? question.bullet?.objectiveId ?? question.subBullet?.bullet.objectiveId;
+    if (objectiveId) {
+      questionCounts.set(objectiveId, (questionCounts.get(objectiveId) ?? 0) + 1);
+    }
+  }
+  const draftCounts = new Map(drafts.map((group) => [group.objectiveId, group._count._all]));
+
+  const gaps: ObjectiveGap[] = objectives.map((objective) => {
+    const targetCount = targets[objective.code] ?? 0;
+    const currentCount = questionCounts.get(objective.id) ?? 0;
+    const inFlightCount = draftCounts.get(objective.id) ?? 0;
+
+    return {
+      objectiveId: objective.id,
+      objectiveCode: objective.code,
+      objectiveName: objective.description,
+      domainName: objective.domain.name,
+      targetCount,
+      currentCount,
+      inFlightCount,
+      missingCount: Math.max(0, targetCount - currentCount - inFlightCount),
+    };
+  });
+
+  return {
+    taskId: task.id,
+    taskName: task.name,
+    certificationId: task.certification.id,
+    certificationName: task.certification.name,
+    objectives: gaps,
+    missingTotal: gaps.reduce((sum, gap) => sum + gap.missingCount, 0),
+  };
+}
+
+/**
+ * Queue a draft for every missing question in the task (up to the limit).
+ * Returns the number of drafts queued.
+ */
+export async function fillTaskGaps(
+  userId: string,
+  taskId: string,
+  limit: number = MAX_DRAFTS_PER_FILL
+): Promise<number> {
+  const task = await prisma.questionTask.findUnique({
+    where: { id: taskId },
+    select: { status: true },
+  });
+  if (!task) {
+    throw new NotFoundError("Question task not found");
+  }
+  if (task.status !== "active") {
+    throw new ValidationError(`Only active tasks can be filled; this task is ${task.status}`);
+  }
+
+  const gaps = await loadTaskGaps(taskId);
+  const open = gaps.objectives.filter((gap) => gap.missingCount > 0);
+  if (open.length === 0) {
+    throw new ValidationError("Every objective in this task has its questions or drafts");
+  }
+
+  const objectiveIds = open.map((gap) => gap.objectiveId);
+  const [outline, questions, drafts] = await Promise.all([
+    prisma.bullet.findMany({
+      where: { objectiveId: { in: objectiveIds } },
+      orderBy: { order: "asc" },
+      select: {
+        id: true,
+        objectiveId: true,
+        subBullets: { orderBy: { order: "asc" }, select: { id: true } },
+      },
+    }),
+    prisma.question.findMany({
+      where: {
+        OR: [
+          { bullet: { objectiveId: { in: objectiveIds } } },
+          { subBullet: { bullet: { objectiveId: { in: objectiveIds } } } },
+        ],
+      },
+      select: { bulletId: true, subBulletId: true },
+    }),
+    prisma.questionDraft.findMany({
+      where: { objectiveId: { in: objectiveIds }, status: { in: IN_FLIGHT_STATUSES } },
+      select: { bulletId: true, subBulletId: true },
+    }),
+  ]);
+
+  // Existing coverage per bullet and sub-bullet, so new drafts go elsewhere first
+  const covered = new Map<string, number>();
+  for (const item of [...questions, ...drafts]) {
+    const key = item.subBulletId ?? item.bulletId;
+    if (key) {
+      covered.set(key, (covered.get(key) ?? 0) + 1);
+    }
+  }
+
+  const slots = planGapGeneration(
+    open.map((gap) => ({
+      objectiveId: gap.objectiveId,
+      missingCount: gap.missingCount,
+      bullets: outline.filter((bullet) => bullet.objectiveId === gap.objectiveId),
+    })),
+    covered,
+    limit
+  );
+
+  const created = await prisma.$transaction(
+    slots.map((slot) =>
+      prisma.questionDraft.create({
+        data: {
+          taskId,
+          objectiveId: slot.objectiveId,
+          bulletId: slot.bulletId ?? null,
+          subBulletId: slot.subBulletId ?? null,
+          type: slot.type,
+          createdById: userId,
+        },
+        select: { id: true },
+      })
+    )
+  );
+
+  try {
+    await addQuestionGenerationJobs(created.map((draft) => ({ draftId: draft.id })));
+  } catch (error) {
+    // Nothing will pick the drafts up; leave them retryable instead of stuck
+    await prisma.questionDraft.updateMany({
+      where: { id: { in: created.map((draft) => draft.id) } },
+      data: { status: "failed", error: "Could not reach the generation queue" },
+    });
+    throw error;
+  }
+
+  return created.length;
+}
+
+/**
+ * Queue failed drafts again
+ */
+export async function retryFailedDrafts(draftIds: string[]): Promise<number> {
+  const drafts = await prisma.questionDraft.findMany({
+    where: { id: { in: draftIds }, status: "failed" },
+    select: { id: true },
+  });
+  if (drafts.length === 0) {
+    throw new ValidationError("None of these drafts failed");
+  }
+
+  const ids = drafts.map((draft) => draft.id);
+  await removeQuestionGenerationJobs(ids);
+  await prisma.questionDraft.updateMany({
+    where: { id: { in: ids } },
+    data: { status: "queued", error: null },
+  });
+  await addQuestionGenerationJobs(ids.map((draftId) => ({ draftId })));
+
+  return ids.length;
+}
+
+/**
+ * Write the question for a queued draft (called by the generation worker).
+ * Drafts no longer queued are skipped.
+ */
+export async function generateQueuedDraft(draftId: string): Promise<boolean> {
+  const draft = await prisma.questionDraft.findUnique({
+    where: { id: draftId },
+    include: {
+      objective: {
+        select: {
+          code: true,
+          description: true,
+          domain: {
+            select: { id: true, name: true, certification: { select: { id: true, name: true } } },
+          },
+        },
+      },
+      bullet: { select: { text: true } },
+      subBullet: { select: { text: true } },
+    },
+  });
+  if (!draft || draft.status !== "queued") {
+    return false;
+  }
+
+  const { objective } = draft;
+  const focus = draft.subBullet?.text ?? draft.bullet?.text ?? objective.description;
+  const generated = await generateQuestionContent(
+    {
+      prompt: `Write a question that tests this topic: ${focus}`,
+      questionType: draft.type as DraftQuestionType,
+      certificationName: objective.domain.certification.name,
+      domainId: objective.domain.id,
+      domainName: objective.domain.name,
+      objectiveCode: objective.code,
+      objectiveName: objective.description,
+      bulletText: draft.bullet?.text,
+      subBulletText: draft.subBullet?.text,
+    },
+    { userId: draft.createdById, certificationId: objective.domain.certification.id }
+  );
+
+  await prisma.questionDraft.update({
+    where: { id: draft.id },
+    data: {
+      text: generated.text,
+      choices: generated.options as unknown as Prisma.InputJsonValue,
+      status: "pending",
+      error: null,
+    },
+  });
+  return true;
+}
+
+/**
+ * Record why a draft couldn't be generated
+ */
+export async function markDraftFailed(draftId: string, error: string) {
+  await prisma.questionDraft.updateMany({
+    where: { id: draftId, status: "queued" },
+    data: { status: "failed", error },
+  });
+}
+
+/**
+ * Drafts in one status, oldest first
+ */
+export async function listDrafts(
+  status: QuestionDraftStatus,
+  taskId?: string
+): Promise<SerializedQuestionDraft[]> {
+  const drafts = await prisma.questionDraft.findMany({
+    where: { status, ...(taskId && { taskId }) },
+    orderBy: { createdAt: "asc" },
+    take: 200,
+    include: DRAFT_INCLUDE,
+  });
+
+  return drafts.map(serializeDraft);
+}
+
+/**
+ * Number of drafts in each status
+ */
+export async function countDraftStatuses(taskId?: string): Promise<DraftStatusCounts> {
+  const groups = await prisma.questionDraft.groupBy({
+    by: ["status"],
+    where: taskId ? { taskId } : undefined,
+    _count: { _all: true },
+  });
+
+  const counts: DraftStatusCounts = { queued: 0, pending: 0, failed: 0, approved: 0, rejected: 0 };
+  for (const group of groups) {
+    if (group.status in counts) {
+      counts[group.status as QuestionDraftStatus] = group._count._all;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Approve a draft (optionally with edits) into the task's questions, or reject it
+ */
+export async function reviewQuestionDraft(
+  reviewerId: string,
+  input:
+    | {
+        draftId: string;
+        decision: "approve";
+        difficulty: "easy" | "medium" | "hard";
+        text?: string;
+        choices?: QuestionOption[];
+      }
+    | { draftId: string; decision: "reject" }
+): Promise<SerializedQuestionDraft> {
+  const draft = await prisma.questionDraft.findUnique({
+    where: { id: input.draftId },
+    include: DRAFT_INCLUDE,
+  });
+  if (!draft) {
+    throw new NotFoundError("Question draft not found");
+  }
+  if (draft.status !== "pending") {
+    throw new ValidationError(`Question draft is ${draft.status}, not awaiting review`);
+  }
+
+  const reviewed = { reviewedById: reviewerId, reviewedAt: new Date() };
+
+  // Claim the draft so two reviewers can't both act on it
+  const claim = async (tx: Prisma.TransactionClient, status: "approved" | "rejected") => {
+    const claimed = await tx.questionDraft.updateMany({
+      where: { id: draft.id, status: "pending" },
+      data: { status, ...reviewed },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictError("This question draft has already been reviewed");
+    }
+  };
+
+  if (input.decision === "reject") {
+    const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await claim(tx, "rejected");
+      return tx.questionDraft.findUniqueOrThrow({
+        where: { id: draft.id },
+        include: DRAFT_INCLUDE,
+      });
+    });
+    return serializeDraft(updated);
+  }
+
+  const text = input.text ?? draft.text ?? "";
+  const choices = input.choices ?? (draft.choices as QuestionOption[] | null) ?? [];
+  const correct = choices.filter((choice) => choice.isCorrect);
+  if (correct.length === 0) {
+    throw new ValidationError("At least one option must be marked as correct");
+  }
+  if (draft.type === "multiple_choice" && correct.length !== 1) {
+    throw new ValidationError("Multiple choice questions must have exactly 1 correct answer");
+  }
+
+  const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    await claim(tx, "approved");
+
+    // Questions map to exactly one level of the outline: the most specific
+    const question = await tx.question.create({
+      data: {
+        text,
+        type: draft.type,
+        difficulty: input.difficulty,
+        choices: choices as unknown as Prisma.InputJsonValue,
+        correctAnswer: choices
+          .map((choice, index) => (choice.isCorrect ? index.toString() : null))
+          .filter(Boolean)
+          .join(","),
+        explanation: correct
+          .map((choice) => choice.explanation)
+          .filter(Boolean)
+          .join("\n\n"),
+        objectiveId: draft.subBulletId || draft.bulletId ? null : draft.objectiveId,
+        bulletId: draft.subBulletId ? null : draft.bulletId,
+        subBulletId: draft.subBulletId,
+        taskId: draft.taskId,
+        // Reviewed here, so it skips straight to waiting for a publisher
+        status: "approved",
+      },
+      select: { id: true },
+    });
+
+    await recordCreatedRevision(tx, question.id, {
+      source: "draft_inbox",
+      editorId: reviewerId,
+    });
+
+    await tx.questionReviewEvent.create({
+      data: {
+        questionId: question.id,
+        actorId: reviewerId,
+        action: "approved",
+        toStatus: "approved",
+        note: "Approved from the AI draft inbox",
+      },
+    });
+
+    await tx.questionTask.update({
+      where: { id: draft.taskId },
+      data: { completedTotal: await tx.question.count({ where: { taskId: draft.taskId } }) },
+    });
+
+    return tx.questionDraft.update({
+      where: { id: draft.id },
+      data: {
+        text,
+        choices: choices as unknown as Prisma.InputJsonValue,
+        questionId: question.id,
+      },
+      include: DRAFT_INCLUDE,
+    });
+  });
+
+  return serializeDraft(updated);
+}
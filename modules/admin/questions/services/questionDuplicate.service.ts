@@ -0,0 +1,291 @@
+/**
+ * Question Duplicate Service
+ *
+ * Finds near-identical questions by comparing embeddings of their stems and
+ * options. Embeddings are cached on the question and filled in lazily the
+ * first time a question is compared, so a check only pays for questions that
+ * are new or were edited since. Duplicates found in the report are resolved by
+ * merging (retire and point at the question kept) or retiring outright; both
+ * land in the question's review audit trail.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotFoundError, ValidationError } from "@/lib/auth/types";
+import {
+  bufferToEmbedding,
+  cosineSimilarity,
+  createEmbedding,
+  createEmbeddingsBatch,
+  embeddingToBuffer,
+} from "@/modules/content/services/embedding.service";
+import { certificationQuestionFilter } from "@/modules/student/practiceExams/services/questionPool.service";
+import {
+  MAX_REPORT_PAIRS,
+  pairSimilarQuestions,
+  questionEmbeddingText,
+  rankSimilarQuestions,
+  type EmbeddedQuestion,
+} from "../lib/duplicateDetection";
+import type { QuestionOption } from "../types/question.types";
+import type {
+  CheckQuestionDuplicatesInput,
+  ResolveDuplicateQuestionInput,
+  SimilarQuestion,
+  SimilarQuestionSummary,
+  SimilarQuestionsReport,
+} from "../types/questionDuplicate.types";
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+const OBJECTIVE_CODE = { select: { code: true } } as const;
+
+const SUMMARY_SELECT = {
+  id: true,
+  text: true,
+  choices: true,
+  status: true,
+  createdAt: true,
+  objective: OBJECTIVE_CODE,
+  bullet: { select: { objective: OBJECTIVE_CODE } },
+  subBullet: { select: { bullet: { select: { objective: OBJECTIVE_CODE } } } },
+} satisfies Prisma.QuestionSelect;
+
+type SummaryRecord = Prisma.QuestionGetPayload<{ select: typeof SUMMARY_SELECT }>;
+
+function choicesOf(choices: Prisma.JsonValue): QuestionOption[] {
+  return Array.isArray(choices) ? (choices as unknown as QuestionOption[]) : [];
+}
+
+function toSummary(question: SummaryRecord): SimilarQuestionSummary {
+  const objective =
+    question.objective ?? question.bullet?.objective ?? question.subBullet?.bullet.objective;
+
+  return {
+    id: question.id,
+    text: question.text,
+    choices: choicesOf(question.choices).map((choice) => choice.text),
+    status: question.status,
+    objectiveCode: objective?.code ?? null,
+    createdAt: question.createdAt.toISOString(),
+  };
+}
+
+// Questions a new or edited question is compared against
+function comparisonScope(certificationId?: string, excludeQuestionId?: string): Prisma.QuestionWhereInput {
+  return {
+    status: { not: "retired" },
+    ...(excludeQuestionId && { id: { not: excludeQuestionId } }),
+    ...(certificationId && certificationQuestionFilter(certificationId)),
+  };
+}
+
+/**
+ * Embed every question in scope that has no cached embedding yet. A failed
+ * batch is logged and skipped; those questions are retried on the next check.
+ */
+export async function ensureQuestionEmbeddings(
+  where: Prisma.QuestionWhereInput,
+  billing: { userId?: string; certificationId?: string } = {}
+): Promise<number> {
+  const missing = await prisma.question.findMany({
+    where: { ...where, embedding: null },
+    select: { id: true, text: true, choices: true },
+  });
+  const embeddable = missing.filter((question) => question.text.trim().length > 0);
+
+  let embedded = 0;
+  for (let i = 0; i < embeddable.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = embeddable.slice(i, i + EMBEDDING_BATCH_SIZE);
+
+    try {
+      const embeddings = await createEmbeddingsBatch(
+        batch.map((question) =>
+          questionEmbeddingText({ text: question.text, choices: choicesOf(question.choices) })
+        ),
+        billing
+      );
+
+      await prisma.$transaction(
+        batch.map((question, j) =>
+          prisma.question.update({
+            where: { id: question.id },
+            data: { embedding: embeddingToBuffer(embeddings[j]), embeddingUpdatedAt: new Date() },
+          })
+        )
+      );
+      embedded += batch.length;
+    } catch (error) {
+      console.error(
+        `[Duplicates] Failed to embed question batch ${i / EMBEDDING_BATCH_SIZE + 1}:`,
+        error
+      );
+    }
+  }
+
+  return embedded;
+}
+
+async function loadEmbeddedQuestions(where: Prisma.QuestionWhereInput): Promise<EmbeddedQuestion[]> {
+  const questions = await prisma.question.findMany({
+    where: { ...where, embedding: { not: null } },
+    select: { id: true, embedding: true },
+  });
+
+  return questions.map((question) => ({
+    id: question.id,
+    embedding: bufferToEmbedding(Buffer.from(question.embedding!)),
+  }));
+}
+
+async function loadSummaries(ids: string[]): Promise<Map<string, SimilarQuestionSummary>> {
+  const questions = await prisma.question.findMany({
+    where: { id: { in: ids } },
+    select: SUMMARY_SELECT,
+  });
+
+  return new Map(questions.map((question) => [question.id, toSummary(question)]));
+}
+
+/**
+ * Existing questions that look like near-duplicates of the given stem and
+ * options, most similar first. Compares against the certification's questions
+ * when one is given, otherwise the whole bank.
+ */
+export async function findSimilarQuestions(
+  userId: string,
+  input: CheckQuestionDuplicatesInput
+): Promise<SimilarQuestion[]> {
+  const scope = comparisonScope(input.certificationId, input.excludeQuestionId);
+  const billing = { userId, certificationId: input.certificationId };
+
+  const target = await createEmbedding(questionEmbeddingText(input), billing);
+  await ensureQuestionEmbeddings(scope, billing);
+
+  const matches = rankSimilarQuestions(target, await loadEmbeddedQuestions(scope), cosineSimilarity);
+  const summaries = await loadSummaries(matches.map((match) => match.id));
+
+  return matches.flatMap((match) => {
+    const summary = summaries.get(match.id);
+    return summary ? [{ ...summary, similarity: match.similarity }] : [];
+  });
+}
+
+/**
+ * Questions closest in meaning to an already-embedded search query, most
+ * similar first. Unlike a duplicate check this wants related questions, so
+ * the similarity floor is much lower.
+ */
+export async function findQuestionsByMeaning(
+  target: number[],
+  options: { certificationId?: string; minSimilarity: number; limit: number },
+  billing: { userId?: string } = {}
+): Promise<SimilarQuestion[]> {
+  const scope = comparisonScope(options.certificationId);
+  await ensureQuestionEmbeddings(scope, { ...billing, certificationId: options.certificationId });
+
+  const matches = rankSimilarQuestions(
+    target,
+    await loadEmbeddedQuestions(scope),
+    cosineSimilarity,
+    options.minSimilarity,
+    options.limit
+  );
+  const summaries = await loadSummaries(matches.map((match) => match.id));
+
+  return matches.flatMap((match) => {
+    const summary = summaries.get(match.id);
+    return summary ? [{ ...summary, similarity: match.similarity }] : [];
+  });
+}
+
+/**
+ * Pairs of near-identical questions within a certification, most similar first
+ */
+export async function buildSimilarQuestionsReport(
+  userId: string,
+  certificationId: string,
+  threshold: number
+): Promise<SimilarQuestionsReport> {
+  const scope = comparisonScope(certificationId);
+
+  await ensureQuestionEmbeddings(scope, { userId, certificationId });
+  const questions = await loadEmbeddedQuestions(scope);
+
+  const pairs = pairSimilarQuestions(questions, cosineSimilarity, threshold);
+  const shown = pairs.slice(0, MAX_REPORT_PAIRS);
+  const summaries = await loadSummaries([
+    ...new Set(shown.flatMap((pair) => [pair.firstId, pair.secondId])),
+  ]);
+
+  return {
+    certificationId,
+    threshold,
+    questionCount: questions.length,
+    pairs: shown.flatMap((pair) => {
+      const first = summaries.get(pair.firstId);
+      const second = summaries.get(pair.secondId);
+      return first && second ? [{ similarity: pair.similarity, first, second }] : [];
+    }),
+    truncated: pairs.length > shown.length,
+  };
+}
+
+/**
+ * Retire a duplicate, either on its own or merged into the question being
+ * kept (the retired question then points at it)
+ * @throws {NotFoundError} If either question doesn't exist
+ * @throws {ValidationError} If the duplicate is already retired or the kept question is
+ */
+export async function resolveDuplicateQuestion(
+  actorId: string,
+  input: ResolveDuplicateQuestionInput
+): Promise<void> {
+  const question = await prisma.question.findUnique({
+    where: { id: input.questionId },
+    select: { id: true, status: true },
+  });
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+  if (question.status === "retired") {
+    throw new ValidationError("Question is already retired");
+  }
+
+  let keep: { id: string; text: string } | null = null;
+  if (input.action === "merge") {
+    const kept = await prisma.question.findUnique({
+      where: { id: input.keepQuestionId },
+      select: { id: true, text: true, status: true },
+    });
+    if (!kept) {
+      throw new NotFoundError("Question to keep not found");
+    }
+    if (kept.status === "retired") {
+      throw new ValidationError("Can't merge into a retired question");
+    }
+    keep = kept;
+  }
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Guard against a concurrent move from the status we checked
+    const { count } = await tx.question.updateMany({
+      where: { id: question.id, status: question.status },
+      data: { status: "retired", isActive: false, duplicateOfId: keep?.id ?? null },
+    });
+    if (count === 0) {
+      throw new ValidationError("The question changed status; reload and try again");
+    }
+
+    await tx.questionReviewEvent.create({
+      data: {
+        questionId: question.id,
+        actorId,
+        action: keep ? "merged_duplicate" : "retired",
+        fromStatus: question.status,
+        toStatus: "retired",
+        note: keep ? `Merged into: ${keep.text.slice(0, 200)}` : "Retired as a near-duplicate",
+      },
+    });
+  });
+}
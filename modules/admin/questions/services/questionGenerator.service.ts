@@ -0,0 +1,165 @@
+/**
+ * Question Generator Service
+ *
+ * Writes one question through the AI gateway from the live question
+ * generation prompt. Shared by the one-click generate action and the batch
+ * generation worker.
+ */
+
+import { z } from "zod";
+import { aiGateway } from "@/lib/ai/gateway";
+import { questionGenerationVariables } from "@/lib/ai/prompts";
+import { renderStoredPrompt } from "@/lib/ai/promptStore";
+import { ValidationError } from "@/lib/auth/types";
+import type { GenerateQuestionRequest, GeneratedQuestion } from "../types";
+
+// Shape only; validateGeneratedQuestion checks counts and lengths
+const generatedQuestionSchema = z.object({
+  text: z.string(),
+  options: z.array(
+    z.object({
+      text: z.string(),
+      isCorrect: z.boolean(),
+      explanation: z.string(),
+    })
+  ),
+});
+
+export interface GenerationContext {
+  userId: string;
+  // Picks prompt overrides and is billed for the call
+  certificationId?: string | null;
+}
+
+/**
+ * Generate and validate a question.
+ * Throws ValidationError when the model's question breaks the format rules.
+ */
+export async function generateQuestionContent(
+  request: GenerateQuestionRequest,
+  context: GenerationContext
+): Promise<GeneratedQuestion> {
+  const {
+    prompt,
+    questionType,
+    certificationName,
+    domainName,
+    objectiveCode,
+    objectiveName,
+    bulletText,
+    subBulletText,
+  } = request;
+
+  // Build messages from the live prompt template
+  const systemMessage = await renderStoredPrompt(
+    "question_generation",
+    questionGenerationVariables({
+      questionType,
+      certificationName,
+      domainName,
+      objectiveCode,
+      objectiveName,
+      bulletText,
+      subBulletText,
+    }),
+    context.certificationId
+  );
+  const userMessage = buildUserMessage(prompt, questionType);
+
+  // Gateway handles model choice, retries and timeouts
+  const { data: generatedQuestion } = await aiGateway.generateJSON({
+    task: "generation",
+    usage: {
+      feature: "question_generation",
+      userId: context.userId,
+      certificationId: context.certificationId,
+    },
+    system: systemMessage,
+    prompt: userMessage,
+    temperature: 0.7,
+    maxTokens: 2000,
+    schema: generatedQuestionSchema,
+  });
+
+  const validationError = validateGeneratedQuestion(generatedQuestion, questionType);
+  if (validationError) {
+    console.error("Generated question validation failed:", validationError);
+    throw new ValidationError(`AI generated invalid question: ${validationError}`);
+  }
+
+  return generatedQuestion;
+}
+
+function buildUserMessage(prompt: string, questionType: string): string {
+  return `Generate a ${questionType.replace("_", " ")} question based on this prompt:
+
+${prompt}
+
+Remember to respond with valid JSON only, following the specified format exactly.`;
+}
+
+function validateGeneratedQuestion(
+  question: z.infer<typeof generatedQuestionSchema>,
+  questionType: string
+): string | null {
+  // Check basic structure
+  if (!question.text || typeof question.text !== "string") {
+    return "Missing or invalid question text";
+  }
+
+  if (question.text.length < 20) {
+    return "Question text too short";
+  }
+
+  if (!Array.isArray(question.options)) {
+    return "Missing or invalid options array";
+  }
+
+  const expectedOptionCount = questionType === "multiple_choice" ? 4 : 6;
+  if (question.options.length !== expectedOptionCount) {
+    return `Must have exactly ${expectedOptionCount} options for ${questionType}`;
+  }
+
+  // Validate each option
+  for (let i = 0; i < question.options.length; i++) {
+    const option = question.options[i];
+
+    if (!option.text || typeof option.text !== "string") {
+      return `Option ${i + 1}: Missing or invalid text`;
+    }
+
+    if (option.text.length < 5) {
+      return `Option ${i + 1}: Text too short`;
+    }
+
+    if (typeof option.isCorrect !== "boolean") {
+      return `Option ${i + 1}: Missing or invalid isCorrect field`;
+    }
+
+    if (!option.explanation || typeof option.explanation !== "string") {
+      return `Option ${i + 1}: Missing or invalid explanation`;
+    }
+
+    // Check minimum explanation length
+    if (option.explanation.length < 20) {
+      return `Option ${i + 1}: Explanation too short (minimum 20 characters)`;
+    }
+  }
+
+  // Validate correct answer count based on question type
+  const correctCount = question.options.filter((opt) => opt.isCorrect).length;
+
+  if (questionType === "multiple_choice" && correctCount !== 1) {
+    return "Multiple choice questions must have exactly 1 correct answer";
+  }
+
+  if (questionType === "multi_select" && correctCount === 0) {
+    return "Multi-select questions must have at least 1 correct answer";
+  }
+
+  if (questionType === "multi_select" && correctCount > 4) {
+    return "Multi-select questions should not have more than 4 correct answers";
+  }
+
+  return null; // No validation errors
+}
@@ -0,0 +1,413 @@
+/**
+ * Question Review Service
+ *
+ * The editorial workflow around a question: assigned reviewers, threaded
+ * comments and status moves from draft to published. Every move and
+ * reviewer change is written to the question's audit trail with the user who
+ * made it. The rules for each move live in lib/reviewWorkflow.
+ */
+
+import { Prisma, QuestionStatus } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { AuthContext, NotFoundError, ValidationError } from "@/lib/auth/types";
+import { SYSTEM_ROLES } from "@/lib/auth/permissions";
+import { getRolePermissions, permissionsForRoles } from "@/lib/auth/rolePermissions";
+import {
+  REVIEW_EVENT_ACTIONS,
+  REVIEW_TRANSITIONS,
+  availableReviewActions,
+  transitionError,
+} from "../lib/reviewWorkflow";
+import type { QuestionOption } from "../types/question.types";
+import type {
+  AddQuestionCommentInput,
+  QuestionCommentThread,
+  QuestionReviewDetail,
+  QuestionReviewerInput,
+  ReviewQueueItem,
+  ReviewUser,
+  SerializedQuestionComment,
+  TransitionQuestionInput,
+} from "../types/questionReview.types";
+
+const USER_SELECT = { select: { id: true, name: true, email: true } } as const;
+
+// Certification and objective, whichever outline level the question maps to
+const OBJECTIVE_SELECT = {
+  select: {
+    code: true,
+    description: true,
+    domain: { select: { certification: { select: { name: true, code: true } } } },
+  },
+} as const;
+
+const HIERARCHY_SELECT = {
+  objective: OBJECTIVE_SELECT,
+  bullet: { select: { objective: OBJECTIVE_SELECT } },
+  subBullet: { select: { bullet: { select: { objective: OBJECTIVE_SELECT } } } },
+} satisfies Prisma.QuestionSelect;
+
+const COMMENT_SELECT = {
+  id: true,
+  body: true,
+  createdAt: true,
+  author: USER_SELECT,
+} satisfies Prisma.QuestionCommentSelect;
+
+type HierarchyRecord = Prisma.QuestionGetPayload<{ select: typeof HIERARCHY_SELECT }>;
+type CommentRecord = Prisma.QuestionCommentGetPayload<{ select: typeof COMMENT_SELECT }>;
+
+function questionObjective(question: HierarchyRecord) {
+  return question.objective ?? question.bullet?.objective ?? question.subBullet?.bullet.objective ?? null;
+}
+
+function serializeComment(comment: CommentRecord): SerializedQuestionComment {
+  return {
+    id: comment.id,
+    author: comment.author,
+    body: comment.body,
+    createdAt: comment.createdAt.toISOString(),
+  };
+}
+
+async function loadReviewState(questionId: string) {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: { id: true, status: true, reviewers: { select: { reviewerId: true } } },
+  });
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+
+  return {
+    id: question.id,
+    status: question.status,
+    reviewerIds: question.reviewers.map((reviewer) => reviewer.reviewerId),
+  };
+}
+
+/**
+ * A question with its reviewers, comment threads, audit trail and the moves
+ * the user can make
+ * @throws {NotFoundError} If the question doesn't exist
+ */
+export async function loadQuestionReview(
+  user: AuthContext,
+  questionId: string
+): Promise<QuestionReviewDetail> {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: {
+      id: true,
+      text: true,
+      type: true,
+      difficulty: true,
+      status: true,
+      choices: true,
+      duplicateOfId: true,
+      ...HIERARCHY_SELECT,
+      reviewers: {
+        orderBy: { createdAt: "asc" },
+        select: { createdAt: true, reviewer: USER_SELECT },
+      },
+      comments: {
+        where: { parentId: null },
+        orderBy: { createdAt: "asc" },
+        select: {
+          ...COMMENT_SELECT,
+          resolvedAt: true,
+          replies: { orderBy: { createdAt: "asc" }, select: COMMENT_SELECT },
+        },
+      },
+      reviewEvents: {
+        orderBy: { createdAt: "desc" },
+        select: {
+          id: true,
+          action: true,
+          fromStatus: true,
+          toStatus: true,
+          note: true,
+          reviewerId: true,
+          createdAt: true,
+          actor: USER_SELECT,
+        },
+      },
+    },
+  });
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+
+  // Removed reviewers no longer have an assignment row, so look them up
+  const eventReviewerIds = [
+    ...new Set(question.reviewEvents.flatMap((event) => (event.reviewerId ? [event.reviewerId] : []))),
+  ];
+  const eventReviewers = eventReviewerIds.length
+    ? await prisma.user.findMany({ where: { id: { in: eventReviewerIds } }, ...USER_SELECT })
+    : [];
+  const reviewersById = new Map(eventReviewers.map((reviewer) => [reviewer.id, reviewer]));
+
+  const objective = questionObjective(question);
+  const reviewerIds = question.reviewers.map(({ reviewer }) => reviewer.id);
+
+  return {
+    question: {
+      id: question.id,
+      text: question.text,
+      type: question.type,
+      difficulty: question.difficulty,
+      status: question.status,
+      choices: Array.isArray(question.choices) ? (question.choices as unknown as QuestionOption[]) : [],
+      certificationName: objective?.domain.certification.name,
+      objectiveCode: objective?.code,
+      objectiveName: objective?.description,
+      duplicateOfId: question.duplicateOfId,
+    },
+    reviewers: question.reviewers.map(({ reviewer, createdAt }) => ({
+      ...reviewer,
+      assignedAt: createdAt.toISOString(),
+    })),
+    threads: question.comments.map(
+      (comment): QuestionCommentThread => ({
+        ...serializeComment(comment),
+        resolvedAt: comment.resolvedAt?.toISOString() ?? null,
+        replies: comment.replies.map(serializeComment),
+      })
+    ),
+    events: question.reviewEvents.map((event) => ({
+      id: event.id,
+      action: event.action,
+      actor: event.actor,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      note: event.note,
+      reviewer: event.reviewerId ? (reviewersById.get(event.reviewerId) ?? null) : null,
+      createdAt: event.createdAt.toISOString(),
+    })),
+    actions: availableReviewActions({ status: question.status, reviewerIds }, user),
+  };
+}
+
+/**
+ * Users whose roles grant questions.review
+ */
+export async function listReviewCandidates(): Promise<ReviewUser[]> {
+  const rolePermissions = await getRolePermissions();
+  // System roles not yet saved to the table review with their defaults
+  const roleNames = new Set([...rolePermissions.keys(), ...SYSTEM_ROLES.map((role) => role.name)]);
+  const reviewerRoles = Array.from(roleNames).filter((role) =>
+    permissionsForRoles([role], rolePermissions).includes("questions.review")
+  );
+  if (reviewerRoles.length === 0) {
+    return [];
+  }
+
+  return prisma.user.findMany({
+    where: { roles: { hasSome: reviewerRoles } },
+    orderBy: [{ name: "asc" }, { email: "asc" }],
+    ...USER_SELECT,
+  });
+}
+
+/**
+ * Assign a reviewer to a question
+ * @throws {ValidationError} If the user can't review questions or is already assigned
+ */
+export async function assignReviewer(actorId: string, input: QuestionReviewerInput): Promise<void> {
+  const question = await loadReviewState(input.questionId);
+  if (question.reviewerIds.includes(input.reviewerId)) {
+    throw new ValidationError("That user is already reviewing this question");
+  }
+
+  const candidates = await listReviewCandidates();
+  if (!candidates.some((candidate) => candidate.id === input.reviewerId)) {
+    throw new ValidationError("That user doesn't have permission to review questions");
+  }
+
+  await prisma.$transaction([
+    prisma.questionReviewer.create({
+      data: { questionId: question.id, reviewerId: input.reviewerId, assignedById: actorId },
+    }),
+    prisma.questionReviewEvent.create({
+      data: {
+        questionId: question.id,
+        actorId,
+        action: "reviewer_assigned",
+        reviewerId: input.reviewerId,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Remove a reviewer from a question
+ * @throws {ValidationError} If it would leave a question in review without reviewers
+ */
+export async function removeReviewer(actorId: string, input: QuestionReviewerInput): Promise<void> {
+  const question = await loadReviewState(input.questionId);
+  if (!question.reviewerIds.includes(input.reviewerId)) {
+    throw new NotFoundError("That user isn't reviewing this question");
+  }
+  if (question.status === "in_review" && question.reviewerIds.length === 1) {
+    throw new ValidationError("A question in review needs at least one reviewer");
+  }
+
+  await prisma.$transaction([
+    prisma.questionReviewer.delete({
+      where: { questionId_reviewerId: { questionId: question.id, reviewerId: input.reviewerId } },
+    }),
+    prisma.questionReviewEvent.create({
+      data: {
+        questionId: question.id,
+        actorId,
+        action: "reviewer_removed",
+        reviewerId: input.reviewerId,
+      },
+    }),
+  ]);
+}
+
+/**
+ * Move a question through the workflow and record who did it. Requesting
+ * changes also opens a comment thread with the reviewer's note.
+ * @throws {ValidationError} If the move doesn't apply to the question's status or
+ *   the user may not make it
+ */
+export async function transitionQuestion(
+  user: AuthContext,
+  input: TransitionQuestionInput
+): Promise<QuestionStatus> {
+  const question = await loadReviewState(input.questionId);
+  const rule = REVIEW_TRANSITIONS[input.action];
+
+  const error = transitionError(input.action, question, user, input.note);
+  if (error) {
+    throw new ValidationError(error);
+  }
+
+  const note = input.note?.trim() || null;
+
+  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    // Guard against a concurrent move from the status we checked
+    const { count } = await tx.question.updateMany({
+      where: { id: question.id, status: question.status },
+      data: {
+        status: rule.to,
+        // Kept in step for the question bank's active filter
+        ...(rule.to === "published" && { isActive: true }),
+        ...(rule.to === "retired" && { isActive: false }),
+      },
+    });
+    if (count === 0) {
+      throw new ValidationError("The question changed status; reload and try again");
+    }
+
+    await tx.questionReviewEvent.create({
+      data: {
+        questionId: question.id,
+        actorId: user.userId,
+        action: REVIEW_EVENT_ACTIONS[input.action],
+        fromStatus: question.status,
+        toStatus: rule.to,
+        note,
+      },
+    });
+
+    if (input.action === "request_changes" && note) {
+      await tx.questionComment.create({
+        data: { questionId: question.id, authorId: user.userId, body: note },
+      });
+    }
+  });
+
+  return rule.to;
+}
+
+/**
+ * Start a comment thread on a question or reply to one
+ * @throws {NotFoundError} If the question or parent comment doesn't exist
+ */
+export async function addComment(authorId: string, input: AddQuestionCommentInput): Promise<void> {
+  let parentId: string | null = null;
+
+  if (input.parentId) {
+    const parent = await prisma.questionComment.findUnique({
+      where: { id: input.parentId },
+      select: { id: true, questionId: true, parentId: true },
+    });
+    if (!parent || parent.questionId !== input.questionId) {
+      throw new NotFoundError("Comment not found");
+    }
+    // Threads are one level deep: replies to a reply join its thread
+    parentId = parent.parentId ?? parent.id;
+  } else {
+    await loadReviewState(input.questionId);
+  }
+
+  await prisma.questionComment.create({
+    data: { questionId: input.questionId, authorId, parentId, body: input.body },
+  });
+}
+
+/**
+ * Mark a comment thread resolved, or open it again
+ * @throws {ValidationError} If the comment is a reply rather than a thread
+ */
+export async function resolveCommentThread(commentId: string, resolved: boolean): Promise<void> {
+  const comment = await prisma.questionComment.findUnique({
+    where: { id: commentId },
+    select: { parentId: true },
+  });
+  if (!comment) {
+    throw new NotFoundError("Comment not found");
+  }
+  if (comment.parentId) {
+    throw new ValidationError("Only whole threads can be resolved");
+  }
+
+  await prisma.questionComment.update({
+    where: { id: commentId },
+    data: { resolvedAt: resolved ? new Date() : null },
+  });
+}
+
+/**
+ * Questions in one workflow status, oldest change first so nothing waits
+ * forever
+ */
+export async function listReviewQueue(
+  status: QuestionStatus,
+  reviewerId?: string
+): Promise<ReviewQueueItem[]> {
+  const questions = await prisma.question.findMany({
+    where: {
+      status,
+      ...(reviewerId && { reviewers: { some: { reviewerId } } }),
+    },
+    orderBy: { updatedAt: "asc" },
+    take: 200,
+    select: {
+      id: true,
+      text: true,
+      status: true,
+      updatedAt: true,
+      ...HIERARCHY_SELECT,
+      reviewers: { orderBy: { createdAt: "asc" }, select: { reviewer: USER_SELECT } },
+      _count: { select: { comments: { where: { parentId: null, resolvedAt: null } } } },
+    },
+  });
+
+  return questions.map((question) => {
+    const objective = questionObjective(question);
+    return {
+      id: question.id,
+      text: question.text,
+      status: question.status,
+      certificationCode: objective?.domain.certification.code,
+      objectiveCode: objective?.code,
+      reviewers: question.reviewers.map(({ reviewer }) => reviewer),
+      openThreads: question._count.comments,
+      updatedAt: question.updatedAt.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,282 @@
+/**
+ * Question Revision Service
+ *
+ * Append-only history of a question's content. Every write path (the editor,
+ * bulk edit, sheet import, the draft inbox and restores) goes through here so
+ * each change lands as a numbered revision with who made it and why. Student
+ * attempts record the revision they were graded on, so a disputed item can be
+ * matched to the exact wording the student saw.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotFoundError, ValidationError } from "@/lib/auth/types";
+import { contentChanged, revisionContent } from "../lib/revisionDiff";
+import { questionEmbeddingText } from "../lib/duplicateDetection";
+import type { QuestionOption } from "../types/question.types";
+import type {
+  QuestionRevisionHistory,
+  QuestionRevisionSource,
+  RevisionContent,
+} from "../types/questionRevision.types";
+
+type Client = Prisma.TransactionClient;
+
+export const REVISION_CONTENT_SELECT = {
+  text: true,
+  type: true,
+  difficulty: true,
+  choices: true,
+  correctAnswer: true,
+  explanation: true,
+  questionType: true,
+  objectiveId: true,
+  bulletId: true,
+  subBulletId: true,
+} satisfies Prisma.QuestionSelect;
+
+type ContentRecord = Prisma.QuestionGetPayload<{ select: typeof REVISION_CONTENT_SELECT }>;
+
+export interface RevisionMeta {
+  source: QuestionRevisionSource;
+  editorId: string | null;
+  note?: string | null;
+  restoredFrom?: number;
+}
+
+function toContent(record: ContentRecord): RevisionContent {
+  return revisionContent({
+    ...record,
+    choices: Array.isArray(record.choices) ? (record.choices as unknown as QuestionOption[]) : [],
+  });
+}
+
+function revisionData(content: RevisionContent) {
+  return { ...content, choices: content.choices as unknown as Prisma.InputJsonValue };
+}
+
+/**
+ * Record revision 1 for a question that was just created
+ */
+export async function recordCreatedRevision(
+  tx: Client,
+  questionId: string,
+  meta: RevisionMeta
+): Promise<void> {
+  const question = await tx.question.findUniqueOrThrow({
+    where: { id: questionId },
+    select: { ...REVISION_CONTENT_SELECT, revision: true },
+  });
+
+  await tx.questionRevision.create({
+    data: {
+      questionId,
+      revision: question.revision,
+      ...revisionData(toContent(question)),
+      source: meta.source,
+      note: meta.note ?? null,
+      editorId: meta.editorId,
+    },
+  });
+}
+
+/**
+ * Update a question and, when its content changes, append the next revision.
+ * Questions from before revisions were tracked get their current content
+ * saved as an "original" revision first, so the first edit can be undone.
+ * Returns whether a revision was written.
+ * @throws {NotFoundError} If the question doesn't exist
+ */
+export async function updateQuestionWithRevision(
+  tx: Client,
+  questionId: string,
+  data: Prisma.QuestionUncheckedUpdateInput,
+  meta: RevisionMeta
+): Promise<boolean> {
+  const question = await tx.question.findUnique({
+    where: { id: questionId },
+    select: {
+      ...REVISION_CONTENT_SELECT,
+      revision: true,
+      _count: { select: { revisions: true } },
+    },
+  });
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+
+  const before = toContent(question);
+  const after = revisionContent({
+    ...before,
+    ...(Object.fromEntries(
+      Object.entries(data).filter(([field]) => field in REVISION_CONTENT_SELECT)
+    ) as Partial<RevisionContent>),
+  });
+
+  if (!contentChanged(before, after)) {
+    await tx.question.update({ where: { id: questionId }, data });
+    return false;
+  }
+
+  if (question._count.revisions === 0) {
+    await tx.questionRevision.create({
+      data: {
+        questionId,
+        revision: question.revision,
+        ...revisionData(before),
+        source: "original",
+        editorId: null,
+      },
+    });
+  }
+
+  const revision = question.revision + 1;
+  await tx.question.update({
+    where: { id: questionId },
+    data: {
+      ...data,
+      revision,
+      // The cached duplicate-detection embedding only covers the stem and options
+      ...(questionEmbeddingText(before) !== questionEmbeddingText(after) && {
+        embedding: null,
+        embeddingUpdatedAt: null,
+      }),
+    },
+  });
+  await tx.questionRevision.create({
+    data: {
+      questionId,
+      revision,
+      ...revisionData(after),
+      source: meta.source,
+      note: meta.note ?? null,
+      restoredFrom: meta.restoredFrom ?? null,
+      editorId: meta.editorId,
+    },
+  });
+
+  return true;
+}
+
+/**
+ * Every revision of a question, newest first, with how many student attempts
+ * were graded against each
+ * @throws {NotFoundError} If the question doesn't exist
+ */
+export async function loadRevisionHistory(questionId: string): Promise<QuestionRevisionHistory> {
+  const question = await prisma.question.findUnique({
+    where: { id: questionId },
+    select: {
+      id: true,
+      revision: true,
+      revisions: {
+        orderBy: { revision: "desc" },
+        include: { editor: { select: { id: true, name: true, email: true } } },
+      },
+    },
+  });
+  if (!question) {
+    throw new NotFoundError("Question not found");
+  }
+
+  const [attempts, mappingLabels] = await Promise.all([
+    prisma.studentQuizAttempt.groupBy({
+      by: ["questionRevision"],
+      where: { questionId },
+      _count: { _all: true },
+    }),
+    loadMappingLabels(question.revisions),
+  ]);
+  const attemptsByRevision = new Map(
+    attempts.map((group) => [group.questionRevision, group._count._all])
+  );
+
+  return {
+    questionId: question.id,
+    currentRevision: question.revision,
+    revisions: question.revisions.map((revision) => ({
+      id: revision.id,
+      revision: revision.revision,
+      ...toContent(revision),
+      source: revision.source as QuestionRevisionSource,
+      note: revision.note,
+      restoredFrom: revision.restoredFrom,
+      editor: revision.editor,
+      mappingLabel:
+        mappingLabels.get(revision.subBulletId ?? revision.bulletId ?? revision.objectiveId ?? "") ??
+        "Unmapped",
+      attemptCount: attemptsByRevision.get(revision.revision) ?? 0,
+      createdAt: revision.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Readable labels for the outline items revisions were mapped to, by id
+ */
+async function loadMappingLabels(
+  revisions: { objectiveId: string | null; bulletId: string | null; subBulletId: string | null }[]
+): Promise<Map<string, string>> {
+  const ids = (field: "objectiveId" | "bulletId" | "subBulletId") => [
+    ...new Set(revisions.flatMap((revision) => (revision[field] ? [revision[field]] : []))),
+  ];
+
+  const [objectives, bullets, subBullets] = await Promise.all([
+    prisma.certificationObjective.findMany({
+      where: { id: { in: ids("objectiveId") } },
+      select: { id: true, code: true, description: true },
+    }),
+    prisma.bullet.findMany({
+      where: { id: { in: ids("bulletId") } },
+      select: { id: true, text: true, objective: { select: { code: true } } },
+    }),
+    prisma.subBullet.findMany({
+      where: { id: { in: ids("subBulletId") } },
+      select: { id: true, text: true, bullet: { select: { objective: { select: { code: true } } } } },
+    }),
+  ]);
+
+  return new Map([
+    ...objectives.map((o): [string, string] => [o.id, `${o.code} ${o.description}`]),
+    ...bullets.map((b): [string, string] => [b.id, `${b.objective.code} › ${b.text}`]),
+    ...subBullets.map((sb): [string, string] => [sb.id, `${sb.bullet.objective.code} › ${sb.text}`]),
+  ]);
+}
+
+/**
+ * Make an earlier revision's content current again. The restore is itself a
+ * new revision, so nothing is lost.
+ * @throws {NotFoundError} If the revision doesn't exist
+ * @throws {ValidationError} If the revision is already the current content
+ */
+export async function restoreRevision(
+  editorId: string,
+  questionId: string,
+  revisionNumber: number
+): Promise<number> {
+  const revision = await prisma.questionRevision.findUnique({
+    where: { questionId_revision: { questionId, revision: revisionNumber } },
+    select: REVISION_CONTENT_SELECT,
+  });
+  if (!revision) {
+    throw new NotFoundError("Revision not found");
+  }
+
+  return prisma.$transaction(async (tx: Client) => {
+    const restored = await updateQuestionWithRevision(
+      tx,
+      questionId,
+      revisionData(toContent(revision)),
+      { source: "restore", editorId, restoredFrom: revisionNumber }
+    );
+    if (!restored) {
+      throw new ValidationError(`Revision ${revisionNumber} is already the current content`);
+    }
+
+    const { revision: current } = await tx.question.findUniqueOrThrow({
+      where: { id: questionId },
+      select: { revision: true },
+    });
+    return current;
+  });
+}
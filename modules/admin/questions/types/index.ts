@@ -1,3 +1,10 @@
 // Admin Questions - Type Exports
 export * from "./question.types";
 export * from "./question-ai.types";
+export * from "./questionDraft.types";
+export * from "./questionDuplicate.types";
+export * from "./questionReview.types";
+export * from "./questionRevision.types";
+export * from "./questionSheet.types";
+export * from "./questionInterchange.types";
+export * from "./pbq.types";
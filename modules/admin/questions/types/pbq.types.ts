@@ -0,0 +1,414 @@
+// Admin Questions - Performance-Based Question (PBQ) Types and Zod Schemas
+//
+// Each PBQ type has its own shape for `config` (what the student sees),
+// `scoringRubric` (the answer key and how partial credit is given) and the
+// student's response. The admin form, the student player and the scoring
+// engine all validate against these schemas.
+
+import { z } from "zod";
+
+export const PBQ_TYPES = ["firewall", "logs", "drag_drop", "image_labeling"] as const;
+
+export const PBQType = z.enum(PBQ_TYPES);
+
+export type PBQType = z.infer<typeof PBQType>;
+
+export const PBQ_TYPE_LABELS: Record<PBQType, string> = {
+  firewall: "Firewall Rules",
+  logs: "Log Analysis",
+  drag_drop: "Drag and Drop",
+  image_labeling: "Image Labeling",
+};
+
+const idSchema = z
+  .string()
+  .trim()
+  .min(1, "ID is required")
+  .max(50)
+  .regex(/^[A-Za-z0-9_-]+$/, "IDs may only contain letters, numbers, - and _");
+
+const pointsSchema = z.number().positive().max(100).default(1);
+
+// ============================================================================
+// FIREWALL
+// ============================================================================
+
+export const FIREWALL_ACTIONS = ["allow", "deny"] as const;
+
+/**
+ * A rule as the student enters it. Values come from the config's option lists.
+ */
+export const firewallRuleSchema = z.object({
+  source: z.string().trim(),
+  destination: z.string().trim(),
+  protocol: z.string().trim(),
+  port: z.string().trim(),
+  action: z.enum(FIREWALL_ACTIONS),
+});
+
+export type FirewallRule = z.infer<typeof firewallRuleSchema>;
+
+export const firewallConfigSchema = z.object({
+  instructions: z.string().trim().min(1, "Instructions are required"),
+  sources: z.array(z.string().trim().min(1)).min(1, "Add at least one source"),
+  destinations: z.array(z.string().trim().min(1)).min(1, "Add at least one destination"),
+  protocols: z.array(z.string().trim().min(1)).min(1).default(["TCP", "UDP", "ICMP", "ANY"]),
+  ports: z.array(z.string().trim().min(1)).min(1, "Add at least one port"),
+  ruleCount: z.number().int().min(1).max(20), // Rows shown to the student
+});
+
+export const firewallRubricSchema = z.object({
+  expectedRules: z
+    .array(firewallRuleSchema.extend({ points: pointsSchema }))
+    .min(1, "Add at least one expected rule"),
+  orderMatters: z.boolean().default(false), // First-match firewalls: rules must appear in this order
+  extraRulePenalty: z.number().min(0).default(0), // Points lost per rule that matches nothing
+});
+
+export const firewallResponseSchema = z.object({
+  rules: z.array(firewallRuleSchema).max(20),
+});
+
+export type FirewallConfig = z.infer<typeof firewallConfigSchema>;
+export type FirewallRubric = z.infer<typeof firewallRubricSchema>;
+export type FirewallResponse = z.infer<typeof firewallResponseSchema>;
+
+// ============================================================================
+// LOG ANALYSIS
+// ============================================================================
+
+export const logsConfigSchema = z.object({
+  instructions: z.string().trim().min(1, "Instructions are required"),
+  logSource: z.string().trim().max(100).optional(), // e.g. "/var/log/auth.log"
+  lines: z.array(z.string()).min(1, "Add at least one log line").max(200),
+  // Optional follow-up, e.g. "Which attack is shown?"
+  question: z
+    .object({
+      prompt: z.string().trim().min(1),
+      choices: z.array(z.string().trim().min(1)).min(2),
+    })
+    .optional(),
+});
+
+export const logsRubricSchema = z.object({
+  suspiciousLines: z.array(z.number().int().nonnegative()).min(1, "Mark at least one line"),
+  pointsPerLine: pointsSchema,
+  falsePositivePenalty: z.number().min(0).default(0.5), // Points lost per wrongly flagged line
+  answer: z
+    .object({
+      correctIndex: z.number().int().nonnegative(),
+      points: pointsSchema,
+    })
+    .optional(),
+});
+
+export const logsResponseSchema = z.object({
+  selectedLines: z.array(z.number().int().nonnegative()),
+  answerIndex: z.number().int().nonnegative().nullable().optional(),
+});
+
+export type LogsConfig = z.infer<typeof logsConfigSchema>;
+export type LogsRubric = z.infer<typeof logsRubricSchema>;
+export type LogsResponse = z.infer<typeof logsResponseSchema>;
+
+// ============================================================================
+// DRAG AND DROP
+// ============================================================================
+
+const labeledItemSchema = z.object({
+  id: idSchema,
+  label: z.string().trim().min(1, "Label is required"),
+});
+
+export const dragDropConfigSchema = z.object({
+  instructions: z.string().trim().min(1, "Instructions are required"),
+  items: z.array(labeledItemSchema).min(1, "Add at least one item"),
+  targets: z.array(labeledItemSchema).min(1, "Add at least one target"),
+});
+
+export const dragDropRubricSchema = z.object({
+  // itemId -> targetId. Items left out are distractors that belong nowhere.
+  placements: z.record(z.string(), z.string()),
+  pointsPerItem: pointsSchema,
+  distractorPenalty: z.number().min(0).default(0), // Points lost per distractor placed
+});
+
+export const dragDropResponseSchema = z.object({
+  placements: z.record(z.string(), z.string()), // itemId -> targetId
+});
+
+export type DragDropConfig = z.infer<typeof dragDropConfigSchema>;
+export type DragDropRubric = z.infer<typeof dragDropRubricSchema>;
+export type DragDropResponse = z.infer<typeof dragDropResponseSchema>;
+
+// ============================================================================
+// IMAGE LABELING
+// ============================================================================
+
+export const imageLabelingConfigSchema = z.object({
+  instructions: z.string().trim().min(1, "Instructions are required"),
+  imageUrl: z.string().trim().url("Enter a valid image URL"),
+  imageAlt: z.string().trim().max(200).optional(),
+  // Positions are percentages of the image size so they scale with it
+  hotspots: z
+    .array(
+      z.object({
+        id: idSchema,
+        x: z.number().min(0).max(100),
+        y: z.number().min(0).max(100),
+      })
+    )
+    .min(1, "Add at least one hotspot"),
+  labels: z.array(z.string().trim().min(1)).min(1, "Add at least one label"),
+});
+
+export const imageLabelingRubricSchema = z.object({
+  answers: z.record(z.string(), z.string()), // hotspotId -> label
+  pointsPerHotspot: pointsSchema,
+});
+
+export const imageLabelingResponseSchema = z.object({
+  labels: z.record(z.string(), z.string()), // hotspotId -> label
+});
+
+export type ImageLabelingConfig = z.infer<typeof imageLabelingConfigSchema>;
+export type ImageLabelingRubric = z.infer<typeof imageLabelingRubricSchema>;
+export type ImageLabelingResponse = z.infer<typeof imageLabelingResponseSchema>;
+
+// ============================================================================
+// DEFINITIONS
+// ============================================================================
+
+export const pbqDefinitionSchemas = {
+  firewall: {
+    config: firewallConfigSchema,
+    scoringRubric: firewallRubricSchema,
+    response: firewallResponseSchema,
+  },
+  logs: {
+    config: logsConfigSchema,
+    scoringRubric: logsRubricSchema,
+    response: logsResponseSchema,
+  },
+  drag_drop: {
+    config: dragDropConfigSchema,
+    scoringRubric: dragDropRubricSchema,
+    response: dragDropResponseSchema,
+  },
+  image_labeling: {
+    config: imageLabelingConfigSchema,
+    scoringRubric: imageLabelingRubricSchema,
+    response: imageLabelingResponseSchema,
+  },
+} as const;
+
+/**
+ * Config, rubric and response types for one PBQ type
+ */
+export type PBQConfigOf<T extends PBQType> = z.infer<(typeof pbqDefinitionSchemas)[T]["config"]>;
+export type PBQRubricOf<T extends PBQType> = z.infer<
+  (typeof pbqDefinitionSchemas)[T]["scoringRubric"]
+>;
+export type PBQResponseOf<T extends PBQType> = z.infer<
+  (typeof pbqDefinitionSchemas)[T]["response"]
+>;
+
+// Type, config and rubric together, narrowed by type
+export type PBQDefinition = {
+  [T in PBQType]: { type: T; config: PBQConfigOf<T>; scoringRubric: PBQRubricOf<T> };
+}[PBQType];
+
+// Config as the student player receives it, without the rubric
+export type PBQPlayable = {
+  [T in PBQType]: { type: T; config: PBQConfigOf<T> };
+}[PBQType];
+
+export type PBQResponse = PBQResponseOf<PBQType>;
+
+/**
+ * Check that a rubric only refers to things that exist in the config
+ */
+export function pbqRubricIssues(definition: PBQDefinition): { path: string[]; message: string }[] {
+  const issues: { path: string[]; message: string }[] = [];
+  const rubricIssue = (path: (string | number)[], message: string) =>
+    issues.push({ path: ["scoringRubric", ...path.map(String)], message });
+
+  switch (definition.type) {
+    case "firewall": {
+      const { config, scoringRubric } = definition;
+      const options = {
+        source: config.sources,
+        destination: config.destinations,
+        protocol: config.protocols,
+        port: config.ports,
+      };
+      scoringRubric.expectedRules.forEach((rule, index) => {
+        for (const [field, values] of Object.entries(options)) {
+          const value = rule[field as keyof typeof options];
+          if (!values.includes(value)) {
+            rubricIssue(["expectedRules", index, field], `"${value}" is not one of the ${field} options`);
+          }
+        }
+      });
+      if (scoringRubric.expectedRules.length > config.ruleCount) {
+        rubricIssue(["expectedRules"], "More expected rules than rule rows shown to the student");
+      }
+      break;
+    }
+
+    case "logs": {
+      const { config, scoringRubric } = definition;
+      scoringRubric.suspiciousLines.forEach((line, index) => {
+        if (line >= config.lines.length) {
+          rubricIssue(["suspiciousLines", index], `Line ${line + 1} does not exist`);
+        }
+      });
+      if (scoringRubric.answer && !config.question) {
+        rubricIssue(["answer"], "The rubric has an answer but the config has no question");
+      }
+      if (
+        scoringRubric.answer &&
+        config.question &&
+        scoringRubric.answer.correctIndex >= config.question.choices.length
+      ) {
+        rubricIssue(["answer", "correctIndex"], "Answer is not one of the question choices");
+      }
+      break;
+    }
+
+    case "drag_drop": {
+      const { config, scoringRubric } = definition;
+      const itemIds = new Set(config.items.map((item) => item.id));
+      const targetIds = new Set(config.targets.map((target) => target.id));
+      if (itemIds.size !== config.items.length) {
+        issues.push({ path: ["config", "items"], message: "Item IDs must be unique" });
+      }
+      if (targetIds.size !== config.targets.length) {
+        issues.push({ path: ["config", "targets"], message: "Target IDs must be unique" });
+      }
+      for (const [itemId, targetId] of Object.entries(scoringRubric.placements)) {
+        if (!itemIds.has(itemId)) rubricIssue(["placements", itemId], `Unknown item "${itemId}"`);
+        if (!targetIds.has(targetId)) {
+          rubricIssue(["placements", itemId], `Unknown target "${targetId}"`);
+        }
+      }
+      if (Object.keys(scoringRubric.placements).length === 0) {
+        rubricIssue(["placements"], "Place at least one item");
+      }
+      break;
+    }
+
+    case "image_labeling": {
+      const { config, scoringRubric } = definition;
+      const hotspotIds = new Set(config.hotspots.map((hotspot) => hotspot.id));
+      if (hotspotIds.size !== config.hotspots.length) {
+        issues.push({ path: ["config", "hotspots"], message: "Hotspot IDs must be unique" });
+      }
+      for (const hotspot of config.hotspots) {
+        if (!scoringRubric.answers[hotspot.id]) {
+          rubricIssue(["answers", hotspot.id], `No label for hotspot "${hotspot.id}"`);
+        }
+      }
+      for (const [hotspotId, label] of Object.entries(scoringRubric.answers)) {
+        if (!hotspotIds.has(hotspotId)) {
+          rubricIssue(["answers", hotspotId], `Unknown hotspot "${hotspotId}"`);
+        }
+        if (!config.labels.includes(label)) {
+          rubricIssue(["answers", hotspotId], `"${label}" is not in the label bank`);
+        }
+      }
+      break;
+    }
+  }
+
+  return issues;
+}
+
+const pbqBaseSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  objectiveId: z.string().min(1, "Choose an objective"),
+  isActive: z.boolean().default(true),
+});
+
+/**
+ * Schema for creating or replacing a PBQ
+ */
+export const pbqInputSchema = z
+  .discriminatedUnion("type", [
+    pbqBaseSchema.extend({
+      type: z.literal("firewall"),
+      config: firewallConfigSchema,
+      scoringRubric: firewallRubricSchema,
+    }),
+    pbqBaseSchema.extend({
+      type: z.literal("logs"),
+      config: logsConfigSchema,
+      scoringRubric: logsRubricSchema,
+    }),
+    pbqBaseSchema.extend({
+      type: z.literal("drag_drop"),
+      config: dragDropConfigSchema,
+      scoringRubric: dragDropRubricSchema,
+    }),
+    pbqBaseSchema.extend({
+      type: z.literal("image_labeling"),
+      config: imageLabelingConfigSchema,
+      scoringRubric: imageLabelingRubricSchema,
+    }),
+  ])
+  .superRefine((definition, ctx) => {
+    for (const issue of pbqRubricIssues(definition)) {
+      ctx.addIssue({ code: "custom", path: issue.path, message: issue.message });
+    }
+  });
+
+export type PBQInput = z.input<typeof pbqInputSchema>;
+
+export const updatePBQSchema = z.object({
+  id: z.string().min(1),
+  data: pbqInputSchema,
+});
+
+export type UpdatePBQInput = z.input<typeof updatePBQSchema>;
+
+// ============================================================================
+// SERIALIZED
+// ============================================================================
+
+export type SerializedPBQ = PBQDefinition & {
+  id: string;
+  title: string;
+  objectiveId: string;
+  objectiveCode: string;
+  objectiveDescription: string;
+  certificationId: string;
+  certificationName: string;
+  isActive: boolean;
+  attemptCount: number;
+  averageScore: number | null; // 0.0 to 1.0
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface PBQListFilters {
+  certificationId?: string;
+  type?: PBQType;
+}
+
+/**
+ * Read a stored PBQ's type, config and rubric, applying schema defaults.
+ * Throws if the stored JSON no longer matches its type's schemas.
+ */
+export function parsePBQDefinition(pbq: {
+  type: string;
+  config: unknown;
+  scoringRubric: unknown;
+}): PBQDefinition {
+  const type = PBQType.parse(pbq.type);
+  const schemas = pbqDefinitionSchemas[type];
+  return {
+    type,
+    config: schemas.config.parse(pbq.config),
+    scoringRubric: schemas.scoringRubric.parse(pbq.scoringRubric),
+  } as PBQDefinition;
+}
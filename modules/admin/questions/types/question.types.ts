@@ -1,5 +1,5 @@
 // Admin Questions - Type Definitions
-import { TaskStatus } from "@prisma/client";
+import { QuestionStatus, TaskStatus } from "@prisma/client";
 
 // Question option structure (stored in choices JSON field)
 export interface QuestionOption {
@@ -28,6 +28,7 @@ export interface SerializedQuestion {
   taskId?: string;
 
   isActive: boolean;
+  status: QuestionStatus;
   createdAt: string;
   updatedAt: string;
 }
@@ -59,6 +60,10 @@ export interface QuestionData {
 
   questionType?: string; // "scenario", "recall", "best_practice", etc.
   taskId?: string; // Optional - for associating questions with tasks
+
+  // Recorded on the revision: set when the content came from AI feedback
+  revisionSource?: "ai_feedback";
+  revisionNote?: string; // e.g. the feedback that was applied
 }
 
 export interface BulkEditData {
@@ -0,0 +1,109 @@
+// Admin Questions - AI Draft Type Definitions
+import { z } from "zod";
+import type { QuestionOption } from "./question.types";
+
+export const QUESTION_DRAFT_STATUSES = ["queued", "pending", "failed", "approved", "rejected"] as const;
+export type QuestionDraftStatus = (typeof QUESTION_DRAFT_STATUSES)[number];
+
+export type DraftQuestionType = "multiple_choice" | "multi_select";
+
+// Upper bound on drafts queued by one "fill the gap" run
+export const MAX_DRAFTS_PER_FILL = 100;
+
+// One planned question: the objective plus the bullet or sub-bullet it targets
+export interface GenerationSlot {
+  objectiveId: string;
+  bulletId?: string;
+  subBulletId?: string;
+  type: DraftQuestionType;
+}
+
+export interface ObjectiveGap {
+  objectiveId: string;
+  objectiveCode: string;
+  objectiveName: string;
+  domainName: string;
+  targetCount: number;
+  currentCount: number; // Questions already in the task
+  inFlightCount: number; // Drafts queued or awaiting review
+  missingCount: number;
+}
+
+export interface TaskGapSummary {
+  taskId: string;
+  taskName: string;
+  certificationId: string;
+  certificationName: string;
+  objectives: ObjectiveGap[];
+  missingTotal: number;
+}
+
+export interface SerializedQuestionDraft {
+  id: string;
+  taskId: string;
+  taskName: string;
+  objectiveId: string;
+  objectiveCode: string;
+  objectiveName: string;
+  bulletText?: string;
+  subBulletText?: string;
+  type: DraftQuestionType;
+  text: string | null;
+  choices: QuestionOption[];
+  error: string | null;
+  status: QuestionDraftStatus;
+  questionId: string | null;
+  createdAt: string;
+}
+
+export interface DraftStatusCounts {
+  queued: number;
+  pending: number;
+  failed: number;
+  approved: number;
+  rejected: number;
+}
+
+export const fillTaskGapsSchema = z.object({
+  taskId: z.string().min(1, "Task is required"),
+  // Cap for this run; defaults to every missing question
+  limit: z.number().int().min(1).max(MAX_DRAFTS_PER_FILL).optional(),
+});
+
+export const listQuestionDraftsSchema = z.object({
+  taskId: z.string().min(1).optional(),
+  status: z.enum(QUESTION_DRAFT_STATUSES).default("pending"),
+});
+
+export const reviewQuestionDraftSchema = z.discriminatedUnion("decision", [
+  z.object({
+    draftId: z.string().min(1),
+    decision: z.literal("approve"),
+    difficulty: z.enum(["easy", "medium", "hard"]).default("medium"),
+    // Reviewer edits; the generated text is used when omitted
+    text: z.string().trim().min(1).optional(),
+    choices: z
+      .array(
+        z.object({
+          text: z.string().trim().min(1, "All options must have text"),
+          isCorrect: z.boolean(),
+          explanation: z.string().optional(),
+        })
+      )
+      .min(2)
+      .optional(),
+  }),
+  z.object({
+    draftId: z.string().min(1),
+    decision: z.literal("reject"),
+  }),
+]);
+
+export const retryQuestionDraftsSchema = z.object({
+  draftIds: z.array(z.string().min(1)).min(1),
+});
+
+export type FillTaskGapsInput = z.input<typeof fillTaskGapsSchema>;
+export type ListQuestionDraftsInput = z.input<typeof listQuestionDraftsSchema>;
+export type ReviewQuestionDraftInput = z.input<typeof reviewQuestionDraftSchema>;
+export type RetryQuestionDraftsInput = z.infer<typeof retryQuestionDraftsSchema>;
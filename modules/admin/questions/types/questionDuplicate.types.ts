@@ -0,0 +1,68 @@
+// Admin Questions - Near-Duplicate Detection Type Definitions
+import { z } from "zod";
+import type { QuestionStatus } from "@prisma/client";
+
+export const DUPLICATE_RESOLUTIONS = ["merge", "retire"] as const;
+export type DuplicateResolution = (typeof DUPLICATE_RESOLUTIONS)[number];
+
+export interface SimilarQuestionSummary {
+  id: string;
+  text: string;
+  choices: string[];
+  status: QuestionStatus;
+  objectiveCode: string | null;
+  createdAt: string;
+}
+
+export interface SimilarQuestion extends SimilarQuestionSummary {
+  similarity: number; // Cosine similarity, 0.0 to 1.0
+}
+
+export interface SimilarQuestionPair {
+  similarity: number;
+  first: SimilarQuestionSummary;
+  second: SimilarQuestionSummary;
+}
+
+export interface SimilarQuestionsReport {
+  certificationId: string;
+  threshold: number;
+  // Questions compared (everything not retired)
+  questionCount: number;
+  pairs: SimilarQuestionPair[];
+  // More pairs matched than the report shows
+  truncated: boolean;
+}
+
+export const checkQuestionDuplicatesSchema = z.object({
+  text: z.string().trim().min(1, "Question text is required"),
+  choices: z.array(z.object({ text: z.string() })),
+  certificationId: z.string().min(1).optional(),
+  // The question being edited, so it doesn't match itself
+  excludeQuestionId: z.string().min(1).optional(),
+});
+
+export const similarQuestionsReportSchema = z.object({
+  certificationId: z.string().min(1, "Certification is required"),
+  threshold: z.number().min(0.5).max(0.99).default(0.9),
+});
+
+export const resolveDuplicateQuestionSchema = z
+  .object({
+    questionId: z.string().min(1),
+    action: z.enum(DUPLICATE_RESOLUTIONS),
+    // Question the duplicate is merged into
+    keepQuestionId: z.string().min(1).optional(),
+  })
+  .refine((input) => input.action !== "merge" || !!input.keepQuestionId, {
+    message: "Choose the question to keep",
+    path: ["keepQuestionId"],
+  })
+  .refine((input) => input.keepQuestionId !== input.questionId, {
+    message: "A question can't be merged into itself",
+    path: ["keepQuestionId"],
+  });
+
+export type CheckQuestionDuplicatesInput = z.infer<typeof checkQuestionDuplicatesSchema>;
+export type SimilarQuestionsReportInput = z.input<typeof similarQuestionsReportSchema>;
+export type ResolveDuplicateQuestionInput = z.infer<typeof resolveDuplicateQuestionSchema>;
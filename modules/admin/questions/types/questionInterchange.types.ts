@@ -0,0 +1,35 @@
+// Admin Questions - QTI/GIFT Interchange Type Definitions
+import type { SerializedQuestionWithHierarchy } from "./question.types";
+
+export type QuestionInterchangeFormat = "qti" | "gift";
+
+// The parts of a question that survive a trip through QTI or GIFT.
+// Location is carried as the objective code plus bullet/sub-bullet text,
+// which is resolved against the target certification on import.
+export type InterchangeQuestion = Pick<
+  SerializedQuestionWithHierarchy,
+  | "text"
+  | "type"
+  | "difficulty"
+  | "choices"
+  | "correctAnswer"
+  | "explanation"
+  | "questionType"
+  | "certificationCode"
+  | "objectiveCode"
+  | "bulletText"
+  | "subBulletText"
+> & {
+  id?: string; // Item identifier, when it is one of ours
+};
+
+export interface ParsedInterchangeItem {
+  itemNumber: number; // 1-based position in the file or package
+  question: InterchangeQuestion;
+  errors: string[];
+}
+
+export interface InterchangeSkippedQuestion {
+  id: string;
+  reason: string;
+}
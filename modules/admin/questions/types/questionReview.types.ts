@@ -0,0 +1,122 @@
+// Admin Questions - Review Workflow Type Definitions
+import { z } from "zod";
+import type { QuestionStatus } from "@prisma/client";
+
+export const QUESTION_STATUSES = [
+  "draft",
+  "in_review",
+  "changes_requested",
+  "approved",
+  "published",
+  "retired",
+] as const satisfies readonly QuestionStatus[];
+
+export const QUESTION_REVIEW_ACTIONS = [
+  "submit",
+  "approve",
+  "request_changes",
+  "publish",
+  "retire",
+  "reopen",
+] as const;
+export type QuestionReviewAction = (typeof QUESTION_REVIEW_ACTIONS)[number];
+
+export interface ReviewUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export interface QuestionReviewerSummary extends ReviewUser {
+  assignedAt: string;
+}
+
+export interface SerializedQuestionComment {
+  id: string;
+  author: ReviewUser | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface QuestionCommentThread extends SerializedQuestionComment {
+  resolvedAt: string | null;
+  replies: SerializedQuestionComment[];
+}
+
+export interface SerializedReviewEvent {
+  id: string;
+  action: string;
+  actor: ReviewUser | null;
+  fromStatus: QuestionStatus | null;
+  toStatus: QuestionStatus | null;
+  note: string | null;
+  reviewer: ReviewUser | null; // Reviewer added or removed
+  createdAt: string;
+}
+
+export interface QuestionReviewDetail {
+  question: {
+    id: string;
+    text: string;
+    type: string;
+    difficulty: string;
+    status: QuestionStatus;
+    choices: { text: string; isCorrect: boolean; explanation?: string }[];
+    certificationName?: string;
+    objectiveCode?: string;
+    objectiveName?: string;
+    // Question this one was merged into as a duplicate
+    duplicateOfId: string | null;
+  };
+  reviewers: QuestionReviewerSummary[];
+  threads: QuestionCommentThread[];
+  events: SerializedReviewEvent[];
+  // Moves the current user can make now
+  actions: QuestionReviewAction[];
+}
+
+export interface ReviewQueueItem {
+  id: string;
+  text: string;
+  status: QuestionStatus;
+  certificationCode?: string;
+  objectiveCode?: string;
+  reviewers: ReviewUser[];
+  openThreads: number;
+  updatedAt: string;
+}
+
+export const transitionQuestionSchema = z.object({
+  questionId: z.string().min(1),
+  action: z.enum(QUESTION_REVIEW_ACTIONS),
+  note: z.string().trim().max(5000).optional(),
+});
+
+export const questionReviewerSchema = z.object({
+  questionId: z.string().min(1),
+  reviewerId: z.string().min(1, "Reviewer is required"),
+});
+
+export const addQuestionCommentSchema = z.object({
+  questionId: z.string().min(1),
+  body: z.string().trim().min(1, "Comment cannot be empty").max(5000),
+  // Reply to this comment's thread
+  parentId: z.string().min(1).optional(),
+});
+
+export const resolveQuestionCommentSchema = z.object({
+  commentId: z.string().min(1),
+  resolved: z.boolean(),
+});
+
+export const listReviewQueueSchema = z.object({
+  status: z.enum(QUESTION_STATUSES).default("in_review"),
+  // Only questions the current user is assigned to review
+  assignedToMe: z.boolean().default(false),
+});
+
+export type TransitionQuestionInput = z.infer<typeof transitionQuestionSchema>;
+export type QuestionReviewerInput = z.infer<typeof questionReviewerSchema>;
+export type AddQuestionCommentInput = z.infer<typeof addQuestionCommentSchema>;
+export type ResolveQuestionCommentInput = z.infer<typeof resolveQuestionCommentSchema>;
+export type ListReviewQueueInput = z.input<typeof listReviewQueueSchema>;
@@ -0,0 +1,57 @@
+// Admin Questions - Revision History Type Definitions
+import { z } from "zod";
+import type { QuestionOption } from "./question.types";
+
+export const QUESTION_REVISION_SOURCES = [
+  "original", // Content from before revisions were tracked
+  "created",
+  "edited",
+  "ai_feedback",
+  "bulk_edit",
+  "import",
+  "draft_inbox",
+  "restore",
+] as const;
+export type QuestionRevisionSource = (typeof QUESTION_REVISION_SOURCES)[number];
+
+// The part of a question a revision snapshots
+export interface RevisionContent {
+  text: string;
+  type: string;
+  difficulty: string;
+  choices: QuestionOption[];
+  correctAnswer: string;
+  explanation: string;
+  questionType: string | null;
+  objectiveId: string | null;
+  bulletId: string | null;
+  subBulletId: string | null;
+}
+
+export interface SerializedQuestionRevision extends RevisionContent {
+  id: string;
+  revision: number;
+  source: QuestionRevisionSource;
+  note: string | null;
+  restoredFrom: number | null;
+  editor: { id: string; name: string | null; email: string } | null;
+  // Objective code and bullet text the revision was mapped to
+  mappingLabel: string;
+  // Student attempts graded against this revision
+  attemptCount: number;
+  createdAt: string;
+}
+
+export interface QuestionRevisionHistory {
+  questionId: string;
+  currentRevision: number;
+  // Newest first
+  revisions: SerializedQuestionRevision[];
+}
+
+export const restoreQuestionRevisionSchema = z.object({
+  questionId: z.string().min(1),
+  revision: z.number().int().min(1),
+});
+
+export type RestoreQuestionRevisionInput = z.infer<typeof restoreQuestionRevisionSchema>;
@@ -0,0 +1,84 @@
+// Admin Questions - Import/Export Type Definitions
+import type { QuestionOption } from "./question.types";
+import type { QuestionInterchangeFormat } from "./questionInterchange.types";
+
+export type QuestionSheetFormat = "csv" | "xlsx";
+
+export type QuestionExportFormat = QuestionSheetFormat | QuestionInterchangeFormat;
+
+// One question as it appears in an import/export spreadsheet.
+// Hierarchy is expressed as the objective code plus 1-based bullet and
+// sub-bullet positions, so files can move between environments.
+export interface QuestionSheetRow {
+  id: string; // Blank for new questions
+  certificationCode: string;
+  objectiveCode: string;
+  bulletOrder: number | null;
+  subBulletOrder: number | null;
+  type: string;
+  difficulty: string;
+  questionType: string | null;
+  taskId: string | null;
+  isActive: boolean;
+  status: string; // Review status; blank keeps the current one (draft for new questions)
+  text: string;
+  explanation: string;
+  correctAnswer: string;
+  choices: QuestionOption[];
+}
+
+export interface QuestionFieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export type QuestionImportAction = "create" | "update" | "unchanged" | "error";
+
+export interface QuestionImportRowResult {
+  rowNumber: number; // Spreadsheet row (header is row 1), or item number for QTI/GIFT
+  action: QuestionImportAction;
+  questionId?: string;
+  text: string;
+  location: string; // e.g. "1.2 > bullet 3"
+  changes: QuestionFieldChange[];
+  errors: string[];
+}
+
+export interface QuestionImportSummary {
+  totalRows: number;
+  creates: number;
+  updates: number;
+  unchanged: number;
+  errors: number;
+}
+
+export interface QuestionImportResult {
+  committed: boolean; // false for dry runs and for files with errors
+  summary: QuestionImportSummary;
+  rows: QuestionImportRowResult[];
+}
+
+export interface QuestionImportRequest {
+  certificationId: string;
+  fileName: string;
+  fileBase64: string;
+  dryRun: boolean;
+  defaultObjectiveCode?: string; // For QTI/GIFT items that carry no objective
+}
+
+export interface QuestionExportRequest {
+  format: QuestionExportFormat;
+  certificationId?: string;
+  domainId?: string;
+  objectiveId?: string;
+  questionIds?: string[]; // Export exactly these questions
+}
+
+export interface QuestionExportFile {
+  fileName: string;
+  mimeType: string;
+  contentBase64: string;
+  count: number;
+  skipped: number; // Questions the format can't represent
+}
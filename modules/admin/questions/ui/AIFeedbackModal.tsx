@@ -29,7 +29,11 @@ interface CurrentQuestion {
 interface AIFeedbackModalProps {
   open: boolean;
   onClose: () => void;
-  onFeedbackApplied: (generatedData: { text: string; options: QuestionOption[] }) => void;
+  // Receives the rewritten question and the feedback that produced it
+  onFeedbackApplied: (
+    generatedData: { text: string; options: QuestionOption[] },
+    feedback: string
+  ) => void;
   currentQuestion: CurrentQuestion;
   examName?: string;
   domainNumber?: string;
@@ -82,7 +86,7 @@ Please modify the question based on the feedback above while maintaining the sam
       });
 
       if (generatedData.success && generatedData.data) {
-        onFeedbackApplied(generatedData.data);
+        onFeedbackApplied(generatedData.data, feedback.trim());
         setFeedback(""); // Clear feedback
         onClose();
       }
@@ -15,14 +15,18 @@ import {
 } from "@/components/ui/dialog";
 import { Brain, Loader2, RotateCcw, User, Target } from "lucide-react";
 import { toast } from "sonner";
-import { useAIGeneration } from "@/modules/admin/questions/hooks";
+import { useAIGeneration, useCheckQuestionDuplicates } from "@/modules/admin/questions/hooks";
+import type { SimilarQuestion } from "@/modules/admin/questions/types";
 import { useRandomName } from "@/modules/shared/names/hooks/useNames";
+import { DuplicateQuestionWarning } from "./DuplicateQuestionWarning";
 
 interface AIGenerationModalProps {
   open: boolean;
   onClose: () => void;
   onGenerate: (generatedData: GeneratedQuestionData) => void;
   examName?: string;
+  // Scopes the duplicate check to this certification's questions
+  certificationId?: string;
   domainNumber?: string;
   domainName?: string;
   objectiveNumber?: string;
@@ -48,6 +52,7 @@ export default function AIGenerationModal({
   onClose,
   onGenerate,
   examName = "",
+  certificationId,
   domainNumber = "",
   domainName = "",
   objectiveNumber = "",
@@ -59,7 +64,13 @@ export default function AIGenerationModal({
   const [selectedName, setSelectedName] = useState("");
   const [focus, setFocus] = useState("");
 
+  // Generated question held back because it resembles existing ones
+  const [pendingQuestion, setPendingQuestion] = useState<GeneratedQuestionData | null>(null);
+  const [duplicates, setDuplicates] = useState<SimilarQuestion[]>([]);
+
   const { generating, generateAIQuestion } = useAIGeneration();
+  const checkDuplicates = useCheckQuestionDuplicates();
+  const busy = generating || checkDuplicates.isPending;
   const { data: randomNameData, refetch: getNewRandomName, isLoading: loadingName } = useRandomName();
 
   // Generate the default prompt based on your specifications
@@ -107,6 +118,9 @@ Here is a sample format that can be used when asking about a specific command, t
   // Load saved prompt from localStorage when modal opens
   useEffect(() => {
     if (open) {
+      setPendingQuestion(null);
+      setDuplicates([]);
+
       const savedPrompt = localStorage.getItem("ai-generation-prompt");
       const shouldKeep =
         localStorage.getItem("ai-generation-keep-prompt") === "true";
@@ -165,6 +179,21 @@ Here is a sample format that can be used when asking about a specific command, t
       });
 
       if (generatedData.success && generatedData.data) {
+        // Hold the question back if it resembles existing ones; a failed check doesn't block
+        const check = await checkDuplicates
+          .mutateAsync({
+            text: generatedData.data.text,
+            choices: generatedData.data.options,
+            certificationId,
+          })
+          .catch(() => null);
+
+        if (check?.success && check.data && check.data.length > 0) {
+          setPendingQuestion(generatedData.data);
+          setDuplicates(check.data);
+          return;
+        }
+
         onGenerate(generatedData.data);
         onClose();
       }
@@ -173,6 +202,17 @@ Here is a sample format that can be used when asking about a specific command, t
     }
   };
 
+  const handleUseAnyway = () => {
+    if (!pendingQuestion) return;
+    onGenerate(pendingQuestion);
+    onClose();
+  };
+
+  const handleDiscardPending = () => {
+    setPendingQuestion(null);
+    setDuplicates([]);
+  };
+
   const handleDefaultPrompt = () => {
     const defaultPrompt = generateDefaultPrompt();
     setPrompt(defaultPrompt);
@@ -225,6 +265,23 @@ Here is a sample format that can be used when asking about a specific command, t
         </DialogHeader>
 
         <div className="space-y-6 py-4">
+          {/* Near-duplicates of the generated question */}
+          {pendingQuestion && (
+            <div className="space-y-3">
+              <div className="rounded-lg border p-4">
+                <h4 className="mb-1 text-sm font-medium">Generated question</h4>
+                <p className="text-sm whitespace-pre-wrap">{pendingQuestion.text}</p>
+              </div>
+              <DuplicateQuestionWarning matches={duplicates} />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={handleDiscardPending}>
+                  Discard
+                </Button>
+                <Button onClick={handleUseAnyway}>Use Anyway</Button>
+              </div>
+            </div>
+          )}
+
           {/* Context Display */}
           <div className="rounded-lg border border-purple-200 bg-gradient-to-r from-purple-50 to-blue-50 p-4 dark:border-purple-800 dark:from-purple-950/30 dark:to-blue-950/30">
             <h4 className="mb-2 font-semibold text-purple-900 dark:text-purple-100">
@@ -368,24 +425,24 @@ Here is a sample format that can be used when asking about a specific command, t
 
         {/* Action Buttons */}
         <div className="flex items-center justify-between border-t pt-4">
-          <Button variant="outline" onClick={onClose} disabled={generating}>
+          <Button variant="outline" onClick={onClose} disabled={busy}>
             Cancel
           </Button>
 
           <Button
             onClick={handleGenerate}
-            disabled={generating || !prompt.trim()}
+            disabled={busy || !prompt.trim()}
             className="bg-gradient-to-r from-purple-600 to-blue-600 text-white hover:from-purple-700 hover:to-blue-700"
           >
-            {generating ? (
+            {busy ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Generating...
+                {generating ? "Generating..." : "Checking for duplicates..."}
               </>
             ) : (
               <>
                 <Brain className="mr-2 h-4 w-4" />
-                Generate Question
+                {pendingQuestion ? "Generate Again" : "Generate Question"}
               </>
             )}
           </Button>
@@ -0,0 +1,60 @@
+"use client";
+
+/**
+ * DuplicateQuestionWarning Component
+ *
+ * Existing questions that look like near-duplicates of the one being written,
+ * shown before it is saved.
+ */
+
+import Link from "next/link";
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { QuestionStatusBadge } from "./QuestionStatusBadge";
+import type { SimilarQuestion } from "../types/questionDuplicate.types";
+
+interface DuplicateQuestionWarningProps {
+  matches: SimilarQuestion[];
+  className?: string;
+}
+
+export function DuplicateQuestionWarning({ matches, className }: DuplicateQuestionWarningProps) {
+  if (matches.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-amber-300 bg-amber-50 p-4 dark:border-amber-800 dark:bg-amber-950/30",
+        className
+      )}
+    >
+      <div className="flex items-center gap-2 font-medium text-amber-900 dark:text-amber-100">
+        <AlertTriangle className="h-4 w-4" />
+        {matches.length === 1
+          ? "A very similar question is already in the bank"
+          : `${matches.length} very similar questions are already in the bank`}
+      </div>
+      <ul className="mt-3 space-y-2">
+        {matches.map((match) => (
+          <li key={match.id} className="rounded-md border bg-background p-3 text-sm">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="font-medium text-foreground">
+                {Math.round(match.similarity * 100)}% similar
+              </span>
+              <QuestionStatusBadge status={match.status} />
+              {match.objectiveCode && <span>{match.objectiveCode}</span>}
+              <Link
+                href={`/admin/questions/${match.id}/review`}
+                target="_blank"
+                className="ml-auto underline hover:text-foreground"
+              >
+                Open
+              </Link>
+            </div>
+            <p className="mt-1 line-clamp-3">{match.text}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+"use client";
+
+/**
+ * PBQForm Component
+ *
+ * Create or edit a performance-based question. The config and scoring rubric
+ * are edited as JSON against the type's schema, with live validation and a
+ * preview that plays and scores the PBQ exactly as students will see it.
+ */
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, CheckCircle, ClipboardCheck, Loader2, Save } from "lucide-react";
+import { useDomains } from "@/modules/certifications/hooks/useDomains";
+import { scorePBQ } from "@/modules/student/pbqs/lib/pbqScoring";
+import { PBQInteraction, initialPBQResponse } from "@/modules/student/pbqs/ui/PBQInteraction";
+import { PBQScoreReport } from "@/modules/student/pbqs/ui/PBQScoreReport";
+import type { PBQScoreResult } from "@/modules/student/pbqs/types/pbq.types";
+import { useCreatePBQ, useUpdatePBQ } from "../hooks/useAdminPBQs";
+import {
+  PBQ_TYPES,
+  PBQ_TYPE_LABELS,
+  pbqInputSchema,
+  type PBQDefinition,
+  type PBQResponse,
+  type PBQType,
+  type SerializedPBQ,
+} from "../types";
+
+interface PBQFormProps {
+  certifications: { id: string; name: string; code: string }[];
+  pbq?: SerializedPBQ;
+}
+
+// Starting point for each type's config and rubric
+const PBQ_TEMPLATES: Record<PBQType, { config: unknown; scoringRubric: unknown }> = {
+  firewall: {
+    config: {
+      instructions: "Configure the firewall so the web server is reachable from the internet on HTTPS only.",
+      sources: ["ANY", "Internet", "LAN"],
+      destinations: ["Web Server", "DB Server"],
+      protocols: ["TCP", "UDP", "ICMP", "ANY"],
+      ports: ["22", "80", "443", "ANY"],
+      ruleCount: 4,
+    },
+    scoringRubric: {
+      expectedRules: [
+        { source: "Internet", destination: "Web Server", protocol: "TCP", port: "443", action: "allow", points: 1 },
+        { source: "ANY", destination: "Web Server", protocol: "ANY", port: "ANY", action: "deny", points: 1 },
+      ],
+      orderMatters: true,
+      extraRulePenalty: 0.5,
+    },
+  },
+  logs: {
+    config: {
+      instructions: "Flag every log line that shows the attack.",
+      logSource: "/var/log/auth.log",
+      lines: [
+        "Accepted password for alice from 10.0.0.5",
+        "Failed password for root from 203.0.113.9",
+        "Failed password for root from 203.0.113.9",
+      ],
+      question: { prompt: "Which attack is shown?", choices: ["Brute force", "Phishing", "SQL injection"] },
+    },
+    scoringRubric: {
+      suspiciousLines: [1, 2],
+      pointsPerLine: 1,
+      falsePositivePenalty: 0.5,
+      answer: { correctIndex: 0, points: 1 },
+    },
+  },
+  drag_drop: {
+    config: {
+      instructions: "Drag each control to its category.",
+      items: [
+        { id: "fence", label: "Fence" },
+        { id: "policy", label: "Acceptable use policy" },
+        { id: "ids", label: "IDS" },
+      ],
+      targets: [
+        { id: "physical", label: "Physical" },
+        { id: "managerial", label: "Managerial" },
+        { id: "technical", label: "Technical" },
+      ],
+    },
+    scoringRubric: {
+      placements: { fence: "physical", policy: "managerial", ids: "technical" },
+      pointsPerItem: 1,
+      distractorPenalty: 0,
+    },
+  },
+  image_labeling: {
+    config: {
+      instructions: "Label each device in the network diagram.",
+      imageUrl: "https://example.com/network-diagram.png",
+      imageAlt: "Network diagram",
+      hotspots: [
+        { id: "edge", x: 20, y: 50 },
+        { id: "core", x: 60, y: 50 },
+      ],
+      labels: ["Firewall", "Router", "Switch"],
+    },
+    scoringRubric: {
+      answers: { edge: "Firewall", core: "Switch" },
+      pointsPerHotspot: 1,
+    },
+  },
+};
+
+function toJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function parseJson(label: string, text: string): { value?: unknown; error?: string } {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    return { error: `${label} is not valid JSON: ${error instanceof Error ? error.message : error}` };
+  }
+}
+
+export function PBQForm({ certifications, pbq }: PBQFormProps) {
+  const router = useRouter();
+  const [certificationId, setCertificationId] = useState(pbq?.certificationId ?? "");
+  const [objectiveId, setObjectiveId] = useState(pbq?.objectiveId ?? "");
+  const [type, setType] = useState<PBQType>(pbq?.type ?? "firewall");
+  const [title, setTitle] = useState(pbq?.title ?? "");
+  const [isActive, setIsActive] = useState(pbq?.isActive ?? true);
+  const [configText, setConfigText] = useState(toJson(pbq?.config ?? PBQ_TEMPLATES.firewall.config));
+  const [rubricText, setRubricText] = useState(
+    toJson(pbq?.scoringRubric ?? PBQ_TEMPLATES.firewall.scoringRubric)
+  );
+  const [previewResponse, setPreviewResponse] = useState<PBQResponse | null>(null);
+  const [previewResult, setPreviewResult] = useState<PBQScoreResult | null>(null);
+
+  const { data: domains } = useDomains(certificationId);
+  const objectives = (domains?.data ?? []).flatMap((domain) => domain.objectives);
+  const createPBQ = useCreatePBQ();
+  const updatePBQ = useUpdatePBQ();
+  const isSaving = createPBQ.isPending || updatePBQ.isPending;
+
+  const validation = useMemo(() => {
+    const config = parseJson("Config", configText);
+    const rubric = parseJson("Scoring rubric", rubricText);
+    const jsonErrors = [config.error, rubric.error].filter((error): error is string => !!error);
+    if (jsonErrors.length > 0) {
+      return { issues: jsonErrors };
+    }
+
+    const result = pbqInputSchema.safeParse({
+      title,
+      objectiveId,
+      isActive,
+      type,
+      config: config.value,
+      scoringRubric: rubric.value,
+    });
+    if (!result.success) {
+      return {
+        issues: result.error.issues.map((issue) =>
+          issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+        ),
+      };
+    }
+    return { issues: [], data: result.data };
+  }, [configText, rubricText, title, objectiveId, isActive, type]);
+
+  // The preview only needs the definition, not the title or objective
+  const previewDefinition = useMemo((): PBQDefinition | null => {
+    const config = parseJson("Config", configText);
+    const rubric = parseJson("Scoring rubric", rubricText);
+    const result = pbqInputSchema.safeParse({
+      title: "Preview",
+      objectiveId: "preview",
+      type,
+      config: config.value,
+      scoringRubric: rubric.value,
+    });
+    return result.success ? result.data : null;
+  }, [configText, rubricText, type]);
+
+  const resetPreview = () => {
+    setPreviewResponse(null);
+    setPreviewResult(null);
+  };
+
+  const handleTypeChange = (value: PBQType) => {
+    setType(value);
+    setConfigText(toJson(PBQ_TEMPLATES[value].config));
+    setRubricText(toJson(PBQ_TEMPLATES[value].scoringRubric));
+    resetPreview();
+  };
+
+  const handleCheckPreview = () => {
+    if (!previewDefinition) return;
+    setPreviewResult(
+      scorePBQ(previewDefinition, previewResponse ?? initialPBQResponse(previewDefinition))
+    );
+  };
+
+  const handleSave = async () => {
+    if (!validation.data) return;
+    if (pbq) {
+      await updatePBQ.mutateAsync({ id: pbq.id, data: validation.data });
+    } else {
+      await createPBQ.mutateAsync(validation.data);
+    }
+    router.push("/admin/questions/pbqs");
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Details</CardTitle>
+          <CardDescription>Where the PBQ sits in the exam blueprint</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="pbq-title">Title</Label>
+            <Input
+              id="pbq-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Lock down the DMZ web server"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Certification</Label>
+            <Select
+              value={certificationId}
+              onValueChange={(value) => {
+                setCertificationId(value);
+                setObjectiveId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a certification" />
+              </SelectTrigger>
+              <SelectContent>
+                {certifications.map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Objective</Label>
+            <Select value={objectiveId} onValueChange={setObjectiveId} disabled={!certificationId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose an objective" />
+              </SelectTrigger>
+              <SelectContent>
+                {objectives.map((objective) => (
+                  <SelectItem key={objective.id} value={objective.id}>
+                    {objective.code} - {objective.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={type} onValueChange={(value) => handleTypeChange(value as PBQType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PBQ_TYPES.map((pbqType) => (
+                  <SelectItem key={pbqType} value={pbqType}>
+                    {PBQ_TYPE_LABELS[pbqType]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Changing the type replaces the config and rubric with that type&apos;s template
+            </p>
+          </div>
+          <div className="flex items-center gap-3 pt-6">
+            <Switch id="pbq-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="pbq-active">Visible to students</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="definition">
+        <TabsList>
+          <TabsTrigger value="definition">Config &amp; Rubric</TabsTrigger>
+          <TabsTrigger value="preview">Preview</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="definition" className="space-y-4">
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="pbq-config">Config (what students see)</Label>
+              <Textarea
+                id="pbq-config"
+                value={configText}
+                onChange={(e) => {
+                  setConfigText(e.target.value);
+                  resetPreview();
+                }}
+                className="min-h-[420px] font-mono text-xs"
+                spellCheck={false}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pbq-rubric">Scoring rubric (answer key and partial credit)</Label>
+              <Textarea
+                id="pbq-rubric"
+                value={rubricText}
+                onChange={(e) => {
+                  setRubricText(e.target.value);
+                  resetPreview();
+                }}
+                className="min-h-[420px] font-mono text-xs"
+                spellCheck={false}
+              />
+            </div>
+          </div>
+
+          {validation.issues.length > 0 ? (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/5 p-4">
+              <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Fix these before saving
+              </p>
+              <ul className="mt-2 list-disc space-y-1 pl-6 text-sm">
+                {validation.issues.map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-green-600 dark:text-green-400">
+              <CheckCircle className="h-4 w-4" />
+              Config and rubric are valid
+            </p>
+          )}
+        </TabsContent>
+
+        <TabsContent value="preview" className="space-y-4">
+          {previewDefinition ? (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base font-medium whitespace-pre-wrap">
+                    {previewDefinition.config.instructions}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PBQInteraction
+                    pbq={previewDefinition}
+                    response={previewResponse ?? initialPBQResponse(previewDefinition)}
+                    onChange={(response) => {
+                      setPreviewResponse(response);
+                      setPreviewResult(null);
+                    }}
+                  />
+                </CardContent>
+              </Card>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={resetPreview}>
+                  Reset
+                </Button>
+                <Button onClick={handleCheckPreview}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Score Preview
+                </Button>
+              </div>
+              {previewResult && <PBQScoreReport result={previewResult} />}
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              The preview appears once the config and rubric are valid.
+            </p>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => router.push("/admin/questions/pbqs")}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!validation.data || isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          {pbq ? "Save Changes" : "Create PBQ"}
+        </Button>
+      </div>
+    </div>
+  );
+}
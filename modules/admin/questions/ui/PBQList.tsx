@@ -0,0 +1,156 @@
+"use client";
+
+/**
+ * PBQList Component
+ *
+ * Table of performance-based questions with their objective, visibility and
+ * how students are scoring on them.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, TerminalSquare, Trash2 } from "lucide-react";
+import { useAdminPBQs, useDeletePBQ } from "../hooks/useAdminPBQs";
+import { PBQ_TYPES, PBQ_TYPE_LABELS, type PBQType, type SerializedPBQ } from "../types";
+
+interface PBQListProps {
+  certifications: { id: string; name: string; code: string }[];
+}
+
+const ALL = "all";
+
+export function PBQList({ certifications }: PBQListProps) {
+  const [certificationId, setCertificationId] = useState(ALL);
+  const [type, setType] = useState<PBQType | typeof ALL>(ALL);
+  const [pendingDelete, setPendingDelete] = useState<SerializedPBQ | null>(null);
+
+  const { data: pbqs, isLoading } = useAdminPBQs({
+    ...(certificationId !== ALL && { certificationId }),
+    ...(type !== ALL && { type }),
+  });
+  const deletePBQ = useDeletePBQ();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select value={certificationId} onValueChange={setCertificationId}>
+          <SelectTrigger className="w-[260px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All certifications</SelectItem>
+            {certifications.map((certification) => (
+              <SelectItem key={certification.id} value={certification.id}>
+                {certification.name} ({certification.code})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={(value) => setType(value as PBQType | typeof ALL)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {PBQ_TYPES.map((pbqType) => (
+              <SelectItem key={pbqType} value={pbqType}>
+                {PBQ_TYPE_LABELS[pbqType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Loading PBQs...</p>
+          </CardContent>
+        </Card>
+      ) : !pbqs || pbqs.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <TerminalSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No PBQs found</h3>
+          <p className="text-sm text-muted-foreground">Create a PBQ to add hands-on scenarios.</p>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="p-4 text-left text-sm font-medium">Title</th>
+                    <th className="p-4 text-left text-sm font-medium">Type</th>
+                    <th className="p-4 text-left text-sm font-medium">Objective</th>
+                    <th className="p-4 text-left text-sm font-medium">Status</th>
+                    <th className="p-4 text-left text-sm font-medium">Attempts</th>
+                    <th className="p-4 text-left text-sm font-medium">Avg Score</th>
+                    <th className="p-4 text-right text-sm font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pbqs.map((pbq) => (
+                    <tr key={pbq.id} className="border-b last:border-0">
+                      <td className="p-4 text-sm font-medium">{pbq.title}</td>
+                      <td className="p-4 text-sm">
+                        <Badge variant="secondary">{PBQ_TYPE_LABELS[pbq.type]}</Badge>
+                      </td>
+                      <td className="p-4 text-sm">
+                        <span className="font-mono">{pbq.objectiveCode}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {pbq.certificationName}
+                        </span>
+                      </td>
+                      <td className="p-4 text-sm">
+                        <Badge variant={pbq.isActive ? "default" : "outline"}>
+                          {pbq.isActive ? "Active" : "Hidden"}
+                        </Badge>
+                      </td>
+                      <td className="p-4 text-sm">{pbq.attemptCount}</td>
+                      <td className="p-4 text-sm">
+                        {pbq.averageScore != null ? `${Math.round(pbq.averageScore * 100)}%` : "—"}
+                      </td>
+                      <td className="p-4 text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link href={`/admin/questions/pbqs/${pbq.id}`}>
+                              <Pencil className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <Button variant="ghost" size="sm" onClick={() => setPendingDelete(pbq)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ConfirmationDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete PBQ"
+        description={`Delete "${pendingDelete?.title ?? ""}" and all ${pendingDelete?.attemptCount ?? 0} student attempts? This cannot be undone.`}
+        confirmText="Delete"
+        onConfirm={() => pendingDelete && deletePBQ.mutate(pendingDelete.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+/**
+ * QuestionDraftCard Component
+ *
+ * An AI-generated question draft in the review inbox. Pending drafts can be
+ * edited before they are approved into the task; failed drafts show why.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Check, RotateCcw, X } from "lucide-react";
+import type { QuestionOption } from "../types/question.types";
+import type {
+  ReviewQuestionDraftInput,
+  SerializedQuestionDraft,
+} from "../types/questionDraft.types";
+
+interface QuestionDraftCardProps {
+  draft: SerializedQuestionDraft;
+  onReview?: (input: ReviewQuestionDraftInput) => void;
+  onRetry?: (draftId: string) => void;
+  isBusy?: boolean;
+}
+
+const TYPE_LABELS: Record<SerializedQuestionDraft["type"], string> = {
+  multiple_choice: "Multiple choice",
+  multi_select: "Multi-select",
+};
+
+export function QuestionDraftCard({ draft, onReview, onRetry, isBusy }: QuestionDraftCardProps) {
+  const [text, setText] = useState(draft.text ?? "");
+  const [choices, setChoices] = useState<QuestionOption[]>(draft.choices);
+  const [difficulty, setDifficulty] = useState<"easy" | "medium" | "hard">("medium");
+
+  const editable = draft.status === "pending" && !!onReview;
+  const edited =
+    text.trim() !== (draft.text ?? "") || JSON.stringify(choices) !== JSON.stringify(draft.choices);
+  const canApprove =
+    text.trim().length > 0 &&
+    choices.every((choice) => choice.text.trim()) &&
+    choices.some((choice) => choice.isCorrect);
+
+  const updateChoice = (index: number, changes: Partial<QuestionOption>) => {
+    setChoices((current) =>
+      current.map((choice, i) => {
+        if (i === index) return { ...choice, ...changes };
+        // Multiple choice keeps a single correct answer
+        if (changes.isCorrect && draft.type === "multiple_choice") return { ...choice, isCorrect: false };
+        return choice;
+      })
+    );
+  };
+
+  const handleApprove = () => {
+    onReview?.({
+      draftId: draft.id,
+      decision: "approve",
+      difficulty,
+      ...(edited && {
+        text: text.trim(),
+        choices: choices.map((choice) => ({ ...choice, text: choice.text.trim() })),
+      }),
+    });
+  };
+
+  const target = draft.subBulletText ?? draft.bulletText;
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-6">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline">{draft.objectiveCode}</Badge>
+          <Badge variant="secondary">{TYPE_LABELS[draft.type]}</Badge>
+          <span className="text-xs text-muted-foreground">{draft.taskName}</span>
+          {edited && <Badge variant="outline">Edited</Badge>}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {draft.objectiveName}
+          {target && <span className="block text-xs">Targets: {target}</span>}
+        </p>
+
+        {draft.status === "queued" && (
+          <p className="text-sm text-muted-foreground">Waiting for the generation worker...</p>
+        )}
+
+        {draft.status === "failed" && (
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-sm text-destructive">{draft.error || "Generation failed"}</p>
+            {onRetry && (
+              <Button variant="outline" size="sm" onClick={() => onRetry(draft.id)} disabled={isBusy}>
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry
+              </Button>
+            )}
+          </div>
+        )}
+
+        {draft.text !== null && (
+          <>
+            {editable ? (
+              <div className="space-y-1">
+                <Label htmlFor={`text-${draft.id}`}>Question</Label>
+                <Textarea
+                  id={`text-${draft.id}`}
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={3}
+                />
+              </div>
+            ) : (
+              <p className="font-medium">{draft.text}</p>
+            )}
+
+            <div className="space-y-2">
+              {choices.map((choice, index) => (
+                <div key={index} className="rounded-md border p-3 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      checked={choice.isCorrect}
+                      onCheckedChange={(checked) => updateChoice(index, { isCorrect: checked === true })}
+                      disabled={!editable}
+                      aria-label="Correct answer"
+                    />
+                    {editable ? (
+                      <Input
+                        value={choice.text}
+                        onChange={(e) => updateChoice(index, { text: e.target.value })}
+                      />
+                    ) : (
+                      <span className="text-sm">{choice.text}</span>
+                    )}
+                  </div>
+                  {choice.explanation && (
+                    <p className="pl-6 text-xs text-muted-foreground">{choice.explanation}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        {editable && (
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <Select value={difficulty} onValueChange={(value) => setDifficulty(value as typeof difficulty)}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="easy">Easy</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="hard">Hard</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onReview?.({ draftId: draft.id, decision: "reject" })}
+              disabled={isBusy}
+            >
+              <X className="h-4 w-4 mr-1" />
+              Reject
+            </Button>
+            <Button size="sm" onClick={handleApprove} disabled={isBusy || !canApprove}>
+              <Check className="h-4 w-4 mr-1" />
+              Approve
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+/**
+ * QuestionDraftInbox Component
+ *
+ * Fill a question task's gaps with queued AI drafts, then review the drafts
+ * before they become questions.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft, Loader2, RotateCcw, Sparkles } from "lucide-react";
+import { useQuestionTasks } from "../hooks/useQuestionTasks";
+import {
+  useFillTaskGaps,
+  useQuestionDrafts,
+  useRetryQuestionDrafts,
+  useReviewQuestionDraft,
+  useTaskGaps,
+} from "../hooks/useQuestionDrafts";
+import {
+  MAX_DRAFTS_PER_FILL,
+  type QuestionDraftStatus,
+} from "../types/questionDraft.types";
+import { QuestionDraftCard } from "./QuestionDraftCard";
+
+// Select value for drafts of every task
+const ALL_TASKS = "all";
+
+const STATUS_TABS: { value: QuestionDraftStatus; label: string }[] = [
+  { value: "pending", label: "Awaiting review" },
+  { value: "queued", label: "Queued" },
+  { value: "failed", label: "Failed" },
+  { value: "approved", label: "Approved" },
+  { value: "rejected", label: "Rejected" },
+];
+
+export function QuestionDraftInbox() {
+  const [taskId, setTaskId] = useState(ALL_TASKS);
+  const [status, setStatus] = useState<QuestionDraftStatus>("pending");
+  const [limit, setLimit] = useState("");
+
+  const selectedTaskId = taskId === ALL_TASKS ? null : taskId;
+  const { data: tasks } = useQuestionTasks();
+  const { data: gapsResponse, isLoading: gapsLoading } = useTaskGaps(selectedTaskId);
+  const { data: draftsResponse, isLoading: draftsLoading } = useQuestionDrafts(
+    status,
+    selectedTaskId ?? undefined
+  );
+  const fillGaps = useFillTaskGaps();
+  const retryDrafts = useRetryQuestionDrafts();
+  const reviewDraft = useReviewQuestionDraft();
+
+  const gaps = gapsResponse?.data;
+  const drafts = draftsResponse?.data?.drafts ?? [];
+  const counts = draftsResponse?.data?.counts;
+  const selectedTask = tasks?.find((task) => task.id === selectedTaskId);
+  const parsedLimit = limit ? Math.min(Number(limit), MAX_DRAFTS_PER_FILL) : undefined;
+  const queueCount = Math.min(gaps?.missingTotal ?? 0, parsedLimit ?? MAX_DRAFTS_PER_FILL);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/questions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Question Bank
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">Question Inbox</h1>
+        <p className="text-muted-foreground mt-2">
+          Generate drafts for a task&apos;s under-target objectives and review them before they join
+          the question bank
+        </p>
+      </div>
+
+      {/* Fill the gap */}
+      <div className="rounded-lg border bg-card p-6 space-y-4">
+        <div className="flex flex-col gap-3 md:flex-row md:items-end">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Question task</Label>
+            <Select value={taskId} onValueChange={setTaskId}>
+              <SelectTrigger className="md:w-[360px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_TASKS}>All tasks</SelectItem>
+                {(tasks ?? []).map((task) => (
+                  <SelectItem key={task.id} value={task.id}>
+                    {task.name} ({task.certificationCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedTask && (
+            <>
+              <div className="space-y-1">
+                <Label htmlFor="fill-limit" className="text-xs text-muted-foreground">
+                  At most
+                </Label>
+                <Input
+                  id="fill-limit"
+                  type="number"
+                  min={1}
+                  max={MAX_DRAFTS_PER_FILL}
+                  placeholder={String(Math.min(gaps?.missingTotal ?? 0, MAX_DRAFTS_PER_FILL))}
+                  value={limit}
+                  onChange={(e) => setLimit(e.target.value)}
+                  className="md:w-[120px]"
+                />
+              </div>
+              <Button
+                onClick={() => fillGaps.mutate({ taskId: selectedTask.id, limit: parsedLimit })}
+                disabled={
+                  fillGaps.isPending || selectedTask.status !== "active" || queueCount === 0
+                }
+              >
+                {fillGaps.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Sparkles className="h-4 w-4 mr-2" />
+                )}
+                Fill the Gap ({queueCount})
+              </Button>
+            </>
+          )}
+        </div>
+
+        {selectedTask && selectedTask.status !== "active" && (
+          <p className="text-sm text-muted-foreground">
+            This task is {selectedTask.status}. Only active tasks can be filled.
+          </p>
+        )}
+
+        {selectedTaskId &&
+          (gapsLoading ? (
+            <Skeleton className="h-40" />
+          ) : gaps ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Objective</TableHead>
+                  <TableHead className="text-right">Target</TableHead>
+                  <TableHead className="text-right">Questions</TableHead>
+                  <TableHead className="text-right">Drafts</TableHead>
+                  <TableHead className="text-right">Missing</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {gaps.objectives.map((gap) => (
+                  <TableRow key={gap.objectiveId}>
+                    <TableCell>
+                      <span className="font-medium">{gap.objectiveCode}</span>{" "}
+                      <span className="text-muted-foreground">{gap.objectiveName}</span>
+                    </TableCell>
+                    <TableCell className="text-right">{gap.targetCount}</TableCell>
+                    <TableCell className="text-right">{gap.currentCount}</TableCell>
+                    <TableCell className="text-right">{gap.inFlightCount}</TableCell>
+                    <TableCell className="text-right">
+                      {gap.missingCount > 0 ? (
+                        <Badge variant="secondary">{gap.missingCount}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">0</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-destructive">{gapsResponse?.error}</p>
+          ))}
+      </div>
+
+      {/* Review inbox */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Tabs value={status} onValueChange={(value) => setStatus(value as QuestionDraftStatus)}>
+            <TabsList>
+              {STATUS_TABS.map((tab) => (
+                <TabsTrigger key={tab.value} value={tab.value}>
+                  {tab.label}
+                  {counts && ` (${counts[tab.value]})`}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+          {status === "failed" && drafts.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => retryDrafts.mutate({ draftIds: drafts.map((draft) => draft.id) })}
+              disabled={retryDrafts.isPending}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Retry All
+            </Button>
+          )}
+        </div>
+
+        {draftsLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-48" />
+            ))}
+          </div>
+        ) : drafts.length === 0 ? (
+          <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+            <p className="text-sm text-muted-foreground">
+              {status === "pending"
+                ? "No drafts waiting for review. Choose a task and fill its gaps to generate some."
+                : "No drafts here."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {drafts.map((draft) => (
+              <QuestionDraftCard
+                key={draft.id}
+                draft={draft}
+                onReview={(input) => reviewDraft.mutate(input)}
+                onRetry={(draftId) => retryDrafts.mutate({ draftIds: [draftId] })}
+                isBusy={reviewDraft.isPending || retryDrafts.isPending}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * QuestionExportPanel Component
+ *
+ * Export a certification's questions (optionally one domain or objective)
+ * to CSV or Excel in the format the importer reads back, or to QTI 2.1 /
+ * GIFT for other LMSes.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Loader2 } from "lucide-react";
+import { useDomains } from "@/modules/certifications/hooks/useDomains";
+import { useExportQuestions } from "../hooks/useQuestionSheets";
+import type { QuestionExportFormat } from "../types";
+
+interface QuestionExportPanelProps {
+  certifications: { id: string; name: string; code: string }[];
+}
+
+const ALL = "all";
+
+export function QuestionExportPanel({ certifications }: QuestionExportPanelProps) {
+  const [certificationId, setCertificationId] = useState("");
+  const [domainId, setDomainId] = useState(ALL);
+  const [objectiveId, setObjectiveId] = useState(ALL);
+  const [format, setFormat] = useState<QuestionExportFormat>("xlsx");
+  const { data: domains } = useDomains(certificationId);
+  const exportQuestions = useExportQuestions();
+
+  const domainList = domains?.data ?? [];
+  const objectives = domainList.find((domain) => domain.id === domainId)?.objectives ?? [];
+
+  const handleExport = () => {
+    exportQuestions.mutate({
+      format,
+      certificationId,
+      ...(domainId !== ALL && { domainId }),
+      ...(objectiveId !== ALL && { objectiveId }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Export Questions</CardTitle>
+        <CardDescription>
+          Download questions with their choices, task and blueprint location. CSV and Excel files
+          can be edited and imported again without losing anything. QTI and GIFT carry multiple
+          choice and multiple select questions with their feedback; task and active state stay
+          here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Certification</Label>
+            <Select
+              value={certificationId}
+              onValueChange={(value) => {
+                setCertificationId(value);
+                setDomainId(ALL);
+                setObjectiveId(ALL);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a certification" />
+              </SelectTrigger>
+              <SelectContent>
+                {certifications.map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as QuestionExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="xlsx">Excel (.xlsx)</SelectItem>
+                <SelectItem value="csv">CSV (.csv)</SelectItem>
+                <SelectItem value="qti">QTI 2.1 package (.zip)</SelectItem>
+                <SelectItem value="gift">Moodle GIFT (.gift)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Domain</Label>
+            <Select
+              value={domainId}
+              onValueChange={(value) => {
+                setDomainId(value);
+                setObjectiveId(ALL);
+              }}
+              disabled={!certificationId}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All domains</SelectItem>
+                {domainList.map((domain) => (
+                  <SelectItem key={domain.id} value={domain.id}>
+                    {domain.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Objective</Label>
+            <Select value={objectiveId} onValueChange={setObjectiveId} disabled={domainId === ALL}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All objectives</SelectItem>
+                {objectives.map((objective) => (
+                  <SelectItem key={objective.id} value={objective.id}>
+                    {objective.code} - {objective.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <Button onClick={handleExport} disabled={!certificationId || exportQuestions.isPending}>
+          {exportQuestions.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
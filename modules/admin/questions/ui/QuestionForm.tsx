@@ -23,7 +23,9 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent } from "@/components/ui/card";
 import { useCreateQuestion } from "../hooks/useQuestions";
 import { useGenerateQuestion } from "../hooks/useQuestionAI";
-import type { QuestionData, QuestionOption } from "../types";
+import { useCheckQuestionDuplicates } from "../hooks/useQuestionDuplicates";
+import type { QuestionData, QuestionOption, SimilarQuestion } from "../types";
+import { DuplicateQuestionWarning } from "./DuplicateQuestionWarning";
 import { Wand2, Plus, X, Save, ArrowLeft } from "lucide-react";
 import { toast } from "sonner";
 import Link from "next/link";
@@ -32,6 +34,7 @@ export function QuestionForm() {
   const router = useRouter();
   const createQuestion = useCreateQuestion();
   const generateAI = useGenerateQuestion();
+  const checkDuplicates = useCheckQuestionDuplicates();
 
   const [questionText, setQuestionText] = useState("");
   const [questionType, setQuestionType] = useState<
@@ -48,6 +51,9 @@ export function QuestionForm() {
     { text: "", isCorrect: false, explanation: "" },
   ]);
 
+  // Near-duplicates found on the last save attempt; saving again keeps the question anyway
+  const [duplicates, setDuplicates] = useState<SimilarQuestion[]>([]);
+
   // For AI generation
   const [aiPrompt, setAiPrompt] = useState("");
   const [showAIPrompt, setShowAIPrompt] = useState(false);
@@ -83,6 +89,7 @@ export function QuestionForm() {
     }
 
     setOptions(newOptions);
+    if (field === "text") setDuplicates([]);
   };
 
   // Generate with AI
@@ -100,6 +107,7 @@ export function QuestionForm() {
     if (generated) {
       setQuestionText(generated.text);
       setOptions(generated.options);
+      setDuplicates([]);
       setShowAIPrompt(false);
       toast.success("Question generated! Review and adjust as needed.");
     }
@@ -125,6 +133,18 @@ export function QuestionForm() {
       return;
     }
 
+    // Warn once about near-duplicates; a failed check doesn't block saving
+    if (duplicates.length === 0) {
+      const check = await checkDuplicates
+        .mutateAsync({ text: questionText, choices: options })
+        .catch(() => null);
+      if (check?.success && check.data && check.data.length > 0) {
+        setDuplicates(check.data);
+        toast.warning("This looks like a question already in the bank. Review it before saving.");
+        return;
+      }
+    }
+
     const correctAnswers = options
       .map((opt, idx) => (opt.isCorrect ? idx.toString() : null))
       .filter(Boolean)
@@ -234,7 +254,10 @@ export function QuestionForm() {
               id="question-text"
               placeholder="Enter your question here..."
               value={questionText}
-              onChange={(e) => setQuestionText(e.target.value)}
+              onChange={(e) => {
+                setQuestionText(e.target.value);
+                setDuplicates([]);
+              }}
               rows={4}
               required
             />
@@ -307,6 +330,8 @@ export function QuestionForm() {
         </CardContent>
       </Card>
 
+      <DuplicateQuestionWarning matches={duplicates} />
+
       {/* Actions */}
       <div className="flex justify-between">
         <Link href="/admin/questions">
@@ -315,9 +340,15 @@ export function QuestionForm() {
             Cancel
           </Button>
         </Link>
-        <Button type="submit" disabled={createQuestion.isPending}>
+        <Button type="submit" disabled={createQuestion.isPending || checkDuplicates.isPending}>
           <Save className="mr-2 h-4 w-4" />
-          {createQuestion.isPending ? "Saving..." : "Save Question"}
+          {checkDuplicates.isPending
+            ? "Checking for duplicates..."
+            : createQuestion.isPending
+              ? "Saving..."
+              : duplicates.length > 0
+                ? "Save Anyway"
+                : "Save Question"}
         </Button>
       </div>
     </form>
@@ -0,0 +1,264 @@
+"use client";
+
+/**
+ * QuestionImportPanel Component
+ *
+ * Upload a CSV/Excel, QTI 2.1 or GIFT question file for a certification,
+ * preview the create/update/unchanged/error diff (dry run), then commit
+ * the import.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { FileSearch, Loader2, Upload } from "lucide-react";
+import { useDomains } from "@/modules/certifications/hooks/useDomains";
+import { useImportQuestions } from "../hooks/useQuestionSheets";
+import type { QuestionImportAction, QuestionImportResult } from "../types";
+
+interface QuestionImportPanelProps {
+  certifications: { id: string; name: string; code: string }[];
+}
+
+const ACTION_BADGES: Record<
+  QuestionImportAction,
+  { label: string; variant: "default" | "secondary" | "outline" | "destructive" }
+> = {
+  create: { label: "Create", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+const NONE = "none";
+
+export function QuestionImportPanel({ certifications }: QuestionImportPanelProps) {
+  const [certificationId, setCertificationId] = useState("");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<QuestionImportResult | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [defaultObjectiveCode, setDefaultObjectiveCode] = useState(NONE);
+  const { data: domains } = useDomains(certificationId);
+  const importQuestions = useImportQuestions();
+
+  const objectives = (domains?.data ?? []).flatMap((domain) => domain.objectives);
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file || !certificationId) return;
+    const result = await importQuestions.mutateAsync({
+      certificationId,
+      file,
+      dryRun,
+      ...(defaultObjectiveCode !== NONE && { defaultObjectiveCode }),
+    });
+    setPreview(result);
+  };
+
+  const resetPreview = () => setPreview(null);
+
+  const summary = preview?.summary;
+  const canCommit =
+    !!preview &&
+    !preview.committed &&
+    summary!.errors === 0 &&
+    summary!.creates + summary!.updates > 0;
+  const visibleRows = (preview?.rows ?? []).filter(
+    (row) => showUnchanged || row.action !== "unchanged"
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Questions</CardTitle>
+        <CardDescription>
+          Upload a .csv or .xlsx file in the export format, a QTI 2.1 package (.zip or a single
+          .xml item) or a Moodle GIFT file (.gift or .txt). Objectives are matched by code
+          (e.g. &quot;1.2&quot;); in spreadsheets bulletOrder and subBulletOrder are 1-based
+          positions within the objective, in QTI/GIFT bullets are matched by text. Questions with
+          an existing id update that question.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Certification</Label>
+            <Select
+              value={certificationId}
+              onValueChange={(value) => {
+                setCertificationId(value);
+                setDefaultObjectiveCode(NONE);
+                resetPreview();
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a certification" />
+              </SelectTrigger>
+              <SelectContent>
+                {certifications.map((certification) => (
+                  <SelectItem key={certification.id} value={certification.id}>
+                    {certification.name} ({certification.code})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="question-import-file">File</Label>
+            <Input
+              id="question-import-file"
+              type="file"
+              accept=".csv,.xlsx,.zip,.xml,.gift,.txt"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] ?? null);
+                resetPreview();
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Default objective (QTI/GIFT)</Label>
+            <Select
+              value={defaultObjectiveCode}
+              onValueChange={(value) => {
+                setDefaultObjectiveCode(value);
+                resetPreview();
+              }}
+              disabled={!certificationId}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>None - items must name their objective</SelectItem>
+                {objectives.map((objective) => (
+                  <SelectItem key={objective.id} value={objective.code}>
+                    {objective.code} - {objective.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!file || !certificationId || importQuestions.isPending}
+          >
+            {importQuestions.isPending && !preview ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileSearch className="h-4 w-4 mr-2" />
+            )}
+            Preview Changes
+          </Button>
+          <Button onClick={() => runImport(false)} disabled={!canCommit || importQuestions.isPending}>
+            {importQuestions.isPending && !!preview ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Import {summary ? summary.creates + summary.updates : ""} Questions
+          </Button>
+        </div>
+
+        {preview && summary && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {preview.committed && <Badge>Imported</Badge>}
+              <span>{summary.totalRows} rows:</span>
+              <Badge variant="default">{summary.creates} create</Badge>
+              <Badge variant="secondary">{summary.updates} update</Badge>
+              <Badge variant="outline">{summary.unchanged} unchanged</Badge>
+              <Badge variant="destructive">{summary.errors} errors</Badge>
+              {summary.unchanged > 0 && (
+                <Button variant="link" size="sm" onClick={() => setShowUnchanged((v) => !v)}>
+                  {showUnchanged ? "Hide" : "Show"} unchanged
+                </Button>
+              )}
+            </div>
+
+            {summary.errors > 0 && (
+              <p className="text-sm text-destructive">
+                Fix the rows with errors and preview again. Nothing is imported until every row is
+                valid.
+              </p>
+            )}
+
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead className="w-28">Action</TableHead>
+                    <TableHead className="w-40">Location</TableHead>
+                    <TableHead>Question / Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_BADGES[row.action].variant}>
+                          {ACTION_BADGES[row.action].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{row.location}</TableCell>
+                      <TableCell className="space-y-2 whitespace-normal">
+                        <p className="line-clamp-2">{row.text}</p>
+                        {row.errors.length > 0 && (
+                          <ul className="list-disc pl-5 text-sm text-destructive">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                        {row.changes.map((change) => (
+                          <div key={change.field} className="grid gap-1 text-xs md:grid-cols-[8rem_1fr_1fr]">
+                            <span className="font-medium">{change.field}</span>
+                            <span className="whitespace-pre-line rounded bg-red-50 px-2 py-1 text-red-700 line-through dark:bg-red-950 dark:text-red-300">
+                              {change.before || "(empty)"}
+                            </span>
+                            <span className="whitespace-pre-line rounded bg-green-50 px-2 py-1 text-green-700 dark:bg-green-950 dark:text-green-300">
+                              {change.after || "(empty)"}
+                            </span>
+                          </div>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {visibleRows.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">
+                        No changes - every question already matches the file.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,450 @@
+"use client";
+
+/**
+ * QuestionReviewPanel Component
+ *
+ * One question's editorial review: the moves the current user can make,
+ * assigned reviewers, comment threads and the audit trail of who did what.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Check, CheckCircle2, History, MessageSquare, UserPlus, X } from "lucide-react";
+import {
+  useAddQuestionComment,
+  useQuestionReview,
+  useQuestionReviewer,
+  useResolveQuestionComment,
+  useReviewCandidates,
+  useTransitionQuestion,
+} from "../hooks/useQuestionReview";
+import type {
+  QuestionCommentThread,
+  QuestionReviewAction,
+  ReviewUser,
+  SerializedReviewEvent,
+} from "../types/questionReview.types";
+import { QUESTION_STATUS_LABELS, QuestionStatusBadge } from "./QuestionStatusBadge";
+
+interface QuestionReviewPanelProps {
+  questionId: string;
+  // Assign and remove reviewers (questions.edit)
+  canAssignReviewers: boolean;
+}
+
+const ACTION_BUTTONS: Record<
+  QuestionReviewAction,
+  { label: string; variant: "default" | "outline" | "destructive" }
+> = {
+  submit: { label: "Submit for Review", variant: "default" },
+  approve: { label: "Approve", variant: "default" },
+  request_changes: { label: "Request Changes", variant: "outline" },
+  publish: { label: "Publish", variant: "default" },
+  retire: { label: "Retire", variant: "destructive" },
+  reopen: { label: "Reopen as Draft", variant: "outline" },
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  submitted: "submitted for review",
+  approved: "approved",
+  changes_requested: "requested changes",
+  published: "published",
+  retired: "retired",
+  reopened: "reopened as a draft",
+  reviewer_assigned: "assigned reviewer",
+  reviewer_removed: "removed reviewer",
+  merged_duplicate: "merged as a duplicate",
+  imported: "set the status by import",
+};
+
+function userLabel(user: ReviewUser | null): string {
+  return user ? (user.name ?? user.email) : "Deleted user";
+}
+
+export function QuestionReviewPanel({ questionId, canAssignReviewers }: QuestionReviewPanelProps) {
+  const [note, setNote] = useState("");
+  const [reviewerId, setReviewerId] = useState("");
+  const [newThread, setNewThread] = useState("");
+
+  const { data: response, isLoading } = useQuestionReview(questionId);
+  const { data: candidatesResponse } = useReviewCandidates(canAssignReviewers);
+  const transition = useTransitionQuestion();
+  const updateReviewer = useQuestionReviewer();
+  const addComment = useAddQuestionComment();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-48" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  const review = response?.data;
+  if (!review) {
+    return <p className="text-muted-foreground">{response?.error ?? "Question not found"}</p>;
+  }
+
+  const { question } = review;
+  const assignable = (candidatesResponse?.data ?? []).filter(
+    (candidate) => !review.reviewers.some((reviewer) => reviewer.id === candidate.id)
+  );
+
+  const runAction = (action: QuestionReviewAction) => {
+    transition.mutate(
+      { questionId, action, note: note.trim() || undefined },
+      { onSuccess: (result) => result.success && setNote("") }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/questions/review"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Review Queue
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold tracking-tight">Question Review</h1>
+          <QuestionStatusBadge status={question.status} />
+          <Button variant="outline" size="sm" className="ml-auto" asChild>
+            <Link href={`/admin/questions/${questionId}/revisions`}>
+              <History className="h-4 w-4 mr-2" />
+              Revision History
+            </Link>
+          </Button>
+        </div>
+        <p className="text-muted-foreground mt-2">
+          {[question.certificationName, question.objectiveCode && `${question.objectiveCode} ${question.objectiveName ?? ""}`]
+            .filter(Boolean)
+            .join(" • ") || "Not mapped to an objective"}
+        </p>
+        {question.duplicateOfId && (
+          <p className="text-sm text-muted-foreground mt-1">
+            Retired as a duplicate of{" "}
+            <Link href={`/admin/questions/${question.duplicateOfId}/review`} className="underline">
+              another question
+            </Link>
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="space-y-6 lg:col-span-2">
+          {/* Question */}
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="flex gap-2">
+                <Badge variant="secondary">{question.type.replace("_", " ")}</Badge>
+                <Badge variant="outline">{question.difficulty}</Badge>
+              </div>
+              <p className="whitespace-pre-wrap font-medium">{question.text}</p>
+              <ul className="space-y-2">
+                {question.choices.map((choice, index) => (
+                  <li
+                    key={index}
+                    className={`rounded-md border p-3 text-sm ${choice.isCorrect ? "border-green-500 bg-green-50 dark:bg-green-950/30" : ""}`}
+                  >
+                    <div className="flex items-start gap-2">
+                      {choice.isCorrect ? (
+                        <Check className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                      ) : (
+                        <X className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                      )}
+                      <div>
+                        <p>{choice.text}</p>
+                        {choice.explanation && (
+                          <p className="text-muted-foreground mt-1">{choice.explanation}</p>
+                        )}
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+
+          {/* Comment threads */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MessageSquare className="h-5 w-5" />
+                Comments
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {review.threads.length === 0 && (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              )}
+              {review.threads.map((thread) => (
+                <CommentThread key={thread.id} questionId={questionId} thread={thread} />
+              ))}
+              <div className="space-y-2 border-t pt-4">
+                <Textarea
+                  placeholder="Start a new thread..."
+                  value={newThread}
+                  onChange={(e) => setNewThread(e.target.value)}
+                  rows={3}
+                />
+                <Button
+                  size="sm"
+                  disabled={!newThread.trim() || addComment.isPending}
+                  onClick={() =>
+                    addComment.mutate(
+                      { questionId, body: newThread },
+                      { onSuccess: (result) => result.success && setNewThread("") }
+                    )
+                  }
+                >
+                  Comment
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          {/* Workflow */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Workflow</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {review.actions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing for you to do while this question is{" "}
+                  {QUESTION_STATUS_LABELS[question.status].toLowerCase()}.
+                </p>
+              ) : (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="review-note" className="text-xs text-muted-foreground">
+                      Note{review.actions.includes("request_changes") && " (required to request changes)"}
+                    </Label>
+                    <Textarea
+                      id="review-note"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      rows={3}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {review.actions.map((action) => (
+                      <Button
+                        key={action}
+                        size="sm"
+                        variant={ACTION_BUTTONS[action].variant}
+                        disabled={
+                          transition.isPending || (action === "request_changes" && !note.trim())
+                        }
+                        onClick={() => runAction(action)}
+                      >
+                        {ACTION_BUTTONS[action].label}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+              {question.status === "draft" && review.reviewers.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Assign a reviewer before submitting for review.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Reviewers */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Reviewers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {review.reviewers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No reviewers assigned.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {review.reviewers.map((reviewer) => (
+                    <li key={reviewer.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="truncate font-medium">{userLabel(reviewer)}</p>
+                        {reviewer.name && (
+                          <p className="truncate text-xs text-muted-foreground">{reviewer.email}</p>
+                        )}
+                      </div>
+                      {canAssignReviewers && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-8 w-8 p-0"
+                          aria-label={`Remove ${userLabel(reviewer)}`}
+                          disabled={updateReviewer.isPending}
+                          onClick={() =>
+                            updateReviewer.mutate({ questionId, reviewerId: reviewer.id, remove: true })
+                          }
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {canAssignReviewers && (
+                <div className="flex gap-2">
+                  <Select value={reviewerId} onValueChange={setReviewerId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Add a reviewer" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignable.map((candidate) => (
+                        <SelectItem key={candidate.id} value={candidate.id}>
+                          {userLabel(candidate)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="icon"
+                    variant="outline"
+                    aria-label="Assign reviewer"
+                    disabled={!reviewerId || updateReviewer.isPending}
+                    onClick={() =>
+                      updateReviewer.mutate(
+                        { questionId, reviewerId },
+                        { onSuccess: (result) => result.success && setReviewerId("") }
+                      )
+                    }
+                  >
+                    <UserPlus className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Audit trail */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {review.events.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No review activity yet.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {review.events.map((event) => (
+                    <ReviewEventItem key={event.id} event={event} />
+                  ))}
+                </ol>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CommentThread({ questionId, thread }: { questionId: string; thread: QuestionCommentThread }) {
+  const [reply, setReply] = useState("");
+  const [replying, setReplying] = useState(false);
+  const addComment = useAddQuestionComment();
+  const resolveComment = useResolveQuestionComment(questionId);
+
+  const resolved = !!thread.resolvedAt;
+
+  return (
+    <div className={`rounded-md border p-3 space-y-3 ${resolved ? "opacity-70" : ""}`}>
+      {[thread, ...thread.replies].map((comment, index) => (
+        <div key={comment.id} className={index > 0 ? "ml-4 border-l pl-3" : ""}>
+          <p className="text-xs text-muted-foreground">
+            <span className="font-medium text-foreground">{userLabel(comment.author)}</span> ·{" "}
+            {new Date(comment.createdAt).toLocaleString()}
+          </p>
+          <p className="text-sm whitespace-pre-wrap mt-1">{comment.body}</p>
+        </div>
+      ))}
+
+      {replying && (
+        <div className="space-y-2">
+          <Textarea value={reply} onChange={(e) => setReply(e.target.value)} rows={2} />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={!reply.trim() || addComment.isPending}
+              onClick={() =>
+                addComment.mutate(
+                  { questionId, parentId: thread.id, body: reply },
+                  {
+                    onSuccess: (result) => {
+                      if (result.success) {
+                        setReply("");
+                        setReplying(false);
+                      }
+                    },
+                  }
+                )
+              }
+            >
+              Reply
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setReplying(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        {!replying && !resolved && (
+          <Button size="sm" variant="ghost" onClick={() => setReplying(true)}>
+            Reply
+          </Button>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={resolveComment.isPending}
+          onClick={() => resolveComment.mutate({ commentId: thread.id, resolved: !resolved })}
+        >
+          <CheckCircle2 className="h-4 w-4 mr-1" />
+          {resolved ? "Reopen" : "Resolve"}
+        </Button>
+        {resolved && <span className="text-xs text-muted-foreground">Resolved</span>}
+      </div>
+    </div>
+  );
+}
+
+function ReviewEventItem({ event }: { event: SerializedReviewEvent }) {
+  return (
+    <li className="text-sm">
+      <p>
+        <span className="font-medium">{userLabel(event.actor)}</span>{" "}
+        {EVENT_LABELS[event.action] ?? event.action}
+        {event.reviewer && <span className="font-medium"> {userLabel(event.reviewer)}</span>}
+      </p>
+      {event.note && <p className="text-muted-foreground whitespace-pre-wrap">{event.note}</p>}
+      <p className="text-xs text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</p>
+    </li>
+  );
+}
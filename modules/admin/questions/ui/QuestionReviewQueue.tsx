@@ -0,0 +1,139 @@
+"use client";
+
+/**
+ * QuestionReviewQueue Component
+ *
+ * Questions waiting at each step of the review workflow, oldest first, with
+ * a filter for the ones assigned to the current user.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { QuestionStatus } from "@prisma/client";
+import { ArrowLeft } from "lucide-react";
+import { useReviewQueue } from "../hooks/useQuestionReview";
+import { QUESTION_STATUSES } from "../types/questionReview.types";
+import { QUESTION_STATUS_LABELS } from "./QuestionStatusBadge";
+
+export function QuestionReviewQueue() {
+  const [status, setStatus] = useState<QuestionStatus>("in_review");
+  const [assignedToMe, setAssignedToMe] = useState(false);
+
+  const { data: response, isLoading } = useReviewQueue({ status, assignedToMe });
+  const questions = response?.data ?? [];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/questions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Question Bank
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">Review Queue</h1>
+        <p className="text-muted-foreground mt-2">
+          Questions move from draft through review to published; only published questions reach
+          students
+        </p>
+      </div>
+
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <Tabs value={status} onValueChange={(value) => setStatus(value as QuestionStatus)}>
+          <TabsList>
+            {QUESTION_STATUSES.map((value) => (
+              <TabsTrigger key={value} value={value}>
+                {QUESTION_STATUS_LABELS[value]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="assigned-to-me"
+            checked={assignedToMe}
+            onCheckedChange={(checked) => setAssignedToMe(checked === true)}
+          />
+          <Label htmlFor="assigned-to-me">Assigned to me</Label>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <Skeleton className="h-64" />
+      ) : response && !response.success ? (
+        <p className="text-sm text-destructive">{response.error}</p>
+      ) : questions.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            No {QUESTION_STATUS_LABELS[status].toLowerCase()} questions
+            {assignedToMe && " assigned to you"}.
+          </p>
+        </div>
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Question</TableHead>
+                <TableHead className="w-[140px]">Objective</TableHead>
+                <TableHead className="w-[220px]">Reviewers</TableHead>
+                <TableHead className="w-[110px] text-right">Open threads</TableHead>
+                <TableHead className="w-[160px]">Last change</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {questions.map((question) => (
+                <TableRow key={question.id}>
+                  <TableCell className="max-w-[420px]">
+                    <Link
+                      href={`/admin/questions/${question.id}/review`}
+                      className="block truncate font-medium hover:underline"
+                    >
+                      {question.text}
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{question.objectiveCode ?? "N/A"}</div>
+                    <div className="text-xs text-muted-foreground">{question.certificationCode}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {question.reviewers.length === 0 ? (
+                      <span className="text-muted-foreground">None</span>
+                    ) : (
+                      question.reviewers.map((reviewer) => reviewer.name ?? reviewer.email).join(", ")
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {question.openThreads > 0 ? (
+                      <Badge variant="secondary">{question.openThreads}</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">0</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {new Date(question.updatedAt).toLocaleString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+/**
+ * QuestionRevisionHistory Component
+ *
+ * Every saved version of a question with a side-by-side diff between any two
+ * and one-click restore. Attempt counts show which version students were
+ * graded on.
+ */
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useQuestionRevisions, useRestoreQuestionRevision } from "../hooks/useQuestionRevisions";
+import { diffRevisionContent, type DiffSegment } from "../lib/revisionDiff";
+import type {
+  QuestionRevisionSource,
+  SerializedQuestionRevision,
+} from "../types/questionRevision.types";
+
+interface QuestionRevisionHistoryProps {
+  questionId: string;
+  canRestore: boolean;
+}
+
+const SOURCE_LABELS: Record<QuestionRevisionSource, string> = {
+  original: "Before history",
+  created: "Created",
+  edited: "Edited",
+  ai_feedback: "AI feedback",
+  bulk_edit: "Bulk edit",
+  import: "Import",
+  draft_inbox: "Draft inbox",
+  restore: "Restore",
+};
+
+export function QuestionRevisionHistory({ questionId, canRestore }: QuestionRevisionHistoryProps) {
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+  const [restoreTarget, setRestoreTarget] = useState<number | null>(null);
+
+  const { data: response, isLoading } = useQuestionRevisions(questionId);
+  const restore = useRestoreQuestionRevision();
+
+  const history = response?.data;
+  const revisions = useMemo(() => history?.revisions ?? [], [history]);
+
+  // Default to the latest change: the newest revision against the one before
+  const to = revisions.find((r) => r.revision === toRevision) ?? revisions[0];
+  const from =
+    revisions.find((r) => r.revision === fromRevision) ??
+    revisions.find((r) => to && r.revision < to.revision) ??
+    to;
+
+  const diffs = useMemo(
+    () => (from && to && from !== to ? diffRevisionContent(from, to) : []),
+    [from, to]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  if (!history) {
+    return <p className="text-muted-foreground">{response?.error ?? "Question not found"}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href={`/admin/questions/${questionId}/review`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Question Review
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">Revision History</h1>
+        <p className="text-muted-foreground mt-2">
+          Currently at revision {history.currentRevision}. Restoring a revision saves it as a new
+          one, so nothing is lost.
+        </p>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            This question hasn&apos;t been edited since revision history started.
+          </p>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Revision list */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Revisions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3">
+                {revisions.map((revision) => (
+                  <RevisionItem
+                    key={revision.id}
+                    revision={revision}
+                    isCurrent={revision.revision === history.currentRevision}
+                    isSelected={revision.revision === to?.revision}
+                    onSelect={() => {
+                      setToRevision(revision.revision);
+                      setFromRevision(null);
+                    }}
+                    onRestore={
+                      canRestore && revision.revision !== history.currentRevision
+                        ? () => setRestoreTarget(revision.revision)
+                        : undefined
+                    }
+                  />
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+
+          {/* Diff */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <div className="flex flex-wrap items-end gap-4">
+                <RevisionSelect
+                  label="From"
+                  value={from?.revision}
+                  revisions={revisions}
+                  onChange={setFromRevision}
+                />
+                <RevisionSelect
+                  label="To"
+                  value={to?.revision}
+                  revisions={revisions}
+                  onChange={setToRevision}
+                />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {from === to ? (
+                <p className="text-sm text-muted-foreground">
+                  Only one revision so far. Edits will show up here.
+                </p>
+              ) : diffs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Revisions {from?.revision} and {to?.revision} have the same content.
+                </p>
+              ) : (
+                <div className="divide-y rounded-md border">
+                  <div className="grid grid-cols-[140px_1fr_1fr] bg-muted/50 text-xs font-medium text-muted-foreground">
+                    <div className="p-2">Field</div>
+                    <div className="p-2">Revision {from?.revision}</div>
+                    <div className="p-2">Revision {to?.revision}</div>
+                  </div>
+                  {diffs.map((diff) => (
+                    <div key={diff.field} className="grid grid-cols-[140px_1fr_1fr] text-sm">
+                      <div className="p-2 font-medium">{diff.label}</div>
+                      <DiffSide segments={diff.segments} side="before" />
+                      <DiffSide segments={diff.segments} side="after" />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <ConfirmationDialog
+        open={restoreTarget !== null}
+        onOpenChange={(open) => !open && setRestoreTarget(null)}
+        title="Restore Revision"
+        description={`Make revision ${restoreTarget} the current content? It is saved as revision ${history.currentRevision + 1}.`}
+        confirmText="Restore"
+        variant="warning"
+        onConfirm={() => {
+          if (restoreTarget !== null) {
+            restore.mutate(
+              { questionId, revision: restoreTarget },
+              {
+                onSuccess: (result) => {
+                  if (result.success) {
+                    setFromRevision(null);
+                    setToRevision(null);
+                  }
+                },
+              }
+            );
+          }
+          setRestoreTarget(null);
+        }}
+      />
+    </div>
+  );
+}
+
+function RevisionItem({
+  revision,
+  isCurrent,
+  isSelected,
+  onSelect,
+  onRestore,
+}: {
+  revision: SerializedQuestionRevision;
+  isCurrent: boolean;
+  isSelected: boolean;
+  onSelect: () => void;
+  onRestore?: () => void;
+}) {
+  return (
+    <li
+      className={cn(
+        "rounded-md border p-3 text-sm cursor-pointer hover:bg-muted/50",
+        isSelected && "border-primary"
+      )}
+      onClick={onSelect}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">Revision {revision.revision}</span>
+        <div className="flex gap-1">
+          {isCurrent && <Badge>Current</Badge>}
+          <Badge variant="outline">
+            {SOURCE_LABELS[revision.source] ?? revision.source}
+            {revision.restoredFrom && ` of ${revision.restoredFrom}`}
+          </Badge>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        {revision.editor ? (revision.editor.name ?? revision.editor.email) : "Unknown editor"} ·{" "}
+        {new Date(revision.createdAt).toLocaleString()}
+      </p>
+      {revision.note && <p className="text-xs text-muted-foreground mt-1">{revision.note}</p>}
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-muted-foreground">
+          {revision.attemptCount} graded attempt{revision.attemptCount === 1 ? "" : "s"}
+        </span>
+        {onRestore && (
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRestore();
+            }}
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Restore
+          </Button>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function RevisionSelect({
+  label,
+  value,
+  revisions,
+  onChange,
+}: {
+  label: string;
+  value: number | undefined;
+  revisions: SerializedQuestionRevision[];
+  onChange: (revision: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value?.toString()} onValueChange={(next) => onChange(Number(next))}>
+        <SelectTrigger className="w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {revisions.map((revision) => (
+            <SelectItem key={revision.id} value={revision.revision.toString()}>
+              Revision {revision.revision}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function DiffSide({ segments, side }: { segments: DiffSegment[]; side: "before" | "after" }) {
+  const hidden = side === "before" ? "added" : "removed";
+
+  return (
+    <div className="p-2 whitespace-pre-wrap break-words">
+      {segments
+        .filter((segment) => segment.kind !== hidden)
+        .map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.kind === "removed" &&
+                "bg-red-100 text-red-900 line-through dark:bg-red-900/40 dark:text-red-100",
+              segment.kind === "added" &&
+                "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+    </div>
+  );
+}
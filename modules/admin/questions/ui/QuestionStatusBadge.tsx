@@ -0,0 +1,41 @@
+/**
+ * QuestionStatusBadge Component
+ *
+ * A question's place in the review workflow.
+ */
+
+import type { QuestionStatus } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+export const QUESTION_STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: "Draft",
+  in_review: "In review",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+  published: "Published",
+  retired: "Retired",
+};
+
+const STATUS_STYLES: Record<QuestionStatus, string> = {
+  draft: "bg-muted text-muted-foreground",
+  in_review: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-200",
+  changes_requested: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  approved: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+  published: "bg-green-600 text-white",
+  retired: "bg-muted text-muted-foreground line-through",
+};
+
+export function QuestionStatusBadge({
+  status,
+  className,
+}: {
+  status: QuestionStatus;
+  className?: string;
+}) {
+  return (
+    <Badge variant="outline" className={cn("border-transparent font-normal", STATUS_STYLES[status], className)}>
+      {QUESTION_STATUS_LABELS[status]}
+    </Badge>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * SimilarQuestionsReport Component
+ *
+ * Pairs of near-identical questions in a certification, side by side, with
+ * actions to keep one and merge the other into it or retire either.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Archive, ExternalLink, Merge } from "lucide-react";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import {
+  useResolveDuplicateQuestion,
+  useSimilarQuestionsReport,
+} from "../hooks/useQuestionDuplicates";
+import type {
+  ResolveDuplicateQuestionInput,
+  SimilarQuestionSummary,
+} from "../types/questionDuplicate.types";
+import { QuestionStatusBadge } from "./QuestionStatusBadge";
+
+interface SimilarQuestionsReportProps {
+  canResolve: boolean;
+}
+
+const THRESHOLDS = [
+  { value: 0.85, label: "85% or more" },
+  { value: 0.9, label: "90% or more" },
+  { value: 0.95, label: "95% or more" },
+];
+
+export function SimilarQuestionsReport({ canResolve }: SimilarQuestionsReportProps) {
+  const [certificationId, setCertificationId] = useState("");
+  const [threshold, setThreshold] = useState(0.9);
+  const [pending, setPending] = useState<ResolveDuplicateQuestionInput | null>(null);
+
+  const { data: certificationsResponse } = useCertifications({
+    status: "all",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+  const certifications = certificationsResponse?.data ?? [];
+
+  const { data: response, isLoading } = useSimilarQuestionsReport(certificationId, threshold);
+  const resolve = useResolveDuplicateQuestion();
+  const report = response?.data;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link
+          href="/admin/questions"
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Question Bank
+        </Link>
+        <h1 className="text-3xl font-bold tracking-tight">Similar Questions</h1>
+        <p className="text-muted-foreground mt-2">
+          Near-identical questions found by comparing their stems and options. Keep one of each pair
+          and merge the other into it, or retire either.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label>Certification</Label>
+          <Select value={certificationId} onValueChange={setCertificationId}>
+            <SelectTrigger className="w-[320px]">
+              <SelectValue placeholder="Choose a certification" />
+            </SelectTrigger>
+            <SelectContent>
+              {certifications.map((certification) => (
+                <SelectItem key={certification.id} value={certification.id}>
+                  {certification.name} ({certification.code})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Similarity</Label>
+          <Select value={threshold.toString()} onValueChange={(value) => setThreshold(Number(value))}>
+            <SelectTrigger className="w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {THRESHOLDS.map((option) => (
+                <SelectItem key={option.value} value={option.value.toString()}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!certificationId ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            Choose a certification to compare its questions.
+          </p>
+        </div>
+      ) : isLoading ? (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Comparing questions. The first run embeds any questions that haven&apos;t been compared
+            before, which can take a minute.
+          </p>
+          <Skeleton className="h-48" />
+          <Skeleton className="h-48" />
+        </div>
+      ) : !report ? (
+        <p className="text-sm text-destructive">{response?.error ?? "Failed to load report"}</p>
+      ) : report.pairs.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            No pairs at {Math.round(report.threshold * 100)}% similarity or more among{" "}
+            {report.questionCount} questions.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            {report.pairs.length} pair{report.pairs.length === 1 ? "" : "s"} among{" "}
+            {report.questionCount} questions
+            {report.truncated && "; showing the most similar. Resolve these to see more."}
+          </p>
+          {report.pairs.map((pair) => (
+            <Card key={`${pair.first.id}-${pair.second.id}`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base">
+                  {Math.round(pair.similarity * 100)}% similar
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                {[
+                  { question: pair.first, other: pair.second },
+                  { question: pair.second, other: pair.first },
+                ].map(({ question, other }) => (
+                  <QuestionSide
+                    key={question.id}
+                    question={question}
+                    onKeep={
+                      canResolve
+                        ? () =>
+                            setPending({
+                              action: "merge",
+                              questionId: other.id,
+                              keepQuestionId: question.id,
+                            })
+                        : undefined
+                    }
+                    onRetire={
+                      canResolve
+                        ? () => setPending({ action: "retire", questionId: question.id })
+                        : undefined
+                    }
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ConfirmationDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={pending?.action === "merge" ? "Merge Duplicate" : "Retire Question"}
+        description={
+          pending?.action === "merge"
+            ? "Keep this question and retire the other one as its duplicate? Past student attempts stay with the retired question."
+            : "Retire this question? It stops appearing in quizzes and exams and can be reopened from its review page."
+        }
+        confirmText={pending?.action === "merge" ? "Merge" : "Retire"}
+        variant="warning"
+        onConfirm={() => {
+          if (pending) {
+            resolve.mutate(pending);
+          }
+          setPending(null);
+        }}
+      />
+    </div>
+  );
+}
+
+function QuestionSide({
+  question,
+  onKeep,
+  onRetire,
+}: {
+  question: SimilarQuestionSummary;
+  onKeep?: () => void;
+  onRetire?: () => void;
+}) {
+  return (
+    <div className="flex flex-col rounded-md border p-3 text-sm">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <QuestionStatusBadge status={question.status} />
+        {question.objectiveCode && <span>{question.objectiveCode}</span>}
+        <span>Added {new Date(question.createdAt).toLocaleDateString()}</span>
+        <Link
+          href={`/admin/questions/${question.id}/review`}
+          className="ml-auto inline-flex items-center hover:text-foreground"
+        >
+          <ExternalLink className="h-3 w-3 mr-1" />
+          Open
+        </Link>
+      </div>
+      <p className="mt-2 whitespace-pre-wrap">{question.text}</p>
+      <ol className="mt-2 list-[upper-alpha] pl-5 text-muted-foreground">
+        {question.choices.map((choice, index) => (
+          <li key={index}>{choice}</li>
+        ))}
+      </ol>
+      {(onKeep || onRetire) && (
+        <div className="mt-auto flex gap-2 pt-3">
+          {onKeep && (
+            <Button size="sm" variant="outline" onClick={onKeep}>
+              <Merge className="h-4 w-4 mr-1" />
+              Keep this one
+            </Button>
+          )}
+          {onRetire && (
+            <Button size="sm" variant="ghost" onClick={onRetire}>
+              <Archive className="h-4 w-4 mr-1" />
+              Retire
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
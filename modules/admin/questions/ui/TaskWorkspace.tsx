@@ -98,6 +98,8 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
   const [showAIModal, setShowAIModal] = useState(false);
   const [showAIFeedbackModal, setShowAIFeedbackModal] = useState(false);
   const [hasAIGeneratedContent, setHasAIGeneratedContent] = useState(false);
+  // Feedback applied to the form, recorded on the question's first revision
+  const [appliedAIFeedback, setAppliedAIFeedback] = useState<string | null>(null);
   const [hideCompletedObjectives, setHideCompletedObjectives] = useState(false);
 
   // Use hooks
@@ -201,6 +203,7 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
 
     // Reset AI-generated state
     setHasAIGeneratedContent(false);
+    setAppliedAIFeedback(null);
   };
 
   const handleOptionChange = (index: number, field: keyof QuestionOption, value: string | boolean) => {
@@ -227,7 +230,11 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
       correctAnswer: question.options.filter(o => o.isCorrect).map((_, i) => String.fromCharCode(65 + i)).join(','),
       explanation: question.options.map(o => o.explanation || '').filter(Boolean).join(' '),
       objectiveId: selectedObjective.objectiveName, // This would need to be resolved from the hierarchy
-      taskId: taskId
+      taskId: taskId,
+      ...(appliedAIFeedback && {
+        revisionSource: "ai_feedback" as const,
+        revisionNote: `AI feedback: ${appliedAIFeedback}`,
+      }),
     };
 
     const success = await saveQuestion(questionData);
@@ -243,6 +250,7 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
 
       // Reset AI-generated state
       setHasAIGeneratedContent(false);
+      setAppliedAIFeedback(null);
 
       // Reload progress
       await loadProgress();
@@ -311,7 +319,11 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
     toast.success("Question updated based on your feedback!");
   };
 
-  const handleAIFeedbackFromModal = (data: { text: string; options: QuestionOption[] }) => {
+  const handleAIFeedbackFromModal = (
+    data: { text: string; options: QuestionOption[] },
+    feedback: string
+  ) => {
+    setAppliedAIFeedback(feedback);
     const generatedData: GeneratedQuestionData = {
       text: data.text,
       options: data.options.map(option => ({
@@ -715,6 +727,7 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
                         explanation: "",
                       });
                       setHasAIGeneratedContent(false);
+                      setAppliedAIFeedback(null);
                     }}
                   >
                     Clear
@@ -758,6 +771,7 @@ export default function TaskWorkspace({ taskId, onBack }: TaskWorkspaceProps) {
         onClose={() => setShowAIModal(false)}
         onGenerate={handleAIGenerate}
         examName={(task as any).name}
+        certificationId={task?.certificationId}
         domainNumber={selectedObjective?.domainNumber}
         domainName={selectedObjective?.domainName}
         objectiveNumber={selectedObjective?.objectiveNumber}
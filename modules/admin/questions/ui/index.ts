@@ -1,5 +1,9 @@
 // Admin Questions - UI Components Exports
 
 export * from "./QuestionForm";
+export * from "./QuestionImportPanel";
+export * from "./QuestionExportPanel";
+export * from "./PBQForm";
+export * from "./PBQList";
 export { default as QuestionFilterModal } from "./QuestionFilterModal";
 export type { FilterState } from "./QuestionFilterModal";
@@ -0,0 +1,85 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { createRole, deleteRole, listRoles, updateRole } from "../serverActions/role.action";
+import type { CreateRoleInput, UpdateRoleInput } from "../types/role.schema";
+
+/**
+ * Hook for fetching roles with their permissions
+ */
+export function useRoles() {
+  return useQuery({
+    queryKey: ["roles"],
+    queryFn: () => listRoles(),
+  });
+}
+
+/**
+ * Hook for creating a custom role
+ */
+export function useCreateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateRoleInput) => createRole(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Role created successfully");
+        queryClient.invalidateQueries({ queryKey: ["roles"] });
+      } else {
+        toast.error(response.error || "Failed to create role");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for updating a role and its permissions
+ */
+export function useUpdateRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateRoleInput) => updateRole(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Role updated successfully");
+        queryClient.invalidateQueries({ queryKey: ["roles"] });
+      } else {
+        toast.error(response.error || "Failed to update role");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for deleting a custom role
+ */
+export function useDeleteRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteRole({ id }),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Role deleted successfully");
+        queryClient.invalidateQueries({ queryKey: ["roles"] });
+      } else {
+        toast.error(response.error || "Failed to delete role");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
@@ -0,0 +1,300 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext } from "@/lib/auth/types";
+import { PERMISSIONS, SYSTEM_ROLES, isPermissionKey } from "@/lib/auth/permissions";
+import {
+  grantNewPermissionsToSystemRoles,
+  invalidateRolePermissionCache,
+} from "@/lib/auth/rolePermissions";
+import {
+  createRoleSchema,
+  updateRoleSchema,
+  deleteRoleSchema,
+  type CreateRoleInput,
+  type UpdateRoleInput,
+  type DeleteRoleInput,
+  type DeleteRoleResponse,
+  type RoleListResponse,
+  type RoleResponse,
+  type RoleWithPermissions,
+} from "../types/role.schema";
+
+const ROLE_INCLUDE = {
+  permissions: { select: { permission: { select: { key: true } } } },
+} satisfies Prisma.RoleInclude;
+
+type RoleRecord = Prisma.RoleGetPayload<{ include: typeof ROLE_INCLUDE }>;
+
+async function serializeRole(role: RoleRecord): Promise<RoleWithPermissions> {
+  const userCount = await prisma.user.count({ where: { roles: { has: role.name } } });
+  return {
+    id: role.id,
+    name: role.name,
+    displayName: role.displayName,
+    description: role.description,
+    isSystem: role.isSystem,
+    permissions: role.permissions.map(({ permission }) => permission.key).filter(isPermissionKey),
+    userCount,
+    createdAt: role.createdAt,
+    updatedAt: role.updatedAt,
+  };
+}
+
+/**
+ * Bring the permissions table in line with the registry: add new keys (and
+ * grant them to the system roles that have them by default), refresh
+ * descriptions and drop keys the code no longer checks
+ */
+async function syncPermissionRegistry(): Promise<Map<string, string>> {
+  const existing = await prisma.permission.findMany();
+  const existingByKey = new Map(existing.map((permission) => [permission.key, permission]));
+  const registryKeys = new Set<string>(PERMISSIONS.map((permission) => permission.key));
+
+  const missing = PERMISSIONS.filter((permission) => !existingByKey.has(permission.key));
+  if (missing.length > 0) {
+    await prisma.permission.createMany({
+      data: missing.map(({ key, description, category }) => ({ key, description, category })),
+      skipDuplicates: true,
+    });
+  }
+
+  for (const permission of PERMISSIONS) {
+    const current = existingByKey.get(permission.key);
+    if (
+      current &&
+      (current.description !== permission.description || current.category !== permission.category)
+    ) {
+      await prisma.permission.update({
+        where: { id: current.id },
+        data: { description: permission.description, category: permission.category },
+      });
+    }
+  }
+
+  const stale = existing.filter((permission) => !registryKeys.has(permission.key));
+  if (stale.length > 0) {
+    await prisma.permission.deleteMany({ where: { id: { in: stale.map((p) => p.id) } } });
+  }
+
+  const permissions = await prisma.permission.findMany({ select: { id: true, key: true } });
+  const permissionIds = new Map(permissions.map((permission) => [permission.key, permission.id]));
+
+  await grantNewPermissionsToSystemRoles(
+    missing.map((permission) => permission.key),
+    permissionIds
+  );
+
+  return permissionIds;
+}
+
+/**
+ * Create any system role that isn't in the roles table yet, with its
+ * default permissions
+ */
+async function ensureSystemRoles(permissionIds: Map<string, string>) {
+  const existing = await prisma.role.findMany({
+    where: { name: { in: SYSTEM_ROLES.map((role) => role.name) } },
+    select: { name: true },
+  });
+  const existingNames = new Set(existing.map((role) => role.name));
+
+  for (const role of SYSTEM_ROLES.filter((systemRole) => !existingNames.has(systemRole.name))) {
+    await prisma.role.create({
+      data: {
+        name: role.name,
+        displayName: role.displayName,
+        description: role.description,
+        isSystem: true,
+        permissions: {
+          create: role.permissions.map((key) => ({ permissionId: permissionIds.get(key)! })),
+        },
+      },
+    });
+  }
+}
+
+/**
+ * Permission rows for the given keys
+ */
+function permissionLinks(keys: string[], permissionIds: Map<string, string>) {
+  return [...new Set(keys)].map((key) => {
+    const permissionId = permissionIds.get(key);
+    if (!permissionId) {
+      throw new Error(`Unknown permission: ${key}`);
+    }
+    return { permissionId };
+  });
+}
+
+/**
+ * List roles with their permissions and how many users have each
+ * Requires roles.read permission
+ */
+export const listRoles = withPermission("roles.read")(
+  async (_user: AuthContext): Promise<RoleListResponse> => {
+    try {
+      const permissionIds = await syncPermissionRegistry();
+      await ensureSystemRoles(permissionIds);
+
+      const roles = await prisma.role.findMany({
+        orderBy: [{ isSystem: "desc" }, { displayName: "asc" }],
+        include: ROLE_INCLUDE,
+      });
+
+      return {
+        success: true,
+        data: await Promise.all(roles.map(serializeRole)),
+      };
+    } catch (error) {
+      console.error("Error listing roles:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list roles",
+      };
+    }
+  }
+);
+
+/**
+ * Create a custom role
+ * Requires roles.manage permission
+ */
+export const createRole = withPermission("roles.manage")(
+  async (user: AuthContext, input: CreateRoleInput): Promise<RoleResponse> => {
+    try {
+      const validated = createRoleSchema.parse(input);
+
+      const existing = await prisma.role.findUnique({ where: { name: validated.name } });
+      if (existing) {
+        return { success: false, error: "A role with this name already exists" };
+      }
+
+      const permissionIds = await syncPermissionRegistry();
+      const role = await prisma.role.create({
+        data: {
+          name: validated.name,
+          displayName: validated.displayName,
+          description: validated.description || null,
+          permissions: { create: permissionLinks(validated.permissions, permissionIds) },
+        },
+        include: ROLE_INCLUDE,
+      });
+
+      invalidateRolePermissionCache();
+      revalidatePath("/admin/roles");
+
+      return { success: true, data: await serializeRole(role) };
+    } catch (error) {
+      console.error("Error creating role:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create role",
+      };
+    }
+  }
+);
+
+/**
+ * Update a role's details and replace its permissions
+ * Requires roles.manage permission
+ */
+export const updateRole = withPermission("roles.manage")(
+  async (user: AuthContext, input: UpdateRoleInput): Promise<RoleResponse> => {
+    try {
+      const validated = updateRoleSchema.parse(input);
+
+      const existing = await prisma.role.findUnique({ where: { id: validated.id } });
+      if (!existing) {
+        return { success: false, error: "Role not found" };
+      }
+
+      if (existing.isSystem && validated.name !== existing.name) {
+        return { success: false, error: "System roles can't be renamed" };
+      }
+
+      if (validated.name !== existing.name) {
+        const duplicate = await prisma.role.findUnique({ where: { name: validated.name } });
+        if (duplicate) {
+          return { success: false, error: "A role with this name already exists" };
+        }
+      }
+
+      // Keep at least one way back into this screen
+      if (existing.name === "admin" && !validated.permissions.includes("roles.manage")) {
+        return { success: false, error: "The admin role must keep the roles.manage permission" };
+      }
+
+      const permissionIds = await syncPermissionRegistry();
+      const role = await prisma.$transaction(async (tx) => {
+        await tx.rolePermission.deleteMany({ where: { roleId: existing.id } });
+        return tx.role.update({
+          where: { id: existing.id },
+          data: {
+            name: validated.name,
+            displayName: validated.displayName,
+            description: validated.description || null,
+            permissions: { create: permissionLinks(validated.permissions, permissionIds) },
+          },
+          include: ROLE_INCLUDE,
+        });
+      });
+
+      invalidateRolePermissionCache();
+      revalidatePath("/admin/roles");
+
+      return { success: true, data: await serializeRole(role) };
+    } catch (error) {
+      console.error("Error updating role:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update role",
+      };
+    }
+  }
+);
+
+/**
+ * Delete a custom role that no user has
+ * Requires roles.manage permission
+ */
+export const deleteRole = withPermission("roles.manage")(
+  async (user: AuthContext, input: DeleteRoleInput): Promise<DeleteRoleResponse> => {
+    try {
+      const validated = deleteRoleSchema.parse(input);
+
+      const role = await prisma.role.findUnique({ where: { id: validated.id } });
+      if (!role) {
+        return { success: false, error: "Role not found" };
+      }
+
+      if (role.isSystem) {
+        return { success: false, error: "System roles can't be deleted" };
+      }
+
+      const userCount = await prisma.user.count({ where: { roles: { has: role.name } } });
+      if (userCount > 0) {
+        return {
+          success: false,
+          error: `Remove this role from its ${userCount} user${userCount === 1 ? "" : "s"} first`,
+        };
+      }
+
+      await prisma.role.delete({ where: { id: role.id } });
+
+      invalidateRolePermissionCache();
+      revalidatePath("/admin/roles");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete role",
+      };
+    }
+  }
+);
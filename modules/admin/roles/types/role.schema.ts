@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { isPermissionKey, type PermissionKey } from "@/lib/auth/permissions";
+
+const permissionKeySchema = z.string().refine(isPermissionKey, { message: "Unknown permission" });
+
+/**
+ * Zod schema for creating a role
+ */
+export const createRoleSchema = z.object({
+  // Must match the Cognito group that grants the role
+  name: z
+    .string()
+    .trim()
+    .min(2, "Role name is required")
+    .max(50)
+    .regex(/^[a-z][a-z0-9_-]*$/, "Use lowercase letters, numbers, - and _ (as in the Cognito group)"),
+  displayName: z.string().trim().min(1, "Display name is required").max(100),
+  description: z.string().trim().max(500).optional(),
+  permissions: z.array(permissionKeySchema),
+});
+
+/**
+ * Zod schema for updating a role. System roles keep their name.
+ */
+export const updateRoleSchema = createRoleSchema.extend({
+  id: z.string().cuid(),
+});
+
+/**
+ * Zod schema for deleting a role
+ */
+export const deleteRoleSchema = z.object({
+  id: z.string().cuid(),
+});
+
+// Type exports
+export type CreateRoleInput = z.infer<typeof createRoleSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
+export type DeleteRoleInput = z.infer<typeof deleteRoleSchema>;
+
+export interface RoleWithPermissions {
+  id: string;
+  name: string;
+  displayName: string;
+  description: string | null;
+  isSystem: boolean;
+  permissions: PermissionKey[];
+  userCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Response types
+export interface RoleResponse {
+  success: boolean;
+  data?: RoleWithPermissions;
+  error?: string;
+}
+
+export interface RoleListResponse {
+  success: boolean;
+  data?: RoleWithPermissions[];
+  error?: string;
+}
+
+export interface DeleteRoleResponse {
+  success: boolean;
+  error?: string;
+}
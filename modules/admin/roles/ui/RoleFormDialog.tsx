@@ -0,0 +1,217 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { PERMISSIONS, type PermissionKey } from "@/lib/auth/permissions";
+import { useCreateRole, useUpdateRole } from "../hooks/useRoles";
+import { createRoleSchema, type RoleWithPermissions } from "../types/role.schema";
+
+interface RoleFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  role?: RoleWithPermissions;
+}
+
+// Registry grouped by category, in registry order
+const PERMISSION_GROUPS = PERMISSIONS.reduce<Map<string, (typeof PERMISSIONS)[number][]>>(
+  (groups, permission) =>
+    groups.set(permission.category, [...(groups.get(permission.category) ?? []), permission]),
+  new Map()
+);
+
+export function RoleFormDialog({ open, onOpenChange, role }: RoleFormDialogProps) {
+  const isEditing = !!role;
+  const createRole = useCreateRole();
+  const updateRole = useUpdateRole();
+
+  const [name, setName] = React.useState("");
+  const [displayName, setDisplayName] = React.useState("");
+  const [description, setDescription] = React.useState("");
+  const [permissions, setPermissions] = React.useState<Set<PermissionKey>>(new Set());
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (open) {
+      setName(role?.name ?? "");
+      setDisplayName(role?.displayName ?? "");
+      setDescription(role?.description ?? "");
+      setPermissions(new Set(role?.permissions ?? []));
+      setErrors({});
+    }
+  }, [open, role]);
+
+  const togglePermissions = (keys: PermissionKey[], checked: boolean) => {
+    setPermissions((current) => {
+      const next = new Set(current);
+      keys.forEach((key) => (checked ? next.add(key) : next.delete(key)));
+      return next;
+    });
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const input = {
+      name,
+      displayName,
+      description: description || undefined,
+      permissions: Array.from(permissions),
+    };
+    const parsed = createRoleSchema.safeParse(input);
+    if (!parsed.success) {
+      setErrors(
+        Object.fromEntries(parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message]))
+      );
+      return;
+    }
+
+    const result = isEditing
+      ? await updateRole.mutateAsync({ ...parsed.data, id: role.id })
+      : await createRole.mutateAsync(parsed.data);
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  const isSubmitting = createRole.isPending || updateRole.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? `Edit ${role.displayName}` : "Create Role"}</DialogTitle>
+          <DialogDescription>
+            Users get a role through the Cognito group with the same name. Permission changes apply
+            within a minute.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="role-name">
+                Role Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="role-name"
+                placeholder="question_reviewer"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={role?.isSystem}
+                className="font-mono"
+              />
+              {errors.name && <p className="text-sm text-destructive">{errors.name}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role-display-name">
+                Display Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="role-display-name"
+                placeholder="Question Reviewer"
+                value={displayName}
+                onChange={(e) => setDisplayName(e.target.value)}
+              />
+              {errors.displayName && (
+                <p className="text-sm text-destructive">{errors.displayName}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="role-description">Description</Label>
+            <Textarea
+              id="role-description"
+              placeholder="What people with this role do..."
+              rows={2}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Permissions ({permissions.size} of {PERMISSIONS.length})
+            </Label>
+            <ScrollArea className="h-[320px] rounded-lg border">
+              <div className="space-y-4 p-4">
+                {Array.from(PERMISSION_GROUPS.entries()).map(([category, groupPermissions]) => {
+                  const keys = groupPermissions.map((permission) => permission.key);
+                  const selectedCount = keys.filter((key) => permissions.has(key)).length;
+                  return (
+                    <div key={category} className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox
+                          id={`category-${category}`}
+                          checked={
+                            selectedCount === keys.length
+                              ? true
+                              : selectedCount > 0
+                                ? "indeterminate"
+                                : false
+                          }
+                          onCheckedChange={(checked) => togglePermissions(keys, checked === true)}
+                        />
+                        <Label htmlFor={`category-${category}`} className="font-semibold cursor-pointer">
+                          {category}
+                        </Label>
+                      </div>
+                      <div className="grid gap-2 pl-6 md:grid-cols-2">
+                        {groupPermissions.map((permission) => (
+                          <div key={permission.key} className="flex items-start gap-2">
+                            <Checkbox
+                              id={`permission-${permission.key}`}
+                              checked={permissions.has(permission.key)}
+                              onCheckedChange={(checked) =>
+                                togglePermissions([permission.key], checked === true)
+                              }
+                              className="mt-0.5"
+                            />
+                            <Label
+                              htmlFor={`permission-${permission.key}`}
+                              className="cursor-pointer font-normal leading-tight"
+                            >
+                              <span className="font-mono text-xs">{permission.key}</span>
+                              <span className="block text-xs text-muted-foreground">
+                                {permission.description}
+                              </span>
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            {errors.permissions && (
+              <p className="text-sm text-destructive">{errors.permissions}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : isEditing ? "Update" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
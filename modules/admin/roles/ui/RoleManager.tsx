@@ -0,0 +1,136 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { Lock, Pencil, Plus, Trash2, Users } from "lucide-react";
+import { PERMISSIONS } from "@/lib/auth/permissions";
+import { useDeleteRole, useRoles } from "../hooks/useRoles";
+import { RoleFormDialog } from "./RoleFormDialog";
+import type { RoleWithPermissions } from "../types/role.schema";
+
+interface RoleManagerProps {
+  canManage: boolean;
+}
+
+export function RoleManager({ canManage }: RoleManagerProps) {
+  const [formOpen, setFormOpen] = React.useState(false);
+  const [selectedRole, setSelectedRole] = React.useState<RoleWithPermissions | undefined>();
+  const [pendingDelete, setPendingDelete] = React.useState<RoleWithPermissions | null>(null);
+
+  const { data: response, isLoading } = useRoles();
+  const deleteRole = useDeleteRole();
+  const roles = response?.data ?? [];
+
+  const openForm = (role?: RoleWithPermissions) => {
+    setSelectedRole(role);
+    setFormOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Roles &amp; Permissions</h1>
+          <p className="text-muted-foreground mt-2">
+            Decide what each Cognito group can do. Users pick up a role from the group with the
+            same name.
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={() => openForm()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Create Role
+          </Button>
+        )}
+      </div>
+
+      {response && !response.success && (
+        <p className="text-sm text-destructive">{response.error}</p>
+      )}
+
+      {isLoading ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-48" />
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {roles.map((role) => (
+            <div key={role.id} className="rounded-lg border bg-card p-6 space-y-4">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-semibold flex items-center gap-2">
+                    {role.displayName}
+                    {role.isSystem && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        System
+                      </Badge>
+                    )}
+                  </h3>
+                  <p className="font-mono text-xs text-muted-foreground">{role.name}</p>
+                </div>
+                {canManage && (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openForm(role)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {!role.isSystem && (
+                      <Button variant="ghost" size="sm" onClick={() => setPendingDelete(role)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {role.description && (
+                <p className="text-sm text-muted-foreground">{role.description}</p>
+              )}
+
+              <div className="flex items-center gap-4 text-sm">
+                <span>
+                  <span className="font-medium">{role.permissions.length}</span>
+                  <span className="text-muted-foreground"> of {PERMISSIONS.length} permissions</span>
+                </span>
+                <span className="flex items-center gap-1 text-muted-foreground">
+                  <Users className="h-4 w-4" />
+                  {role.userCount}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {role.permissions.slice(0, 8).map((permission) => (
+                  <Badge key={permission} variant="outline" className="font-mono text-xs">
+                    {permission}
+                  </Badge>
+                ))}
+                {role.permissions.length > 8 && (
+                  <Badge variant="outline" className="text-xs">
+                    +{role.permissions.length - 8} more
+                  </Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <RoleFormDialog open={formOpen} onOpenChange={setFormOpen} role={selectedRole} />
+
+      <ConfirmationDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete Role"
+        description={`Delete the "${pendingDelete?.displayName ?? ""}" role? Members of the ${pendingDelete?.name ?? ""} Cognito group will no longer get any permissions from it.`}
+        confirmText="Delete"
+        onConfirm={() => pendingDelete && deleteRole.mutate(pendingDelete.id)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteUser,
+  disableUser,
+  enableUser,
+  inviteUser,
+  listAssignableRoles,
+  listUsers,
+  setUserCertification,
+  updateUserRoles,
+} from "../serverActions/user.action";
+import type {
+  InviteUserInput,
+  SetUserCertificationInput,
+  UpdateUserRolesInput,
+  UserActionResponse,
+} from "../types/user.schema";
+
+/**
+ * Hook for fetching users with their account status
+ */
+export function useUsers() {
+  return useQuery({
+    queryKey: ["users"],
+    queryFn: () => listUsers(),
+  });
+}
+
+/**
+ * Hook for fetching the roles that can be given to users
+ */
+export function useAssignableRoles() {
+  return useQuery({
+    queryKey: ["users", "assignableRoles"],
+    queryFn: () => listAssignableRoles(),
+  });
+}
+
+/**
+ * Hook for inviting a user
+ */
+export function useInviteUser() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: InviteUserInput) => inviteUser(input),
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success("Invitation sent");
+        queryClient.invalidateQueries({ queryKey: ["users"] });
+      } else {
+        toast.error(response.error || "Failed to invite user");
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Shared success/error handling for the single-user mutations
+ */
+function useUserMutation<TInput>(
+  action: (input: TInput) => Promise<UserActionResponse>,
+  successMessage: string,
+  errorMessage: string
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: action,
+    onSuccess: (response) => {
+      if (response.success) {
+        toast.success(successMessage);
+        queryClient.invalidateQueries({ queryKey: ["users"] });
+      } else {
+        toast.error(response.error || errorMessage);
+      }
+    },
+    onError: (error) => {
+      const err = error as Error;
+      toast.error(err.message || "An unexpected error occurred");
+    },
+  });
+}
+
+/**
+ * Hook for disabling a user's account
+ */
+export function useDisableUser() {
+  return useUserMutation(
+    (id: string) => disableUser({ id }),
+    "User disabled",
+    "Failed to disable user"
+  );
+}
+
+/**
+ * Hook for re-enabling a user's account
+ */
+export function useEnableUser() {
+  return useUserMutation(
+    (id: string) => enableUser({ id }),
+    "User enabled",
+    "Failed to enable user"
+  );
+}
+
+/**
+ * Hook for deleting a user
+ */
+export function useDeleteUser() {
+  return useUserMutation(
+    (id: string) => deleteUser({ id }),
+    "User deleted",
+    "Failed to delete user"
+  );
+}
+
+/**
+ * Hook for replacing a user's roles
+ */
+export function useUpdateUserRoles() {
+  return useUserMutation(
+    (input: UpdateUserRolesInput) => updateUserRoles(input),
+    "Roles updated",
+    "Failed to update roles"
+  );
+}
+
+/**
+ * Hook for setting a user's current certification
+ */
+export function useSetUserCertification() {
+  return useUserMutation(
+    (input: SetUserCertificationInput) => setUserCertification(input),
+    "Certification updated",
+    "Failed to update certification"
+  );
+}
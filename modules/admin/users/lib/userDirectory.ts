@@ -0,0 +1,104 @@
+/**
+ * User Directory
+ *
+ * The identity provider operations user management needs. The app uses the
+ * Cognito user pool (cognitoUserDirectory); tests pass an in-memory one.
+ */
+
+import {
+  addUserToGroup,
+  createCognitoUser,
+  ensureGroup,
+  deleteCognitoUser,
+  disableCognitoUser,
+  enableCognitoUser,
+  listCognitoUsers,
+  removeUserFromGroup,
+} from "@/lib/auth/cognito.client";
+
+export interface DirectoryUser {
+  username: string;
+  // Cognito "sub", stored as User.cognitoId
+  sub?: string;
+  email?: string;
+  enabled: boolean;
+  // Cognito UserStatus, e.g. CONFIRMED or FORCE_CHANGE_PASSWORD
+  status?: string;
+}
+
+export interface UserDirectory {
+  createUser(input: {
+    username: string;
+    email: string;
+    name?: string;
+    sendInvite: boolean;
+  }): Promise<{ username: string; sub?: string }>;
+  listUsers(): Promise<DirectoryUser[]>;
+  disableUser(username: string): Promise<void>;
+  enableUser(username: string): Promise<void>;
+  deleteUser(username: string): Promise<void>;
+  // Create the group for a role unless it already exists
+  ensureGroup(group: string): Promise<void>;
+  addUserToGroup(username: string, group: string): Promise<void>;
+  removeUserFromGroup(username: string, group: string): Promise<void>;
+}
+
+export const cognitoUserDirectory: UserDirectory = {
+  async createUser({ username, email, name, sendInvite }) {
+    // Groups are added separately so any role can be assigned
+    const created = await createCognitoUser({
+      username,
+      email,
+      name,
+      role: null,
+      sendEmail: sendInvite,
+    });
+    return { username: created.username ?? username, sub: created.userSub };
+  },
+
+  async listUsers() {
+    const users: DirectoryUser[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await listCognitoUsers(60, paginationToken);
+      for (const user of page.users ?? []) {
+        if (!user.username) continue;
+        users.push({
+          username: user.username,
+          sub: user.attributes.sub,
+          email: user.attributes.email,
+          enabled: user.enabled ?? true,
+          status: user.userStatus,
+        });
+      }
+      paginationToken = page.paginationToken;
+    } while (paginationToken);
+
+    return users;
+  },
+
+  async disableUser(username) {
+    await disableCognitoUser(username);
+  },
+
+  async enableUser(username) {
+    await enableCognitoUser(username);
+  },
+
+  async deleteUser(username) {
+    await deleteCognitoUser(username);
+  },
+
+  async ensureGroup(group) {
+    await ensureGroup(group);
+  },
+
+  async addUserToGroup(username, group) {
+    await addUserToGroup(username, group);
+  },
+
+  async removeUserFromGroup(username, group) {
+    await removeUserFromGroup(username, group);
+  },
+};
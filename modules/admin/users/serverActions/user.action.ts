@@ -0,0 +1,211 @@
+"use server";
+
+/**
+ * User Management Server Actions
+ *
+ * Accounts live in the Cognito user pool and the users table; see
+ * services/userManagement.service.ts for how the two are kept in step.
+ */
+
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext } from "@/lib/auth/types";
+import { cognitoUserDirectory } from "../lib/userDirectory";
+import {
+  assignCertification,
+  createInvitedUser,
+  getAssignableRoles,
+  listManagedUsers,
+  removeUser,
+  setAccountEnabled,
+  syncUserRoles,
+} from "../services/userManagement.service";
+import {
+  inviteUserSchema,
+  setUserCertificationSchema,
+  updateUserRolesSchema,
+  userIdSchema,
+  type AssignableRoleListResponse,
+  type InviteUserInput,
+  type SetUserCertificationInput,
+  type UpdateUserRolesInput,
+  type UserActionResponse,
+  type UserIdInput,
+  type UserListResponse,
+  type UserResponse,
+} from "../types/user.schema";
+
+/**
+ * List users with their Cognito account status
+ * Requires users.read permission
+ */
+export const listUsers = withPermission("users.read")(
+  async (_user: AuthContext): Promise<UserListResponse> => {
+    try {
+      return { success: true, data: await listManagedUsers(cognitoUserDirectory) };
+    } catch (error) {
+      console.error("Error listing users:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list users",
+      };
+    }
+  }
+);
+
+/**
+ * Roles that can be given to users
+ * Requires users.read permission
+ */
+export const listAssignableRoles = withPermission("users.read")(
+  async (_user: AuthContext): Promise<AssignableRoleListResponse> => {
+    try {
+      return { success: true, data: await getAssignableRoles() };
+    } catch (error) {
+      console.error("Error listing assignable roles:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to list roles",
+      };
+    }
+  }
+);
+
+/**
+ * Create a Cognito account for a new user and email them an invite
+ * Requires users.create permission
+ */
+export const inviteUser = withPermission("users.create")(
+  async (_user: AuthContext, input: InviteUserInput): Promise<UserResponse> => {
+    try {
+      const validated = inviteUserSchema.parse(input);
+      const created = await createInvitedUser(cognitoUserDirectory, validated);
+
+      revalidatePath("/admin/users");
+
+      return { success: true, data: created };
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to invite user",
+      };
+    }
+  }
+);
+
+/**
+ * Disable a user's Cognito account so they can't sign in
+ * Requires users.update permission
+ */
+export const disableUser = withPermission("users.update")(
+  async (user: AuthContext, input: UserIdInput): Promise<UserActionResponse> => {
+    try {
+      const validated = userIdSchema.parse(input);
+      await setAccountEnabled(cognitoUserDirectory, user.userId, validated.id, false);
+
+      revalidatePath("/admin/users");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error disabling user:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to disable user",
+      };
+    }
+  }
+);
+
+/**
+ * Re-enable a disabled user's Cognito account
+ * Requires users.update permission
+ */
+export const enableUser = withPermission("users.update")(
+  async (user: AuthContext, input: UserIdInput): Promise<UserActionResponse> => {
+    try {
+      const validated = userIdSchema.parse(input);
+      await setAccountEnabled(cognitoUserDirectory, user.userId, validated.id, true);
+
+      revalidatePath("/admin/users");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error enabling user:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to enable user",
+      };
+    }
+  }
+);
+
+/**
+ * Delete a user from Cognito and the database, with all their progress
+ * Requires users.delete permission
+ */
+export const deleteUser = withPermission("users.delete")(
+  async (user: AuthContext, input: UserIdInput): Promise<UserActionResponse> => {
+    try {
+      const validated = userIdSchema.parse(input);
+      await removeUser(cognitoUserDirectory, user.userId, validated.id);
+
+      revalidatePath("/admin/users");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete user",
+      };
+    }
+  }
+);
+
+/**
+ * Replace a user's roles in both User.roles and their Cognito groups
+ * Requires users.update permission
+ */
+export const updateUserRoles = withPermission("users.update")(
+  async (user: AuthContext, input: UpdateUserRolesInput): Promise<UserActionResponse> => {
+    try {
+      const validated = updateUserRolesSchema.parse(input);
+      await syncUserRoles(cognitoUserDirectory, user.userId, validated.id, validated.roles);
+
+      revalidatePath("/admin/users");
+      revalidatePath("/admin/roles");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error updating user roles:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update roles",
+      };
+    }
+  }
+);
+
+/**
+ * Set the certification a user is studying for
+ * Requires users.update permission
+ */
+export const setUserCertification = withPermission("users.update")(
+  async (_user: AuthContext, input: SetUserCertificationInput): Promise<UserActionResponse> => {
+    try {
+      const validated = setUserCertificationSchema.parse(input);
+      await assignCertification(validated.id, validated.certificationId);
+
+      revalidatePath("/admin/users");
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error setting user certification:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to set certification",
+      };
+    }
+  }
+);
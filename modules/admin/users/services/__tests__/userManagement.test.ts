@@ -0,0 +1,228 @@
+/** @jest-environment node */
+import type { DirectoryUser, UserDirectory } from '../../lib/userDirectory'
+import {
+  createInvitedUser,
+  listManagedUsers,
+  removeUser,
+  setAccountEnabled,
+  syncUserRoles,
+} from '../userManagement.service'
+
+type UserRow = {
+  id: string
+  email: string
+  name: string | null
+  roles: string[]
+  cognitoId: string | null
+  cognitoUsername: string | null
+  currentCertificationId: string | null
+  createdAt: Date
+}
+
+const users = new Map<string, UserRow>()
+
+const withCertification = (row: UserRow) => ({ ...row, currentCertification: null })
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    role: {
+      findMany: async () => [{ name: 'question_reviewer', displayName: 'Question Reviewer' }],
+    },
+    certification: { findUnique: async () => null },
+    user: {
+      findMany: async () => [...users.values()].map(withCertification),
+      findUnique: async ({ where }: { where: { id?: string; email?: string } }) => {
+        const row = [...users.values()].find(
+          (user) => user.id === where.id || user.email === where.email
+        )
+        return row ? withCertification(row) : null
+      },
+      create: async ({ data }: { data: Omit<UserRow, 'id' | 'createdAt'> }) => {
+        const row = { ...data, id: `user-${users.size + 1}`, createdAt: new Date() }
+        users.set(row.id, row)
+        return withCertification(row)
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<UserRow> }) => {
+        const row = { ...users.get(where.id)!, ...data }
+        users.set(row.id, row)
+        return withCertification(row)
+      },
+      delete: async ({ where }: { where: { id: string } }) => {
+        users.delete(where.id)
+      },
+    },
+  },
+}))
+
+/**
+ * In-memory stand-in for the Cognito user pool, which starts with only the
+ * default groups. Adding a user to any other group fails until it is created,
+ * and group names listed in `failingGroups` always fail.
+ */
+function createInMemoryDirectory(failingGroups: string[] = []) {
+  const accounts = new Map<string, DirectoryUser & { groups: Set<string> }>()
+  const poolGroups = new Set(['admin', 'instructor', 'user'])
+
+  const account = (username: string) => {
+    const entry = accounts.get(username)
+    if (!entry) {
+      const error = new Error('User does not exist.')
+      error.name = 'UserNotFoundException'
+      throw error
+    }
+    return entry
+  }
+
+  const directory: UserDirectory = {
+    async createUser({ username, email }) {
+      const sub = `sub-${accounts.size + 1}`
+      accounts.set(username, {
+        username,
+        sub,
+        email,
+        enabled: true,
+        status: 'FORCE_CHANGE_PASSWORD',
+        groups: new Set(),
+      })
+      return { username, sub }
+    },
+    async listUsers() {
+      return [...accounts.values()]
+    },
+    async disableUser(username) {
+      account(username).enabled = false
+    },
+    async enableUser(username) {
+      account(username).enabled = true
+    },
+    async deleteUser(username) {
+      account(username)
+      accounts.delete(username)
+    },
+    async ensureGroup(group) {
+      poolGroups.add(group)
+    },
+    async addUserToGroup(username, group) {
+      if (failingGroups.includes(group) || !poolGroups.has(group)) {
+        const error = new Error('Group not found.')
+        error.name = 'ResourceNotFoundException'
+        throw error
+      }
+      account(username).groups.add(group)
+    },
+    async removeUserFromGroup(username, group) {
+      account(username).groups.delete(group)
+    },
+  }
+
+  const groupsOf = (username: string) => [...account(username).groups].sort()
+
+  return { directory, accounts, groupsOf, poolGroups }
+}
+
+const invite = (directory: UserDirectory, email: string, roles: string[]) =>
+  createInvitedUser(directory, { email, roles, sendInvite: true })
+
+describe('user management', () => {
+  beforeEach(() => {
+    users.clear()
+  })
+
+  it('invites a user into Cognito with their role groups', async () => {
+    const { directory, groupsOf, poolGroups } = createInMemoryDirectory()
+
+    const user = await invite(directory, 'ana@example.com', ['user', 'question_reviewer'])
+
+    expect(poolGroups.has('question_reviewer')).toBe(true)
+    expect(user).toMatchObject({
+      email: 'ana@example.com',
+      roles: ['user', 'question_reviewer'],
+      cognitoUsername: 'ana@example.com',
+      status: 'pending',
+    })
+    expect(groupsOf('ana@example.com')).toEqual(['question_reviewer', 'user'])
+    expect(users.get(user.id)?.cognitoId).toBe('sub-1')
+  })
+
+  it('rejects unknown roles and duplicate emails before touching Cognito', async () => {
+    const { directory, accounts } = createInMemoryDirectory()
+    await invite(directory, 'ana@example.com', ['user'])
+
+    await expect(invite(directory, 'ana@example.com', ['user'])).rejects.toThrow(
+      'already exists'
+    )
+    await expect(invite(directory, 'ben@example.com', ['ghost'])).rejects.toThrow(
+      'Unknown role: ghost'
+    )
+    expect(accounts.size).toBe(1)
+  })
+
+  it('removes the Cognito account again when a group cannot be set', async () => {
+    const { directory, accounts } = createInMemoryDirectory(['instructor'])
+
+    await expect(invite(directory, 'ana@example.com', ['user', 'instructor'])).rejects.toThrow(
+      'Group not found'
+    )
+    expect(accounts.size).toBe(0)
+    expect(users.size).toBe(0)
+  })
+
+  it('disables, re-enables and lists account status', async () => {
+    const { directory, accounts } = createInMemoryDirectory()
+    const admin = await invite(directory, 'admin@example.com', ['admin'])
+    const student = await invite(directory, 'ana@example.com', ['user'])
+    accounts.get('ana@example.com')!.status = 'CONFIRMED'
+
+    await setAccountEnabled(directory, admin.id, student.id, false)
+    let listed = await listManagedUsers(directory)
+    expect(listed.find((user) => user.id === student.id)?.status).toBe('disabled')
+
+    await setAccountEnabled(directory, admin.id, student.id, true)
+    listed = await listManagedUsers(directory)
+    expect(listed.find((user) => user.id === student.id)?.status).toBe('active')
+
+    await expect(setAccountEnabled(directory, admin.id, admin.id, false)).rejects.toThrow(
+      'your own account'
+    )
+  })
+
+  it('syncs role changes to Cognito groups', async () => {
+    const { directory, groupsOf } = createInMemoryDirectory()
+    const admin = await invite(directory, 'admin@example.com', ['admin'])
+    const student = await invite(directory, 'ana@example.com', ['user'])
+
+    await syncUserRoles(directory, admin.id, student.id, ['instructor', 'question_reviewer'])
+
+    expect(users.get(student.id)?.roles).toEqual(['instructor', 'question_reviewer'])
+    expect(groupsOf('ana@example.com')).toEqual(['instructor', 'question_reviewer'])
+
+    await expect(syncUserRoles(directory, admin.id, admin.id, ['user'])).rejects.toThrow(
+      'your own admin role'
+    )
+  })
+
+  it('undoes group changes when one of them fails', async () => {
+    const { directory, groupsOf } = createInMemoryDirectory(['instructor'])
+    const admin = await invite(directory, 'admin@example.com', ['admin'])
+    const student = await invite(directory, 'ana@example.com', ['user'])
+
+    await expect(
+      syncUserRoles(directory, admin.id, student.id, ['question_reviewer', 'instructor'])
+    ).rejects.toThrow('Group not found')
+
+    expect(users.get(student.id)?.roles).toEqual(['user'])
+    expect(groupsOf('ana@example.com')).toEqual(['user'])
+  })
+
+  it('deletes the user even if their Cognito account is already gone', async () => {
+    const { directory, accounts } = createInMemoryDirectory()
+    const admin = await invite(directory, 'admin@example.com', ['admin'])
+    const student = await invite(directory, 'ana@example.com', ['user'])
+    accounts.delete('ana@example.com')
+
+    await removeUser(directory, admin.id, student.id)
+
+    expect(users.has(student.id)).toBe(false)
+    await expect(removeUser(directory, admin.id, admin.id)).rejects.toThrow('your own account')
+  })
+})
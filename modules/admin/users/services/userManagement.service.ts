@@ -0,0 +1,316 @@
+/**
+ * User Management Service
+ *
+ * Keeps the users table and the user directory (Cognito) in step. Roles live
+ * in both places: User.roles is what permissions are resolved from, and the
+ * Cognito groups overwrite it at the next sign-in, so every role change is
+ * made in the directory first and then saved. Roles made in the roles admin
+ * get their group the first time they are assigned.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { SYSTEM_ROLES } from "@/lib/auth/permissions";
+import { ConflictError, NotFoundError, ValidationError } from "@/lib/auth/types";
+import type { DirectoryUser, UserDirectory } from "../lib/userDirectory";
+import type {
+  AssignableRole,
+  ManagedUser,
+  UserAccountStatus,
+} from "../types/user.schema";
+
+const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  roles: true,
+  cognitoId: true,
+  cognitoUsername: true,
+  createdAt: true,
+  currentCertification: { select: { id: true, name: true, code: true } },
+} satisfies Prisma.UserSelect;
+
+type UserRecord = Prisma.UserGetPayload<{ select: typeof USER_SELECT }>;
+
+// Cognito status of an invited user who hasn't set a password yet
+const PENDING_STATUS = "FORCE_CHANGE_PASSWORD";
+
+/**
+ * The directory account for a user: by username, then sub, then email
+ */
+function findDirectoryUser(
+  user: Pick<UserRecord, "email" | "cognitoId" | "cognitoUsername">,
+  directoryUsers: DirectoryUser[]
+): DirectoryUser | undefined {
+  return (
+    directoryUsers.find((entry) => user.cognitoUsername && entry.username === user.cognitoUsername) ??
+    directoryUsers.find((entry) => user.cognitoId && entry.sub === user.cognitoId) ??
+    directoryUsers.find((entry) => entry.email?.toLowerCase() === user.email.toLowerCase())
+  );
+}
+
+function accountStatus(directoryUser: DirectoryUser | undefined): UserAccountStatus {
+  if (!directoryUser) return "unlinked";
+  if (!directoryUser.enabled) return "disabled";
+  return directoryUser.status === PENDING_STATUS ? "pending" : "active";
+}
+
+function serializeUser(user: UserRecord, directoryUser: DirectoryUser | undefined): ManagedUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    roles: user.roles,
+    cognitoUsername: user.cognitoUsername ?? directoryUser?.username ?? null,
+    status: accountStatus(directoryUser),
+    currentCertification: user.currentCertification,
+    createdAt: user.createdAt,
+  };
+}
+
+async function loadUser(id: string): Promise<UserRecord> {
+  const user = await prisma.user.findUnique({ where: { id }, select: USER_SELECT });
+  if (!user) {
+    throw new NotFoundError("User not found");
+  }
+  return user;
+}
+
+function requireDirectoryUsername(user: UserRecord): string {
+  if (!user.cognitoUsername) {
+    throw new ValidationError("This user has no linked Cognito account");
+  }
+  return user.cognitoUsername;
+}
+
+async function assertCertificationExists(certificationId: string) {
+  const certification = await prisma.certification.findUnique({
+    where: { id: certificationId },
+    select: { id: true },
+  });
+  if (!certification) {
+    throw new NotFoundError("Certification not found");
+  }
+}
+
+/**
+ * Roles that can be given to users: the roles table plus any system role
+ * that hasn't been saved to it yet
+ */
+export async function getAssignableRoles(): Promise<AssignableRole[]> {
+  const roles = await prisma.role.findMany({
+    orderBy: [{ isSystem: "desc" }, { displayName: "asc" }],
+    select: { name: true, displayName: true },
+  });
+  const names = new Set(roles.map((role) => role.name));
+
+  return [
+    ...SYSTEM_ROLES.filter((role) => !names.has(role.name)).map(({ name, displayName }) => ({
+      name,
+      displayName,
+    })),
+    ...roles,
+  ];
+}
+
+async function assertAssignableRoles(roleNames: string[]) {
+  const assignable = new Set((await getAssignableRoles()).map((role) => role.name));
+  const unknown = roleNames.filter((name) => !assignable.has(name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown role: ${unknown.join(", ")}`);
+  }
+}
+
+/**
+ * All users, newest first, with their directory account status
+ */
+export async function listManagedUsers(directory: UserDirectory): Promise<ManagedUser[]> {
+  const [users, directoryUsers] = await Promise.all([
+    prisma.user.findMany({ orderBy: { createdAt: "desc" }, select: USER_SELECT }),
+    directory.listUsers(),
+  ]);
+
+  return users.map((user) => serializeUser(user, findDirectoryUser(user, directoryUsers)));
+}
+
+/**
+ * Create the directory account (which sends the invite), put it in the role
+ * groups and add the user. The account is removed again if the groups
+ * can't be set, so a retry starts clean.
+ */
+export async function createInvitedUser(
+  directory: UserDirectory,
+  input: {
+    email: string;
+    name?: string;
+    roles: string[];
+    currentCertificationId?: string | null;
+    sendInvite: boolean;
+  }
+): Promise<ManagedUser> {
+  const existing = await prisma.user.findUnique({
+    where: { email: input.email },
+    select: { id: true },
+  });
+  if (existing) {
+    throw new ConflictError("A user with this email already exists");
+  }
+
+  await assertAssignableRoles(input.roles);
+  if (input.currentCertificationId) {
+    await assertCertificationExists(input.currentCertificationId);
+  }
+
+  const account = await directory.createUser({
+    username: input.email,
+    email: input.email,
+    name: input.name || undefined,
+    sendInvite: input.sendInvite,
+  });
+
+  try {
+    for (const role of input.roles) {
+      await directory.ensureGroup(role);
+      await directory.addUserToGroup(account.username, role);
+    }
+  } catch (error) {
+    await directory.deleteUser(account.username).catch(() => undefined);
+    throw error;
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: input.email,
+      name: input.name || null,
+      roles: input.roles,
+      cognitoId: account.sub ?? null,
+      cognitoUsername: account.username,
+      currentCertificationId: input.currentCertificationId ?? null,
+    },
+    select: USER_SELECT,
+  });
+
+  return serializeUser(user, {
+    username: account.username,
+    sub: account.sub,
+    email: input.email,
+    enabled: true,
+    status: PENDING_STATUS,
+  });
+}
+
+/**
+ * Disable or re-enable a user's directory account. Disabled users can't
+ * sign in; their data is kept.
+ */
+export async function setAccountEnabled(
+  directory: UserDirectory,
+  actorId: string,
+  userId: string,
+  enabled: boolean
+): Promise<void> {
+  if (!enabled && actorId === userId) {
+    throw new ValidationError("You can't disable your own account");
+  }
+
+  const username = requireDirectoryUsername(await loadUser(userId));
+  if (enabled) {
+    await directory.enableUser(username);
+  } else {
+    await directory.disableUser(username);
+  }
+}
+
+/**
+ * Delete the directory account and the user with all their progress
+ */
+export async function removeUser(
+  directory: UserDirectory,
+  actorId: string,
+  userId: string
+): Promise<void> {
+  if (actorId === userId) {
+    throw new ValidationError("You can't delete your own account");
+  }
+
+  const user = await loadUser(userId);
+  if (user.cognitoUsername) {
+    try {
+      await directory.deleteUser(user.cognitoUsername);
+    } catch (error) {
+      // Already gone from the pool; still remove the user
+      if (!(error instanceof Error && error.name === "UserNotFoundException")) {
+        throw error;
+      }
+    }
+  }
+
+  await prisma.user.delete({ where: { id: user.id } });
+}
+
+/**
+ * Replace a user's roles. Group changes are undone if one of them fails,
+ * so the directory and User.roles never disagree.
+ */
+export async function syncUserRoles(
+  directory: UserDirectory,
+  actorId: string,
+  userId: string,
+  roles: string[]
+): Promise<void> {
+  const user = await loadUser(userId);
+
+  if (actorId === user.id && user.roles.includes("admin") && !roles.includes("admin")) {
+    throw new ValidationError("You can't remove your own admin role");
+  }
+
+  const added = roles.filter((role) => !user.roles.includes(role));
+  const removed = user.roles.filter((role) => !roles.includes(role));
+  // Roles the user already has may have been deleted since; only new ones are checked
+  await assertAssignableRoles(added);
+
+  if (user.cognitoUsername) {
+    const username = user.cognitoUsername;
+    const undo: Array<() => Promise<void>> = [];
+
+    try {
+      for (const role of added) {
+        await directory.ensureGroup(role);
+        await directory.addUserToGroup(username, role);
+        undo.push(() => directory.removeUserFromGroup(username, role));
+      }
+      for (const role of removed) {
+        await directory.removeUserFromGroup(username, role);
+        undo.push(() => directory.addUserToGroup(username, role));
+      }
+    } catch (error) {
+      for (const step of undo.reverse()) {
+        await step().catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { roles },
+  });
+}
+
+/**
+ * Set the certification a user is studying for, or clear it
+ */
+export async function assignCertification(
+  userId: string,
+  certificationId: string | null
+): Promise<void> {
+  await loadUser(userId);
+  if (certificationId) {
+    await assertCertificationExists(certificationId);
+  }
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { currentCertificationId: certificationId },
+  });
+}
@@ -0,0 +1,98 @@
+import { z } from "zod";
+
+// Role names are Cognito group names
+const roleNamesSchema = z
+  .array(z.string().trim().min(1))
+  .min(1, "Pick at least one role")
+  .transform((roles) => [...new Set(roles)]);
+
+/**
+ * Zod schema for inviting a user
+ */
+export const inviteUserSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  name: z.string().trim().max(100).optional(),
+  roles: roleNamesSchema,
+  currentCertificationId: z.string().cuid().nullable().optional(),
+  // Cognito emails the temporary password when true
+  sendInvite: z.boolean().default(true),
+});
+
+/**
+ * Zod schema for actions on a single user (disable, enable, delete)
+ */
+export const userIdSchema = z.object({
+  id: z.string().cuid(),
+});
+
+/**
+ * Zod schema for replacing a user's roles
+ */
+export const updateUserRolesSchema = z.object({
+  id: z.string().cuid(),
+  roles: roleNamesSchema,
+});
+
+/**
+ * Zod schema for assigning (or clearing) a user's current certification
+ */
+export const setUserCertificationSchema = z.object({
+  id: z.string().cuid(),
+  certificationId: z.string().cuid().nullable(),
+});
+
+// Type exports
+export type InviteUserInput = z.input<typeof inviteUserSchema>;
+export type UserIdInput = z.infer<typeof userIdSchema>;
+export type UpdateUserRolesInput = z.infer<typeof updateUserRolesSchema>;
+export type SetUserCertificationInput = z.infer<typeof setUserCertificationSchema>;
+
+/**
+ * Account state, from the user's Cognito record:
+ * - pending: invited, hasn't set a password yet
+ * - disabled: can't sign in until re-enabled
+ * - unlinked: no Cognito account matches this user
+ */
+export type UserAccountStatus = "active" | "pending" | "disabled" | "unlinked";
+
+// A type alias (not an interface) so rows fit the admin table's item type
+export type ManagedUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  roles: string[];
+  cognitoUsername: string | null;
+  status: UserAccountStatus;
+  currentCertification: { id: string; name: string; code: string } | null;
+  createdAt: Date;
+};
+
+export interface AssignableRole {
+  name: string;
+  displayName: string;
+}
+
+// Response types
+export interface UserResponse {
+  success: boolean;
+  data?: ManagedUser;
+  error?: string;
+}
+
+export interface UserListResponse {
+  success: boolean;
+  data?: ManagedUser[];
+  error?: string;
+}
+
+export interface AssignableRoleListResponse {
+  success: boolean;
+  data?: AssignableRole[];
+  error?: string;
+}
+
+// Disable, enable, delete, role and certification changes
+export interface UserActionResponse {
+  success: boolean;
+  error?: string;
+}
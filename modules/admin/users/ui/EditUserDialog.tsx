@@ -0,0 +1,116 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useSetUserCertification, useUpdateUserRoles } from "../hooks/useUsers";
+import type { AssignableRole, ManagedUser } from "../types/user.schema";
+import { CertificationSelect, RoleCheckboxes } from "./UserFormFields";
+
+interface EditUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user?: ManagedUser;
+  roles: AssignableRole[];
+}
+
+export function EditUserDialog({ open, onOpenChange, user, roles }: EditUserDialogProps) {
+  const updateRoles = useUpdateUserRoles();
+  const setCertification = useSetUserCertification();
+
+  const [selectedRoles, setSelectedRoles] = React.useState<string[]>([]);
+  const [certificationId, setCertificationId] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (open && user) {
+      setSelectedRoles(user.roles);
+      setCertificationId(user.currentCertification?.id ?? null);
+      setError(null);
+    }
+  }, [open, user]);
+
+  // Roles the user has that are no longer defined still show, so they can be removed
+  const roleOptions = React.useMemo(() => {
+    const known = new Set(roles.map((role) => role.name));
+    const stale = (user?.roles ?? [])
+      .filter((name) => !known.has(name))
+      .map((name) => ({ name, displayName: name }));
+    return [...roles, ...stale];
+  }, [roles, user]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!user) return;
+
+    if (selectedRoles.length === 0) {
+      setError("Pick at least one role");
+      return;
+    }
+
+    const rolesChanged =
+      selectedRoles.length !== user.roles.length ||
+      selectedRoles.some((role) => !user.roles.includes(role));
+    if (rolesChanged) {
+      const result = await updateRoles.mutateAsync({ id: user.id, roles: selectedRoles });
+      if (!result.success) return;
+    }
+
+    if (certificationId !== (user.currentCertification?.id ?? null)) {
+      const result = await setCertification.mutateAsync({ id: user.id, certificationId });
+      if (!result.success) return;
+    }
+
+    onOpenChange(false);
+  };
+
+  const isSubmitting = updateRoles.isPending || setCertification.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Edit {user?.name || user?.email}</DialogTitle>
+          <DialogDescription>
+            Role changes update the user&apos;s Cognito groups too and apply on their next request.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Roles</Label>
+            <RoleCheckboxes
+              idPrefix="edit"
+              roles={roleOptions}
+              selected={selectedRoles}
+              onChange={setSelectedRoles}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Current Certification</Label>
+            <CertificationSelect value={certificationId} onChange={setCertificationId} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useInviteUser } from "../hooks/useUsers";
+import { inviteUserSchema, type AssignableRole } from "../types/user.schema";
+import { CertificationSelect, RoleCheckboxes } from "./UserFormFields";
+
+interface InviteUserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roles: AssignableRole[];
+}
+
+export function InviteUserDialog({ open, onOpenChange, roles }: InviteUserDialogProps) {
+  const inviteUser = useInviteUser();
+
+  const [email, setEmail] = React.useState("");
+  const [name, setName] = React.useState("");
+  const [selectedRoles, setSelectedRoles] = React.useState<string[]>(["user"]);
+  const [certificationId, setCertificationId] = React.useState<string | null>(null);
+  const [sendInvite, setSendInvite] = React.useState(true);
+  const [errors, setErrors] = React.useState<Record<string, string>>({});
+
+  React.useEffect(() => {
+    if (open) {
+      setEmail("");
+      setName("");
+      setSelectedRoles(["user"]);
+      setCertificationId(null);
+      setSendInvite(true);
+      setErrors({});
+    }
+  }, [open]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const input = {
+      email,
+      name: name || undefined,
+      roles: selectedRoles,
+      currentCertificationId: certificationId,
+      sendInvite,
+    };
+    const parsed = inviteUserSchema.safeParse(input);
+    if (!parsed.success) {
+      setErrors(
+        Object.fromEntries(parsed.error.issues.map((issue) => [String(issue.path[0]), issue.message]))
+      );
+      return;
+    }
+
+    const result = await inviteUser.mutateAsync(input);
+    if (result.success) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Invite User</DialogTitle>
+          <DialogDescription>
+            Creates a Cognito account with a temporary password. The user picks their own password
+            at first sign-in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">
+                Email <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="invite-email"
+                type="email"
+                placeholder="student@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              {errors.email && <p className="text-sm text-destructive">{errors.email}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite-name">Name</Label>
+              <Input
+                id="invite-name"
+                placeholder="Jordan Smith"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Roles <span className="text-destructive">*</span>
+            </Label>
+            <RoleCheckboxes
+              idPrefix="invite"
+              roles={roles}
+              selected={selectedRoles}
+              onChange={setSelectedRoles}
+            />
+            {errors.roles && <p className="text-sm text-destructive">{errors.roles}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Current Certification</Label>
+            <CertificationSelect value={certificationId} onChange={setCertificationId} />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="invite-send" checked={sendInvite} onCheckedChange={setSendInvite} />
+            <Label htmlFor="invite-send" className="font-normal cursor-pointer">
+              Email the invitation
+            </Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={inviteUser.isPending}>
+              {inviteUser.isPending ? "Inviting..." : "Invite"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import type { AssignableRole } from "../types/user.schema";
+
+// Select items can't have an empty value
+const NO_CERTIFICATION = "none";
+
+interface RoleCheckboxesProps {
+  idPrefix: string;
+  roles: AssignableRole[];
+  selected: string[];
+  onChange: (roles: string[]) => void;
+}
+
+/**
+ * One checkbox per assignable role
+ */
+export function RoleCheckboxes({ idPrefix, roles, selected, onChange }: RoleCheckboxesProps) {
+  return (
+    <div className="grid gap-2 rounded-lg border p-3 md:grid-cols-2">
+      {roles.map((role) => (
+        <div key={role.name} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-role-${role.name}`}
+            checked={selected.includes(role.name)}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked === true
+                  ? [...selected, role.name]
+                  : selected.filter((name) => name !== role.name)
+              )
+            }
+          />
+          <Label
+            htmlFor={`${idPrefix}-role-${role.name}`}
+            className="cursor-pointer font-normal leading-tight"
+          >
+            {role.displayName}
+            <span className="block font-mono text-xs text-muted-foreground">{role.name}</span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface CertificationSelectProps {
+  value: string | null;
+  onChange: (certificationId: string | null) => void;
+}
+
+/**
+ * Active certifications, plus "None"
+ */
+export function CertificationSelect({ value, onChange }: CertificationSelectProps) {
+  const { data: certifications } = useCertifications({
+    status: "active",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+
+  return (
+    <Select
+      value={value ?? NO_CERTIFICATION}
+      onValueChange={(selected) => onChange(selected === NO_CERTIFICATION ? null : selected)}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a certification" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_CERTIFICATION}>None</SelectItem>
+        {(certifications?.data ?? []).map((certification) => (
+          <SelectItem key={certification.id} value={certification.id}>
+            {certification.name} ({certification.code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Pencil, Plus, Power, PowerOff, Trash2, Users } from "lucide-react";
+import { AdminTableStandardized, type AdminTableColumn } from "@/modules/admin/shared/ui";
+import { useAdminTableStandardized, type AdminTableConfig } from "@/modules/admin/shared/hooks";
+import {
+  useAssignableRoles,
+  useDeleteUser,
+  useDisableUser,
+  useEnableUser,
+  useUsers,
+} from "../hooks/useUsers";
+import { InviteUserDialog } from "./InviteUserDialog";
+import { EditUserDialog } from "./EditUserDialog";
+import type { ManagedUser, UserAccountStatus } from "../types/user.schema";
+
+interface UserManagementProps {
+  currentUserId: string;
+  canCreate: boolean;
+  canUpdate: boolean;
+  canDelete: boolean;
+}
+
+interface UserFilters {
+  role: string;
+  status: string;
+}
+
+const ALL = "all";
+
+const STATUS_BADGES: Record<
+  UserAccountStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  active: { label: "Active", variant: "default" },
+  pending: { label: "Invited", variant: "secondary" },
+  disabled: { label: "Disabled", variant: "destructive" },
+  unlinked: { label: "No Cognito account", variant: "outline" },
+};
+
+function filterUsers(users: ManagedUser[], search: string, filters: UserFilters) {
+  const term = search.trim().toLowerCase();
+  return users.filter(
+    (user) =>
+      (!term ||
+        user.email.toLowerCase().includes(term) ||
+        (user.name?.toLowerCase().includes(term) ?? false)) &&
+      (!filters.role || user.roles.includes(filters.role)) &&
+      (!filters.status || user.status === filters.status)
+  );
+}
+
+export function UserManagement({
+  currentUserId,
+  canCreate,
+  canUpdate,
+  canDelete,
+}: UserManagementProps) {
+  const [inviteOpen, setInviteOpen] = React.useState(false);
+  const [editingUser, setEditingUser] = React.useState<ManagedUser | undefined>();
+  const [pendingDelete, setPendingDelete] = React.useState<ManagedUser | null>(null);
+  const [pendingDisable, setPendingDisable] = React.useState<ManagedUser | null>(null);
+
+  const { data: response, isLoading, refetch } = useUsers();
+  const { data: rolesResponse } = useAssignableRoles();
+  const disableUser = useDisableUser();
+  const enableUser = useEnableUser();
+  const deleteUser = useDeleteUser();
+
+  const users = React.useMemo(() => response?.data ?? [], [response]);
+  const roles = React.useMemo(() => rolesResponse?.data ?? [], [rolesResponse]);
+  const roleLabels = React.useMemo(
+    () => new Map(roles.map((role) => [role.name, role.displayName])),
+    [roles]
+  );
+
+  const refreshUsers = React.useCallback(async () => {
+    const result = await refetch();
+    return result.data?.data ?? [];
+  }, [refetch]);
+
+  const tableConfig: AdminTableConfig<ManagedUser, UserFilters> = React.useMemo(
+    () => ({
+      getItemId: (item) => item.id,
+      initialData: users,
+      initialFilters: { role: "", status: "" },
+      initialItemsPerPage: 25,
+      initialSortField: "createdAt",
+      initialSortDirection: "desc",
+      filterFunction: filterUsers,
+      refreshFunction: refreshUsers,
+      resetPageOnFilter: true,
+      cacheData: false,
+      showErrorToasts: true,
+    }),
+    [users, refreshUsers]
+  );
+
+  const [tableState, tableActions] = useAdminTableStandardized(tableConfig);
+
+  React.useEffect(() => {
+    tableActions.setData(users);
+  }, [users, tableActions]);
+
+  const columns: AdminTableColumn<ManagedUser>[] = React.useMemo(
+    () => [
+      {
+        key: "name",
+        header: "User",
+        sortable: true,
+        render: (user) => (
+          <div>
+            <div className="font-medium">
+              {user.name || user.email}
+              {user.id === currentUserId && (
+                <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+              )}
+            </div>
+            {user.name && <div className="text-sm text-muted-foreground">{user.email}</div>}
+          </div>
+        ),
+      },
+      {
+        key: "roles",
+        header: "Roles",
+        render: (user) => (
+          <div className="flex flex-wrap gap-1">
+            {user.roles.map((role) => (
+              <Badge key={role} variant="outline">
+                {roleLabels.get(role) ?? role}
+              </Badge>
+            ))}
+          </div>
+        ),
+      },
+      {
+        key: "status",
+        header: "Status",
+        sortable: true,
+        render: (user) => (
+          <Badge variant={STATUS_BADGES[user.status].variant}>
+            {STATUS_BADGES[user.status].label}
+          </Badge>
+        ),
+      },
+      {
+        key: "currentCertification",
+        header: "Certification",
+        render: (user) =>
+          user.currentCertification ? (
+            <span className="text-sm">{user.currentCertification.name}</span>
+          ) : (
+            <span className="text-sm text-muted-foreground">—</span>
+          ),
+      },
+      {
+        key: "createdAt",
+        header: "Joined",
+        sortable: true,
+        render: (user) => (
+          <span className="text-sm text-muted-foreground">
+            {new Date(user.createdAt).toLocaleDateString()}
+          </span>
+        ),
+      },
+      {
+        key: "actions",
+        header: "Actions",
+        align: "right",
+        width: "140px",
+        render: (user) => {
+          const isSelf = user.id === currentUserId;
+          return (
+            <div className="flex items-center justify-end gap-1">
+              {canUpdate && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setEditingUser(user)}
+                  aria-label={`Edit ${user.email}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              )}
+              {canUpdate && user.status === "disabled" && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => enableUser.mutate(user.id)}
+                  disabled={enableUser.isPending}
+                  aria-label={`Enable ${user.email}`}
+                >
+                  <Power className="h-4 w-4" />
+                </Button>
+              )}
+              {canUpdate && (user.status === "active" || user.status === "pending") && !isSelf && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0"
+                  onClick={() => setPendingDisable(user)}
+                  aria-label={`Disable ${user.email}`}
+                >
+                  <PowerOff className="h-4 w-4" />
+                </Button>
+              )}
+              {canDelete && !isSelf && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-8 w-8 p-0 hover:bg-red-100 hover:text-red-600"
+                  onClick={() => setPendingDelete(user)}
+                  aria-label={`Delete ${user.email}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          );
+        },
+      },
+    ],
+    [currentUserId, canUpdate, canDelete, roleLabels, enableUser]
+  );
+
+  const emptyState = (
+    <div className="p-12 text-center">
+      <Users className="mx-auto h-10 w-10 text-muted-foreground mb-4" />
+      <h3 className="text-lg font-semibold mb-2">No users found</h3>
+      <p className="text-sm text-muted-foreground">
+        Users appear here once they sign in or are invited.
+      </p>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">User Management</h1>
+          <p className="text-muted-foreground mt-2">
+            Invite users, manage their roles and Cognito accounts, and set what they study.
+          </p>
+        </div>
+        {canCreate && (
+          <Button onClick={() => setInviteOpen(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Invite User
+          </Button>
+        )}
+      </div>
+
+      {response && !response.success && (
+        <p className="text-sm text-destructive">{response.error}</p>
+      )}
+
+      <AdminTableStandardized
+        state={{ ...tableState, loading: isLoading }}
+        actions={tableActions}
+        columns={columns}
+        getItemId={(item) => item.id}
+        emptyState={emptyState}
+        searchPlaceholder="Search by name or email..."
+        pageSizeOptions={[10, 25, 50, -1]}
+        ariaLabel="Users data table"
+        ariaDescription="Table of user accounts with their roles, status and certification"
+        filterComponents={
+          <div className="flex gap-2">
+            <Select
+              value={tableState.filters.role || ALL}
+              onValueChange={(value) =>
+                tableActions.setFilters((prev) => ({ ...prev, role: value === ALL ? "" : value }))
+              }
+            >
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Role" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All roles</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.name} value={role.name}>
+                    {role.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={tableState.filters.status || ALL}
+              onValueChange={(value) =>
+                tableActions.setFilters((prev) => ({ ...prev, status: value === ALL ? "" : value }))
+              }
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {Object.entries(STATUS_BADGES).map(([status, badge]) => (
+                  <SelectItem key={status} value={status}>
+                    {badge.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        }
+      />
+
+      <InviteUserDialog open={inviteOpen} onOpenChange={setInviteOpen} roles={roles} />
+
+      <EditUserDialog
+        open={!!editingUser}
+        onOpenChange={(open) => !open && setEditingUser(undefined)}
+        user={editingUser}
+        roles={roles}
+      />
+
+      <ConfirmationDialog
+        open={!!pendingDisable}
+        onOpenChange={(open) => !open && setPendingDisable(null)}
+        title="Disable User"
+        description={`Disable ${pendingDisable?.email ?? ""}? They won't be able to sign in until re-enabled. Their progress is kept.`}
+        confirmText="Disable"
+        variant="warning"
+        onConfirm={() => pendingDisable && disableUser.mutate(pendingDisable.id)}
+      />
+
+      <ConfirmationDialog
+        open={!!pendingDelete}
+        onOpenChange={(open) => !open && setPendingDelete(null)}
+        title="Delete User"
+        description={`Delete ${pendingDelete?.email ?? ""}? This removes their Cognito account and all of their progress, and can't be undone.`}
+        confirmText="Delete"
+        onConfirm={() => pendingDelete && deleteUser.mutate(pendingDelete.id)}
+      />
+    </div>
+  );
+}
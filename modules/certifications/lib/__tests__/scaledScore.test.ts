@@ -0,0 +1,115 @@
+import {
+  formatScaledScore,
+  parseScaledScoreResult,
+  passingRawPercent,
+  recordedScaledScore,
+  resolveScoringCurve,
+  toScaledScore,
+} from '../scaledScore'
+import { DEFAULT_SCORING_CURVE } from '../../types/scoring.schema'
+
+const comptia = { isScoredExam: true, passingScore: 750, maxScore: 900 }
+
+describe('resolveScoringCurve', () => {
+  it('falls back to the default curve when missing or invalid', () => {
+    expect(resolveScoringCurve(comptia)).toEqual(DEFAULT_SCORING_CURVE)
+    expect(resolveScoringCurve({ ...comptia, scoringCurve: { type: 'bogus' } })).toEqual(DEFAULT_SCORING_CURVE)
+  })
+})
+
+describe('toScaledScore', () => {
+  it('meets the passing score at the anchored pass mark', () => {
+    const curve = { type: 'anchored', minScore: 100, passingRawPercent: 80 }
+
+    expect(toScaledScore(80, { ...comptia, scoringCurve: curve })).toEqual({
+      isScored: true,
+      rawPercent: 80,
+      scaledScore: 750,
+      minScore: 100,
+      passingScore: 750,
+      maxScore: 900,
+      passingRawPercent: 80,
+      passed: true,
+    })
+  })
+
+  it('interpolates either side of the anchor', () => {
+    const config = { ...comptia, scoringCurve: { type: 'anchored', minScore: 100, passingRawPercent: 80 } }
+
+    expect(toScaledScore(40, config).scaledScore).toBe(425)
+    expect(toScaledScore(90, config).scaledScore).toBe(825)
+    expect(toScaledScore(79, config).passed).toBe(false)
+  })
+
+  it('maps linearly from the minimum to the maximum score', () => {
+    const config = { ...comptia, scoringCurve: { type: 'linear', minScore: 100 } }
+
+    expect(toScaledScore(50, config).scaledScore).toBe(500)
+    expect(passingRawPercent(config)).toBe(81.3)
+  })
+
+  it('follows piecewise points', () => {
+    const config = {
+      ...comptia,
+      scoringCurve: {
+        type: 'piecewise',
+        points: [
+          { raw: 0, scaled: 100 },
+          { raw: 60, scaled: 700 },
+          { raw: 100, scaled: 900 },
+        ],
+      },
+    }
+
+    expect(toScaledScore(30, config).scaledScore).toBe(400)
+    expect(toScaledScore(70, config).scaledScore).toBe(750)
+    expect(passingRawPercent(config)).toBe(70)
+  })
+
+  it('clamps raw percentages to 0-100', () => {
+    expect(toScaledScore(120, comptia)).toMatchObject({ rawPercent: 100, scaledScore: 900 })
+    expect(toScaledScore(-5, comptia)).toMatchObject({ rawPercent: 0, scaledScore: 0 })
+  })
+
+  it('only passes or fails Pass/Fail certifications', () => {
+    const result = toScaledScore(76, { isScoredExam: false, passingScore: null, maxScore: null })
+
+    expect(result).toMatchObject({ isScored: false, scaledScore: null, passingRawPercent: 75, passed: true })
+    expect(formatScaledScore(result)).toBe('Pass')
+  })
+})
+
+describe('formatScaledScore', () => {
+  it('shows the score out of the maximum', () => {
+    expect(formatScaledScore(toScaledScore(75, comptia))).toBe('750 / 900')
+  })
+})
+
+describe('parseScaledScoreResult', () => {
+  it('reads a stored conversion back', () => {
+    const result = toScaledScore(62.5, comptia)
+
+    expect(parseScaledScoreResult(JSON.parse(JSON.stringify(result)))).toEqual(result)
+  })
+
+  it('returns null for missing or malformed values', () => {
+    expect(parseScaledScoreResult(null)).toBeNull()
+    expect(parseScaledScoreResult({ scaledScore: 700 })).toBeNull()
+  })
+})
+
+describe('recordedScaledScore', () => {
+  it('prefers the conversion recorded at grading time', () => {
+    const recorded = toScaledScore(80, comptia)
+    const exam = { score: 80, scaledScore: recorded.scaledScore, passed: recorded.passed, scoreConversion: recorded }
+
+    expect(recordedScaledScore(exam, { ...comptia, passingScore: 800 })).toEqual(recorded)
+  })
+
+  it('rebuilds older exams from the current curve, keeping the recorded result', () => {
+    const exam = { score: 80, scaledScore: 700, passed: false, scoreConversion: null }
+
+    expect(recordedScaledScore(exam, comptia)).toMatchObject({ rawPercent: 80, scaledScore: 700, passed: false })
+    expect(recordedScaledScore(exam, null)).toBeNull()
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Scaled Score Conversion
+ *
+ * Maps raw practice-exam percentages onto a certification's scaled range
+ * (e.g. 100-900 with 750 to pass) using the certification's scoring curve.
+ */
+
+import {
+  DEFAULT_PASSING_RAW_PERCENT,
+  DEFAULT_SCORING_CURVE,
+  scaledScoreResultSchema,
+  scoringCurveSchema,
+  type ScaledScoreResult,
+  type ScorePoint,
+  type ScoringConfig,
+  type ScoringCurve,
+} from "../types/scoring.schema";
+
+/**
+ * Parse the stored curve, falling back to the default when missing or invalid
+ */
+export function resolveScoringCurve(config: ScoringConfig): ScoringCurve {
+  if (config.scoringCurve == null) return DEFAULT_SCORING_CURVE;
+  const parsed = scoringCurveSchema.safeParse(config.scoringCurve);
+  return parsed.success ? parsed.data : DEFAULT_SCORING_CURVE;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+function interpolate(x: number, x0: number, y0: number, x1: number, y1: number): number {
+  if (x1 === x0) return y0;
+  return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+}
+
+/**
+ * Anchor points describing the curve as a polyline over raw 0-100
+ */
+function curvePoints(curve: ScoringCurve, passingScore: number, maxScore: number): ScorePoint[] {
+  switch (curve.type) {
+    case "linear":
+      return [
+        { raw: 0, scaled: curve.minScore },
+        { raw: 100, scaled: maxScore },
+      ];
+    case "anchored":
+      return [
+        { raw: 0, scaled: curve.minScore },
+        { raw: curve.passingRawPercent, scaled: passingScore },
+        { raw: 100, scaled: maxScore },
+      ];
+    case "piecewise":
+      return [...curve.points].sort((a, b) => a.raw - b.raw);
+  }
+}
+
+function scaleFromPoints(raw: number, points: ScorePoint[]): number {
+  if (raw <= points[0].raw) return points[0].scaled;
+  for (let i = 1; i < points.length; i++) {
+    if (raw <= points[i].raw) {
+      return interpolate(raw, points[i - 1].raw, points[i - 1].scaled, points[i].raw, points[i].scaled);
+    }
+  }
+  return points[points.length - 1].scaled;
+}
+
+function rawFromPoints(scaled: number, points: ScorePoint[]): number {
+  if (scaled <= points[0].scaled) return points[0].raw;
+  for (let i = 1; i < points.length; i++) {
+    if (scaled <= points[i].scaled) {
+      return interpolate(scaled, points[i - 1].scaled, points[i - 1].raw, points[i].scaled, points[i].raw);
+    }
+  }
+  return 100; // Curve never reaches the passing score
+}
+
+/**
+ * Raw percentage (0-100) a student needs to pass this certification
+ */
+export function passingRawPercent(config: ScoringConfig): number {
+  const curve = resolveScoringCurve(config);
+
+  if (!config.isScoredExam || config.passingScore == null || config.maxScore == null) {
+    return curve.type === "anchored" ? curve.passingRawPercent : DEFAULT_PASSING_RAW_PERCENT;
+  }
+
+  const points = curvePoints(curve, config.passingScore, config.maxScore);
+  return Math.round(rawFromPoints(config.passingScore, points) * 10) / 10;
+}
+
+/**
+ * Convert a raw percentage (0-100) to the certification's scale
+ */
+export function toScaledScore(rawPercent: number, config: ScoringConfig): ScaledScoreResult {
+  const raw = clamp(rawPercent, 0, 100);
+  const passMark = passingRawPercent(config);
+
+  if (!config.isScoredExam || config.passingScore == null || config.maxScore == null) {
+    return {
+      isScored: false,
+      rawPercent: raw,
+      scaledScore: null,
+      minScore: null,
+      passingScore: null,
+      maxScore: null,
+      passingRawPercent: passMark,
+      passed: raw >= passMark,
+    };
+  }
+
+  const curve = resolveScoringCurve(config);
+  const points = curvePoints(curve, config.passingScore, config.maxScore);
+  const scaledScore = Math.round(clamp(scaleFromPoints(raw, points), 0, config.maxScore));
+
+  return {
+    isScored: true,
+    rawPercent: raw,
+    scaledScore,
+    minScore: points[0].scaled,
+    passingScore: config.passingScore,
+    maxScore: config.maxScore,
+    passingRawPercent: passMark,
+    passed: scaledScore >= config.passingScore,
+  };
+}
+
+/**
+ * Parse a stored conversion result (null when missing or invalid)
+ */
+export function parseScaledScoreResult(value: unknown): ScaledScoreResult | null {
+  const parsed = scaledScoreResultSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+/**
+ * A graded exam's result on the scale: the conversion recorded at grading
+ * time, or for exams graded before it was stored, one rebuilt from the
+ * current curve that keeps the recorded scaled score and pass/fail
+ */
+export function recordedScaledScore(
+  exam: {
+    score: number;
+    scaledScore: number | null;
+    passed: boolean | null;
+    scoreConversion: unknown;
+  },
+  config: ScoringConfig | null
+): ScaledScoreResult | null {
+  const recorded = parseScaledScoreResult(exam.scoreConversion);
+  if (recorded || !config) return recorded;
+
+  const converted = toScaledScore(exam.score, config);
+  return {
+    ...converted,
+    scaledScore: exam.scaledScore ?? converted.scaledScore,
+    passed: exam.passed ?? converted.passed,
+  };
+}
+
+/**
+ * Short human-readable form, e.g. "812 / 900" or "Pass"
+ */
+export function formatScaledScore(result: ScaledScoreResult): string {
+  if (!result.isScored || result.scaledScore == null) {
+    return result.passed ? "Pass" : "Fail";
+  }
+  return `${result.scaledScore} / ${result.maxScore}`;
+}
@@ -50,6 +50,10 @@ export const createAIModel = withPermission("ai_models.create")(
           modelId: validated.modelId,
           provider: validated.provider,
           description: validated.description || null,
+          taskTypes: validated.taskTypes,
+          inputPricePerMTok: validated.inputPricePerMTok ?? null,
+          outputPricePerMTok: validated.outputPricePerMTok ?? null,
+          audioPricePerMinute: validated.audioPricePerMinute ?? null,
           isActive: validated.isActive,
         },
       });
@@ -108,6 +112,10 @@ export const updateAIModel = withPermission("ai_models.update")(
       if (validated.modelId !== undefined) updateData.modelId = validated.modelId;
       if (validated.provider !== undefined) updateData.provider = validated.provider;
       if (validated.description !== undefined) updateData.description = validated.description || null;
+      if (validated.taskTypes !== undefined) updateData.taskTypes = validated.taskTypes;
+      if (validated.inputPricePerMTok !== undefined) updateData.inputPricePerMTok = validated.inputPricePerMTok;
+      if (validated.outputPricePerMTok !== undefined) updateData.outputPricePerMTok = validated.outputPricePerMTok;
+      if (validated.audioPricePerMinute !== undefined) updateData.audioPricePerMinute = validated.audioPricePerMinute;
       if (validated.isActive !== undefined) updateData.isActive = validated.isActive;
 
       const aiModel = await prisma.aIModel.update({
@@ -1,7 +1,7 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { PrismaClient } from "@prisma/client";
+import { PrismaClient, Prisma } from "@prisma/client";
 import { withPermission } from "@/lib/middleware/withPermission";
 import { AuthContext } from "@/lib/auth/types";
 import {
@@ -55,6 +55,11 @@ export const createCertification = withPermission("certifications.create")(
         data.maxScore = null;
       }
 
+      // Only touch the curve when the caller sent one (null resets to default)
+      if (validated.scoringCurve !== undefined) {
+        data.scoringCurve = validated.scoringCurve ?? Prisma.DbNull;
+      }
+
       const certification = await prisma.certification.create({
         data,
         include: {
@@ -122,6 +127,11 @@ export const updateCertification = withPermission("certifications.update")(
         data.maxScore = null;
       }
 
+      // Only touch the curve when the caller sent one (null resets to default)
+      if (validated.scoringCurve !== undefined) {
+        data.scoringCurve = validated.scoringCurve ?? Prisma.DbNull;
+      }
+
       const certification = await prisma.certification.update({
         where: { id: validated.id },
         data,
@@ -6,6 +6,7 @@ import { withPermission } from "@/lib/middleware/withPermission";
 import { AuthContext } from "@/lib/auth/types";
 import { z } from "zod";
 import { generateCertificationEmbeddings } from "@/modules/content/services/generateCertificationEmbeddings.service";
+import { scoringCurveSchema } from "../types/scoring.schema";
 
 const prisma = new PrismaClient();
 
@@ -17,6 +18,7 @@ const createWithBlueprintSchema = z.object({
   isScoredExam: z.boolean(),
   passingScore: z.number().optional(),
   maxScore: z.number().optional(),
+  scoringCurve: scoringCurveSchema.nullable().optional(),
   defaultStudyDuration: z.number().min(1),
   isActive: z.boolean().default(true),
   domains: z.array(
@@ -100,6 +102,7 @@ export const createCertificationWithBlueprint = withPermission("certifications.c
             isScoredExam: validated.isScoredExam,
             passingScore: validated.passingScore || null,
             maxScore: validated.maxScore || null,
+            scoringCurve: validated.scoringCurve ?? Prisma.DbNull,
             defaultStudyDuration: validated.defaultStudyDuration,
             isActive: validated.isActive,
             isArchived: false,
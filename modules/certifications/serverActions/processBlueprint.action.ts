@@ -1,19 +1,16 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 import { withPermission } from "@/lib/middleware/withPermission";
 import { AuthContext } from "@/lib/auth/types";
-import Anthropic from "@anthropic-ai/sdk";
-import { jsonrepair } from "jsonrepair";
+import { aiGateway } from "@/lib/ai/gateway";
+import { renderStoredPrompt } from "@/lib/ai/promptStore";
+import { AIServiceError } from "@/lib/ai/types";
 import { z } from "zod";
 
 const prisma = new PrismaClient();
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
 // Schema for AI extraction input
 const processBlueprintSchema = z.object({
   certificationId: z.string().cuid(),
@@ -47,78 +44,6 @@ const aiExtractedBlueprintSchema = z.object({
   ),
 });
 
-const BLUEPRINT_EXTRACTION_PROMPT = `You are an expert at analyzing certification exam documents. Your task is to extract the COMPLETE exam structure from this PDF.
-
-CRITICAL: Extract EVERY SINGLE domain and EVERY SINGLE objective listed in the exam guide. Do not stop early or skip any.
-
-Please extract:
-1. ALL exam domains (if there are 5 domains, extract all 5):
-   - Domain number (e.g., "1", "2", "3", "4", "5")
-   - Domain name
-   - Percentage weight if available (as a number, e.g., 24 for 24%)
-   - ALL objectives within each domain (extract every objective, no matter how many):
-     - Objective number (e.g., "1.1", "1.2")
-     - Objective name/description
-     - Bullets: Any bullet points or detailed task statements listed under the objective
-     - Sub-bullets: Any indented/nested items under bullets
-
-EXTRACTION STRATEGY:
-- Extract ALL domains and ALL objectives with their bullets/sub-bullets
-- Keep bullet text concise but complete - preserve all key information
-- Prioritize completeness over verbosity
-- Ensure you reach the last domain and last objective
-
-FORMATTING:
-- Ensure ALL strings are properly escaped (escape quotes, newlines, etc.)
-- Do NOT use comments in the JSON
-- Ensure all arrays have commas between elements
-- If a field is optional and not present, omit it entirely (do not use null)
-- Use concise but complete text for bullets
-
-For example, if an objective says:
-"1.1 Understand security controls"
-And lists:
-Categories
-- Technical
-- Managerial
-- Operational
-Control types
-- Preventative
-- Deterrent
-
-Extract those as bullets and sub-bullets.
-
-Respond ONLY with valid JSON. No markdown, no code blocks, no explanatory text - ONLY the raw JSON.
-
-Format:
-{
-  "domains": [
-    {
-      "domainNumber": "1",
-      "name": "Domain Name",
-      "percentage": 25,
-      "objectives": [
-        {
-          "objectiveNumber": "1.1",
-          "name": "Objective description",
-          "bullets": [
-            {
-              "text": "Main bullet point",
-              "subBullets": [
-                { "text": "Sub-bullet detail 1" },
-                { "text": "Sub-bullet detail 2" }
-              ]
-            },
-            {
-              "text": "Another bullet point"
-            }
-          ]
-        }
-      ]
-    }
-  ]
-}`;
-
 interface ProcessBlueprintResponse {
   success: boolean;
   data?: {
@@ -163,60 +88,31 @@ export const processBlueprint = withPermission("certifications.update")(
         };
       }
 
-      // Call Anthropic API
+      // Extract the structure with the chosen model
       console.error(`Processing blueprint for certification ${certification.name}...`);
       console.error(`Using model: ${input.modelId}`);
 
-      const message = await anthropic.messages.create({
-        model: input.modelId,
-        max_tokens: 16000,
-        messages: [
-          {
-            role: "user",
-            content: [
-              {
-                type: "document",
-                source: {
-                  type: "base64",
-                  media_type: "application/pdf",
-                  data: input.pdfBase64,
-                },
-              },
-              {
-                type: "text",
-                text: BLUEPRINT_EXTRACTION_PROMPT,
-              },
-            ],
-          },
+      const { data: extractedData } = await aiGateway.generateJSON({
+        task: "blueprint",
+        usage: {
+          feature: "blueprint_extraction",
+          userId: user.userId,
+          certificationId: certification.id,
+        },
+        modelId: input.modelId,
+        prompt: await renderStoredPrompt(
+          "blueprint_extraction",
+          { certificationName: certification.name },
+          certification.id
+        ),
+        documents: [
+          { mediaType: "application/pdf", data: input.pdfBase64, filename: input.pdfFileName },
         ],
+        maxTokens: 16000,
+        // Validated below; the raw response is kept on the certification
+        schema: z.unknown(),
       });
 
-      // Extract text from response
-      const responseText = message.content
-        .filter((block) => block.type === "text")
-        .map((block) => (block as any).text)
-        .join("\n");
-
-      console.error("AI Response received, parsing...");
-
-      // Try to parse as JSON
-      let extractedData: any;
-      try {
-        extractedData = JSON.parse(responseText);
-      } catch (parseError) {
-        console.error("Initial JSON parse failed, attempting repair...");
-        try {
-          const repairedJson = jsonrepair(responseText);
-          extractedData = JSON.parse(repairedJson);
-        } catch (repairError) {
-          console.error("JSON repair failed:", repairError);
-          return {
-            success: false,
-            error: "Failed to parse AI response as valid JSON",
-          };
-        }
-      }
-
       // Validate against schema
       const validatedData = aiExtractedBlueprintSchema.parse(extractedData);
 
@@ -226,7 +122,7 @@ export const processBlueprint = withPermission("certifications.update")(
       await prisma.certification.update({
         where: { id: validated.certificationId },
         data: {
-          blueprint: extractedData,
+          blueprint: extractedData as Prisma.InputJsonValue,
         },
       });
 
@@ -319,10 +215,10 @@ export const processBlueprint = withPermission("certifications.update")(
     } catch (error) {
       console.error("Error processing blueprint:", error);
 
-      if (error instanceof Anthropic.APIError) {
+      if (error instanceof AIServiceError) {
         return {
           success: false,
-          error: `Anthropic API Error: ${error.message}`,
+          error: error.message,
         };
       }
 
@@ -1,4 +1,19 @@
 import { z } from "zod";
+import { AI_TASK_TYPES } from "@/lib/ai/types";
+
+// Gateway tasks routed to a model (deduplicated)
+const taskTypesSchema = z
+  .array(z.enum(AI_TASK_TYPES))
+  .transform((tasks) => Array.from(new Set(tasks)));
+
+// Price override in USD; null uses the built-in price for the model ID
+const priceSchema = z.number().nonnegative("Price can't be negative").nullable().optional();
+
+const pricingFields = {
+  inputPricePerMTok: priceSchema,
+  outputPricePerMTok: priceSchema,
+  audioPricePerMinute: priceSchema,
+};
 
 /**
  * Zod schema for creating an AI model
@@ -8,6 +23,8 @@ export const createAIModelSchema = z.object({
   modelId: z.string().min(1, "Model ID is required").trim(),
   provider: z.string().min(1, "Provider is required").trim(),
   description: z.string().optional(),
+  taskTypes: taskTypesSchema.default([]),
+  ...pricingFields,
   isActive: z.boolean().default(true),
 });
 
@@ -20,6 +37,8 @@ export const updateAIModelSchema = z.object({
   modelId: z.string().min(1, "Model ID is required").trim().optional(),
   provider: z.string().min(1, "Provider is required").trim().optional(),
   description: z.string().optional(),
+  taskTypes: taskTypesSchema.optional(),
+  ...pricingFields,
   isActive: z.boolean().optional(),
 });
 
@@ -53,6 +72,10 @@ export interface AIModelResponse {
     modelId: string;
     provider: string;
     description: string | null;
+    taskTypes: string[];
+    inputPricePerMTok: number | null;
+    outputPricePerMTok: number | null;
+    audioPricePerMinute: number | null;
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
@@ -68,6 +91,10 @@ export interface AIModelListResponse {
     modelId: string;
     provider: string;
     description: string | null;
+    taskTypes: string[];
+    inputPricePerMTok: number | null;
+    outputPricePerMTok: number | null;
+    audioPricePerMinute: number | null;
     isActive: boolean;
     createdAt: Date;
     updatedAt: Date;
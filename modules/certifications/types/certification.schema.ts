@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { scoringCurveSchema } from "./scoring.schema";
 
 /**
  * Zod schema for creating a certification
@@ -13,6 +14,7 @@ export const createCertificationSchema = z.object({
   isScoredExam: z.boolean().default(true),
   passingScore: z.number().int().positive().nullable().optional(),
   maxScore: z.number().int().positive().nullable().optional(),
+  scoringCurve: scoringCurveSchema.nullable().optional(), // Raw -> scaled curve (null = default)
 
   // Study duration
   defaultStudyDuration: z.number().int().positive().default(45),
@@ -59,6 +61,7 @@ export const updateCertificationSchema = z.object({
   isScoredExam: z.boolean(),
   passingScore: z.number().int().positive().nullable().optional(),
   maxScore: z.number().int().positive().nullable().optional(),
+  scoringCurve: scoringCurveSchema.nullable().optional(), // Raw -> scaled curve (null = default)
 
   // Study duration
   defaultStudyDuration: z.number().int().positive(),
@@ -132,6 +135,7 @@ export interface CertificationResponse {
     isScoredExam: boolean;
     passingScore: number | null;
     maxScore: number | null;
+    scoringCurve: unknown;
     defaultStudyDuration: number;
     isActive: boolean;
     isArchived: boolean;
@@ -155,6 +159,7 @@ export interface CertificationListResponse {
     isScoredExam: boolean;
     passingScore: number | null;
     maxScore: number | null;
+    scoringCurve: unknown;
     defaultStudyDuration: number;
     isActive: boolean;
     isArchived: boolean;
@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+/**
+ * Raw-to-scaled score conversion curves (stored in Certification.scoringCurve)
+ *
+ * - linear:    straight line from minScore (0% raw) to maxScore (100% raw)
+ * - anchored:  two line segments that meet at (passingRawPercent, passingScore),
+ *              e.g. CompTIA-style 100-900 scale where ~75% raw maps to 750
+ * - piecewise: explicit raw% -> scaled anchor points, interpolated between
+ *
+ * Pass/Fail certifications (isScoredExam = false) only use passingRawPercent.
+ */
+
+const scorePointSchema = z.object({
+  raw: z.number().min(0).max(100),
+  scaled: z.number().int().nonnegative(),
+});
+
+export const linearCurveSchema = z.object({
+  type: z.literal("linear"),
+  minScore: z.number().int().nonnegative().default(0),
+});
+
+export const anchoredCurveSchema = z.object({
+  type: z.literal("anchored"),
+  minScore: z.number().int().nonnegative().default(0),
+  passingRawPercent: z.number().gt(0).lt(100),
+});
+
+export const piecewiseCurveSchema = z.object({
+  type: z.literal("piecewise"),
+  points: z
+    .array(scorePointSchema)
+    .min(2, "At least two points are required")
+    .refine(
+      (points) => {
+        const sorted = [...points].sort((a, b) => a.raw - b.raw);
+        return sorted.every(
+          (p, i) => i === 0 || (p.raw > sorted[i - 1].raw && p.scaled >= sorted[i - 1].scaled)
+        );
+      },
+      { message: "Points must have unique raw values and never decrease" }
+    ),
+});
+
+export const scoringCurveSchema = z.discriminatedUnion("type", [
+  linearCurveSchema,
+  anchoredCurveSchema,
+  piecewiseCurveSchema,
+]);
+
+export type ScoringCurve = z.infer<typeof scoringCurveSchema>;
+export type ScoringCurveType = ScoringCurve["type"];
+export type ScorePoint = z.infer<typeof scorePointSchema>;
+
+/**
+ * Used when a certification has no curve configured
+ */
+export const DEFAULT_PASSING_RAW_PERCENT = 75;
+
+export const DEFAULT_SCORING_CURVE: ScoringCurve = {
+  type: "anchored",
+  minScore: 0,
+  passingRawPercent: DEFAULT_PASSING_RAW_PERCENT,
+};
+
+/**
+ * Certification fields the scoring module needs
+ */
+export interface ScoringConfig {
+  isScoredExam: boolean;
+  passingScore: number | null;
+  maxScore: number | null;
+  scoringCurve?: unknown; // Raw JSON from the database - validated on read
+}
+
+/**
+ * Result of converting a raw percentage (stored with graded practice exams)
+ */
+export const scaledScoreResultSchema = z.object({
+  isScored: z.boolean(),
+  rawPercent: z.number(), // 0-100
+  scaledScore: z.number().nullable(), // null for Pass/Fail certifications
+  minScore: z.number().nullable(),
+  passingScore: z.number().nullable(),
+  maxScore: z.number().nullable(),
+  passingRawPercent: z.number(), // Raw % needed to pass under this curve
+  passed: z.boolean(),
+});
+
+export type ScaledScoreResult = z.infer<typeof scaledScoreResultSchema>;
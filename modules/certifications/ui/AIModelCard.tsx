@@ -5,6 +5,9 @@ import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Pencil } from "lucide-react";
+import { AI_TASK_LABELS, type AITaskType } from "@/lib/ai/types";
 import { useToggleAIModelActive } from "../hooks/useToggleAIModelActive";
 
 type AIModel = {
@@ -13,14 +16,16 @@ type AIModel = {
   modelId: string;
   provider: string;
   description: string | null;
+  taskTypes: string[];
   isActive: boolean;
 };
 
 interface AIModelCardProps {
   model: AIModel;
+  onEdit: () => void;
 }
 
-export function AIModelCard({ model }: AIModelCardProps) {
+export function AIModelCard({ model, onEdit }: AIModelCardProps) {
   const toggleActive = useToggleAIModelActive();
 
   const handleToggle = async () => {
@@ -51,9 +56,14 @@ export function AIModelCard({ model }: AIModelCardProps) {
       <CardHeader className="space-y-2 pb-3">
         <div className="flex items-start justify-between gap-2">
           <h3 className="font-semibold text-lg leading-tight">{model.name}</h3>
-          <Badge className={getProviderBadgeColor(model.provider)}>
-            {model.provider}
-          </Badge>
+          <div className="flex items-center gap-1">
+            <Badge className={getProviderBadgeColor(model.provider)}>
+              {model.provider}
+            </Badge>
+            <Button variant="ghost" size="sm" onClick={onEdit}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -66,6 +76,22 @@ export function AIModelCard({ model }: AIModelCardProps) {
           </p>
         </div>
 
+        {/* Tasks */}
+        <div>
+          <p className="text-xs text-muted-foreground mb-1">Used for</p>
+          {model.taskTypes.length > 0 ? (
+            <div className="flex flex-wrap gap-1">
+              {model.taskTypes.map((task) => (
+                <Badge key={task} variant="outline" className="text-xs">
+                  {AI_TASK_LABELS[task as AITaskType] ?? task}
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No assigned tasks</p>
+          )}
+        </div>
+
         {/* Description */}
         {model.description && (
           <div>
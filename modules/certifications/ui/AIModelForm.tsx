@@ -19,6 +19,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { useCreateAIModel } from "../hooks/useCreateAIModel";
 import { useUpdateAIModel } from "../hooks/useUpdateAIModel";
 import { createAIModelSchema, updateAIModelSchema } from "../types/aiModel.schema";
+import { AI_TASK_LABELS, AI_TASK_TYPES, type AITaskType } from "@/lib/ai/types";
 
 interface AIModelFormProps {
   open: boolean;
@@ -29,10 +30,29 @@ interface AIModelFormProps {
     modelId: string;
     provider: string;
     description: string | null;
+    taskTypes: string[];
+    inputPricePerMTok: number | null;
+    outputPricePerMTok: number | null;
+    audioPricePerMinute: number | null;
     isActive: boolean;
   };
 }
 
+const EMPTY_MODEL = {
+  name: "",
+  modelId: "",
+  provider: "anthropic",
+  description: "",
+  taskTypes: [],
+  inputPricePerMTok: null,
+  outputPricePerMTok: null,
+  audioPricePerMinute: null,
+  isActive: true,
+};
+
+// Blank price inputs mean "use the built-in price"
+const priceValue = (value: unknown) => (value === "" || value === null ? null : Number(value));
+
 export function AIModelForm({
   open,
   onOpenChange,
@@ -51,20 +71,22 @@ export function AIModelForm({
     formState: { errors, isSubmitting },
   } = useForm<any>({
     resolver: isEditing ? zodResolver(updateAIModelSchema) : zodResolver(createAIModelSchema),
-    defaultValues: aiModel || {
-      name: "",
-      modelId: "",
-      provider: "anthropic",
-      description: "",
-      isActive: true,
-    },
+    defaultValues: aiModel || EMPTY_MODEL,
   });
 
+  const taskTypes: AITaskType[] = watch("taskTypes") ?? [];
+  const toggleTask = (task: AITaskType, checked: boolean) => {
+    setValue(
+      "taskTypes",
+      checked ? [...taskTypes, task] : taskTypes.filter((current) => current !== task)
+    );
+  };
+
   React.useEffect(() => {
-    if (aiModel) {
-      reset(aiModel);
+    if (open) {
+      reset(aiModel || EMPTY_MODEL);
     }
-  }, [aiModel, reset]);
+  }, [open, aiModel, reset]);
 
   const onSubmit = async (data: any) => {
     if (isEditing) {
@@ -90,7 +112,7 @@ export function AIModelForm({
           <DialogDescription>
             {isEditing
               ? "Update the AI model configuration."
-              : "Add a new AI model for blueprint extraction."}
+              : "Add a new AI model and choose which AI tasks it handles."}
           </DialogDescription>
         </DialogHeader>
 
@@ -157,6 +179,81 @@ export function AIModelForm({
             )}
           </div>
 
+          {/* Tasks */}
+          <div className="space-y-2">
+            <Label>Use for</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {AI_TASK_TYPES.map((task) => (
+                <div key={task} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`task-${task}`}
+                    checked={taskTypes.includes(task)}
+                    onCheckedChange={(checked) => toggleTask(task, checked === true)}
+                  />
+                  <Label htmlFor={`task-${task}`} className="cursor-pointer font-normal">
+                    {AI_TASK_LABELS[task]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Tasks without an assigned model use the newest active model from their default
+              provider.
+            </p>
+          </div>
+
+          {/* Pricing */}
+          <div className="space-y-2">
+            <Label>Pricing (USD)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="inputPricePerMTok" className="text-xs font-normal">
+                  Input / 1M tokens
+                </Label>
+                <Input
+                  id="inputPricePerMTok"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Built-in"
+                  {...register("inputPricePerMTok", { setValueAs: priceValue })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="outputPricePerMTok" className="text-xs font-normal">
+                  Output / 1M tokens
+                </Label>
+                <Input
+                  id="outputPricePerMTok"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Built-in"
+                  {...register("outputPricePerMTok", { setValueAs: priceValue })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="audioPricePerMinute" className="text-xs font-normal">
+                  Audio / minute
+                </Label>
+                <Input
+                  id="audioPricePerMinute"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Built-in"
+                  {...register("audioPricePerMinute", { setValueAs: priceValue })}
+                />
+              </div>
+            </div>
+            {(errors.inputPricePerMTok || errors.outputPricePerMTok || errors.audioPricePerMinute) && (
+              <p className="text-sm text-destructive">Prices must be zero or more</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Used to cost AI usage. Leave blank to use the list price for this model ID.
+            </p>
+          </div>
+
           {/* Active Status */}
           <div className="flex items-center space-x-2">
             <Checkbox
@@ -35,6 +35,7 @@ import { useArchiveCertification } from "../hooks/useArchiveCertification";
 import { createCertificationSchema, updateCertificationSchema } from "../types/certification.schema";
 import { getDomains } from "../serverActions/domain.action";
 import { exportBlueprintAsCSV, exportBlueprintAsJSON } from "../lib/exportBlueprint";
+import { ScoringCurveEditor } from "./ScoringCurveEditor";
 import { toast } from "sonner";
 
 interface CertificationFormProps {
@@ -49,6 +50,7 @@ interface CertificationFormProps {
     isScoredExam: boolean;
     passingScore: number | null;
     maxScore: number | null;
+    scoringCurve?: unknown;
     defaultStudyDuration: number;
     isActive: boolean;
     _count?: {
@@ -108,6 +110,7 @@ export function CertificationForm({
       isScoredExam: true,
       passingScore: null,
       maxScore: null,
+      scoringCurve: null,
       defaultStudyDuration: 45,
       isActive: true,
     },
@@ -451,6 +454,19 @@ export function CertificationForm({
             </div>
           )}
 
+          {/* Raw -> Scaled Conversion */}
+          <ScoringCurveEditor
+            value={watch("scoringCurve")}
+            onChange={(curve) => setValue("scoringCurve", curve, { shouldDirty: true })}
+            isScoredExam={isScoredExam}
+            passingScore={watch("passingScore")}
+            maxScore={watch("maxScore")}
+            disabled={!isEditMode}
+          />
+          {errors.scoringCurve && (
+            <p className="text-sm text-destructive">Scoring curve is invalid</p>
+          )}
+
           {/* Default Study Duration */}
           <div className="space-y-3">
             <Label>
@@ -0,0 +1,52 @@
+"use client";
+
+/**
+ * ScaledScoreDisplay Component
+ *
+ * Shows an exam result on the certification's scale ("812 / 900") or as
+ * Pass/Fail for unscored certifications.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatScaledScore } from "../lib/scaledScore";
+import type { ScaledScoreResult } from "../types/scoring.schema";
+
+interface ScaledScoreDisplayProps {
+  result: ScaledScoreResult;
+  variant?: "inline" | "large";
+  className?: string;
+}
+
+export function ScaledScoreDisplay({ result, variant = "inline", className }: ScaledScoreDisplayProps) {
+  const passBadge = (
+    <Badge variant={result.passed ? "default" : "destructive"}>{result.passed ? "Pass" : "Fail"}</Badge>
+  );
+
+  if (variant === "large") {
+    return (
+      <div className={cn("space-y-1", className)}>
+        <p
+          className={cn(
+            "text-3xl font-bold",
+            result.passed ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"
+          )}
+        >
+          {formatScaledScore(result)}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          {result.isScored
+            ? `Passing score ${result.passingScore}`
+            : `Pass mark ${result.passingRawPercent}% raw`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <span className={cn("inline-flex items-center gap-2", className)}>
+      {result.isScored && <span className="font-medium">{formatScaledScore(result)}</span>}
+      {passBadge}
+    </span>
+  );
+}
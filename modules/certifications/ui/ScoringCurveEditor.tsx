@@ -0,0 +1,214 @@
+"use client";
+
+/**
+ * ScoringCurveEditor Component
+ *
+ * Configures how raw practice-exam percentages convert to the certification's
+ * scaled score, with a live preview of a few sample conversions.
+ */
+
+import * as React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatScaledScore, toScaledScore } from "../lib/scaledScore";
+import {
+  DEFAULT_PASSING_RAW_PERCENT,
+  scoringCurveSchema,
+  type ScoringCurve,
+  type ScoringCurveType,
+} from "../types/scoring.schema";
+
+interface ScoringCurveEditorProps {
+  value: ScoringCurve | null | undefined;
+  onChange: (curve: ScoringCurve | null) => void;
+  isScoredExam: boolean;
+  passingScore: number | null | undefined;
+  maxScore: number | null | undefined;
+  disabled?: boolean;
+}
+
+const CURVE_LABELS: Record<ScoringCurveType | "default", string> = {
+  default: "Default (75% raw to pass)",
+  linear: "Linear",
+  anchored: "Anchored at pass mark",
+  piecewise: "Custom points",
+};
+
+const PREVIEW_RAW_PERCENTS = [50, 65, 75, 85, 100];
+
+function pointsToText(curve: ScoringCurve | null | undefined): string {
+  if (curve?.type !== "piecewise") return "0,100\n75,750\n100,900";
+  return curve.points.map((p) => `${p.raw},${p.scaled}`).join("\n");
+}
+
+function parsePoints(text: string) {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [raw, scaled] = line.split(/[,:\s]+/).map(Number);
+      return { raw, scaled };
+    });
+}
+
+export function ScoringCurveEditor({
+  value,
+  onChange,
+  isScoredExam,
+  passingScore,
+  maxScore,
+  disabled,
+}: ScoringCurveEditorProps) {
+  const [pointsText, setPointsText] = React.useState(() => pointsToText(value));
+  const [pointsError, setPointsError] = React.useState<string | null>(null);
+  const curveType: ScoringCurveType | "default" = value?.type ?? "default";
+
+  const handlePointsChange = (text: string) => {
+    setPointsText(text);
+    const parsed = scoringCurveSchema.safeParse({ type: "piecewise", points: parsePoints(text) });
+    if (parsed.success) {
+      setPointsError(null);
+      onChange(parsed.data);
+    } else {
+      setPointsError(parsed.error.issues[0]?.message ?? "Invalid points");
+    }
+  };
+
+  const handleTypeChange = (type: string) => {
+    setPointsError(null);
+    switch (type) {
+      case "linear":
+        onChange({ type: "linear", minScore: value && "minScore" in value ? value.minScore : 0 });
+        break;
+      case "anchored":
+        onChange({
+          type: "anchored",
+          minScore: value && "minScore" in value ? value.minScore : 0,
+          passingRawPercent: DEFAULT_PASSING_RAW_PERCENT,
+        });
+        break;
+      case "piecewise":
+        handlePointsChange(pointsText);
+        break;
+      default:
+        onChange(null);
+    }
+  };
+
+  // Pass/Fail certifications only need a raw pass mark
+  if (!isScoredExam) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="passingRawPercent">Pass Mark (raw %)</Label>
+        <Input
+          id="passingRawPercent"
+          type="number"
+          min={1}
+          max={99}
+          disabled={disabled}
+          value={value?.type === "anchored" ? value.passingRawPercent : DEFAULT_PASSING_RAW_PERCENT}
+          onChange={(e) =>
+            onChange({ type: "anchored", minScore: 0, passingRawPercent: Number(e.target.value) })
+          }
+        />
+        <p className="text-xs text-muted-foreground">
+          Practice exams at or above this percentage count as a pass
+        </p>
+      </div>
+    );
+  }
+
+  const canPreview = !!passingScore && !!maxScore;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <div className="space-y-2">
+        <Label>Scaled Score Curve</Label>
+        <Select value={curveType} onValueChange={handleTypeChange} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(CURVE_LABELS).map(([type, label]) => (
+              <SelectItem key={type} value={type}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {(value?.type === "linear" || value?.type === "anchored") && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="curveMinScore">Lowest Score</Label>
+            <Input
+              id="curveMinScore"
+              type="number"
+              min={0}
+              disabled={disabled}
+              value={value.minScore}
+              onChange={(e) => onChange({ ...value, minScore: Number(e.target.value) })}
+            />
+          </div>
+          {value.type === "anchored" && (
+            <div className="space-y-2">
+              <Label htmlFor="curvePassingRaw">Raw % at Passing Score</Label>
+              <Input
+                id="curvePassingRaw"
+                type="number"
+                min={1}
+                max={99}
+                disabled={disabled}
+                value={value.passingRawPercent}
+                onChange={(e) => onChange({ ...value, passingRawPercent: Number(e.target.value) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {value?.type === "piecewise" && (
+        <div className="space-y-2">
+          <Label htmlFor="curvePoints">Points (raw %, scaled score - one per line)</Label>
+          <Textarea
+            id="curvePoints"
+            rows={4}
+            className="font-mono text-sm"
+            disabled={disabled}
+            value={pointsText}
+            onChange={(e) => handlePointsChange(e.target.value)}
+          />
+          {pointsError && <p className="text-sm text-destructive">{pointsError}</p>}
+        </div>
+      )}
+
+      {canPreview && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {PREVIEW_RAW_PERCENTS.map((raw) => {
+            const result = toScaledScore(raw, {
+              isScoredExam,
+              passingScore: passingScore ?? null,
+              maxScore: maxScore ?? null,
+              scoringCurve: value,
+            });
+            return (
+              <span key={raw} className={result.passed ? "text-green-600 dark:text-green-400" : undefined}>
+                {raw}% &rarr; {formatScaledScore(result)}
+              </span>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   getDocument,
   updateDocument,
   deleteDocument,
+  getDocumentVersions,
+  compareDocumentVersions,
 } from "../serverActions/document.action";
 import type {
   GetDocumentsInput,
@@ -54,6 +56,53 @@ export function useDocument(documentId: string) {
   });
 }
 
+/**
+ * Get every version of a document, newest first
+ */
+export function useDocumentVersions(documentId: string, enabled = true) {
+  return useQuery({
+    queryKey: ["documentVersions", documentId],
+    queryFn: async () => {
+      const result = await getDocumentVersions({ id: documentId });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch document versions");
+      }
+
+      return result.data;
+    },
+    enabled: !!documentId && enabled,
+  });
+}
+
+/**
+ * Compare the extracted text of two versions of a document
+ */
+export function useCompareDocumentVersions(
+  documentId: string,
+  fromVersion: number | null,
+  toVersion: number | null
+) {
+  return useQuery({
+    queryKey: ["documentVersionCompare", documentId, fromVersion, toVersion],
+    queryFn: async () => {
+      const result = await compareDocumentVersions({
+        documentId,
+        fromVersion: fromVersion!,
+        toVersion: toVersion!,
+      });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to compare versions");
+      }
+
+      return result.data;
+    },
+    enabled: !!documentId && fromVersion !== null && toVersion !== null && fromVersion !== toVersion,
+    staleTime: Infinity, // Versions never change once uploaded
+  });
+}
+
 /**
  * Update document metadata
  */
@@ -74,6 +123,10 @@ export function useUpdateDocument() {
       toast.success("Document updated successfully");
       queryClient.invalidateQueries({ queryKey: ["documents"] });
       queryClient.invalidateQueries({ queryKey: ["document", variables.id] });
+      if (variables.certificationIds) {
+        queryClient.invalidateQueries({ queryKey: ["contentLibrary"] });
+        queryClient.invalidateQueries({ queryKey: ["contentStats"] });
+      }
     },
     onError: (error: Error) => {
       toast.error(error.message || "Failed to update document");
@@ -1,10 +1,16 @@
 /**
- * Client hook for searching content (objectives, bullets, sub-bullets)
+ * Client hooks for searching content: objectives, bullets and sub-bullets by
+ * wording for manual mapping, and the content library by meaning
  */
 
 import { useQuery } from "@tanstack/react-query";
 import { searchContent } from "../serverActions/mapping.action";
+import { searchContentByMeaning } from "../serverActions/contentLibrary.action";
 import type { ContentSearchResult } from "../types/mapping.types";
+import type {
+  SemanticSearchInput,
+  SemanticSearchResult,
+} from "../types/contentLibrary.types";
 
 /**
  * Search objectives, bullets, and sub-bullets for manual mapping
@@ -25,3 +31,24 @@ export function useSearchContent(query: string, certificationId: string) {
     staleTime: 30000, // Cache results for 30 seconds
   });
 }
+
+/**
+ * Search videos, documents and questions by meaning
+ * Returns matching video moments, document pages and related questions
+ */
+export function useSearchByMeaning(input: SemanticSearchInput) {
+  return useQuery<SemanticSearchResult>({
+    queryKey: ["searchByMeaning", input],
+    queryFn: async () => {
+      const result = await searchContentByMeaning(input);
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to search content");
+      }
+
+      return result.data;
+    },
+    enabled: input.query.trim().length >= 3, // Too short to carry meaning
+    staleTime: 5 * 60 * 1000, // Each search embeds the query, so reuse results for 5 minutes
+  });
+}
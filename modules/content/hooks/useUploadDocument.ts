@@ -8,8 +8,10 @@ import {
   generateDocumentUploadUrl,
   createDocument,
   generateAIDescriptionForDocument,
+  indexDocumentForSearch,
+  replaceDocumentFile,
 } from "../serverActions/document.action";
-import type { CreateDocumentInput } from "../types/document.types";
+import type { CreateDocumentInput, ReplaceDocumentFileInput } from "../types/document.types";
 import { toast } from "sonner";
 
 /**
@@ -25,7 +27,6 @@ export function useUploadDocument() {
       title: string;
       description?: string;
       type: "pdf" | "docx" | "txt";
-      version?: number;
       allowDownload?: boolean;
       generateAIDescription?: boolean;
     }) => {
@@ -56,7 +57,6 @@ export function useUploadDocument() {
         type: input.type,
         fileSize: input.file.size,
         mimeType: input.file.type as "application/pdf" | "application/vnd.openxmlformats-officedocument.wordprocessingml.document" | "text/plain",
-        version: input.version || 1,
         allowDownload: input.allowDownload ?? true,
       };
 
@@ -83,6 +83,12 @@ export function useUploadDocument() {
         }
       }
 
+      // Step 5: Index for search by meaning (a failure leaves it findable by keyword)
+      const indexResult = await indexDocumentForSearch(document.id);
+      if (!indexResult.success) {
+        console.error("[Upload] Search indexing failed:", indexResult.error);
+      }
+
       return document;
     },
     onSuccess: () => {
@@ -97,6 +103,73 @@ export function useUploadDocument() {
   });
 }
 
+/**
+ * Upload a new version of a document's file. Earlier versions are kept and
+ * mappings carry forward.
+ */
+export function useUploadDocumentVersion() {
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: async (input: {
+      documentId: string;
+      file: File;
+      type: "pdf" | "docx" | "txt";
+      changeNote?: string;
+      remapIfChanged?: boolean;
+    }) => {
+      // Step 1: Generate presigned URL
+      const urlResult = await generateDocumentUploadUrl(input.file.name, input.file.type);
+
+      if (!urlResult.success || !urlResult.data) {
+        throw new Error(urlResult.error || "Failed to generate upload URL");
+      }
+
+      const { uploadUrl, s3Key, publicUrl } = urlResult.data;
+
+      // Step 2: Upload to S3 with progress tracking
+      setUploadProgress(0);
+      await uploadToS3(uploadUrl, input.file, setUploadProgress);
+
+      // Step 3: Record the new version
+      const result = await replaceDocumentFile({
+        documentId: input.documentId,
+        s3Key,
+        url: publicUrl,
+        type: input.type,
+        fileSize: input.file.size,
+        mimeType: input.file.type as ReplaceDocumentFileInput["mimeType"],
+        changeNote: input.changeNote,
+        remapIfChanged: input.remapIfChanged,
+      });
+
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to save new version");
+      }
+
+      return result.data;
+    },
+    onSuccess: (data, variables) => {
+      toast.success(
+        data.remappedCount
+          ? `Version ${data.version} uploaded; ${data.remappedCount} new AI mapping suggestion${data.remappedCount !== 1 ? "s" : ""} added`
+          : `Version ${data.version} uploaded`
+      );
+      queryClient.invalidateQueries({ queryKey: ["documents"] });
+      queryClient.invalidateQueries({ queryKey: ["document", variables.documentId] });
+      queryClient.invalidateQueries({ queryKey: ["documentVersions", variables.documentId] });
+      setUploadProgress(0);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || "Failed to upload new version");
+      setUploadProgress(0);
+    },
+  });
+
+  return { ...mutation, uploadProgress };
+}
+
 /**
  * Upload file to S3 using presigned URL
  */
@@ -0,0 +1,82 @@
+import {
+  chunkCaptionCues,
+  chunkPages,
+  chunkPlainText,
+  parseVttCues,
+  parseVttTimestamp,
+} from '../contentChunking'
+
+const VTT = `WEBVTT
+
+1
+00:00:01.000 --> 00:00:04.500
+Kerberos issues <v Speaker>tickets</v>
+
+2
+00:00:04.500 --> 00:00:09.250 align:start
+from the key distribution center.
+
+00:01:02.000 --> 00:01:05.000
+
+3
+01:00:00.000 --> 01:00:02.750
+The end.
+`
+
+describe('parseVttCues', () => {
+  it('reads timings and text, stripping cue tags and settings', () => {
+    expect(parseVttCues(VTT)).toEqual([
+      { startSeconds: 1, endSeconds: 4.5, text: 'Kerberos issues tickets' },
+      { startSeconds: 4.5, endSeconds: 9.25, text: 'from the key distribution center.' },
+      { startSeconds: 3600, endSeconds: 3602.75, text: 'The end.' },
+    ])
+  })
+
+  it('parses timestamps with and without hours', () => {
+    expect(parseVttTimestamp('01:02:03.500')).toBe(3723.5)
+    expect(parseVttTimestamp('02:03.250')).toBe(123.25)
+    expect(parseVttTimestamp('nonsense')).toBeNull()
+  })
+})
+
+describe('chunkCaptionCues', () => {
+  it('groups cues up to the target length and spans their times', () => {
+    const chunks = chunkCaptionCues(parseVttCues(VTT), 6)
+
+    expect(chunks).toEqual([
+      {
+        text: 'Kerberos issues tickets from the key distribution center.',
+        startSeconds: 1,
+        endSeconds: 10,
+      },
+      { text: 'The end.', startSeconds: 3600, endSeconds: 3603 },
+    ])
+  })
+})
+
+describe('chunkPlainText', () => {
+  it('breaks between sentences once the target is reached', () => {
+    expect(chunkPlainText('One two three. Four five.  Six seven eight nine.', 5)).toEqual([
+      { text: 'One two three. Four five.' },
+      { text: 'Six seven eight nine.' },
+    ])
+  })
+
+  it('cuts run-on text by length', () => {
+    const chunks = chunkPlainText('a b c d e f g', 3)
+    expect(chunks.map((chunk) => chunk.text)).toEqual(['a b c', 'd e f', 'g'])
+  })
+
+  it('returns nothing for blank text', () => {
+    expect(chunkPlainText('   ')).toEqual([])
+  })
+})
+
+describe('chunkPages', () => {
+  it('numbers chunks by page and skips empty pages', () => {
+    expect(chunkPages(['First page.', '', 'Third page.'])).toEqual([
+      { text: 'First page.', pageNumber: 1 },
+      { text: 'Third page.', pageNumber: 3 },
+    ])
+  })
+})
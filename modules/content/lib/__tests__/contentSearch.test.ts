@@ -0,0 +1,46 @@
+/** @jest-environment node */
+import { decodeSearchCursor, encodeSearchCursor, parseHeadline } from '../contentSearch'
+
+describe('content search cursors', () => {
+  it('round-trips a cursor for the same sort', () => {
+    const cursor = { sort: 'createdAt' as const, value: '2025-01-02T03:04:05.000Z', id: 'vid-1' }
+    expect(decodeSearchCursor(encodeSearchCursor(cursor), 'createdAt')).toEqual(cursor)
+
+    const ranked = { sort: 'relevance' as const, value: 0.4, id: 'doc-1' }
+    expect(decodeSearchCursor(encodeSearchCursor(ranked), 'relevance')).toEqual(ranked)
+  })
+
+  it('rejects a cursor made for another sort', () => {
+    const encoded = encodeSearchCursor({ sort: 'title', value: 'intro', id: 'vid-1' })
+    expect(decodeSearchCursor(encoded, 'createdAt')).toBeNull()
+  })
+
+  it('rejects malformed cursors', () => {
+    expect(decodeSearchCursor('not-a-cursor', 'createdAt')).toBeNull()
+    expect(decodeSearchCursor(Buffer.from('["createdAt",null,"x"]').toString('base64url'), 'createdAt')).toBeNull()
+    expect(decodeSearchCursor(Buffer.from('{"sort":"createdAt"}').toString('base64url'), 'createdAt')).toBeNull()
+  })
+})
+
+describe('parseHeadline', () => {
+  it('splits a headline into plain and highlighted segments', () => {
+    expect(parseHeadline('Configure ⟦firewall⟧ rules and ⟦ports⟧')).toEqual([
+      { text: 'Configure ', highlighted: false },
+      { text: 'firewall', highlighted: true },
+      { text: ' rules and ', highlighted: false },
+      { text: 'ports', highlighted: true },
+    ])
+  })
+
+  it('highlights to the end when a marker is left open', () => {
+    expect(parseHeadline('open ⟦ended')).toEqual([
+      { text: 'open ', highlighted: false },
+      { text: 'ended', highlighted: true },
+    ])
+  })
+
+  it('returns nothing for an empty headline', () => {
+    expect(parseHeadline(null)).toEqual([])
+    expect(parseHeadline('')).toEqual([])
+  })
+})
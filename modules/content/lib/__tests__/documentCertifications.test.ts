@@ -0,0 +1,29 @@
+import { mergeDocumentCertifications } from '../documentCertifications'
+
+const cert = (id: string, code: string) => ({ id, code, name: `${code} name` })
+
+describe('mergeDocumentCertifications', () => {
+  it('lists direct assignments first, each group sorted by code', () => {
+    const merged = mergeDocumentCertifications(
+      [cert('c3', 'SY0-701'), cert('c1', 'N10-009')],
+      [cert('c4', 'PT0-003'), cert('c2', 'CS0-003')]
+    )
+
+    expect(merged.map((c) => [c.code, c.source])).toEqual([
+      ['N10-009', 'direct'],
+      ['SY0-701', 'direct'],
+      ['CS0-003', 'derived'],
+      ['PT0-003', 'derived'],
+    ])
+  })
+
+  it('counts a certification that is both assigned and mapped as direct, once', () => {
+    const merged = mergeDocumentCertifications([cert('c1', 'SY0-701')], [cert('c1', 'SY0-701'), cert('c1', 'SY0-701')])
+
+    expect(merged).toEqual([{ id: 'c1', code: 'SY0-701', name: 'SY0-701 name', source: 'direct' }])
+  })
+
+  it('returns nothing for a document in no certification', () => {
+    expect(mergeDocumentCertifications([], [])).toEqual([])
+  })
+})
@@ -0,0 +1,51 @@
+import { collapseUnchanged, diffTextLines, textChangeRatio } from '../documentVersions'
+
+describe('diffTextLines', () => {
+  it('marks removed and added lines around the unchanged ones', () => {
+    const lines = diffTextLines('Intro\nOld firewall rules\nSummary', 'Intro\nNew firewall rules\nSummary\nAppendix')
+
+    expect(lines).toEqual([
+      { kind: 'same', text: 'Intro' },
+      { kind: 'removed', text: 'Old firewall rules' },
+      { kind: 'added', text: 'New firewall rules' },
+      { kind: 'same', text: 'Summary' },
+      { kind: 'added', text: 'Appendix' },
+    ])
+  })
+
+  it('ignores blank lines and surrounding whitespace', () => {
+    const lines = diffTextLines('  Kerberos\n\n\nTickets  ', 'Kerberos\r\nTickets')
+
+    expect(lines.every((line) => line.kind === 'same')).toBe(true)
+  })
+})
+
+describe('textChangeRatio', () => {
+  it('is 0 for identical text and 1 for nothing in common', () => {
+    expect(textChangeRatio(diffTextLines('a b\nc d', 'a b\nc d'))).toBe(0)
+    expect(textChangeRatio(diffTextLines('a b', 'c d'))).toBe(1)
+    expect(textChangeRatio([])).toBe(0)
+  })
+
+  it('weighs changes by words across both versions', () => {
+    // 4 unchanged words in each version, 2 removed and 2 added
+    const ratio = textChangeRatio(diffTextLines('one two three four\nold line', 'one two three four\nnew line'))
+
+    expect(ratio).toBeCloseTo(4 / 12)
+  })
+})
+
+describe('collapseUnchanged', () => {
+  it('keeps context around changes and skips the rest', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n')
+    const after = ['1', '2', '3', '4', '5', '6', '7', 'changed'].join('\n')
+
+    expect(collapseUnchanged(diffTextLines(before, after), 2)).toEqual([
+      { kind: 'skipped', count: 5 },
+      { kind: 'same', text: '6' },
+      { kind: 'same', text: '7' },
+      { kind: 'removed', text: '8' },
+      { kind: 'added', text: 'changed' },
+    ])
+  })
+})
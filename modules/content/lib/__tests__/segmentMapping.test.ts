@@ -0,0 +1,52 @@
+import { bestSegmentRange, formatTimeRange } from '../segmentMapping'
+
+const segment = (chunkIndex: number, similarity: number, timed = true) => ({
+  chunkIndex,
+  startSeconds: timed ? chunkIndex * 60 : null,
+  endSeconds: timed ? chunkIndex * 60 + 60 : null,
+  similarity,
+})
+
+describe('bestSegmentRange', () => {
+  it('widens the best segment to neighbours that also match', () => {
+    const range = bestSegmentRange(
+      [segment(4, 0.3), segment(2, 0.6), segment(0, 0.5), segment(3, 0.8), segment(1, 0.2)],
+      0.5
+    )
+
+    expect(range).toEqual({ similarity: 0.8, startSeconds: 120, endSeconds: 240 })
+  })
+
+  it('does not join segments across a gap in the transcript', () => {
+    const range = bestSegmentRange([segment(1, 0.9), segment(3, 0.7)], 0.5)
+
+    expect(range).toEqual({ similarity: 0.9, startSeconds: 60, endSeconds: 120 })
+  })
+
+  it('returns null when no segment reaches the threshold', () => {
+    expect(bestSegmentRange([segment(0, 0.3), segment(1, 0.49)], 0.5)).toBeNull()
+    expect(bestSegmentRange([], 0.5)).toBeNull()
+  })
+
+  it('has no times for untimed transcript segments', () => {
+    const range = bestSegmentRange([segment(0, 0.7, false)], 0.5)
+
+    expect(range).toEqual({ similarity: 0.7, startSeconds: null, endSeconds: null })
+  })
+})
+
+describe('formatTimeRange', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatTimeRange(750, 910)).toBe('12:30–15:10')
+    expect(formatTimeRange(5, 65)).toBe('0:05–1:05')
+  })
+
+  it('adds hours past an hour', () => {
+    expect(formatTimeRange(3723, 3840)).toBe('1:02:03–1:04:00')
+  })
+
+  it('handles missing times', () => {
+    expect(formatTimeRange(30, null)).toBe('0:30')
+    expect(formatTimeRange(null, null)).toBeNull()
+  })
+})
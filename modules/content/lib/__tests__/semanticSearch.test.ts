@@ -0,0 +1,81 @@
+import { groupChunkMatches, keepTopMatches } from '../semanticSearch'
+
+const match = (chunkId: string, similarity: number, videoId: string | null, documentId: string | null = null) => ({
+  chunkId,
+  videoId,
+  documentId,
+  similarity,
+})
+
+describe('keepTopMatches', () => {
+  it('keeps the best matches above the floor across batches', () => {
+    let top = keepTopMatches([], [match('c1', 0.5, 'v1'), match('c2', 0.1, 'v2'), match('c3', 0.7, 'v3')], 2, 3, 0.25)
+    top = keepTopMatches(top, [match('c4', 0.6, 'v4')], 2, 3, 0.25)
+
+    expect(top.map((item) => item.similarity)).toEqual([0.7, 0.6])
+  })
+
+  it('caps the matches kept for any one video or document', () => {
+    const top = keepTopMatches(
+      [],
+      [
+        match('c1', 0.9, 'v1'),
+        match('c2', 0.85, 'v1'),
+        match('c3', 0.8, 'v1'),
+        match('c4', 0.5, 'v2'),
+        match('c5', 0.4, null, 'd1'),
+      ],
+      3,
+      2,
+      0.25
+    )
+
+    expect(top.map((item) => item.chunkId)).toEqual(['c1', 'c2', 'c4'])
+  })
+})
+
+describe('groupChunkMatches', () => {
+  it('groups chunks under their video or document, best group first', () => {
+    const groups = groupChunkMatches([
+      match('c1', 0.4, 'v1'),
+      match('c2', 0.8, null, 'd1'),
+      match('c3', 0.6, 'v1'),
+      match('c4', 0.5, 'v2'),
+    ])
+
+    expect(groups).toEqual([
+      { contentType: 'document', contentId: 'd1', similarity: 0.8, chunkIds: ['c2'] },
+      { contentType: 'video', contentId: 'v1', similarity: 0.6, chunkIds: ['c3', 'c1'] },
+      { contentType: 'video', contentId: 'v2', similarity: 0.5, chunkIds: ['c4'] },
+    ])
+  })
+
+  it('caps chunks per group and the number of groups', () => {
+    const groups = groupChunkMatches(
+      [match('c1', 0.9, 'v1'), match('c2', 0.8, 'v1'), match('c3', 0.7, 'v2'), match('c4', 0.6, 'v3')],
+      1,
+      2
+    )
+
+    expect(groups.map((group) => [group.contentId, group.chunkIds])).toEqual([
+      ['v1', ['c1']],
+      ['v2', ['c3']],
+    ])
+  })
+
+  it('caps videos and documents separately', () => {
+    const groups = groupChunkMatches(
+      [
+        match('c1', 0.9, 'v1'),
+        match('c2', 0.8, 'v2'),
+        match('c3', 0.7, 'v3'),
+        match('c4', 0.4, null, 'd1'),
+        match('c5', 0.3, null, 'd2'),
+      ],
+      3,
+      2
+    )
+
+    expect(groups.map((group) => group.contentId)).toEqual(['v1', 'v2', 'd1', 'd2'])
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Content Chunking
+ *
+ * Splits video transcripts and document text into passages small enough to
+ * embed on their own, so search by meaning can point at the moment in a video
+ * or the page in a document that answers a query rather than the whole file.
+ * Video chunks follow caption cues so each keeps its start and end time.
+ */
+
+// Roughly a paragraph; long enough to carry meaning, short enough to pinpoint
+export const CHUNK_TARGET_WORDS = 180;
+
+export interface CaptionCue {
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+export interface ContentChunkDraft {
+  text: string;
+  startSeconds?: number;
+  endSeconds?: number;
+  pageNumber?: number;
+}
+
+function wordCount(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Seconds from a VTT timestamp ("01:02:03.500" or "02:03.500")
+ */
+export function parseVttTimestamp(timestamp: string): number | null {
+  const match = timestamp.trim().match(/^(?:(\d+):)?(\d{2}):(\d{2})[.,](\d{3})$/);
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, millis] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+/**
+ * Caption cues from a WebVTT file, with cue tags stripped. Cues without text
+ * or with unreadable timings are skipped.
+ */
+export function parseVttCues(vtt: string): CaptionCue[] {
+  const cues: CaptionCue[] = [];
+
+  for (const block of vtt.replace(/\r\n?/g, "\n").split(/\n{2,}/)) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => line.includes("-->"));
+    if (timingIndex === -1) continue;
+
+    const [start, rest] = lines[timingIndex].split("-->");
+    // Cue settings ("align:start" etc.) follow the end time
+    const startSeconds = parseVttTimestamp(start);
+    const endSeconds = parseVttTimestamp(rest.trim().split(/\s+/)[0] ?? "");
+    const text = lines
+      .slice(timingIndex + 1)
+      .join(" ")
+      .replace(/<[^>]+>/g, "")
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (startSeconds === null || endSeconds === null || !text) continue;
+    cues.push({ startSeconds, endSeconds, text });
+  }
+
+  return cues;
+}
+
+/**
+ * Group consecutive caption cues into chunks of about the target length,
+ * each spanning the time of the cues in it
+ */
+export function chunkCaptionCues(
+  cues: CaptionCue[],
+  targetWords = CHUNK_TARGET_WORDS
+): ContentChunkDraft[] {
+  const chunks: ContentChunkDraft[] = [];
+  let current: CaptionCue[] = [];
+  let words = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      text: current.map((cue) => cue.text).join(" "),
+      startSeconds: Math.floor(current[0].startSeconds),
+      endSeconds: Math.ceil(current[current.length - 1].endSeconds),
+    });
+    current = [];
+    words = 0;
+  };
+
+  for (const cue of cues) {
+    current.push(cue);
+    words += wordCount(cue.text);
+    if (words >= targetWords) flush();
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Split plain text into chunks of about the target length, breaking between
+ * sentences where possible
+ */
+export function chunkPlainText(text: string, targetWords = CHUNK_TARGET_WORDS): ContentChunkDraft[] {
+  const sentences = text
+    .replace(/\s+/g, " ")
+    .trim()
+    .split(/(?<=[.!?])\s+/)
+    .filter(Boolean);
+
+  const chunks: ContentChunkDraft[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) chunks.push({ text: current.join(" ") });
+    current = [];
+  };
+
+  for (const sentence of sentences) {
+    const sentenceWords = sentence.split(" ");
+
+    // A run-on "sentence" (tables, lists without punctuation) is cut by length
+    for (let i = 0; i < sentenceWords.length; i += targetWords) {
+      const piece = sentenceWords.slice(i, i + targetWords);
+      if (current.length + piece.length > targetWords) flush();
+      current.push(...piece);
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Chunk each page of a document separately so every chunk has one page number
+ */
+export function chunkPages(pages: string[], targetWords = CHUNK_TARGET_WORDS): ContentChunkDraft[] {
+  return pages.flatMap((page, index) =>
+    chunkPlainText(page, targetWords).map((chunk) => ({ ...chunk, pageNumber: index + 1 }))
+  );
+}
@@ -0,0 +1,91 @@
+/**
+ * Content Search Helpers
+ *
+ * Pure pieces of the content library search: the keyset cursor passed between
+ * pages and parsing of the highlighted snippets Postgres returns.
+ */
+
+import type { ContentSearchSort, SearchSnippetSegment } from "../types/contentLibrary.types";
+
+// Markers ts_headline wraps matches in; unlikely to appear in real text
+export const HIGHLIGHT_START = "⟦";
+export const HIGHLIGHT_STOP = "⟧";
+
+export const HEADLINE_OPTIONS = [
+  `StartSel=${HIGHLIGHT_START}`,
+  `StopSel=${HIGHLIGHT_STOP}`,
+  "MaxWords=30",
+  "MinWords=12",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ");
+
+/**
+ * Position of the last row on a page in the result ordering. The sort is
+ * stored so a cursor can't be replayed against a different ordering.
+ */
+export interface ContentSearchCursor {
+  sort: ContentSearchSort;
+  value: string | number;
+  id: string;
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ */
+export function encodeSearchCursor(cursor: ContentSearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+/**
+ * Decode a cursor, or null if it is malformed or was made for another sort
+ */
+export function decodeSearchCursor(
+  encoded: string,
+  sort: ContentSearchSort
+): ContentSearchCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(encoded, "base64url").toString("utf8"));
+    if (!Array.isArray(decoded) || decoded.length !== 3) return null;
+
+    const [cursorSort, value, id] = decoded;
+    if (cursorSort !== sort || typeof id !== "string") return null;
+    if (typeof value !== "string" && typeof value !== "number") return null;
+
+    return { sort, value, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted segments
+ */
+export function parseHeadline(headline: string | null): SearchSnippetSegment[] {
+  if (!headline) return [];
+
+  const segments: SearchSnippetSegment[] = [];
+  let rest = headline;
+
+  while (rest.length > 0) {
+    const start = rest.indexOf(HIGHLIGHT_START);
+    if (start === -1) {
+      segments.push({ text: rest, highlighted: false });
+      break;
+    }
+
+    const stop = rest.indexOf(HIGHLIGHT_STOP, start + 1);
+    if (start > 0) {
+      segments.push({ text: rest.slice(0, start), highlighted: false });
+    }
+    if (stop === -1) {
+      segments.push({ text: rest.slice(start + 1), highlighted: true });
+      break;
+    }
+
+    segments.push({ text: rest.slice(start + 1, stop), highlighted: true });
+    rest = rest.slice(stop + 1);
+  }
+
+  return segments.filter((segment) => segment.text.length > 0);
+}
@@ -0,0 +1,38 @@
+/**
+ * Document Certification Helpers
+ *
+ * A document belongs to the certifications it is assigned to directly and to
+ * every certification its objective mappings point into. These combine the
+ * two sources.
+ */
+
+import type { ContentCertification } from "../types/contentLibrary.types";
+
+type CertificationRef = Omit<ContentCertification, "source">;
+
+/**
+ * One entry per certification, direct assignments first. A certification
+ * that is both assigned and implied by mappings counts as direct.
+ */
+export function mergeDocumentCertifications(
+  direct: CertificationRef[],
+  derived: CertificationRef[]
+): ContentCertification[] {
+  const merged = new Map<string, ContentCertification>();
+
+  for (const certification of direct) {
+    merged.set(certification.id, { ...certification, source: "direct" });
+  }
+  for (const certification of derived) {
+    if (!merged.has(certification.id)) {
+      merged.set(certification.id, { ...certification, source: "derived" });
+    }
+  }
+
+  const byCode = (a: ContentCertification, b: ContentCertification) => a.code.localeCompare(b.code);
+  const all = [...merged.values()];
+  return [
+    ...all.filter((certification) => certification.source === "direct").sort(byCode),
+    ...all.filter((certification) => certification.source === "derived").sort(byCode),
+  ];
+}
@@ -0,0 +1,138 @@
+/**
+ * Document Version Helpers
+ *
+ * Compares the extracted text of two versions of a document: a line-level
+ * diff for the side-by-side viewer, and how much of the text changed, which
+ * decides whether AI mapping is worth re-running.
+ */
+
+export interface TextDiffLine {
+  kind: "same" | "added" | "removed";
+  text: string;
+}
+
+export type CollapsedDiffLine = TextDiffLine | { kind: "skipped"; count: number };
+
+/**
+ * Share of the text changed at or above which a new version counts as a
+ * significant change (and AI mapping can be re-run)
+ */
+export const SIGNIFICANT_TEXT_CHANGE = 0.2;
+
+// Beyond this many line pairs the changed middle is shown as all replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Line-level diff of two texts (longest common subsequence over non-blank
+ * lines, after trimming the unchanged start and end)
+ */
+export function diffTextLines(before: string, after: string): TextDiffLine[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const lines: TextDiffLine[] = a.slice(0, start).map((text) => ({ kind: "same", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    lines.push(
+      ...midA.map((text) => ({ kind: "removed" as const, text })),
+      ...midB.map((text) => ({ kind: "added" as const, text }))
+    );
+  } else {
+    // lengths[i][j] = LCS length of midA[i..] and midB[j..]
+    const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          midA[i] === midB[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        lines.push({ kind: "same", text: midA[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        lines.push({ kind: "removed", text: midA[i++] });
+      } else {
+        lines.push({ kind: "added", text: midB[j++] });
+      }
+    }
+    while (i < midA.length) lines.push({ kind: "removed", text: midA[i++] });
+    while (j < midB.length) lines.push({ kind: "added", text: midB[j++] });
+  }
+
+  lines.push(...a.slice(endA).map((text) => ({ kind: "same" as const, text })));
+  return lines;
+}
+
+/**
+ * Share of words on changed lines, counting both the old and new text
+ * (0 = identical, 1 = nothing in common)
+ */
+export function textChangeRatio(lines: TextDiffLine[]): number {
+  let changed = 0;
+  let total = 0;
+
+  for (const line of lines) {
+    const words = line.text.split(/\s+/).filter(Boolean).length;
+    // Unchanged lines are in both texts
+    total += line.kind === "same" ? words * 2 : words;
+    if (line.kind !== "same") changed += words;
+  }
+
+  return total === 0 ? 0 : changed / total;
+}
+
+/**
+ * Hide long runs of unchanged lines, keeping some context around each change
+ */
+export function collapseUnchanged(lines: TextDiffLine[], context = 2): CollapsedDiffLine[] {
+  const collapsed: CollapsedDiffLine[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].kind !== "same") {
+      collapsed.push(lines[index++]);
+      continue;
+    }
+
+    let end = index;
+    while (end < lines.length && lines[end].kind === "same") end++;
+
+    const keepBefore = index === 0 ? 0 : context;
+    const keepAfter = end === lines.length ? 0 : context;
+    if (end - index > keepBefore + keepAfter + 1) {
+      collapsed.push(...lines.slice(index, index + keepBefore));
+      collapsed.push({ kind: "skipped", count: end - index - keepBefore - keepAfter });
+      collapsed.push(...lines.slice(end - keepAfter, end));
+    } else {
+      collapsed.push(...lines.slice(index, end));
+    }
+    index = end;
+  }
+
+  return collapsed;
+}
@@ -0,0 +1,77 @@
+/**
+ * Segment Mapping Helpers
+ *
+ * AI mapping scores every timed transcript segment of a video against each
+ * objective, bullet and sub-bullet. These turn one item's segment scores into
+ * the part of the video that covers it: the best segment, widened to the
+ * neighbouring segments that also match.
+ */
+
+// Minimum similarity for a segment to count as covering an outline item
+export const SEGMENT_MATCH_THRESHOLD = 0.6;
+
+export interface SegmentScore {
+  chunkIndex: number;
+  startSeconds: number | null;
+  endSeconds: number | null;
+  similarity: number;
+}
+
+export interface SegmentRange {
+  similarity: number; // Best segment's similarity
+  startSeconds: number | null;
+  endSeconds: number | null;
+}
+
+/**
+ * The best-matching run of consecutive segments, or null when no segment
+ * reaches the threshold. Times are null for untimed (plain transcript) segments.
+ */
+export function bestSegmentRange(scores: SegmentScore[], threshold: number): SegmentRange | null {
+  const ordered = [...scores].sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  let best = -1;
+  ordered.forEach((score, index) => {
+    if (score.similarity >= threshold && (best === -1 || score.similarity > ordered[best].similarity)) {
+      best = index;
+    }
+  });
+  if (best === -1) return null;
+
+  const isNeighbour = (from: number, to: number) =>
+    ordered[to] !== undefined &&
+    Math.abs(ordered[to].chunkIndex - ordered[from].chunkIndex) === 1 &&
+    ordered[to].similarity >= threshold;
+
+  let first = best;
+  let last = best;
+  while (isNeighbour(first, first - 1)) first--;
+  while (isNeighbour(last, last + 1)) last++;
+
+  return {
+    similarity: ordered[best].similarity,
+    startSeconds: ordered[first].startSeconds,
+    endSeconds: ordered[last].endSeconds,
+  };
+}
+
+/**
+ * "12:30–15:10" (or "1:02:03–1:04:00" past an hour); null without times
+ */
+export function formatTimeRange(startSeconds: number | null, endSeconds: number | null): string | null {
+  if (startSeconds === null) return null;
+  return endSeconds === null
+    ? formatTimestamp(startSeconds)
+    : `${formatTimestamp(startSeconds)}–${formatTimestamp(endSeconds)}`;
+}
+
+function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
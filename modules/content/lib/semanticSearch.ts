@@ -0,0 +1,90 @@
+/**
+ * Semantic Search Helpers
+ *
+ * Ranking for search by meaning: keeping the best chunk matches while chunk
+ * embeddings are scanned in batches, and grouping matching chunks under the
+ * video or document they came from.
+ */
+
+// Below this cosine similarity a chunk is treated as unrelated to the query
+export const SEMANTIC_MIN_SIMILARITY = 0.25;
+
+// Chunk matches kept while scanning each content type
+export const MAX_CHUNK_MATCHES = 60;
+
+// Chunks shown per video or document, and videos (and, separately,
+// documents) per search
+export const MAX_CHUNKS_PER_GROUP = 3;
+export const MAX_GROUPS = 10;
+
+export interface ChunkMatch {
+  chunkId: string;
+  videoId: string | null;
+  documentId: string | null;
+  similarity: number;
+}
+
+export interface ChunkMatchGroup {
+  contentType: "video" | "document";
+  contentId: string;
+  similarity: number; // Best chunk's similarity
+  chunkIds: string[]; // Most similar first
+}
+
+/**
+ * Merge a batch of scored candidates into the running top list, dropping
+ * those under the similarity floor and keeping at most `maxPerGroup` chunks
+ * of any one video or document, so a long video cannot crowd out the rest
+ */
+export function keepTopMatches(
+  top: ChunkMatch[],
+  candidates: ChunkMatch[],
+  limit = MAX_CHUNK_MATCHES,
+  maxPerGroup = MAX_CHUNKS_PER_GROUP,
+  minSimilarity = SEMANTIC_MIN_SIMILARITY
+): ChunkMatch[] {
+  const perGroup = new Map<string, number>();
+
+  return [...top, ...candidates.filter((candidate) => candidate.similarity >= minSimilarity)]
+    .sort((a, b) => b.similarity - a.similarity)
+    .filter((match) => {
+      const key = match.videoId ? `video:${match.videoId}` : `document:${match.documentId}`;
+      const count = perGroup.get(key) ?? 0;
+      perGroup.set(key, count + 1);
+      return count < maxPerGroup;
+    })
+    .slice(0, limit);
+}
+
+/**
+ * Group chunk matches by the video or document they belong to, best group
+ * first, keeping a few chunks per group. Videos and documents are capped
+ * separately so strong matches of one type can't push out the other.
+ */
+export function groupChunkMatches(
+  matches: ChunkMatch[],
+  maxPerGroup = MAX_CHUNKS_PER_GROUP,
+  maxGroups = MAX_GROUPS
+): ChunkMatchGroup[] {
+  const groups = new Map<string, ChunkMatchGroup>();
+
+  for (const match of [...matches].sort((a, b) => b.similarity - a.similarity)) {
+    const contentType = match.videoId ? "video" : "document";
+    const contentId = match.videoId ?? match.documentId;
+    if (!contentId) continue;
+
+    const key = `${contentType}:${contentId}`;
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { contentType, contentId, similarity: match.similarity, chunkIds: [match.chunkId] });
+    } else if (group.chunkIds.length < maxPerGroup) {
+      group.chunkIds.push(match.chunkId);
+    }
+  }
+
+  // Map keeps insertion order, which is already best-first
+  const ofType = (type: ChunkMatchGroup["contentType"]) =>
+    [...groups.values()].filter((group) => group.contentType === type).slice(0, maxGroups);
+
+  return [...ofType("video"), ...ofType("document")].sort((a, b) => b.similarity - a.similarity);
+}
@@ -9,6 +9,7 @@
 import { prisma } from "@/lib/prisma";
 import { withPermission } from "@/lib/middleware/withPermission";
 import type { AuthContext } from "@/lib/auth/types";
+import { setDocumentCertifications } from "../services/documentCertification.service";
 import {
   bulkDeleteSchema,
   bulkRemapSchema,
@@ -68,9 +69,10 @@ export const bulkDeleteContent = withPermission("content.delete")(
 );
 
 /**
- * Bulk re-map videos to a certification
- * Updates the certificationId for all selected videos
- * Note: Documents don't have direct certification mapping
+ * Bulk re-map videos or documents to a certification
+ * Updates the certificationId for videos; replaces the direct certification
+ * assignments for documents (certifications derived from their objective
+ * mappings still apply)
  */
 export const bulkRemapContent = withPermission("content.update")(
   async (
@@ -109,14 +111,11 @@ export const bulkRemapContent = withPermission("content.update")(
         });
         updated = result.count;
       } else if (contentType === "document") {
-        // Documents don't have direct certification mapping
-        // This would require creating mappings to objectives in that certification
-        // For MVP, we'll skip this functionality
-        return {
-          success: false,
-          error:
-            "Bulk re-mapping documents is not supported. Documents are mapped to objectives, not certifications.",
-        };
+        updated = await setDocumentCertifications(
+          contentIds,
+          [certificationId],
+          user.userId
+        );
       }
 
       return {
@@ -9,6 +9,7 @@
 import { prisma } from "@/lib/prisma";
 import { withAccess } from "@/lib/middleware/withAccess";
 import type { AuthContext } from "@/lib/auth/types";
+import { countDocumentsByCertification } from "../services/documentCertification.service";
 import type { ContentStats } from "../types/contentLibrary.types";
 
 /**
@@ -31,6 +32,7 @@ export const getContentStats = withAccess(
         videosByDifficulty,
         documentsByDifficulty,
         videosByCertification,
+        documentsByCertification,
       ] = await Promise.all([
         // Total counts
         prisma.video.count({ where: { isActive: true } }),
@@ -84,6 +86,9 @@ export const getContentStats = withAccess(
           where: { isActive: true },
           _count: true,
         }),
+
+        // Documents by certification (direct or through mappings)
+        countDocumentsByCertification(),
       ]);
 
       // Calculate totals
@@ -121,10 +126,28 @@ export const getContentStats = withAccess(
           (difficultyMap[item.difficultyLevel] ?? 0) + item._count;
       });
 
+      // Combine video and document counts per certification (null = none)
+      const countsByCertification = new Map<string | null, number>();
+      const addCount = (certificationId: string | null, count: number) => {
+        if (count === 0) return;
+        countsByCertification.set(
+          certificationId,
+          (countsByCertification.get(certificationId) ?? 0) + count
+        );
+      };
+
+      videosByCertification.forEach((item) => {
+        addCount(item.certificationId, item._count);
+      });
+      documentsByCertification.byCertification.forEach((item) => {
+        addCount(item.certificationId, item.count);
+      });
+      addCount(null, documentsByCertification.unassigned);
+
       // Get certification details for breakdown
-      const certificationIds = videosByCertification
-        .map((v) => v.certificationId)
-        .filter((id): id is string => id !== null);
+      const certificationIds = [...countsByCertification.keys()].filter(
+        (id): id is string => id !== null
+      );
 
       const certifications = await prisma.certification.findMany({
         where: { id: { in: certificationIds } },
@@ -135,17 +158,19 @@ export const getContentStats = withAccess(
         certifications.map((c) => [c.id, c])
       );
 
-      const byCertification = videosByCertification.map((item) => {
-        const cert = item.certificationId
-          ? certificationMap.get(item.certificationId)
-          : null;
-        return {
-          certificationId: item.certificationId,
-          certificationName: cert?.name ?? null,
-          certificationCode: cert?.code ?? null,
-          count: item._count,
-        };
-      });
+      const byCertification = [...countsByCertification].map(
+        ([certificationId, count]) => {
+          const cert = certificationId
+            ? certificationMap.get(certificationId)
+            : null;
+          return {
+            certificationId,
+            certificationName: cert?.name ?? null,
+            certificationCode: cert?.code ?? null,
+            count,
+          };
+        }
+      );
 
       // Calculate mapping coverage percentage
       const mappingCoverage =
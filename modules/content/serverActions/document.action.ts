@@ -15,6 +15,20 @@ import { DeleteObjectCommand } from "@aws-sdk/client-s3";
 import { s3Client, S3_BUCKET_NAME } from "@/lib/s3/config";
 import { extractTextFromDocument } from "../services/textExtraction.service";
 import { generateDocumentDescription } from "../services/aiDescription.service";
+import { indexDocumentChunks } from "../services/contentChunk.service";
+import {
+  documentCertificationWhere,
+  loadDocumentCertifications,
+  setDocumentCertifications,
+} from "../services/documentCertification.service";
+import {
+  addDocumentVersion,
+  diffDocumentVersions,
+  documentFileKeys,
+  loadVersionHistory,
+  remapDocument,
+} from "../services/documentVersion.service";
+import { SIGNIFICANT_TEXT_CHANGE } from "../lib/documentVersions";
 import type {
   PresignedUploadResponse,
   CreateDocumentInput,
@@ -24,6 +38,9 @@ import type {
   GetDocumentsInput,
   DocumentWithRelations,
   DocumentSummary,
+  DocumentVersionHistory,
+  DocumentVersionComparison,
+  ReplaceDocumentFileResult,
 } from "../types/document.types";
 import {
   createDocumentSchema,
@@ -31,6 +48,8 @@ import {
   getDocumentSchema,
   deleteDocumentSchema,
   getDocumentsSchema,
+  replaceDocumentFileSchema,
+  compareDocumentVersionsSchema,
 } from "../types/document.types";
 
 // ============================================================================
@@ -84,20 +103,27 @@ export const createDocument = withPermission("content.create")(
       // Validate input
       const validated = createDocumentSchema.parse(input);
 
-      // Create document record
+      const file = {
+        s3Key: validated.s3Key,
+        url: validated.url,
+        type: validated.type,
+        fileSize: validated.fileSize,
+        mimeType: validated.mimeType,
+      };
+
+      // Create document record along with its first version
       const document = await prisma.document.create({
         data: {
           title: validated.title,
           description: validated.description,
-          s3Key: validated.s3Key,
-          url: validated.url,
-          type: validated.type,
-          fileSize: validated.fileSize,
-          mimeType: validated.mimeType,
-          version: validated.version,
+          ...file,
+          version: 1,
           allowDownload: validated.allowDownload,
           uploadedBy: user.userId,
           isActive: true,
+          versions: {
+            create: { version: 1, ...file, source: "upload", uploadedById: user.userId },
+          },
         },
       });
 
@@ -187,9 +213,14 @@ export const getDocument = withAccess(
         throw new NotFoundError("Document not found");
       }
 
+      const certifications = await loadDocumentCertifications([document.id]);
+
       return {
         success: true,
-        data: document as DocumentWithRelations,
+        data: {
+          ...document,
+          certifications: certifications.get(document.id) ?? [],
+        } as DocumentWithRelations,
       };
     } catch (error) {
       console.error("[getDocument] Error:", error);
@@ -226,6 +257,10 @@ export const getDocuments = withAccess(
         }),
         ...(validated.type && { type: validated.type }),
         ...(validated.isActive !== undefined && { isActive: validated.isActive }),
+        // Wrapped in AND so its OR doesn't replace the search OR
+        ...(validated.certificationId && {
+          AND: [documentCertificationWhere(validated.certificationId)],
+        }),
       };
 
       // Get documents
@@ -302,12 +337,15 @@ export const updateDocument = withPermission("content.update")(
         data: {
           ...(validated.title && { title: validated.title }),
           ...(validated.description !== undefined && { description: validated.description }),
-          ...(validated.version && { version: validated.version }),
           ...(validated.allowDownload !== undefined && { allowDownload: validated.allowDownload }),
           ...(validated.isActive !== undefined && { isActive: validated.isActive }),
         },
       });
 
+      if (validated.certificationIds) {
+        await setDocumentCertifications([validated.id], validated.certificationIds, user.userId);
+      }
+
       return { success: true };
     } catch (error) {
       console.error("[updateDocument] Error:", error);
@@ -319,6 +357,158 @@ export const updateDocument = withPermission("content.update")(
   }
 );
 
+// ============================================================================
+// VERSIONS
+// ============================================================================
+
+/**
+ * Upload a new version of a document's file
+ *
+ * Called after the new file has been uploaded to S3 (see
+ * generateDocumentUploadUrl). Earlier versions are kept and mappings carry
+ * forward; the document is re-indexed for search, and AI mapping is re-run
+ * when requested and the text changed significantly.
+ */
+export const replaceDocumentFile = withPermission("content.update")(
+  async (
+    user: AuthContext,
+    input: unknown
+  ): Promise<{ success: boolean; data?: ReplaceDocumentFileResult; error?: string }> => {
+    try {
+      const { documentId, changeNote, remapIfChanged, ...file } =
+        replaceDocumentFileSchema.parse(input);
+
+      const { version, textChangeRatio } = await addDocumentVersion(documentId, file, {
+        uploadedById: user.userId,
+        changeNote,
+      });
+      const significantChange =
+        textChangeRatio !== null && textChangeRatio >= SIGNIFICANT_TEXT_CHANGE;
+
+      // The new version is saved either way; a failure here just leaves it for later
+      try {
+        await indexDocumentChunks(documentId, { billing: { userId: user.userId } });
+      } catch (error) {
+        console.error("[replaceDocumentFile] Search indexing failed:", error);
+      }
+
+      let remappedCount: number | null = null;
+      if (remapIfChanged && significantChange) {
+        try {
+          remappedCount = await remapDocument(documentId);
+        } catch (error) {
+          console.error("[replaceDocumentFile] AI re-mapping failed:", error);
+        }
+      }
+
+      return {
+        success: true,
+        data: { version, textChangeRatio, significantChange, remappedCount },
+      };
+    } catch (error) {
+      console.error("[replaceDocumentFile] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to upload new version",
+      };
+    }
+  }
+);
+
+/**
+ * Get every version of a document, newest first
+ */
+export const getDocumentVersions = withPermission("content.update")(
+  async (
+    user: AuthContext,
+    input: unknown
+  ): Promise<{ success: boolean; data?: DocumentVersionHistory; error?: string }> => {
+    try {
+      const validated = getDocumentSchema.parse(input);
+
+      return {
+        success: true,
+        data: await loadVersionHistory(validated.id),
+      };
+    } catch (error) {
+      console.error("[getDocumentVersions] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to get document versions",
+      };
+    }
+  }
+);
+
+/**
+ * Compare the extracted text of two versions of a document
+ */
+export const compareDocumentVersions = withPermission("content.update")(
+  async (
+    user: AuthContext,
+    input: unknown
+  ): Promise<{ success: boolean; data?: DocumentVersionComparison; error?: string }> => {
+    try {
+      const validated = compareDocumentVersionsSchema.parse(input);
+
+      return {
+        success: true,
+        data: await diffDocumentVersions(
+          validated.documentId,
+          validated.fromVersion,
+          validated.toVersion
+        ),
+      };
+    } catch (error) {
+      console.error("[compareDocumentVersions] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to compare versions",
+      };
+    }
+  }
+);
+
+/**
+ * Generate presigned download URL for one version of a document
+ * Follows the document's allowDownload setting, like the current file
+ */
+export const generateDocumentVersionDownloadUrl = withPermission("content.update")(
+  async (
+    user: AuthContext,
+    versionId: string
+  ): Promise<{ success: boolean; data?: string; error?: string }> => {
+    try {
+      const version = await prisma.documentVersion.findUnique({
+        where: { id: versionId },
+        select: { s3Key: true, document: { select: { allowDownload: true } } },
+      });
+
+      if (!version) {
+        throw new NotFoundError("Document version not found");
+      }
+
+      if (!version.document.allowDownload) {
+        return {
+          success: false,
+          error: "Downloads are not allowed for this document",
+        };
+      }
+
+      return {
+        success: true,
+        data: await generatePresignedDownloadUrl(version.s3Key, 3600),
+      };
+    } catch (error) {
+      console.error("[generateDocumentVersionDownloadUrl] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to generate download URL",
+      };
+    }
+  }
+);
+
 // ============================================================================
 // DELETE
 // ============================================================================
@@ -334,29 +524,28 @@ export const deleteDocument = withPermission("content.delete")(
     try {
       const validated = deleteDocumentSchema.parse(input);
 
-      // Get document to retrieve S3 key
-      const document = await prisma.document.findUnique({
-        where: { id: validated.id },
-        select: { s3Key: true },
-      });
+      // Get the S3 keys of the document's current and earlier files
+      const s3Keys = await documentFileKeys(validated.id);
 
-      if (!document) {
+      if (s3Keys.length === 0) {
         throw new NotFoundError("Document not found");
       }
 
       // Delete from S3
-      try {
-        const deleteCommand = new DeleteObjectCommand({
-          Bucket: S3_BUCKET_NAME,
-          Key: document.s3Key,
-        });
-        await s3Client.send(deleteCommand);
-      } catch (s3Error) {
-        console.error("[deleteDocument] S3 deletion failed:", s3Error);
-        // Continue with DB deletion even if S3 fails
+      for (const s3Key of s3Keys) {
+        try {
+          const deleteCommand = new DeleteObjectCommand({
+            Bucket: S3_BUCKET_NAME,
+            Key: s3Key,
+          });
+          await s3Client.send(deleteCommand);
+        } catch (s3Error) {
+          console.error("[deleteDocument] S3 deletion failed:", s3Error);
+          // Continue with DB deletion even if S3 fails
+        }
       }
 
-      // Delete from database (cascades to mappings)
+      // Delete from database (cascades to mappings and versions)
       await prisma.document.delete({
         where: { id: validated.id },
       });
@@ -381,7 +570,7 @@ export const deleteDocument = withPermission("content.delete")(
  */
 export const generateDocumentDownloadUrl = withAccess(
   async (
-    _user: AuthContext,
+    user: AuthContext,
     documentId: string
   ): Promise<{ success: boolean; data?: string; error?: string }> => {
     try {
@@ -435,7 +624,7 @@ export const generateDocumentDownloadUrl = withAccess(
  */
 export const generateAIDescriptionForDocument = withAccess(
   async (
-    _user: AuthContext,
+    user: AuthContext,
     documentId: string
   ): Promise<{ success: boolean; data?: string; error?: string }> => {
     try {
@@ -481,7 +670,8 @@ export const generateAIDescriptionForDocument = withAccess(
       const aiDescription = await generateDocumentDescription(
         documentText,
         document.title,
-        100
+        100,
+        { userId: user.userId }
       );
 
       // Update document with AI description
@@ -510,6 +700,32 @@ export const generateAIDescriptionForDocument = withAccess(
   }
 );
 
+/**
+ * Index a document for search by meaning
+ * Called after document upload; safe to call again to re-index
+ */
+export const indexDocumentForSearch = withPermission("content.create")(
+  async (
+    user: AuthContext,
+    documentId: string
+  ): Promise<{ success: boolean; data?: { chunks: number }; error?: string }> => {
+    try {
+      const chunks = await indexDocumentChunks(documentId, { billing: { userId: user.userId } });
+
+      return {
+        success: true,
+        data: { chunks },
+      };
+    } catch (error) {
+      console.error("[indexDocumentForSearch] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to index document",
+      };
+    }
+  }
+);
+
 /**
  * Get presigned URL for document download
  *
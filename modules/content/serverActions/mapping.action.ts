@@ -126,6 +126,8 @@ export const applyMappingSuggestions = withAccess(
             subBulletId?: string;
             isPrimary: boolean;
             confidence: number;
+            startSeconds?: number | null;
+            endSeconds?: number | null;
           }) => ({
           videoId: validated.videoId,
           objectiveId: m.objectiveId || null,
@@ -133,6 +135,8 @@ export const applyMappingSuggestions = withAccess(
           subBulletId: m.subBulletId || null,
           isPrimary: m.isPrimary,
           confidence: m.confidence,
+          startSeconds: m.startSeconds ?? null,
+          endSeconds: m.endSeconds ?? null,
           mappingSource: "ai_confirmed", // AI suggestion confirmed by user
         })
         ),
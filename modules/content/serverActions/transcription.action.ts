@@ -11,6 +11,7 @@ import { withPermission } from "@/lib/middleware/withPermission";
 import { AuthContext, NotFoundError, ValidationError } from "@/lib/auth/types";
 import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
 import { z } from "zod";
+import { indexVideoChunks } from "../services/contentChunk.service";
 
 // Initialize S3 client
 const s3Client = new S3Client({
@@ -128,6 +129,16 @@ export const uploadManualTranscript = withPermission("content.update")(
         },
       });
 
+      // Index the new transcript for search by meaning; the upload stands if this fails
+      try {
+        await indexVideoChunks(validated.videoId, {
+          vtt: validated.vttContent,
+          billing: { userId: user.userId },
+        });
+      } catch (error) {
+        console.error("[uploadManualTranscript] Search indexing failed:", error);
+      }
+
       return {
         success: true,
       };
@@ -231,6 +242,7 @@ export const retryTranscription = withPermission("content.update")(
           s3Key: video.s3Key,
           fileName: video.title,
           generateDescription: false, // Don't regenerate description on retry
+          requestedBy: user.userId,
         });
         console.log("[retryTranscription] Successfully queued job for video:", videoId);
       } catch (queueError) {
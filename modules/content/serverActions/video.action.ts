@@ -117,6 +117,7 @@ export const completeVideoUpload = withPermission("content.create")(
             s3Key: video.s3Key,
             fileName: validated.title,
             generateDescription: validated.generateAiDescription,
+            requestedBy: user.userId,
           });
           console.log("[completeVideoUpload] Successfully queued transcription job for video:", video.id);
         } catch (queueError) {
@@ -1,21 +1,15 @@
 /**
  * AI Description Generation Service
  *
- * Generates concise descriptions for videos and documents using OpenAI GPT models.
+ * Generates concise descriptions for videos and documents through the AI
+ * gateway ("description" task).
  */
 
-import OpenAI from "openai";
+import { aiGateway } from "@/lib/ai/gateway";
+import type { AIUsageContext } from "@/lib/ai/types";
 
-// Lazy initialize OpenAI client to avoid build-time errors
-let openaiClient: OpenAI | null = null;
-function getOpenAIClient(): OpenAI {
-  if (!openaiClient) {
-    openaiClient = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
-  }
-  return openaiClient;
-}
+// User and certification the description is billed to
+type DescriptionBilling = Omit<AIUsageContext, "feature">;
 
 /**
  * Generate a concise description from video transcript
@@ -23,17 +17,19 @@ function getOpenAIClient(): OpenAI {
  * @param transcript - Full video transcript (plain text)
  * @param title - Video title for context
  * @param maxWords - Maximum number of words (default: 100)
+ * @param billing - User and certification the AI call is billed to
  * @returns Generated description
  */
 export async function generateVideoDescription(
   transcript: string,
   title: string,
-  maxWords: number = 100
+  maxWords: number = 100,
+  billing: DescriptionBilling = {}
 ): Promise<string> {
   try {
     console.error(`[AI Description] Generating description for: ${title}`);
 
-    // Truncate transcript if too long (GPT-3.5 has token limits)
+    // Truncate transcript if too long (keeps requests small and fast)
     // Max ~4000 tokens for input, keep transcript under ~3000 tokens (~2250 words)
     const maxTranscriptWords = 2000;
     const words = transcript.split(" ");
@@ -42,12 +38,10 @@ export async function generateVideoDescription(
         ? words.slice(0, maxTranscriptWords).join(" ") + "..."
         : transcript;
 
-    const completion = await getOpenAIClient().chat.completions.create({
-      model: "gpt-3.5-turbo", // Fast and cost-effective for descriptions
-      messages: [
-        {
-          role: "system",
-          content: `You are an educational content specialist. Your task is to write concise, informative video descriptions for an LMS (Learning Management System).
+    const { text: description } = await aiGateway.generateText({
+      task: "description",
+      usage: { ...billing, feature: "video_description" },
+      system: `You are an educational content specialist. Your task is to write concise, informative video descriptions for an LMS (Learning Management System).
 
 The description should:
 - Be exactly ${maxWords} words or fewer
@@ -56,27 +50,16 @@ The description should:
 - Focus on what students will learn
 - Avoid marketing language or fluff
 - Use present tense`,
-        },
-        {
-          role: "user",
-          content: `Write a ${maxWords}-word description for this video:
+      prompt: `Write a ${maxWords}-word description for this video:
 
 Title: ${title}
 
 Transcript:
 ${truncatedTranscript}`,
-        },
-      ],
-      max_tokens: 200, // ~150 words max
+      maxTokens: 200, // ~150 words max
       temperature: 0.7, // Balanced creativity and consistency
     });
 
-    const description = completion.choices[0]?.message?.content?.trim() || "";
-
-    if (!description) {
-      throw new Error("OpenAI returned empty description");
-    }
-
     console.error(`[AI Description] Generated: ${description.substring(0, 100)}...`);
 
     return description;
@@ -94,17 +77,19 @@ ${truncatedTranscript}`,
  * @param documentText - Full document text content
  * @param title - Document title for context
  * @param maxWords - Maximum number of words (default: 100)
+ * @param billing - User and certification the AI call is billed to
  * @returns Generated description
  */
 export async function generateDocumentDescription(
   documentText: string,
   title: string,
-  maxWords: number = 100
+  maxWords: number = 100,
+  billing: DescriptionBilling = {}
 ): Promise<string> {
   try {
     console.error(`[AI Description] Generating description for document: ${title}`);
 
-    // Truncate document text if too long (GPT-3.5 has token limits)
+    // Truncate document text if too long (keeps requests small and fast)
     // Max ~4000 tokens for input, keep text under ~3000 tokens (~2250 words)
     const maxTextWords = 2000;
     const words = documentText.split(" ");
@@ -113,12 +98,10 @@ export async function generateDocumentDescription(
         ? words.slice(0, maxTextWords).join(" ") + "..."
         : documentText;
 
-    const completion = await getOpenAIClient().chat.completions.create({
-      model: "gpt-3.5-turbo", // Fast and cost-effective for descriptions
-      messages: [
-        {
-          role: "system",
-          content: `You are an educational content specialist. Your task is to write concise, informative document descriptions for an LMS (Learning Management System).
+    const { text: description } = await aiGateway.generateText({
+      task: "description",
+      usage: { ...billing, feature: "document_description" },
+      system: `You are an educational content specialist. Your task is to write concise, informative document descriptions for an LMS (Learning Management System).
 
 The description should:
 - Be exactly ${maxWords} words or fewer
@@ -127,27 +110,16 @@ The description should:
 - Focus on what students will learn
 - Avoid marketing language or fluff
 - Use present tense`,
-        },
-        {
-          role: "user",
-          content: `Write a ${maxWords}-word description for this document:
+      prompt: `Write a ${maxWords}-word description for this document:
 
 Title: ${title}
 
 Content:
 ${truncatedText}`,
-        },
-      ],
-      max_tokens: 200, // ~150 words max
+      maxTokens: 200, // ~150 words max
       temperature: 0.7, // Balanced creativity and consistency
     });
 
-    const description = completion.choices[0]?.message?.content?.trim() || "";
-
-    if (!description) {
-      throw new Error("OpenAI returned empty description");
-    }
-
     console.error(`[AI Description] Generated: ${description.substring(0, 100)}...`);
 
     return description;
@@ -4,20 +4,22 @@
  * Suggests content mappings by analyzing video transcripts against
  * certification objectives using semantic similarity (embeddings).
  *
- * Strategy: Semantic Similarity (OpenAI Embeddings)
- * - Compare transcript embedding with cached bullet/sub-bullet embeddings
+ * Strategy: Semantic Similarity (OpenAI Embeddings), per transcript segment
+ * - Compare each timed transcript segment (the video's content chunks) with
+ *   cached bullet/sub-bullet embeddings, so long videos aren't reduced to
+ *   one truncated vector
+ * - Each match points at the part of the video that covers it; re-indexing
+ *   the video re-times confirmed mappings (see contentChunk.service.ts)
  * - Return top N matches above confidence threshold
  * - Focus on bullets/sub-bullets for precision (not just objectives)
  */
 
 import { prisma } from "@/lib/prisma";
-import {
-  createEmbedding,
-  bufferToEmbedding,
-  cosineSimilarity,
-} from "./embedding.service";
+import { bufferToEmbedding, cosineSimilarity } from "./embedding.service";
+import { indexVideoChunks } from "./contentChunk.service";
+import { SEGMENT_MATCH_THRESHOLD, bestSegmentRange, type SegmentRange } from "../lib/segmentMapping";
 
-const CONFIDENCE_THRESHOLD = 0.6; // 60% minimum similarity (adjusted for semantic embeddings)
+const CONFIDENCE_THRESHOLD = SEGMENT_MATCH_THRESHOLD; // 60% minimum similarity (adjusted for semantic embeddings)
 const MAX_SUGGESTIONS = 5; // Top 5 suggestions
 
 export interface MappingSuggestion {
@@ -45,11 +47,41 @@ export interface MappingSuggestion {
     text: string;
   };
 
+  // Part of the video that matched (null without timed captions)
+  startSeconds: number | null;
+  endSeconds: number | null;
+
   // AI metadata
   confidence: number; // 0.0 to 1.0
   isPrimarySuggestion: boolean; // Highest confidence suggestion
 }
 
+/**
+ * A video's transcript segments with their embeddings, indexing the
+ * transcript first if that hasn't happened yet
+ */
+async function loadTranscriptSegments(videoId: string, certificationId: string) {
+  const load = () =>
+    prisma.contentChunk.findMany({
+      where: { videoId },
+      select: { chunkIndex: true, startSeconds: true, endSeconds: true, embedding: true },
+      orderBy: { chunkIndex: "asc" },
+    });
+
+  let segments = await load();
+  if (segments.length === 0) {
+    await indexVideoChunks(videoId, { billing: { certificationId } });
+    segments = await load();
+  }
+
+  return segments.map((segment) => ({
+    chunkIndex: segment.chunkIndex,
+    startSeconds: segment.startSeconds,
+    endSeconds: segment.endSeconds,
+    embedding: bufferToEmbedding(Buffer.from(segment.embedding)),
+  }));
+}
+
 /**
  * Suggest content mappings for a video based on its transcript
  */
@@ -71,8 +103,23 @@ export async function suggestMappingsForVideo(
     return []; // Only suggest for completed transcriptions
   }
 
-  // 2. Create embedding for transcript
-  const transcriptEmbedding = await createEmbedding(video.transcript);
+  // 2. Get the embedded transcript segments
+  const segments = await loadTranscriptSegments(videoId, certificationId);
+  if (segments.length === 0) {
+    return [];
+  }
+
+  // Best-matching part of the video for an outline item's embedding
+  const matchSegments = (embedding: Uint8Array): SegmentRange | null => {
+    const target = bufferToEmbedding(Buffer.from(embedding));
+    return bestSegmentRange(
+      segments.map((segment) => ({
+        ...segment,
+        similarity: cosineSimilarity(target, segment.embedding),
+      })),
+      CONFIDENCE_THRESHOLD
+    );
+  };
 
   // 3. Get all bullets and sub-bullets with cached embeddings
   const bulletsAndSubBullets = await prisma.bullet.findMany({
@@ -119,15 +166,9 @@ export async function suggestMappingsForVideo(
     for (const subBullet of bullet.subBullets) {
       if (!subBullet.embedding) continue;
 
-      const subBulletEmbedding = bufferToEmbedding(
-        Buffer.from(subBullet.embedding)
-      );
-      const confidence = cosineSimilarity(
-        transcriptEmbedding,
-        subBulletEmbedding
-      );
+      const match = matchSegments(subBullet.embedding);
 
-      if (confidence >= CONFIDENCE_THRESHOLD) {
+      if (match) {
         suggestions.push({
           subBulletId: subBullet.id,
           // Only populate subBulletId, not bulletId or objectiveId (most specific level)
@@ -148,7 +189,9 @@ export async function suggestMappingsForVideo(
             id: subBullet.id,
             text: subBullet.text,
           },
-          confidence,
+          startSeconds: match.startSeconds,
+          endSeconds: match.endSeconds,
+          confidence: match.similarity,
           isPrimarySuggestion: false, // Will set later
         });
       }
@@ -165,10 +208,9 @@ export async function suggestMappingsForVideo(
     );
     if (hasSubBulletSuggestion) continue;
 
-    const bulletEmbedding = bufferToEmbedding(Buffer.from(bullet.embedding));
-    const confidence = cosineSimilarity(transcriptEmbedding, bulletEmbedding);
+    const match = matchSegments(bullet.embedding);
 
-    if (confidence >= CONFIDENCE_THRESHOLD) {
+    if (match) {
       suggestions.push({
         bulletId: bullet.id,
         // Only populate bulletId, not objectiveId (most specific level)
@@ -185,7 +227,9 @@ export async function suggestMappingsForVideo(
           id: bullet.id,
           text: bullet.text,
         },
-        confidence,
+        startSeconds: match.startSeconds,
+        endSeconds: match.endSeconds,
+        confidence: match.similarity,
         isPrimarySuggestion: false,
       });
     }
@@ -201,15 +245,9 @@ export async function suggestMappingsForVideo(
     );
     if (hasChildSuggestion) continue;
 
-    const objectiveEmbedding = bufferToEmbedding(
-      Buffer.from(objective.embedding)
-    );
-    const confidence = cosineSimilarity(
-      transcriptEmbedding,
-      objectiveEmbedding
-    );
+    const match = matchSegments(objective.embedding);
 
-    if (confidence >= CONFIDENCE_THRESHOLD) {
+    if (match) {
       suggestions.push({
         objectiveId: objective.id,
         domain: {
@@ -221,7 +259,9 @@ export async function suggestMappingsForVideo(
           code: objective.code,
           description: objective.description,
         },
-        confidence,
+        startSeconds: match.startSeconds,
+        endSeconds: match.endSeconds,
+        confidence: match.similarity,
         isPrimarySuggestion: false,
       });
     }
@@ -0,0 +1,201 @@
+/**
+ * Content Chunk Service
+ *
+ * Indexes videos and documents for search by meaning: their text is split into
+ * passages (caption-timed for videos, per page for PDFs), each passage is
+ * embedded, and the result replaces whatever was indexed for them before.
+ * Videos are indexed when a transcript lands; documents right after upload.
+ * A video's AI mappings are re-timed against its new segments in the same
+ * transaction, so they never point into a transcript that was replaced.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { NotFoundError } from "@/lib/auth/types";
+import {
+  chunkCaptionCues,
+  chunkPages,
+  chunkPlainText,
+  parseVttCues,
+  type ContentChunkDraft,
+} from "../lib/contentChunking";
+import { SEGMENT_MATCH_THRESHOLD, bestSegmentRange } from "../lib/segmentMapping";
+import {
+  bufferToEmbedding,
+  cosineSimilarity,
+  createEmbeddingsBatch,
+  embeddingToBuffer,
+} from "./embedding.service";
+import { extractDocumentPages, readTextFromS3 } from "./textExtraction.service";
+
+const EMBEDDING_BATCH_SIZE = 100;
+
+type Billing = { userId?: string; certificationId?: string };
+
+async function embedChunks(chunks: ContentChunkDraft[], billing: Billing): Promise<Buffer[]> {
+  const embeddings: Buffer[] = [];
+
+  for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const vectors = await createEmbeddingsBatch(
+      batch.map((chunk) => chunk.text),
+      billing
+    );
+    embeddings.push(...vectors.map(embeddingToBuffer));
+  }
+
+  return embeddings;
+}
+
+/**
+ * Chunks for a video: caption-timed when VTT captions exist, otherwise the
+ * plain transcript without times
+ */
+async function videoChunks(
+  video: { transcript: string | null; captionsVttS3Key: string | null },
+  vtt?: string
+): Promise<ContentChunkDraft[]> {
+  let captions = vtt;
+  if (captions === undefined && video.captionsVttS3Key) {
+    try {
+      captions = await readTextFromS3(video.captionsVttS3Key);
+    } catch (error) {
+      // Still searchable from the transcript, just without times
+      console.error("[ContentChunks] Failed to read captions:", error);
+    }
+  }
+
+  const cues = captions ? parseVttCues(captions) : [];
+  if (cues.length > 0) {
+    return chunkCaptionCues(cues);
+  }
+  return video.transcript ? chunkPlainText(video.transcript) : [];
+}
+
+/**
+ * Updates moving a video's AI mappings onto its new segments: each mapping's
+ * outline item is matched against them, and mappings that no longer match
+ * (or whose item has no embedding) fall back to the whole video
+ */
+async function retimeMappings(videoId: string, chunks: ContentChunkDraft[], embeddings: Buffer[]) {
+  const mappings = await prisma.videoContentMapping.findMany({
+    where: { videoId, mappingSource: { not: "manual" } },
+    select: {
+      id: true,
+      objective: { select: { embedding: true } },
+      bullet: { select: { embedding: true } },
+      subBullet: { select: { embedding: true } },
+    },
+  });
+
+  const segments = chunks.map((chunk, index) => ({
+    chunkIndex: index,
+    startSeconds: chunk.startSeconds ?? null,
+    endSeconds: chunk.endSeconds ?? null,
+    embedding: bufferToEmbedding(embeddings[index]),
+  }));
+
+  return mappings.map((mapping) => {
+    const item = mapping.subBullet ?? mapping.bullet ?? mapping.objective;
+    const target = item?.embedding ? bufferToEmbedding(Buffer.from(item.embedding)) : null;
+    const range = target
+      ? bestSegmentRange(
+          segments.map((segment) => ({
+            ...segment,
+            similarity: cosineSimilarity(target, segment.embedding),
+          })),
+          SEGMENT_MATCH_THRESHOLD
+        )
+      : null;
+
+    return prisma.videoContentMapping.update({
+      where: { id: mapping.id },
+      data: { startSeconds: range?.startSeconds ?? null, endSeconds: range?.endSeconds ?? null },
+    });
+  });
+}
+
+/**
+ * Re-index a video's transcript for search by meaning. Pass the VTT captions
+ * when they are already in hand to skip reading them back from S3. The
+ * video's AI mappings are re-timed against the new segments.
+ * @returns Number of chunks indexed (0 when the video has no transcript yet)
+ * @throws {NotFoundError} If the video doesn't exist
+ */
+export async function indexVideoChunks(
+  videoId: string,
+  options: { vtt?: string; billing?: Billing } = {}
+): Promise<number> {
+  const video = await prisma.video.findUnique({
+    where: { id: videoId },
+    select: { transcript: true, captionsVttS3Key: true, certificationId: true },
+  });
+  if (!video) {
+    throw new NotFoundError("Video not found");
+  }
+
+  const chunks = await videoChunks(video, options.vtt);
+  const embeddings = await embedChunks(chunks, {
+    certificationId: video.certificationId ?? undefined,
+    ...options.billing,
+  });
+  const mappingUpdates = await retimeMappings(videoId, chunks, embeddings);
+
+  await prisma.$transaction([
+    prisma.contentChunk.deleteMany({ where: { videoId } }),
+    prisma.contentChunk.createMany({
+      data: chunks.map((chunk, index) => ({
+        videoId,
+        chunkIndex: index,
+        text: chunk.text,
+        startSeconds: chunk.startSeconds ?? null,
+        endSeconds: chunk.endSeconds ?? null,
+        embedding: embeddings[index],
+      })),
+    }),
+    ...mappingUpdates,
+  ]);
+
+  return chunks.length;
+}
+
+/**
+ * Re-index a document's text for search by meaning
+ * @returns Number of chunks indexed
+ * @throws {NotFoundError} If the document doesn't exist
+ */
+export async function indexDocumentChunks(
+  documentId: string,
+  options: { billing?: Billing } = {}
+): Promise<number> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: { s3Key: true, mimeType: true },
+  });
+  if (!document) {
+    throw new NotFoundError("Document not found");
+  }
+  if (!document.mimeType) {
+    return 0;
+  }
+
+  const pages = await extractDocumentPages(document.s3Key, document.mimeType);
+  // Only PDFs have real pages
+  const chunks =
+    document.mimeType === "application/pdf" ? chunkPages(pages) : chunkPlainText(pages.join("\n\n"));
+  const embeddings = await embedChunks(chunks, options.billing ?? {});
+
+  await prisma.$transaction([
+    prisma.contentChunk.deleteMany({ where: { documentId } }),
+    prisma.contentChunk.createMany({
+      data: chunks.map((chunk, index) => ({
+        documentId,
+        chunkIndex: index,
+        text: chunk.text,
+        pageNumber: chunk.pageNumber ?? null,
+        embedding: embeddings[index],
+      })),
+    }),
+  ]);
+
+  return chunks.length;
+}
@@ -0,0 +1,342 @@
+/**
+ * Content Search Service
+ *
+ * Searches videos and documents together in Postgres. Matching uses the
+ * full-text search_vector columns (title, videoCode, description and
+ * transcript for videos; title and description for documents), and filtering,
+ * sorting, counting and keyset pagination all happen in the database so only
+ * one page of rows is ever loaded. Matches come back with a highlighted
+ * snippet of the passage that matched.
+ *
+ * The search_vector columns are kept current by triggers in
+ * schema/sql/content-search.sql, which `yarn db:push` applies. Searching
+ * refuses to run without them rather than silently missing new content.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { ValidationError } from "@/lib/auth/types";
+import {
+  HEADLINE_OPTIONS,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  parseHeadline,
+} from "../lib/contentSearch";
+import {
+  documentCertificationSql,
+  loadDocumentCertifications,
+} from "./documentCertification.service";
+import type {
+  ContentSearchInput,
+  ContentSearchResult,
+  ContentSearchSort,
+  DifficultyLevel,
+  SearchSnippetSegment,
+  UnifiedContentItem,
+} from "../types/contentLibrary.types";
+
+const SEARCH_CONFIG = Prisma.raw("'english'");
+const SEARCH_TRIGGERS = ["videos_search_vector_trigger", "documents_search_vector_trigger"];
+
+// Set once the triggers have been seen, so the check runs until they exist
+let triggersVerified = false;
+
+/**
+ * Throws unless the search_vector triggers are installed
+ */
+async function assertSearchTriggersInstalled(): Promise<void> {
+  if (triggersVerified) return;
+
+  const installed = await prisma.$queryRaw<{ tgname: string }[]>`
+    SELECT tgname FROM pg_trigger
+    WHERE NOT tgisinternal AND tgname IN (${Prisma.join(SEARCH_TRIGGERS)})
+  `;
+  const missing = SEARCH_TRIGGERS.filter((name) => !installed.some((row) => row.tgname === name));
+  if (missing.length > 0) {
+    throw new Error(
+      `Content search is not set up: missing database triggers ${missing.join(", ")}. Run \`yarn db:push\` to install them.`
+    );
+  }
+
+  triggersVerified = true;
+}
+
+type Table = "video" | "document";
+
+interface MatchRow {
+  id: string;
+  content_type: Table;
+  sort_value: Date | string | number;
+}
+
+/**
+ * Expression each sort orders by, per table. Missing numbers sort as 0 so
+ * videos and documents interleave and the keyset comparison never sees NULL.
+ */
+function sortExpression(sort: ContentSearchSort, table: Table, tsQuery: Prisma.Sql): Prisma.Sql {
+  const alias = Prisma.raw(table === "video" ? "v" : "d");
+
+  switch (sort) {
+    case "relevance":
+      return Prisma.sql`ts_rank_cd(${alias}.search_vector, ${tsQuery})`;
+    case "updatedAt":
+      return Prisma.sql`${alias}.updated_at`;
+    case "title":
+      return Prisma.sql`lower(${alias}.title)`;
+    case "duration":
+      return table === "video" ? Prisma.sql`coalesce(v.duration, 0)` : Prisma.sql`0`;
+    case "fileSize":
+      return Prisma.sql`coalesce(${alias}.file_size, 0)`;
+    case "createdAt":
+    default:
+      return Prisma.sql`${alias}.created_at`;
+  }
+}
+
+// Cursor values come back from JSON, so cast them to the sort column's type
+function cursorValue(sort: ContentSearchSort, value: string | number): Prisma.Sql {
+  switch (sort) {
+    case "relevance":
+      return Prisma.sql`${Number(value)}::real`;
+    case "createdAt":
+    case "updatedAt":
+      return Prisma.sql`${String(value)}::timestamp`;
+    case "title":
+      return Prisma.sql`${String(value)}::text`;
+    default:
+      return Prisma.sql`${Number(value)}::int`;
+  }
+}
+
+function serializeSortValue(value: MatchRow["sort_value"]): string | number {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+// Escape LIKE wildcards so a video code is matched literally
+function likePrefix(value: string): string {
+  return `${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+/**
+ * One page of videos and documents matching the filters, with the total count
+ * @throws {ValidationError} If the cursor is malformed or was made for another sort
+ * @throws {Error} If the search_vector triggers are not installed
+ */
+export async function searchContent(input: ContentSearchInput): Promise<ContentSearchResult> {
+  await assertSearchTriggersInstalled();
+
+  const query = input.query?.trim() || null;
+  // Relevance needs a query to rank against
+  const requested = input.sortBy ?? (query ? "relevance" : "createdAt");
+  const sort: ContentSearchSort = requested === "relevance" && !query ? "createdAt" : requested;
+  const direction = Prisma.raw(input.sortOrder === "asc" ? "ASC" : "DESC");
+  const comparison = Prisma.raw(input.sortOrder === "asc" ? ">" : "<");
+  const pageSize = input.pageSize;
+
+  const cursor = input.cursor ? decodeSearchCursor(input.cursor, sort) : null;
+  if (input.cursor && !cursor) {
+    throw new ValidationError("Invalid page cursor; start the search again");
+  }
+
+  const tsQuery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query ?? ""})`;
+
+  // Conditions shared by both tables
+  const commonConditions = (alias: Prisma.Sql): Prisma.Sql[] => [
+    Prisma.sql`${alias}.is_active = true`,
+    ...(input.difficulty ? [Prisma.sql`${alias}.difficulty_level = ${input.difficulty}`] : []),
+    ...(input.dateFrom ? [Prisma.sql`${alias}.created_at >= ${new Date(input.dateFrom)}`] : []),
+    ...(input.dateTo ? [Prisma.sql`${alias}.created_at <= ${new Date(input.dateTo)}`] : []),
+  ];
+
+  const mappedCondition = (mappingTable: string, foreignKey: string, alias: string) => {
+    if (input.mappedStatus !== "mapped" && input.mappedStatus !== "unmapped") return [];
+    const exists = Prisma.sql`EXISTS (SELECT 1 FROM ${Prisma.raw(mappingTable)} m WHERE m.${Prisma.raw(foreignKey)} = ${Prisma.raw(alias)}.id)`;
+    return [input.mappedStatus === "mapped" ? exists : Prisma.sql`NOT ${exists}`];
+  };
+
+  const branches: Prisma.Sql[] = [];
+
+  if (!input.contentType || input.contentType === "video") {
+    const conditions = [
+      ...commonConditions(Prisma.raw("v")),
+      ...(query
+        ? [Prisma.sql`(v.search_vector @@ ${tsQuery} OR v.video_code ILIKE ${likePrefix(query)})`]
+        : []),
+      ...(input.certificationId ? [Prisma.sql`v.certification_id = ${input.certificationId}`] : []),
+      ...mappedCondition("video_content_mappings", "video_id", "v"),
+    ];
+    branches.push(Prisma.sql`
+      SELECT v.id, 'video' AS content_type, ${sortExpression(sort, "video", tsQuery)} AS sort_value
+      FROM videos v
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `);
+  }
+
+  if (!input.contentType || input.contentType === "document") {
+    // Documents match a certification directly or through their mappings
+    const conditions = [
+      ...commonConditions(Prisma.raw("d")),
+      ...(query ? [Prisma.sql`d.search_vector @@ ${tsQuery}`] : []),
+      ...(input.certificationId ? [documentCertificationSql("d", input.certificationId)] : []),
+      ...mappedCondition("document_content_mappings", "document_id", "d"),
+    ];
+    branches.push(Prisma.sql`
+      SELECT d.id, 'document' AS content_type, ${sortExpression(sort, "document", tsQuery)} AS sort_value
+      FROM documents d
+      WHERE ${Prisma.join(conditions, " AND ")}
+    `);
+  }
+
+  const matches = Prisma.join(branches, " UNION ALL ");
+  const keyset = cursor
+    ? Prisma.sql`WHERE (sort_value, id) ${comparison} (${cursorValue(sort, cursor.value)}, ${cursor.id})`
+    : Prisma.empty;
+
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<MatchRow[]>`
+      WITH matches AS (${matches})
+      SELECT id, content_type, sort_value
+      FROM matches
+      ${keyset}
+      ORDER BY sort_value ${direction}, id ${direction}
+      LIMIT ${pageSize + 1}
+    `,
+    prisma.$queryRaw<{ total: number }[]>`
+      WITH matches AS (${matches})
+      SELECT count(*)::int AS total FROM matches
+    `,
+  ]);
+
+  const page = rows.slice(0, pageSize);
+  const last = page[page.length - 1];
+  const nextCursor =
+    rows.length > pageSize && last
+      ? encodeSearchCursor({ sort, value: serializeSortValue(last.sort_value), id: last.id })
+      : null;
+
+  return {
+    items: await loadItems(page, query),
+    total,
+    pageSize,
+    nextCursor,
+  };
+}
+
+/**
+ * Full rows for a page of matches, in match order, with snippets when searching
+ */
+async function loadItems(page: MatchRow[], query: string | null): Promise<UnifiedContentItem[]> {
+  const videoIds = page.filter((row) => row.content_type === "video").map((row) => row.id);
+  const documentIds = page.filter((row) => row.content_type === "document").map((row) => row.id);
+
+  const [videos, documents, documentCertifications, snippets] = await Promise.all([
+    videoIds.length
+      ? prisma.video.findMany({
+          where: { id: { in: videoIds } },
+          include: {
+            certification: { select: { name: true, code: true } },
+            contentMappings: { select: { id: true, isPrimary: true } },
+          },
+        })
+      : [],
+    documentIds.length
+      ? prisma.document.findMany({
+          where: { id: { in: documentIds } },
+          include: { contentMappings: { select: { id: true, isPrimary: true } } },
+        })
+      : [],
+    loadDocumentCertifications(documentIds),
+    query ? loadSnippets(videoIds, documentIds, query) : new Map<string, SearchSnippetSegment[]>(),
+  ]);
+
+  const items = new Map<string, UnifiedContentItem>();
+
+  for (const v of videos) {
+    items.set(v.id, {
+      id: v.id,
+      contentType: "video",
+      title: v.title,
+      description: v.description,
+      fileSize: v.fileSize,
+      difficultyLevel: v.difficultyLevel as DifficultyLevel,
+      createdAt: v.createdAt,
+      updatedAt: v.updatedAt,
+      duration: v.duration,
+      thumbnailUrl: v.thumbnailUrl,
+      videoCode: v.videoCode,
+      transcript: v.transcript,
+      transcriptionStatus: v.transcriptionStatus,
+      certificationId: v.certificationId,
+      certification: v.certification,
+      mappingCount: v.contentMappings.length,
+      isPrimaryFor: v.contentMappings.filter((m) => m.isPrimary).length,
+      snippet: snippets.get(v.id),
+    });
+  }
+
+  for (const d of documents) {
+    const certifications = documentCertifications.get(d.id) ?? [];
+    items.set(d.id, {
+      id: d.id,
+      contentType: "document",
+      title: d.title,
+      description: d.description,
+      fileSize: d.fileSize,
+      difficultyLevel: d.difficultyLevel as DifficultyLevel,
+      createdAt: d.createdAt,
+      updatedAt: d.updatedAt,
+      type: d.type,
+      version: d.version,
+      certificationId: certifications[0]?.id ?? null,
+      certification: certifications[0]
+        ? { name: certifications[0].name, code: certifications[0].code }
+        : null,
+      certifications,
+      mappingCount: d.contentMappings.length,
+      isPrimaryFor: d.contentMappings.filter((m) => m.isPrimary).length,
+      snippet: snippets.get(d.id),
+    });
+  }
+
+  return page.flatMap((row) => {
+    const item = items.get(row.id);
+    return item ? [item] : [];
+  });
+}
+
+/**
+ * Highlighted passages for a page of matches. Only the page is headlined, as
+ * ts_headline re-parses the whole text.
+ */
+async function loadSnippets(
+  videoIds: string[],
+  documentIds: string[],
+  query: string
+): Promise<Map<string, SearchSnippetSegment[]>> {
+  const tsQuery = Prisma.sql`websearch_to_tsquery(${SEARCH_CONFIG}, ${query})`;
+
+  const [videoSnippets, documentSnippets] = await Promise.all([
+    videoIds.length
+      ? prisma.$queryRaw<{ id: string; headline: string | null }[]>`
+          SELECT id, ts_headline(${SEARCH_CONFIG}, concat_ws(' ', description, transcript), ${tsQuery}, ${HEADLINE_OPTIONS}) AS headline
+          FROM videos
+          WHERE id IN (${Prisma.join(videoIds)})
+        `
+      : [],
+    documentIds.length
+      ? prisma.$queryRaw<{ id: string; headline: string | null }[]>`
+          SELECT id, ts_headline(${SEARCH_CONFIG}, coalesce(description, ''), ${tsQuery}, ${HEADLINE_OPTIONS}) AS headline
+          FROM documents
+          WHERE id IN (${Prisma.join(documentIds)})
+        `
+      : [],
+  ]);
+
+  return new Map(
+    [...videoSnippets, ...documentSnippets].flatMap((row) => {
+      const segments = parseHeadline(row.headline);
+      // Only worth showing when the passage itself matched (not just the title)
+      return segments.some((segment) => segment.highlighted) ? [[row.id, segments]] : [];
+    })
+  );
+}
@@ -1,39 +1,38 @@
 /**
  * AI Document Mapping Service
  *
- * Uses Claude AI to analyze document content and suggest mappings to
- * certification objectives, bullets, and sub-bullets.
+ * Uses the AI gateway ("mapping" task) to analyze document content and suggest
+ * mappings to certification objectives, bullets, and sub-bullets.
  *
- * Strategy: Claude API for semantic analysis
+ * Strategy: LLM semantic analysis
  * - Extract text from document (PDF/DOCX/TXT)
- * - Send to Claude with certification content structure
- * - Claude analyzes and suggests top N mappings with confidence scores
+ * - Send to the mapping model with certification content structure
+ * - The model analyzes and suggests top N mappings with confidence scores
  * - Prefer lowest level (sub-bullets > bullets > objectives)
  */
 
-import Anthropic from "@anthropic-ai/sdk";
+import { z } from "zod";
+import { aiGateway } from "@/lib/ai/gateway";
+import { renderStoredPrompt } from "@/lib/ai/promptStore";
 import { prisma } from "@/lib/prisma";
 import { extractTextFromDocument, truncateText } from "./textExtraction.service";
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
 const CONFIDENCE_THRESHOLD = 0.6; // 60% minimum confidence
 const MAX_SUGGESTIONS = 5; // Top 5 suggestions
 
-/**
- * Get the active AI model from the database
- */
-async function getActiveAIModel(): Promise<string> {
-  const activeModel = await prisma.aIModel.findFirst({
-    where: { isActive: true },
-    orderBy: { createdAt: "desc" },
-  });
+const mappingResponseSchema = z.object({
+  matches: z.array(
+    z.object({
+      objectiveId: z.string().nullish(),
+      bulletId: z.string().nullish(),
+      subBulletId: z.string().nullish(),
+      confidence: z.number(),
+      reason: z.string().optional(),
+    })
+  ),
+});
 
-  // Fallback to Claude 3.5 Sonnet if no active model found
-  return activeModel?.modelId || "claude-3-5-sonnet-20241022";
-}
+type MappingMatch = z.infer<typeof mappingResponseSchema>["matches"][number];
 
 export interface DocumentMappingSuggestion {
   // Content identity (only ONE will be populated)
@@ -87,7 +86,7 @@ export async function suggestMappingsForDocument(
   try {
     documentText = await extractTextFromDocument(document.s3Key, document.mimeType);
 
-    // Truncate if too long (Claude has 200k token limit, but we want to be conservative)
+    // Truncate if too long (models have large context windows, but we want to be conservative)
     documentText = truncateText(documentText, 50000);
 
     if (!documentText || documentText.trim().length === 0) {
@@ -99,9 +98,66 @@ export async function suggestMappingsForDocument(
   }
 
   // 3. Get certification content structure
+  const contentStructure = await loadMappingContentStructure(certificationId);
+  if (contentStructure.length === 0) {
+    return []; // No content to map to
+  }
+
+  // 4. Render the certification's live mapping prompt
+  const certification = await prisma.certification.findUnique({
+    where: { id: certificationId },
+    select: { name: true },
+  });
+  const prompt = await renderStoredPrompt(
+    "document_mapping",
+    {
+      certificationName: certification?.name,
+      documentText,
+      contentStructure: JSON.stringify(contentStructure, null, 2),
+    },
+    certificationId
+  );
+
+  // 5. Ask the mapping model to analyze and suggest mappings
+  try {
+    const { data } = await aiGateway.generateJSON({
+      task: "mapping",
+      usage: { feature: "document_mapping", certificationId },
+      prompt,
+      maxTokens: 4096,
+      schema: mappingResponseSchema,
+    });
+
+    // 6. Resolve the matches against the content structure
+    const suggestions = resolveMappingMatches(data.matches, contentStructure);
+
+    // 7. Sort by confidence and take top N
+    suggestions.sort((a, b) => b.confidence - a.confidence);
+    const topSuggestions = suggestions
+      .filter((s) => s.confidence >= CONFIDENCE_THRESHOLD)
+      .slice(0, MAX_SUGGESTIONS);
+
+    // 8. Mark highest confidence as primary
+    if (topSuggestions.length > 0) {
+      topSuggestions[0].isPrimarySuggestion = true;
+    }
+
+    return topSuggestions;
+  } catch (error) {
+    console.error("[suggestMappingsForDocument] AI mapping error:", error);
+    return [];
+  }
+}
+
+/**
+ * Domains, objectives, bullets and sub-bullets (with IDs) the mapping model
+ * picks from, optionally limited to some domains
+ */
+export async function loadMappingContentStructure(certificationId: string, domainIds?: string[]) {
   const domains = await prisma.certificationDomain.findMany({
     where: {
       certificationId,
+      ...(domainIds && { id: { in: domainIds } }),
     },
     include: {
       objectives: {
@@ -116,12 +172,7 @@ export async function suggestMappingsForDocument(
     },
   });
 
-  if (domains.length === 0) {
-    return []; // No content to map to
-  }
-
-  // 4. Build content structure for Claude
-  const contentStructure = domains.map((domain) => ({
+  return domains.map((domain) => ({
     domain: {
       id: domain.id,
       name: domain.name,
@@ -140,120 +191,21 @@ export async function suggestMappingsForDocument(
       })),
     })),
   }));
-
-  // 5. Get active AI model from database
-  const modelId = await getActiveAIModel();
-
-  // 6. Call Claude API to analyze and suggest mappings
-  try {
-    const response = await anthropic.messages.create({
-      model: modelId,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: "user",
-          content: buildMappingPrompt(documentText, contentStructure),
-        },
-      ],
-    });
-
-    // 6. Parse Claude's response
-    const textContent = response.content.find((block) => block.type === "text");
-    if (!textContent || textContent.type !== "text") {
-      return [];
-    }
-
-    const suggestions = parseClaudeResponse(textContent.text, contentStructure);
-
-    // 7. Sort by confidence and take top N
-    suggestions.sort((a, b) => b.confidence - a.confidence);
-    const topSuggestions = suggestions
-      .filter((s) => s.confidence >= CONFIDENCE_THRESHOLD)
-      .slice(0, MAX_SUGGESTIONS);
-
-    // 8. Mark highest confidence as primary
-    if (topSuggestions.length > 0) {
-      topSuggestions[0].isPrimarySuggestion = true;
-    }
-
-    return topSuggestions;
-  } catch (error) {
-    console.error("[suggestMappingsForDocument] Claude API error:", error);
-    return [];
-  }
-}
-
-/**
- * Build prompt for Claude to analyze document and suggest mappings
- */
-function buildMappingPrompt(
-  documentText: string,
-  contentStructure: any[]
-): string {
-  return `You are an expert at analyzing study materials and mapping them to certification exam objectives.
-
-I have a document with the following content:
-
-<document>
-${documentText}
-</document>
-
-I need you to analyze this document and suggest which certification objectives, bullets, or sub-bullets it best maps to. Here is the certification content structure:
-
-${JSON.stringify(contentStructure, null, 2)}
-
-Your task:
-1. Analyze the document content
-2. Identify which objectives/bullets/sub-bullets this document covers
-3. Prefer the LOWEST LEVEL possible (sub-bullets > bullets > objectives)
-4. Return the top 5 best matches with confidence scores (0.0 to 1.0)
-
-Return your response as a JSON array in this exact format:
-[
-  {
-    "objectiveId": "obj_id_here" (or null if mapping to bullet/sub-bullet),
-    "bulletId": "bullet_id_here" (or null if mapping to objective/sub-bullet),
-    "subBulletId": "sub_bullet_id_here" (or null if mapping to objective/bullet),
-    "confidence": 0.95,
-    "reason": "Brief explanation of why this matches"
-  }
-]
-
-Important:
-- Only ONE of objectiveId, bulletId, or subBulletId should be populated per match
-- Confidence should be between 0.0 and 1.0
-- Only suggest matches with confidence >= 0.6
-- Return empty array [] if no good matches found
-
-Return ONLY the JSON array, no other text.`;
 }
 
 /**
- * Parse Claude's JSON response into DocumentMappingSuggestion[]
+ * Resolve the model's matches into DocumentMappingSuggestion[],
+ * dropping IDs that aren't in the certification
  */
-function parseClaudeResponse(
-  responseText: string,
+function resolveMappingMatches(
+  matches: MappingMatch[],
   contentStructure: any[]
 ): DocumentMappingSuggestion[] {
   try {
-    // Extract JSON from response (Claude might wrap it in markdown code blocks)
-    let jsonText = responseText.trim();
-    if (jsonText.startsWith("```json")) {
-      jsonText = jsonText.replace(/```json\n?/, "").replace(/```\n?$/, "");
-    } else if (jsonText.startsWith("```")) {
-      jsonText = jsonText.replace(/```\n?/, "").replace(/```\n?$/, "");
-    }
-
-    const parsedMatches = JSON.parse(jsonText);
-
-    if (!Array.isArray(parsedMatches)) {
-      return [];
-    }
-
     // Transform to DocumentMappingSuggestion format
     const suggestions: DocumentMappingSuggestion[] = [];
 
-    for (const match of parsedMatches) {
+    for (const match of matches) {
       const { objectiveId, bulletId, subBulletId, confidence } = match;
 
       // Skip if confidence too low
@@ -333,7 +285,7 @@ function parseClaudeResponse(
 
     return suggestions;
   } catch (error) {
-    console.error("[parseClaudeResponse] Parse error:", error);
+    console.error("[resolveMappingMatches] Resolve error:", error);
     return [];
   }
 }
@@ -0,0 +1,162 @@
+/**
+ * Document Certification Service
+ *
+ * Documents belong to certifications in two ways: assigned directly
+ * (DocumentCertification rows) or derived from their content mappings, since
+ * every objective, bullet and sub-bullet sits in one certification. Derived
+ * membership is worked out at query time so it never drifts from the
+ * mappings. This gives documents the same certification filtering, stats and
+ * bulk re-mapping as videos.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { mergeDocumentCertifications } from "../lib/documentCertifications";
+import type { ContentCertification } from "../types/contentLibrary.types";
+
+/**
+ * (document_id, certification_id) pairs implied by document content mappings
+ */
+const DERIVED_PAIRS = Prisma.sql`
+  SELECT DISTINCT m.document_id, dm.certification_id
+  FROM document_content_mappings m
+  LEFT JOIN bullets b ON b.id = m.bullet_id
+  LEFT JOIN sub_bullets sb ON sb.id = m.sub_bullet_id
+  LEFT JOIN bullets sbb ON sbb.id = sb.bullet_id
+  JOIN certification_objectives o ON o.id = coalesce(m.objective_id, b.objective_id, sbb.objective_id)
+  JOIN certification_domains dm ON dm.id = o.domain_id
+`;
+
+/**
+ * Every (document_id, certification_id) pair, direct or derived
+ */
+const DOCUMENT_CERTIFICATION_PAIRS = Prisma.sql`
+  SELECT document_id, certification_id FROM document_certifications
+  UNION
+  ${DERIVED_PAIRS}
+`;
+
+/**
+ * Prisma filter for documents in a certification, directly or through mappings
+ */
+export function documentCertificationWhere(certificationId: string): Prisma.DocumentWhereInput {
+  const inDomain = { domain: { certificationId } };
+
+  return {
+    OR: [
+      { certifications: { some: { certificationId } } },
+      {
+        contentMappings: {
+          some: {
+            OR: [
+              { objective: inDomain },
+              { bullet: { objective: inDomain } },
+              { subBullet: { bullet: { objective: inDomain } } },
+            ],
+          },
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * SQL condition for raw queries: the aliased document is in the certification
+ */
+export function documentCertificationSql(alias: string, certificationId: string): Prisma.Sql {
+  return Prisma.sql`${Prisma.raw(alias)}.id IN (
+    SELECT document_id FROM (${DOCUMENT_CERTIFICATION_PAIRS}) pairs
+    WHERE pairs.certification_id = ${certificationId}
+  )`;
+}
+
+/**
+ * Certifications of each document, direct assignments first
+ */
+export async function loadDocumentCertifications(
+  documentIds: string[]
+): Promise<Map<string, ContentCertification[]>> {
+  if (documentIds.length === 0) return new Map();
+
+  const [direct, derived] = await Promise.all([
+    prisma.documentCertification.findMany({
+      where: { documentId: { in: documentIds } },
+      select: { documentId: true, certification: { select: { id: true, name: true, code: true } } },
+    }),
+    prisma.$queryRaw<{ document_id: string; id: string; name: string; code: string }[]>`
+      SELECT derived.document_id, c.id, c.name, c.code
+      FROM (${DERIVED_PAIRS}) derived
+      JOIN certifications c ON c.id = derived.certification_id
+      WHERE derived.document_id IN (${Prisma.join(documentIds)})
+    `,
+  ]);
+
+  return new Map(
+    documentIds.map((documentId) => [
+      documentId,
+      mergeDocumentCertifications(
+        direct.filter((row) => row.documentId === documentId).map((row) => row.certification),
+        derived
+          .filter((row) => row.document_id === documentId)
+          .map(({ id, name, code }) => ({ id, name, code }))
+      ),
+    ])
+  );
+}
+
+/**
+ * Active documents per certification, plus how many belong to none
+ */
+export async function countDocumentsByCertification(): Promise<{
+  byCertification: { certificationId: string; count: number }[];
+  unassigned: number;
+}> {
+  const [byCertification, [{ unassigned }]] = await Promise.all([
+    prisma.$queryRaw<{ certificationId: string; count: number }[]>`
+      SELECT pairs.certification_id AS "certificationId", count(DISTINCT pairs.document_id)::int AS count
+      FROM (${DOCUMENT_CERTIFICATION_PAIRS}) pairs
+      JOIN documents d ON d.id = pairs.document_id
+      WHERE d.is_active = true
+      GROUP BY pairs.certification_id
+    `,
+    prisma.$queryRaw<{ unassigned: number }[]>`
+      SELECT count(*)::int AS unassigned
+      FROM documents d
+      WHERE d.is_active = true
+        AND d.id NOT IN (SELECT document_id FROM (${DOCUMENT_CERTIFICATION_PAIRS}) pairs)
+    `,
+  ]);
+
+  return { byCertification, unassigned };
+}
+
+/**
+ * Replace the certifications documents are directly assigned to. Derived
+ * certifications are untouched; they follow the documents' mappings.
+ * @returns Number of documents updated
+ */
+export async function setDocumentCertifications(
+  documentIds: string[],
+  certificationIds: string[],
+  assignedBy: string
+): Promise<number> {
+  const documents = await prisma.document.findMany({
+    where: { id: { in: documentIds }, isActive: true },
+    select: { id: true },
+  });
+  const ids = documents.map((document) => document.id);
+
+  await prisma.$transaction([
+    prisma.documentCertification.deleteMany({
+      where: { documentId: { in: ids }, certificationId: { notIn: certificationIds } },
+    }),
+    prisma.documentCertification.createMany({
+      data: ids.flatMap((documentId) =>
+        certificationIds.map((certificationId) => ({ documentId, certificationId, assignedBy }))
+      ),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return ids.length;
+}
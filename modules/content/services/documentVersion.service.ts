@@ -0,0 +1,270 @@
+/**
+ * Document Version Service
+ *
+ * History of a document's uploaded files. Uploading a new version keeps the
+ * old file in S3, points the document at the new one and records who uploaded
+ * it and why. Content mappings belong to the document rather than a file, so
+ * they carry forward; when the text changed significantly AI mapping can be
+ * re-run, adding its picks as suggestions next to the existing mappings.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { NotFoundError } from "@/lib/auth/types";
+import { diffTextLines, textChangeRatio } from "../lib/documentVersions";
+import { suggestMappingsForDocument } from "./documentAIMapping.service";
+import { loadDocumentCertifications } from "./documentCertification.service";
+import { extractTextFromDocument } from "./textExtraction.service";
+import type {
+  DocumentVersionComparison,
+  DocumentVersionHistory,
+  DocumentVersionSource,
+} from "../types/document.types";
+
+export interface DocumentFile {
+  s3Key: string;
+  url: string;
+  type: string;
+  fileSize: number | null;
+  mimeType: string | null;
+}
+
+/**
+ * Extract a file's text, or null when it can't be read
+ */
+async function extractFileText(file: { s3Key: string; mimeType: string | null }): Promise<string | null> {
+  if (!file.mimeType) return null;
+
+  try {
+    return await extractTextFromDocument(file.s3Key, file.mimeType);
+  } catch (error) {
+    console.error("[DocumentVersions] Text extraction failed:", error);
+    return null;
+  }
+}
+
+/**
+ * A version's text, extracted from its file (and kept) the first time it's needed
+ */
+async function versionText(version: {
+  id: string;
+  s3Key: string;
+  mimeType: string | null;
+  extractedText: string | null;
+}): Promise<string | null> {
+  if (version.extractedText !== null) return version.extractedText;
+
+  const text = await extractFileText(version);
+  if (text !== null) {
+    await prisma.documentVersion.update({ where: { id: version.id }, data: { extractedText: text } });
+  }
+  return text;
+}
+
+/**
+ * Upload a new version of a document's file. Documents from before versions
+ * were tracked get their current file saved as an "original" version first,
+ * so it stays downloadable and comparable.
+ * @returns The new version number and how much of the text changed
+ * @throws {NotFoundError} If the document doesn't exist
+ */
+export async function addDocumentVersion(
+  documentId: string,
+  file: DocumentFile,
+  meta: { uploadedById: string; changeNote?: string | null }
+): Promise<{ version: number; textChangeRatio: number | null }> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      s3Key: true,
+      url: true,
+      type: true,
+      fileSize: true,
+      mimeType: true,
+      version: true,
+      uploadedBy: true,
+      createdAt: true,
+    },
+  });
+  if (!document) {
+    throw new NotFoundError("Document not found");
+  }
+
+  let previous = await prisma.documentVersion.findUnique({
+    where: { documentId_version: { documentId, version: document.version } },
+  });
+  if (!previous) {
+    // uploadedBy is a plain user ID; only link it while the user still exists
+    const uploader = document.uploadedBy
+      ? await prisma.user.findUnique({ where: { id: document.uploadedBy }, select: { id: true } })
+      : null;
+
+    previous = await prisma.documentVersion.create({
+      data: {
+        documentId,
+        version: document.version,
+        s3Key: document.s3Key,
+        url: document.url,
+        type: document.type,
+        fileSize: document.fileSize,
+        mimeType: document.mimeType,
+        source: "original",
+        uploadedById: uploader?.id ?? null,
+        createdAt: document.createdAt,
+      },
+    });
+  }
+
+  const [before, after] = await Promise.all([versionText(previous), extractFileText(file)]);
+  const ratio = before !== null && after !== null ? textChangeRatio(diffTextLines(before, after)) : null;
+  const version = document.version + 1;
+
+  await prisma.$transaction([
+    prisma.documentVersion.create({
+      data: {
+        documentId,
+        version,
+        ...file,
+        changeNote: meta.changeNote || null,
+        source: "upload",
+        extractedText: after,
+        textChangeRatio: ratio,
+        uploadedById: meta.uploadedById,
+      },
+    }),
+    prisma.document.update({
+      where: { id: documentId },
+      data: { ...file, version },
+    }),
+  ]);
+
+  return { version, textChangeRatio: ratio };
+}
+
+/**
+ * Every version of a document, newest first
+ * @throws {NotFoundError} If the document doesn't exist
+ */
+export async function loadVersionHistory(documentId: string): Promise<DocumentVersionHistory> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      id: true,
+      version: true,
+      versions: {
+        orderBy: { version: "desc" },
+        omit: { extractedText: true },
+        include: { uploadedBy: { select: { id: true, name: true, email: true } } },
+      },
+    },
+  });
+  if (!document) {
+    throw new NotFoundError("Document not found");
+  }
+
+  return {
+    documentId: document.id,
+    currentVersion: document.version,
+    versions: document.versions.map((version) => ({
+      id: version.id,
+      version: version.version,
+      type: version.type,
+      fileSize: version.fileSize,
+      mimeType: version.mimeType,
+      changeNote: version.changeNote,
+      source: version.source as DocumentVersionSource,
+      textChangeRatio: version.textChangeRatio,
+      uploadedBy: version.uploadedBy,
+      createdAt: version.createdAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Line diff of the extracted text of two versions of a document
+ * @throws {NotFoundError} If either version doesn't exist or has no readable text
+ */
+export async function diffDocumentVersions(
+  documentId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<DocumentVersionComparison> {
+  const versions = await prisma.documentVersion.findMany({
+    where: { documentId, version: { in: [fromVersion, toVersion] } },
+    select: { id: true, version: true, s3Key: true, mimeType: true, extractedText: true },
+  });
+  const from = versions.find((version) => version.version === fromVersion);
+  const to = versions.find((version) => version.version === toVersion);
+  if (!from || !to) {
+    throw new NotFoundError("Document version not found");
+  }
+
+  const [before, after] = await Promise.all([versionText(from), versionText(to)]);
+  if (before === null || after === null) {
+    throw new NotFoundError("Could not read the text of both versions");
+  }
+
+  const lines = diffTextLines(before, after);
+  return { fromVersion, toVersion, lines, changeRatio: textChangeRatio(lines) };
+}
+
+/**
+ * S3 keys of every file a document has had, current one included
+ */
+export async function documentFileKeys(documentId: string): Promise<string[]> {
+  const [document, versions] = await Promise.all([
+    prisma.document.findUnique({ where: { id: documentId }, select: { s3Key: true } }),
+    prisma.documentVersion.findMany({ where: { documentId }, select: { s3Key: true } }),
+  ]);
+
+  return [...new Set([...(document ? [document.s3Key] : []), ...versions.map((v) => v.s3Key)])];
+}
+
+/**
+ * Re-run AI mapping for a document in each of its certifications. New picks
+ * are added as "ai_suggested" mappings; existing mappings are left alone.
+ * @returns Number of mappings added
+ */
+export async function remapDocument(documentId: string): Promise<number> {
+  const [certifications, existing] = await Promise.all([
+    loadDocumentCertifications([documentId]),
+    prisma.documentContentMapping.findMany({
+      where: { documentId },
+      select: { objectiveId: true, bulletId: true, subBulletId: true },
+    }),
+  ]);
+
+  const mapped = new Set(
+    existing.map((mapping) => mapping.subBulletId ?? mapping.bulletId ?? mapping.objectiveId)
+  );
+  const data: {
+    documentId: string;
+    objectiveId: string | null;
+    bulletId: string | null;
+    subBulletId: string | null;
+    confidence: number;
+    mappingSource: string;
+  }[] = [];
+
+  for (const certification of certifications.get(documentId) ?? []) {
+    const suggestions = await suggestMappingsForDocument(documentId, certification.id);
+
+    for (const suggestion of suggestions) {
+      const target = suggestion.subBulletId ?? suggestion.bulletId ?? suggestion.objectiveId;
+      if (!target || mapped.has(target)) continue;
+
+      mapped.add(target);
+      data.push({
+        documentId,
+        objectiveId: suggestion.objectiveId ?? null,
+        bulletId: suggestion.bulletId ?? null,
+        subBulletId: suggestion.subBulletId ?? null,
+        confidence: suggestion.confidence,
+        mappingSource: "ai_suggested",
+      });
+    }
+  }
+
+  if (data.length === 0) return 0;
+  const created = await prisma.documentContentMapping.createMany({ data });
+  return created.count;
+}
@@ -1,30 +1,33 @@
 /**
- * OpenAI Embedding Service
+ * Embedding Service
  *
- * Handles text embedding generation using OpenAI's text-embedding-3-small model.
+ * Handles text embedding generation through the AI gateway ("embedding" task,
+ * text-embedding-3-small unless another model is assigned).
  * Embeddings are used for semantic similarity comparisons between video transcripts
  * and certification objectives/bullets/sub-bullets.
  *
- * Model: text-embedding-3-small
+ * Default model: text-embedding-3-small
  * - Dimensions: 1536
  * - Cost: $0.00002 per 1K tokens (~$0.0003 per video)
  * - Speed: ~1-2 seconds per request
  */
 
-import OpenAI from "openai";
+import { aiGateway } from "@/lib/ai/gateway";
+import type { AIUsageContext } from "@/lib/ai/types";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-const EMBEDDING_MODEL = "text-embedding-3-small";
 const EMBEDDING_DIMENSIONS = 1536;
 const MAX_TOKENS_PER_REQUEST = 8000; // Safety margin below 8191 limit
 
+// User and certification embedding calls are billed to
+type EmbeddingBilling = Omit<AIUsageContext, "feature">;
+
 /**
  * Create an embedding vector for a single text
  */
-export async function createEmbedding(text: string): Promise<number[]> {
+export async function createEmbedding(
+  text: string,
+  billing: EmbeddingBilling = {}
+): Promise<number[]> {
   if (!text || text.trim().length === 0) {
     throw new Error("Text cannot be empty for embedding generation");
   }
@@ -33,13 +36,11 @@ export async function createEmbedding(text: string): Promise<number[]> {
   const maxChars = MAX_TOKENS_PER_REQUEST * 4;
   const truncatedText = text.slice(0, maxChars);
 
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncatedText,
-    encoding_format: "float",
+  const { embeddings } = await aiGateway.embed([truncatedText], {
+    usage: { ...billing, feature: "embedding" },
   });
 
-  return response.data[0].embedding;
+  return embeddings[0];
 }
 
 /**
@@ -47,7 +48,8 @@ export async function createEmbedding(text: string): Promise<number[]> {
  * More efficient than individual calls
  */
 export async function createEmbeddingsBatch(
-  texts: string[]
+  texts: string[],
+  billing: EmbeddingBilling = {}
 ): Promise<number[][]> {
   if (texts.length === 0) {
     return [];
@@ -64,14 +66,11 @@ export async function createEmbeddingsBatch(
   const maxChars = MAX_TOKENS_PER_REQUEST * 4;
   const truncatedTexts = validTexts.map((text) => text.slice(0, maxChars));
 
-  const response = await openai.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: truncatedTexts,
-    encoding_format: "float",
+  const { embeddings } = await aiGateway.embed(truncatedTexts, {
+    usage: { ...billing, feature: "embedding" },
   });
 
-  // Map embeddings back to original order
-  return response.data.map((item) => item.embedding);
+  return embeddings;
 }
 
 /**
@@ -49,7 +49,7 @@ export async function generateCertificationEmbeddings(
 
     for (const domain of domains) {
       try {
-        const embedding = await createEmbedding(domain.name);
+        const embedding = await createEmbedding(domain.name, { certificationId });
         const buffer = embeddingToBuffer(embedding);
 
         await prisma.certificationDomain.update({
@@ -87,7 +87,7 @@ export async function generateCertificationEmbeddings(
       const texts = batch.map((obj) => `${obj.code}: ${obj.description}`);
 
       try {
-        const embeddings = await createEmbeddingsBatch(texts);
+        const embeddings = await createEmbeddingsBatch(texts, { certificationId });
 
         for (let j = 0; j < batch.length; j++) {
           const buffer = embeddingToBuffer(embeddings[j]);
@@ -140,7 +140,7 @@ export async function generateCertificationEmbeddings(
       );
 
       try {
-        const embeddings = await createEmbeddingsBatch(texts);
+        const embeddings = await createEmbeddingsBatch(texts, { certificationId });
 
         for (let j = 0; j < batch.length; j++) {
           const buffer = embeddingToBuffer(embeddings[j]);
@@ -200,7 +200,7 @@ export async function generateCertificationEmbeddings(
       );
 
       try {
-        const embeddings = await createEmbeddingsBatch(texts);
+        const embeddings = await createEmbeddingsBatch(texts, { certificationId });
 
         for (let j = 0; j < batch.length; j++) {
           const buffer = embeddingToBuffer(embeddings[j]);
@@ -0,0 +1,190 @@
+/**
+ * Semantic Search Service
+ *
+ * Search by meaning across videos, documents and questions. The query is
+ * embedded and compared against the indexed content chunks (see
+ * contentChunk.service.ts) and the question bank's cached embeddings.
+ *
+ * Chunk embeddings live in the database alongside the other embeddings and
+ * are compared in-process: chunks are scanned in batches and only the best
+ * matches are kept, so memory stays flat as the library grows. Videos and
+ * documents are scanned separately, each narrowed to active content in the
+ * chosen certification before any embedding is read, so neither type can
+ * crowd the other out. Results point at the moments in videos and pages in
+ * documents that matched.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { findQuestionsByMeaning } from "@/modules/admin/questions/services/questionDuplicate.service";
+import { documentCertificationWhere } from "./documentCertification.service";
+import { bufferToEmbedding, cosineSimilarity, createEmbedding } from "./embedding.service";
+import {
+  SEMANTIC_MIN_SIMILARITY,
+  groupChunkMatches,
+  keepTopMatches,
+  type ChunkMatch,
+} from "../lib/semanticSearch";
+import type {
+  SemanticSearchInput,
+  SemanticSearchResult,
+} from "../types/contentLibrary.types";
+
+const SCAN_BATCH_SIZE = 500;
+const MAX_QUESTIONS = 5;
+
+// Chunks of active content the filters allow, one scope per content type
+function chunkScopes(input: SemanticSearchInput): Prisma.ContentChunkWhereInput[] {
+  const scopes: Prisma.ContentChunkWhereInput[] = [];
+
+  if (input.contentType !== "document") {
+    scopes.push({
+      videoId: { not: null },
+      video: { isActive: true, ...(input.certificationId && { certificationId: input.certificationId }) },
+    });
+  }
+  if (input.contentType !== "video") {
+    scopes.push({
+      documentId: { not: null },
+      document: {
+        isActive: true,
+        ...(input.certificationId && documentCertificationWhere(input.certificationId)),
+      },
+    });
+  }
+
+  return scopes;
+}
+
+/**
+ * Best-matching chunks for a query embedding, scanned a batch at a time
+ */
+async function scanChunks(target: number[], where: Prisma.ContentChunkWhereInput): Promise<ChunkMatch[]> {
+  let top: ChunkMatch[] = [];
+  let cursor: string | undefined;
+
+  for (;;) {
+    const batch = await prisma.contentChunk.findMany({
+      where,
+      select: { id: true, videoId: true, documentId: true, embedding: true },
+      orderBy: { id: "asc" },
+      take: SCAN_BATCH_SIZE,
+      ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+    });
+    if (batch.length === 0) break;
+
+    top = keepTopMatches(
+      top,
+      batch.map((chunk) => ({
+        chunkId: chunk.id,
+        videoId: chunk.videoId,
+        documentId: chunk.documentId,
+        similarity: cosineSimilarity(target, bufferToEmbedding(Buffer.from(chunk.embedding))),
+      }))
+    );
+
+    if (batch.length < SCAN_BATCH_SIZE) break;
+    cursor = batch[batch.length - 1].id;
+  }
+
+  return top;
+}
+
+/**
+ * Videos (with the moments that matched), documents (with the pages that
+ * matched) and related questions for a natural-language query, best first
+ */
+export async function searchByMeaning(
+  input: SemanticSearchInput,
+  billing: { userId?: string } = {}
+): Promise<SemanticSearchResult> {
+  const target = await createEmbedding(input.query, {
+    ...billing,
+    certificationId: input.certificationId,
+  });
+
+  const [matchesByType, questions] = await Promise.all([
+    Promise.all(chunkScopes(input).map((where) => scanChunks(target, where))),
+    findQuestionsByMeaning(
+      target,
+      { certificationId: input.certificationId, minSimilarity: SEMANTIC_MIN_SIMILARITY, limit: MAX_QUESTIONS },
+      billing
+    ),
+  ]);
+
+  const matches = matchesByType.flat();
+  const groups = groupChunkMatches(matches);
+  const similarities = new Map(matches.map((match) => [match.chunkId, match.similarity]));
+  const groupIds = (type: "video" | "document") =>
+    groups.filter((group) => group.contentType === type).map((group) => group.contentId);
+
+  const [chunks, videos, documents] = await Promise.all([
+    prisma.contentChunk.findMany({
+      where: { id: { in: groups.flatMap((group) => group.chunkIds) } },
+      select: { id: true, text: true, startSeconds: true, endSeconds: true, pageNumber: true },
+    }),
+    prisma.video.findMany({
+      where: { id: { in: groupIds("video") } },
+      select: { id: true, title: true, videoCode: true, duration: true },
+    }),
+    prisma.document.findMany({
+      where: { id: { in: groupIds("document") } },
+      select: { id: true, title: true, type: true },
+    }),
+  ]);
+
+  const chunksById = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+  const videosById = new Map(videos.map((video) => [video.id, video]));
+  const documentsById = new Map(documents.map((document) => [document.id, document]));
+
+  const chunksOf = (chunkIds: string[]) =>
+    chunkIds.flatMap((id) => {
+      const chunk = chunksById.get(id);
+      return chunk ? [{ ...chunk, similarity: similarities.get(id) ?? 0 }] : [];
+    });
+
+  return {
+    videos: groups.flatMap((group) => {
+      const video = group.contentType === "video" ? videosById.get(group.contentId) : undefined;
+      if (!video) return [];
+
+      return [
+        {
+          ...video,
+          similarity: group.similarity,
+          moments: chunksOf(group.chunkIds).map((chunk) => ({
+            chunkId: chunk.id,
+            text: chunk.text,
+            startSeconds: chunk.startSeconds,
+            endSeconds: chunk.endSeconds,
+            similarity: chunk.similarity,
+          })),
+        },
+      ];
+    }),
+    documents: groups.flatMap((group) => {
+      const document = group.contentType === "document" ? documentsById.get(group.contentId) : undefined;
+      if (!document) return [];
+
+      return [
+        {
+          ...document,
+          similarity: group.similarity,
+          passages: chunksOf(group.chunkIds).map((chunk) => ({
+            chunkId: chunk.id,
+            text: chunk.text,
+            pageNumber: chunk.pageNumber,
+            similarity: chunk.similarity,
+          })),
+        },
+      ];
+    }),
+    questions: questions.map((question) => ({
+      id: question.id,
+      text: question.text,
+      status: question.status,
+      objectiveCode: question.objectiveCode,
+      similarity: question.similarity,
+    })),
+  };
+}
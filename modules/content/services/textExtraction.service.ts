@@ -20,20 +20,7 @@ export async function extractTextFromDocument(
   mimeType: string
 ): Promise<string> {
   try {
-    // Download document from S3
-    const command = new GetObjectCommand({
-      Bucket: S3_BUCKET_NAME,
-      Key: s3Key,
-    });
-
-    const response = await s3Client.send(command);
-
-    if (!response.Body) {
-      throw new Error("Empty response from S3");
-    }
-
-    // Convert stream to buffer
-    const buffer = await streamToBuffer(response.Body);
+    const buffer = await downloadFromS3(s3Key);
 
     // Extract text based on MIME type
     switch (mimeType) {
@@ -57,6 +44,59 @@ export async function extractTextFromDocument(
   }
 }
 
+/**
+ * Extract text from a document stored in S3, one entry per page for PDFs.
+ * DOCX and TXT files have no pages, so they come back as a single entry.
+ *
+ * @param s3Key - S3 object key
+ * @param mimeType - Document MIME type
+ * @returns Text of each page
+ */
+export async function extractDocumentPages(s3Key: string, mimeType: string): Promise<string[]> {
+  if (mimeType !== "application/pdf") {
+    return [await extractTextFromDocument(s3Key, mimeType)];
+  }
+
+  try {
+    const { extractText } = await import("unpdf");
+    const { text } = await extractText(new Uint8Array(await downloadFromS3(s3Key)));
+    return Array.isArray(text) ? text : [text];
+  } catch (error) {
+    console.error("[extractDocumentPages] Error:", error);
+    throw new Error(
+      `Failed to extract pages from PDF: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
+
+/**
+ * Read a UTF-8 text file stored in S3 (e.g. VTT captions)
+ *
+ * @param s3Key - S3 object key
+ * @returns File contents
+ */
+export async function readTextFromS3(s3Key: string): Promise<string> {
+  return (await downloadFromS3(s3Key)).toString("utf-8");
+}
+
+/**
+ * Download an S3 object into a buffer
+ */
+async function downloadFromS3(s3Key: string): Promise<Buffer> {
+  const command = new GetObjectCommand({
+    Bucket: S3_BUCKET_NAME,
+    Key: s3Key,
+  });
+
+  const response = await s3Client.send(command);
+
+  if (!response.Body) {
+    throw new Error("Empty response from S3");
+  }
+
+  return streamToBuffer(response.Body);
+}
+
 /**
  * Extract text from PDF buffer using unpdf (lightweight, no canvas dependencies)
  */
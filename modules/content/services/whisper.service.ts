@@ -4,9 +4,13 @@
  * Transcribes videos using OpenAI Whisper API.
  * Simplified version that sends video files directly to Whisper.
  * No audio extraction needed - Whisper accepts video files.
+ * Each Whisper call is metered in the AIUsage ledger ("transcription") as
+ * soon as it returns.
  */
 
 import OpenAI from "openai";
+import { aiUsageMeter, recordUsageSafely } from "@/lib/ai/usageMeter";
+import type { AIUsageContext } from "@/lib/ai/types";
 import { S3Client, GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
 import { Readable } from "stream";
 import fs from "fs";
@@ -25,6 +29,7 @@ const s3Client = new S3Client({
 
 // Whisper API limits
 const MAX_FILE_SIZE_BYTES = 25 * 1024 * 1024; // 25MB max for Whisper API
+const WHISPER_MODEL = "whisper-1";
 
 // Lazy OpenAI client initialization (prevents build-time errors)
 let openaiClient: OpenAI | null = null;
@@ -43,6 +48,7 @@ export interface TranscriptionResult {
   transcript: string; // Plain text transcript
   vttUrl: string; // S3 URL to VTT captions file
   vttS3Key: string; // S3 key for VTT file
+  vtt: string; // VTT captions content
 }
 
 /**
@@ -50,13 +56,20 @@ export interface TranscriptionResult {
  *
  * @param videoId - Video ID for tracking
  * @param s3Key - S3 key of the video file
+ * @param billing - User and certification the Whisper calls are billed to
  * @returns Transcription result with plain text and VTT captions
  */
-export async function transcribeVideo(videoId: string, s3Key: string): Promise<TranscriptionResult> {
+export async function transcribeVideo(
+  videoId: string,
+  s3Key: string,
+  billing: Omit<AIUsageContext, "feature"> = {}
+): Promise<TranscriptionResult> {
+  const context: AIUsageContext = { ...billing, feature: "transcription" };
   let videoPath: string | null = null;
 
   try {
     console.log("[Whisper] Starting transcription for video", videoId);
+    await aiUsageMeter.assertWithinBudget(context);
 
     // Step 1: Download video from S3
     console.log("[Whisper] Downloading video from S3...");
@@ -75,8 +88,20 @@ export async function transcribeVideo(videoId: string, s3Key: string): Promise<T
 
     // Step 3: Transcribe video file directly (Whisper accepts video files)
     console.log("[Whisper] Sending to Whisper API for transcription...");
-    const transcript = await transcribeVideoFile(videoPath);
+    // Whisper bills per audio minute for each call. Only the VTT response
+    // carries timings, so it runs first and its length prices both calls.
     const vtt = await transcribeVideoFileAsVTT(videoPath);
+    const audioSeconds = vttDurationSeconds(vtt);
+    const recordCall = () =>
+      recordUsageSafely(aiUsageMeter, {
+        ...context,
+        model: { provider: "openai", modelId: WHISPER_MODEL },
+        usage: { inputTokens: 0, outputTokens: 0, audioSeconds },
+      });
+    await recordCall();
+
+    const transcript = await transcribeVideoFile(videoPath);
+    await recordCall();
 
     // Step 4: Upload VTT to S3
     console.log("[Whisper] Uploading VTT captions to S3...");
@@ -88,6 +113,7 @@ export async function transcribeVideo(videoId: string, s3Key: string): Promise<T
       transcript,
       vttUrl,
       vttS3Key,
+      vtt,
     };
   } catch (error) {
     console.error("[Whisper] Transcription failed:", error);
@@ -146,7 +172,7 @@ async function transcribeVideoFile(videoPath: string): Promise<string> {
 
   const response = await openai.audio.transcriptions.create({
     file: videoStream,
-    model: "whisper-1",
+    model: WHISPER_MODEL,
     response_format: "text",
   });
 
@@ -162,13 +188,27 @@ async function transcribeVideoFileAsVTT(videoPath: string): Promise<string> {
 
   const response = await openai.audio.transcriptions.create({
     file: videoStream,
-    model: "whisper-1",
+    model: WHISPER_MODEL,
     response_format: "vtt",
   });
 
   return response;
 }
 
+/**
+ * Audio length in seconds, taken from the last cue's end time
+ */
+function vttDurationSeconds(vtt: string): number {
+  const endTimes = [...vtt.matchAll(/-->\s*(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/g)];
+  const last = endTimes[endTimes.length - 1];
+  if (!last) {
+    return 0;
+  }
+
+  const [, hours, minutes, seconds, millis] = last;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
 /**
  * Upload VTT file to S3
  */
@@ -14,6 +14,21 @@ export const difficultyLevelEnum = z.enum([
 ]);
 export type DifficultyLevel = z.infer<typeof difficultyLevelEnum>;
 
+// Part of a search snippet; highlighted parts matched the query
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Certification a document belongs to: assigned directly, or derived from
+// the objectives its content mappings point at
+export interface ContentCertification {
+  id: string;
+  name: string;
+  code: string;
+  source: "direct" | "derived";
+}
+
 // Unified content item (Video or Document)
 export interface UnifiedContentItem {
   id: string;
@@ -38,15 +53,29 @@ export interface UnifiedContentItem {
 
   // Relationships
   certificationId?: string | null;
-  certification?: { name: string; code: string } | null;
+  certification?: { name: string; code: string } | null; // Documents: the first of their certifications
+  certifications?: ContentCertification[]; // Document only; direct assignments first
   mappingCount: number; // Count of content mappings
   isPrimaryFor: number; // Count where isPrimary = true
+
+  // Search (only when a query was given)
+  snippet?: SearchSnippetSegment[]; // Best matching passage with the matches highlighted
 }
 
 // =============================================================================
 // SEARCH & FILTER SCHEMAS
 // =============================================================================
 
+export const contentSearchSortEnum = z.enum([
+  "relevance", // Full-text rank; falls back to createdAt without a query
+  "createdAt",
+  "updatedAt",
+  "title",
+  "duration",
+  "fileSize",
+]);
+export type ContentSearchSort = z.infer<typeof contentSearchSortEnum>;
+
 export const contentSearchSchema = z.object({
   query: z.string().optional(), // Search term
   contentType: contentTypeEnum.optional(), // Filter by video/document
@@ -57,13 +86,11 @@ export const contentSearchSchema = z.object({
   dateTo: z.string().optional(), // ISO date string
 
   // Sorting
-  sortBy: z
-    .enum(["createdAt", "updatedAt", "title", "duration", "fileSize"])
-    .optional(),
+  sortBy: contentSearchSortEnum.optional(),
   sortOrder: z.enum(["asc", "desc"]).optional(),
 
-  // Pagination
-  page: z.number().int().positive().default(1),
+  // Keyset pagination: the nextCursor of the previous page
+  cursor: z.string().optional(),
   pageSize: z.number().int().positive().max(100).default(10),
 });
 
@@ -72,19 +99,80 @@ export type ContentSearchInput = z.infer<typeof contentSearchSchema>;
 export const contentSearchResultSchema = z.object({
   items: z.array(z.any()), // UnifiedContentItem[]
   total: z.number(),
-  page: z.number(),
   pageSize: z.number(),
-  totalPages: z.number(),
+  nextCursor: z.string().nullable(),
 });
 
 export type ContentSearchResult = {
   items: UnifiedContentItem[];
-  total: number;
-  page: number;
+  total: number; // Matches across all pages
   pageSize: number;
-  totalPages: number;
+  nextCursor: string | null; // Null on the last page
 };
 
+// =============================================================================
+// SEMANTIC SEARCH ("search by meaning")
+// =============================================================================
+
+// Keyword search matches wording; meaning search matches intent
+export type ContentSearchMode = "keyword" | "meaning";
+
+export const semanticSearchSchema = z.object({
+  query: z.string().trim().min(3, "Describe what you're looking for").max(500),
+  contentType: contentTypeEnum.optional(), // Filter by video/document
+  certificationId: z.string().optional(), // Filter by certification
+});
+
+export type SemanticSearchInput = z.infer<typeof semanticSearchSchema>;
+
+// Matching passage of a video, with where it is in the video
+export interface SemanticVideoMoment {
+  chunkId: string;
+  text: string;
+  startSeconds: number | null; // Null when the transcript had no caption timings
+  endSeconds: number | null;
+  similarity: number; // Cosine similarity, 0.0 to 1.0
+}
+
+// Matching passage of a document, with its page
+export interface SemanticDocumentPassage {
+  chunkId: string;
+  text: string;
+  pageNumber: number | null; // PDFs only
+  similarity: number;
+}
+
+export interface SemanticVideoResult {
+  id: string;
+  title: string;
+  videoCode: string | null;
+  duration: number | null;
+  similarity: number; // Best moment's similarity
+  moments: SemanticVideoMoment[]; // Most similar first
+}
+
+export interface SemanticDocumentResult {
+  id: string;
+  title: string;
+  type: string; // pdf, docx, txt
+  similarity: number; // Best passage's similarity
+  passages: SemanticDocumentPassage[]; // Most similar first
+}
+
+export interface SemanticQuestionResult {
+  id: string;
+  text: string;
+  status: string;
+  objectiveCode: string | null;
+  similarity: number;
+}
+
+export interface SemanticSearchResult {
+  videos: SemanticVideoResult[];
+  documents: SemanticDocumentResult[];
+  questions: SemanticQuestionResult[];
+}
+
 // =============================================================================
 // STATISTICS SCHEMAS
 // =============================================================================
@@ -111,7 +199,8 @@ export interface ContentStats {
     documents: number;
   };
 
-  // Breakdown by certification
+  // Breakdown by certification (videos plus documents; a document in several
+  // certifications counts in each)
   byCertification: Array<{
     certificationId: string | null;
     certificationName: string | null;
@@ -5,6 +5,8 @@
  */
 
 import { z } from "zod";
+import type { ContentCertification } from "./contentLibrary.types";
+import type { TextDiffLine } from "../lib/documentVersions";
 
 /**
  * Supported document MIME types
@@ -47,7 +49,6 @@ export const createDocumentSchema = z.object({
   type: DocumentType,
   fileSize: z.number().int().positive().max(MAX_DOCUMENT_SIZE),
   mimeType: z.enum(SUPPORTED_DOCUMENT_TYPES),
-  version: z.number().int().positive().default(1),
   allowDownload: z.boolean().default(true),
 });
 
@@ -60,9 +61,10 @@ export const updateDocumentSchema = z.object({
   id: z.string().cuid(),
   title: z.string().min(1).max(255).optional(),
   description: z.string().optional(),
-  version: z.number().int().positive().optional(),
   allowDownload: z.boolean().optional(),
   isActive: z.boolean().optional(),
+  // Replaces the certifications the document is assigned to directly
+  certificationIds: z.array(z.string().min(1)).optional(),
 });
 
 export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>;
@@ -92,12 +94,42 @@ export const getDocumentsSchema = z.object({
   search: z.string().optional(),
   type: DocumentType.optional(),
   isActive: z.boolean().optional(),
+  certificationId: z.string().optional(), // Direct or through mappings
   limit: z.number().int().positive().max(100).default(50),
   offset: z.number().int().nonnegative().default(0),
 });
 
 export type GetDocumentsInput = z.infer<typeof getDocumentsSchema>;
 
+/**
+ * Schema for uploading a new version of a document's file
+ * (after the file has been uploaded to S3)
+ */
+export const replaceDocumentFileSchema = z.object({
+  documentId: z.string().cuid(),
+  s3Key: z.string().min(1, "S3 key is required"),
+  url: z.string().url("Invalid URL"),
+  type: DocumentType,
+  fileSize: z.number().int().positive().max(MAX_DOCUMENT_SIZE),
+  mimeType: z.enum(SUPPORTED_DOCUMENT_TYPES),
+  changeNote: z.string().max(2000).optional(),
+  // Re-run AI mapping when the text changed significantly
+  remapIfChanged: z.boolean().default(false),
+});
+
+export type ReplaceDocumentFileInput = z.input<typeof replaceDocumentFileSchema>;
+
+/**
+ * Schema for comparing the text of two versions of a document
+ */
+export const compareDocumentVersionsSchema = z.object({
+  documentId: z.string().cuid(),
+  fromVersion: z.number().int().positive(),
+  toVersion: z.number().int().positive(),
+});
+
+export type CompareDocumentVersionsInput = z.infer<typeof compareDocumentVersionsSchema>;
+
 /**
  * Presigned upload response type (reuse from video.types.ts)
  */
@@ -119,12 +151,13 @@ export interface DocumentWithRelations {
   type: string;
   fileSize: number | null;
   mimeType: string | null;
-  version: number;
+  version: number; // Current DocumentVersion number
   uploadedBy: string | null;
   allowDownload: boolean;
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
+  certifications: ContentCertification[]; // Direct assignments first, then derived from mappings
   contentMappings: {
     id: string;
     objectiveId: string | null;
@@ -190,3 +223,53 @@ export interface DocumentSummary {
   createdAt: Date;
   mappingCount: number;
 }
+
+/**
+ * Where a document version came from
+ */
+export type DocumentVersionSource = "original" | "upload";
+
+/**
+ * One uploaded file of a document (for the version history)
+ */
+export interface DocumentVersionSummary {
+  id: string;
+  version: number;
+  type: string;
+  fileSize: number | null;
+  mimeType: string | null;
+  changeNote: string | null;
+  source: DocumentVersionSource;
+  textChangeRatio: number | null; // Share of text changed from the previous version
+  uploadedBy: { id: string; name: string | null; email: string } | null;
+  createdAt: string;
+}
+
+/**
+ * Every version of a document, newest first
+ */
+export interface DocumentVersionHistory {
+  documentId: string;
+  currentVersion: number;
+  versions: DocumentVersionSummary[];
+}
+
+/**
+ * Line diff of the extracted text of two versions
+ */
+export interface DocumentVersionComparison {
+  fromVersion: number;
+  toVersion: number;
+  lines: TextDiffLine[];
+  changeRatio: number;
+}
+
+/**
+ * Outcome of uploading a new version of a document's file
+ */
+export interface ReplaceDocumentFileResult {
+  version: number;
+  textChangeRatio: number | null; // null when either version's text couldn't be extracted
+  significantChange: boolean;
+  remappedCount: number | null; // AI mappings added; null when AI mapping wasn't re-run
+}
@@ -47,6 +47,10 @@ export const applyMappingSuggestionsSchema = z.object({
 
       isPrimary: z.boolean().default(false),
       confidence: z.number().min(0).max(1), // 0.0 to 1.0
+
+      // Part of the video that matched, in seconds
+      startSeconds: z.number().int().nonnegative().nullish(),
+      endSeconds: z.number().int().nonnegative().nullish(),
     })
   ),
 });
@@ -121,6 +125,8 @@ export interface VideoContentMappingWithHierarchy {
   isPrimary: boolean;
   confidence: number;
   mappingSource: MappingSource;
+  startSeconds: number | null; // Part of the video covering this content
+  endSeconds: number | null;
   createdAt: Date;
 
   // Relations (populated based on mapping level)
@@ -193,6 +199,10 @@ export interface MappingSuggestion {
     text: string;
   };
 
+  // Part of the video that matched (null without timed captions)
+  startSeconds?: number | null;
+  endSeconds?: number | null;
+
   // AI metadata
   confidence: number;
   isPrimarySuggestion: boolean;
@@ -184,6 +184,8 @@ export interface VideoWithRelations {
     isPrimary: boolean;
     confidence: number;
     mappingSource: string;
+    startSeconds: number | null; // Part of the video covering this content
+    endSeconds: number | null;
     objective?: {
       id: string;
       code: string;
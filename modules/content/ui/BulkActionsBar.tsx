@@ -97,17 +97,15 @@ export function BulkActionsBar({
         </div>
 
         <div className="flex items-center gap-2">
-          {contentType === "video" && (
-            <Button
-              variant="secondary"
-              size="sm"
-              onClick={() => setShowRemapDialog(true)}
-              disabled={isRemapping}
-            >
-              <Link2 className="h-4 w-4 mr-2" />
-              Re-map to Certification
-            </Button>
-          )}
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setShowRemapDialog(true)}
+            disabled={isRemapping}
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            Re-map to Certification
+          </Button>
 
           <Button
             variant="destructive"
@@ -157,8 +155,11 @@ export function BulkActionsBar({
           <DialogHeader>
             <DialogTitle>Re-map to Certification</DialogTitle>
             <DialogDescription>
-              Select a certification to assign to {selectedIds.length} selected
-              video{selectedIds.length !== 1 ? "s" : ""}.
+              Select a certification to assign to {selectedIds.length} selected{" "}
+              {contentType}
+              {selectedIds.length !== 1 ? "s" : ""}.
+              {contentType === "document" &&
+                " This replaces their directly assigned certifications; certifications from their objective mappings still apply."}
             </DialogDescription>
           </DialogHeader>
 
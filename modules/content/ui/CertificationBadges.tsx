@@ -0,0 +1,35 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { UnifiedContentItem } from "../types/contentLibrary.types";
+
+/**
+ * Certification badges for a content item
+ * Videos have one certification; documents can have several, and those that
+ * come from their objective mappings rather than a direct assignment are
+ * shown outlined
+ */
+export function CertificationBadges({ content }: { content: UnifiedContentItem }) {
+  if (!content.certifications?.length) {
+    return content.certification ? (
+      <Badge variant="secondary" className="text-xs">
+        {content.certification.code} - {content.certification.name}
+      </Badge>
+    ) : null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {content.certifications.map((cert) => (
+        <Badge
+          key={cert.id}
+          variant={cert.source === "direct" ? "secondary" : "outline"}
+          className="text-xs"
+          title={cert.source === "derived" ? "From objective mappings" : undefined}
+        >
+          {cert.code} - {cert.name}
+        </Badge>
+      ))}
+    </div>
+  );
+}
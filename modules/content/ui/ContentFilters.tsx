@@ -1,7 +1,7 @@
 "use client";
 
 import { useState } from "react";
-import { Search } from "lucide-react";
+import { Search, Sparkles, Type } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
@@ -12,31 +12,42 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useCertifications } from "../hooks/useContentLibrary";
-import type { ContentSearchInput } from "../types/contentLibrary.types";
+import type { ContentSearchInput, ContentSearchMode } from "../types/contentLibrary.types";
 
 interface ContentFiltersProps {
   filters: ContentSearchInput;
   onFiltersChange: (filters: Partial<ContentSearchInput>) => void;
+  searchMode: ContentSearchMode;
+  onSearchModeChange: (mode: ContentSearchMode) => void;
 }
 
 /**
  * Content filters component
  * Search bar + filters for content type, certification, difficulty, date range, mapped status
+ * Searching by meaning only uses the content type and certification filters
  */
 export function ContentFilters({
   filters,
   onFiltersChange,
+  searchMode,
+  onSearchModeChange,
 }: ContentFiltersProps) {
   const [searchQuery, setSearchQuery] = useState(filters.query ?? "");
   const { data: certifications } = useCertifications();
 
   const handleSearchSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onFiltersChange({ query: searchQuery, page: 1 });
+    // Rank matches by relevance when searching; fall back to newest when the query is cleared
+    const query = searchQuery.trim() || undefined;
+    onFiltersChange({
+      query,
+      ...(query && (!filters.sortBy || filters.sortBy === "createdAt") && { sortBy: "relevance" }),
+      ...(!query && filters.sortBy === "relevance" && { sortBy: "createdAt" }),
+    });
   };
 
   const handleFilterChange = (key: keyof ContentSearchInput, value: any) => {
-    onFiltersChange({ [key]: value, page: 1 }); // Reset to page 1 when filters change
+    onFiltersChange({ [key]: value });
   };
 
   const handleClearFilters = () => {
@@ -47,7 +58,7 @@ export function ContentFilters({
       certificationId: undefined,
       difficulty: undefined,
       mappedStatus: undefined,
-      page: 1,
+      ...(filters.sortBy === "relevance" && { sortBy: "createdAt" }),
     });
   };
 
@@ -62,11 +73,37 @@ export function ContentFilters({
     <div className="space-y-4">
       {/* Search bar */}
       <form onSubmit={handleSearchSubmit} className="flex gap-2">
+        <div className="flex items-center gap-1 border rounded-md p-1">
+          <Button
+            type="button"
+            variant={searchMode === "keyword" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onSearchModeChange("keyword")}
+            className="h-7 px-2"
+          >
+            <Type className="h-4 w-4" />
+            <span className="ml-2 hidden sm:inline">Keywords</span>
+          </Button>
+          <Button
+            type="button"
+            variant={searchMode === "meaning" ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onSearchModeChange("meaning")}
+            className="h-7 px-2"
+          >
+            <Sparkles className="h-4 w-4" />
+            <span className="ml-2 hidden sm:inline">Meaning</span>
+          </Button>
+        </div>
         <div className="relative flex-1">
           <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
           <Input
             type="text"
-            placeholder="Search by title, description, transcript..."
+            placeholder={
+              searchMode === "meaning"
+                ? "Ask in your own words, e.g. how does Kerberos ticketing work?"
+                : "Search by title, video code, description, transcript..."
+            }
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pl-10"
@@ -125,57 +162,62 @@ export function ContentFilters({
           </SelectContent>
         </Select>
 
-        {/* Difficulty */}
-        <Select
-          value={filters.difficulty ?? "all"}
-          onValueChange={(value) =>
-            handleFilterChange("difficulty", value === "all" ? undefined : value)
-          }
-        >
-          <SelectTrigger>
-            <SelectValue placeholder="Difficulty" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Levels</SelectItem>
-            <SelectItem value="beginner">Beginner</SelectItem>
-            <SelectItem value="intermediate">Intermediate</SelectItem>
-            <SelectItem value="advanced">Advanced</SelectItem>
-          </SelectContent>
-        </Select>
+        {searchMode === "keyword" && (
+          <>
+            {/* Difficulty */}
+            <Select
+              value={filters.difficulty ?? "all"}
+              onValueChange={(value) =>
+                handleFilterChange("difficulty", value === "all" ? undefined : value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Difficulty" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Levels</SelectItem>
+                <SelectItem value="beginner">Beginner</SelectItem>
+                <SelectItem value="intermediate">Intermediate</SelectItem>
+                <SelectItem value="advanced">Advanced</SelectItem>
+              </SelectContent>
+            </Select>
 
-        {/* Mapped Status */}
-        <Select
-          value={filters.mappedStatus ?? "all"}
-          onValueChange={(value) =>
-            handleFilterChange("mappedStatus", value === "all" ? "all" : value)
-          }
-        >
-          <SelectTrigger>
-            <SelectValue placeholder="Mapping Status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Content</SelectItem>
-            <SelectItem value="mapped">Mapped Only</SelectItem>
-            <SelectItem value="unmapped">Unmapped Only</SelectItem>
-          </SelectContent>
-        </Select>
+            {/* Mapped Status */}
+            <Select
+              value={filters.mappedStatus ?? "all"}
+              onValueChange={(value) =>
+                handleFilterChange("mappedStatus", value === "all" ? "all" : value)
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Mapping Status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Content</SelectItem>
+                <SelectItem value="mapped">Mapped Only</SelectItem>
+                <SelectItem value="unmapped">Unmapped Only</SelectItem>
+              </SelectContent>
+            </Select>
 
-        {/* Sort By */}
-        <Select
-          value={filters.sortBy ?? "createdAt"}
-          onValueChange={(value) => handleFilterChange("sortBy", value)}
-        >
-          <SelectTrigger>
-            <SelectValue placeholder="Sort By" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="createdAt">Date Created</SelectItem>
-            <SelectItem value="updatedAt">Date Updated</SelectItem>
-            <SelectItem value="title">Title (A-Z)</SelectItem>
-            <SelectItem value="duration">Duration</SelectItem>
-            <SelectItem value="fileSize">File Size</SelectItem>
-          </SelectContent>
-        </Select>
+            {/* Sort By */}
+            <Select
+              value={filters.sortBy ?? "createdAt"}
+              onValueChange={(value) => handleFilterChange("sortBy", value)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Sort By" />
+              </SelectTrigger>
+              <SelectContent>
+                {filters.query && <SelectItem value="relevance">Relevance</SelectItem>}
+                <SelectItem value="createdAt">Date Created</SelectItem>
+                <SelectItem value="updatedAt">Date Updated</SelectItem>
+                <SelectItem value="title">Title (A-Z)</SelectItem>
+                <SelectItem value="duration">Duration</SelectItem>
+                <SelectItem value="fileSize">File Size</SelectItem>
+              </SelectContent>
+            </Select>
+          </>
+        )}
       </div>
     </div>
   );
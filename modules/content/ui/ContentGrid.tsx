@@ -5,6 +5,7 @@ import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import type { UnifiedContentItem } from "../types/contentLibrary.types";
+import { SearchSnippet } from "./SearchSnippet";
 import { formatDistance } from "date-fns";
 
 interface ContentGridProps {
@@ -147,12 +148,16 @@ function ContentGridItem({
           {item.certification && (
             <Badge variant="secondary" className="text-xs">
               {item.certification.code}
+              {(item.certifications?.length ?? 0) > 1 &&
+                ` +${(item.certifications?.length ?? 0) - 1}`}
             </Badge>
           )}
         </div>
 
-        {/* Description preview */}
-        {item.description && (
+        {/* Search match, or description preview */}
+        {item.snippet ? (
+          <SearchSnippet segments={item.snippet} className="mt-2 line-clamp-3" />
+        ) : item.description && (
           <p className="text-xs text-muted-foreground mt-2 line-clamp-2">
             {item.description}
           </p>
@@ -12,6 +12,7 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import type { UnifiedContentItem } from "../types/contentLibrary.types";
+import { SearchSnippet } from "./SearchSnippet";
 import { formatDistance } from "date-fns";
 
 interface ContentListProps {
@@ -102,6 +103,9 @@ export function ContentList({
                       {item.videoCode}
                     </Badge>
                   )}
+                  {item.snippet && (
+                    <SearchSnippet segments={item.snippet} className="line-clamp-2 font-normal" />
+                  )}
                 </div>
               </TableCell>
 
@@ -110,6 +114,8 @@ export function ContentList({
                 {item.certification ? (
                   <Badge variant="secondary" className="text-xs">
                     {item.certification.code}
+                    {(item.certifications?.length ?? 0) > 1 &&
+                      ` +${(item.certifications?.length ?? 0) - 1}`}
                   </Badge>
                 ) : (
                   <span className="text-xs text-muted-foreground">None</span>
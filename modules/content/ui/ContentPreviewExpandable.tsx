@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import type { UnifiedContentItem } from "../types/contentLibrary.types";
+import { CertificationBadges } from "./CertificationBadges";
 import { formatDistance } from "date-fns";
 import Link from "next/link";
 
@@ -102,9 +103,7 @@ export function ContentPreviewExpandable({
               <p className="text-xs text-muted-foreground mb-1">
                 Certification
               </p>
-              <Badge variant="secondary" className="text-xs">
-                {content.certification.code} - {content.certification.name}
-              </Badge>
+              <CertificationBadges content={content} />
             </div>
           )}
 
@@ -18,6 +18,7 @@ import {
   Loader2,
 } from "lucide-react";
 import type { UnifiedContentItem } from "../types/contentLibrary.types";
+import { CertificationBadges } from "./CertificationBadges";
 import { formatDistance } from "date-fns";
 import Link from "next/link";
 import { getVideoPlaybackUrl } from "../serverActions/video.action";
@@ -143,9 +144,7 @@ export function ContentPreviewSidebar({
                 <Separator />
                 <div>
                   <h4 className="text-sm font-medium mb-2">Certification</h4>
-                  <Badge variant="secondary">
-                    {content.certification.code} - {content.certification.name}
-                  </Badge>
+                  <CertificationBadges content={content} />
                 </div>
               </>
             )}
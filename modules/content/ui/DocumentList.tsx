@@ -14,6 +14,7 @@ import { useDocuments } from "../hooks/useDocuments";
 import { ViewDocumentDialog } from "./ViewDocumentDialog";
 import { EditDocumentDialog } from "./EditDocumentDialog";
 import { DeleteDocumentDialog } from "./DeleteDocumentDialog";
+import { DocumentVersionsDialog } from "./DocumentVersionsDialog";
 import { generateDocumentDownloadUrl } from "../serverActions/document.action";
 import { FileText, Link as LinkIcon, Download } from "lucide-react";
 import { toast } from "sonner";
@@ -137,6 +138,10 @@ export function DocumentList() {
                           documentId={doc.id}
                           documentTitle={doc.title}
                         />
+                        <DocumentVersionsDialog
+                          documentId={doc.id}
+                          documentTitle={doc.title}
+                        />
                         {doc.allowDownload && (
                           <Button
                             variant="ghost"
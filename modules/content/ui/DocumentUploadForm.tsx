@@ -30,7 +30,6 @@ export function DocumentUploadForm() {
   const [file, setFile] = useState<File | null>(null);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [version, setVersion] = useState(1);
   const [allowDownload, setAllowDownload] = useState(true);
   const [generateAIDescription, setGenerateAIDescription] = useState(true);
   const [isDragOver, setIsDragOver] = useState(false);
@@ -156,7 +155,6 @@ export function DocumentUploadForm() {
         title: title.trim(),
         description: description.trim() || undefined,
         type: docType,
-        version,
         allowDownload,
         generateAIDescription,
       },
@@ -166,7 +164,6 @@ export function DocumentUploadForm() {
           setFile(null);
           setTitle("");
           setDescription("");
-          setVersion(1);
           setAllowDownload(true);
           setGenerateAIDescription(true);
           setUploadProgress(0);
@@ -279,21 +276,6 @@ export function DocumentUploadForm() {
               />
             </div>
 
-            {/* Version */}
-            <div className="space-y-2">
-              <Label htmlFor="version">Version</Label>
-              <Input
-                id="version"
-                type="number"
-                min={1}
-                value={version}
-                onChange={(e) => setVersion(parseInt(e.target.value) || 1)}
-              />
-              <p className="text-xs text-muted-foreground">
-                Use version numbers to track document updates
-              </p>
-            </div>
-
             {/* Allow Download Toggle */}
             <div className="flex items-center justify-between rounded-lg border p-4">
               <div className="space-y-0.5">
@@ -0,0 +1,384 @@
+"use client";
+
+/**
+ * DocumentVersionsDialog Component
+ *
+ * Version history of a document's file: upload a new version with a change
+ * note, download earlier versions and compare the text of any two.
+ */
+
+import { useState } from "react";
+import { formatDistance } from "date-fns";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { History, Download, Loader2, Upload } from "lucide-react";
+import { useCompareDocumentVersions, useDocumentVersions } from "../hooks/useDocuments";
+import { useUploadDocumentVersion } from "../hooks/useUploadDocument";
+import { generateDocumentVersionDownloadUrl } from "../serverActions/document.action";
+import { SIGNIFICANT_TEXT_CHANGE, collapseUnchanged } from "../lib/documentVersions";
+import {
+  SUPPORTED_DOCUMENT_EXTENSIONS,
+  MAX_DOCUMENT_SIZE,
+  type DocumentType,
+  type DocumentVersionSummary,
+} from "../types/document.types";
+
+interface DocumentVersionsDialogProps {
+  documentId: string;
+  documentTitle: string;
+}
+
+export function DocumentVersionsDialog({ documentId, documentTitle }: DocumentVersionsDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [picked, setPicked] = useState<{ from: number; to: number; current: number } | null>(null);
+  const { data, isLoading } = useDocumentVersions(documentId, isOpen);
+
+  // Compare the current version with the one before it until another pair is
+  // picked; a new upload goes back to that default
+  const compare =
+    picked && picked.current === data?.currentVersion
+      ? picked
+      : data && data.versions.length > 1
+        ? { from: data.versions[1].version, to: data.versions[0].version }
+        : null;
+  const setCompare = (next: { from: number; to: number }) =>
+    setPicked({ ...next, current: data?.currentVersion ?? 0 });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Versions">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Versions of {documentTitle}</DialogTitle>
+          <DialogDescription>
+            Uploading a new version keeps earlier files and the document&apos;s mappings.
+          </DialogDescription>
+        </DialogHeader>
+
+        <UploadVersionForm documentId={documentId} />
+
+        <Separator />
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-14" />
+            <Skeleton className="h-14" />
+          </div>
+        ) : data && data.versions.length > 0 ? (
+          <div className="space-y-2">
+            {data.versions.map((version, index) => (
+              <VersionRow
+                key={version.id}
+                version={version}
+                isCurrent={version.version === data.currentVersion}
+                previous={data.versions[index + 1]?.version}
+                onCompare={(from, to) => setCompare({ from, to })}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No version history yet. The current file becomes version {data?.currentVersion ?? 1} when
+            a new version is uploaded.
+          </p>
+        )}
+
+        {data && compare && (
+          <>
+            <Separator />
+            <VersionComparison
+              documentId={documentId}
+              versions={data.versions}
+              from={compare.from}
+              to={compare.to}
+              onChange={setCompare}
+            />
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function UploadVersionForm({ documentId }: { documentId: string }) {
+  const { mutate: uploadVersion, isPending, uploadProgress } = useUploadDocumentVersion();
+  const [file, setFile] = useState<File | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0); // Bumped to clear the file input
+  const [changeNote, setChangeNote] = useState("");
+  const [remapIfChanged, setRemapIfChanged] = useState(false);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] ?? null;
+    if (selected && selected.size > MAX_DOCUMENT_SIZE) {
+      toast.error("File size must be less than 100MB");
+      e.target.value = "";
+      return;
+    }
+    setFile(selected);
+  };
+
+  const handleUpload = () => {
+    if (!file) return;
+
+    const extension = file.name.split(".").pop()?.toLowerCase();
+    if (extension !== "pdf" && extension !== "docx" && extension !== "txt") {
+      toast.error(`Only ${SUPPORTED_DOCUMENT_EXTENSIONS.join(", ")} files are supported`);
+      return;
+    }
+
+    uploadVersion(
+      {
+        documentId,
+        file,
+        type: extension as DocumentType,
+        changeNote: changeNote.trim() || undefined,
+        remapIfChanged,
+      },
+      {
+        onSuccess: (result) => {
+          setFile(null);
+          setFileInputKey((key) => key + 1);
+          setChangeNote("");
+          if (remapIfChanged && result.textChangeRatio !== null && !result.significantChange) {
+            toast.info("The text barely changed, so AI mapping wasn't re-run");
+          }
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <h4 className="text-sm font-medium">Upload new version</h4>
+      <Input
+        key={fileInputKey}
+        type="file"
+        accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(",")}
+        onChange={handleFileSelect}
+        disabled={isPending}
+      />
+      <Textarea
+        value={changeNote}
+        onChange={(e) => setChangeNote(e.target.value)}
+        placeholder="What changed in this version? (optional)"
+        rows={2}
+        disabled={isPending}
+      />
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <Checkbox
+          checked={remapIfChanged}
+          onCheckedChange={(checked) => setRemapIfChanged(checked === true)}
+          disabled={isPending}
+        />
+        Re-run AI mapping if {Math.round(SIGNIFICANT_TEXT_CHANGE * 100)}% or more of the text
+        changed
+      </label>
+      {isPending && <Progress value={uploadProgress} className="h-2" />}
+      <div className="flex justify-end">
+        <Button size="sm" onClick={handleUpload} disabled={!file || isPending}>
+          {isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          Upload Version
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function VersionRow({
+  version,
+  isCurrent,
+  previous,
+  onCompare,
+}: {
+  version: DocumentVersionSummary;
+  isCurrent: boolean;
+  previous?: number;
+  onCompare: (from: number, to: number) => void;
+}) {
+  const handleDownload = async () => {
+    const result = await generateDocumentVersionDownloadUrl(version.id);
+    if (result.success && result.data) {
+      window.open(result.data, "_blank");
+    } else {
+      toast.error(result.error || "Failed to generate download URL");
+    }
+  };
+
+  return (
+    <div className="flex items-start justify-between gap-4 rounded-lg border p-3">
+      <div className="space-y-1 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">v{version.version}</Badge>
+          {isCurrent && <Badge>Current</Badge>}
+          <Badge variant="outline" className="uppercase">
+            {version.type}
+          </Badge>
+          {version.textChangeRatio !== null && (
+            <span
+              className={cn(
+                "text-xs",
+                version.textChangeRatio >= SIGNIFICANT_TEXT_CHANGE
+                  ? "text-orange-600"
+                  : "text-muted-foreground"
+              )}
+            >
+              {Math.round(version.textChangeRatio * 100)}% of text changed
+            </span>
+          )}
+        </div>
+        {version.changeNote && <p>{version.changeNote}</p>}
+        <p className="text-xs text-muted-foreground">
+          {version.source === "original" ? "Original upload" : "Uploaded"}
+          {version.uploadedBy && ` by ${version.uploadedBy.name || version.uploadedBy.email}`}{" "}
+          {formatDistance(new Date(version.createdAt), new Date(), { addSuffix: true })}
+          {version.fileSize !== null && ` · ${formatFileSize(version.fileSize)}`}
+        </p>
+      </div>
+      <div className="flex shrink-0 items-center gap-1">
+        {previous !== undefined && (
+          <Button variant="outline" size="sm" onClick={() => onCompare(previous, version.version)}>
+            Compare with v{previous}
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" onClick={handleDownload} title="Download">
+          <Download className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function VersionComparison({
+  documentId,
+  versions,
+  from,
+  to,
+  onChange,
+}: {
+  documentId: string;
+  versions: DocumentVersionSummary[];
+  from: number;
+  to: number;
+  onChange: (compare: { from: number; to: number }) => void;
+}) {
+  const { data, isLoading, error } = useCompareDocumentVersions(documentId, from, to);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3">
+        <VersionPicker label="From" value={from} versions={versions} onChange={(v) => onChange({ from: v, to })} />
+        <VersionPicker label="To" value={to} versions={versions} onChange={(v) => onChange({ from, to: v })} />
+        {data && (
+          <span className="pb-2 text-sm text-muted-foreground">
+            {Math.round(data.changeRatio * 100)}% of text changed
+          </span>
+        )}
+      </div>
+
+      {from === to ? (
+        <p className="text-sm text-muted-foreground">Pick two different versions to compare.</p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Extracting and comparing text...
+        </div>
+      ) : error || !data ? (
+        <p className="text-sm text-destructive">{(error as Error | null)?.message ?? "Comparison failed"}</p>
+      ) : data.lines.every((line) => line.kind === "same") ? (
+        <p className="text-sm text-muted-foreground">The text of these versions is identical.</p>
+      ) : (
+        <div className="max-h-96 overflow-y-auto rounded-md border font-mono text-xs">
+          {collapseUnchanged(data.lines).map((line, index) =>
+            line.kind === "skipped" ? (
+              <div key={index} className="bg-muted/50 px-3 py-1 text-muted-foreground">
+                ··· {line.count} unchanged line{line.count !== 1 ? "s" : ""}
+              </div>
+            ) : (
+              <div
+                key={index}
+                className={cn(
+                  "flex gap-2 whitespace-pre-wrap break-words px-3 py-0.5",
+                  line.kind === "removed" && "bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100",
+                  line.kind === "added" && "bg-green-100 text-green-900 dark:bg-green-900/40 dark:text-green-100"
+                )}
+              >
+                <span className="select-none">
+                  {line.kind === "removed" ? "-" : line.kind === "added" ? "+" : " "}
+                </span>
+                <span>{line.text}</span>
+              </div>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function VersionPicker({
+  label,
+  value,
+  versions,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  versions: DocumentVersionSummary[];
+  onChange: (version: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value.toString()} onValueChange={(next) => onChange(Number(next))}>
+        <SelectTrigger className="w-[140px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {versions.map((version) => (
+            <SelectItem key={version.id} value={version.version.toString()}>
+              Version {version.version}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -3,7 +3,8 @@
 /**
  * EditDocumentDialog Component
  *
- * Modal dialog for editing document metadata
+ * Modal dialog for editing document metadata and the certifications the
+ * document is assigned to
  */
 
 import { useState, useEffect } from "react";
@@ -20,7 +21,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { useUpdateDocument } from "../hooks/useDocuments";
+import { useCertifications } from "../hooks/useContentLibrary";
+import type { ContentCertification } from "../types/contentLibrary.types";
 import { getDocument } from "../serverActions/document.action";
 import { Pencil, Loader2 } from "lucide-react";
 
@@ -38,12 +43,14 @@ export function EditDocumentDialog({
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const { mutate: updateDocument, isPending } = useUpdateDocument();
+  const { data: certifications } = useCertifications();
 
   // Form state
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
-  const [version, setVersion] = useState(1);
   const [allowDownload, setAllowDownload] = useState(true);
+  const [certificationIds, setCertificationIds] = useState<string[]>([]);
+  const [derivedCertifications, setDerivedCertifications] = useState<ContentCertification[]>([]);
 
   useEffect(() => {
     if (isOpen) {
@@ -58,8 +65,13 @@ export function EditDocumentDialog({
       if (result.success && result.data) {
         setTitle(result.data.title);
         setDescription(result.data.description || "");
-        setVersion(result.data.version);
         setAllowDownload(result.data.allowDownload);
+        setCertificationIds(
+          result.data.certifications.filter((c) => c.source === "direct").map((c) => c.id)
+        );
+        setDerivedCertifications(
+          result.data.certifications.filter((c) => c.source === "derived")
+        );
       }
     } catch (error) {
       console.error("Failed to load document:", error);
@@ -76,8 +88,8 @@ export function EditDocumentDialog({
         id: documentId,
         title: title.trim(),
         description: description.trim() || undefined,
-        version,
         allowDownload,
+        certificationIds,
       },
       {
         onSuccess: () => {
@@ -131,17 +143,39 @@ export function EditDocumentDialog({
               />
             </div>
 
-            {/* Version */}
+            {/* Certifications */}
             <div className="space-y-2">
-              <Label htmlFor="edit-version">Version</Label>
-              <Input
-                id="edit-version"
-                type="number"
-                min="1"
-                value={version}
-                onChange={(e) => setVersion(parseInt(e.target.value))}
-                required
-              />
+              <Label>Certifications</Label>
+              <div className="max-h-40 space-y-2 overflow-y-auto rounded-md border p-3">
+                {certifications?.map((cert) => (
+                  <label
+                    key={cert.id}
+                    className="flex items-center gap-2 text-sm cursor-pointer"
+                  >
+                    <Checkbox
+                      checked={certificationIds.includes(cert.id)}
+                      onCheckedChange={(checked) =>
+                        setCertificationIds((prev) =>
+                          checked
+                            ? [...prev, cert.id]
+                            : prev.filter((id) => id !== cert.id)
+                        )
+                      }
+                    />
+                    {cert.code} - {cert.name}
+                  </label>
+                ))}
+              </div>
+              {derivedCertifications.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  Also in, through its objective mappings:
+                  {derivedCertifications.map((cert) => (
+                    <Badge key={cert.id} variant="outline" className="text-xs">
+                      {cert.code}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Allow Download */}
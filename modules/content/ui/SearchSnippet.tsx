@@ -0,0 +1,31 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import type { SearchSnippetSegment } from "../types/contentLibrary.types";
+
+interface SearchSnippetProps {
+  segments: SearchSnippetSegment[];
+  className?: string;
+}
+
+/**
+ * Passage of a search match with the matched words highlighted
+ */
+export function SearchSnippet({ segments, className }: SearchSnippetProps) {
+  return (
+    <p className={cn("text-xs text-muted-foreground", className)}>
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800/60"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
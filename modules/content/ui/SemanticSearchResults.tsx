@@ -0,0 +1,239 @@
+"use client";
+
+/**
+ * SemanticSearchResults Component
+ *
+ * Results of searching the library by meaning: the moments in videos and the
+ * pages in documents that match, each opening at that point, and related
+ * questions from the bank.
+ */
+
+import Link from "next/link";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { FileQuestion, FileText, FileVideo, PlayCircle } from "lucide-react";
+import { useSearchByMeaning } from "../hooks/useSearchContent";
+import { getVideoPlaybackUrl } from "../serverActions/video.action";
+import { getDocumentDownloadUrl } from "../serverActions/document.action";
+import type { SemanticSearchInput } from "../types/contentLibrary.types";
+
+interface SemanticSearchResultsProps {
+  input: SemanticSearchInput;
+}
+
+export function SemanticSearchResults({ input }: SemanticSearchResultsProps) {
+  const { data, isLoading, error } = useSearchByMeaning(input);
+
+  if (input.query.trim().length < 3) {
+    return (
+      <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+        <p className="text-sm text-muted-foreground">
+          Describe what you&apos;re looking for, e.g. &ldquo;how does Kerberos ticketing work&rdquo;,
+          to find the videos, document pages and questions that cover it.
+        </p>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-40" />
+        <Skeleton className="h-32" />
+        <Skeleton className="h-24" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-destructive">{(error as Error | null)?.message ?? "Search failed"}</p>
+      </div>
+    );
+  }
+
+  if (data.videos.length === 0 && data.documents.length === 0 && data.questions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-muted-foreground">
+          Nothing matched that meaning. Videos are searchable once transcribed and documents once
+          indexed after upload.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {data.videos.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileVideo className="h-4 w-4 text-blue-500" />
+              Videos
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.videos.map((video) => (
+              <div key={video.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium text-sm">{video.title}</h3>
+                  {video.videoCode && (
+                    <Badge variant="secondary" className="text-xs">
+                      {video.videoCode}
+                    </Badge>
+                  )}
+                  <MatchBadge similarity={video.similarity} />
+                </div>
+                <ul className="space-y-2">
+                  {video.moments.map((moment) => (
+                    <li key={moment.chunkId} className="flex gap-3 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => openVideoAt(video.id, moment.startSeconds ?? 0)}
+                        className="flex items-center gap-1 h-fit whitespace-nowrap rounded border px-2 py-0.5 text-xs font-medium hover:bg-muted"
+                      >
+                        <PlayCircle className="h-3 w-3" />
+                        {moment.startSeconds === null
+                          ? "Play"
+                          : moment.endSeconds === null
+                            ? formatTimestamp(moment.startSeconds)
+                            : `${formatTimestamp(moment.startSeconds)}–${formatTimestamp(moment.endSeconds)}`}
+                      </button>
+                      <p className="text-muted-foreground line-clamp-3">{moment.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data.documents.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileText className="h-4 w-4 text-orange-500" />
+              Documents
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.documents.map((document) => (
+              <div key={document.id} className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="font-medium text-sm">{document.title}</h3>
+                  <Badge variant="outline" className="text-xs uppercase">
+                    {document.type}
+                  </Badge>
+                  <MatchBadge similarity={document.similarity} />
+                </div>
+                <ul className="space-y-2">
+                  {document.passages.map((passage) => (
+                    <li key={passage.chunkId} className="flex gap-3 text-sm">
+                      <button
+                        type="button"
+                        onClick={() => openDocumentAt(document.id, passage.pageNumber)}
+                        className="h-fit whitespace-nowrap rounded border px-2 py-0.5 text-xs font-medium hover:bg-muted"
+                      >
+                        {passage.pageNumber !== null ? `Page ${passage.pageNumber}` : "Open"}
+                      </button>
+                      <p className="text-muted-foreground line-clamp-3">{passage.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {data.questions.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileQuestion className="h-4 w-4 text-purple-500" />
+              Related Questions
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2">
+              {data.questions.map((question) => (
+                <li key={question.id} className="rounded-md border p-3 text-sm">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <MatchBadge similarity={question.similarity} />
+                    {question.objectiveCode && <span>{question.objectiveCode}</span>}
+                    <span className="capitalize">{question.status.replace(/_/g, " ")}</span>
+                    <Link
+                      href={`/admin/questions/${question.id}/review`}
+                      className="ml-auto underline hover:text-foreground"
+                    >
+                      Open
+                    </Link>
+                  </div>
+                  <p className="mt-1 line-clamp-2">{question.text}</p>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+function MatchBadge({ similarity }: { similarity: number }) {
+  return (
+    <Badge variant="outline" className="text-xs">
+      {Math.round(similarity * 100)}% match
+    </Badge>
+  );
+}
+
+/**
+ * Open a video in a new tab, starting at the given time
+ * The tab is opened before the URL is fetched so popup blockers allow it
+ */
+async function openVideoAt(videoId: string, seconds: number) {
+  const tab = window.open("", "_blank");
+  const result = await getVideoPlaybackUrl(videoId);
+
+  if (!result.success || !result.data) {
+    tab?.close();
+    toast.error(result.error || "Failed to load video");
+    return;
+  }
+  if (tab) tab.location.href = `${result.data.url}#t=${seconds}`;
+}
+
+/**
+ * Open a document in a new tab, at the given page for PDFs
+ */
+async function openDocumentAt(documentId: string, pageNumber: number | null) {
+  const tab = window.open("", "_blank");
+  const result = await getDocumentDownloadUrl(documentId);
+
+  if (!result.success || !result.data) {
+    tab?.close();
+    toast.error(result.error || "Failed to load document");
+    return;
+  }
+  if (tab) tab.location.href = pageNumber ? `${result.data.url}#page=${pageNumber}` : result.data.url;
+}
+
+/**
+ * Format seconds as MM:SS or HH:MM:SS
+ */
+function formatTimestamp(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+}
@@ -12,8 +12,9 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { MappingHierarchy } from "./MappingHierarchy";
+import { formatTimeRange } from "../lib/segmentMapping";
 import type { MappingSuggestion } from "../types/mapping.types";
-import { Star } from "lucide-react";
+import { Clock, Star } from "lucide-react";
 
 interface SuggestedMappingCardProps {
   suggestion: MappingSuggestion;
@@ -32,6 +33,7 @@ export function SuggestedMappingCard({
 }: SuggestedMappingCardProps) {
   const confidencePercent = Math.round(suggestion.confidence * 100);
   const isHighConfidence = suggestion.confidence >= 0.9;
+  const timeRange = formatTimeRange(suggestion.startSeconds ?? null, suggestion.endSeconds ?? null);
 
   return (
     <Card
@@ -52,12 +54,20 @@ export function SuggestedMappingCard({
           <div className="flex-1 space-y-3">
             {/* Header with confidence */}
             <div className="flex items-center justify-between">
-              <Badge
-                variant={isHighConfidence ? "default" : "secondary"}
-                className="text-xs"
-              >
-                {isHighConfidence ? "🟢" : "🟡"} {confidencePercent}% match
-              </Badge>
+              <div className="flex items-center gap-2">
+                <Badge
+                  variant={isHighConfidence ? "default" : "secondary"}
+                  className="text-xs"
+                >
+                  {isHighConfidence ? "🟢" : "🟡"} {confidencePercent}% match
+                </Badge>
+                {timeRange && (
+                  <Badge variant="outline" className="text-xs">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {timeRange}
+                  </Badge>
+                )}
+              </div>
 
               {isPrimary && (
                 <Badge variant="outline" className="text-xs">
@@ -0,0 +1,75 @@
+"use client";
+
+/**
+ * Diagnostic Hooks
+ *
+ * Client hooks for taking the diagnostic and reading its results.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getLatestDiagnostic,
+  startDiagnostic,
+  submitDiagnostic,
+} from "../serverActions/diagnostic.action";
+import type { SubmitDiagnosticInput } from "../types/diagnostic.types";
+
+/**
+ * Fetch the latest diagnostic for the student's current certification
+ */
+export function useLatestDiagnostic() {
+  return useQuery({
+    queryKey: ["diagnostic"],
+    queryFn: async () => {
+      const result = await getLatestDiagnostic();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch diagnostic");
+      }
+      return result.data ?? null;
+    },
+  });
+}
+
+/**
+ * Start the diagnostic
+ */
+export function useStartDiagnostic() {
+  return useMutation({
+    mutationFn: async () => {
+      const result = await startDiagnostic();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to start diagnostic");
+      }
+      return result.data;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Submit diagnostic answers and seed the learning path
+ */
+export function useSubmitDiagnostic() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SubmitDiagnosticInput) => {
+      const result = await submitDiagnostic(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to submit diagnostic");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Diagnostic complete - your learning path is ready");
+      queryClient.invalidateQueries({ queryKey: ["diagnostic"] });
+      queryClient.invalidateQueries({ queryKey: ["learningPath"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,140 @@
+import {
+  buildLearningPathPlan,
+  classifyObjective,
+  classifyObjectives,
+  estimateCompletionDate,
+  scoreObjectives,
+} from '../learningPathRules'
+import type { ObjectiveScore, ObjectiveStatus } from '../../types/diagnostic.types'
+
+const objective = (id: string, domainId = 'd1') => ({ id, code: id, description: `Objective ${id}`, domainId })
+
+const score = (correct: number, total: number, domainId = 'd1') => ({
+  objectiveId: 'o1',
+  code: '1.1',
+  description: 'Objective',
+  domainId,
+  correct,
+  total,
+  percentage: total > 0 ? Math.round((correct / total) * 1000) / 10 : 0,
+})
+
+const scored = (objectiveId: string, status: ObjectiveStatus, percentage = 50): ObjectiveScore => ({
+  ...score(0, 0),
+  objectiveId,
+  percentage,
+  status,
+})
+
+const domain = (domainId: string, percentage: number) => ({
+  domainId,
+  domainName: domainId,
+  order: 1,
+  weight: 50,
+  correct: 0,
+  total: 0,
+  percentage,
+})
+
+const from = new Date('2026-01-01T00:00:00.000Z')
+
+describe('scoreObjectives', () => {
+  it('rolls graded questions up to their objectives in the order given', () => {
+    const scores = scoreObjectives(
+      [objective('o2'), objective('o1'), objective('o3')],
+      [
+        { objectiveId: 'o1', isCorrect: true },
+        { objectiveId: 'o1', isCorrect: false },
+        { objectiveId: 'o1', isCorrect: true },
+        { objectiveId: 'o2', isCorrect: true },
+      ]
+    )
+
+    expect(scores.map((s) => [s.objectiveId, s.correct, s.total, s.percentage])).toEqual([
+      ['o2', 1, 1, 100],
+      ['o1', 2, 3, 66.7],
+      ['o3', 0, 0, 0],
+    ])
+  })
+})
+
+describe('classifyObjective', () => {
+  it('marks objectives without questions as untested', () => {
+    expect(classifyObjective(score(0, 0), 20)).toBe('untested')
+  })
+
+  it('skips only a perfect run on enough questions', () => {
+    expect(classifyObjective(score(2, 2), 90)).toBe('skippable')
+    expect(classifyObjective(score(1, 1), 90)).toBe('standard')
+    expect(classifyObjective(score(2, 3), 90)).toBe('standard')
+  })
+
+  it('prioritises weak objectives and every unskipped objective in a weak domain', () => {
+    expect(classifyObjective(score(1, 3), 90)).toBe('priority')
+    expect(classifyObjective(score(2, 3), 40)).toBe('priority')
+    expect(classifyObjective(score(3, 3), 40)).toBe('skippable')
+  })
+
+  it('uses the rules it is given', () => {
+    const rules = {
+      skipThreshold: 80,
+      minQuestionsToSkip: 3,
+      priorityThreshold: 70,
+      weakDomainThreshold: 30,
+      minPlanShare: 0.5,
+    }
+
+    expect(classifyObjective(score(4, 5), 90, rules)).toBe('skippable')
+    expect(classifyObjective(score(3, 5), 90, rules)).toBe('priority')
+  })
+})
+
+describe('classifyObjectives', () => {
+  it('uses the score of the domain each objective is in', () => {
+    const classified = classifyObjectives(
+      [score(2, 3, 'weak'), score(2, 3, 'strong'), score(2, 3, 'missing')],
+      [domain('weak', 40), domain('strong', 80)]
+    )
+
+    expect(classified.map((o) => o.status)).toEqual(['priority', 'standard', 'standard'])
+  })
+})
+
+describe('estimateCompletionDate', () => {
+  it('shortens the plan in proportion to the objectives skipped', () => {
+    const objectives = [scored('o1', 'skippable'), scored('o2', 'standard'), scored('o3', 'standard'), scored('o4', 'priority')]
+
+    expect(estimateCompletionDate(40, objectives, from).toISOString()).toBe('2026-01-31T00:00:00.000Z')
+  })
+
+  it('never shortens the plan below the minimum share', () => {
+    const objectives = [scored('o1', 'skippable'), scored('o2', 'skippable'), scored('o3', 'skippable'), scored('o4', 'standard')]
+
+    expect(estimateCompletionDate(40, objectives, from).toISOString()).toBe('2026-01-21T00:00:00.000Z')
+  })
+
+  it('keeps the whole plan without objectives and at least one day', () => {
+    expect(estimateCompletionDate(10, [], from).toISOString()).toBe('2026-01-11T00:00:00.000Z')
+    expect(estimateCompletionDate(0, [], from).toISOString()).toBe('2026-01-02T00:00:00.000Z')
+  })
+})
+
+describe('buildLearningPathPlan', () => {
+  it('lists skipped objectives and priority objectives weakest first', () => {
+    const plan = buildLearningPathPlan(
+      [
+        scored('o1', 'priority', 40),
+        scored('o2', 'skippable', 100),
+        scored('o3', 'priority', 0),
+        scored('o4', 'standard', 60),
+        scored('o5', 'untested', 0),
+      ],
+      10,
+      from
+    )
+
+    expect(plan.skippedObjectives).toEqual(['o2'])
+    expect(plan.priorityObjectives).toEqual(['o3', 'o1'])
+    expect(plan.estimatedCompletionDate.toISOString()).toBe('2026-01-09T00:00:00.000Z')
+  })
+})
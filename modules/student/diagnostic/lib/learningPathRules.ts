@@ -0,0 +1,127 @@
+/**
+ * Learning Path Rules Engine
+ *
+ * Pure helpers that turn per-objective diagnostic results into a learning
+ * path: which objectives a student can skip, which need focus, and how long
+ * the remaining plan should take.
+ */
+
+import type { DomainBreakdownEntry } from "@/modules/student/practiceExams/types/practiceExam.types";
+import {
+  LEARNING_PATH_RULES,
+  type LearningPathRules,
+  type ObjectiveScore,
+  type ObjectiveStatus,
+} from "../types/diagnostic.types";
+
+export interface DiagnosticObjective {
+  id: string;
+  code: string;
+  description: string;
+  domainId: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Roll graded questions up to their objectives (keeps the objective order given)
+ */
+export function scoreObjectives(
+  objectives: DiagnosticObjective[],
+  graded: { objectiveId: string; isCorrect: boolean }[]
+): Omit<ObjectiveScore, "status">[] {
+  return objectives.map((objective) => {
+    const answered = graded.filter((g) => g.objectiveId === objective.id);
+    const correct = answered.filter((g) => g.isCorrect).length;
+    return {
+      objectiveId: objective.id,
+      code: objective.code,
+      description: objective.description,
+      domainId: objective.domainId,
+      correct,
+      total: answered.length,
+      percentage: answered.length > 0 ? Math.round((correct / answered.length) * 1000) / 10 : 0,
+    };
+  });
+}
+
+/**
+ * Classify a single objective.
+ *
+ * Skipping needs a perfect run on enough questions; anything below the
+ * priority threshold - or sitting in a weak domain - needs focus.
+ */
+export function classifyObjective(
+  score: Omit<ObjectiveScore, "status">,
+  domainPercentage: number | undefined,
+  rules: LearningPathRules = LEARNING_PATH_RULES
+): ObjectiveStatus {
+  if (score.total === 0) return "untested";
+
+  if (score.total >= rules.minQuestionsToSkip && score.percentage >= rules.skipThreshold) {
+    return "skippable";
+  }
+
+  if (
+    score.percentage < rules.priorityThreshold ||
+    (domainPercentage !== undefined && domainPercentage < rules.weakDomainThreshold)
+  ) {
+    return "priority";
+  }
+
+  return "standard";
+}
+
+/**
+ * Apply the rules to every objective
+ */
+export function classifyObjectives(
+  scores: Omit<ObjectiveScore, "status">[],
+  domains: DomainBreakdownEntry[],
+  rules: LearningPathRules = LEARNING_PATH_RULES
+): ObjectiveScore[] {
+  const domainPercentages = new Map(domains.map((d) => [d.domainId, d.percentage]));
+  return scores.map((score) => ({
+    ...score,
+    status: classifyObjective(score, domainPercentages.get(score.domainId), rules),
+  }));
+}
+
+/**
+ * Shorten the study plan in proportion to the objectives skipped,
+ * but never below the configured minimum share
+ */
+export function estimateCompletionDate(
+  studyPlanDays: number,
+  objectives: ObjectiveScore[],
+  from: Date,
+  rules: LearningPathRules = LEARNING_PATH_RULES
+): Date {
+  const skipped = objectives.filter((o) => o.status === "skippable").length;
+  const remainingShare =
+    objectives.length > 0 ? (objectives.length - skipped) / objectives.length : 1;
+  const days = Math.max(Math.ceil(studyPlanDays * Math.max(remainingShare, rules.minPlanShare)), 1);
+  return new Date(from.getTime() + days * DAY_MS);
+}
+
+/**
+ * Build the learning path fields persisted on StudentLearningPath.
+ * Priority objectives are ordered weakest first.
+ */
+export function buildLearningPathPlan(
+  objectives: ObjectiveScore[],
+  studyPlanDays: number,
+  from: Date,
+  rules: LearningPathRules = LEARNING_PATH_RULES
+): { skippedObjectives: string[]; priorityObjectives: string[]; estimatedCompletionDate: Date } {
+  return {
+    skippedObjectives: objectives
+      .filter((o) => o.status === "skippable")
+      .map((o) => o.objectiveId),
+    priorityObjectives: objectives
+      .filter((o) => o.status === "priority")
+      .sort((a, b) => a.percentage - b.percentage)
+      .map((o) => o.objectiveId),
+    estimatedCompletionDate: estimateCompletionDate(studyPlanDays, objectives, from, rules),
+  };
+}
@@ -0,0 +1,328 @@
+"use server";
+
+/**
+ * Diagnostic Server Actions
+ *
+ * Runs the first-run diagnostic (a short exam sampled across every objective),
+ * records StudentDiagnostic and seeds the student's StudentLearningPath.
+ */
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import {
+  AuthContext,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/auth/types";
+import {
+  buildDomainBreakdown,
+  isAnswerCorrect,
+  selectQuestionsPerObjective,
+  toExamQuestions,
+} from "@/modules/student/practiceExams/lib/examBuilder";
+import {
+  loadGradableQuestions,
+  loadQuestionPool,
+  loadWeightedDomains,
+} from "@/modules/student/practiceExams/services/questionPool.service";
+import type { PracticeExamSessionData } from "@/modules/student/practiceExams/types/practiceExam.types";
+import {
+  buildLearningPathPlan,
+  classifyObjectives,
+  scoreObjectives,
+} from "../lib/learningPathRules";
+import {
+  DIAGNOSTIC_QUESTIONS_PER_OBJECTIVE,
+  DIAGNOSTIC_SECONDS_PER_QUESTION,
+  submitDiagnosticSchema,
+  type DiagnosticResult,
+  type DiagnosticScores,
+  type SubmitDiagnosticInput,
+} from "../types/diagnostic.types";
+
+/**
+ * Serialize a StudentDiagnostic row (plus its learning path) for the client
+ */
+function serializeDiagnostic(
+  diagnostic: {
+    id: string;
+    certificationId: string;
+    certification: { name: string };
+    overallScore: number;
+    domainScores: Prisma.JsonValue;
+    completedAt: Date;
+  },
+  learningPath: {
+    skippedObjectives: string[];
+    priorityObjectives: string[];
+    estimatedCompletionDate: Date | null;
+  } | null
+): DiagnosticResult {
+  const scores = (diagnostic.domainScores ?? {}) as Partial<DiagnosticScores>;
+  return {
+    id: diagnostic.id,
+    certificationId: diagnostic.certificationId,
+    certificationName: diagnostic.certification.name,
+    overallScore: diagnostic.overallScore,
+    domains: scores.domains ?? [],
+    objectives: scores.objectives ?? [],
+    completedAt: diagnostic.completedAt.toISOString(),
+    learningPath: learningPath
+      ? {
+          skippedObjectives: learningPath.skippedObjectives,
+          priorityObjectives: learningPath.priorityObjectives,
+          estimatedCompletionDate: learningPath.estimatedCompletionDate?.toISOString() ?? null,
+        }
+      : null,
+  };
+}
+
+/**
+ * Start the diagnostic for the student's current certification
+ */
+export const startDiagnostic = withPermission("progress.manage")(
+  async (
+    user: AuthContext
+  ): Promise<{ success: boolean; data?: PracticeExamSessionData; error?: string }> => {
+    try {
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: {
+          currentCertification: { select: { id: true, name: true } },
+        },
+      });
+
+      const certification = student?.currentCertification;
+      if (!certification) {
+        throw new ValidationError("Select a certification before taking the diagnostic");
+      }
+
+      const pool = await loadQuestionPool(certification.id);
+      const selected = selectQuestionsPerObjective(pool, DIAGNOSTIC_QUESTIONS_PER_OBJECTIVE);
+
+      if (selected.length === 0) {
+        throw new ValidationError("No questions are available for this certification yet");
+      }
+
+      const timeLimitSeconds = selected.length * DIAGNOSTIC_SECONDS_PER_QUESTION;
+      const startedAt = new Date();
+      const expiresAt = new Date(startedAt.getTime() + timeLimitSeconds * 1000);
+      const questionIds = selected.map((q) => q.id);
+
+      const session = await prisma.practiceExamSession.create({
+        data: {
+          studentId: user.userId,
+          certificationId: certification.id,
+          examType: "diagnostic",
+          questionIds,
+          timeLimitSeconds,
+          startedAt,
+          expiresAt,
+        },
+      });
+
+      const questions = await loadGradableQuestions(questionIds);
+
+      return {
+        success: true,
+        data: {
+          sessionId: session.id,
+          examType: "diagnostic",
+          certificationName: certification.name,
+          timeLimitSeconds,
+          startedAt: startedAt.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+          questions: toExamQuestions(questionIds, questions),
+        },
+      };
+    } catch (error) {
+      console.error("[startDiagnostic] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to start diagnostic",
+      };
+    }
+  }
+);
+
+/**
+ * Grade the diagnostic, record StudentDiagnostic and (re)seed the learning path
+ *
+ * Unanswered questions count as incorrect. The study plan length comes from
+ * User.studyPlanDuration, falling back to the certification default.
+ */
+export const submitDiagnostic = withPermission("progress.manage")(
+  async (
+    user: AuthContext,
+    input: SubmitDiagnosticInput
+  ): Promise<{ success: boolean; data?: DiagnosticResult; error?: string }> => {
+    try {
+      const validated = submitDiagnosticSchema.parse(input);
+
+      const session = await prisma.practiceExamSession.findUnique({
+        where: { id: validated.sessionId },
+        include: {
+          certification: { select: { defaultStudyDuration: true } },
+          student: { select: { studyPlanDuration: true } },
+        },
+      });
+
+      if (!session || session.studentId !== user.userId || session.examType !== "diagnostic") {
+        throw new NotFoundError("Diagnostic session not found");
+      }
+
+      if (session.submittedAt) {
+        throw new ConflictError("This diagnostic has already been submitted");
+      }
+
+      const [questions, domains, objectives] = await Promise.all([
+        loadGradableQuestions(session.questionIds),
+        loadWeightedDomains(session.certificationId),
+        prisma.certificationObjective.findMany({
+          where: { domain: { certificationId: session.certificationId } },
+          select: { id: true, code: true, description: true, domainId: true },
+          orderBy: [{ domain: { order: "asc" } }, { order: "asc" }],
+        }),
+      ]);
+
+      const graded = questions.map((q) => {
+        const selected = validated.answers[q.id] ?? [];
+        return { ...q, selected, isCorrect: isAnswerCorrect(q.choices, selected) };
+      });
+
+      const correctAnswers = graded.filter((g) => g.isCorrect).length;
+      const overallScore =
+        graded.length > 0 ? Math.round((correctAnswers / graded.length) * 1000) / 10 : 0;
+      const domainBreakdown = buildDomainBreakdown(domains, graded);
+      const objectiveScores = classifyObjectives(
+        scoreObjectives(objectives, graded),
+        domainBreakdown
+      );
+
+      const now = new Date();
+      const studyPlanDays =
+        session.student.studyPlanDuration ?? session.certification.defaultStudyDuration;
+      const plan = buildLearningPathPlan(objectiveScores, studyPlanDays, now);
+      const scores: DiagnosticScores = { domains: domainBreakdown, objectives: objectiveScores };
+
+      const { diagnostic, learningPath } = await prisma.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          // Claim the session so a concurrent submit can't record a second result
+          const claimed = await tx.practiceExamSession.updateMany({
+            where: { id: session.id, submittedAt: null },
+            data: { submittedAt: now },
+          });
+          if (claimed.count === 0) {
+            throw new ConflictError("This diagnostic has already been submitted");
+          }
+
+          const diagnostic = await tx.studentDiagnostic.create({
+            data: {
+              studentId: user.userId,
+              certificationId: session.certificationId,
+              overallScore,
+              domainScores: scores as unknown as Prisma.InputJsonValue,
+              completedAt: now,
+            },
+            include: { certification: { select: { name: true } } },
+          });
+
+          if (graded.length > 0) {
+            await tx.studentQuizAttempt.createMany({
+              data: graded.map((g) => ({
+                studentId: user.userId,
+                questionId: g.id,
+                questionRevision: g.revision,
+                score: g.isCorrect ? 1 : 0,
+                answers: { diagnosticId: diagnostic.id, selected: g.selected },
+                attemptedAt: now,
+              })),
+            });
+          }
+
+          // A retaken diagnostic replaces the previous path
+          const learningPath = await tx.studentLearningPath.upsert({
+            where: {
+              studentId_certificationId: {
+                studentId: user.userId,
+                certificationId: session.certificationId,
+              },
+            },
+            create: {
+              studentId: user.userId,
+              certificationId: session.certificationId,
+              ...plan,
+            },
+            update: plan,
+          });
+
+          return { diagnostic, learningPath };
+        }
+      );
+
+      revalidatePath("/dashboard/learning-path");
+
+      return {
+        success: true,
+        data: serializeDiagnostic(diagnostic, learningPath),
+      };
+    } catch (error) {
+      console.error("[submitDiagnostic] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to submit diagnostic",
+      };
+    }
+  }
+);
+
+/**
+ * Get the student's most recent diagnostic for their current certification
+ * (null when they have not taken one yet)
+ */
+export const getLatestDiagnostic = withPermission("progress.read")(
+  async (
+    user: AuthContext
+  ): Promise<{ success: boolean; data?: DiagnosticResult | null; error?: string }> => {
+    try {
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: { currentCertificationId: true },
+      });
+
+      if (!student?.currentCertificationId) {
+        return { success: true, data: null };
+      }
+
+      const where = {
+        studentId: user.userId,
+        certificationId: student.currentCertificationId,
+      };
+
+      const [diagnostic, learningPath] = await Promise.all([
+        prisma.studentDiagnostic.findFirst({
+          where,
+          include: { certification: { select: { name: true } } },
+          orderBy: { completedAt: "desc" },
+        }),
+        prisma.studentLearningPath.findUnique({
+          where: { studentId_certificationId: where },
+        }),
+      ]);
+
+      return {
+        success: true,
+        data: diagnostic ? serializeDiagnostic(diagnostic, learningPath) : null,
+      };
+    } catch (error) {
+      console.error("[getLatestDiagnostic] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch diagnostic",
+      };
+    }
+  }
+);
@@ -0,0 +1,90 @@
+/**
+ * Diagnostic Types and Zod Schemas
+ *
+ * Type definitions for the first-run diagnostic assessment and the learning
+ * path it seeds.
+ */
+
+import { z } from "zod";
+import type { DomainBreakdownEntry } from "@/modules/student/practiceExams/types/practiceExam.types";
+
+/**
+ * Diagnostic sizing - every objective is sampled, so the exam length
+ * follows the blueprint rather than a fixed question count
+ */
+export const DIAGNOSTIC_QUESTIONS_PER_OBJECTIVE = 2;
+export const DIAGNOSTIC_SECONDS_PER_QUESTION = 60;
+
+/**
+ * Thresholds used by the learning path rules engine
+ */
+export const LEARNING_PATH_RULES = {
+  skipThreshold: 100, // Objective % needed to skip (all sampled questions correct)
+  minQuestionsToSkip: 2, // A single lucky guess never skips an objective
+  priorityThreshold: 50, // Objective % below which it needs focus
+  weakDomainThreshold: 50, // Domain % below which every non-skipped objective needs focus
+  minPlanShare: 0.5, // Skipping never shortens the study plan by more than half
+} as const;
+
+export type LearningPathRules = Record<keyof typeof LEARNING_PATH_RULES, number>;
+
+/**
+ * Schema for submitting a diagnostic
+ * answers maps questionId -> selected choice indexes
+ */
+export const submitDiagnosticSchema = z.object({
+  sessionId: z.string().cuid(),
+  answers: z.record(z.string(), z.array(z.number().int().nonnegative())),
+});
+
+export type SubmitDiagnosticInput = z.infer<typeof submitDiagnosticSchema>;
+
+/**
+ * Objective classification produced by the rules engine
+ */
+export const ObjectiveStatus = z.enum(["skippable", "priority", "standard", "untested"]);
+
+export type ObjectiveStatus = z.infer<typeof ObjectiveStatus>;
+
+/**
+ * Per-objective diagnostic result
+ */
+export interface ObjectiveScore {
+  objectiveId: string;
+  code: string;
+  description: string;
+  domainId: string;
+  correct: number;
+  total: number;
+  percentage: number; // 0-100
+  status: ObjectiveStatus;
+}
+
+/**
+ * Shape stored in StudentDiagnostic.domainScores
+ */
+export interface DiagnosticScores {
+  domains: DomainBreakdownEntry[];
+  objectives: ObjectiveScore[];
+}
+
+/**
+ * Learning path seeded from a diagnostic
+ */
+export interface LearningPathPlan {
+  skippedObjectives: string[];
+  priorityObjectives: string[];
+  estimatedCompletionDate: string | null;
+}
+
+/**
+ * Graded diagnostic with the learning path it produced
+ */
+export interface DiagnosticResult extends DiagnosticScores {
+  id: string;
+  certificationId: string;
+  certificationName: string;
+  overallScore: number; // 0-100
+  completedAt: string;
+  learningPath: LearningPathPlan | null;
+}
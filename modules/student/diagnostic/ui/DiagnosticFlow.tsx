@@ -0,0 +1,101 @@
+"use client";
+
+/**
+ * DiagnosticFlow Component
+ *
+ * First-run diagnostic: intro, timed exam (reusing the practice exam runner)
+ * and the resulting learning path summary.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { ClipboardCheck, PlayCircle } from "lucide-react";
+import { PracticeExamSession } from "@/modules/student/practiceExams/ui/PracticeExamSession";
+import type { PracticeExamSessionData } from "@/modules/student/practiceExams/types/practiceExam.types";
+import { useLatestDiagnostic, useStartDiagnostic, useSubmitDiagnostic } from "../hooks/useDiagnostic";
+import { DiagnosticResults } from "./DiagnosticResults";
+import {
+  DIAGNOSTIC_QUESTIONS_PER_OBJECTIVE,
+  DIAGNOSTIC_SECONDS_PER_QUESTION,
+} from "../types/diagnostic.types";
+
+export function DiagnosticFlow() {
+  const [activeSession, setActiveSession] = useState<PracticeExamSessionData | null>(null);
+
+  const { data: latest, isLoading } = useLatestDiagnostic();
+  const startDiagnostic = useStartDiagnostic();
+  const submitDiagnostic = useSubmitDiagnostic();
+
+  const handleStart = async () => {
+    const session = await startDiagnostic.mutateAsync();
+    setActiveSession(session);
+  };
+
+  const handleSubmit = async (answers: Record<string, number[]>) => {
+    if (!activeSession) return;
+    try {
+      await submitDiagnostic.mutateAsync({ sessionId: activeSession.sessionId, answers });
+    } finally {
+      setActiveSession(null);
+    }
+  };
+
+  if (activeSession) {
+    return (
+      <PracticeExamSession
+        session={activeSession}
+        isSubmitting={submitDiagnostic.isPending}
+        onSubmit={handleSubmit}
+      />
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <p className="text-center text-muted-foreground">Loading diagnostic...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const result = submitDiagnostic.data ?? latest;
+  if (result) {
+    return (
+      <DiagnosticResults
+        result={result}
+        onRetake={handleStart}
+        isStarting={startDiagnostic.isPending}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Diagnostic Assessment</h1>
+        <p className="text-muted-foreground mt-2">
+          Find out what you already know before you start studying
+        </p>
+      </div>
+
+      <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+        <div className="mx-auto max-w-md">
+          <ClipboardCheck className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h3 className="text-lg font-semibold mb-2">Take your diagnostic</h3>
+          <p className="text-sm text-muted-foreground mb-6">
+            You&apos;ll answer up to {DIAGNOSTIC_QUESTIONS_PER_OBJECTIVE} questions on every exam
+            objective ({DIAGNOSTIC_SECONDS_PER_QUESTION} seconds each). Objectives you ace can be
+            skipped, and weak spots move to the front of your learning path.
+          </p>
+          <Button onClick={handleStart} disabled={startDiagnostic.isPending}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            {startDiagnostic.isPending ? "Building Diagnostic..." : "Start Diagnostic"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
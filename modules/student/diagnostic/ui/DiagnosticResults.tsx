@@ -0,0 +1,127 @@
+"use client";
+
+/**
+ * DiagnosticResults Component
+ *
+ * Diagnostic score report: domain scores, per-objective status and the
+ * learning path the rules engine produced.
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { RotateCcw, Target } from "lucide-react";
+import type { DiagnosticResult, ObjectiveStatus } from "../types/diagnostic.types";
+
+interface DiagnosticResultsProps {
+  result: DiagnosticResult;
+  onRetake: () => void;
+  isStarting: boolean;
+}
+
+const STATUS_BADGES: Record<
+  ObjectiveStatus,
+  { label: string; variant: "default" | "secondary" | "destructive" | "outline" }
+> = {
+  skippable: { label: "Can Skip", variant: "secondary" },
+  priority: { label: "Priority", variant: "destructive" },
+  standard: { label: "Study", variant: "outline" },
+  untested: { label: "Not Tested", variant: "outline" },
+};
+
+export function DiagnosticResults({ result, onRetake, isStarting }: DiagnosticResultsProps) {
+  const path = result.learningPath;
+  const estimatedDate = path?.estimatedCompletionDate
+    ? new Date(path.estimatedCompletionDate).toLocaleDateString()
+    : "—";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Diagnostic Results</h1>
+          <p className="text-muted-foreground mt-2">
+            {result.certificationName} &middot; {new Date(result.completedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={onRetake} disabled={isStarting}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            {isStarting ? "Building Diagnostic..." : "Retake Diagnostic"}
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard/learning-path">
+              <Target className="h-4 w-4 mr-2" />
+              View Learning Path
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid gap-4 md:grid-cols-4">
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Overall Score</p>
+          <p className="text-3xl font-bold mt-1">{result.overallScore}%</p>
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Objectives to Skip</p>
+          <p className="text-3xl font-bold mt-1">{path?.skippedObjectives.length ?? 0}</p>
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Priority Objectives</p>
+          <p className="text-3xl font-bold mt-1">{path?.priorityObjectives.length ?? 0}</p>
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Estimated Completion</p>
+          <p className="text-3xl font-bold mt-1">{estimatedDate}</p>
+        </div>
+      </div>
+
+      {/* Domains and objectives */}
+      {result.domains.map((domain) => (
+        <Card key={domain.domainId}>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">
+                {domain.order}. {domain.domainName}
+              </CardTitle>
+              <span className="text-sm text-muted-foreground">
+                {domain.correct}/{domain.total} &middot; {domain.percentage}%
+              </span>
+            </div>
+            <Progress value={domain.percentage} />
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {result.objectives
+              .filter((objective) => objective.domainId === domain.domainId)
+              .map((objective) => {
+                const badge = STATUS_BADGES[objective.status];
+                return (
+                  <div
+                    key={objective.objectiveId}
+                    className="flex items-center justify-between gap-4 rounded-md border p-3 text-sm"
+                  >
+                    <span>
+                      <span className="font-medium">{objective.code}</span>{" "}
+                      <span className="text-muted-foreground">{objective.description}</span>
+                    </span>
+                    <span className="flex shrink-0 items-center gap-3">
+                      {objective.total > 0 && (
+                        <span className="text-muted-foreground">
+                          {objective.correct}/{objective.total}
+                        </span>
+                      )}
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </span>
+                  </div>
+                );
+              })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+"use client";
+
+/**
+ * Flashcard Draft Hooks
+ *
+ * Client hooks for generating and reviewing flashcard drafts.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  addSharedFlashcards,
+  generateMyFlashcardDrafts,
+  generateSharedFlashcardDrafts,
+  getGenerationObjectives,
+  listMyFlashcardDrafts,
+  listSharedFlashcardDrafts,
+  reviewMyFlashcardDraft,
+  reviewSharedFlashcardDraft,
+} from "../serverActions/flashcardDraft.action";
+import type {
+  GenerateFlashcardDraftsInput,
+  ReviewFlashcardDraftInput,
+} from "../types/flashcardDraft.types";
+
+// =============================================================================
+// STUDENT
+// =============================================================================
+
+/**
+ * Objectives the student can generate cards for
+ */
+export function useGenerationObjectives() {
+  return useQuery({
+    queryKey: ["flashcardObjectives"],
+    queryFn: async () => {
+      const result = await getGenerationObjectives();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch objectives");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Personal drafts awaiting review
+ */
+export function useMyFlashcardDrafts() {
+  return useQuery({
+    queryKey: ["flashcardDrafts"],
+    queryFn: async () => {
+      const result = await listMyFlashcardDrafts();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch flashcard drafts");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Generate personal drafts for an objective
+ */
+export function useGenerateMyFlashcardDrafts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: GenerateFlashcardDraftsInput) => {
+      const result = await generateMyFlashcardDrafts(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to generate flashcards");
+      }
+      return result.data;
+    },
+    onSuccess: (drafts) => {
+      queryClient.invalidateQueries({ queryKey: ["flashcardDrafts"] });
+      toast.success(`Generated ${drafts.length} flashcard${drafts.length === 1 ? "" : "s"} to review`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Approve or reject a personal draft
+ */
+export function useReviewMyFlashcardDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReviewFlashcardDraftInput) => {
+      const result = await reviewMyFlashcardDraft(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to review flashcard draft");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["flashcardDrafts"] });
+      queryClient.invalidateQueries({ queryKey: ["flashcardStats"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Add an objective's instructor-approved cards to the deck
+ */
+export function useAddSharedFlashcards() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (objectiveId: string) => {
+      const result = await addSharedFlashcards(objectiveId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to add flashcards");
+      }
+      return result.data;
+    },
+    onSuccess: ({ added }) => {
+      queryClient.invalidateQueries({ queryKey: ["flashcardObjectives"] });
+      queryClient.invalidateQueries({ queryKey: ["flashcardStats"] });
+      toast.success(`Added ${added} flashcard${added === 1 ? "" : "s"} to your deck`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+// =============================================================================
+// INSTRUCTOR
+// =============================================================================
+
+/**
+ * Shared drafts awaiting review for an objective
+ */
+export function useSharedFlashcardDrafts(objectiveId: string) {
+  return useQuery({
+    queryKey: ["sharedFlashcardDrafts", objectiveId],
+    queryFn: async () => {
+      const result = await listSharedFlashcardDrafts(objectiveId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch flashcard drafts");
+      }
+      return result.data;
+    },
+    enabled: !!objectiveId,
+  });
+}
+
+/**
+ * Generate shared drafts for an objective
+ */
+export function useGenerateSharedFlashcardDrafts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: GenerateFlashcardDraftsInput) => {
+      const result = await generateSharedFlashcardDrafts(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to generate flashcards");
+      }
+      return result.data;
+    },
+    onSuccess: (drafts, input) => {
+      queryClient.invalidateQueries({ queryKey: ["sharedFlashcardDrafts", input.objectiveId] });
+      toast.success(`Generated ${drafts.length} flashcard${drafts.length === 1 ? "" : "s"} to review`);
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Approve or reject a shared draft
+ */
+export function useReviewSharedFlashcardDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReviewFlashcardDraftInput) => {
+      const result = await reviewSharedFlashcardDraft(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to review flashcard draft");
+      }
+      return result.data;
+    },
+    onSuccess: (draft) => {
+      queryClient.invalidateQueries({ queryKey: ["sharedFlashcardDrafts", draft.objectiveId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,74 @@
+"use client";
+
+/**
+ * Flashcard Hooks
+ *
+ * Client hooks for flashcard stats and review sessions.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getDueFlashcards,
+  getFlashcardStats,
+  reviewFlashcard,
+} from "../serverActions/flashcard.action";
+import type { ReviewFlashcardInput } from "../types/flashcard.types";
+
+/**
+ * Fetch Total / Due Today / Mastered counts
+ */
+export function useFlashcardStats() {
+  return useQuery({
+    queryKey: ["flashcardStats"],
+    queryFn: async () => {
+      const result = await getFlashcardStats();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch flashcard stats");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Fetch the due queue (loaded when a review session starts)
+ */
+export function useDueFlashcards(enabled: boolean) {
+  return useQuery({
+    queryKey: ["dueFlashcards"],
+    queryFn: async () => {
+      const result = await getDueFlashcards();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch due flashcards");
+      }
+      return result.data;
+    },
+    enabled,
+    staleTime: Infinity, // The session keeps its own queue once started
+    gcTime: 0,
+  });
+}
+
+/**
+ * Grade a card
+ */
+export function useReviewFlashcard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReviewFlashcardInput) => {
+      const result = await reviewFlashcard(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to review flashcard");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["flashcardStats"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
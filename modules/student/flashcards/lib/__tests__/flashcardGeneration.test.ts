@@ -0,0 +1,104 @@
+import {
+  buildFlashcardUserMessage,
+  fakeFlashcardGenerator,
+  parseGeneratedFlashcards,
+} from '../flashcardGeneration'
+import type { FlashcardSources } from '../../types/flashcardDraft.types'
+
+const sources: FlashcardSources = {
+  certificationId: 'cert-secplus',
+  certificationName: 'Security+',
+  objectiveCode: '1.2',
+  objectiveDescription: 'Summarize fundamental security concepts',
+  bullets: [
+    {
+      id: 'bullet-cia',
+      text: 'Confidentiality, integrity and availability',
+      subBullets: [{ id: 'sub-nonrep', text: 'Non-repudiation' }],
+    },
+    { id: 'bullet-zero-trust', text: 'Zero trust control plane', subBullets: [] },
+  ],
+  transcripts: [
+    {
+      videoId: 'video-1',
+      title: 'Security Concepts',
+      text:
+        'Welcome back. Confidentiality means only authorized people can read data, while integrity ' +
+        'means data is not altered. Zero trust assumes no implicit trust, and the control plane ' +
+        'decides who gets access.',
+    },
+  ],
+}
+
+describe('flashcard generation', () => {
+  describe('fake generator', () => {
+    it('produces the same cards on every run', async () => {
+      const first = await fakeFlashcardGenerator.generate(sources, 10)
+      const second = await fakeFlashcardGenerator.generate(sources, 10)
+
+      expect(second).toEqual(first)
+      expect(first).toHaveLength(3)
+    })
+
+    it('answers from the best matching transcript sentence', async () => {
+      const [cia, nonRepudiation, zeroTrust] = await fakeFlashcardGenerator.generate(sources, 10)
+
+      expect(cia.sourceType).toBe('transcript')
+      expect(cia.sourceId).toBe('video-1')
+      expect(cia.back).toMatch(/^Confidentiality means only authorized people/)
+      expect(zeroTrust.back).toMatch(/control plane decides who gets access/)
+
+      // Nothing in the transcript covers this sub-bullet
+      expect(nonRepudiation).toMatchObject({ sourceType: 'sub_bullet', sourceId: 'sub-nonrep' })
+      expect(nonRepudiation.front).toContain('Non-repudiation')
+    })
+
+    it('caps the number of cards and falls back to the objective', async () => {
+      expect(await fakeFlashcardGenerator.generate(sources, 1)).toHaveLength(1)
+
+      const cards = await fakeFlashcardGenerator.generate(
+        { ...sources, bullets: [], transcripts: [] },
+        5
+      )
+      expect(cards).toEqual([
+        {
+          front: 'What does objective 1.2 cover?',
+          back: 'Summarize fundamental security concepts',
+          sourceType: 'objective',
+          sourceId: null,
+        },
+      ])
+    })
+  })
+
+  describe('parseGeneratedFlashcards', () => {
+    it('drops malformed and duplicate cards and unknown source IDs', () => {
+      const raw = JSON.stringify({
+        cards: [
+          { front: 'What does the A in CIA stand for?', back: 'Availability', sourceType: 'bullet', sourceId: 'bullet-cia' },
+          { front: 'what does the A in CIA stand for', back: 'Duplicate', sourceType: 'bullet', sourceId: 'bullet-cia' },
+          { front: 'No back', sourceType: 'bullet' },
+          { front: 'Define zero trust', back: 'No implicit trust', sourceType: 'bullet', sourceId: 'made-up' },
+        ],
+      })
+
+      expect(parseGeneratedFlashcards(raw, sources, 10)).toEqual([
+        { front: 'What does the A in CIA stand for?', back: 'Availability', sourceType: 'bullet', sourceId: 'bullet-cia' },
+        { front: 'Define zero trust', back: 'No implicit trust', sourceType: 'objective', sourceId: null },
+      ])
+    })
+
+    it('returns nothing when the response has no cards array', () => {
+      expect(parseGeneratedFlashcards({ flashcards: [] }, sources, 10)).toEqual([])
+    })
+  })
+
+  it('lists every source with its ID in the prompt', () => {
+    const message = buildFlashcardUserMessage(sources, 6)
+
+    expect(message).toContain('Write 6 flashcards for objective 1.2')
+    expect(message).toContain('[bullet bullet-cia]')
+    expect(message).toContain('[sub_bullet sub-nonrep]')
+    expect(message).toContain('[transcript video-1] "Security Concepts"')
+  })
+})
@@ -0,0 +1,161 @@
+import {
+  RELEARN_MINUTES,
+  endOfDay,
+  formatInterval,
+  getSchedulingAlgorithm,
+  isDue,
+  isMastered,
+  ladderAlgorithm,
+  scheduleReview,
+  sm2Algorithm,
+} from '../scheduler'
+import type { ReviewGrade, SchedulingState } from '../../types/flashcard.types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const START = new Date('2026-01-05T09:00:00.000Z')
+
+const newCard = (): SchedulingState => ({
+  easeFactor: 2.5,
+  intervalDays: 0,
+  reviewCount: 0,
+  difficultyRating: 3,
+})
+
+/**
+ * Review a card with each grade in turn, moving the fake clock to the
+ * card's due date before every review. Returns the intervals produced.
+ */
+function reviewOnSchedule(
+  grades: ReviewGrade[],
+  algorithm = sm2Algorithm,
+  start: SchedulingState = newCard()
+): number[] {
+  let state = start
+  const intervals: number[] = []
+  for (const grade of grades) {
+    const scheduled = scheduleReview(state, grade, algorithm)
+    intervals.push(scheduled.intervalDays)
+    jest.setSystemTime(scheduled.nextReviewDate)
+    state = scheduled
+  }
+  return intervals
+}
+
+describe('flashcard scheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('scheduleReview', () => {
+    it('uses the current clock when no date is passed', () => {
+      const scheduled = scheduleReview(newCard(), 'good', ladderAlgorithm)
+
+      expect(scheduled.lastReviewedAt).toEqual(START)
+      expect(scheduled.nextReviewDate).toEqual(new Date(START.getTime() + DAY_MS))
+      expect(scheduled.reviewCount).toBe(1)
+    })
+
+    it('brings "again" cards back after the relearning delay', () => {
+      const scheduled = scheduleReview(newCard(), 'again', ladderAlgorithm)
+
+      expect(scheduled.intervalDays).toBe(0)
+      expect(scheduled.nextReviewDate.getTime() - START.getTime()).toBe(
+        RELEARN_MINUTES * 60 * 1000
+      )
+      expect(scheduled.difficultyRating).toBe(5)
+    })
+  })
+
+  describe('ladder algorithm', () => {
+    it('climbs the 1-3-7-14-21 day ladder and stays on the top rung', () => {
+      const intervals = reviewOnSchedule(
+        ['good', 'good', 'good', 'good', 'good', 'good'],
+        ladderAlgorithm
+      )
+
+      expect(intervals).toEqual([1, 3, 7, 14, 21, 21])
+      expect(Date.now()).toBe(START.getTime() + (1 + 3 + 7 + 14 + 21 + 21) * DAY_MS)
+    })
+
+    it('repeats the rung on "hard", skips one on "easy" and restarts on "again"', () => {
+      expect(reviewOnSchedule(['good', 'good', 'hard'], ladderAlgorithm)).toEqual([1, 3, 3])
+      expect(reviewOnSchedule(['good', 'easy'], ladderAlgorithm)).toEqual([1, 7])
+      expect(reviewOnSchedule(['good', 'good', 'again', 'good'], ladderAlgorithm)).toEqual([
+        1, 3, 0, 1,
+      ])
+    })
+
+    it('leaves the ease factor untouched', () => {
+      const scheduled = scheduleReview(newCard(), 'hard', ladderAlgorithm)
+      expect(scheduled.easeFactor).toBe(2.5)
+    })
+  })
+
+  describe('SM-2 algorithm', () => {
+    it('follows the 1 -> 6 -> interval x ease progression on "good"', () => {
+      expect(reviewOnSchedule(['good', 'good', 'good', 'good'])).toEqual([1, 6, 15, 38])
+    })
+
+    it('adjusts ease by grade and never drops below 1.3', () => {
+      const hard = scheduleReview(newCard(), 'hard', sm2Algorithm)
+      expect(hard.easeFactor).toBeCloseTo(2.36)
+
+      const easy = scheduleReview(newCard(), 'easy', sm2Algorithm)
+      expect(easy.easeFactor).toBeCloseTo(2.6)
+      expect(easy.intervalDays).toBe(4)
+
+      let state = newCard()
+      for (let i = 0; i < 5; i++) {
+        state = scheduleReview(state, 'again', sm2Algorithm)
+      }
+      expect(state.easeFactor).toBe(1.3)
+    })
+
+    it('grows "hard" intervals slowly and resets on "again"', () => {
+      const mature: SchedulingState = { ...newCard(), intervalDays: 20, reviewCount: 4 }
+
+      expect(scheduleReview(mature, 'hard', sm2Algorithm).intervalDays).toBe(24)
+      expect(scheduleReview(mature, 'again', sm2Algorithm).intervalDays).toBe(0)
+    })
+  })
+
+  describe('due and mastered', () => {
+    it('becomes due exactly at the scheduled time', () => {
+      const scheduled = scheduleReview(newCard(), 'good', sm2Algorithm)
+
+      jest.advanceTimersByTime(DAY_MS - 1)
+      expect(isDue(scheduled.nextReviewDate)).toBe(false)
+
+      jest.advanceTimersByTime(1)
+      expect(isDue(scheduled.nextReviewDate)).toBe(true)
+    })
+
+    it('counts cards on the 21 day rung as mastered', () => {
+      expect(isMastered(14)).toBe(false)
+      expect(isMastered(21)).toBe(true)
+    })
+
+    it('computes the end of the current day', () => {
+      const end = endOfDay()
+      expect(end.getTime()).toBeGreaterThan(Date.now())
+      expect(end.getTime() - Date.now()).toBeLessThan(DAY_MS)
+    })
+  })
+
+  it('falls back to the default algorithm for unknown names', () => {
+    expect(getSchedulingAlgorithm('ladder')).toBe(ladderAlgorithm)
+    expect(getSchedulingAlgorithm('fsrs')).toBe(sm2Algorithm)
+    expect(getSchedulingAlgorithm(undefined)).toBe(sm2Algorithm)
+  })
+
+  it('formats intervals for the grade buttons', () => {
+    expect(formatInterval(0)).toBe(`${RELEARN_MINUTES}m`)
+    expect(formatInterval(6)).toBe('6d')
+    expect(formatInterval(90)).toBe('3mo')
+  })
+})
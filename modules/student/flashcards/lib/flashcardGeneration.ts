@@ -0,0 +1,196 @@
+/**
+ * Flashcard Generation
+ *
+ * Provider-independent pieces of flashcard generation: prompt building,
+ * response validation and a deterministic fake generator for offline use.
+ */
+
+import {
+  generatedFlashcardSchema,
+  type FlashcardSources,
+  type GeneratedFlashcard,
+} from "../types/flashcardDraft.types";
+
+export interface FlashcardGenerator {
+  name: string;
+  // userId is who the AI call is billed to
+  generate(sources: FlashcardSources, count: number, userId?: string): Promise<GeneratedFlashcard[]>;
+}
+
+// Keep prompts within a comfortable context budget
+const MAX_TRANSCRIPT_CHARS = 6000;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it",
+  "of", "on", "or", "that", "the", "this", "to", "with", "e.g", "etc", "vs",
+]);
+
+/**
+ * System message for LLM generators
+ */
+export function buildFlashcardSystemMessage(certificationName: string): string {
+  return `You are an expert ${certificationName} instructor writing study flashcards.
+
+Rules:
+- The front is a short question or prompt; the back is a concise, accurate answer (1-3 sentences)
+- Test one fact or concept per card; avoid yes/no questions
+- Only use facts supported by the provided objective, bullets and transcripts
+- Set sourceType to "transcript", "bullet", "sub_bullet" or "objective" and sourceId to the ID shown next to the source you used (null for the objective)
+
+Respond with valid JSON in this format:
+{
+  "cards": [
+    { "front": "...", "back": "...", "sourceType": "bullet", "sourceId": "..." }
+  ]
+}`;
+}
+
+/**
+ * User message listing the objective's source material
+ */
+export function buildFlashcardUserMessage(sources: FlashcardSources, count: number): string {
+  const lines = [
+    `Write ${count} flashcards for objective ${sources.objectiveCode}: ${sources.objectiveDescription}`,
+    "",
+    "Bullets:",
+  ];
+
+  for (const bullet of sources.bullets) {
+    lines.push(`- [bullet ${bullet.id}] ${bullet.text}`);
+    for (const sub of bullet.subBullets) {
+      lines.push(`  - [sub_bullet ${sub.id}] ${sub.text}`);
+    }
+  }
+
+  for (const transcript of sources.transcripts) {
+    lines.push("", `Transcript [transcript ${transcript.videoId}] "${transcript.title}":`);
+    lines.push(transcript.text.slice(0, MAX_TRANSCRIPT_CHARS));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Validate generator output: drop malformed cards, unknown source IDs and
+ * duplicate fronts, and cap at the requested count
+ */
+export function parseGeneratedFlashcards(
+  raw: unknown,
+  sources: FlashcardSources,
+  count: number
+): GeneratedFlashcard[] {
+  const payload = typeof raw === "string" ? JSON.parse(raw) : raw;
+  const cards = (payload as { cards?: unknown } | null)?.cards;
+  // Individual cards are validated below so one bad card doesn't sink the batch
+  const rawCards: unknown[] = Array.isArray(cards) ? cards : [];
+
+  const knownIds = new Set<string>([
+    ...sources.bullets.map((b) => b.id),
+    ...sources.bullets.flatMap((b) => b.subBullets.map((s) => s.id)),
+    ...sources.transcripts.map((t) => t.videoId),
+  ]);
+
+  const seen = new Set<string>();
+  const valid: GeneratedFlashcard[] = [];
+  for (const candidate of rawCards) {
+    const result = generatedFlashcardSchema.safeParse(candidate);
+    if (!result.success) continue;
+
+    const key = normalize(result.data.front);
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const sourceId =
+      result.data.sourceId && knownIds.has(result.data.sourceId) ? result.data.sourceId : null;
+    valid.push({
+      ...result.data,
+      sourceType: sourceId ? result.data.sourceType : "objective",
+      sourceId,
+    });
+    if (valid.length >= count) break;
+  }
+
+  return valid;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function significantWords(text: string): string[] {
+  return normalize(text)
+    .split(" ")
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, " ")
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter((s) => s.length >= 20 && s.length <= 400);
+}
+
+/**
+ * Transcript sentence sharing the most words with the text (needs at least two)
+ */
+function bestTranscriptSentence(
+  text: string,
+  transcripts: FlashcardSources["transcripts"]
+): { videoId: string; sentence: string } | null {
+  const words = new Set(significantWords(text));
+  let best: { videoId: string; sentence: string; score: number } | null = null;
+
+  for (const transcript of transcripts) {
+    for (const sentence of splitSentences(transcript.text)) {
+      const score = significantWords(sentence).filter((w) => words.has(w)).length;
+      if (score >= 2 && (!best || score > best.score)) {
+        best = { videoId: transcript.videoId, sentence, score };
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Deterministic generator for tests and offline development.
+ * One card per bullet/sub-bullet in blueprint order, answered from the best
+ * matching transcript sentence when there is one.
+ */
+export const fakeFlashcardGenerator: FlashcardGenerator = {
+  name: "fake",
+  async generate(sources, count) {
+    const items: { text: string; sourceType: "bullet" | "sub_bullet"; sourceId: string }[] = [];
+    for (const bullet of sources.bullets) {
+      items.push({ text: bullet.text, sourceType: "bullet", sourceId: bullet.id });
+      for (const sub of bullet.subBullets) {
+        items.push({ text: sub.text, sourceType: "sub_bullet", sourceId: sub.id });
+      }
+    }
+
+    const cards: GeneratedFlashcard[] = items.map((item) => {
+      const front = `${sources.objectiveCode}: What should you know about "${item.text}"?`;
+      const match = bestTranscriptSentence(item.text, sources.transcripts);
+      return match
+        ? { front, back: match.sentence, sourceType: "transcript", sourceId: match.videoId }
+        : {
+            front,
+            back: `${item.text} is covered under objective ${sources.objectiveCode} (${sources.objectiveDescription}).`,
+            sourceType: item.sourceType,
+            sourceId: item.sourceId,
+          };
+    });
+
+    if (cards.length === 0) {
+      cards.push({
+        front: `What does objective ${sources.objectiveCode} cover?`,
+        back: sources.objectiveDescription,
+        sourceType: "objective",
+        sourceId: null,
+      });
+    }
+
+    return parseGeneratedFlashcards({ cards }, sources, count);
+  },
+};
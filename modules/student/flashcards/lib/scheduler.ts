@@ -0,0 +1,176 @@
+/**
+ * Flashcard Scheduler
+ *
+ * Pluggable spaced-repetition algorithms. Each algorithm only decides the next
+ * interval and ease; scheduleReview turns that into dates so every algorithm
+ * shares the same relearning and clock handling.
+ */
+
+import {
+  DEFAULT_SCHEDULING_ALGORITHM,
+  MASTERED_INTERVAL_DAYS,
+  type ReviewGrade,
+  type ScheduledReview,
+  type SchedulingAlgorithmName,
+  type SchedulingState,
+} from "../types/flashcard.types";
+
+export interface SchedulingAlgorithm {
+  name: SchedulingAlgorithmName;
+  label: string;
+  next(state: SchedulingState, grade: ReviewGrade): { intervalDays: number; easeFactor: number };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Cards graded "again" come back after this many minutes (interval 0)
+ */
+export const RELEARN_MINUTES = 10;
+
+/**
+ * Fixed review ladder in days
+ */
+export const REVIEW_LADDER_DAYS = [1, 3, 7, 14, MASTERED_INTERVAL_DAYS];
+
+export const MIN_EASE_FACTOR = 1.3;
+
+const DIFFICULTY_BY_GRADE: Record<ReviewGrade, number> = {
+  again: 5,
+  hard: 4,
+  good: 2,
+  easy: 1,
+};
+
+/**
+ * Fixed 1-3-7-14-21 ladder: good climbs one rung, easy climbs two,
+ * hard repeats the current rung and again starts over
+ */
+export const ladderAlgorithm: SchedulingAlgorithm = {
+  name: "ladder",
+  label: "Fixed ladder (1-3-7-14-21 days)",
+  next(state, grade) {
+    // Highest rung already reached (-1 for new or relearning cards)
+    let rung = -1;
+    REVIEW_LADDER_DAYS.forEach((days, index) => {
+      if (state.intervalDays >= days) rung = index;
+    });
+
+    const last = REVIEW_LADDER_DAYS.length - 1;
+    const step = { again: null, hard: 0, good: 1, easy: 2 }[grade];
+    if (step === null) return { intervalDays: 0, easeFactor: state.easeFactor };
+
+    const target = Math.min(Math.max(rung + step, 0), last);
+    return { intervalDays: REVIEW_LADDER_DAYS[target], easeFactor: state.easeFactor };
+  },
+};
+
+/**
+ * SM-2 with ease factors: intervals go 1 -> 6 -> interval x ease, ease moves
+ * with every grade (never below 1.3), hard grows slowly and easy gets a bonus
+ */
+export const sm2Algorithm: SchedulingAlgorithm = {
+  name: "sm2",
+  label: "SM-2 (adaptive ease)",
+  next(state, grade) {
+    const quality = { again: 1, hard: 3, good: 4, easy: 5 }[grade];
+    const easeFactor = Math.max(
+      MIN_EASE_FACTOR,
+      Math.round(
+        (state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))) * 100
+      ) / 100
+    );
+
+    if (grade === "again") return { intervalDays: 0, easeFactor };
+
+    let intervalDays: number;
+    if (state.intervalDays === 0) {
+      intervalDays = grade === "easy" ? 4 : 1;
+    } else if (state.intervalDays === 1 && grade !== "hard") {
+      intervalDays = grade === "easy" ? 8 : 6;
+    } else if (grade === "hard") {
+      intervalDays = Math.max(state.intervalDays + 1, Math.round(state.intervalDays * 1.2));
+    } else {
+      const bonus = grade === "easy" ? 1.3 : 1;
+      intervalDays = Math.max(
+        state.intervalDays + 1,
+        Math.round(state.intervalDays * easeFactor * bonus)
+      );
+    }
+
+    return { intervalDays, easeFactor };
+  },
+};
+
+export const SCHEDULING_ALGORITHMS: Record<SchedulingAlgorithmName, SchedulingAlgorithm> = {
+  ladder: ladderAlgorithm,
+  sm2: sm2Algorithm,
+};
+
+/**
+ * Look up an algorithm by name (falls back to the default)
+ */
+export function getSchedulingAlgorithm(name?: string | null): SchedulingAlgorithm {
+  return (
+    SCHEDULING_ALGORITHMS[name as SchedulingAlgorithmName] ??
+    SCHEDULING_ALGORITHMS[DEFAULT_SCHEDULING_ALGORITHM]
+  );
+}
+
+/**
+ * Apply a review grade and compute the next review date
+ */
+export function scheduleReview(
+  state: SchedulingState,
+  grade: ReviewGrade,
+  algorithm: SchedulingAlgorithm = getSchedulingAlgorithm(),
+  now: Date = new Date()
+): ScheduledReview {
+  const { intervalDays, easeFactor } = algorithm.next(state, grade);
+  const nextReviewDate =
+    intervalDays === 0
+      ? new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000)
+      : new Date(now.getTime() + intervalDays * DAY_MS);
+
+  return {
+    easeFactor,
+    intervalDays,
+    reviewCount: state.reviewCount + 1,
+    difficultyRating: DIFFICULTY_BY_GRADE[grade],
+    nextReviewDate,
+    lastReviewedAt: now,
+  };
+}
+
+/**
+ * A card is due once its review date has passed
+ */
+export function isDue(nextReviewDate: Date, now: Date = new Date()): boolean {
+  return nextReviewDate.getTime() <= now.getTime();
+}
+
+/**
+ * A card is mastered once it reaches the top of the ladder
+ */
+export function isMastered(intervalDays: number): boolean {
+  return intervalDays >= MASTERED_INTERVAL_DAYS;
+}
+
+/**
+ * End of the current day (used for "due today")
+ */
+export function endOfDay(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * Short label for an interval ("10m", "1d", "3mo")
+ */
+export function formatInterval(intervalDays: number): string {
+  if (intervalDays === 0) return `${RELEARN_MINUTES}m`;
+  if (intervalDays < 30) return `${intervalDays}d`;
+  if (intervalDays < 365) return `${Math.round(intervalDays / 30)}mo`;
+  return `${Math.round((intervalDays / 365) * 10) / 10}y`;
+}
@@ -0,0 +1,94 @@
+"use server";
+
+/**
+ * Flashcard Server Actions
+ *
+ * Spaced-repetition review for the current student's flashcards.
+ */
+
+import { revalidatePath } from "next/cache";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext } from "@/lib/auth/types";
+import {
+  applyReview,
+  configuredSchedulingAlgorithm,
+  getDeckStats,
+  getDueQueue,
+} from "../services/flashcardReview.service";
+import {
+  reviewFlashcardSchema,
+  type FlashcardData,
+  type FlashcardStats,
+  type ReviewFlashcardInput,
+  type SchedulingAlgorithmName,
+} from "../types/flashcard.types";
+
+/**
+ * Get Total / Due Today / Mastered counts
+ */
+export const getFlashcardStats = withPermission("progress.read")(
+  async (user: AuthContext): Promise<{ success: boolean; data?: FlashcardStats; error?: string }> => {
+    try {
+      return { success: true, data: await getDeckStats(user.userId) };
+    } catch (error) {
+      console.error("[getFlashcardStats] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch flashcard stats",
+      };
+    }
+  }
+);
+
+/**
+ * Get the cards due for review now, with the algorithm that will schedule them
+ */
+export const getDueFlashcards = withPermission("progress.read")(
+  async (
+    user: AuthContext,
+    limit: number = 50
+  ): Promise<{
+    success: boolean;
+    data?: { cards: FlashcardData[]; algorithm: SchedulingAlgorithmName };
+    error?: string;
+  }> => {
+    try {
+      const cards = await getDueQueue(user.userId, Math.min(Math.max(limit, 1), 200));
+      return {
+        success: true,
+        data: { cards, algorithm: configuredSchedulingAlgorithm().name },
+      };
+    } catch (error) {
+      console.error("[getDueFlashcards] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch due flashcards",
+      };
+    }
+  }
+);
+
+/**
+ * Grade a flashcard and schedule its next review
+ */
+export const reviewFlashcard = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    input: ReviewFlashcardInput
+  ): Promise<{ success: boolean; data?: FlashcardData; error?: string }> => {
+    try {
+      const validated = reviewFlashcardSchema.parse(input);
+      const card = await applyReview(user.userId, validated.flashcardId, validated.grade);
+
+      revalidatePath("/dashboard/flashcards");
+
+      return { success: true, data: card };
+    } catch (error) {
+      console.error("[reviewFlashcard] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to review flashcard",
+      };
+    }
+  }
+);
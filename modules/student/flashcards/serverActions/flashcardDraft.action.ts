@@ -0,0 +1,262 @@
+"use server";
+
+/**
+ * Flashcard Draft Server Actions
+ *
+ * Generate flashcard drafts from an objective's bullets and video transcripts
+ * and review them before they become flashcards. Students work on their own
+ * drafts; instructors review shared drafts that students can add to their deck.
+ */
+
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext, ValidationError } from "@/lib/auth/types";
+import {
+  addApprovedSharedCards,
+  countAvailableSharedCards,
+  generateDrafts,
+  listPendingDrafts,
+  reviewDraft,
+} from "../services/flashcardDraft.service";
+import {
+  generateFlashcardDraftsSchema,
+  reviewFlashcardDraftSchema,
+  type FlashcardDraftData,
+  type GenerateFlashcardDraftsInput,
+  type GenerationObjective,
+  type ReviewFlashcardDraftInput,
+} from "../types/flashcardDraft.types";
+
+const objectiveIdSchema = z.string().cuid();
+
+// =============================================================================
+// STUDENT DRAFTS
+// =============================================================================
+
+/**
+ * Objectives of the student's current certification, with how many
+ * instructor-approved cards are ready to add for each
+ */
+export const getGenerationObjectives = withPermission("progress.read")(
+  async (
+    user: AuthContext
+  ): Promise<{ success: boolean; data?: GenerationObjective[]; error?: string }> => {
+    try {
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: { currentCertificationId: true },
+      });
+
+      if (!student) {
+        throw new ValidationError("Student not found");
+      }
+
+      if (!student.currentCertificationId) {
+        return { success: true, data: [] };
+      }
+
+      const objectives = await prisma.certificationObjective.findMany({
+        where: { domain: { certificationId: student.currentCertificationId } },
+        orderBy: [{ domain: { order: "asc" } }, { order: "asc" }],
+        select: { id: true, code: true, description: true, domain: { select: { name: true } } },
+      });
+
+      const available = await countAvailableSharedCards(
+        user.userId,
+        objectives.map((objective) => objective.id)
+      );
+
+      return {
+        success: true,
+        data: objectives.map((objective) => ({
+          id: objective.id,
+          code: objective.code,
+          description: objective.description,
+          domainName: objective.domain.name,
+          availableSharedCount: available.get(objective.id) ?? 0,
+        })),
+      };
+    } catch (error) {
+      console.error("[getGenerationObjectives] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch objectives",
+      };
+    }
+  }
+);
+
+/**
+ * Generate personal flashcard drafts for an objective
+ */
+export const generateMyFlashcardDrafts = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    input: GenerateFlashcardDraftsInput
+  ): Promise<{ success: boolean; data?: FlashcardDraftData[]; error?: string }> => {
+    try {
+      const validated = generateFlashcardDraftsSchema.parse(input);
+      const drafts = await generateDrafts(
+        validated.objectiveId,
+        { studentId: user.userId },
+        user.userId,
+        validated.count
+      );
+
+      return { success: true, data: drafts };
+    } catch (error) {
+      console.error("[generateMyFlashcardDrafts] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to generate flashcards",
+      };
+    }
+  }
+);
+
+/**
+ * Personal drafts awaiting review
+ */
+export const listMyFlashcardDrafts = withPermission("progress.read")(
+  async (
+    user: AuthContext
+  ): Promise<{ success: boolean; data?: FlashcardDraftData[]; error?: string }> => {
+    try {
+      return { success: true, data: await listPendingDrafts({ studentId: user.userId }) };
+    } catch (error) {
+      console.error("[listMyFlashcardDrafts] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch flashcard drafts",
+      };
+    }
+  }
+);
+
+/**
+ * Approve (adding the card to the deck) or reject a personal draft
+ */
+export const reviewMyFlashcardDraft = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    input: ReviewFlashcardDraftInput
+  ): Promise<{ success: boolean; data?: FlashcardDraftData; error?: string }> => {
+    try {
+      const validated = reviewFlashcardDraftSchema.parse(input);
+      const draft = await reviewDraft({ studentId: user.userId }, user.userId, validated);
+
+      revalidatePath("/dashboard/flashcards");
+
+      return { success: true, data: draft };
+    } catch (error) {
+      console.error("[reviewMyFlashcardDraft] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to review flashcard draft",
+      };
+    }
+  }
+);
+
+/**
+ * Add an objective's instructor-approved cards to the student's deck
+ */
+export const addSharedFlashcards = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    objectiveId: string
+  ): Promise<{ success: boolean; data?: { added: number }; error?: string }> => {
+    try {
+      const validatedId = objectiveIdSchema.parse(objectiveId);
+      const added = await addApprovedSharedCards(user.userId, validatedId);
+
+      revalidatePath("/dashboard/flashcards");
+
+      return { success: true, data: { added } };
+    } catch (error) {
+      console.error("[addSharedFlashcards] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to add flashcards",
+      };
+    }
+  }
+);
+
+// =============================================================================
+// SHARED (INSTRUCTOR) DRAFTS
+// =============================================================================
+
+/**
+ * Generate shared drafts for an objective
+ */
+export const generateSharedFlashcardDrafts = withPermission("content.create")(
+  async (
+    user: AuthContext,
+    input: GenerateFlashcardDraftsInput
+  ): Promise<{ success: boolean; data?: FlashcardDraftData[]; error?: string }> => {
+    try {
+      const validated = generateFlashcardDraftsSchema.parse(input);
+      const drafts = await generateDrafts(
+        validated.objectiveId,
+        { shared: true },
+        user.userId,
+        validated.count
+      );
+
+      return { success: true, data: drafts };
+    } catch (error) {
+      console.error("[generateSharedFlashcardDrafts] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to generate flashcards",
+      };
+    }
+  }
+);
+
+/**
+ * Shared drafts awaiting review for an objective
+ */
+export const listSharedFlashcardDrafts = withPermission("content.read")(
+  async (
+    user: AuthContext,
+    objectiveId: string
+  ): Promise<{ success: boolean; data?: FlashcardDraftData[]; error?: string }> => {
+    try {
+      const validatedId = objectiveIdSchema.parse(objectiveId);
+      return { success: true, data: await listPendingDrafts({ shared: true }, validatedId) };
+    } catch (error) {
+      console.error("[listSharedFlashcardDrafts] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch flashcard drafts",
+      };
+    }
+  }
+);
+
+/**
+ * Approve (publishing it to students) or reject a shared draft
+ */
+export const reviewSharedFlashcardDraft = withPermission("content.update")(
+  async (
+    user: AuthContext,
+    input: ReviewFlashcardDraftInput
+  ): Promise<{ success: boolean; data?: FlashcardDraftData; error?: string }> => {
+    try {
+      const validated = reviewFlashcardDraftSchema.parse(input);
+      const draft = await reviewDraft({ shared: true }, user.userId, validated);
+
+      return { success: true, data: draft };
+    } catch (error) {
+      console.error("[reviewSharedFlashcardDraft] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to review flashcard draft",
+      };
+    }
+  }
+);
@@ -0,0 +1,248 @@
+/**
+ * Flashcard Draft Service
+ *
+ * Generated flashcards wait as drafts until someone reviews them.
+ * Personal drafts (studentId set) become one Flashcard for their owner when
+ * approved. Shared drafts (studentId null) are reviewed by instructors and,
+ * once approved, students copy them into their own deck.
+ */
+
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { NotFoundError, ValidationError } from "@/lib/auth/types";
+import { getFlashcardGenerator, loadFlashcardSources } from "./flashcardGenerator.service";
+import {
+  DEFAULT_CARDS_PER_OBJECTIVE,
+  type FlashcardDraftData,
+  type FlashcardDraftStatus,
+  type FlashcardSourceType,
+  type ReviewFlashcardDraftInput,
+} from "../types/flashcardDraft.types";
+
+/**
+ * Whose drafts an operation works on: a student's personal drafts, or the
+ * shared instructor drafts
+ */
+export type DraftOwner = { studentId: string } | { shared: true };
+
+const DRAFT_SELECT = {
+  id: true,
+  objectiveId: true,
+  studentId: true,
+  front: true,
+  back: true,
+  sourceType: true,
+  sourceId: true,
+  generator: true,
+  status: true,
+  createdAt: true,
+} as const;
+
+function serializeDraft(draft: {
+  id: string;
+  objectiveId: string;
+  studentId: string | null;
+  front: string;
+  back: string;
+  sourceType: string;
+  sourceId: string | null;
+  generator: string;
+  status: string;
+  createdAt: Date;
+}): FlashcardDraftData {
+  return {
+    id: draft.id,
+    objectiveId: draft.objectiveId,
+    front: draft.front,
+    back: draft.back,
+    sourceType: draft.sourceType as FlashcardSourceType,
+    sourceId: draft.sourceId,
+    generator: draft.generator,
+    status: draft.status as FlashcardDraftStatus,
+    isShared: draft.studentId === null,
+    createdAt: draft.createdAt.toISOString(),
+  };
+}
+
+function ownerStudentId(owner: DraftOwner): string | null {
+  return "studentId" in owner ? owner.studentId : null;
+}
+
+/**
+ * Generate drafts for an objective and store them as pending
+ */
+export async function generateDrafts(
+  objectiveId: string,
+  owner: DraftOwner,
+  createdById: string,
+  count: number = DEFAULT_CARDS_PER_OBJECTIVE
+): Promise<FlashcardDraftData[]> {
+  const sources = await loadFlashcardSources(objectiveId);
+  const generator = getFlashcardGenerator();
+  const cards = await generator.generate(sources, count, createdById);
+
+  if (cards.length === 0) {
+    throw new ValidationError("No flashcards could be generated for this objective");
+  }
+
+  const studentId = ownerStudentId(owner);
+  const drafts = await prisma.$transaction(
+    cards.map((card) =>
+      prisma.flashcardDraft.create({
+        data: {
+          objectiveId,
+          studentId,
+          front: card.front,
+          back: card.back,
+          sourceType: card.sourceType,
+          sourceId: card.sourceId ?? null,
+          generator: generator.name,
+          createdById,
+        },
+        select: DRAFT_SELECT,
+      })
+    )
+  );
+
+  return drafts.map(serializeDraft);
+}
+
+/**
+ * Drafts awaiting review, oldest first
+ */
+export async function listPendingDrafts(
+  owner: DraftOwner,
+  objectiveId?: string
+): Promise<FlashcardDraftData[]> {
+  const drafts = await prisma.flashcardDraft.findMany({
+    where: {
+      studentId: ownerStudentId(owner),
+      status: "pending",
+      ...(objectiveId && { objectiveId }),
+    },
+    orderBy: { createdAt: "asc" },
+    select: DRAFT_SELECT,
+  });
+
+  return drafts.map(serializeDraft);
+}
+
+/**
+ * Approve (optionally with edits) or reject a pending draft.
+ * Approving a personal draft adds the card to its owner's deck, due now.
+ */
+export async function reviewDraft(
+  owner: DraftOwner,
+  reviewerId: string,
+  input: ReviewFlashcardDraftInput
+): Promise<FlashcardDraftData> {
+  const studentId = ownerStudentId(owner);
+  const draft = await prisma.flashcardDraft.findFirst({
+    where: { id: input.draftId, studentId },
+    select: DRAFT_SELECT,
+  });
+
+  if (!draft) {
+    throw new NotFoundError("Flashcard draft not found");
+  }
+  if (draft.status !== "pending") {
+    throw new ValidationError(`Flashcard draft has already been ${draft.status}`);
+  }
+
+  const reviewed = {
+    reviewedById: reviewerId,
+    reviewedAt: new Date(),
+  };
+
+  if (input.decision === "reject") {
+    const updated = await prisma.flashcardDraft.update({
+      where: { id: draft.id },
+      data: { status: "rejected", ...reviewed },
+      select: DRAFT_SELECT,
+    });
+    return serializeDraft(updated);
+  }
+
+  const front = input.front ?? draft.front;
+  const back = input.back ?? draft.back;
+
+  const updated = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+    const approved = await tx.flashcardDraft.update({
+      where: { id: draft.id },
+      data: { status: "approved", front, back, ...reviewed },
+      select: DRAFT_SELECT,
+    });
+
+    if (studentId) {
+      await tx.flashcard.create({
+        data: {
+          studentId,
+          objectiveId: draft.objectiveId,
+          front,
+          back,
+          sourceDraftId: draft.id,
+          nextReviewDate: new Date(),
+        },
+      });
+    }
+
+    return approved;
+  });
+
+  return serializeDraft(updated);
+}
+
+/**
+ * Copy an objective's approved shared cards into a student's deck.
+ * Cards the student already has are skipped. Returns the number added.
+ */
+export async function addApprovedSharedCards(
+  studentId: string,
+  objectiveId: string
+): Promise<number> {
+  const drafts = await prisma.flashcardDraft.findMany({
+    where: { objectiveId, studentId: null, status: "approved" },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, objectiveId: true, front: true, back: true },
+  });
+
+  if (drafts.length === 0) {
+    return 0;
+  }
+
+  const now = new Date();
+  const result = await prisma.flashcard.createMany({
+    data: drafts.map((draft) => ({
+      studentId,
+      objectiveId: draft.objectiveId,
+      front: draft.front,
+      back: draft.back,
+      sourceDraftId: draft.id,
+      nextReviewDate: now,
+    })),
+    skipDuplicates: true,
+  });
+
+  return result.count;
+}
+
+/**
+ * Approved shared cards per objective that the student hasn't added yet
+ */
+export async function countAvailableSharedCards(
+  studentId: string,
+  objectiveIds: string[]
+): Promise<Map<string, number>> {
+  const groups = await prisma.flashcardDraft.groupBy({
+    by: ["objectiveId"],
+    where: {
+      objectiveId: { in: objectiveIds },
+      studentId: null,
+      status: "approved",
+      flashcards: { none: { studentId } },
+    },
+    _count: { _all: true },
+  });
+
+  return new Map(groups.map((group) => [group.objectiveId, group._count._all]));
+}
@@ -0,0 +1,115 @@
+/**
+ * Flashcard Generator Service
+ *
+ * Loads an objective's source material and picks the generator that turns it
+ * into flashcard drafts. With AI_PROVIDER="fake" cards are generated
+ * deterministically without calling a model.
+ */
+
+import { z } from "zod";
+import { aiGateway, usingFakeAI } from "@/lib/ai/gateway";
+import { prisma } from "@/lib/prisma";
+import { NotFoundError } from "@/lib/auth/types";
+import {
+  buildFlashcardSystemMessage,
+  buildFlashcardUserMessage,
+  fakeFlashcardGenerator,
+  parseGeneratedFlashcards,
+  type FlashcardGenerator,
+} from "../lib/flashcardGeneration";
+import type { FlashcardSources } from "../types/flashcardDraft.types";
+
+// Transcripts are long; a few videos give the model enough to work with
+const MAX_TRANSCRIPTS = 3;
+
+/**
+ * Objective text, bullets and transcripts of the active videos mapped to it
+ */
+export async function loadFlashcardSources(objectiveId: string): Promise<FlashcardSources> {
+  const objective = await prisma.certificationObjective.findUnique({
+    where: { id: objectiveId },
+    select: {
+      code: true,
+      description: true,
+      domain: { select: { certification: { select: { id: true, name: true } } } },
+      bullets: {
+        orderBy: { order: "asc" },
+        select: {
+          id: true,
+          text: true,
+          subBullets: { orderBy: { order: "asc" }, select: { id: true, text: true } },
+        },
+      },
+    },
+  });
+
+  if (!objective) {
+    throw new NotFoundError("Objective not found");
+  }
+
+  const videos = await prisma.video.findMany({
+    where: {
+      isActive: true,
+      transcript: { not: null },
+      contentMappings: {
+        some: {
+          OR: [
+            { objectiveId },
+            { bullet: { objectiveId } },
+            { subBullet: { bullet: { objectiveId } } },
+          ],
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+    take: MAX_TRANSCRIPTS,
+    select: { id: true, title: true, transcript: true },
+  });
+
+  return {
+    certificationId: objective.domain.certification.id,
+    certificationName: objective.domain.certification.name,
+    objectiveCode: objective.code,
+    objectiveDescription: objective.description,
+    bullets: objective.bullets,
+    transcripts: videos.map((video) => ({
+      videoId: video.id,
+      title: video.title,
+      text: video.transcript ?? "",
+    })),
+  };
+}
+
+// Cards are validated individually by parseGeneratedFlashcards
+const flashcardResponseSchema = z.object({ cards: z.array(z.unknown()).default([]) });
+
+/**
+ * Generator backed by the AI gateway ("generation" task)
+ */
+const gatewayFlashcardGenerator: FlashcardGenerator = {
+  name: "ai",
+  async generate(sources, count, userId) {
+    const { data } = await aiGateway.generateJSON({
+      task: "generation",
+      usage: {
+        feature: "flashcard_generation",
+        userId,
+        certificationId: sources.certificationId,
+      },
+      system: buildFlashcardSystemMessage(sources.certificationName),
+      prompt: buildFlashcardUserMessage(sources, count),
+      temperature: 0.7,
+      maxTokens: 2000,
+      schema: flashcardResponseSchema,
+    });
+
+    return parseGeneratedFlashcards(data, sources, count);
+  },
+};
+
+/**
+ * Generator configured for this deployment (AI_PROVIDER)
+ */
+export function getFlashcardGenerator(): FlashcardGenerator {
+  return usingFakeAI() ? fakeFlashcardGenerator : gatewayFlashcardGenerator;
+}
@@ -0,0 +1,119 @@
+/**
+ * Flashcard Review Service
+ *
+ * Due queue, deck stats and review grading for a student's flashcards.
+ * The scheduling algorithm and clock are injectable so callers (and tests)
+ * can swap them.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { NotFoundError } from "@/lib/auth/types";
+import {
+  endOfDay,
+  getSchedulingAlgorithm,
+  scheduleReview,
+  type SchedulingAlgorithm,
+} from "../lib/scheduler";
+import {
+  MASTERED_INTERVAL_DAYS,
+  type FlashcardData,
+  type FlashcardStats,
+  type ReviewGrade,
+} from "../types/flashcard.types";
+
+const FLASHCARD_SELECT = {
+  id: true,
+  objectiveId: true,
+  front: true,
+  back: true,
+  nextReviewDate: true,
+  easeFactor: true,
+  intervalDays: true,
+  reviewCount: true,
+  difficultyRating: true,
+} as const;
+
+function serializeFlashcard(card: {
+  id: string;
+  objectiveId: string;
+  front: string;
+  back: string;
+  nextReviewDate: Date;
+  easeFactor: number;
+  intervalDays: number;
+  reviewCount: number;
+  difficultyRating: number;
+}): FlashcardData {
+  return { ...card, nextReviewDate: card.nextReviewDate.toISOString() };
+}
+
+/**
+ * Algorithm configured for this deployment (FLASHCARD_SCHEDULING_ALGORITHM)
+ */
+export function configuredSchedulingAlgorithm(): SchedulingAlgorithm {
+  return getSchedulingAlgorithm(process.env.FLASHCARD_SCHEDULING_ALGORITHM);
+}
+
+/**
+ * Cards due for review now, most overdue first
+ */
+export async function getDueQueue(
+  studentId: string,
+  limit: number = 50,
+  now: Date = new Date()
+): Promise<FlashcardData[]> {
+  const cards = await prisma.flashcard.findMany({
+    where: { studentId, nextReviewDate: { lte: now } },
+    select: FLASHCARD_SELECT,
+    orderBy: { nextReviewDate: "asc" },
+    take: limit,
+  });
+  return cards.map(serializeFlashcard);
+}
+
+/**
+ * Total / due today / mastered counts
+ */
+export async function getDeckStats(
+  studentId: string,
+  now: Date = new Date()
+): Promise<FlashcardStats> {
+  const [total, due, mastered] = await Promise.all([
+    prisma.flashcard.count({ where: { studentId } }),
+    prisma.flashcard.count({ where: { studentId, nextReviewDate: { lte: endOfDay(now) } } }),
+    prisma.flashcard.count({
+      where: { studentId, intervalDays: { gte: MASTERED_INTERVAL_DAYS } },
+    }),
+  ]);
+  return { total, due, mastered };
+}
+
+/**
+ * Grade a card and reschedule it
+ */
+export async function applyReview(
+  studentId: string,
+  flashcardId: string,
+  grade: ReviewGrade,
+  algorithm: SchedulingAlgorithm = configuredSchedulingAlgorithm(),
+  now: Date = new Date()
+): Promise<FlashcardData> {
+  const card = await prisma.flashcard.findUnique({
+    where: { id: flashcardId },
+    select: { ...FLASHCARD_SELECT, studentId: true },
+  });
+
+  if (!card || card.studentId !== studentId) {
+    throw new NotFoundError("Flashcard not found");
+  }
+
+  const scheduled = scheduleReview(card, grade, algorithm, now);
+
+  const updated = await prisma.flashcard.update({
+    where: { id: card.id },
+    data: scheduled,
+    select: FLASHCARD_SELECT,
+  });
+
+  return serializeFlashcard(updated);
+}
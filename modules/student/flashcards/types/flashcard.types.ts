@@ -0,0 +1,80 @@
+/**
+ * Flashcard Types and Zod Schemas
+ *
+ * Type definitions for spaced-repetition flashcard review.
+ */
+
+import { z } from "zod";
+
+/**
+ * How well the student recalled a card
+ */
+export const ReviewGrade = z.enum(["again", "hard", "good", "easy"]);
+
+export type ReviewGrade = z.infer<typeof ReviewGrade>;
+
+/**
+ * Available scheduling algorithms
+ */
+export const SchedulingAlgorithmName = z.enum(["ladder", "sm2"]);
+
+export type SchedulingAlgorithmName = z.infer<typeof SchedulingAlgorithmName>;
+
+/**
+ * Algorithm used when none is specified
+ */
+export const DEFAULT_SCHEDULING_ALGORITHM: SchedulingAlgorithmName = "sm2";
+
+/**
+ * Cards reviewed at this interval or longer count as mastered
+ * (the last rung of the 1-3-7-14-21 ladder)
+ */
+export const MASTERED_INTERVAL_DAYS = 21;
+
+/**
+ * Scheduling fields stored on Flashcard
+ */
+export interface SchedulingState {
+  easeFactor: number;
+  intervalDays: number;
+  reviewCount: number;
+  difficultyRating: number; // 1-5
+}
+
+/**
+ * Scheduling fields after a review
+ */
+export interface ScheduledReview extends SchedulingState {
+  nextReviewDate: Date;
+  lastReviewedAt: Date;
+}
+
+/**
+ * Schema for grading a flashcard
+ */
+export const reviewFlashcardSchema = z.object({
+  flashcardId: z.string().cuid(),
+  grade: ReviewGrade,
+});
+
+export type ReviewFlashcardInput = z.infer<typeof reviewFlashcardSchema>;
+
+/**
+ * Flashcard as shown to the student
+ */
+export interface FlashcardData extends SchedulingState {
+  id: string;
+  objectiveId: string;
+  front: string;
+  back: string;
+  nextReviewDate: string;
+}
+
+/**
+ * Flashcard deck stats
+ */
+export interface FlashcardStats {
+  total: number;
+  due: number; // Due now or any time today
+  mastered: number;
+}
@@ -0,0 +1,103 @@
+/**
+ * Flashcard Draft Types and Zod Schemas
+ *
+ * Type definitions for AI-generated flashcard drafts and their review.
+ */
+
+import { z } from "zod";
+
+/**
+ * Where a generated card came from
+ */
+export const FlashcardSourceType = z.enum(["transcript", "bullet", "sub_bullet", "objective"]);
+
+export type FlashcardSourceType = z.infer<typeof FlashcardSourceType>;
+
+/**
+ * Draft review status
+ */
+export const FlashcardDraftStatus = z.enum(["pending", "approved", "rejected"]);
+
+export type FlashcardDraftStatus = z.infer<typeof FlashcardDraftStatus>;
+
+/**
+ * Cards generated per objective unless the caller asks for a different number
+ */
+export const DEFAULT_CARDS_PER_OBJECTIVE = 8;
+
+/**
+ * Card as returned by a generator (validated before it is stored)
+ */
+export const generatedFlashcardSchema = z.object({
+  front: z.string().trim().min(3).max(500),
+  back: z.string().trim().min(1).max(1500),
+  sourceType: FlashcardSourceType,
+  sourceId: z.string().nullable().optional(),
+});
+
+export type GeneratedFlashcard = z.infer<typeof generatedFlashcardSchema>;
+
+/**
+ * Source material for one objective
+ */
+export interface FlashcardSources {
+  certificationId: string;
+  certificationName: string;
+  objectiveCode: string;
+  objectiveDescription: string;
+  bullets: {
+    id: string;
+    text: string;
+    subBullets: { id: string; text: string }[];
+  }[];
+  transcripts: { videoId: string; title: string; text: string }[];
+}
+
+/**
+ * Schema for generating drafts for an objective
+ */
+export const generateFlashcardDraftsSchema = z.object({
+  objectiveId: z.string().cuid(),
+  count: z.number().int().min(1).max(20).optional(),
+});
+
+export type GenerateFlashcardDraftsInput = z.infer<typeof generateFlashcardDraftsSchema>;
+
+/**
+ * Schema for approving or rejecting a draft (approvals may edit the text)
+ */
+export const reviewFlashcardDraftSchema = z.object({
+  draftId: z.string().cuid(),
+  decision: z.enum(["approve", "reject"]),
+  front: z.string().trim().min(3).max(500).optional(),
+  back: z.string().trim().min(1).max(1500).optional(),
+});
+
+export type ReviewFlashcardDraftInput = z.infer<typeof reviewFlashcardDraftSchema>;
+
+/**
+ * Draft as shown to reviewers
+ */
+export interface FlashcardDraftData {
+  id: string;
+  objectiveId: string;
+  front: string;
+  back: string;
+  sourceType: FlashcardSourceType;
+  sourceId: string | null;
+  generator: string;
+  status: FlashcardDraftStatus;
+  isShared: boolean;
+  createdAt: string;
+}
+
+/**
+ * Objective the generator can target, with the approved shared cards the student has not added yet
+ */
+export interface GenerationObjective {
+  id: string;
+  code: string;
+  description: string;
+  domainName: string;
+  availableSharedCount: number;
+}
@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * FlashcardDraftList Component
+ *
+ * Generated flashcard drafts with editable front/back and approve/reject
+ * buttons. Used by students for their own drafts and by instructors for
+ * shared drafts.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Check, X } from "lucide-react";
+import type {
+  FlashcardDraftData,
+  FlashcardSourceType,
+  ReviewFlashcardDraftInput,
+} from "../types/flashcardDraft.types";
+
+interface FlashcardDraftListProps {
+  drafts: FlashcardDraftData[];
+  onReview: (input: ReviewFlashcardDraftInput) => void;
+  isReviewing?: boolean;
+  objectiveCodes?: Record<string, string>;
+}
+
+const SOURCE_LABELS: Record<FlashcardSourceType, string> = {
+  transcript: "Video transcript",
+  bullet: "Bullet",
+  sub_bullet: "Sub-bullet",
+  objective: "Objective",
+};
+
+export function FlashcardDraftList({
+  drafts,
+  onReview,
+  isReviewing,
+  objectiveCodes,
+}: FlashcardDraftListProps) {
+  return (
+    <div className="space-y-3">
+      {drafts.map((draft) => (
+        <FlashcardDraftItem
+          key={draft.id}
+          draft={draft}
+          onReview={onReview}
+          isReviewing={isReviewing}
+          objectiveCode={objectiveCodes?.[draft.objectiveId]}
+        />
+      ))}
+    </div>
+  );
+}
+
+function FlashcardDraftItem({
+  draft,
+  onReview,
+  isReviewing,
+  objectiveCode,
+}: {
+  draft: FlashcardDraftData;
+  onReview: (input: ReviewFlashcardDraftInput) => void;
+  isReviewing?: boolean;
+  objectiveCode?: string;
+}) {
+  const [front, setFront] = useState(draft.front);
+  const [back, setBack] = useState(draft.back);
+
+  const edited = front.trim() !== draft.front || back.trim() !== draft.back;
+  const canApprove = front.trim().length >= 3 && back.trim().length > 0;
+
+  const handleApprove = () => {
+    onReview({
+      draftId: draft.id,
+      decision: "approve",
+      ...(edited && { front: front.trim(), back: back.trim() }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 pt-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {objectiveCode && <Badge variant="outline">{objectiveCode}</Badge>}
+          <Badge variant="secondary">{SOURCE_LABELS[draft.sourceType]}</Badge>
+          {edited && <Badge variant="outline">Edited</Badge>}
+        </div>
+
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label htmlFor={`front-${draft.id}`}>Front</Label>
+            <Textarea
+              id={`front-${draft.id}`}
+              value={front}
+              onChange={(e) => setFront(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`back-${draft.id}`}>Back</Label>
+            <Textarea
+              id={`back-${draft.id}`}
+              value={back}
+              onChange={(e) => setBack(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onReview({ draftId: draft.id, decision: "reject" })}
+            disabled={isReviewing}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Reject
+          </Button>
+          <Button size="sm" onClick={handleApprove} disabled={isReviewing || !canApprove}>
+            <Check className="h-4 w-4 mr-1" />
+            Approve
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+/**
+ * FlashcardGeneratorPanel Component
+ *
+ * Generates flashcard drafts for an objective from its bullets and lesson
+ * transcripts, lists drafts for review, and adds instructor-approved cards.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Sparkles } from "lucide-react";
+import {
+  useAddSharedFlashcards,
+  useGenerateMyFlashcardDrafts,
+  useGenerationObjectives,
+  useMyFlashcardDrafts,
+  useReviewMyFlashcardDraft,
+} from "../hooks/useFlashcardDrafts";
+import { FlashcardDraftList } from "./FlashcardDraftList";
+
+export function FlashcardGeneratorPanel() {
+  const [objectiveId, setObjectiveId] = useState("");
+  const { data: objectives, isLoading } = useGenerationObjectives();
+  const { data: drafts } = useMyFlashcardDrafts();
+  const generateDrafts = useGenerateMyFlashcardDrafts();
+  const reviewDraft = useReviewMyFlashcardDraft();
+  const addShared = useAddSharedFlashcards();
+
+  if (isLoading || !objectives || objectives.length === 0) {
+    return null;
+  }
+
+  const selected = objectives.find((objective) => objective.id === objectiveId);
+  const objectiveCodes = Object.fromEntries(objectives.map((o) => [o.id, o.code]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          Generate Flashcards
+        </CardTitle>
+        <CardDescription>
+          Create cards from an objective&apos;s bullets and lesson transcripts. Review each
+          card before it joins your deck.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col gap-2 md:flex-row">
+          <Select value={objectiveId} onValueChange={setObjectiveId}>
+            <SelectTrigger className="md:w-[420px]">
+              <SelectValue placeholder="Choose an objective" />
+            </SelectTrigger>
+            <SelectContent>
+              {objectives.map((objective) => (
+                <SelectItem key={objective.id} value={objective.id}>
+                  {objective.code} - {objective.description}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => generateDrafts.mutate({ objectiveId })}
+            disabled={!objectiveId || generateDrafts.isPending}
+          >
+            {generateDrafts.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Sparkles className="h-4 w-4 mr-2" />
+            )}
+            Generate
+          </Button>
+          {!!selected && selected.availableSharedCount > 0 && (
+            <Button
+              variant="outline"
+              onClick={() => addShared.mutate(selected.id)}
+              disabled={addShared.isPending}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add {selected.availableSharedCount} instructor-approved card
+              {selected.availableSharedCount === 1 ? "" : "s"}
+            </Button>
+          )}
+        </div>
+
+        {!!drafts && drafts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              {drafts.length} draft{drafts.length === 1 ? "" : "s"} to review
+            </p>
+            <FlashcardDraftList
+              drafts={drafts}
+              onReview={(input) => reviewDraft.mutate(input)}
+              isReviewing={reviewDraft.isPending}
+              objectiveCodes={objectiveCodes}
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
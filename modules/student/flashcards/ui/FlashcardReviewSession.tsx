@@ -0,0 +1,146 @@
+"use client";
+
+/**
+ * FlashcardReviewSession Component
+ *
+ * Reviews the due queue one card at a time. Each grade button shows when the
+ * card will come back; cards graded "Again" return at the end of the session.
+ */
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, CheckCircle } from "lucide-react";
+import { useDueFlashcards, useReviewFlashcard } from "../hooks/useFlashcards";
+import { formatInterval, getSchedulingAlgorithm, scheduleReview } from "../lib/scheduler";
+import type { FlashcardData, ReviewGrade } from "../types/flashcard.types";
+
+interface FlashcardReviewSessionProps {
+  onExit: () => void;
+}
+
+const GRADE_BUTTONS: {
+  grade: ReviewGrade;
+  label: string;
+  variant: "destructive" | "outline" | "default" | "secondary";
+}[] = [
+  { grade: "again", label: "Again", variant: "destructive" },
+  { grade: "hard", label: "Hard", variant: "outline" },
+  { grade: "good", label: "Good", variant: "default" },
+  { grade: "easy", label: "Easy", variant: "secondary" },
+];
+
+export function FlashcardReviewSession({ onExit }: FlashcardReviewSessionProps) {
+  const { data, isLoading } = useDueFlashcards(true);
+  const reviewCard = useReviewFlashcard();
+
+  const [queue, setQueue] = useState<FlashcardData[] | null>(null);
+  const [initialCount, setInitialCount] = useState(0);
+  const [reviewed, setReviewed] = useState(0);
+  const [showBack, setShowBack] = useState(false);
+
+  useEffect(() => {
+    if (data && queue === null) {
+      setQueue(data.cards);
+      setInitialCount(data.cards.length);
+    }
+  }, [data, queue]);
+
+  if (isLoading || queue === null || !data) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <p className="text-center text-muted-foreground">Loading due cards...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const algorithm = getSchedulingAlgorithm(data.algorithm);
+  const card = queue[0];
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    const updated = await reviewCard.mutateAsync({ flashcardId: card.id, grade });
+    setReviewed((count) => count + 1);
+    setShowBack(false);
+    // Relearning cards come back at the end of this session
+    setQueue((current) => {
+      const rest = (current ?? []).slice(1);
+      return updated.intervalDays === 0 ? [...rest, updated] : rest;
+    });
+  };
+
+  if (!card) {
+    return (
+      <div className="rounded-lg border bg-muted/30 p-12 text-center">
+        <div className="mx-auto max-w-md">
+          <CheckCircle className="h-12 w-12 mx-auto text-green-600 dark:text-green-400 mb-4" />
+          <h3 className="text-lg font-semibold mb-2">
+            {initialCount > 0 ? "Review complete" : "Nothing due right now"}
+          </h3>
+          <p className="text-sm text-muted-foreground mb-6">
+            {initialCount > 0
+              ? `You reviewed ${reviewed} card${reviewed === 1 ? "" : "s"}. Come back when more are due.`
+              : "All caught up - check back later."}
+          </p>
+          <Button onClick={onExit}>Back to Flashcards</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const remaining = queue.length;
+  const done = Math.max(initialCount - remaining, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="ghost" onClick={onExit}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          End Session
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {remaining} remaining &middot; {algorithm.label}
+        </span>
+      </div>
+
+      <Progress value={initialCount > 0 ? (done / initialCount) * 100 : 0} />
+
+      <Card className="min-h-[280px]">
+        <CardContent className="flex min-h-[280px] flex-col items-center justify-center gap-6 p-8 text-center">
+          <p className="text-xl font-medium whitespace-pre-line">{card.front}</p>
+          {showBack && (
+            <>
+              <div className="w-full border-t" />
+              <p className="text-lg text-muted-foreground whitespace-pre-line">{card.back}</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {showBack ? (
+        <div className="grid grid-cols-2 gap-2 md:grid-cols-4">
+          {GRADE_BUTTONS.map(({ grade, label, variant }) => (
+            <Button
+              key={grade}
+              variant={variant}
+              onClick={() => handleGrade(grade)}
+              disabled={reviewCard.isPending}
+              className="flex h-auto flex-col py-3"
+            >
+              <span>{label}</span>
+              <span className="text-xs opacity-80">
+                {formatInterval(scheduleReview(card, grade, algorithm).intervalDays)}
+              </span>
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <Button className="w-full" onClick={() => setShowBack(true)}>
+          Show Answer
+        </Button>
+      )}
+    </div>
+  );
+}
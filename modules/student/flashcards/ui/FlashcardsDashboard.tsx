@@ -0,0 +1,80 @@
+"use client";
+
+/**
+ * FlashcardsDashboard Component
+ *
+ * Deck stats, entry point to spaced-repetition review sessions and
+ * flashcard generation.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Brain, PlayCircle } from "lucide-react";
+import { useFlashcardStats } from "../hooks/useFlashcards";
+import { FlashcardGeneratorPanel } from "./FlashcardGeneratorPanel";
+import { FlashcardReviewSession } from "./FlashcardReviewSession";
+
+export function FlashcardsDashboard() {
+  const [reviewing, setReviewing] = useState(false);
+  const { data: stats, isLoading } = useFlashcardStats();
+
+  if (reviewing) {
+    return <FlashcardReviewSession onExit={() => setReviewing(false)} />;
+  }
+
+  const format = (value: number | undefined) => (isLoading ? "…" : (value ?? 0));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Flashcards</h1>
+          <p className="text-muted-foreground mt-2">
+            Review key concepts with spaced repetition
+          </p>
+        </div>
+        <Button onClick={() => setReviewing(true)} disabled={!stats || stats.due === 0}>
+          <PlayCircle className="h-4 w-4 mr-2" />
+          Start Review
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="rounded-lg border bg-card p-4">
+          <p className="text-sm text-muted-foreground">Total Cards</p>
+          <p className="text-2xl font-bold mt-1">{format(stats?.total)}</p>
+        </div>
+        <div className="rounded-lg border bg-card p-4">
+          <p className="text-sm text-muted-foreground">Due Today</p>
+          <p className="text-2xl font-bold mt-1">{format(stats?.due)}</p>
+        </div>
+        <div className="rounded-lg border bg-card p-4">
+          <p className="text-sm text-muted-foreground">Mastered</p>
+          <p className="text-2xl font-bold mt-1">{format(stats?.mastered)}</p>
+        </div>
+      </div>
+
+      {!isLoading && stats?.total === 0 && (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <div className="mx-auto max-w-md">
+            <Brain className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No flashcards yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Generate cards for an objective below, or add ones your instructor has approved.
+              Cards you approve appear here, ready for spaced review.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {!isLoading && !!stats && stats.total > 0 && stats.due === 0 && (
+        <p className="text-sm text-muted-foreground">
+          You&apos;re all caught up. Cards come back on a growing schedule as you recall them.
+        </p>
+      )}
+
+      <FlashcardGeneratorPanel />
+    </div>
+  );
+}
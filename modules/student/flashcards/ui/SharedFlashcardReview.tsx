@@ -0,0 +1,115 @@
+"use client";
+
+/**
+ * SharedFlashcardReview Component
+ *
+ * Instructor view for generating shared flashcard drafts per objective and
+ * approving them. Approved cards become available for students to add.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Sparkles } from "lucide-react";
+import { useCertifications } from "@/modules/certifications/hooks/useCertifications";
+import { useDomains } from "@/modules/certifications/hooks/useDomains";
+import {
+  useGenerateSharedFlashcardDrafts,
+  useReviewSharedFlashcardDraft,
+  useSharedFlashcardDrafts,
+} from "../hooks/useFlashcardDrafts";
+import { FlashcardDraftList } from "./FlashcardDraftList";
+
+export function SharedFlashcardReview() {
+  const [certificationId, setCertificationId] = useState("");
+  const [objectiveId, setObjectiveId] = useState("");
+
+  const { data: certifications } = useCertifications({
+    status: "active",
+    sortBy: "name",
+    sortOrder: "asc",
+  });
+  const { data: domains } = useDomains(certificationId);
+  const { data: drafts, isLoading } = useSharedFlashcardDrafts(objectiveId);
+  const generateDrafts = useGenerateSharedFlashcardDrafts();
+  const reviewDraft = useReviewSharedFlashcardDraft();
+
+  const objectives = (domains?.data ?? []).flatMap((domain) => domain.objectives);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-2 md:flex-row">
+        <Select
+          value={certificationId}
+          onValueChange={(value) => {
+            setCertificationId(value);
+            setObjectiveId("");
+          }}
+        >
+          <SelectTrigger className="md:w-[260px]">
+            <SelectValue placeholder="Choose a certification" />
+          </SelectTrigger>
+          <SelectContent>
+            {(certifications?.data ?? []).map((certification) => (
+              <SelectItem key={certification.id} value={certification.id}>
+                {certification.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={objectiveId} onValueChange={setObjectiveId} disabled={!certificationId}>
+          <SelectTrigger className="md:w-[420px]">
+            <SelectValue placeholder="Choose an objective" />
+          </SelectTrigger>
+          <SelectContent>
+            {objectives.map((objective) => (
+              <SelectItem key={objective.id} value={objective.id}>
+                {objective.code} - {objective.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button
+          onClick={() => generateDrafts.mutate({ objectiveId })}
+          disabled={!objectiveId || generateDrafts.isPending}
+        >
+          {generateDrafts.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Sparkles className="h-4 w-4 mr-2" />
+          )}
+          Generate Drafts
+        </Button>
+      </div>
+
+      {!objectiveId ? (
+        <p className="text-sm text-muted-foreground">
+          Choose an objective to review its flashcard drafts.
+        </p>
+      ) : isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading drafts...</p>
+      ) : !drafts || drafts.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-8 text-center">
+          <p className="text-sm text-muted-foreground">
+            No drafts waiting for review. Generate drafts from this objective&apos;s bullets and
+            video transcripts.
+          </p>
+        </div>
+      ) : (
+        <FlashcardDraftList
+          drafts={drafts}
+          onReview={(input) => reviewDraft.mutate(input)}
+          isReviewing={reviewDraft.isPending}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+/**
+ * Learning Path Hooks
+ *
+ * Client hooks for the student's learning path.
+ */
+
+import { useQuery } from "@tanstack/react-query";
+import { getLearningPath } from "../serverActions/learningPath.action";
+
+/**
+ * Fetch the ordered learning path for the current certification
+ */
+export function useLearningPath() {
+  return useQuery({
+    queryKey: ["learningPath"],
+    queryFn: async () => {
+      const result = await getLearningPath();
+      if (!result.success) {
+        throw new Error(result.error || "Failed to fetch learning path");
+      }
+      return result.data ?? null;
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import { orderPathSteps, pushUnique } from '../pathBuilder'
+
+const step = (objectiveId: string) => ({ objectiveId })
+
+describe('orderPathSteps', () => {
+  it('puts priority objectives first in rank order, then the rest in blueprint order', () => {
+    const { steps, skippedSteps } = orderPathSteps(
+      [step('o1'), step('o2'), step('o3'), step('o4'), step('o5')],
+      ['o4'],
+      ['o5', 'o2']
+    )
+
+    expect(steps.map((s) => s.objectiveId)).toEqual(['o5', 'o2', 'o1', 'o3'])
+    expect(skippedSteps.map((s) => s.objectiveId)).toEqual(['o4'])
+  })
+
+  it('ignores ranked or skipped objectives that are not in the blueprint', () => {
+    const { steps, skippedSteps } = orderPathSteps([step('o1'), step('o2')], ['gone'], ['missing', 'o2'])
+
+    expect(steps.map((s) => s.objectiveId)).toEqual(['o2', 'o1'])
+    expect(skippedSteps).toEqual([])
+  })
+
+  it('keeps an objective that is both skipped and ranked out of the steps', () => {
+    const { steps, skippedSteps } = orderPathSteps([step('o1'), step('o2')], ['o1'], ['o1'])
+
+    expect(steps.map((s) => s.objectiveId)).toEqual(['o2'])
+    expect(skippedSteps.map((s) => s.objectiveId)).toEqual(['o1'])
+  })
+})
+
+describe('pushUnique', () => {
+  it('adds an item only when its id is new', () => {
+    const list = [{ id: 'a', title: 'First' }]
+
+    pushUnique(list, { id: 'a', title: 'Duplicate' })
+    pushUnique(list, { id: 'b', title: 'Second' })
+
+    expect(list).toEqual([
+      { id: 'a', title: 'First' },
+      { id: 'b', title: 'Second' },
+    ])
+  })
+})
@@ -0,0 +1,38 @@
+/**
+ * Learning Path Builder
+ *
+ * Pure helpers for ordering objectives into a learning path.
+ */
+
+/**
+ * Order steps for study: priority objectives first (in the order the rules
+ * engine ranked them), then everything else in blueprint order. Skipped
+ * objectives are pulled out so the UI can still offer them.
+ */
+export function orderPathSteps<T extends { objectiveId: string }>(
+  blueprintOrdered: T[],
+  skippedObjectives: string[],
+  priorityObjectives: string[]
+): { steps: T[]; skippedSteps: T[] } {
+  const skipped = new Set(skippedObjectives);
+  const priorityRank = new Map(priorityObjectives.map((id, index) => [id, index]));
+
+  const skippedSteps = blueprintOrdered.filter((step) => skipped.has(step.objectiveId));
+  const remaining = blueprintOrdered.filter((step) => !skipped.has(step.objectiveId));
+
+  const priority = remaining
+    .filter((step) => priorityRank.has(step.objectiveId))
+    .sort((a, b) => priorityRank.get(a.objectiveId)! - priorityRank.get(b.objectiveId)!);
+  const rest = remaining.filter((step) => !priorityRank.has(step.objectiveId));
+
+  return { steps: [...priority, ...rest], skippedSteps };
+}
+
+/**
+ * Add an item to a list unless one with the same id is already there
+ */
+export function pushUnique<T extends { id: string }>(list: T[], item: T): void {
+  if (!list.some((existing) => existing.id === item.id)) {
+    list.push(item);
+  }
+}
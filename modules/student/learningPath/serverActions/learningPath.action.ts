@@ -0,0 +1,202 @@
+"use server";
+
+/**
+ * Learning Path Server Actions
+ *
+ * Builds the student's ordered learning path from StudentLearningPath and the
+ * domain -> objective -> bullet hierarchy, with the primary content mapped
+ * at each level.
+ */
+
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext, ValidationError } from "@/lib/auth/types";
+import { orderPathSteps, pushUnique } from "../lib/pathBuilder";
+import type {
+  LearningPathData,
+  LearningPathStep,
+  MappedLevel,
+  PathDocument,
+  PathVideo,
+} from "../types/learningPath.types";
+
+// Only primary mappings to active content appear in the path
+const primaryVideoMappings = {
+  where: { isPrimary: true, video: { isActive: true } },
+  select: {
+    startSeconds: true,
+    endSeconds: true,
+    video: {
+      select: { id: true, title: true, videoCode: true, duration: true, thumbnailUrl: true },
+    },
+  },
+} as const;
+
+const primaryDocumentMappings = {
+  where: { isPrimary: true, document: { isActive: true } },
+  select: {
+    document: { select: { id: true, title: true, type: true } },
+  },
+} as const;
+
+/**
+ * Get the ordered learning path for the student's current certification
+ */
+export const getLearningPath = withPermission("progress.read")(
+  async (
+    user: AuthContext
+  ): Promise<{ success: boolean; data?: LearningPathData | null; error?: string }> => {
+    try {
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: { currentCertificationId: true },
+      });
+
+      if (!student) {
+        throw new ValidationError("Student not found");
+      }
+
+      if (!student.currentCertificationId) {
+        return { success: true, data: null };
+      }
+
+      const certificationId = student.currentCertificationId;
+
+      const [certification, learningPath, progress, completions] = await Promise.all([
+        prisma.certification.findUnique({
+          where: { id: certificationId },
+          select: {
+            id: true,
+            name: true,
+            domains: {
+              orderBy: { order: "asc" },
+              select: {
+                name: true,
+                order: true,
+                objectives: {
+                  orderBy: { order: "asc" },
+                  select: {
+                    id: true,
+                    code: true,
+                    description: true,
+                    videoContentMappings: primaryVideoMappings,
+                    documentContentMappings: primaryDocumentMappings,
+                    bullets: {
+                      orderBy: { order: "asc" },
+                      select: {
+                        text: true,
+                        videoContentMappings: primaryVideoMappings,
+                        documentContentMappings: primaryDocumentMappings,
+                        subBullets: {
+                          orderBy: { order: "asc" },
+                          select: {
+                            text: true,
+                            videoContentMappings: primaryVideoMappings,
+                            documentContentMappings: primaryDocumentMappings,
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        }),
+        prisma.studentLearningPath.findUnique({
+          where: { studentId_certificationId: { studentId: user.userId, certificationId } },
+        }),
+        prisma.studentProgress.findMany({
+          where: { studentId: user.userId, objective: { domain: { certificationId } } },
+          select: { objectiveId: true, status: true },
+        }),
+        prisma.videoCompletion.findMany({
+          where: { studentId: user.userId, completed: true },
+          select: { videoId: true },
+        }),
+      ]);
+
+      if (!certification) {
+        return { success: true, data: null };
+      }
+
+      const statusByObjective = new Map(progress.map((p) => [p.objectiveId, p.status]));
+      const completedVideos = new Set(completions.map((c) => c.videoId));
+      const priority = new Set(learningPath?.priorityObjectives ?? []);
+
+      const blueprintOrdered: LearningPathStep[] = [];
+      for (const domain of certification.domains) {
+        for (const objective of domain.objectives) {
+          const videos: PathVideo[] = [];
+          const documents: PathDocument[] = [];
+
+          // Objective-level content first, then bullets and sub-bullets in order
+          const levels: {
+            level: MappedLevel;
+            text: string | null;
+            videoContentMappings: typeof objective.videoContentMappings;
+            documentContentMappings: typeof objective.documentContentMappings;
+          }[] = [{ level: "objective", text: null, ...objective }];
+          for (const bullet of objective.bullets) {
+            levels.push({ level: "bullet", ...bullet });
+            for (const subBullet of bullet.subBullets) {
+              levels.push({ level: "subBullet", ...subBullet });
+            }
+          }
+
+          for (const { level, text, videoContentMappings, documentContentMappings } of levels) {
+            for (const { video, startSeconds, endSeconds } of videoContentMappings) {
+              pushUnique(videos, {
+                ...video,
+                mappedLevel: level,
+                mappedText: text,
+                startSeconds,
+                endSeconds,
+                completed: completedVideos.has(video.id),
+              });
+            }
+            for (const { document } of documentContentMappings) {
+              pushUnique(documents, { ...document, mappedLevel: level, mappedText: text });
+            }
+          }
+
+          blueprintOrdered.push({
+            objectiveId: objective.id,
+            code: objective.code,
+            description: objective.description,
+            domainName: domain.name,
+            domainOrder: domain.order,
+            isPriority: priority.has(objective.id),
+            progressStatus: statusByObjective.get(objective.id) ?? "not_started",
+            videos,
+            documents,
+          });
+        }
+      }
+
+      const { steps, skippedSteps } = orderPathSteps(
+        blueprintOrdered,
+        learningPath?.skippedObjectives ?? [],
+        learningPath?.priorityObjectives ?? []
+      );
+
+      return {
+        success: true,
+        data: {
+          certificationId: certification.id,
+          certificationName: certification.name,
+          isPersonalized: !!learningPath,
+          estimatedCompletionDate: learningPath?.estimatedCompletionDate?.toISOString() ?? null,
+          steps,
+          skippedSteps,
+        },
+      };
+    } catch (error) {
+      console.error("[getLearningPath] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch learning path",
+      };
+    }
+  }
+);
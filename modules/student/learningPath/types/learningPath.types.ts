@@ -0,0 +1,64 @@
+/**
+ * Learning Path Types
+ *
+ * Type definitions for the student's ordered learning path.
+ */
+
+/**
+ * Hierarchy level a piece of content is mapped to
+ */
+export type MappedLevel = "objective" | "bullet" | "subBullet";
+
+/**
+ * Primary video for a path step
+ */
+export interface PathVideo {
+  id: string;
+  title: string;
+  videoCode: string | null;
+  duration: number | null; // Seconds
+  thumbnailUrl: string | null;
+  mappedLevel: MappedLevel;
+  mappedText: string | null; // Bullet/sub-bullet text when mapped below the objective
+  startSeconds: number | null; // Part of the video covering this step (null = whole video)
+  endSeconds: number | null;
+  completed: boolean;
+}
+
+/**
+ * Primary document for a path step
+ */
+export interface PathDocument {
+  id: string;
+  title: string;
+  type: string; // "pdf", "docx", "txt"
+  mappedLevel: MappedLevel;
+  mappedText: string | null;
+}
+
+/**
+ * One objective in the learning path
+ */
+export interface LearningPathStep {
+  objectiveId: string;
+  code: string;
+  description: string;
+  domainName: string;
+  domainOrder: number;
+  isPriority: boolean;
+  progressStatus: string; // StudentProgress.status ("not_started" when no row exists)
+  videos: PathVideo[];
+  documents: PathDocument[];
+}
+
+/**
+ * Ordered learning path for the student's current certification
+ */
+export interface LearningPathData {
+  certificationId: string;
+  certificationName: string;
+  isPersonalized: boolean; // False until a diagnostic has seeded StudentLearningPath
+  estimatedCompletionDate: string | null;
+  steps: LearningPathStep[];
+  skippedSteps: LearningPathStep[];
+}
@@ -0,0 +1,283 @@
+"use client";
+
+/**
+ * LearningPathView Component
+ *
+ * Ordered list of objectives to study, each with the primary videos and
+ * documents instructors mapped to it.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import {
+  Calendar,
+  CheckCircle,
+  ClipboardCheck,
+  FileText,
+  PlayCircle,
+  Target,
+} from "lucide-react";
+import { getDocumentDownloadUrl } from "@/modules/content/serverActions/document.action";
+import { formatTimeRange } from "@/modules/content/lib/segmentMapping";
+import { useLearningPath } from "../hooks/useLearningPath";
+import type { LearningPathStep } from "../types/learningPath.types";
+
+const PROGRESS_LABELS: Record<string, string> = {
+  not_started: "Not Started",
+  in_progress: "In Progress",
+  completed: "Completed",
+  mastered: "Mastered",
+};
+
+function formatDuration(seconds: number | null): string | null {
+  if (!seconds) return null;
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function StepContent({ step }: { step: LearningPathStep }) {
+  const [openingId, setOpeningId] = useState<string | null>(null);
+
+  const openDocument = async (documentId: string) => {
+    setOpeningId(documentId);
+    try {
+      const result = await getDocumentDownloadUrl(documentId);
+      if (result.success && result.data) {
+        window.open(result.data.url, "_blank", "noopener,noreferrer");
+      } else {
+        toast.error(result.error || "Failed to open document");
+      }
+    } finally {
+      setOpeningId(null);
+    }
+  };
+
+  if (step.videos.length === 0 && step.documents.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No study material has been mapped to this objective yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {step.videos.map((video) => (
+        <div key={video.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+          <div className="flex items-center gap-3 min-w-0">
+            {video.completed ? (
+              <CheckCircle className="h-4 w-4 shrink-0 text-green-600 dark:text-green-400" />
+            ) : (
+              <PlayCircle className="h-4 w-4 shrink-0 text-muted-foreground" />
+            )}
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{video.title}</p>
+              {video.mappedText && (
+                <p className="truncate text-xs text-muted-foreground">{video.mappedText}</p>
+              )}
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-2">
+            {formatTimeRange(video.startSeconds, video.endSeconds) ? (
+              <span className="text-xs text-muted-foreground">
+                {formatTimeRange(video.startSeconds, video.endSeconds)}
+              </span>
+            ) : (
+              formatDuration(video.duration) && (
+                <span className="text-xs text-muted-foreground">{formatDuration(video.duration)}</span>
+              )
+            )}
+            <Button variant="ghost" size="sm" asChild>
+              <Link
+                href={`/dashboard/videos/${video.id}${video.startSeconds !== null ? `?t=${video.startSeconds}` : ""}`}
+              >
+                {video.completed ? "Rewatch" : "Watch"}
+              </Link>
+            </Button>
+          </div>
+        </div>
+      ))}
+      {step.documents.map((document) => (
+        <div
+          key={document.id}
+          className="flex items-center justify-between gap-4 rounded-md border p-3"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{document.title}</p>
+              {document.mappedText && (
+                <p className="truncate text-xs text-muted-foreground">{document.mappedText}</p>
+              )}
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => openDocument(document.id)}
+            disabled={openingId === document.id}
+          >
+            {openingId === document.id ? "Opening..." : "Open"}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function StepList({ steps, numbered }: { steps: LearningPathStep[]; numbered: boolean }) {
+  return (
+    <Accordion type="multiple" className="space-y-2">
+      {steps.map((step, index) => (
+        <AccordionItem
+          key={step.objectiveId}
+          value={step.objectiveId}
+          className="rounded-lg border bg-card px-4"
+        >
+          <AccordionTrigger className="hover:no-underline">
+            <div className="flex flex-1 items-center gap-3 text-left">
+              {numbered && (
+                <span className="w-6 shrink-0 text-sm text-muted-foreground">{index + 1}.</span>
+              )}
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium">
+                  {step.code} {step.description}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Domain {step.domainOrder}: {step.domainName} &middot; {step.videos.length} videos
+                  &middot; {step.documents.length} documents
+                </p>
+              </div>
+              <div className="flex shrink-0 items-center gap-2 pr-2">
+                {step.isPriority && <Badge variant="destructive">Priority</Badge>}
+                <Badge variant="outline">
+                  {PROGRESS_LABELS[step.progressStatus] ?? step.progressStatus}
+                </Badge>
+              </div>
+            </div>
+          </AccordionTrigger>
+          <AccordionContent>
+            <StepContent step={step} />
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  );
+}
+
+export function LearningPathView() {
+  const { data: path, isLoading } = useLearningPath();
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="pt-6">
+          <p className="text-center text-muted-foreground">Loading learning path...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!path) {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">My Learning Path</h1>
+          <p className="text-muted-foreground mt-2">Your personalized certification journey</p>
+        </div>
+
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <div className="mx-auto max-w-md">
+            <Target className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No learning path set</h3>
+            <p className="text-sm text-muted-foreground mb-6">
+              Take a short diagnostic and we&apos;ll create a personalized learning path tailored to
+              your schedule and experience level.
+            </p>
+            <Button asChild>
+              <Link href="/dashboard/diagnostic">
+                <Calendar className="h-4 w-4 mr-2" />
+                Set Up Learning Path
+              </Link>
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const finished = path.steps.filter(
+    (s) => s.progressStatus === "completed" || s.progressStatus === "mastered"
+  ).length;
+  const percentComplete = path.steps.length > 0 ? (finished / path.steps.length) * 100 : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">My Learning Path</h1>
+        <p className="text-muted-foreground mt-2">{path.certificationName}</p>
+      </div>
+
+      {!path.isPersonalized && (
+        <div className="flex flex-col gap-4 rounded-lg border bg-muted/30 p-4 md:flex-row md:items-center md:justify-between">
+          <p className="text-sm text-muted-foreground">
+            This path follows the exam blueprint. Take the diagnostic to skip what you already know
+            and focus on your weak spots.
+          </p>
+          <Button asChild variant="outline">
+            <Link href="/dashboard/diagnostic">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Take Diagnostic
+            </Link>
+          </Button>
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Progress</p>
+          <p className="text-3xl font-bold mt-1">
+            {finished}/{path.steps.length}
+          </p>
+          <Progress value={percentComplete} className="mt-2" />
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Priority Objectives</p>
+          <p className="text-3xl font-bold mt-1">{path.steps.filter((s) => s.isPriority).length}</p>
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Estimated Completion</p>
+          <p className="text-3xl font-bold mt-1">
+            {path.estimatedCompletionDate
+              ? new Date(path.estimatedCompletionDate).toLocaleDateString()
+              : "—"}
+          </p>
+        </div>
+      </div>
+
+      <StepList steps={path.steps} numbered />
+
+      {path.skippedSteps.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-lg font-semibold">Skipped ({path.skippedSteps.length})</h2>
+          <p className="text-sm text-muted-foreground">
+            You showed mastery of these objectives on the diagnostic. The material is still here if
+            you want a refresher.
+          </p>
+          <StepList steps={path.skippedSteps} numbered={false} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+/**
+ * PBQ Hooks
+ *
+ * Client hooks for listing, playing and submitting performance-based questions.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getMyPBQs, getPBQForPlay, submitPBQAttempt } from "../serverActions/pbq.action";
+import type { SubmitPBQAttemptInput } from "../types/pbq.types";
+
+/**
+ * Fetch the PBQs for the student's current certification
+ */
+export function usePBQList() {
+  return useQuery({
+    queryKey: ["pbqs"],
+    queryFn: async () => {
+      const result = await getMyPBQs();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch PBQs");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Fetch a single PBQ for the player
+ */
+export function usePBQ(pbqId: string) {
+  return useQuery({
+    queryKey: ["pbq", pbqId],
+    queryFn: async () => {
+      const result = await getPBQForPlay(pbqId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load PBQ");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Submit a response for scoring
+ */
+export function useSubmitPBQAttempt() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SubmitPBQAttemptInput) => {
+      const result = await submitPBQAttempt(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to submit PBQ");
+      }
+      return result.data;
+    },
+    onSuccess: (_result, input) => {
+      queryClient.invalidateQueries({ queryKey: ["pbqs"] });
+      queryClient.invalidateQueries({ queryKey: ["pbq", input.pbqId] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import { scorePBQ } from '../pbqScoring'
+import { pbqInputSchema, type PBQDefinition } from '@/modules/admin/questions/types/pbq.types'
+
+const firewall: PBQDefinition = {
+  type: 'firewall',
+  config: {
+    instructions: 'Allow web traffic to the DMZ server and SSH from the admin VLAN only.',
+    sources: ['ANY', 'Admin VLAN', 'Internet'],
+    destinations: ['DMZ Web', 'Internal DB'],
+    protocols: ['TCP', 'UDP', 'ANY'],
+    ports: ['22', '443', 'ANY'],
+    ruleCount: 4,
+  },
+  scoringRubric: {
+    expectedRules: [
+      { source: 'Internet', destination: 'DMZ Web', protocol: 'TCP', port: '443', action: 'allow', points: 1 },
+      { source: 'Admin VLAN', destination: 'DMZ Web', protocol: 'TCP', port: '22', action: 'allow', points: 1 },
+      { source: 'ANY', destination: 'DMZ Web', protocol: 'ANY', port: 'ANY', action: 'deny', points: 2 },
+    ],
+    orderMatters: true,
+    extraRulePenalty: 0.5,
+  },
+}
+
+const rule = (source: string, destination: string, protocol: string, port: string, action: 'allow' | 'deny') => ({
+  source,
+  destination,
+  protocol,
+  port,
+  action,
+})
+
+describe('PBQ scoring', () => {
+  describe('firewall', () => {
+    it('gives full credit for the expected rules in order and ignores blank rows', () => {
+      const result = scorePBQ(firewall, {
+        rules: [
+          rule('Internet', 'DMZ Web', 'tcp', '443', 'allow'),
+          rule('Admin VLAN', 'DMZ Web', 'TCP', '22', 'allow'),
+          rule('ANY', 'DMZ Web', 'ANY', 'ANY', 'deny'),
+          rule('', '', '', '', 'allow'),
+        ],
+      })
+
+      expect(result).toMatchObject({ score: 1, earnedPoints: 4, totalPoints: 4 })
+    })
+
+    it('gives no credit to a rule behind the catch-all deny when order matters', () => {
+      const result = scorePBQ(firewall, {
+        rules: [
+          rule('Internet', 'DMZ Web', 'TCP', '443', 'allow'),
+          rule('ANY', 'DMZ Web', 'ANY', 'ANY', 'deny'),
+          rule('Admin VLAN', 'DMZ Web', 'TCP', '22', 'allow'),
+        ],
+      })
+
+      expect(result.earnedPoints).toBe(3)
+      expect(result.score).toBe(0.75)
+      expect(result.items[1]).toMatchObject({ correct: false, detail: 'Rule is present but in the wrong order' })
+    })
+
+    it('subtracts the penalty for extra rules', () => {
+      const result = scorePBQ(firewall, {
+        rules: [
+          rule('Internet', 'DMZ Web', 'TCP', '443', 'allow'),
+          rule('Internet', 'Internal DB', 'ANY', 'ANY', 'allow'),
+        ],
+      })
+
+      expect(result.earnedPoints).toBe(0.5)
+      expect(result.items.at(-1)).toMatchObject({ earned: -0.5, possible: 0 })
+    })
+  })
+
+  it('scores log analysis with false positives and the follow-up question', () => {
+    const definition: PBQDefinition = {
+      type: 'logs',
+      config: {
+        instructions: 'Flag the lines that show the attack.',
+        lines: ['login ok', 'failed password', 'failed password', 'session closed'],
+        question: { prompt: 'Which attack is this?', choices: ['Brute force', 'Phishing'] },
+      },
+      scoringRubric: {
+        suspiciousLines: [1, 2],
+        pointsPerLine: 1,
+        falsePositivePenalty: 0.5,
+        answer: { correctIndex: 0, points: 2 },
+      },
+    }
+
+    expect(scorePBQ(definition, { selectedLines: [1, 2], answerIndex: 0 }).score).toBe(1)
+    // 1 line found, 1 false positive, wrong answer: (1 - 0.5) / 4
+    expect(scorePBQ(definition, { selectedLines: [1, 3], answerIndex: 1 }).score).toBe(0.125)
+    // Penalties never push the score below zero
+    expect(scorePBQ(definition, { selectedLines: [0, 3] }).score).toBe(0)
+  })
+
+  it('scores drag and drop placements and penalizes placed distractors', () => {
+    const definition: PBQDefinition = {
+      type: 'drag_drop',
+      config: {
+        instructions: 'Match each control to its category.',
+        items: [
+          { id: 'fence', label: 'Fence' },
+          { id: 'policy', label: 'Acceptable use policy' },
+          { id: 'ids', label: 'IDS' },
+          { id: 'coffee', label: 'Coffee machine' },
+        ],
+        targets: [
+          { id: 'physical', label: 'Physical' },
+          { id: 'managerial', label: 'Managerial' },
+          { id: 'technical', label: 'Technical' },
+        ],
+      },
+      scoringRubric: {
+        placements: { fence: 'physical', policy: 'managerial', ids: 'technical' },
+        pointsPerItem: 1,
+        distractorPenalty: 1,
+      },
+    }
+
+    const result = scorePBQ(definition, {
+      placements: { fence: 'physical', policy: 'technical', ids: 'technical', coffee: 'physical' },
+    })
+
+    expect(result.earnedPoints).toBe(1)
+    expect(result.totalPoints).toBe(3)
+    expect(result.items.map((item) => item.correct)).toEqual([true, false, true, false])
+    expect(result.items[1].detail).toBe('Placed in Technical')
+  })
+
+  it('scores image labels case-insensitively', () => {
+    const definition: PBQDefinition = {
+      type: 'image_labeling',
+      config: {
+        instructions: 'Label the network diagram.',
+        imageUrl: 'https://example.com/diagram.png',
+        hotspots: [
+          { id: 'a', x: 10, y: 20 },
+          { id: 'b', x: 60, y: 40 },
+        ],
+        labels: ['Firewall', 'Switch', 'Router'],
+      },
+      scoringRubric: { answers: { a: 'Firewall', b: 'Router' }, pointsPerHotspot: 1 },
+    }
+
+    const result = scorePBQ(definition, { labels: { a: 'firewall', b: 'Switch' } })
+
+    expect(result.score).toBe(0.5)
+    expect(result.items[1]).toMatchObject({ correct: false, detail: 'Labeled "Switch"' })
+  })
+
+  it('rejects responses in the wrong shape', () => {
+    expect(() => scorePBQ(firewall, { selectedLines: [1] })).toThrow()
+  })
+
+  it('rejects rubrics that refer to options the config does not have', () => {
+    const result = pbqInputSchema.safeParse({
+      title: 'Broken',
+      objectiveId: 'objective-1',
+      type: 'logs',
+      config: { instructions: 'Flag it', lines: ['one line'] },
+      scoringRubric: { suspiciousLines: [3], answer: { correctIndex: 0 } },
+    })
+
+    expect(result.success).toBe(false)
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual([
+      'Line 4 does not exist',
+      'The rubric has an answer but the config has no question',
+    ])
+  })
+})
@@ -0,0 +1,339 @@
+/**
+ * PBQ Scoring Engine
+ *
+ * Grades a student's response against a PBQ's scoring rubric with partial
+ * credit. Each rubric entry is worth points; penalties (extra firewall rules,
+ * wrongly flagged log lines, placed distractors) subtract points, and the
+ * final score is clamped to 0-1. Pure, so the admin preview scores the same
+ * way as a real attempt.
+ */
+
+import {
+  pbqDefinitionSchemas,
+  type DragDropConfig,
+  type DragDropResponse,
+  type DragDropRubric,
+  type FirewallConfig,
+  type FirewallResponse,
+  type FirewallRubric,
+  type FirewallRule,
+  type ImageLabelingConfig,
+  type ImageLabelingResponse,
+  type ImageLabelingRubric,
+  type LogsConfig,
+  type LogsResponse,
+  type LogsRubric,
+  type PBQDefinition,
+} from "@/modules/admin/questions/types/pbq.types";
+import type { PBQScoreItem, PBQScoreResult } from "../types/pbq.types";
+
+function normalize(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+function sumPoints(items: PBQScoreItem[]): { earned: number; possible: number } {
+  return items.reduce(
+    (totals, item) => ({
+      earned: totals.earned + item.earned,
+      possible: totals.possible + item.possible,
+    }),
+    { earned: 0, possible: 0 }
+  );
+}
+
+// ============================================================================
+// FIREWALL
+// ============================================================================
+
+const RULE_FIELDS = ["source", "destination", "protocol", "port", "action"] as const;
+
+function describeRule(rule: FirewallRule): string {
+  return `${rule.action.toUpperCase()} ${rule.protocol}/${rule.port} from ${rule.source} to ${rule.destination}`;
+}
+
+function rulesMatch(a: FirewallRule, b: FirewallRule): boolean {
+  return RULE_FIELDS.every((field) => normalize(a[field]) === normalize(b[field]));
+}
+
+/**
+ * Pair expected rules with student rules. With orderMatters the pairs keep
+ * the expected order, choosing the in-order subset worth the most points
+ * (a weighted longest common subsequence); otherwise any identical rule counts.
+ */
+function matchRules(expected: FirewallRubric["expectedRules"], rules: FirewallRule[], ordered: boolean) {
+  const matches = new Map<number, number>(); // expected index -> rule index
+
+  if (!ordered) {
+    const used = new Set<number>();
+    expected.forEach((rule, index) => {
+      const match = rules.findIndex((candidate, i) => !used.has(i) && rulesMatch(candidate, rule));
+      if (match >= 0) {
+        used.add(match);
+        matches.set(index, match);
+      }
+    });
+    return matches;
+  }
+
+  // best[i][j]: most points from the first i expected rules and first j student rules
+  const best = Array.from({ length: expected.length + 1 }, () =>
+    new Array<number>(rules.length + 1).fill(0)
+  );
+  for (let i = 1; i <= expected.length; i++) {
+    for (let j = 1; j <= rules.length; j++) {
+      best[i][j] = Math.max(best[i - 1][j], best[i][j - 1]);
+      if (rulesMatch(rules[j - 1], expected[i - 1])) {
+        best[i][j] = Math.max(best[i][j], best[i - 1][j - 1] + expected[i - 1].points);
+      }
+    }
+  }
+
+  for (let i = expected.length, j = rules.length; i > 0 && j > 0; ) {
+    if (
+      rulesMatch(rules[j - 1], expected[i - 1]) &&
+      best[i][j] === best[i - 1][j - 1] + expected[i - 1].points
+    ) {
+      matches.set(i - 1, j - 1);
+      i--;
+      j--;
+    } else if (best[i - 1][j] >= best[i][j - 1]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Each expected rule earns its points when the student has an identical rule.
+ * With orderMatters (first-match firewalls) a rule that exists but sits in
+ * the wrong place earns nothing, though it isn't counted as an extra rule.
+ */
+export function scoreFirewall(
+  _config: FirewallConfig,
+  rubric: FirewallRubric,
+  response: FirewallResponse
+): PBQScoreItem[] {
+  // Blank rows are rule slots the student didn't use
+  const rules = response.rules.filter((rule) =>
+    [rule.source, rule.destination, rule.protocol, rule.port].some((value) => value.trim())
+  );
+  const matches = matchRules(rubric.expectedRules, rules, rubric.orderMatters);
+  const used = new Set(matches.values());
+  const items: PBQScoreItem[] = [];
+
+  rubric.expectedRules.forEach((expected, index) => {
+    const matched = matches.has(index);
+    let detail: string | undefined;
+    if (!matched) {
+      const misplaced = rules.findIndex((rule, i) => !used.has(i) && rulesMatch(rule, expected));
+      if (misplaced >= 0) {
+        used.add(misplaced);
+        detail = "Rule is present but in the wrong order";
+      } else {
+        detail = "Missing";
+      }
+    }
+
+    items.push({
+      label: `Rule ${index + 1}: ${describeRule(expected)}`,
+      earned: matched ? expected.points : 0,
+      possible: expected.points,
+      correct: matched,
+      ...(detail && { detail }),
+    });
+  });
+
+  rules.forEach((rule, index) => {
+    if (used.has(index)) return;
+    items.push({
+      label: `Extra rule: ${describeRule(rule)}`,
+      earned: -rubric.extraRulePenalty,
+      possible: 0,
+      correct: false,
+      detail: "Not part of the expected rule set",
+    });
+  });
+
+  return items;
+}
+
+// ============================================================================
+// LOG ANALYSIS
+// ============================================================================
+
+/**
+ * Points for every suspicious line flagged, minus a penalty per line flagged
+ * that isn't suspicious, plus the follow-up question when there is one
+ */
+export function scoreLogs(
+  config: LogsConfig,
+  rubric: LogsRubric,
+  response: LogsResponse
+): PBQScoreItem[] {
+  const selected = new Set(response.selectedLines);
+  const suspicious = new Set(rubric.suspiciousLines);
+  const items: PBQScoreItem[] = [];
+
+  for (const line of [...suspicious].sort((a, b) => a - b)) {
+    const found = selected.has(line);
+    items.push({
+      label: `Line ${line + 1}: ${config.lines[line] ?? ""}`,
+      earned: found ? rubric.pointsPerLine : 0,
+      possible: rubric.pointsPerLine,
+      correct: found,
+      ...(!found && { detail: "Suspicious line not flagged" }),
+    });
+  }
+
+  for (const line of [...selected].sort((a, b) => a - b)) {
+    if (suspicious.has(line)) continue;
+    items.push({
+      label: `Line ${line + 1}: ${config.lines[line] ?? ""}`,
+      earned: -rubric.falsePositivePenalty,
+      possible: 0,
+      correct: false,
+      detail: "Flagged but not suspicious",
+    });
+  }
+
+  if (rubric.answer && config.question) {
+    const correct = response.answerIndex === rubric.answer.correctIndex;
+    items.push({
+      label: config.question.prompt,
+      earned: correct ? rubric.answer.points : 0,
+      possible: rubric.answer.points,
+      correct,
+      ...(!correct && {
+        detail: `Correct answer: ${config.question.choices[rubric.answer.correctIndex] ?? ""}`,
+      }),
+    });
+  }
+
+  return items;
+}
+
+// ============================================================================
+// DRAG AND DROP
+// ============================================================================
+
+/**
+ * Points for every item dropped on its target; distractors placed anywhere
+ * cost the distractor penalty
+ */
+export function scoreDragDrop(
+  config: DragDropConfig,
+  rubric: DragDropRubric,
+  response: DragDropResponse
+): PBQScoreItem[] {
+  const targetLabel = (id: string | undefined) =>
+    config.targets.find((target) => target.id === id)?.label ?? id ?? "";
+  const items: PBQScoreItem[] = [];
+
+  for (const item of config.items) {
+    const expected = rubric.placements[item.id];
+    const placed = response.placements[item.id];
+
+    if (expected) {
+      const correct = placed === expected;
+      items.push({
+        label: `${item.label} → ${targetLabel(expected)}`,
+        earned: correct ? rubric.pointsPerItem : 0,
+        possible: rubric.pointsPerItem,
+        correct,
+        ...(!correct && { detail: placed ? `Placed in ${targetLabel(placed)}` : "Not placed" }),
+      });
+    } else if (placed) {
+      items.push({
+        label: `${item.label} (distractor)`,
+        earned: -rubric.distractorPenalty,
+        possible: 0,
+        correct: false,
+        detail: `Placed in ${targetLabel(placed)} but belongs nowhere`,
+      });
+    }
+  }
+
+  return items;
+}
+
+// ============================================================================
+// IMAGE LABELING
+// ============================================================================
+
+/**
+ * Points for every hotspot given its label (case-insensitive)
+ */
+export function scoreImageLabeling(
+  config: ImageLabelingConfig,
+  rubric: ImageLabelingRubric,
+  response: ImageLabelingResponse
+): PBQScoreItem[] {
+  return config.hotspots.map((hotspot, index) => {
+    const expected = rubric.answers[hotspot.id] ?? "";
+    const given = response.labels[hotspot.id] ?? "";
+    const correct = !!given && normalize(given) === normalize(expected);
+    return {
+      label: `Hotspot ${index + 1}: ${expected}`,
+      earned: correct ? rubric.pointsPerHotspot : 0,
+      possible: rubric.pointsPerHotspot,
+      correct,
+      ...(!correct && { detail: given ? `Labeled "${given}"` : "Not labeled" }),
+    };
+  });
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Validate a response for the PBQ's type and score it.
+ * Throws if the response doesn't match the type's response schema.
+ */
+export function scorePBQ(definition: PBQDefinition, response: unknown): PBQScoreResult {
+  let items: PBQScoreItem[];
+
+  switch (definition.type) {
+    case "firewall":
+      items = scoreFirewall(
+        definition.config,
+        definition.scoringRubric,
+        pbqDefinitionSchemas.firewall.response.parse(response)
+      );
+      break;
+    case "logs":
+      items = scoreLogs(
+        definition.config,
+        definition.scoringRubric,
+        pbqDefinitionSchemas.logs.response.parse(response)
+      );
+      break;
+    case "drag_drop":
+      items = scoreDragDrop(
+        definition.config,
+        definition.scoringRubric,
+        pbqDefinitionSchemas.drag_drop.response.parse(response)
+      );
+      break;
+    case "image_labeling":
+      items = scoreImageLabeling(
+        definition.config,
+        definition.scoringRubric,
+        pbqDefinitionSchemas.image_labeling.response.parse(response)
+      );
+      break;
+  }
+
+  const { earned, possible } = sumPoints(items);
+  const earnedPoints = Math.max(0, earned);
+  const score = possible > 0 ? Math.min(1, earnedPoints / possible) : 0;
+
+  return {
+    score: Math.round(score * 10000) / 10000,
+    earnedPoints: Math.round(earnedPoints * 100) / 100,
+    totalPoints: possible,
+    items,
+  };
+}
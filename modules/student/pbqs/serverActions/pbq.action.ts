@@ -0,0 +1,218 @@
+"use server";
+
+/**
+ * Student PBQ Server Actions
+ *
+ * Lists performance-based questions for the student's certification, serves
+ * them to the player without their rubric, and scores submitted attempts
+ * into PBQAttempt.
+ */
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { AuthContext, NotFoundError, ValidationError } from "@/lib/auth/types";
+import {
+  parsePBQDefinition,
+  pbqDefinitionSchemas,
+  type PBQType,
+} from "@/modules/admin/questions/types/pbq.types";
+import { scorePBQ } from "../lib/pbqScoring";
+import {
+  submitPBQAttemptSchema,
+  type PBQAttemptResult,
+  type PBQListItem,
+  type PBQPlayData,
+  type SubmitPBQAttemptInput,
+} from "../types/pbq.types";
+
+// Attempts shown alongside the player
+const RECENT_ATTEMPTS = 5;
+
+/**
+ * List active PBQs for the student's current certification in blueprint order
+ */
+export const getMyPBQs = withPermission("progress.read")(
+  async (user: AuthContext): Promise<{ success: boolean; data?: PBQListItem[]; error?: string }> => {
+    try {
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: { currentCertificationId: true },
+      });
+
+      if (!student?.currentCertificationId) {
+        throw new ValidationError("Select a certification to see its performance-based questions");
+      }
+
+      const pbqs = await prisma.pBQ.findMany({
+        where: {
+          isActive: true,
+          objective: { domain: { certificationId: student.currentCertificationId } },
+        },
+        orderBy: [
+          { objective: { domain: { order: "asc" } } },
+          { objective: { order: "asc" } },
+          { title: "asc" },
+        ],
+        select: {
+          id: true,
+          type: true,
+          title: true,
+          objective: {
+            select: { code: true, description: true, domain: { select: { name: true } } },
+          },
+        },
+      });
+
+      const stats = await prisma.pBQAttempt.groupBy({
+        by: ["pbqId"],
+        where: { studentId: user.userId, pbqId: { in: pbqs.map((pbq) => pbq.id) } },
+        _count: { _all: true },
+        _max: { score: true, completedAt: true },
+      });
+      const statsByPbq = new Map(stats.map((stat) => [stat.pbqId, stat]));
+
+      return {
+        success: true,
+        data: pbqs.map((pbq) => {
+          const stat = statsByPbq.get(pbq.id);
+          return {
+            id: pbq.id,
+            type: pbq.type as PBQType,
+            title: pbq.title,
+            domainName: pbq.objective.domain.name,
+            objectiveCode: pbq.objective.code,
+            objectiveDescription: pbq.objective.description,
+            attemptCount: stat?._count._all ?? 0,
+            bestScore: stat?._max.score ?? null,
+            lastAttemptAt: stat?._max.completedAt?.toISOString() ?? null,
+          };
+        }),
+      };
+    } catch (error) {
+      console.error("[getMyPBQs] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch PBQs",
+      };
+    }
+  }
+);
+
+/**
+ * Get a PBQ for the player, with the student's recent attempts
+ */
+export const getPBQForPlay = withPermission("progress.read")(
+  async (
+    user: AuthContext,
+    pbqId: string
+  ): Promise<{ success: boolean; data?: PBQPlayData; error?: string }> => {
+    try {
+      const pbq = await prisma.pBQ.findFirst({
+        where: { id: pbqId, isActive: true },
+        select: {
+          id: true,
+          type: true,
+          title: true,
+          config: true,
+          scoringRubric: true,
+          objective: { select: { code: true, description: true } },
+          attempts: {
+            where: { studentId: user.userId },
+            orderBy: { completedAt: "desc" },
+            take: RECENT_ATTEMPTS,
+            select: { id: true, score: true, completedAt: true },
+          },
+        },
+      });
+
+      if (!pbq) {
+        throw new NotFoundError("PBQ not found");
+      }
+
+      // The rubric is the answer key - only the config goes to the browser
+      const { type, config } = parsePBQDefinition(pbq);
+
+      return {
+        success: true,
+        data: {
+          id: pbq.id,
+          title: pbq.title,
+          objectiveCode: pbq.objective.code,
+          objectiveDescription: pbq.objective.description,
+          attempts: pbq.attempts.map((attempt) => ({
+            id: attempt.id,
+            score: attempt.score,
+            completedAt: attempt.completedAt.toISOString(),
+          })),
+          type,
+          config,
+        } as PBQPlayData,
+      };
+    } catch (error) {
+      console.error("[getPBQForPlay] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load PBQ",
+      };
+    }
+  }
+);
+
+/**
+ * Score a response and record it as a PBQAttempt
+ */
+export const submitPBQAttempt = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    input: SubmitPBQAttemptInput
+  ): Promise<{ success: boolean; data?: PBQAttemptResult; error?: string }> => {
+    try {
+      const validated = submitPBQAttemptSchema.parse(input);
+
+      const pbq = await prisma.pBQ.findFirst({
+        where: { id: validated.pbqId, isActive: true },
+        select: { id: true, type: true, config: true, scoringRubric: true },
+      });
+
+      if (!pbq) {
+        throw new NotFoundError("PBQ not found");
+      }
+
+      const definition = parsePBQDefinition(pbq);
+      const response = pbqDefinitionSchemas[definition.type].response.safeParse(validated.response);
+      if (!response.success) {
+        throw new ValidationError("The response does not match this PBQ's format");
+      }
+
+      const result = scorePBQ(definition, response.data);
+
+      const attempt = await prisma.pBQAttempt.create({
+        data: {
+          studentId: user.userId,
+          pbqId: pbq.id,
+          score: result.score,
+          response: response.data as Prisma.InputJsonValue,
+        },
+      });
+
+      revalidatePath("/dashboard/pbqs");
+
+      return {
+        success: true,
+        data: {
+          ...result,
+          attemptId: attempt.id,
+          completedAt: attempt.completedAt.toISOString(),
+        },
+      };
+    } catch (error) {
+      console.error("[submitPBQAttempt] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to submit PBQ",
+      };
+    }
+  }
+);
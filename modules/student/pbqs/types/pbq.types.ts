@@ -0,0 +1,78 @@
+/**
+ * Student PBQ Types and Zod Schemas
+ *
+ * Types for playing performance-based questions and the scored attempts
+ * recorded in PBQAttempt.
+ */
+
+import { z } from "zod";
+import type { PBQPlayable, PBQType } from "@/modules/admin/questions/types/pbq.types";
+
+/**
+ * Schema for submitting an attempt. The response is checked against the
+ * PBQ type's response schema when it is scored.
+ */
+export const submitPBQAttemptSchema = z.object({
+  pbqId: z.string().cuid(),
+  response: z.unknown(),
+});
+
+export type SubmitPBQAttemptInput = z.infer<typeof submitPBQAttemptSchema>;
+
+/**
+ * One line of the score report
+ */
+export interface PBQScoreItem {
+  label: string;
+  earned: number; // Negative for penalties
+  possible: number; // 0 for penalties
+  correct: boolean;
+  detail?: string;
+}
+
+export interface PBQScoreResult {
+  score: number; // 0.0 to 1.0
+  earnedPoints: number;
+  totalPoints: number;
+  items: PBQScoreItem[];
+}
+
+/**
+ * PBQ as listed for the student, with their best result so far
+ */
+export interface PBQListItem {
+  id: string;
+  type: PBQType;
+  title: string;
+  domainName: string;
+  objectiveCode: string;
+  objectiveDescription: string;
+  attemptCount: number;
+  bestScore: number | null; // 0.0 to 1.0
+  lastAttemptAt: string | null;
+}
+
+export interface PBQAttemptSummary {
+  id: string;
+  score: number;
+  completedAt: string;
+}
+
+/**
+ * PBQ as served to the player (config only, no rubric)
+ */
+export type PBQPlayData = PBQPlayable & {
+  id: string;
+  title: string;
+  objectiveCode: string;
+  objectiveDescription: string;
+  attempts: PBQAttemptSummary[];
+};
+
+/**
+ * Scored attempt returned after submission
+ */
+export interface PBQAttemptResult extends PBQScoreResult {
+  attemptId: string;
+  completedAt: string;
+}
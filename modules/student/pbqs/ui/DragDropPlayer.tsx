@@ -0,0 +1,111 @@
+"use client";
+
+/**
+ * DragDropPlayer Component
+ *
+ * Items are dragged onto targets, or picked with a click and then placed by
+ * clicking a target (for keyboard and touch users). Some items may be
+ * distractors that belong nowhere.
+ */
+
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  DragDropConfig,
+  DragDropResponse,
+} from "@/modules/admin/questions/types/pbq.types";
+
+interface DragDropPlayerProps {
+  config: DragDropConfig;
+  value: DragDropResponse;
+  onChange: (value: DragDropResponse) => void;
+  disabled?: boolean;
+}
+
+export function DragDropPlayer({ config, value, onChange, disabled }: DragDropPlayerProps) {
+  const [pickedItemId, setPickedItemId] = useState<string | null>(null);
+
+  const place = (itemId: string, targetId: string) => {
+    onChange({ placements: { ...value.placements, [itemId]: targetId } });
+    setPickedItemId(null);
+  };
+
+  const unplace = (itemId: string) => {
+    const placements = { ...value.placements };
+    delete placements[itemId];
+    onChange({ placements });
+  };
+
+  const unplacedItems = config.items.filter((item) => !value.placements[item.id]);
+
+  const itemChip = (item: { id: string; label: string }, placed: boolean) => (
+    <button
+      key={item.id}
+      type="button"
+      draggable={!disabled}
+      disabled={disabled}
+      onDragStart={(event) => event.dataTransfer.setData("text/plain", item.id)}
+      onClick={() => setPickedItemId(pickedItemId === item.id ? null : item.id)}
+      className={cn(
+        "inline-flex items-center gap-1 rounded-md border bg-background px-3 py-1.5 text-sm shadow-sm",
+        !disabled && "cursor-grab hover:border-primary",
+        pickedItemId === item.id && "border-primary ring-2 ring-primary/30"
+      )}
+    >
+      {item.label}
+      {placed && !disabled && (
+        <X
+          className="h-3 w-3 text-muted-foreground"
+          onClick={(event) => {
+            event.stopPropagation();
+            unplace(item.id);
+          }}
+        />
+      )}
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Items</p>
+        <div className="flex min-h-12 flex-wrap gap-2 rounded-lg border border-dashed p-3">
+          {unplacedItems.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All items placed</p>
+          ) : (
+            unplacedItems.map((item) => itemChip(item, false))
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {config.targets.map((target) => {
+          const placedItems = config.items.filter((item) => value.placements[item.id] === target.id);
+          return (
+            <div
+              key={target.id}
+              onDragOver={(event) => !disabled && event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                const itemId = event.dataTransfer.getData("text/plain");
+                if (itemId) place(itemId, target.id);
+              }}
+              onClick={() => pickedItemId && !disabled && place(pickedItemId, target.id)}
+              className={cn(
+                "min-h-24 space-y-2 rounded-lg border p-3",
+                pickedItemId && "cursor-pointer border-primary/50 bg-primary/5"
+              )}
+            >
+              <Badge variant="secondary">{target.label}</Badge>
+              <div className="flex flex-wrap gap-2">
+                {placedItems.map((item) => itemChip(item, true))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+/**
+ * FirewallPlayer Component
+ *
+ * Rule table for firewall PBQs. Each row picks its values from the config's
+ * option lists; rows left blank are ignored when scoring.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FIREWALL_ACTIONS,
+  type FirewallConfig,
+  type FirewallResponse,
+  type FirewallRule,
+} from "@/modules/admin/questions/types/pbq.types";
+
+interface FirewallPlayerProps {
+  config: FirewallConfig;
+  value: FirewallResponse;
+  onChange: (value: FirewallResponse) => void;
+  disabled?: boolean;
+}
+
+const COLUMNS = [
+  { field: "source", label: "Source", options: (config: FirewallConfig) => config.sources },
+  { field: "destination", label: "Destination", options: (config: FirewallConfig) => config.destinations },
+  { field: "protocol", label: "Protocol", options: (config: FirewallConfig) => config.protocols },
+  { field: "port", label: "Port", options: (config: FirewallConfig) => config.ports },
+  { field: "action", label: "Action", options: () => [...FIREWALL_ACTIONS] },
+] as const;
+
+export function FirewallPlayer({ config, value, onChange, disabled }: FirewallPlayerProps) {
+  const updateRule = (index: number, field: keyof FirewallRule, fieldValue: string) => {
+    onChange({
+      rules: value.rules.map((rule, i) => (i === index ? { ...rule, [field]: fieldValue } : rule)),
+    });
+  };
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <table className="w-full text-sm">
+        <thead className="border-b bg-muted/50">
+          <tr>
+            <th className="p-3 text-left font-medium w-12">#</th>
+            {COLUMNS.map((column) => (
+              <th key={column.field} className="p-3 text-left font-medium">
+                {column.label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {value.rules.map((rule, index) => (
+            <tr key={index} className="border-b last:border-0">
+              <td className="p-3 text-muted-foreground">{index + 1}</td>
+              {COLUMNS.map((column) => (
+                <td key={column.field} className="p-2">
+                  <Select
+                    value={rule[column.field]}
+                    onValueChange={(fieldValue) => updateRule(index, column.field, fieldValue)}
+                    disabled={disabled}
+                  >
+                    <SelectTrigger className="min-w-[120px]">
+                      <SelectValue placeholder="—" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {column.options(config).map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {column.field === "action" ? option.toUpperCase() : option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+"use client";
+
+/**
+ * ImageLabelingPlayer Component
+ *
+ * Image with numbered hotspots; the student picks a label from the bank for
+ * each one.
+ */
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  ImageLabelingConfig,
+  ImageLabelingResponse,
+} from "@/modules/admin/questions/types/pbq.types";
+
+interface ImageLabelingPlayerProps {
+  config: ImageLabelingConfig;
+  value: ImageLabelingResponse;
+  onChange: (value: ImageLabelingResponse) => void;
+  disabled?: boolean;
+}
+
+export function ImageLabelingPlayer({ config, value, onChange, disabled }: ImageLabelingPlayerProps) {
+  return (
+    <div className="space-y-6">
+      <div className="relative mx-auto w-fit overflow-hidden rounded-lg border">
+        {/* Authors link images from any host, which next/image would need configured */}
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={config.imageUrl}
+          alt={config.imageAlt ?? "Diagram to label"}
+          className="block max-h-[480px] max-w-full"
+        />
+        {config.hotspots.map((hotspot, index) => (
+          <span
+            key={hotspot.id}
+            className="absolute flex h-7 w-7 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground shadow"
+            style={{ left: `${hotspot.x}%`, top: `${hotspot.y}%` }}
+          >
+            {index + 1}
+          </span>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {config.hotspots.map((hotspot, index) => (
+          <div key={hotspot.id} className="flex items-center gap-3">
+            <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground">
+              {index + 1}
+            </span>
+            <Select
+              value={value.labels[hotspot.id] ?? ""}
+              onValueChange={(label) =>
+                onChange({ labels: { ...value.labels, [hotspot.id]: label } })
+              }
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a label" />
+              </SelectTrigger>
+              <SelectContent>
+                {config.labels.map((label) => (
+                  <SelectItem key={label} value={label}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+"use client";
+
+/**
+ * LogsPlayer Component
+ *
+ * Log excerpt where the student flags suspicious lines, plus the optional
+ * follow-up question.
+ */
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { cn } from "@/lib/utils";
+import type { LogsConfig, LogsResponse } from "@/modules/admin/questions/types/pbq.types";
+
+interface LogsPlayerProps {
+  config: LogsConfig;
+  value: LogsResponse;
+  onChange: (value: LogsResponse) => void;
+  disabled?: boolean;
+}
+
+export function LogsPlayer({ config, value, onChange, disabled }: LogsPlayerProps) {
+  const selected = new Set(value.selectedLines);
+
+  const toggleLine = (line: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(line);
+    } else {
+      next.delete(line);
+    }
+    onChange({ ...value, selectedLines: [...next].sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-lg border bg-muted/30">
+        {config.logSource && (
+          <div className="border-b px-4 py-2 text-xs font-mono text-muted-foreground">
+            {config.logSource}
+          </div>
+        )}
+        <ul className="divide-y font-mono text-xs">
+          {config.lines.map((line, index) => (
+            <li
+              key={index}
+              className={cn("flex items-start gap-3 px-4 py-2", selected.has(index) && "bg-primary/10")}
+            >
+              <Checkbox
+                id={`log-line-${index}`}
+                checked={selected.has(index)}
+                onCheckedChange={(checked) => toggleLine(index, checked === true)}
+                disabled={disabled}
+                className="mt-0.5"
+              />
+              <label htmlFor={`log-line-${index}`} className="flex-1 cursor-pointer break-all">
+                <span className="mr-3 select-none text-muted-foreground">{index + 1}</span>
+                {line}
+              </label>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {config.question && (
+        <div className="space-y-3">
+          <p className="font-medium">{config.question.prompt}</p>
+          <RadioGroup
+            value={value.answerIndex != null ? String(value.answerIndex) : ""}
+            onValueChange={(answer) => onChange({ ...value, answerIndex: Number(answer) })}
+            disabled={disabled}
+          >
+            {config.question.choices.map((choice, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <RadioGroupItem value={String(index)} id={`log-answer-${index}`} />
+                <Label htmlFor={`log-answer-${index}`} className="font-normal">
+                  {choice}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * PBQDashboard Component
+ *
+ * Performance-based questions for the student's certification, grouped by
+ * domain, with the best score and attempt count for each.
+ */
+
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PlayCircle, RotateCcw, TerminalSquare } from "lucide-react";
+import { PBQ_TYPE_LABELS } from "@/modules/admin/questions/types/pbq.types";
+import { usePBQList } from "../hooks/usePBQs";
+import type { PBQListItem } from "../types/pbq.types";
+
+function groupByDomain(pbqs: PBQListItem[]): [string, PBQListItem[]][] {
+  const groups = new Map<string, PBQListItem[]>();
+  for (const pbq of pbqs) {
+    groups.set(pbq.domainName, [...(groups.get(pbq.domainName) ?? []), pbq]);
+  }
+  return [...groups.entries()];
+}
+
+export function PBQDashboard() {
+  const { data: pbqs, isLoading, error } = usePBQList();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Performance-Based Questions</h1>
+        <p className="text-muted-foreground mt-2">
+          Hands-on scenarios like the ones on the exam. Partial credit is given for every part you
+          get right.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Loading PBQs...</p>
+          </CardContent>
+        </Card>
+      ) : error ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">{error.message}</p>
+          </CardContent>
+        </Card>
+      ) : !pbqs || pbqs.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <div className="mx-auto max-w-md">
+            <TerminalSquare className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No PBQs yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Performance-based questions for your certification will appear here once they are
+              published.
+            </p>
+          </div>
+        </div>
+      ) : (
+        groupByDomain(pbqs).map(([domainName, domainPbqs]) => (
+          <Card key={domainName}>
+            <CardHeader>
+              <CardTitle className="text-lg">{domainName}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-0">
+              <ul className="divide-y">
+                {domainPbqs.map((pbq) => (
+                  <li
+                    key={pbq.id}
+                    className="flex flex-col gap-3 p-4 md:flex-row md:items-center md:justify-between"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium">{pbq.title}</p>
+                        <Badge variant="secondary">{PBQ_TYPE_LABELS[pbq.type]}</Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        {pbq.objectiveCode} {pbq.objectiveDescription}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-4 shrink-0">
+                      <div className="text-right text-sm">
+                        <p className="font-medium">
+                          {pbq.bestScore != null ? `Best ${Math.round(pbq.bestScore * 100)}%` : "Not attempted"}
+                        </p>
+                        {pbq.attemptCount > 0 && (
+                          <p className="text-xs text-muted-foreground">
+                            {pbq.attemptCount} {pbq.attemptCount === 1 ? "attempt" : "attempts"}
+                          </p>
+                        )}
+                      </div>
+                      <Button size="sm" variant={pbq.attemptCount > 0 ? "outline" : "default"} asChild>
+                        <Link href={`/dashboard/pbqs/${pbq.id}`}>
+                          {pbq.attemptCount > 0 ? (
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                          ) : (
+                            <PlayCircle className="h-4 w-4 mr-2" />
+                          )}
+                          {pbq.attemptCount > 0 ? "Retry" : "Start"}
+                        </Link>
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+/**
+ * PBQInteraction Component
+ *
+ * Renders the player for a PBQ's type. Controlled, so the student player and
+ * the admin preview each own the response they score.
+ */
+
+import type {
+  DragDropResponse,
+  FirewallResponse,
+  ImageLabelingResponse,
+  LogsResponse,
+  PBQPlayable,
+  PBQResponse,
+} from "@/modules/admin/questions/types/pbq.types";
+import { FirewallPlayer } from "./FirewallPlayer";
+import { LogsPlayer } from "./LogsPlayer";
+import { DragDropPlayer } from "./DragDropPlayer";
+import { ImageLabelingPlayer } from "./ImageLabelingPlayer";
+
+interface PBQInteractionProps {
+  pbq: PBQPlayable;
+  response: PBQResponse;
+  onChange: (response: PBQResponse) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Blank response for a PBQ, e.g. one empty row per firewall rule slot
+ */
+export function initialPBQResponse(pbq: PBQPlayable): PBQResponse {
+  switch (pbq.type) {
+    case "firewall":
+      return {
+        rules: Array.from({ length: pbq.config.ruleCount }, () => ({
+          source: "",
+          destination: "",
+          protocol: "",
+          port: "",
+          action: "allow" as const,
+        })),
+      };
+    case "logs":
+      return { selectedLines: [], answerIndex: null };
+    case "drag_drop":
+      return { placements: {} };
+    case "image_labeling":
+      return { labels: {} };
+  }
+}
+
+export function PBQInteraction({ pbq, response, onChange, disabled }: PBQInteractionProps) {
+  switch (pbq.type) {
+    case "firewall":
+      return (
+        <FirewallPlayer
+          config={pbq.config}
+          value={response as FirewallResponse}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+    case "logs":
+      return (
+        <LogsPlayer
+          config={pbq.config}
+          value={response as LogsResponse}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+    case "drag_drop":
+      return (
+        <DragDropPlayer
+          config={pbq.config}
+          value={response as DragDropResponse}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+    case "image_labeling":
+      return (
+        <ImageLabelingPlayer
+          config={pbq.config}
+          value={response as ImageLabelingResponse}
+          onChange={onChange}
+          disabled={disabled}
+        />
+      );
+  }
+}
@@ -0,0 +1,139 @@
+"use client";
+
+/**
+ * PBQPlayer Component
+ *
+ * Plays one PBQ: instructions, the interaction for its type, then the score
+ * report with the option to try again.
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, RotateCcw, Send } from "lucide-react";
+import {
+  PBQ_TYPE_LABELS,
+  type PBQResponse,
+} from "@/modules/admin/questions/types/pbq.types";
+import { usePBQ, useSubmitPBQAttempt } from "../hooks/usePBQs";
+import { PBQInteraction, initialPBQResponse } from "./PBQInteraction";
+import { PBQScoreReport } from "./PBQScoreReport";
+import type { PBQAttemptResult } from "../types/pbq.types";
+
+interface PBQPlayerProps {
+  pbqId: string;
+}
+
+export function PBQPlayer({ pbqId }: PBQPlayerProps) {
+  const { data: pbq, isLoading, error } = usePBQ(pbqId);
+  const submitAttempt = useSubmitPBQAttempt();
+  const [response, setResponse] = useState<PBQResponse | null>(null);
+  const [result, setResult] = useState<PBQAttemptResult | null>(null);
+
+  useEffect(() => {
+    if (pbq && !response) {
+      setResponse(initialPBQResponse(pbq));
+    }
+  }, [pbq, response]);
+
+  const handleSubmit = async () => {
+    if (!response) return;
+    setResult(await submitAttempt.mutateAsync({ pbqId, response }));
+  };
+
+  const handleRetry = () => {
+    if (!pbq) return;
+    setResult(null);
+    setResponse(initialPBQResponse(pbq));
+  };
+
+  if (isLoading || (pbq && !response)) {
+    return <p className="text-center text-muted-foreground py-12">Loading PBQ...</p>;
+  }
+
+  if (error || !pbq || !response) {
+    return (
+      <div className="space-y-4 py-12 text-center">
+        <p className="text-muted-foreground">{error?.message ?? "PBQ not found"}</p>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/pbqs">Back to PBQs</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{PBQ_TYPE_LABELS[pbq.type]}</Badge>
+            <Badge variant="outline">{pbq.objectiveCode}</Badge>
+          </div>
+          <h1 className="text-3xl font-bold tracking-tight mt-2">{pbq.title}</h1>
+          <p className="text-muted-foreground mt-2">{pbq.objectiveDescription}</p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/pbqs">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to PBQs
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base font-medium whitespace-pre-wrap">
+            {pbq.config.instructions}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PBQInteraction
+            pbq={pbq}
+            response={response}
+            onChange={setResponse}
+            disabled={!!result || submitAttempt.isPending}
+          />
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        {result ? (
+          <Button onClick={handleRetry}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Try Again
+          </Button>
+        ) : (
+          <Button onClick={handleSubmit} disabled={submitAttempt.isPending}>
+            <Send className="h-4 w-4 mr-2" />
+            {submitAttempt.isPending ? "Scoring..." : "Submit"}
+          </Button>
+        )}
+      </div>
+
+      {result && <PBQScoreReport result={result} />}
+
+      {pbq.attempts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Recent Attempts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {pbq.attempts.map((attempt) => (
+                <li key={attempt.id} className="flex items-center justify-between py-2">
+                  <span className="text-muted-foreground">
+                    {new Date(attempt.completedAt).toLocaleString()}
+                  </span>
+                  <span className="font-medium">{Math.round(attempt.score * 100)}%</span>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+"use client";
+
+/**
+ * PBQScoreReport Component
+ *
+ * Score with the partial-credit breakdown: what earned points, what was
+ * missed and what cost a penalty.
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, MinusCircle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PBQScoreResult } from "../types/pbq.types";
+
+interface PBQScoreReportProps {
+  result: PBQScoreResult;
+}
+
+function formatPoints(points: number): string {
+  return Number.isInteger(points) ? String(points) : points.toFixed(2).replace(/0$/, "");
+}
+
+export function PBQScoreReport({ result }: PBQScoreReportProps) {
+  const percentage = Math.round(result.score * 100);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span>Score Report</span>
+          <span
+            className={cn(
+              "text-2xl",
+              percentage >= 80
+                ? "text-green-600 dark:text-green-400"
+                : percentage >= 50
+                  ? "text-orange-600 dark:text-orange-400"
+                  : "text-red-600 dark:text-red-400"
+            )}
+          >
+            {percentage}%
+          </span>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {formatPoints(result.earnedPoints)} of {formatPoints(result.totalPoints)} points
+        </p>
+        <Progress value={percentage} />
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-2">
+          {result.items.map((item, index) => {
+            const isPenalty = item.possible === 0;
+            return (
+              <li key={index} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                {item.correct ? (
+                  <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                ) : isPenalty ? (
+                  <MinusCircle className="h-4 w-4 mt-0.5 shrink-0 text-orange-600" />
+                ) : (
+                  <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="break-words">{item.label}</p>
+                  {item.detail && <p className="text-xs text-muted-foreground mt-1">{item.detail}</p>}
+                </div>
+                <span className="shrink-0 font-mono text-xs text-muted-foreground">
+                  {isPenalty
+                    ? formatPoints(item.earned)
+                    : `${formatPoints(item.earned)}/${formatPoints(item.possible)}`}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+/**
+ * Practice Exam Hooks
+ *
+ * Client hooks for starting, submitting and reviewing practice exams.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getPracticeExamHistory,
+  getPracticeExamResult,
+  startPracticeExam,
+  submitPracticeExam,
+} from "../serverActions/practiceExam.action";
+import type {
+  StartPracticeExamInput,
+  SubmitPracticeExamInput,
+} from "../types/practiceExam.types";
+
+/**
+ * Fetch the student's practice exam history
+ */
+export function usePracticeExamHistory() {
+  return useQuery({
+    queryKey: ["practiceExams"],
+    queryFn: async () => {
+      const result = await getPracticeExamHistory();
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch practice exams");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Fetch a single graded exam with question review
+ */
+export function usePracticeExamResult(practiceExamId: string | null) {
+  return useQuery({
+    queryKey: ["practiceExam", practiceExamId],
+    queryFn: async () => {
+      const result = await getPracticeExamResult(practiceExamId!);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch practice exam");
+      }
+      return result.data;
+    },
+    enabled: !!practiceExamId,
+  });
+}
+
+/**
+ * Start a new timed exam
+ */
+export function useStartPracticeExam() {
+  return useMutation({
+    mutationFn: async (input: StartPracticeExamInput) => {
+      const result = await startPracticeExam(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to start practice exam");
+      }
+      return result.data;
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
+
+/**
+ * Submit answers for grading
+ */
+export function useSubmitPracticeExam() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SubmitPracticeExamInput) => {
+      const result = await submitPracticeExam(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to submit practice exam");
+      }
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Practice exam submitted");
+      queryClient.invalidateQueries({ queryKey: ["practiceExams"] });
+    },
+    onError: (error: Error) => {
+      toast.error(error.message);
+    },
+  });
+}
@@ -0,0 +1,172 @@
+import {
+  allocateByWeight,
+  buildDomainBreakdown,
+  estimateReadiness,
+  isAnswerCorrect,
+  selectExamQuestions,
+  selectQuestionsPerObjective,
+  shuffle,
+  toExamQuestions,
+  weightedPercentage,
+} from '../examBuilder'
+
+const domains = [
+  { id: 'd1', name: 'Threats', order: 1, weight: 50 },
+  { id: 'd2', name: 'Architecture', order: 2, weight: 30 },
+  { id: 'd3', name: 'Operations', order: 3, weight: 20 },
+]
+
+const poolOf = (domainId: string, count: number, objectiveId = `${domainId}-o1`) =>
+  Array.from({ length: count }, (_, index) => ({ id: `${domainId}-q${index}`, domainId, objectiveId }))
+
+describe('shuffle', () => {
+  it('returns a reordered copy with the same items', () => {
+    const items = [1, 2, 3, 4]
+    const shuffled = shuffle(items, () => 0)
+
+    expect(shuffled).toEqual([2, 3, 4, 1])
+    expect(items).toEqual([1, 2, 3, 4])
+  })
+})
+
+describe('allocateByWeight', () => {
+  it('splits the budget by blueprint weight', () => {
+    expect(allocateByWeight(domains, { d1: 50, d2: 50, d3: 50 }, 10)).toEqual({ d1: 5, d2: 3, d3: 2 })
+  })
+
+  it('hands the remainder to the largest fractions', () => {
+    const allocation = allocateByWeight(domains, { d1: 50, d2: 50, d3: 50 }, 7)
+
+    expect(allocation).toEqual({ d1: 4, d2: 2, d3: 1 })
+  })
+
+  it('caps domains at the questions available and gives the overflow to the others', () => {
+    expect(allocateByWeight(domains, { d1: 2, d2: 50, d3: 50 }, 10)).toEqual({ d1: 2, d2: 6, d3: 2 })
+  })
+
+  it('skips domains without questions and stops when the pool runs out', () => {
+    expect(allocateByWeight(domains, { d1: 3, d3: 1 }, 10)).toEqual({ d1: 3, d3: 1 })
+    expect(allocateByWeight(domains, {}, 10)).toEqual({})
+  })
+})
+
+describe('selectExamQuestions', () => {
+  it('picks each domain its share of distinct questions', () => {
+    const pool = [...poolOf('d1', 10), ...poolOf('d2', 10), ...poolOf('d3', 10)]
+    const selected = selectExamQuestions(pool, domains, 10, () => 0.5)
+
+    expect(selected).toHaveLength(10)
+    expect(new Set(selected.map((q) => q.id)).size).toBe(10)
+    expect(selected.filter((q) => q.domainId === 'd1')).toHaveLength(5)
+    expect(selected.filter((q) => q.domainId === 'd2')).toHaveLength(3)
+    expect(selected.filter((q) => q.domainId === 'd3')).toHaveLength(2)
+  })
+})
+
+describe('selectQuestionsPerObjective', () => {
+  it('samples every objective up to the limit', () => {
+    const pool = [...poolOf('d1', 3, 'o1'), ...poolOf('d2', 1, 'o2')]
+    const selected = selectQuestionsPerObjective(pool, 2, () => 0.5)
+
+    expect(selected.filter((q) => q.objectiveId === 'o1')).toHaveLength(2)
+    expect(selected.filter((q) => q.objectiveId === 'o2')).toHaveLength(1)
+  })
+})
+
+describe('toExamQuestions', () => {
+  it('keeps exam order and strips grading data', () => {
+    const questions = [
+      {
+        id: 'q1',
+        text: 'Pick two',
+        type: 'multiple_select',
+        choices: [
+          { text: 'A', isCorrect: true, explanation: 'Because' },
+          { text: 'B', isCorrect: true },
+          { text: 'C', isCorrect: false },
+        ],
+      },
+      { id: 'q2', text: 'Pick one', type: 'multiple_choice', choices: [{ text: 'A', isCorrect: false }] },
+    ]
+
+    expect(toExamQuestions(['q2', 'missing', 'q1'], questions)).toEqual([
+      { id: 'q2', text: 'Pick one', type: 'multiple_choice', choices: [{ text: 'A' }], selectCount: 1 },
+      {
+        id: 'q1',
+        text: 'Pick two',
+        type: 'multiple_select',
+        choices: [{ text: 'A' }, { text: 'B' }, { text: 'C' }],
+        selectCount: 2,
+      },
+    ])
+  })
+})
+
+describe('isAnswerCorrect', () => {
+  const choices = [
+    { text: 'A', isCorrect: true },
+    { text: 'B', isCorrect: false },
+    { text: 'C', isCorrect: true },
+  ]
+
+  it('needs exactly the correct choices', () => {
+    expect(isAnswerCorrect(choices, [2, 0])).toBe(true)
+    expect(isAnswerCorrect(choices, [0])).toBe(false)
+    expect(isAnswerCorrect(choices, [0, 1, 2])).toBe(false)
+    expect(isAnswerCorrect(choices, [])).toBe(false)
+  })
+
+  it('ignores repeated picks but not padding with them', () => {
+    expect(isAnswerCorrect(choices, [0, 0, 2])).toBe(true)
+    expect(isAnswerCorrect(choices, [0, 0])).toBe(false)
+  })
+
+  it('never accepts an answer to a question without correct choices', () => {
+    expect(isAnswerCorrect([{ text: 'A', isCorrect: false }], [])).toBe(false)
+  })
+})
+
+describe('buildDomainBreakdown', () => {
+  it('scores each domain with questions, in blueprint order', () => {
+    const breakdown = buildDomainBreakdown([domains[2], domains[0], domains[1]], [
+      { domainId: 'd1', isCorrect: true },
+      { domainId: 'd1', isCorrect: false },
+      { domainId: 'd1', isCorrect: true },
+      { domainId: 'd3', isCorrect: false },
+    ])
+
+    expect(breakdown).toEqual([
+      { domainId: 'd1', domainName: 'Threats', order: 1, weight: 50, correct: 2, total: 3, percentage: 66.7 },
+      { domainId: 'd3', domainName: 'Operations', order: 3, weight: 20, correct: 0, total: 1, percentage: 0 },
+    ])
+  })
+})
+
+describe('weightedPercentage', () => {
+  const entry = (weight: number, correct: number, total: number) => ({
+    domainId: `d${weight}`,
+    domainName: 'Domain',
+    order: 1,
+    weight,
+    correct,
+    total,
+    percentage: (correct / total) * 100,
+  })
+
+  it('weights each domain by the blueprint', () => {
+    expect(weightedPercentage([entry(75, 3, 4), entry(25, 0, 4)])).toBeCloseTo(56.25)
+  })
+
+  it('falls back to the raw share without weights', () => {
+    expect(weightedPercentage([entry(0, 3, 4), entry(0, 0, 4)])).toBeCloseTo(37.5)
+    expect(weightedPercentage([])).toBe(0)
+  })
+})
+
+describe('estimateReadiness', () => {
+  it('is even at the pass mark and rises above it', () => {
+    expect(estimateReadiness(75, 75)).toBe(0.5)
+    expect(estimateReadiness(85, 75)).toBeCloseTo(0.818, 3)
+    expect(estimateReadiness(60, 75)).toBeLessThan(0.1)
+  })
+})
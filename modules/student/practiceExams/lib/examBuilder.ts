@@ -0,0 +1,229 @@
+/**
+ * Practice Exam Builder
+ *
+ * Pure helpers for assembling a blueprint-weighted exam and grading it.
+ * Kept free of Prisma so the same logic serves practice exams and diagnostics.
+ */
+
+import type { DomainBreakdownEntry, ExamQuestion } from "../types/practiceExam.types";
+
+export interface PoolQuestion {
+  id: string;
+  domainId: string;
+  objectiveId: string;
+}
+
+export interface WeightedDomain {
+  id: string;
+  name: string;
+  order: number;
+  weight: number;
+}
+
+export interface GradableChoice {
+  text: string;
+  isCorrect: boolean;
+  explanation?: string;
+}
+
+/**
+ * Fisher-Yates shuffle (returns a new array)
+ */
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Split a question budget across domains by blueprint weight.
+ *
+ * Uses largest-remainder rounding, then caps each domain at the number of
+ * questions available and hands the shortfall to domains with spare questions.
+ */
+export function allocateByWeight(
+  domains: WeightedDomain[],
+  available: Record<string, number>,
+  total: number
+): Record<string, number> {
+  const allocation: Record<string, number> = {};
+  const eligible = domains.filter((d) => (available[d.id] ?? 0) > 0);
+  if (eligible.length === 0 || total <= 0) return allocation;
+
+  const weightSum = eligible.reduce((sum, d) => sum + Math.max(d.weight, 0), 0);
+  const shareOf = (d: WeightedDomain) =>
+    weightSum > 0 ? Math.max(d.weight, 0) / weightSum : 1 / eligible.length;
+
+  // Largest-remainder rounding
+  const raw = eligible.map((d) => ({ id: d.id, exact: shareOf(d) * total }));
+  let assigned = 0;
+  for (const r of raw) {
+    allocation[r.id] = Math.floor(r.exact);
+    assigned += allocation[r.id];
+  }
+  const byRemainder = [...raw].sort(
+    (a, b) => (b.exact - Math.floor(b.exact)) - (a.exact - Math.floor(a.exact))
+  );
+  for (let i = 0; assigned < total && i < byRemainder.length; i++, assigned++) {
+    allocation[byRemainder[i].id] += 1;
+  }
+
+  // Cap at availability and redistribute the overflow
+  let overflow = 0;
+  for (const d of eligible) {
+    const cap = available[d.id];
+    if (allocation[d.id] > cap) {
+      overflow += allocation[d.id] - cap;
+      allocation[d.id] = cap;
+    }
+  }
+  const bySpareWeight = [...eligible].sort((a, b) => b.weight - a.weight);
+  while (overflow > 0) {
+    const receiver = bySpareWeight.find((d) => allocation[d.id] < available[d.id]);
+    if (!receiver) break; // Pool exhausted - exam will be shorter than requested
+    allocation[receiver.id] += 1;
+    overflow -= 1;
+  }
+
+  return allocation;
+}
+
+/**
+ * Pick questions for an exam, weighted by domain, then interleave domains
+ */
+export function selectExamQuestions(
+  pool: PoolQuestion[],
+  domains: WeightedDomain[],
+  total: number,
+  random: () => number = Math.random
+): PoolQuestion[] {
+  const byDomain = new Map<string, PoolQuestion[]>();
+  for (const q of pool) {
+    const list = byDomain.get(q.domainId) ?? [];
+    list.push(q);
+    byDomain.set(q.domainId, list);
+  }
+
+  const available: Record<string, number> = {};
+  byDomain.forEach((list, domainId) => {
+    available[domainId] = list.length;
+  });
+
+  const allocation = allocateByWeight(domains, available, total);
+
+  const selected: PoolQuestion[] = [];
+  for (const [domainId, count] of Object.entries(allocation)) {
+    selected.push(...shuffle(byDomain.get(domainId) ?? [], random).slice(0, count));
+  }
+
+  return shuffle(selected, random);
+}
+
+/**
+ * Pick up to `perObjective` questions from every objective so each one is
+ * sampled at least once (objectives without questions are simply skipped)
+ */
+export function selectQuestionsPerObjective(
+  pool: PoolQuestion[],
+  perObjective: number,
+  random: () => number = Math.random
+): PoolQuestion[] {
+  const byObjective = new Map<string, PoolQuestion[]>();
+  for (const q of pool) {
+    const list = byObjective.get(q.objectiveId) ?? [];
+    list.push(q);
+    byObjective.set(q.objectiveId, list);
+  }
+
+  const selected: PoolQuestion[] = [];
+  byObjective.forEach((list) => {
+    selected.push(...shuffle(list, random).slice(0, perObjective));
+  });
+
+  return shuffle(selected, random);
+}
+
+/**
+ * Strip grading data and return questions in exam order
+ */
+export function toExamQuestions(
+  questionIds: string[],
+  questions: { id: string; text: string; type: string; choices: GradableChoice[] }[]
+): ExamQuestion[] {
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  return questionIds
+    .map((id) => byId.get(id))
+    .filter((q): q is NonNullable<typeof q> => !!q)
+    .map((q) => ({
+      id: q.id,
+      text: q.text,
+      type: q.type,
+      choices: q.choices.map((c) => ({ text: c.text })),
+      selectCount: Math.max(q.choices.filter((c) => c.isCorrect).length, 1),
+    }));
+}
+
+/**
+ * A question is correct only when the selected set matches the correct set exactly
+ */
+export function isAnswerCorrect(choices: GradableChoice[], selected: number[]): boolean {
+  const correct = choices
+    .map((c, idx) => (c.isCorrect ? idx : -1))
+    .filter((idx) => idx >= 0);
+  const picked = Array.from(new Set(selected));
+
+  if (correct.length === 0 || picked.length !== correct.length) return false;
+  return picked.every((idx) => correct.includes(idx));
+}
+
+/**
+ * Roll graded questions up into a per-domain breakdown (ordered by blueprint order)
+ */
+export function buildDomainBreakdown(
+  domains: WeightedDomain[],
+  graded: { domainId: string; isCorrect: boolean }[]
+): DomainBreakdownEntry[] {
+  return domains
+    .map((domain) => {
+      const inDomain = graded.filter((g) => g.domainId === domain.id);
+      const correct = inDomain.filter((g) => g.isCorrect).length;
+      return {
+        domainId: domain.id,
+        domainName: domain.name,
+        order: domain.order,
+        weight: domain.weight,
+        correct,
+        total: inDomain.length,
+        percentage: inDomain.length > 0 ? Math.round((correct / inDomain.length) * 1000) / 10 : 0,
+      };
+    })
+    .filter((entry) => entry.total > 0)
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Blueprint-weighted percentage (0-100) - a domain the real exam weighs
+ * heavily counts for more than the raw question share on a short exam
+ */
+export function weightedPercentage(breakdown: DomainBreakdownEntry[]): number {
+  const weightSum = breakdown.reduce((sum, d) => sum + d.weight, 0);
+  if (weightSum <= 0) {
+    const total = breakdown.reduce((sum, d) => sum + d.total, 0);
+    const correct = breakdown.reduce((sum, d) => sum + d.correct, 0);
+    return total > 0 ? (correct / total) * 100 : 0;
+  }
+  return breakdown.reduce((sum, d) => sum + d.percentage * d.weight, 0) / weightSum;
+}
+
+/**
+ * Estimate pass probability (0-1) from a weighted percentage.
+ * Logistic curve centred on the pass mark; ~0.5 right at the threshold.
+ */
+export function estimateReadiness(weightedPct: number, passThresholdPct: number): number {
+  const steepness = 0.15; // ~10 points above the mark -> ~82% likely to pass
+  const probability = 1 / (1 + Math.exp(-steepness * (weightedPct - passThresholdPct)));
+  return Math.round(probability * 1000) / 1000;
+}
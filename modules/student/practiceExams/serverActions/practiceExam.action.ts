@@ -0,0 +1,424 @@
+"use server";
+
+/**
+ * Practice Exam Server Actions
+ *
+ * Builds blueprint-weighted timed exams from the question bank, grades
+ * submissions and records PracticeExam results for the current student.
+ */
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import {
+  AuthContext,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from "@/lib/auth/types";
+import {
+  buildDomainBreakdown,
+  estimateReadiness,
+  isAnswerCorrect,
+  selectExamQuestions,
+  toExamQuestions,
+  weightedPercentage,
+} from "../lib/examBuilder";
+import {
+  loadGradableQuestions,
+  loadQuestionPool,
+  loadWeightedDomains,
+} from "../services/questionPool.service";
+import {
+  passingRawPercent,
+  recordedScaledScore,
+  toScaledScore,
+} from "@/modules/certifications/lib/scaledScore";
+import {
+  PRACTICE_EXAM_PRESETS,
+  SUBMISSION_GRACE_SECONDS,
+  startPracticeExamSchema,
+  submitPracticeExamSchema,
+  type DomainBreakdownEntry,
+  type PracticeExamResult,
+  type PracticeExamSessionData,
+  type PracticeExamSummary,
+  type PracticeExamType,
+  type QuestionReview,
+  type StartPracticeExamInput,
+  type SubmitPracticeExamInput,
+} from "../types/practiceExam.types";
+
+const CERTIFICATION_SCORING_SELECT = {
+  name: true,
+  isScoredExam: true,
+  passingScore: true,
+  maxScore: true,
+  scoringCurve: true,
+} as const;
+
+/**
+ * Serialize a PracticeExam row for the client
+ */
+function serializePracticeExam(exam: {
+  id: string;
+  examType: string;
+  certificationId: string | null;
+  certification: {
+    name: string;
+    isScoredExam: boolean;
+    passingScore: number | null;
+    maxScore: number | null;
+    scoringCurve: Prisma.JsonValue;
+  } | null;
+  score: number;
+  correctAnswers: number;
+  totalQuestions: number;
+  readinessScore: number | null;
+  scaledScore: number | null;
+  passed: boolean | null;
+  scoreConversion: Prisma.JsonValue;
+  domainBreakdown: Prisma.JsonValue;
+  timeSpentSeconds: number | null;
+  completedAt: Date;
+}): PracticeExamSummary {
+  const domainBreakdown = Array.isArray(exam.domainBreakdown)
+    ? (exam.domainBreakdown as unknown as DomainBreakdownEntry[])
+    : [];
+
+  const scaled = recordedScaledScore(exam, exam.certification);
+
+  return {
+    id: exam.id,
+    examType: exam.examType as PracticeExamType,
+    certificationId: exam.certificationId,
+    certificationName: exam.certification?.name ?? null,
+    score: exam.score,
+    correctAnswers: exam.correctAnswers,
+    totalQuestions: exam.totalQuestions,
+    readinessScore: exam.readinessScore,
+    scaled,
+    domainBreakdown,
+    timeSpentSeconds: exam.timeSpentSeconds,
+    completedAt: exam.completedAt.toISOString(),
+  };
+}
+
+/**
+ * Start a timed practice exam for the student's current certification
+ */
+export const startPracticeExam = withPermission("progress.manage")(
+  async (
+    user: AuthContext,
+    input: StartPracticeExamInput
+  ): Promise<{ success: boolean; data?: PracticeExamSessionData; error?: string }> => {
+    try {
+      const validated = startPracticeExamSchema.parse(input);
+      const preset = PRACTICE_EXAM_PRESETS[validated.examType];
+
+      const student = await prisma.user.findUnique({
+        where: { id: user.userId },
+        select: {
+          currentCertification: { select: { id: true, name: true } },
+        },
+      });
+
+      const certification = student?.currentCertification;
+      if (!certification) {
+        throw new ValidationError("Select a certification before starting a practice exam");
+      }
+
+      const [pool, domains] = await Promise.all([
+        loadQuestionPool(certification.id),
+        loadWeightedDomains(certification.id),
+      ]);
+
+      const requested = validated.questionCount ?? preset.questionCount;
+      const selected = selectExamQuestions(pool, domains, requested);
+
+      if (selected.length === 0) {
+        throw new ValidationError("No questions are available for this certification yet");
+      }
+
+      // Scale the preset time limit to the number of questions actually served
+      const timeLimitSeconds = Math.ceil(
+        (preset.timeLimitMinutes * 60 * selected.length) / preset.questionCount
+      );
+
+      const startedAt = new Date();
+      const expiresAt = new Date(startedAt.getTime() + timeLimitSeconds * 1000);
+      const questionIds = selected.map((q) => q.id);
+
+      const session = await prisma.practiceExamSession.create({
+        data: {
+          studentId: user.userId,
+          certificationId: certification.id,
+          examType: validated.examType,
+          questionIds,
+          timeLimitSeconds,
+          startedAt,
+          expiresAt,
+        },
+      });
+
+      const questions = await loadGradableQuestions(questionIds);
+
+      return {
+        success: true,
+        data: {
+          sessionId: session.id,
+          examType: validated.examType,
+          certificationName: certification.name,
+          timeLimitSeconds,
+          startedAt: startedAt.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+          questions: toExamQuestions(questionIds, questions),
+        },
+      };
+    } catch (error) {
+      console.error("[startPracticeExam] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to start practice exam",
+      };
+    }
+  }
+);
+
+/**
+ * Grade a practice exam session and record the result
+ *
+ * Unanswered questions count as incorrect. Submissions arriving after the
+ * time limit (plus a short grace period) are rejected.
+ */
+export const submitPracticeExam = withPermission("progress.manage")(
+  async (
+    user: AuthContext,
+    input: SubmitPracticeExamInput
+  ): Promise<{ success: boolean; data?: PracticeExamResult; error?: string }> => {
+    try {
+      const validated = submitPracticeExamSchema.parse(input);
+
+      const session = await prisma.practiceExamSession.findUnique({
+        where: { id: validated.sessionId },
+        include: {
+          certification: { select: CERTIFICATION_SCORING_SELECT },
+        },
+      });
+
+      if (!session || session.studentId !== user.userId) {
+        throw new NotFoundError("Practice exam session not found");
+      }
+
+      // Diagnostics also record StudentDiagnostic and the learning path
+      if (session.examType === "diagnostic") {
+        throw new ValidationError("Diagnostics are submitted through the diagnostic assessment");
+      }
+
+      if (session.submittedAt) {
+        throw new ConflictError("This practice exam has already been submitted");
+      }
+
+      const now = new Date();
+      if (now.getTime() > session.expiresAt.getTime() + SUBMISSION_GRACE_SECONDS * 1000) {
+        throw new ValidationError("Time ran out for this practice exam, so it can no longer be submitted");
+      }
+      const timeSpentSeconds = Math.min(
+        Math.round((now.getTime() - session.startedAt.getTime()) / 1000),
+        session.timeLimitSeconds
+      );
+
+      const [questions, domains] = await Promise.all([
+        loadGradableQuestions(session.questionIds),
+        loadWeightedDomains(session.certificationId),
+      ]);
+
+      const graded = questions.map((q) => {
+        const selected = validated.answers[q.id] ?? [];
+        return { ...q, selected, isCorrect: isAnswerCorrect(q.choices, selected) };
+      });
+
+      const correctAnswers = graded.filter((g) => g.isCorrect).length;
+      const totalQuestions = graded.length;
+      const domainBreakdown = buildDomainBreakdown(domains, graded);
+      // One percentage drives the score shown, the scaled score and readiness
+      const score = Math.round(weightedPercentage(domainBreakdown) * 10) / 10;
+      const scaled = toScaledScore(score, session.certification);
+      const readinessScore = estimateReadiness(score, passingRawPercent(session.certification));
+
+      const exam = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Claim the session so a concurrent submit can't record a second result
+        const claimed = await tx.practiceExamSession.updateMany({
+          where: { id: session.id, submittedAt: null },
+          data: { submittedAt: now },
+        });
+        if (claimed.count === 0) {
+          throw new ConflictError("This practice exam has already been submitted");
+        }
+
+        const created = await tx.practiceExam.create({
+          data: {
+            studentId: user.userId,
+            certificationId: session.certificationId,
+            examType: session.examType,
+            score,
+            correctAnswers,
+            totalQuestions,
+            readinessScore,
+            scaledScore: scaled.scaledScore,
+            passed: scaled.passed,
+            scoreConversion: scaled as unknown as Prisma.InputJsonValue,
+            domainBreakdown: domainBreakdown as unknown as Prisma.InputJsonValue,
+            timeSpentSeconds,
+            completedAt: now,
+          },
+          include: { certification: { select: CERTIFICATION_SCORING_SELECT } },
+        });
+
+        await tx.practiceExamSession.update({
+          where: { id: session.id },
+          data: { practiceExamId: created.id },
+        });
+
+        // Per-question attempts feed objective-level analytics
+        if (graded.length > 0) {
+          await tx.studentQuizAttempt.createMany({
+            data: graded.map((g) => ({
+              studentId: user.userId,
+              questionId: g.id,
+              questionRevision: g.revision,
+              score: g.isCorrect ? 1 : 0,
+              answers: { practiceExamId: created.id, selected: g.selected },
+              attemptedAt: now,
+            })),
+          });
+        }
+
+        return created;
+      });
+
+      revalidatePath("/dashboard/practice-exams");
+
+      const review: QuestionReview[] = graded.map((g) => ({
+        questionId: g.id,
+        text: g.text,
+        choices: g.choices,
+        selected: g.selected,
+        isCorrect: g.isCorrect,
+        explanation: g.explanation,
+        domainName: g.domainName,
+      }));
+
+      return {
+        success: true,
+        data: { ...serializePracticeExam(exam), review },
+      };
+    } catch (error) {
+      console.error("[submitPracticeExam] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to submit practice exam",
+      };
+    }
+  }
+);
+
+/**
+ * List the current student's completed practice exams (newest first)
+ */
+export const getPracticeExamHistory = withPermission("progress.read")(
+  async (
+    user: AuthContext,
+    limit: number = 20
+  ): Promise<{ success: boolean; data?: PracticeExamSummary[]; error?: string }> => {
+    try {
+      const exams = await prisma.practiceExam.findMany({
+        where: { studentId: user.userId },
+        include: { certification: { select: CERTIFICATION_SCORING_SELECT } },
+        orderBy: { completedAt: "desc" },
+        take: Math.min(Math.max(limit, 1), 100),
+      });
+
+      return {
+        success: true,
+        data: exams.map(serializePracticeExam),
+      };
+    } catch (error) {
+      console.error("[getPracticeExamHistory] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch practice exams",
+      };
+    }
+  }
+);
+
+/**
+ * Get a graded practice exam with its question review
+ */
+export const getPracticeExamResult = withPermission("progress.read")(
+  async (
+    user: AuthContext,
+    practiceExamId: string
+  ): Promise<{ success: boolean; data?: PracticeExamResult; error?: string }> => {
+    try {
+      const exam = await prisma.practiceExam.findUnique({
+        where: { id: practiceExamId },
+        include: {
+          certification: { select: CERTIFICATION_SCORING_SELECT },
+          session: { select: { questionIds: true } },
+        },
+      });
+
+      if (!exam || exam.studentId !== user.userId) {
+        throw new NotFoundError("Practice exam not found");
+      }
+
+      let review: QuestionReview[] | undefined;
+      if (exam.session) {
+        const [questions, attempts] = await Promise.all([
+          loadGradableQuestions(exam.session.questionIds),
+          prisma.studentQuizAttempt.findMany({
+            where: {
+              studentId: user.userId,
+              answers: { path: ["practiceExamId"], equals: exam.id },
+            },
+            select: { questionId: true, score: true, answers: true },
+          }),
+        ]);
+
+        const attemptByQuestion = new Map(attempts.map((a) => [a.questionId, a]));
+        const byId = new Map(questions.map((q) => [q.id, q]));
+
+        review = exam.session.questionIds
+          .map((id) => byId.get(id))
+          .filter((q): q is NonNullable<typeof q> => !!q)
+          .map((q) => {
+            const attempt = attemptByQuestion.get(q.id);
+            const answers = (attempt?.answers ?? {}) as { selected?: number[] };
+            return {
+              questionId: q.id,
+              text: q.text,
+              choices: q.choices,
+              selected: answers.selected ?? [],
+              isCorrect: attempt?.score === 1,
+              explanation: q.explanation,
+              domainName: q.domainName,
+            };
+          });
+      }
+
+      return {
+        success: true,
+        data: { ...serializePracticeExam(exam), review },
+      };
+    } catch (error) {
+      console.error("[getPracticeExamResult] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch practice exam",
+      };
+    }
+  }
+);
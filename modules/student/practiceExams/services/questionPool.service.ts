@@ -0,0 +1,108 @@
+/**
+ * Question Pool Service
+ *
+ * Loads the published questions for a certification and resolves each one to
+ * its objective and domain, whichever hierarchy level it is mapped to.
+ * Drafts, questions still in review and deactivated questions never reach
+ * students.
+ */
+
+import { prisma } from "@/lib/prisma";
+import type { GradableChoice, PoolQuestion, WeightedDomain } from "../lib/examBuilder";
+
+/**
+ * Prisma filter for "question belongs to this certification" across all mapping levels
+ */
+export function certificationQuestionFilter(certificationId: string) {
+  return {
+    OR: [
+      { objective: { domain: { certificationId } } },
+      { bullet: { objective: { domain: { certificationId } } } },
+      { subBullet: { bullet: { objective: { domain: { certificationId } } } } },
+    ],
+  };
+}
+
+/**
+ * Get published, active questions for a certification with their objective/domain resolved
+ */
+export async function loadQuestionPool(certificationId: string): Promise<PoolQuestion[]> {
+  const questions = await prisma.question.findMany({
+    where: {
+      status: "published",
+      isActive: true,
+      ...certificationQuestionFilter(certificationId),
+    },
+    select: {
+      id: true,
+      objective: { select: { id: true, domainId: true } },
+      bullet: { select: { objective: { select: { id: true, domainId: true } } } },
+      subBullet: {
+        select: {
+          bullet: { select: { objective: { select: { id: true, domainId: true } } } },
+        },
+      },
+    },
+  });
+
+  const pool: PoolQuestion[] = [];
+  for (const q of questions) {
+    const objective =
+      q.objective ?? q.bullet?.objective ?? q.subBullet?.bullet.objective ?? null;
+    if (!objective) continue;
+    pool.push({ id: q.id, domainId: objective.domainId, objectiveId: objective.id });
+  }
+
+  return pool;
+}
+
+/**
+ * Get a certification's domains in blueprint order
+ */
+export async function loadWeightedDomains(certificationId: string): Promise<WeightedDomain[]> {
+  return prisma.certificationDomain.findMany({
+    where: { certificationId },
+    select: { id: true, name: true, order: true, weight: true },
+    orderBy: { order: "asc" },
+  });
+}
+
+/**
+ * Load questions with choices and the objective/domain each one rolls up to
+ */
+export async function loadGradableQuestions(questionIds: string[]) {
+  const objectiveSelect = {
+    select: { id: true, domain: { select: { id: true, name: true } } },
+  } as const;
+
+  const questions = await prisma.question.findMany({
+    where: { id: { in: questionIds } },
+    select: {
+      id: true,
+      text: true,
+      type: true,
+      choices: true,
+      explanation: true,
+      revision: true,
+      objective: objectiveSelect,
+      bullet: { select: { objective: objectiveSelect } },
+      subBullet: { select: { bullet: { select: { objective: objectiveSelect } } } },
+    },
+  });
+
+  return questions.map((q) => {
+    const objective =
+      q.objective ?? q.bullet?.objective ?? q.subBullet?.bullet.objective ?? null;
+    return {
+      id: q.id,
+      text: q.text,
+      type: q.type,
+      explanation: q.explanation,
+      revision: q.revision,
+      choices: (Array.isArray(q.choices) ? q.choices : []) as unknown as GradableChoice[],
+      objectiveId: objective?.id ?? "",
+      domainId: objective?.domain.id ?? "",
+      domainName: objective?.domain.name ?? "Unmapped",
+    };
+  });
+}
@@ -0,0 +1,137 @@
+/**
+ * Practice Exam Types and Zod Schemas
+ *
+ * Type definitions and validation schemas for timed practice exams.
+ */
+
+import { z } from "zod";
+import type { ScaledScoreResult } from "@/modules/certifications/types/scoring.schema";
+
+/**
+ * Exam type enum (matches PracticeExam.examType)
+ */
+export const PracticeExamType = z.enum(["diagnostic", "weekly", "final"]);
+
+export type PracticeExamType = z.infer<typeof PracticeExamType>;
+
+/**
+ * Exam types students start here; diagnostics run through their own flow,
+ * which also records StudentDiagnostic and the learning path
+ */
+export const SelectablePracticeExamType = PracticeExamType.exclude(["diagnostic"]);
+
+export type SelectablePracticeExamType = z.infer<typeof SelectablePracticeExamType>;
+
+/**
+ * Default length and time limit for each exam type.
+ * Final exams mirror the real CompTIA format (90 questions / 90 minutes).
+ */
+export const PRACTICE_EXAM_PRESETS: Record<
+  PracticeExamType,
+  { label: string; questionCount: number; timeLimitMinutes: number }
+> = {
+  diagnostic: { label: "Diagnostic", questionCount: 30, timeLimitMinutes: 45 },
+  weekly: { label: "Weekly Practice", questionCount: 30, timeLimitMinutes: 35 },
+  final: { label: "Full-Length Final", questionCount: 90, timeLimitMinutes: 90 },
+};
+
+/**
+ * Extra time allowed after expiry before a submission is rejected
+ * (absorbs network latency on auto-submit)
+ */
+export const SUBMISSION_GRACE_SECONDS = 30;
+
+/**
+ * Schema for starting a practice exam
+ */
+export const startPracticeExamSchema = z.object({
+  examType: SelectablePracticeExamType.default("weekly"),
+  questionCount: z.number().int().positive().max(150).optional(),
+});
+
+export type StartPracticeExamInput = z.input<typeof startPracticeExamSchema>;
+
+/**
+ * Schema for submitting a practice exam
+ * answers maps questionId -> selected choice indexes
+ */
+export const submitPracticeExamSchema = z.object({
+  sessionId: z.string().cuid(),
+  answers: z.record(z.string(), z.array(z.number().int().nonnegative())),
+});
+
+export type SubmitPracticeExamInput = z.infer<typeof submitPracticeExamSchema>;
+
+/**
+ * Question as served to the student (no correctness or explanations)
+ */
+export interface ExamQuestion {
+  id: string;
+  text: string;
+  type: string; // "multiple_choice", "multiple_select", "scenario"
+  choices: { text: string }[];
+  selectCount: number; // How many choices the student must pick
+}
+
+/**
+ * Active exam session returned when an exam starts
+ */
+export interface PracticeExamSessionData {
+  sessionId: string;
+  examType: PracticeExamType;
+  certificationName: string;
+  questions: ExamQuestion[];
+  timeLimitSeconds: number;
+  startedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Per-domain score (stored in PracticeExam.domainBreakdown)
+ */
+export interface DomainBreakdownEntry {
+  domainId: string;
+  domainName: string;
+  order: number;
+  weight: number;
+  correct: number;
+  total: number;
+  percentage: number; // 0-100
+}
+
+/**
+ * Question review shown after grading
+ */
+export interface QuestionReview {
+  questionId: string;
+  text: string;
+  choices: { text: string; isCorrect: boolean; explanation?: string }[];
+  selected: number[];
+  isCorrect: boolean;
+  explanation: string;
+  domainName: string;
+}
+
+/**
+ * Graded practice exam
+ */
+export interface PracticeExamResult {
+  id: string;
+  examType: PracticeExamType;
+  certificationId: string | null;
+  certificationName: string | null;
+  score: number; // 0-100, weighted by the exam blueprint
+  correctAnswers: number;
+  totalQuestions: number;
+  readinessScore: number | null; // 0-1 pass probability
+  scaled: ScaledScoreResult | null; // Result on the certification's scale
+  domainBreakdown: DomainBreakdownEntry[];
+  timeSpentSeconds: number | null;
+  completedAt: string;
+  review?: QuestionReview[];
+}
+
+/**
+ * Practice exam history row
+ */
+export type PracticeExamSummary = Omit<PracticeExamResult, "review">;
@@ -0,0 +1,174 @@
+"use client";
+
+/**
+ * PracticeExamResults Component
+ *
+ * Score report with domain breakdown, readiness indicator and question review.
+ */
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Accordion,
+  AccordionContent,
+  AccordionItem,
+  AccordionTrigger,
+} from "@/components/ui/accordion";
+import { ArrowLeft, CheckCircle, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ScaledScoreDisplay } from "@/modules/certifications/ui/ScaledScoreDisplay";
+import type { PracticeExamResult } from "../types/practiceExam.types";
+import { PRACTICE_EXAM_PRESETS } from "../types/practiceExam.types";
+
+interface PracticeExamResultsProps {
+  result: PracticeExamResult;
+  onBack: () => void;
+}
+
+function readinessLabel(readiness: number): { label: string; className: string } {
+  if (readiness >= 0.8) return { label: "Exam Ready", className: "text-green-600 dark:text-green-400" };
+  if (readiness >= 0.5) return { label: "Almost There", className: "text-orange-600 dark:text-orange-400" };
+  return { label: "Keep Studying", className: "text-red-600 dark:text-red-400" };
+}
+
+export function PracticeExamResults({ result, onBack }: PracticeExamResultsProps) {
+  const readiness = result.readinessScore != null ? readinessLabel(result.readinessScore) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Exam Results</h1>
+          <p className="text-muted-foreground mt-2">
+            {PRACTICE_EXAM_PRESETS[result.examType].label}
+            {result.certificationName && ` · ${result.certificationName}`}
+            {" · "}
+            {new Date(result.completedAt).toLocaleString()}
+          </p>
+        </div>
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Exams
+        </Button>
+      </div>
+
+      {/* Summary */}
+      <div className={cn("grid gap-4", result.scaled ? "md:grid-cols-4" : "md:grid-cols-3")}>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Score</p>
+          <p className="text-3xl font-bold mt-1">{result.score}%</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {result.correctAnswers} of {result.totalQuestions} correct, weighted by domain
+          </p>
+        </div>
+        {result.scaled && (
+          <div className="rounded-lg border bg-card p-6">
+            <p className="text-sm text-muted-foreground">
+              {result.scaled.isScored ? "Scaled Score" : "Result"}
+            </p>
+            <ScaledScoreDisplay result={result.scaled} variant="large" className="mt-1" />
+          </div>
+        )}
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Pass Probability</p>
+          <p className={cn("text-3xl font-bold mt-1", readiness?.className)}>
+            {result.readinessScore != null ? `${Math.round(result.readinessScore * 100)}%` : "—"}
+          </p>
+          {readiness && <p className="text-xs text-muted-foreground mt-1">{readiness.label}</p>}
+        </div>
+        <div className="rounded-lg border bg-card p-6">
+          <p className="text-sm text-muted-foreground">Time Spent</p>
+          <p className="text-3xl font-bold mt-1">
+            {result.timeSpentSeconds != null ? `${Math.ceil(result.timeSpentSeconds / 60)} min` : "—"}
+          </p>
+        </div>
+      </div>
+
+      {/* Domain Breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Score by Domain</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {result.domainBreakdown.map((domain) => (
+            <div key={domain.domainId} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">
+                  {domain.order}. {domain.domainName}
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    ({Math.round(domain.weight * 100)}% of exam)
+                  </span>
+                </span>
+                <span className="text-muted-foreground">
+                  {domain.correct}/{domain.total} &middot; {domain.percentage}%
+                </span>
+              </div>
+              <Progress value={domain.percentage} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {/* Question Review */}
+      {result.review && result.review.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Question Review</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Accordion type="multiple">
+              {result.review.map((item, idx) => (
+                <AccordionItem key={item.questionId} value={item.questionId}>
+                  <AccordionTrigger className="text-left">
+                    <div className="flex items-start gap-3">
+                      {item.isCorrect ? (
+                        <CheckCircle className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />
+                      )}
+                      <span className="line-clamp-2">
+                        {idx + 1}. {item.text}
+                      </span>
+                    </div>
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-3">
+                    <Badge variant="outline">{item.domainName}</Badge>
+                    <p className="whitespace-pre-wrap">{item.text}</p>
+                    <ul className="space-y-2">
+                      {item.choices.map((choice, choiceIdx) => {
+                        const wasSelected = item.selected.includes(choiceIdx);
+                        return (
+                          <li
+                            key={choiceIdx}
+                            className={cn(
+                              "rounded-lg border p-3 text-sm",
+                              choice.isCorrect && "border-green-600 bg-green-50 dark:bg-green-950",
+                              wasSelected && !choice.isCorrect && "border-red-600 bg-red-50 dark:bg-red-950"
+                            )}
+                          >
+                            <div className="flex items-center justify-between gap-2">
+                              <span>{choice.text}</span>
+                              {wasSelected && <Badge variant="secondary">Your answer</Badge>}
+                            </div>
+                            {choice.explanation && (
+                              <p className="mt-2 text-xs text-muted-foreground">{choice.explanation}</p>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                    {item.explanation && (
+                      <p className="text-sm text-muted-foreground">{item.explanation}</p>
+                    )}
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+"use client";
+
+/**
+ * PracticeExamSession Component
+ *
+ * Timed exam runner - one question at a time with a navigator grid.
+ * Auto-submits when the timer reaches zero.
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { ConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { ChevronLeft, ChevronRight, Clock, Flag } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PracticeExamSessionData } from "../types/practiceExam.types";
+
+interface PracticeExamSessionProps {
+  session: PracticeExamSessionData;
+  isSubmitting: boolean;
+  onSubmit: (answers: Record<string, number[]>) => void;
+}
+
+function formatClock(totalSeconds: number): string {
+  const seconds = Math.max(totalSeconds, 0);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+export function PracticeExamSession({
+  session,
+  isSubmitting,
+  onSubmit,
+}: PracticeExamSessionProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, number[]>>({});
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [remaining, setRemaining] = useState(() =>
+    Math.round((new Date(session.expiresAt).getTime() - Date.now()) / 1000)
+  );
+
+  // Keep the latest answers available to the auto-submit timer
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+  const submittedRef = useRef(false);
+
+  const submit = useCallback(() => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+    onSubmit(answersRef.current);
+  }, [onSubmit]);
+
+  useEffect(() => {
+    const expiresAt = new Date(session.expiresAt).getTime();
+    const timer = setInterval(() => {
+      const seconds = Math.round((expiresAt - Date.now()) / 1000);
+      setRemaining(seconds);
+      if (seconds <= 0) {
+        clearInterval(timer);
+        submit();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [session.expiresAt, submit]);
+
+  const question = session.questions[currentIndex];
+  const selected = answers[question.id] ?? [];
+  const answeredCount = session.questions.filter((q) => (answers[q.id] ?? []).length > 0).length;
+  const isMultiSelect = question.selectCount > 1 || question.type === "multiple_select";
+
+  const selectSingle = (choiceIndex: number) => {
+    setAnswers((prev) => ({ ...prev, [question.id]: [choiceIndex] }));
+  };
+
+  const toggleMulti = (choiceIndex: number, checked: boolean) => {
+    setAnswers((prev) => {
+      const current = prev[question.id] ?? [];
+      const next = checked
+        ? [...current, choiceIndex].slice(-question.selectCount)
+        : current.filter((idx) => idx !== choiceIndex);
+      return { ...prev, [question.id]: next };
+    });
+  };
+
+  const toggleFlag = () => {
+    setFlagged((prev) => {
+      const next = new Set(prev);
+      if (next.has(question.id)) {
+        next.delete(question.id);
+      } else {
+        next.add(question.id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{session.certificationName}</h1>
+          <p className="text-sm text-muted-foreground">
+            Question {currentIndex + 1} of {session.questions.length} &middot; {answeredCount} answered
+          </p>
+        </div>
+        <div
+          className={cn(
+            "flex items-center gap-2 rounded-lg border px-4 py-2 font-mono text-lg",
+            remaining <= 300 && "border-destructive text-destructive"
+          )}
+        >
+          <Clock className="h-4 w-4" />
+          {formatClock(remaining)}
+        </div>
+      </div>
+
+      <Progress value={(answeredCount / session.questions.length) * 100} />
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_260px]">
+        {/* Question */}
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4">
+            <CardTitle className="text-lg font-medium leading-relaxed whitespace-pre-wrap">
+              {question.text}
+            </CardTitle>
+            <Button
+              variant={flagged.has(question.id) ? "secondary" : "ghost"}
+              size="icon"
+              onClick={toggleFlag}
+              title="Flag for review"
+            >
+              <Flag className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {isMultiSelect ? (
+              <div className="space-y-3">
+                <Badge variant="outline">Select {question.selectCount}</Badge>
+                {question.choices.map((choice, idx) => (
+                  <Label
+                    key={idx}
+                    htmlFor={`${question.id}-${idx}`}
+                    className="flex cursor-pointer items-start gap-3 rounded-lg border p-4 font-normal hover:bg-muted/50"
+                  >
+                    <Checkbox
+                      id={`${question.id}-${idx}`}
+                      checked={selected.includes(idx)}
+                      onCheckedChange={(checked) => toggleMulti(idx, checked === true)}
+                    />
+                    <span>{choice.text}</span>
+                  </Label>
+                ))}
+              </div>
+            ) : (
+              <RadioGroup
+                value={selected[0]?.toString() ?? ""}
+                onValueChange={(value) => selectSingle(Number(value))}
+                className="space-y-3"
+              >
+                {question.choices.map((choice, idx) => (
+                  <Label
+                    key={idx}
+                    htmlFor={`${question.id}-${idx}`}
+                    className="flex cursor-pointer items-start gap-3 rounded-lg border p-4 font-normal hover:bg-muted/50"
+                  >
+                    <RadioGroupItem value={idx.toString()} id={`${question.id}-${idx}`} />
+                    <span>{choice.text}</span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            )}
+
+            <div className="flex items-center justify-between pt-4">
+              <Button
+                variant="outline"
+                onClick={() => setCurrentIndex((i) => i - 1)}
+                disabled={currentIndex === 0}
+              >
+                <ChevronLeft className="h-4 w-4 mr-2" />
+                Previous
+              </Button>
+              {currentIndex < session.questions.length - 1 ? (
+                <Button onClick={() => setCurrentIndex((i) => i + 1)}>
+                  Next
+                  <ChevronRight className="h-4 w-4 ml-2" />
+                </Button>
+              ) : (
+                <Button onClick={() => setConfirmOpen(true)} disabled={isSubmitting}>
+                  Finish Exam
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Navigator */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-sm">Questions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-6 gap-2">
+              {session.questions.map((q, idx) => {
+                const isAnswered = (answers[q.id] ?? []).length > 0;
+                return (
+                  <button
+                    key={q.id}
+                    type="button"
+                    onClick={() => setCurrentIndex(idx)}
+                    className={cn(
+                      "relative h-8 rounded border text-xs font-medium",
+                      isAnswered && "bg-primary text-primary-foreground",
+                      idx === currentIndex && "ring-2 ring-ring ring-offset-1"
+                    )}
+                  >
+                    {idx + 1}
+                    {flagged.has(q.id) && (
+                      <span className="absolute -right-1 -top-1 h-2 w-2 rounded-full bg-orange-500" />
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+            <Button
+              className="w-full"
+              variant="outline"
+              onClick={() => setConfirmOpen(true)}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? "Submitting..." : "Submit Exam"}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+
+      <ConfirmationDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="Submit practice exam?"
+        description={
+          answeredCount < session.questions.length
+            ? `You have ${session.questions.length - answeredCount} unanswered question(s). Unanswered questions are marked incorrect.`
+            : "You have answered every question. Submit for grading?"
+        }
+        confirmText="Submit"
+        variant="warning"
+        onConfirm={submit}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+"use client";
+
+/**
+ * PracticeExamsDashboard Component
+ *
+ * Entry point for the student practice exam page: start an exam, take it,
+ * then review the graded result or any past attempt.
+ */
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileText, PlayCircle } from "lucide-react";
+import { ScaledScoreDisplay } from "@/modules/certifications/ui/ScaledScoreDisplay";
+import {
+  usePracticeExamHistory,
+  usePracticeExamResult,
+  useStartPracticeExam,
+  useSubmitPracticeExam,
+} from "../hooks/usePracticeExams";
+import { PracticeExamSession } from "./PracticeExamSession";
+import { PracticeExamResults } from "./PracticeExamResults";
+import {
+  PRACTICE_EXAM_PRESETS,
+  SelectablePracticeExamType,
+  type PracticeExamResult,
+  type PracticeExamSessionData,
+} from "../types/practiceExam.types";
+
+// Students pick from these; diagnostics run through their own flow
+const SELECTABLE_EXAM_TYPES = SelectablePracticeExamType.options;
+
+export function PracticeExamsDashboard() {
+  const [examType, setExamType] = useState<SelectablePracticeExamType>("weekly");
+  const [activeSession, setActiveSession] = useState<PracticeExamSessionData | null>(null);
+  const [latestResult, setLatestResult] = useState<PracticeExamResult | null>(null);
+  const [viewingExamId, setViewingExamId] = useState<string | null>(null);
+
+  const { data: history, isLoading } = usePracticeExamHistory();
+  const { data: viewedResult } = usePracticeExamResult(viewingExamId);
+  const startExam = useStartPracticeExam();
+  const submitExam = useSubmitPracticeExam();
+
+  const handleStart = async () => {
+    const session = await startExam.mutateAsync({ examType });
+    setLatestResult(null);
+    setActiveSession(session);
+  };
+
+  const handleSubmit = async (answers: Record<string, number[]>) => {
+    if (!activeSession) return;
+    const result = await submitExam.mutateAsync({ sessionId: activeSession.sessionId, answers });
+    setActiveSession(null);
+    setLatestResult(result);
+  };
+
+  const backToList = () => {
+    setLatestResult(null);
+    setViewingExamId(null);
+  };
+
+  if (activeSession) {
+    return (
+      <PracticeExamSession
+        session={activeSession}
+        isSubmitting={submitExam.isPending}
+        onSubmit={handleSubmit}
+      />
+    );
+  }
+
+  const resultToShow = latestResult ?? (viewingExamId ? viewedResult : null);
+  if (resultToShow) {
+    return <PracticeExamResults result={resultToShow} onBack={backToList} />;
+  }
+
+  const preset = PRACTICE_EXAM_PRESETS[examType];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Practice Exams</h1>
+          <p className="text-muted-foreground mt-2">
+            Test your knowledge and track your progress
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={examType} onValueChange={(value) => setExamType(value as SelectablePracticeExamType)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SELECTABLE_EXAM_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {PRACTICE_EXAM_PRESETS[type].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleStart} disabled={startExam.isPending}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            {startExam.isPending ? "Building Exam..." : "Start Practice Exam"}
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {preset.questionCount} questions &middot; {preset.timeLimitMinutes} minutes &middot; questions
+        are drawn from every domain in proportion to the exam blueprint.
+      </p>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <p className="text-center text-muted-foreground">Loading practice exams...</p>
+          </CardContent>
+        </Card>
+      ) : !history || history.length === 0 ? (
+        <div className="rounded-lg border border-dashed bg-muted/30 p-12 text-center">
+          <div className="mx-auto max-w-md">
+            <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-semibold mb-2">No practice exams yet</h3>
+            <p className="text-sm text-muted-foreground">
+              Start your first practice exam to see your score by domain and how ready you are for
+              the real thing.
+            </p>
+          </div>
+        </div>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="border-b bg-muted/50">
+                  <tr>
+                    <th className="p-4 text-left text-sm font-medium">Date</th>
+                    <th className="p-4 text-left text-sm font-medium">Exam</th>
+                    <th className="p-4 text-left text-sm font-medium">Score</th>
+                    <th className="p-4 text-left text-sm font-medium">Result</th>
+                    <th className="p-4 text-left text-sm font-medium">Pass Probability</th>
+                    <th className="p-4 text-right text-sm font-medium">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((exam) => (
+                    <tr key={exam.id} className="border-b last:border-0 hover:bg-muted/30">
+                      <td className="p-4 text-sm text-muted-foreground">
+                        {new Date(exam.completedAt).toLocaleDateString()}
+                      </td>
+                      <td className="p-4">
+                        <div className="flex flex-col gap-1">
+                          <Badge variant="outline" className="w-fit">
+                            {PRACTICE_EXAM_PRESETS[exam.examType]?.label ?? exam.examType}
+                          </Badge>
+                          {exam.certificationName && (
+                            <span className="text-xs text-muted-foreground">
+                              {exam.certificationName}
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      <td className="p-4 text-sm font-medium">
+                        {exam.score}%
+                        <span className="ml-2 text-xs text-muted-foreground">
+                          ({exam.correctAnswers}/{exam.totalQuestions})
+                        </span>
+                      </td>
+                      <td className="p-4 text-sm">
+                        {exam.scaled ? <ScaledScoreDisplay result={exam.scaled} /> : "—"}
+                      </td>
+                      <td className="p-4 text-sm">
+                        {exam.readinessScore != null
+                          ? `${Math.round(exam.readinessScore * 100)}%`
+                          : "—"}
+                      </td>
+                      <td className="p-4 text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setViewingExamId(exam.id)}>
+                          Review
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
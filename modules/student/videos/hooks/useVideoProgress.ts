@@ -0,0 +1,71 @@
+"use client";
+
+/**
+ * Video Progress Hooks
+ *
+ * Client hooks for the student video player.
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { getVideoPlaybackUrl } from "@/modules/content/serverActions/video.action";
+import { getStudentVideo, recordVideoHeartbeat } from "../serverActions/videoProgress.action";
+import type { RecordVideoHeartbeatInput } from "../types/videoProgress.types";
+
+/**
+ * Fetch a video with captions and the student's watch progress
+ */
+export function useStudentVideo(videoId: string) {
+  return useQuery({
+    queryKey: ["studentVideo", videoId],
+    queryFn: async () => {
+      const result = await getStudentVideo(videoId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to fetch video");
+      }
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Fetch a presigned playback URL (refreshed before it expires)
+ */
+export function useVideoPlaybackUrl(videoId: string) {
+  return useQuery({
+    queryKey: ["videoPlaybackUrl", videoId],
+    queryFn: async () => {
+      const result = await getVideoPlaybackUrl(videoId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load video");
+      }
+      return result.data;
+    },
+    staleTime: 60 * 60 * 1000, // URLs are valid for 2 hours
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Report watch time to the server
+ */
+export function useRecordVideoHeartbeat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: RecordVideoHeartbeatInput) => {
+      const result = await recordVideoHeartbeat(input);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to record video progress");
+      }
+      return result.data;
+    },
+    onSuccess: (result, input) => {
+      if (result.justCompleted) {
+        toast.success("Video complete");
+        queryClient.invalidateQueries({ queryKey: ["studentVideo", input.videoId] });
+        queryClient.invalidateQueries({ queryKey: ["learningPath"] });
+      }
+    },
+  });
+}
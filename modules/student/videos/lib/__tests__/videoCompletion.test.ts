@@ -0,0 +1,91 @@
+import {
+  creditWatchedRanges,
+  isVideoComplete,
+  mergeRanges,
+  parseWatchedRanges,
+} from '../videoCompletion'
+
+describe('mergeRanges', () => {
+  it('sorts ranges and merges the ones that overlap or touch', () => {
+    expect(
+      mergeRanges([
+        [30, 40],
+        [0, 10],
+        [10, 15],
+        [35, 50],
+      ])
+    ).toEqual([
+      [0, 15],
+      [30, 50],
+    ])
+  })
+})
+
+describe('parseWatchedRanges', () => {
+  it('keeps valid ranges and drops malformed ones', () => {
+    expect(parseWatchedRanges([[0, 10], [5, 'x'], [20, 20], [12, 18], null])).toEqual([
+      [0, 10],
+      [12, 18],
+    ])
+    expect(parseWatchedRanges({})).toEqual([])
+  })
+})
+
+describe('creditWatchedRanges', () => {
+  it('only credits parts not watched before', () => {
+    const result = creditWatchedRanges([[0, 60]], [[30, 90]], 120, 600)
+
+    expect(result.creditedSeconds).toBe(30)
+    expect(result.watched).toEqual([[0, 90]])
+  })
+
+  it('credits nothing for rewatching', () => {
+    const result = creditWatchedRanges([[0, 60]], [[10, 40]], 120, 600)
+
+    expect(result.creditedSeconds).toBe(0)
+    expect(result.watched).toEqual([[0, 60]])
+  })
+
+  it('credits no more than the time allowed, earliest first', () => {
+    const result = creditWatchedRanges(
+      [],
+      [
+        [100, 110],
+        [0, 20],
+      ],
+      15,
+      600
+    )
+
+    expect(result.creditedSeconds).toBe(15)
+    expect(result.watched).toEqual([[0, 15]])
+  })
+
+  it('fills gaps between watched parts', () => {
+    const result = creditWatchedRanges(
+      [
+        [0, 10],
+        [20, 30],
+      ],
+      [[5, 40]],
+      120,
+      600
+    )
+
+    expect(result.creditedSeconds).toBe(20)
+    expect(result.watched).toEqual([[0, 40]])
+  })
+
+  it('clips ranges to the video length when it is known', () => {
+    expect(creditWatchedRanges([], [[590, 700]], 120, 600).creditedSeconds).toBe(10)
+    expect(creditWatchedRanges([], [[590, 700]], 120, null).creditedSeconds).toBe(110)
+  })
+})
+
+describe('isVideoComplete', () => {
+  it('needs the threshold share of a known duration', () => {
+    expect(isVideoComplete(540, 600)).toBe(true)
+    expect(isVideoComplete(539, 600)).toBe(false)
+    expect(isVideoComplete(600, null)).toBe(false)
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Video Completion Helpers
+ *
+ * Pure helpers for deciding when a video is complete, how much of it has
+ * been watched and how that moves objective progress.
+ */
+
+import { VIDEO_COMPLETION_THRESHOLD } from "../types/videoProgress.types";
+
+/**
+ * A stretch of a video, [start, end] in seconds
+ */
+export type WatchedRange = [number, number];
+
+/**
+ * Sort ranges and merge the ones that overlap or touch
+ */
+export function mergeRanges(ranges: WatchedRange[]): WatchedRange[] {
+  const merged: WatchedRange[] = [];
+
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Stored watched ranges, ignoring anything malformed
+ */
+export function parseWatchedRanges(value: unknown): WatchedRange[] {
+  if (!Array.isArray(value)) return [];
+
+  return mergeRanges(
+    value.filter(
+      (range): range is WatchedRange =>
+        Array.isArray(range) &&
+        range.length === 2 &&
+        typeof range[0] === "number" &&
+        typeof range[1] === "number" &&
+        range[1] > range[0]
+    )
+  );
+}
+
+/**
+ * Add reported ranges to what was already watched. Only seconds not watched
+ * before count, clipped to the video length when it's known, and at most
+ * maxNewSeconds of them (earliest first).
+ */
+export function creditWatchedRanges(
+  watched: WatchedRange[],
+  reported: WatchedRange[],
+  maxNewSeconds: number,
+  durationSeconds: number | null
+): { watched: WatchedRange[]; creditedSeconds: number } {
+  const videoEnd = durationSeconds ?? Infinity;
+  const known = mergeRanges(watched);
+  const credited: WatchedRange[] = [];
+  let budget = Math.max(maxNewSeconds, 0);
+
+  for (const [start, end] of mergeRanges(reported)) {
+    let cursor = Math.max(start, 0);
+    const stop = Math.min(end, videoEnd);
+
+    // Walk the unwatched gaps within this range
+    for (const [watchedStart, watchedEnd] of [...known, [Infinity, Infinity] as WatchedRange]) {
+      if (budget <= 0 || cursor >= stop) break;
+      if (watchedEnd <= cursor) continue;
+
+      const gapEnd = Math.min(watchedStart, stop);
+      if (gapEnd > cursor) {
+        const take = Math.min(gapEnd - cursor, budget);
+        credited.push([cursor, cursor + take]);
+        budget -= take;
+      }
+      cursor = Math.max(cursor, watchedEnd);
+    }
+  }
+
+  return {
+    watched: mergeRanges([...known, ...credited]),
+    creditedSeconds: credited.reduce((sum, [start, end]) => sum + end - start, 0),
+  };
+}
+
+/**
+ * A video is complete once the watched share reaches the threshold
+ */
+export function isVideoComplete(watchedSeconds: number, durationSeconds: number | null): boolean {
+  if (!durationSeconds || durationSeconds <= 0) return false;
+  return watchedSeconds / durationSeconds >= VIDEO_COMPLETION_THRESHOLD;
+}
+
+/**
+ * Resolve each mapping (objective, bullet or sub-bullet) up to its objective
+ */
+export function resolveMappedObjectiveIds(
+  mappings: {
+    objectiveId: string | null;
+    bullet: { objectiveId: string } | null;
+    subBullet: { bullet: { objectiveId: string } } | null;
+  }[]
+): string[] {
+  const ids = new Set<string>();
+  for (const mapping of mappings) {
+    const objectiveId =
+      mapping.objectiveId ?? mapping.bullet?.objectiveId ?? mapping.subBullet?.bullet.objectiveId;
+    if (objectiveId) ids.add(objectiveId);
+  }
+  return Array.from(ids);
+}
+
+/**
+ * Objective status after a video completes.
+ *
+ * Watching anything starts the objective; finishing every primary video
+ * completes it. Mastery is only ever set by assessments, so it is kept.
+ */
+export function nextProgressStatus(
+  currentStatus: string,
+  completedVideoIds: string[],
+  primaryVideoIds: string[]
+): string {
+  if (currentStatus === "mastered") return currentStatus;
+
+  const allWatched =
+    primaryVideoIds.length > 0 && primaryVideoIds.every((id) => completedVideoIds.includes(id));
+  if (allWatched) return "completed";
+
+  return currentStatus === "not_started" ? "in_progress" : currentStatus;
+}
@@ -0,0 +1,289 @@
+"use server";
+
+/**
+ * Video Progress Server Actions
+ *
+ * Loads videos for the student player and records watch heartbeats into
+ * VideoCompletion, rolling completions up to StudentProgress.
+ */
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { withPermission } from "@/lib/middleware/withPermission";
+import { generatePresignedDownloadUrl } from "@/lib/s3/presignedUrl";
+import { AuthContext, NotFoundError } from "@/lib/auth/types";
+import {
+  creditWatchedRanges,
+  isVideoComplete,
+  nextProgressStatus,
+  parseWatchedRanges,
+  resolveMappedObjectiveIds,
+} from "../lib/videoCompletion";
+import {
+  MAX_PLAYBACK_RATE,
+  recordVideoHeartbeatSchema,
+  type RecordVideoHeartbeatInput,
+  type StudentVideo,
+  type VideoHeartbeatResult,
+} from "../types/videoProgress.types";
+
+/**
+ * Fetch the WebVTT captions for a video (null when missing or unreachable)
+ */
+async function loadCaptions(video: {
+  captionsVttUrl: string | null;
+  captionsVttS3Key: string | null;
+}): Promise<string | null> {
+  if (!video.captionsVttUrl && !video.captionsVttS3Key) return null;
+
+  try {
+    // Prefer a presigned URL so private buckets work too
+    const url = video.captionsVttS3Key
+      ? await generatePresignedDownloadUrl(video.captionsVttS3Key, 300)
+      : video.captionsVttUrl!;
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.warn(`[loadCaptions] Failed to fetch captions: ${response.status}`);
+      return null;
+    }
+    return await response.text();
+  } catch (error) {
+    console.warn("[loadCaptions] Failed to fetch captions:", error);
+    return null;
+  }
+}
+
+/**
+ * Update StudentProgress for every objective the video is mapped to
+ */
+async function recordObjectiveProgress(
+  tx: Prisma.TransactionClient,
+  studentId: string,
+  videoId: string,
+  now: Date
+): Promise<void> {
+  const mappings = await tx.videoContentMapping.findMany({
+    where: { videoId },
+    select: {
+      objectiveId: true,
+      bullet: { select: { objectiveId: true } },
+      subBullet: { select: { bullet: { select: { objectiveId: true } } } },
+    },
+  });
+
+  for (const objectiveId of resolveMappedObjectiveIds(mappings)) {
+    const [existing, primaryMappings] = await Promise.all([
+      tx.studentProgress.findUnique({
+        where: { studentId_objectiveId: { studentId, objectiveId } },
+        select: { status: true, videoCompletionIds: true, completedAt: true },
+      }),
+      tx.videoContentMapping.findMany({
+        where: {
+          isPrimary: true,
+          video: { isActive: true },
+          OR: [
+            { objectiveId },
+            { bullet: { objectiveId } },
+            { subBullet: { bullet: { objectiveId } } },
+          ],
+        },
+        select: { videoId: true },
+      }),
+    ]);
+
+    const videoCompletionIds = Array.from(
+      new Set([...(existing?.videoCompletionIds ?? []), videoId])
+    );
+    const status = nextProgressStatus(
+      existing?.status ?? "not_started",
+      videoCompletionIds,
+      primaryMappings.map((m) => m.videoId)
+    );
+    const completedAt =
+      existing?.completedAt ?? (status === "completed" || status === "mastered" ? now : null);
+
+    await tx.studentProgress.upsert({
+      where: { studentId_objectiveId: { studentId, objectiveId } },
+      create: { studentId, objectiveId, status, videoCompletionIds, lastAccessed: now, completedAt },
+      update: { status, videoCompletionIds, lastAccessed: now, completedAt },
+    });
+  }
+}
+
+/**
+ * Get a video for the student player, with captions and watch progress
+ */
+export const getStudentVideo = withPermission("content.read")(
+  async (
+    user: AuthContext,
+    videoId: string
+  ): Promise<{ success: boolean; data?: StudentVideo; error?: string }> => {
+    try {
+      const video = await prisma.video.findUnique({
+        where: { id: videoId },
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          duration: true,
+          isActive: true,
+          captionsVttUrl: true,
+          captionsVttS3Key: true,
+          completions: {
+            where: { studentId: user.userId },
+            select: { watchedSeconds: true, completed: true },
+          },
+          // Only mappings that point at a part of the video
+          contentMappings: {
+            where: { startSeconds: { not: null } },
+            orderBy: { startSeconds: "asc" },
+            select: {
+              id: true,
+              startSeconds: true,
+              endSeconds: true,
+              objective: { select: { code: true, description: true } },
+              bullet: { select: { text: true, objective: { select: { code: true } } } },
+              subBullet: {
+                select: { text: true, bullet: { select: { objective: { select: { code: true } } } } },
+              },
+            },
+          },
+        },
+      });
+
+      if (!video || !video.isActive) {
+        throw new NotFoundError("Video not found");
+      }
+
+      const completion = video.completions[0];
+
+      return {
+        success: true,
+        data: {
+          id: video.id,
+          title: video.title,
+          description: video.description,
+          duration: video.duration,
+          captionsVtt: await loadCaptions(video),
+          sections: video.contentMappings.map((mapping) => ({
+            mappingId: mapping.id,
+            code:
+              mapping.subBullet?.bullet.objective.code ??
+              mapping.bullet?.objective.code ??
+              mapping.objective?.code ??
+              "",
+            text:
+              mapping.subBullet?.text ?? mapping.bullet?.text ?? mapping.objective?.description ?? "",
+            startSeconds: mapping.startSeconds ?? 0,
+            endSeconds: mapping.endSeconds,
+          })),
+          watchedSeconds: completion?.watchedSeconds ?? 0,
+          completed: completion?.completed ?? false,
+        },
+      };
+    } catch (error) {
+      console.error("[getStudentVideo] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch video",
+      };
+    }
+  }
+);
+
+/**
+ * Record a playback heartbeat
+ *
+ * Adds the parts of the reported ranges not watched before, no more than the
+ * time since the previous heartbeat allows, and marks the video complete once
+ * more than 90% has been watched. Completion waits until the video's duration
+ * is known. The first completion updates StudentProgress for every objective
+ * the video is mapped to.
+ */
+export const recordVideoHeartbeat = withPermission("progress.update")(
+  async (
+    user: AuthContext,
+    input: RecordVideoHeartbeatInput
+  ): Promise<{ success: boolean; data?: VideoHeartbeatResult; error?: string }> => {
+    try {
+      const validated = recordVideoHeartbeatSchema.parse(input);
+
+      const video = await prisma.video.findUnique({
+        where: { id: validated.videoId },
+        select: { id: true, duration: true, isActive: true },
+      });
+
+      if (!video || !video.isActive) {
+        throw new NotFoundError("Video not found");
+      }
+
+      const duration = video.duration;
+      const now = new Date();
+
+      const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const existing = await tx.videoCompletion.findUnique({
+          where: { studentId_videoId: { studentId: user.userId, videoId: video.id } },
+          select: { id: true, watchedSeconds: true, watchedRanges: true, completed: true, updatedAt: true },
+        });
+
+        // The first heartbeat only starts the clock the next one is measured against
+        if (!existing) {
+          await tx.videoCompletion.upsert({
+            where: { studentId_videoId: { studentId: user.userId, videoId: video.id } },
+            create: { studentId: user.userId, videoId: video.id, watchedSeconds: 0 },
+            update: {},
+          });
+          return { watchedSeconds: 0, completed: false, justCompleted: false };
+        }
+
+        const elapsedSeconds = Math.max(now.getTime() - existing.updatedAt.getTime(), 0) / 1000;
+        const credit = creditWatchedRanges(
+          parseWatchedRanges(existing.watchedRanges),
+          validated.ranges,
+          elapsedSeconds * MAX_PLAYBACK_RATE,
+          duration
+        );
+
+        const total = existing.watchedSeconds + Math.round(credit.creditedSeconds);
+        const watchedSeconds = duration ? Math.min(total, duration) : total;
+        const wasCompleted = existing.completed;
+        const completed = wasCompleted || isVideoComplete(watchedSeconds, duration);
+        const justCompleted = completed && !wasCompleted;
+
+        // Only if no other heartbeat was recorded since this one read the row
+        const updated = await tx.videoCompletion.updateMany({
+          where: { id: existing.id, updatedAt: existing.updatedAt },
+          data: {
+            watchedSeconds,
+            watchedRanges: credit.watched,
+            completed,
+            updatedAt: now,
+            ...(justCompleted && { completedAt: now }),
+          },
+        });
+        if (updated.count === 0) {
+          return { watchedSeconds: existing.watchedSeconds, completed: wasCompleted, justCompleted: false };
+        }
+
+        if (justCompleted) {
+          await recordObjectiveProgress(tx, user.userId, video.id, now);
+        }
+
+        return { watchedSeconds, completed, justCompleted };
+      });
+
+      if (result.justCompleted) {
+        revalidatePath("/dashboard/learning-path");
+      }
+
+      return { success: true, data: result };
+    } catch (error) {
+      console.error("[recordVideoHeartbeat] Error:", error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to record video progress",
+      };
+    }
+  }
+);
@@ -0,0 +1,82 @@
+/**
+ * Video Progress Types and Zod Schemas
+ *
+ * Type definitions for student video playback tracking.
+ */
+
+import { z } from "zod";
+
+/**
+ * Share of a video that must be watched before it counts as complete
+ */
+export const VIDEO_COMPLETION_THRESHOLD = 0.9;
+
+/**
+ * How often the player reports watch time, and the most a single
+ * heartbeat may add (guards against inflated reports)
+ */
+export const HEARTBEAT_INTERVAL_SECONDS = 15;
+export const MAX_HEARTBEAT_SECONDS = 120;
+export const MAX_HEARTBEAT_RANGES = 20;
+
+/**
+ * Fastest playback speed credited in full: a heartbeat adds at most this many
+ * seconds of video per second of wall-clock time since the previous one
+ */
+export const MAX_PLAYBACK_RATE = 2;
+
+const watchedRangeSchema = z
+  .tuple([z.number().nonnegative(), z.number().nonnegative()])
+  .refine(([start, end]) => end > start, "Range must end after it starts");
+
+/**
+ * Schema for a playback heartbeat
+ * ranges are the [start, end] stretches of the video played since the
+ * previous heartbeat (empty when playback starts)
+ */
+export const recordVideoHeartbeatSchema = z.object({
+  videoId: z.string().cuid(),
+  ranges: z
+    .array(watchedRangeSchema)
+    .max(MAX_HEARTBEAT_RANGES)
+    .refine(
+      (ranges) => ranges.reduce((sum, [start, end]) => sum + end - start, 0) <= MAX_HEARTBEAT_SECONDS,
+      "Too much watch time in one heartbeat"
+    ),
+});
+
+export type RecordVideoHeartbeatInput = z.infer<typeof recordVideoHeartbeatSchema>;
+
+/**
+ * Part of a video that covers an objective, bullet or sub-bullet
+ */
+export interface VideoSection {
+  mappingId: string;
+  code: string; // Objective code
+  text: string; // Sub-bullet, bullet or objective text
+  startSeconds: number;
+  endSeconds: number | null;
+}
+
+/**
+ * Video as loaded into the student player
+ */
+export interface StudentVideo {
+  id: string;
+  title: string;
+  description: string | null;
+  duration: number | null; // Seconds
+  captionsVtt: string | null; // WebVTT text (served inline to avoid cross-origin track loading)
+  sections: VideoSection[]; // In playback order
+  watchedSeconds: number;
+  completed: boolean;
+}
+
+/**
+ * Result of recording a heartbeat
+ */
+export interface VideoHeartbeatResult {
+  watchedSeconds: number;
+  completed: boolean;
+  justCompleted: boolean; // True only on the heartbeat that crossed the threshold
+}
@@ -0,0 +1,216 @@
+"use client";
+
+/**
+ * VideoPlayer Component
+ *
+ * Student video player with closed captions. Tracks the stretches of the
+ * video actually played (seeking ahead does not count) and reports them in
+ * periodic heartbeats.
+ * Can be told to jump to a time, e.g. the part of the video covering a topic.
+ */
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, Loader2 } from "lucide-react";
+import {
+  useRecordVideoHeartbeat,
+  useStudentVideo,
+  useVideoPlaybackUrl,
+} from "../hooks/useVideoProgress";
+import type { WatchedRange } from "../lib/videoCompletion";
+import {
+  HEARTBEAT_INTERVAL_SECONDS,
+  MAX_HEARTBEAT_RANGES,
+  MAX_HEARTBEAT_SECONDS,
+} from "../types/videoProgress.types";
+
+interface VideoPlayerProps {
+  videoId: string;
+  seekTo?: { seconds: number } | null; // A new object jumps again, even to the same time
+}
+
+// Largest jump between timeupdate events still treated as normal playback
+// (covers 2x speed and throttled background tabs)
+const MAX_PLAYBACK_STEP_SECONDS = 3;
+
+export function VideoPlayer({ videoId, seekTo }: VideoPlayerProps) {
+  const { data: video, isLoading, error } = useStudentVideo(videoId);
+  const { data: playback, error: playbackError } = useVideoPlaybackUrl(videoId);
+  const heartbeat = useRecordVideoHeartbeat();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastTimeRef = useRef(0);
+  const rangeStartRef = useRef<number | null>(null); // Start of the stretch playing now
+  const pendingRangesRef = useRef<WatchedRange[]>([]);
+  const pendingSeekRef = useRef<number | null>(null);
+  const sendRef = useRef(heartbeat.mutate);
+  sendRef.current = heartbeat.mutate;
+
+  // Serve captions from memory so the track never needs a cross-origin request
+  const captionsUrl = useMemo(() => {
+    if (!video?.captionsVtt) return null;
+    return URL.createObjectURL(new Blob([video.captionsVtt], { type: "text/vtt" }));
+  }, [video?.captionsVtt]);
+
+  useEffect(() => {
+    return () => {
+      if (captionsUrl) URL.revokeObjectURL(captionsUrl);
+    };
+  }, [captionsUrl]);
+
+  const closeRange = () => {
+    const start = rangeStartRef.current;
+    if (start !== null && lastTimeRef.current > start) {
+      pendingRangesRef.current.push([start, lastTimeRef.current]);
+    }
+    rangeStartRef.current = null;
+  };
+
+  // Send what was played since the last heartbeat (always, when starting playback)
+  const flush = useCallback(
+    (force = false) => {
+      const start = rangeStartRef.current;
+      if (start !== null && lastTimeRef.current > start) {
+        pendingRangesRef.current.push([start, lastTimeRef.current]);
+        rangeStartRef.current = lastTimeRef.current;
+      }
+
+      const ranges: WatchedRange[] = [];
+      let seconds = 0;
+      while (pendingRangesRef.current.length > 0 && ranges.length < MAX_HEARTBEAT_RANGES) {
+        const [rangeStart, rangeEnd] = pendingRangesRef.current[0];
+        const take = Math.min(rangeEnd - rangeStart, MAX_HEARTBEAT_SECONDS - seconds);
+        if (take <= 0) break;
+        ranges.push([rangeStart, rangeStart + take]);
+        seconds += take;
+        if (rangeStart + take >= rangeEnd) {
+          pendingRangesRef.current.shift();
+        } else {
+          pendingRangesRef.current[0] = [rangeStart + take, rangeEnd];
+        }
+      }
+
+      if (ranges.length === 0 && !force) return;
+      sendRef.current({ videoId, ranges });
+    },
+    [videoId]
+  );
+
+  useEffect(() => {
+    const timer = setInterval(() => flush(), HEARTBEAT_INTERVAL_SECONDS * 1000);
+    return () => {
+      clearInterval(timer);
+      flush();
+    };
+  }, [flush]);
+
+  const handleTimeUpdate = () => {
+    const element = videoRef.current;
+    if (!element) return;
+    const step = element.currentTime - lastTimeRef.current;
+    if (!element.paused && step > 0 && step <= MAX_PLAYBACK_STEP_SECONDS) {
+      rangeStartRef.current ??= lastTimeRef.current;
+    } else {
+      closeRange();
+    }
+    lastTimeRef.current = element.currentTime;
+  };
+
+  const handleSeeking = () => {
+    closeRange();
+  };
+
+  const handleSeeked = () => {
+    lastTimeRef.current = videoRef.current?.currentTime ?? 0;
+  };
+
+  const handlePause = () => {
+    closeRange();
+    flush();
+  };
+
+  // Jump now if the video is ready, otherwise once its metadata loads
+  useEffect(() => {
+    if (!seekTo) return;
+    const element = videoRef.current;
+    if (element && element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      element.currentTime = seekTo.seconds;
+    } else {
+      pendingSeekRef.current = seekTo.seconds;
+    }
+  }, [seekTo]);
+
+  const handleLoadedMetadata = () => {
+    const element = videoRef.current;
+    if (element && pendingSeekRef.current !== null) {
+      element.currentTime = pendingSeekRef.current;
+      pendingSeekRef.current = null;
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || playbackError || !video) {
+    return (
+      <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+        <p className="text-sm text-muted-foreground">
+          {(error ?? playbackError)?.message || "Failed to load video"}
+        </p>
+      </div>
+    );
+  }
+
+  const percentWatched = video.duration
+    ? Math.min((video.watchedSeconds / video.duration) * 100, 100)
+    : 0;
+
+  return (
+    <div className="space-y-3">
+      {playback ? (
+        <video
+          ref={videoRef}
+          src={playback.url}
+          controls
+          controlsList="nodownload"
+          className="aspect-video w-full rounded-lg bg-black"
+          onTimeUpdate={handleTimeUpdate}
+          onSeeking={handleSeeking}
+          onSeeked={handleSeeked}
+          onLoadedMetadata={handleLoadedMetadata}
+          onPlay={() => flush(true)}
+          onPause={handlePause}
+          onEnded={handlePause}
+        >
+          {captionsUrl && (
+            <track kind="captions" src={captionsUrl} srcLang="en" label="English" default />
+          )}
+        </video>
+      ) : (
+        <div className="aspect-video bg-muted rounded-lg flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        {video.completed ? (
+          <Badge variant="secondary" className="gap-1">
+            <CheckCircle className="h-3 w-3" />
+            Completed
+          </Badge>
+        ) : (
+          <>
+            <Progress value={percentWatched} className="flex-1" />
+            <span className="text-xs text-muted-foreground">{Math.round(percentWatched)}% watched</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+"use client";
+
+/**
+ * VideoWatchView Component
+ *
+ * Full-page video lesson: title, player, the parts of the video covering
+ * each exam topic (click to jump there) and description.
+ */
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, PlayCircle } from "lucide-react";
+import { formatTimeRange } from "@/modules/content/lib/segmentMapping";
+import { useStudentVideo } from "../hooks/useVideoProgress";
+import { VideoPlayer } from "./VideoPlayer";
+
+interface VideoWatchViewProps {
+  videoId: string;
+  startSeconds?: number; // From a link to part of the video
+}
+
+export function VideoWatchView({ videoId, startSeconds }: VideoWatchViewProps) {
+  const { data: video } = useStudentVideo(videoId);
+  const [seekTo, setSeekTo] = useState(
+    startSeconds !== undefined ? { seconds: startSeconds } : null
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h1 className="text-3xl font-bold tracking-tight">{video?.title ?? "Video"}</h1>
+        <Button variant="outline" asChild>
+          <Link href="/dashboard/learning-path">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Learning Path
+          </Link>
+        </Button>
+      </div>
+
+      <VideoPlayer videoId={videoId} seekTo={seekTo} />
+
+      {video && video.sections.length > 0 && (
+        <div className="space-y-2">
+          <h2 className="text-sm font-medium">In this video</h2>
+          <ul className="space-y-1">
+            {video.sections.map((section) => (
+              <li key={section.mappingId}>
+                <button
+                  type="button"
+                  onClick={() => setSeekTo({ seconds: section.startSeconds })}
+                  className="flex w-full items-start gap-3 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+                >
+                  <span className="flex shrink-0 items-center gap-1 font-mono text-xs text-primary">
+                    <PlayCircle className="h-3 w-3" />
+                    {formatTimeRange(section.startSeconds, section.endSeconds)}
+                  </span>
+                  <span>
+                    <span className="text-muted-foreground">{section.code}</span> {section.text}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {video?.description && (
+        <p className="whitespace-pre-line text-sm text-muted-foreground">{video.description}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+-- Content search triggers
+--
+-- Keeps the videos and documents search_vector columns current. db push
+-- creates the columns and their GIN indexes but not triggers, so
+-- `yarn db:push` runs this file after every push. Safe to re-run.
+--
+-- Weights: titles and video codes rank highest, then descriptions, then
+-- transcripts.
+
+CREATE OR REPLACE FUNCTION videos_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.video_code, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(NEW.transcript, '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS videos_search_vector_trigger ON videos;
+CREATE TRIGGER videos_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, video_code, description, transcript ON videos
+  FOR EACH ROW EXECUTE FUNCTION videos_search_vector_update();
+
+CREATE OR REPLACE FUNCTION documents_search_vector_update() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS documents_search_vector_trigger ON documents;
+CREATE TRIGGER documents_search_vector_trigger
+  BEFORE INSERT OR UPDATE OF title, description ON documents
+  FOR EACH ROW EXECUTE FUNCTION documents_search_vector_update();
+
+-- Backfill rows written before the triggers existed; touching a watched
+-- column fires the trigger
+UPDATE videos SET title = title WHERE search_vector IS NULL;
+UPDATE documents SET title = title WHERE search_vector IS NULL;
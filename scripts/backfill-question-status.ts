@@ -0,0 +1,45 @@
+/**
+ * Backfill Question Status
+ *
+ * Questions created before the review workflow were live as soon as they were
+ * saved. Publishes the active ones and retires the rest so students keep
+ * seeing the same questions. Run once after adding the status field, passing
+ * when it was added: questions created since then are real drafts and are
+ * left alone.
+ *
+ * Usage: npx tsx scripts/backfill-question-status.ts <status field added at, e.g. 2026-10-19T12:00:00Z>
+ */
+
+import { prisma } from "../lib/prisma";
+
+async function main() {
+  const cutoff = new Date(process.argv[2] ?? "");
+
+  if (Number.isNaN(cutoff.getTime())) {
+    console.error(
+      "❌ Usage: npx tsx scripts/backfill-question-status.ts <status field added at, e.g. 2026-10-19T12:00:00Z>"
+    );
+    process.exit(1);
+  }
+
+  console.log(`\n🔧 Backfilling review status of questions created before ${cutoff.toISOString()}...\n`);
+
+  // New columns default to draft; only older questions untouched since then are backfilled
+  const backfillable = { status: "draft", createdAt: { lt: cutoff }, reviewEvents: { none: {} } } as const;
+  const published = await prisma.question.updateMany({
+    where: { ...backfillable, isActive: true },
+    data: { status: "published" },
+  });
+  const retired = await prisma.question.updateMany({
+    where: { ...backfillable, isActive: false },
+    data: { status: "retired" },
+  });
+
+  console.log(`📊 Summary:`);
+  console.log(`  Published: ${published.count}`);
+  console.log(`  Retired: ${retired.count}`);
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,68 @@
+/**
+ * Index Content for Search by Meaning
+ *
+ * Splits transcribed videos and uploaded documents into passages and embeds
+ * them for the content library's "search by meaning". New videos and
+ * documents are indexed automatically; run this once to index what was
+ * uploaded before, or with --all to re-index everything (e.g. after changing
+ * the embedding model).
+ *
+ * Usage: npx tsx scripts/index-content-chunks.ts [--all]
+ */
+
+import { prisma } from "../lib/prisma";
+import {
+  indexDocumentChunks,
+  indexVideoChunks,
+} from "../modules/content/services/contentChunk.service";
+
+async function main() {
+  const reindexAll = process.argv.includes("--all");
+  const unindexed = reindexAll ? {} : { chunks: { none: {} } };
+
+  console.log(`\n🔎 Indexing ${reindexAll ? "all" : "unindexed"} content for search by meaning...\n`);
+
+  const videos = await prisma.video.findMany({
+    where: { isActive: true, transcript: { not: null }, ...unindexed },
+    select: { id: true, title: true },
+  });
+  const documents = await prisma.document.findMany({
+    where: { isActive: true, ...unindexed },
+    select: { id: true, title: true },
+  });
+
+  let chunks = 0;
+  let failed = 0;
+
+  for (const video of videos) {
+    try {
+      const count = await indexVideoChunks(video.id);
+      chunks += count;
+      console.log(`  ✅ Video: ${video.title} (${count} chunks)`);
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Video: ${video.title}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  for (const document of documents) {
+    try {
+      const count = await indexDocumentChunks(document.id);
+      chunks += count;
+      console.log(`  ✅ Document: ${document.title} (${count} chunks)`);
+    } catch (error) {
+      failed++;
+      console.error(`  ❌ Document: ${document.title}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`\n📊 Summary:`);
+  console.log(`  Videos: ${videos.length}`);
+  console.log(`  Documents: ${documents.length}`);
+  console.log(`  Chunks indexed: ${chunks}`);
+  console.log(`  Failed: ${failed}`);
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());